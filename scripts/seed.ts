@@ -12,6 +12,7 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { hash } from 'bcryptjs';
 import { generateShareCode, generateOrderNumber } from '../src/lib/utils';
+import { DEFAULT_TAX_RULES } from '../src/lib/tax/rates';
 
 const prisma = new PrismaClient();
 
@@ -1088,6 +1089,28 @@ async function seedReviews() {
   console.log(`✅ Created reviews for products`);
 }
 
+async function seedTaxRates() {
+  console.log('🧾 Seeding tax rates...');
+
+  await prisma.taxRate.deleteMany();
+
+  for (const rule of DEFAULT_TAX_RULES) {
+    await prisma.taxRate.create({
+      data: {
+        country: rule.country,
+        state: rule.state ?? null,
+        name: rule.name,
+        rate: rule.rate,
+        shippingTaxable: rule.shippingTaxable,
+        isIncludedInPrice: rule.isIncludedInPrice,
+        exemptions: rule.exemptions as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  console.log(`✅ Created ${DEFAULT_TAX_RULES.length} tax rates`);
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const shouldClean = args.includes('--clean');
@@ -1107,6 +1130,7 @@ async function main() {
     await seedOrders();
     await seedRegistries();
     await seedReviews();
+    await seedTaxRates();
     
     console.log('');
     console.log('🎉 Database seed completed successfully!');
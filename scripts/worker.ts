@@ -0,0 +1,53 @@
+/**
+ * Background Job Worker
+ *
+ * Long-running process that works through the background job queue.
+ * Run as many as needed; each type's concurrency limit holds across them.
+ * SIGTERM or SIGINT stops claiming new jobs and waits for running ones.
+ * Run with: pnpm worker
+ *
+ * @example
+ * pnpm worker
+ * pnpm worker --types import.product,import.batch
+ */
+
+import { runWorker } from '../src/lib/jobs/worker';
+import { isJobType } from '../src/lib/jobs/settings';
+import { prisma } from '../src/lib/prisma';
+
+function parseTypes(): string[] | undefined {
+  const index = process.argv.indexOf('--types');
+  if (index === -1) return undefined;
+  return (process.argv[index + 1] ?? '').split(',').map((type) => type.trim()).filter(Boolean);
+}
+
+async function main() {
+  const types = parseTypes();
+  const unknown = types?.filter((type) => !isJobType(type)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`Unknown job types: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const controller = new AbortController();
+  const stop = (signal: string) => {
+    console.log(`${signal} received, finishing running jobs...`);
+    controller.abort();
+  };
+  process.once('SIGTERM', () => stop('SIGTERM'));
+  process.once('SIGINT', () => stop('SIGINT'));
+
+  await runWorker({
+    types: types?.filter(isJobType),
+    signal: controller.signal,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('Worker crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
+import { cookies } from 'next/headers';
 import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
 import { AddressType } from '@prisma/client';
 
@@ -58,7 +59,9 @@ export type SetDefaultAddressInput = z.infer<typeof setDefaultAddressSchema>;
 /**
  * Create a new address
  *
- * Creates a new address for the current user.
+ * Creates a new address for the current user. Guests at checkout save
+ * theirs against their cart session instead, never as a default, until
+ * they claim their orders with an account.
  *
  * @param input - Address data
  * @returns Result object with the created address or error
@@ -77,9 +80,11 @@ export type SetDefaultAddressInput = z.infer<typeof setDefaultAddressSchema>;
  */
 export async function createAddress(input: AddressInput): Promise<ActionResult<{ addressId: string }>> {
   try {
-    // Get current user
+    // Get current user, or the guest's cart session
     const user = await getCurrentUser();
-    if (!user) {
+    const cookieStore = await cookies();
+    const guestSessionId = user ? null : cookieStore.get('cart_session')?.value;
+    if (!user && !guestSessionId) {
       throw new UnauthorizedError('You must be logged in to add an address');
     }
 
@@ -95,7 +100,7 @@ export async function createAddress(input: AddressInput): Promise<ActionResult<{
     const data = validatedFields.data;
 
     // If this is set as default, unset any existing default of the same type
-    if (data.isDefault) {
+    if (user && data.isDefault) {
       const addressType = data.type as AddressType;
       await prisma.address.updateMany({
         where: {
@@ -114,7 +119,8 @@ export async function createAddress(input: AddressInput): Promise<ActionResult<{
     // Create address
     const address = await prisma.address.create({
       data: {
-        userId: user.id,
+        userId: user?.id ?? null,
+        guestSessionId,
         firstName: data.firstName,
         lastName: data.lastName,
         company: data.company,
@@ -125,7 +131,7 @@ export async function createAddress(input: AddressInput): Promise<ActionResult<{
         zip: data.zip,
         country: data.country,
         phone: data.phone,
-        isDefault: data.isDefault,
+        isDefault: user ? data.isDefault : false,
         type: data.type as AddressType,
       },
     });
@@ -6,6 +6,8 @@ import { signIn as nextAuthSignIn, signOut as nextAuthSignOut } from '@/lib/auth
 import { hashPassword, validatePasswordStrength, verifyPassword } from '@/lib/auth-helpers';
 import { sendVerificationEmail, verifyEmail as verifyEmailAddress, resendVerificationEmail } from '@/lib/email-verification';
 import { initiatePasswordReset, resetPassword as resetUserPassword } from '@/lib/password-reset';
+import { rateLimiter, getClientIp, SIGNUP_RATE_LIMIT } from '@/lib/rate-limiter';
+import { headers } from 'next/headers';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 
@@ -122,6 +124,15 @@ export async function signUp(input: SignUpInput): Promise<ActionResult<{ userId:
 
     const { email, password, firstName, lastName } = validatedFields.data;
 
+    // Check rate limit
+    const rateLimit = await rateLimiter.limit(getClientIp(await headers()), SIGNUP_RATE_LIMIT);
+    if (rateLimit.limited) {
+      return {
+        success: false,
+        error: 'Too many sign up attempts. Please try again later.',
+      };
+    }
+
     // Validate password strength
     const passwordValidation = validatePasswordStrength(password);
     if (!passwordValidation.isValid) {
@@ -366,7 +377,7 @@ export async function updatePassword(input: UpdatePasswordInput): Promise<Action
  * @example
  * const result = await verifyEmail({ token: 'verification-token-from-email' });
  */
-export async function verifyEmail(input: VerifyEmailInput): Promise<ActionResult> {
+export async function verifyEmail(input: VerifyEmailInput): Promise<ActionResult<{ claimedOrders: number }>> {
   try {
     // Validate input
     const validatedFields = verifyEmailSchema.safeParse(input);
@@ -388,6 +399,7 @@ export async function verifyEmail(input: VerifyEmailInput): Promise<ActionResult
 
     return {
       success: result.success,
+      data: result.success ? { claimedOrders: result.claimedOrders ?? 0 } : undefined,
       error: result.success ? undefined : result.message,
     };
   } catch (error) {
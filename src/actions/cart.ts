@@ -4,8 +4,18 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser, getUserId } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError, OutOfStockError, InsufficientStockError } from '@/lib/errors';
+import { UnauthorizedError, NotFoundError, ValidationError, BadRequestError, OutOfStockError, InsufficientStockError, DiscountError } from '@/lib/errors';
 import { cookies } from 'next/headers';
+import { getGiftCartRegistryId, getRemainingQuantity } from '@/lib/registry/gifts';
+import {
+  getCartSavings,
+  getDiscountRule,
+  resolveCartSavings,
+  syncFreeGiftLines,
+  toPromotionLines,
+  type DiscountType,
+  type PromotionActionType,
+} from '@/lib/promotions';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -31,6 +41,17 @@ const addToCartSchema = z.object({
 
 export type AddToCartInput = z.infer<typeof addToCartSchema>;
 
+/**
+ * Add registry item to cart input schema
+ */
+const addRegistryItemToCartSchema = z.object({
+  shareCode: z.string().min(1, 'Share code is required'),
+  itemId: z.string().cuid('Invalid item ID'),
+  quantity: z.number().int().positive('Quantity must be at least 1').max(99, 'Maximum quantity is 99'),
+});
+
+export type AddRegistryItemToCartInput = z.infer<typeof addRegistryItemToCartSchema>;
+
 /**
  * Update cart item input schema
  */
@@ -92,8 +113,13 @@ async function getOrCreateCart(): Promise<{ id: string; userId: string | null; s
       });
 
       if (sessionCart && sessionCart.userId !== userId) {
-        // Merge session cart items into user cart
+        // Merge session cart items into user cart; free gifts are added
+        // back if the merged cart still qualifies
         for (const item of sessionCart.items) {
+          if (item.promotionId) {
+            continue;
+          }
+
           const existingItem = await prisma.cartItem.findUnique({
             where: {
               cartId_variantId: {
@@ -116,11 +142,20 @@ async function getOrCreateCart(): Promise<{ id: string; userId: string | null; s
                 cartId: cart.id,
                 variantId: item.variantId,
                 quantity: item.quantity,
+                registryItemId: item.registryItemId,
               },
             });
           }
         }
 
+        // Keep the discount code applied before signing in
+        if (sessionCart.discountCodeId && !cart.discountCodeId) {
+          cart = await prisma.cart.update({
+            where: { id: cart.id },
+            data: { discountCodeId: sessionCart.discountCodeId },
+          });
+        }
+
         // Delete session cart
         await prisma.cart.delete({ where: { id: sessionCart.id } });
       }
@@ -236,6 +271,18 @@ export async function addToCart(input: AddToCartInput): Promise<ActionResult<{ i
     // Get or create cart
     const cart = await getOrCreateCart();
 
+    // Registry gifts ship to the registrant, so they can't share a cart
+    const giftItem = await prisma.cartItem.findFirst({
+      where: { cartId: cart.id, registryItemId: { not: null } },
+      select: { id: true },
+    });
+    if (giftItem) {
+      return {
+        success: false,
+        error: 'Your cart has registry gifts in it. Please check them out before adding other items.',
+      };
+    }
+
     // Check if item already exists in cart
     const existingItem = await prisma.cartItem.findUnique({
       where: {
@@ -258,10 +305,11 @@ export async function addToCart(input: AddToCartInput): Promise<ActionResult<{ i
         };
       }
 
-      // Update quantity
+      // Update quantity. Adding more of a free gift makes it an ordinary
+      // line; the promotion still takes the gift off it.
       cartItem = await prisma.cartItem.update({
         where: { id: existingItem.id },
-        data: { quantity: newQuantity },
+        data: { quantity: newQuantity, promotionId: null },
       });
     } else {
       // Create new cart item
@@ -290,6 +338,167 @@ export async function addToCart(input: AddToCartInput): Promise<ActionResult<{ i
   }
 }
 
+/**
+ * Add a registry item to the cart as a gift
+ *
+ * Adds the item's variant to the cart, linked to the registry item so the
+ * order ships to the registrant and counts towards the registry once paid.
+ * A cart holds gifts for one registry and nothing else.
+ *
+ * @param input - Registry gift data (shareCode, itemId, quantity)
+ * @returns Result object with cart item or error
+ *
+ * @example
+ * const result = await addRegistryItemToCart({
+ *   shareCode: 'ABC12345',
+ *   itemId: 'item123',
+ *   quantity: 1,
+ * });
+ */
+export async function addRegistryItemToCart(
+  input: AddRegistryItemToCartInput
+): Promise<ActionResult<{ itemId: string; quantity: number }>> {
+  try {
+    // Validate input
+    const validatedFields = addRegistryItemToCartSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { shareCode, itemId, quantity } = validatedFields.data;
+
+    // Find registry and item
+    const registry = await prisma.registry.findUnique({
+      where: { shareCode },
+      select: { id: true, userId: true, isPublic: true, status: true, shippingAddressId: true },
+    });
+
+    if (!registry || !registry.isPublic) {
+      throw new NotFoundError('Registry not found');
+    }
+
+    if (registry.status !== 'ACTIVE') {
+      return { success: false, error: 'This registry is no longer accepting gifts' };
+    }
+
+    const userId = await getUserId();
+    if (userId === registry.userId) {
+      return { success: false, error: "You can't buy gifts from your own registry" };
+    }
+
+    if (!registry.shippingAddressId) {
+      return {
+        success: false,
+        error: "This registry doesn't have a shipping address yet, so gifts can't be sent",
+      };
+    }
+
+    const item = await prisma.registryItem.findFirst({
+      where: { id: itemId, registryId: registry.id },
+      include: {
+        variant: {
+          include: {
+            product: { select: { isActive: true } },
+            inventory: { select: { available: true } },
+          },
+        },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Registry item not found');
+    }
+
+    if (!item.variant || !item.variant.isActive || !item.variant.product.isActive) {
+      return { success: false, error: 'This item is no longer available' };
+    }
+
+    // Get or create cart, keeping it to gifts for this registry. Free gifts
+    // from promotions are dropped once the cart holds registry gifts.
+    const cart = await getOrCreateCart();
+    const cartLines = await prisma.cartItem.findMany({
+      where: { cartId: cart.id, promotionId: null },
+      select: { registryItemId: true, registryItem: { select: { registryId: true } } },
+    });
+
+    try {
+      getGiftCartRegistryId([...cartLines, { registryItemId: item.id, registryItem: { registryId: registry.id } }]);
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+
+    const existingItem = await prisma.cartItem.findUnique({
+      where: {
+        cartId_variantId: {
+          cartId: cart.id,
+          variantId: item.variant.id,
+        },
+      },
+    });
+
+    if (existingItem && existingItem.registryItemId !== item.id) {
+      return { success: false, error: 'This item is already in your cart' };
+    }
+
+    // Don't let gifters add more than is still wanted, or in stock
+    const newQuantity = (existingItem?.quantity ?? 0) + quantity;
+    const remaining = getRemainingQuantity(item);
+    if (newQuantity > remaining) {
+      return {
+        success: false,
+        error: remaining === 0
+          ? 'This item has already been purchased'
+          : `Only ${remaining} still needed for this registry`,
+      };
+    }
+
+    const availableQuantity = item.variant.inventory?.available ?? 0;
+    if (newQuantity > availableQuantity) {
+      return {
+        success: false,
+        error: `Only ${availableQuantity} items available in stock`,
+      };
+    }
+
+    const cartItem = existingItem
+      ? await prisma.cartItem.update({
+          where: { id: existingItem.id },
+          data: { quantity: newQuantity },
+        })
+      : await prisma.cartItem.create({
+          data: {
+            cartId: cart.id,
+            variantId: item.variant.id,
+            quantity,
+            registryItemId: item.id,
+          },
+        });
+
+    revalidatePath('/cart');
+    revalidateTag('cart');
+
+    return {
+      success: true,
+      data: { itemId: cartItem.id, quantity: cartItem.quantity },
+    };
+  } catch (error) {
+    console.error('Add registry item to cart error:', error);
+    if (error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while adding the gift to your cart. Please try again.',
+    };
+  }
+}
+
 /**
  * Update a cart item's quantity
  *
@@ -330,6 +539,7 @@ export async function updateCartItem(input: UpdateCartItemInput): Promise<Action
         variant: {
           include: { inventory: { select: { available: true } } },
         },
+        registryItem: { select: { quantity: true, quantityPurchased: true } },
       },
     });
 
@@ -337,6 +547,10 @@ export async function updateCartItem(input: UpdateCartItemInput): Promise<Action
       throw new NotFoundError('Cart item not found');
     }
 
+    if (cartItem.promotionId) {
+      return { success: false, error: 'Free gifts are added and removed automatically' };
+    }
+
     if (quantity === 0) {
       // Remove item
       await prisma.cartItem.delete({ where: { id: itemId } });
@@ -350,6 +564,14 @@ export async function updateCartItem(input: UpdateCartItemInput): Promise<Action
         };
       }
 
+      // Gifts can't exceed what the registry still needs
+      if (cartItem.registryItem && quantity > getRemainingQuantity(cartItem.registryItem)) {
+        return {
+          success: false,
+          error: `Only ${getRemainingQuantity(cartItem.registryItem)} still needed for this registry`,
+        };
+      }
+
       // Update quantity
       await prisma.cartItem.update({
         where: { id: itemId },
@@ -410,6 +632,10 @@ export async function removeFromCart(itemId: string): Promise<ActionResult> {
       throw new NotFoundError('Cart item not found');
     }
 
+    if (cartItem.promotionId) {
+      return { success: false, error: 'Free gifts are added and removed automatically' };
+    }
+
     await prisma.cartItem.delete({ where: { id: itemId } });
 
     revalidatePath('/cart');
@@ -464,7 +690,8 @@ export async function clearCart(): Promise<ActionResult> {
 /**
  * Apply a discount code to the cart
  *
- * Validates and applies a discount code to the user's cart.
+ * Validates the code against the cart and saves it on the cart, replacing
+ * any code already applied. Checkout checks it again before payment.
  *
  * @param code - Discount code to apply
  * @returns Result object with discount details or error
@@ -474,7 +701,7 @@ export async function clearCart(): Promise<ActionResult> {
  */
 export async function applyDiscountCode(code: string): Promise<ActionResult<{
   code: string;
-  type: 'PERCENTAGE' | 'FIXED' | 'SHIPPING';
+  type: DiscountType;
   value: number;
   discountAmount: number;
 }>> {
@@ -488,8 +715,6 @@ export async function applyDiscountCode(code: string): Promise<ActionResult<{
       };
     }
 
-    const normalizedCode = code.toUpperCase().trim();
-
     // Get cart with items
     const cart = await getOrCreateCart();
     const cartWithItems = await prisma.cart.findFirst({
@@ -498,7 +723,10 @@ export async function applyDiscountCode(code: string): Promise<ActionResult<{
         items: {
           include: {
             variant: {
-              select: { price: true },
+              select: {
+                price: true,
+                product: { select: { id: true, categoryId: true } },
+              },
             },
           },
         },
@@ -512,70 +740,38 @@ export async function applyDiscountCode(code: string): Promise<ActionResult<{
       };
     }
 
-    // Find discount code
-    const discount = await prisma.discountCode.findUnique({
-      where: { code: normalizedCode },
+    // Check the code against the cart and the customer's past orders. It
+    // prices what automatic promotions leave.
+    const user = await getCurrentUser();
+    const rule = await getDiscountRule(validatedFields.data.code);
+    const savings = await resolveCartSavings(rule, {
+      lines: toPromotionLines(cartWithItems.items),
+      customer: { userId: user?.id, email: user?.email },
     });
 
-    // Validate discount exists and is active
-    if (!discount || !discount.isActive) {
-      return {
-        success: false,
-        error: 'Invalid discount code',
-      };
-    }
-
-    // Check if discount has expired
-    if (discount.expiresAt && new Date() > discount.expiresAt) {
-      return {
-        success: false,
-        error: 'This discount code has expired',
-      };
-    }
-
-    // Check if discount has started
-    if (discount.startsAt && new Date() < discount.startsAt) {
-      return {
-        success: false,
-        error: 'This discount code is not yet active',
-      };
-    }
-
-    // Check usage limits
-    if (discount.maxUses && discount.currentUses >= discount.maxUses) {
-      return {
-        success: false,
-        error: 'This discount code has reached its usage limit',
-      };
-    }
-
-    // Calculate cart subtotal
-    const subtotal = cartWithItems.items.reduce((sum, item) => {
-      return sum + (item.variant.price.toNumber() * item.quantity);
-    }, 0);
-
-    // Check minimum purchase requirement
-    if (discount.minPurchaseAmount && subtotal < discount.minPurchaseAmount.toNumber()) {
-      return {
-        success: false,
-        error: `Minimum purchase of ${discount.minPurchaseAmount.toNumber()} required for this discount code`,
-      };
-    }
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { discountCodeId: rule.id },
+    });
 
-    // Update cart with discount code - note: Cart model doesn't have couponCode/discountId fields
-    // The discount is applied at checkout time instead
+    revalidatePath('/cart');
+    revalidatePath('/checkout');
+    revalidateTag('cart');
 
     return {
       success: true,
       data: {
-        code: discount.code,
-        type: discount.discountType as 'SHIPPING' | 'PERCENTAGE' | 'FIXED',
-        value: discount.discountValue.toNumber(),
-        discountAmount: 0,
+        code: rule.code,
+        type: rule.type,
+        value: rule.value,
+        discountAmount: savings.discount?.itemDiscount ?? 0,
       },
     };
   } catch (error) {
     console.error('Apply discount code error:', error);
+    if (error instanceof DiscountError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while applying the discount code. Please try again.',
@@ -599,11 +795,10 @@ export async function removeDiscountCode(): Promise<ActionResult> {
     const cart = await getOrCreateCart();
 
     // Remove discount from cart
-    // Note: You'll need to add discount fields to your Cart model
-    // await prisma.cart.update({
-    //   where: { id: cart.id },
-    //   data: { discountId: null },
-    // });
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { discountCodeId: null },
+    });
 
     revalidatePath('/cart');
     revalidatePath('/checkout');
@@ -622,7 +817,9 @@ export async function removeDiscountCode(): Promise<ActionResult> {
 /**
  * Get the current cart
  *
- * Retrieves the user's cart with all items and totals.
+ * Retrieves the user's cart with all items and totals. Automatic
+ * promotions are worked out against the cart as it is now, adding or
+ * removing free gift lines to match.
  *
  * @returns Result object with cart data or error
  *
@@ -635,6 +832,9 @@ export async function getCart(): Promise<ActionResult<{
     id: string;
     variantId: string;
     quantity: number;
+    registryItemId: string | null;
+    /** Set for a free gift added by this promotion */
+    promotionId: string | null;
     variant: {
       id: string;
       name: string;
@@ -656,16 +856,41 @@ export async function getCart(): Promise<ActionResult<{
   }>;
   itemCount: number;
   subtotal: number;
+  registry: {
+    id: string;
+    name: string;
+    shareCode: string;
+  } | null;
+  discount: {
+    code: string;
+    type: DiscountType;
+    value: number;
+    /** Off the items; shipping discounts are priced at checkout */
+    discountAmount: number;
+  } | null;
+  /** Why the applied code no longer takes anything off */
+  discountError: string | null;
+  /** Automatic promotions the cart gets, and what each takes off */
+  promotions: Array<{ promotionId: string; name: string; type: PromotionActionType; amount: number }>;
+  /** Promotions the cart is close to, closest first */
+  nudges: Array<{
+    promotionId: string;
+    message: string;
+    amountNeeded: number | null;
+    quantityNeeded: number | null;
+  }>;
 }>> {
   try {
-    // Get cart
+    // Get cart, with the free gifts it qualifies for
     const cart = await getOrCreateCart();
+    await syncFreeGiftLines(cart.id);
 
     // Get cart with items
     const cartWithItems = await prisma.cart.findFirst({
       where: { id: cart.id },
       include: {
         items: {
+          orderBy: { createdAt: 'asc' },
           include: {
             variant: {
               include: {
@@ -674,6 +899,7 @@ export async function getCart(): Promise<ActionResult<{
                     id: true,
                     name: true,
                     slug: true,
+                    categoryId: true,
                     images: {
                       where: { isPrimary: true },
                       take: 1,
@@ -686,6 +912,11 @@ export async function getCart(): Promise<ActionResult<{
                 },
               },
             },
+            registryItem: {
+              select: {
+                registry: { select: { id: true, name: true, shareCode: true } },
+              },
+            },
           },
         },
       },
@@ -699,6 +930,11 @@ export async function getCart(): Promise<ActionResult<{
           items: [],
           itemCount: 0,
           subtotal: 0,
+          registry: null,
+          discount: null,
+          discountError: null,
+          promotions: [],
+          nudges: [],
         },
       };
     }
@@ -713,6 +949,8 @@ export async function getCart(): Promise<ActionResult<{
         id: item.id,
         variantId: item.variantId,
         quantity: item.quantity,
+        registryItemId: item.registryItemId,
+        promotionId: item.promotionId,
         variant: {
           id: item.variant.id,
           name: item.variant.name,
@@ -732,6 +970,16 @@ export async function getCart(): Promise<ActionResult<{
       };
     });
 
+    // Registry the cart's gifts are for, if it's a gift cart
+    const registry = cartWithItems.items.find((item) => item.registryItem)?.registryItem?.registry ?? null;
+
+    // Price automatic promotions and the applied code against the cart as it is now
+    const { savings, nudges, discountError } = await getCartSavings(cartWithItems.discountCodeId, {
+      lines: toPromotionLines(cartWithItems.items),
+      customer: { userId: cart.userId },
+    });
+    const { discount } = savings;
+
     return {
       success: true,
       data: {
@@ -739,6 +987,26 @@ export async function getCart(): Promise<ActionResult<{
         items,
         itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
         subtotal,
+        registry,
+        discount: discount && {
+          code: discount.code,
+          type: discount.type,
+          value: discount.value,
+          discountAmount: discount.itemDiscount,
+        },
+        discountError,
+        promotions: savings.promotions.map((promotion) => ({
+          promotionId: promotion.promotionId,
+          name: promotion.name,
+          type: promotion.type,
+          amount: promotion.total,
+        })),
+        nudges: nudges.map((nudge) => ({
+          promotionId: nudge.promotionId,
+          message: nudge.message,
+          amountNeeded: nudge.amountNeeded,
+          quantityNeeded: nudge.quantityNeeded,
+        })),
       },
     };
   } catch (error) {
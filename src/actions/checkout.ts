@@ -1,12 +1,66 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
-import { getCurrentUser, getUserId } from '@/lib/session';
+import { getCurrentUser, getUserId, type SessionUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  UnauthorizedError,
+  NotFoundError,
+  ValidationError,
+  BadRequestError,
+  DiscountError,
+  InsufficientStockError,
+} from '@/lib/errors';
 import { cookies } from 'next/headers';
-import Stripe from 'stripe';
+import type Stripe from 'stripe';
+import {
+  cancelPaymentIntents,
+  closeCheckouts,
+  createPaymentIntent,
+  expireCheckoutSessions,
+  formatAmountForStripe,
+  stripe,
+} from '@/lib/stripe';
+import {
+  getOrCreateStripeCustomer,
+  listSavedCards,
+  saveCheckoutSnapshot,
+  setCardSaving,
+  type CheckoutSnapshot,
+  type SavedCard,
+} from '@/lib/payments';
+import type { Address } from '@prisma/client';
+import { calculateTax as computeTax, toTaxAddress, toTaxDetails, toTaxLineItems } from '@/lib/tax';
+import { getCartShippingOptions, resolveShippingQuote, toShippingAddress } from '@/lib/shipping';
+import { FREE_SHIPPING_THRESHOLD, SHIPPING_METHODS } from '@/lib/constants';
+import {
+  createDiscountCoupon,
+  getCartSavings,
+  getDiscountRule,
+  getDiscountRuleById,
+  getLineDiscount,
+  resolveCartSavings,
+  syncFreeGiftLines,
+  toOrderPromotions,
+  toPromotionLines,
+  withLineDiscounts,
+  type DiscountType,
+} from '@/lib/promotions';
+import {
+  getGiftCartRegistryId,
+  getGiftRegistry,
+  getRemainingQuantity,
+  maskGiftShippingAddress,
+  type MaskedGiftAddress,
+} from '@/lib/registry/gifts';
+import {
+  attachCheckoutSession,
+  placeCheckoutHolds,
+  releaseCartHolds,
+  toHoldLines,
+  type CheckoutHolds,
+} from '@/lib/inventory-holds';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -26,18 +80,33 @@ export interface ActionResult<T = void> {
  * Create checkout session input schema
  */
 const createCheckoutSessionSchema = z.object({
-  shippingAddressId: z.string().cuid('Invalid shipping address ID'),
+  // Not needed for registry gifts, which ship to the registrant
+  shippingAddressId: z.string().cuid('Invalid shipping address ID').optional(),
   billingAddressId: z.string().cuid('Invalid billing address ID').optional(),
   useSameBillingAddress: z.boolean().optional().default(true),
   shippingMethodId: z.string().min(1, 'Shipping method is required'),
   discountCode: z.string().optional(),
   giftMessage: z.string().max(500).optional(),
+  gifterName: z.string().max(100).optional(),
+  showGifterName: z.boolean().optional().default(true),
   isGift: z.boolean().optional().default(false),
   notes: z.string().max(1000).optional(),
+  // Guests only; signed-in customers use their account email
+  email: z.string().email('Invalid email address').optional(),
 });
 
 export type CreateCheckoutSessionInput = z.infer<typeof createCheckoutSessionSchema>;
 
+/**
+ * Update checkout payment input schema
+ */
+const updateCheckoutPaymentSchema = z.object({
+  paymentIntentId: z.string().startsWith('pi_', 'Invalid payment ID'),
+  saveCard: z.boolean(),
+});
+
+export type UpdateCheckoutPaymentInput = z.infer<typeof updateCheckoutPaymentSchema>;
+
 /**
  * Validate discount code input schema
  */
@@ -51,7 +120,7 @@ export type ValidateDiscountCodeInput = z.infer<typeof validateDiscountCodeSchem
  * Calculate shipping input schema
  */
 const calculateShippingSchema = z.object({
-  addressId: z.string().cuid('Invalid address ID'),
+  addressId: z.string().cuid('Invalid address ID').optional(),
 });
 
 export type CalculateShippingInput = z.infer<typeof calculateShippingSchema>;
@@ -60,7 +129,7 @@ export type CalculateShippingInput = z.infer<typeof calculateShippingSchema>;
  * Calculate tax input schema
  */
 const calculateTaxSchema = z.object({
-  addressId: z.string().cuid('Invalid address ID'),
+  addressId: z.string().cuid('Invalid address ID').optional(),
 });
 
 export type CalculateTaxInput = z.infer<typeof calculateTaxSchema>;
@@ -85,10 +154,13 @@ async function getCart() {
           include: {
             variant: {
               include: {
-                product: { select: { id: true, name: true, slug: true, isActive: true } },
+                product: { select: { id: true, name: true, slug: true, isActive: true, taxCategory: true, categoryId: true } },
                 inventory: { select: { available: true } },
               },
             },
+            registryItem: {
+              select: { registryId: true, quantity: true, quantityPurchased: true, productName: true },
+            },
           },
         },
       },
@@ -103,10 +175,13 @@ async function getCart() {
           include: {
             variant: {
               include: {
-                product: { select: { id: true, name: true, slug: true, isActive: true } },
+                product: { select: { id: true, name: true, slug: true, isActive: true, taxCategory: true, categoryId: true } },
                 inventory: { select: { available: true } },
               },
             },
+            registryItem: {
+              select: { registryId: true, quantity: true, quantityPurchased: true, productName: true },
+            },
           },
         },
       },
@@ -116,6 +191,46 @@ async function getCart() {
   return null;
 }
 
+/**
+ * Get where the cart ships
+ *
+ * Registry gift carts always ship to the registrant's address, whatever
+ * address the gifter picked; other carts ship to the chosen address.
+ */
+async function getShippingDestination(
+  cart: NonNullable<Awaited<ReturnType<typeof getCart>>>,
+  addressId?: string
+): Promise<{ address: Address | null; registryId: string | null }> {
+  const registryId = getGiftCartRegistryId(cart.items);
+
+  if (registryId) {
+    const registry = await getGiftRegistry(registryId);
+    return { address: registry.shippingAddress, registryId };
+  }
+
+  return { address: await findOwnAddress(cart, addressId), registryId: null };
+}
+
+/**
+ * Find one of the cart's owner's addresses: the user's, or the guest
+ * session's. Null for any other address, so one customer can't ship or
+ * bill to another's.
+ */
+async function findOwnAddress(
+  cart: NonNullable<Awaited<ReturnType<typeof getCart>>>,
+  addressId?: string
+): Promise<Address | null> {
+  const owner = cart.userId
+    ? { userId: cart.userId }
+    : cart.sessionId
+      ? { userId: null, guestSessionId: cart.sessionId }
+      : null;
+
+  return addressId && owner
+    ? prisma.address.findFirst({ where: { id: addressId, ...owner } })
+    : null;
+}
+
 /**
  * Generate a unique order number
  */
@@ -125,6 +240,266 @@ function generateOrderNumber(): string {
   return `KP-${timestamp}-${random}`;
 }
 
+/**
+ * A cart priced for payment, with its stock held
+ */
+interface PreparedCheckout {
+  cart: NonNullable<Awaited<ReturnType<typeof getCart>>>;
+  registryId: string | null;
+  /** For registry gifts, the registrant's; never show it to the gifter */
+  shippingAddress: Address;
+  shippingQuote: NonNullable<Awaited<ReturnType<typeof resolveShippingQuote>>>;
+  savings: Awaited<ReturnType<typeof resolveCartSavings>>;
+  taxAmount: number;
+  /** What the customer pays */
+  total: number;
+  holds: CheckoutHolds;
+  /** The prices the order is created at once Stripe confirms payment */
+  snapshot: CheckoutSnapshot;
+  /** Who and where the order is for */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Price the cart and hold its stock, ready to take payment
+ *
+ * Shared by hosted Stripe Checkout and on-site payment. Checks the cart,
+ * shipping, promotions and tax again rather than trusting the client, and
+ * closes the cart's earlier checkouts whose holds these replace. The prices
+ * are snapshotted, so the order is created at them once paid.
+ *
+ * @returns The checkout, or an error to show the customer
+ */
+async function prepareCheckout(
+  data: CreateCheckoutSessionInput,
+  user: SessionUser | null,
+  email: string
+): Promise<{ checkout: PreparedCheckout } | { error: string }> {
+  // Get cart, with the free gifts it qualifies for now
+  let cart = await getCart();
+  if (cart && (await syncFreeGiftLines(cart.id))) {
+    cart = await getCart();
+  }
+  if (!cart || cart.items.length === 0) {
+    return { error: 'Your cart is empty' };
+  }
+
+  // Validate cart items
+  for (const item of cart.items) {
+    if (!item.variant.product.isActive) {
+      return { error: `${item.variant.product.name} is no longer available` };
+    }
+
+    const available = item.variant.inventory?.available ?? 0;
+    if (available < item.quantity) {
+      return { error: `Only ${available} items available for ${item.variant.product.name}` };
+    }
+
+    // The registry is only updated once paid, but don't take payment
+    // for gifts that have already been bought
+    if (item.registryItem) {
+      const remaining = getRemainingQuantity(item.registryItem);
+      if (remaining < item.quantity) {
+        return {
+          error: remaining === 0
+            ? `${item.registryItem.productName} has already been purchased from this registry`
+            : `Only ${remaining} of ${item.registryItem.productName} still needed for this registry`,
+        };
+      }
+    }
+  }
+
+  // Get shipping address
+  const { address: shippingAddress, registryId } = await getShippingDestination(
+    cart,
+    data.shippingAddressId
+  );
+
+  if (!shippingAddress) {
+    return { error: data.shippingAddressId ? 'Shipping address not found' : 'Shipping address is required' };
+  }
+
+  // Gifts are billed to the gifter, never to the registrant's address
+  const billingAddressId = registryId
+    ? data.billingAddressId || ''
+    : data.useSameBillingAddress ? shippingAddress.id : (data.billingAddressId || shippingAddress.id);
+
+  // Only the cart's owner's addresses, as for shipping
+  if (billingAddressId && billingAddressId !== shippingAddress.id && !(await findOwnAddress(cart, billingAddressId))) {
+    return { error: 'Billing address not found' };
+  }
+
+  // Calculate totals
+  const subtotal = cart.items.reduce((sum, item) => sum + Number(item.variant.price) * item.quantity, 0);
+
+  // Charge the quoted shipping rate for this cart and destination
+  const shippingQuote = await resolveShippingQuote({
+    cartId: cart.id,
+    items: cart.items,
+    destination: toShippingAddress(shippingAddress),
+    methodId: data.shippingMethodId,
+  });
+
+  if (!shippingQuote) {
+    return { error: 'The selected shipping method is not available for this address' };
+  }
+
+  const shippingAmount = shippingQuote.amount;
+
+  // Check automatic promotions and the discount code again, now shipping is known
+  const discountRule = data.discountCode
+    ? await getDiscountRule(data.discountCode)
+    : cart.discountCodeId
+      ? await getDiscountRuleById(cart.discountCodeId)
+      : null;
+  const savings = await resolveCartSavings(discountRule, {
+    lines: toPromotionLines(cart.items),
+    shippingAmount,
+    customer: { userId: user?.id, email },
+  });
+  const { discount } = savings;
+
+  if (discount && discount.discountId !== cart.discountCodeId) {
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { discountCodeId: discount.discountId },
+    });
+  }
+
+  // Calculate tax on what the customer pays after promotions and the code
+  const tax = await computeTax({
+    address: toTaxAddress(shippingAddress),
+    lineItems: withLineDiscounts(toTaxLineItems(cart.items), savings),
+    shipping: shippingAmount - savings.shippingDiscount,
+  });
+  const taxAmount = tax.amountToCollect;
+
+  // Hold the stock while the customer pays; the check above doesn't
+  // stop another checkout taking the last unit first
+  let holds: CheckoutHolds;
+  try {
+    holds = await placeCheckoutHolds(cart.id, toHoldLines(cart.items));
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      const item = cart.items.find((cartItem) => cartItem.variantId === error.details?.variantId);
+      return {
+        error: `Only ${error.details?.availableQuantity ?? 0} items available for ${item?.variant.product.name}`,
+      };
+    }
+    throw error;
+  }
+  await closeCheckouts(holds.replacedSessionIds);
+
+  const total = subtotal - savings.total + shippingAmount + taxAmount;
+
+  return {
+    checkout: {
+      cart,
+      registryId,
+      shippingAddress,
+      shippingQuote,
+      savings,
+      taxAmount,
+      total,
+      holds,
+      snapshot: {
+        cartId: cart.id,
+        lines: cart.items.map((item) => ({
+          variantId: item.variantId,
+          productName: item.variant.product.name,
+          variantName: item.variant.name,
+          sku: item.variant.sku,
+          quantity: item.quantity,
+          unitPrice: Number(item.variant.price),
+          discountAmount: getLineDiscount(savings, item.id),
+          registryItemId: registryId ? item.registryItemId : null,
+        })),
+        subtotal,
+        discountAmount: savings.total,
+        shippingAmount,
+        taxAmount,
+        taxDetails: toTaxDetails(tax),
+        total,
+        couponCode: discount?.code ?? null,
+        discountId: discount?.discountId ?? null,
+        promotions: toOrderPromotions(savings.promotions),
+      },
+      metadata: {
+        cartId: cart.id,
+        userId: user?.id || '',
+        // Guest orders are claimed by this session, or the email once verified
+        guestSessionId: user ? '' : cart.sessionId || '',
+        orderNumber: generateOrderNumber(),
+        // Registry gifts resolve the registrant's address from the registry
+        shippingAddressId: registryId ? '' : shippingAddress.id,
+        billingAddressId,
+        shippingMethodId: data.shippingMethodId,
+        shippingAmount: shippingAmount.toFixed(2),
+        shippingQuoteId: shippingQuote.id,
+        discountCodeId: discount?.discountId || '',
+        promotionIds: savings.promotions.map((promotion) => promotion.promotionId).join(','),
+        discountAmount: savings.total.toFixed(2),
+        registryId: registryId || '',
+        isGift: registryId || data.isGift ? 'true' : 'false',
+        giftMessage: data.giftMessage || '',
+        gifterName: data.gifterName || '',
+        showGifterName: data.showGifterName === false ? 'false' : 'true',
+        notes: data.notes || '',
+      },
+    },
+  };
+}
+
+/**
+ * Stripe Checkout line items: each cart item, then shipping and tax
+ */
+function toCheckoutLineItems(checkout: PreparedCheckout): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = checkout.cart.items.map((item) => ({
+    price_data: {
+      currency: 'usd',
+      product_data: {
+        name: `${item.variant.product.name} - ${item.variant.name}`,
+        metadata: {
+          productId: item.variant.product.id,
+          variantId: item.variantId,
+        },
+      },
+      unit_amount: Math.round(Number(item.variant.price) * 100), // Convert to cents
+    },
+    quantity: item.quantity,
+  }));
+
+  // Add shipping as a line item
+  if (checkout.shippingQuote.amount > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: checkout.shippingQuote.name,
+        },
+        unit_amount: Math.round(checkout.shippingQuote.amount * 100),
+      },
+      quantity: 1,
+    });
+  }
+
+  // Add tax as a line item
+  if (checkout.taxAmount > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: 'Tax',
+        },
+        unit_amount: Math.round(checkout.taxAmount * 100),
+      },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+}
+
 // ============================================
 // CHECKOUT ACTIONS
 // ============================================
@@ -162,143 +537,193 @@ export async function createCheckoutSession(input: CreateCheckoutSessionInput):
 
     const data = validatedFields.data;
 
-    // Get cart
-    const cart = await getCart();
-    if (!cart || cart.items.length === 0) {
+    // Guests give the email their receipt and tracking updates go to
+    const email = user?.email ?? data.email;
+    if (!email) {
       return {
         success: false,
-        error: 'Your cart is empty',
+        error: 'Enter your email address to check out as a guest',
       };
     }
 
-    // Validate cart items
-    for (const item of cart.items) {
-      if (!item.variant.product.isActive) {
-        return {
-          success: false,
-          error: `${item.variant.product.name} is no longer available`,
-        };
-      }
-
-      const available = item.variant.inventory?.available ?? 0;
-      if (available < item.quantity) {
-        return {
-          success: false,
-          error: `Only ${available} items available for ${item.variant.product.name}`,
-        };
-      }
+    // Price the cart and hold its stock
+    const prepared = await prepareCheckout(data, user, email);
+    if ('error' in prepared) {
+      return { success: false, error: prepared.error };
     }
+    const checkout = prepared.checkout;
+    const { cart, holds, registryId, savings } = checkout;
 
-    // Get shipping address
-    const shippingAddress = await prisma.address.findUnique({
-      where: { id: data.shippingAddressId },
+    // The savings go to Stripe as a coupon for the exact amount
+    const couponId = await createDiscountCoupon(stripe, savings);
+
+    // Create Stripe checkout session
+    // Note: Apple Pay requires domain verification via .well-known file
+    // Google Pay works automatically with Stripe
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: toCheckoutLineItems(checkout),
+      discounts: couponId ? [{ coupon: couponId }] : undefined,
+      mode: 'payment',
+      // Closes before the holds lapse, so a paid session always has its stock
+      expires_at: Math.floor(holds.sessionExpiresAt.getTime() / 1000),
+      // Gifters' billing address can't default to the registrant's
+      billing_address_collection: registryId ? 'required' : 'auto',
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/checkout/cancel`,
+      customer_email: email,
+      metadata: checkout.metadata,
+    }).catch(async (error) => {
+      await releaseCartHolds(cart.id);
+      throw error;
     });
 
-    if (!shippingAddress) {
+    // Another checkout for this cart replaced the holds meanwhile
+    if (!(await attachCheckoutSession(holds.holdIds, session.id))) {
+      await expireCheckoutSessions([session.id]);
       return {
         success: false,
-        error: 'Shipping address not found',
+        error: 'Checkout was started again in another window. Please continue there.',
       };
     }
 
-    // Get billing address
-    let billingAddress = shippingAddress;
-    if (!data.useSameBillingAddress && data.billingAddressId) {
-      const foundBilling = await prisma.address.findUnique({
-        where: { id: data.billingAddressId },
-      });
-      if (foundBilling) {
-        billingAddress = foundBilling;
-      }
-    }
+    // The order is created at these prices, whatever the cart does meanwhile
+    await saveCheckoutSnapshot(session.id, checkout.snapshot).catch(async (error) => {
+      await expireCheckoutSessions([session.id]);
+      throw error;
+    });
 
-    // Calculate totals
-    let subtotal = 0;
-    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
+    revalidatePath('/checkout');
 
-    for (const item of cart.items) {
-      const price = Number(item.variant.price);
-      const itemTotal = price * item.quantity;
-      subtotal += itemTotal;
-
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: `${item.variant.product.name} - ${item.variant.name}`,
-            metadata: {
-              productId: item.variant.product.id,
-              variantId: item.variantId,
-            },
-          },
-          unit_amount: Math.round(price * 100), // Convert to cents
-        },
-        quantity: item.quantity,
-      });
+    return {
+      success: true,
+      data: {
+        sessionId: session.id,
+        url: session.url || '',
+      },
+    };
+  } catch (error) {
+    console.error('Create checkout session error:', error);
+    if (error instanceof BadRequestError || error instanceof NotFoundError || error instanceof DiscountError) {
+      return { success: false, error: error.message };
     }
+    return {
+      success: false,
+      error: 'An error occurred while creating the checkout session. Please try again.',
+    };
+  }
+}
 
-    // Calculate shipping
-    const shippingAmount = await calculateShippingAmount(data.shippingMethodId, subtotal);
-    subtotal += shippingAmount;
+/**
+ * Start paying on-site
+ *
+ * Prices the cart and holds its stock like hosted checkout, then creates a
+ * PaymentIntent for the Payment Element to confirm. The order is created
+ * by the `payment_intent.succeeded` webhook, not here. Signed-in customers
+ * get a Stripe Customer, so they can pick a saved card or save this one.
+ *
+ * @param input - Checkout data, as for createCheckoutSession
+ * @returns Result object with the PaymentIntent's client secret or error
+ *
+ * @example
+ * const result = await createCheckoutPayment({
+ *   shippingAddressId: 'address123',
+ *   shippingMethodId: 'standard',
+ * });
+ */
+export async function createCheckoutPayment(input: CreateCheckoutSessionInput): Promise<ActionResult<{
+  paymentIntentId: string;
+  clientSecret: string;
+  total: number;
+  savedCards: SavedCard[];
+  canSaveCard: boolean;
+}>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
 
-    // Calculate tax
-    const taxAmount = await calculateTaxAmount(shippingAddress.state, subtotal);
-    const total = subtotal + taxAmount;
+    // Validate input
+    const validatedFields = createCheckoutSessionSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
 
-    // Add shipping as a line item
-    if (shippingAmount > 0) {
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: 'Shipping',
-          },
-          unit_amount: Math.round(shippingAmount * 100),
-        },
-        quantity: 1,
-      });
+    const data = validatedFields.data;
+
+    // Guests give the email their receipt and tracking updates go to
+    const email = user?.email ?? data.email;
+    if (!email) {
+      return {
+        success: false,
+        error: 'Enter your email address to check out as a guest',
+      };
     }
 
-    // Add tax as a line item
-    if (taxAmount > 0) {
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: 'Tax',
-          },
-          unit_amount: Math.round(taxAmount * 100),
-        },
-        quantity: 1,
-      });
+    // Price the cart and hold its stock
+    const prepared = await prepareCheckout(data, user, email);
+    if ('error' in prepared) {
+      return { success: false, error: prepared.error };
+    }
+    const checkout = prepared.checkout;
+    const { cart, holds, registryId, shippingAddress } = checkout;
+
+    let customerId: string | undefined;
+    let savedCards: SavedCard[] = [];
+    try {
+      if (user) {
+        customerId = await getOrCreateStripeCustomer(user.id);
+        savedCards = await listSavedCards(customerId);
+      }
+    } catch (error) {
+      await releaseCartHolds(cart.id);
+      throw error;
     }
 
-    // Initialize Stripe
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-      apiVersion: '2025-02-24.acacia',
+    const paymentIntent = await createPaymentIntent(
+      formatAmountForStripe(checkout.total),
+      'USD',
+      checkout.metadata,
+      {
+        customerId,
+        receiptEmail: email,
+        description: `Baby Petite order ${checkout.metadata.orderNumber}`,
+        // Gifters never see the registrant's address, so Stripe doesn't either
+        shipping: registryId
+          ? undefined
+          : {
+              name: `${shippingAddress.firstName} ${shippingAddress.lastName}`,
+              phone: shippingAddress.phone || undefined,
+              address: {
+                line1: shippingAddress.line1,
+                line2: shippingAddress.line2 || undefined,
+                city: shippingAddress.city,
+                state: shippingAddress.state,
+                postal_code: shippingAddress.zip,
+                country: shippingAddress.country,
+              },
+            },
+      }
+    ).catch(async (error) => {
+      await releaseCartHolds(cart.id);
+      throw error;
     });
 
-    // Create Stripe checkout session
-    // Note: Apple Pay requires domain verification via .well-known file
-    // Google Pay works automatically with Stripe
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: lineItems,
-      mode: 'payment',
-      success_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/checkout`,
-      customer_email: user?.email,
-      metadata: {
-        cartId: cart.id,
-        userId: user?.id || '',
-        orderNumber: generateOrderNumber(),
-        shippingAddressId: data.shippingAddressId,
-        billingAddressId: data.useSameBillingAddress ? data.shippingAddressId : (data.billingAddressId || data.shippingAddressId),
-        shippingMethodId: data.shippingMethodId,
-        isGift: data.isGift ? 'true' : 'false',
-        giftMessage: data.giftMessage || '',
-        notes: data.notes || '',
-      },
+    // Another checkout for this cart replaced the holds meanwhile
+    if (!(await attachCheckoutSession(holds.holdIds, paymentIntent.id))) {
+      await cancelPaymentIntents([paymentIntent.id]);
+      return {
+        success: false,
+        error: 'Checkout was started again in another window. Please continue there.',
+      };
+    }
+
+    // The order is created at these prices, whatever the cart does meanwhile
+    await saveCheckoutSnapshot(paymentIntent.id, checkout.snapshot).catch(async (error) => {
+      await cancelPaymentIntents([paymentIntent.id]);
+      throw error;
     });
 
     revalidatePath('/checkout');
@@ -306,15 +731,65 @@ export async function createCheckoutSession(input: CreateCheckoutSessionInput):
     return {
       success: true,
       data: {
-        sessionId: session.id,
-        url: session.url || '',
+        paymentIntentId: paymentIntent.id,
+        clientSecret: paymentIntent.client_secret || '',
+        total: checkout.total,
+        savedCards,
+        canSaveCard: !!customerId,
       },
     };
   } catch (error) {
-    console.error('Create checkout session error:', error);
+    console.error('Create checkout payment error:', error);
+    if (error instanceof BadRequestError || error instanceof NotFoundError || error instanceof DiscountError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
-      error: 'An error occurred while creating the checkout session. Please try again.',
+      error: 'An error occurred while preparing your payment. Please try again.',
+    };
+  }
+}
+
+/**
+ * Choose whether to save the card the customer is about to pay with
+ *
+ * Signed-in customers only, for their own on-site payment.
+ *
+ * @param input - PaymentIntent ID and whether to save the card
+ * @returns Result object with success or error
+ *
+ * @example
+ * const result = await updateCheckoutPayment({ paymentIntentId: 'pi_123', saveCard: true });
+ */
+export async function updateCheckoutPayment(input: UpdateCheckoutPaymentInput): Promise<ActionResult> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('Sign in to save your card');
+    }
+
+    // Validate input
+    const validatedFields = updateCheckoutPaymentSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { paymentIntentId, saveCard } = validatedFields.data;
+    const customerId = await getOrCreateStripeCustomer(user.id);
+    await setCardSaving(paymentIntentId, customerId, saveCard);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update checkout payment error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while updating your payment. Please try again.',
     };
   }
 }
@@ -322,7 +797,9 @@ export async function createCheckoutSession(input: CreateCheckoutSessionInput):
 /**
  * Validate a discount code
  *
- * Validates a discount code and returns the discount details.
+ * Checks a discount code against the current cart and returns what it
+ * would take off the items after automatic promotions. Doesn't apply it;
+ * checkout does.
  *
  * @param code - Discount code to validate
  * @returns Result object with discount details or error
@@ -332,10 +809,11 @@ export async function createCheckoutSession(input: CreateCheckoutSessionInput):
  */
 export async function validateDiscountCode(code: string): Promise<ActionResult<{
   code: string;
-  type: 'PERCENTAGE' | 'FIXED' | 'SHIPPING';
+  type: DiscountType;
   value: number;
   minOrderValue: number;
   maxDiscount: number | null;
+  discountAmount: number;
 }>> {
   try {
     // Validate input
@@ -347,9 +825,7 @@ export async function validateDiscountCode(code: string): Promise<ActionResult<{
       };
     }
 
-    const normalizedCode = code.toUpperCase().trim();
-
-    // Get cart to check subtotal
+    // Get cart to check the code against
     const cart = await getCart();
     if (!cart || cart.items.length === 0) {
       return {
@@ -358,55 +834,29 @@ export async function validateDiscountCode(code: string): Promise<ActionResult<{
       };
     }
 
-    // Calculate cart subtotal
-    let subtotal = 0;
-    for (const item of cart.items) {
-      subtotal += Number(item.variant.price) * item.quantity;
-    }
-
-    // Note: In a real implementation, you would look up the discount in the database
-    // const discount = await prisma.discount.findUnique({
-    //   where: { code: normalizedCode },
-    // });
-
-    // Placeholder implementation
-    // For demonstration, we'll validate some test codes
-    const testDiscounts: Record<string, { type: 'PERCENTAGE' | 'FIXED' | 'SHIPPING'; value: number; minOrderValue: number; maxDiscount: number | null }> = {
-      'SAVE10': { type: 'PERCENTAGE', value: 10, minOrderValue: 50, maxDiscount: 50 },
-      'SAVE20': { type: 'PERCENTAGE', value: 20, minOrderValue: 100, maxDiscount: 100 },
-      'FLAT25': { type: 'FIXED', value: 25, minOrderValue: 100, maxDiscount: null },
-      'FREESHIP': { type: 'SHIPPING', value: 100, minOrderValue: 75, maxDiscount: null },
-    };
-
-    const discount = testDiscounts[normalizedCode];
-
-    if (!discount) {
-      return {
-        success: false,
-        error: 'Invalid discount code',
-      };
-    }
-
-    // Check minimum order value
-    if (subtotal < discount.minOrderValue) {
-      return {
-        success: false,
-        error: `Minimum order value of $${discount.minOrderValue} required`,
-      };
-    }
+    const user = await getCurrentUser();
+    const rule = await getDiscountRule(validatedFields.data.code);
+    const savings = await resolveCartSavings(rule, {
+      lines: toPromotionLines(cart.items),
+      customer: { userId: user?.id, email: user?.email },
+    });
 
     return {
       success: true,
       data: {
-        code: normalizedCode,
-        type: discount.type,
-        value: discount.value,
-        minOrderValue: discount.minOrderValue,
-        maxDiscount: discount.maxDiscount,
+        code: rule.code,
+        type: rule.type,
+        value: rule.value,
+        minOrderValue: rule.minPurchaseAmount ?? 0,
+        maxDiscount: rule.type === 'FIXED' ? rule.value : null,
+        discountAmount: savings.discount?.itemDiscount ?? 0,
       },
     };
   } catch (error) {
     console.error('Validate discount code error:', error);
+    if (error instanceof DiscountError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while validating the discount code. Please try again.',
@@ -417,7 +867,9 @@ export async function validateDiscountCode(code: string): Promise<ActionResult<{
 /**
  * Calculate shipping options for an address
  *
- * Returns available shipping methods and their costs for the given address.
+ * Rate-shops carriers for the current cart and address, caching the quotes
+ * so checkout charges exactly what is shown here. Registry gift carts are
+ * quoted to the registrant's address, so `addressId` can be omitted.
  *
  * @param addressId - ID of the shipping address
  * @returns Result object with shipping options or error
@@ -425,7 +877,7 @@ export async function validateDiscountCode(code: string): Promise<ActionResult<{
  * @example
  * const result = await calculateShipping('address123');
  */
-export async function calculateShipping(addressId: string): Promise<ActionResult<{
+export async function calculateShipping(addressId?: string): Promise<ActionResult<{
   options: Array<{
     id: string;
     name: string;
@@ -444,11 +896,16 @@ export async function calculateShipping(addressId: string): Promise<ActionResult
       };
     }
 
-    // Get address
-    const address = await prisma.address.findUnique({
-      where: { id: addressId },
-    });
+    // Quote the cart's parcel to its destination
+    const cart = await getCart();
+    if (!cart || cart.items.length === 0) {
+      return {
+        success: false,
+        error: 'Your cart is empty',
+      };
+    }
 
+    const { address } = await getShippingDestination(cart, addressId);
     if (!address) {
       return {
         success: false,
@@ -456,40 +913,19 @@ export async function calculateShipping(addressId: string): Promise<ActionResult
       };
     }
 
-    // Get cart to calculate shipping based on order value
-    const cart = await getCart();
-    let subtotal = 0;
-    if (cart) {
-      for (const item of cart.items) {
-        subtotal += Number(item.variant.price) * item.quantity;
-      }
-    }
+    const quoted = await getCartShippingOptions({
+      cartId: cart.id,
+      items: cart.items,
+      destination: toShippingAddress(address),
+    });
 
-    // Define shipping options
-    // In a real implementation, this would integrate with shipping carriers
-    const options = [
-      {
-        id: 'standard',
-        name: 'Standard Shipping',
-        price: subtotal >= 75 ? 0 : 5.99,
-        estimatedDays: '5-7 business days',
-        description: 'Delivered via USPS or UPS',
-      },
-      {
-        id: 'express',
-        name: 'Express Shipping',
-        price: subtotal >= 150 ? 9.99 : 14.99,
-        estimatedDays: '2-3 business days',
-        description: 'Delivered via UPS or FedEx',
-      },
-      {
-        id: 'overnight',
-        name: 'Overnight Shipping',
-        price: 29.99,
-        estimatedDays: '1 business day',
-        description: 'Order by 2 PM for next-day delivery',
-      },
-    ];
+    const options = quoted.map((option) => ({
+      id: option.id,
+      name: option.name,
+      price: option.price,
+      estimatedDays: option.estimatedDays,
+      description: option.description,
+    }));
 
     return {
       success: true,
@@ -497,6 +933,9 @@ export async function calculateShipping(addressId: string): Promise<ActionResult
     };
   } catch (error) {
     console.error('Calculate shipping error:', error);
+    if (error instanceof BadRequestError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while calculating shipping. Please try again.',
@@ -507,15 +946,17 @@ export async function calculateShipping(addressId: string): Promise<ActionResult
 /**
  * Calculate tax for an address
  *
- * Calculates the tax amount based on the shipping address.
+ * Calculates the tax amount based on the shipping address, or the
+ * registrant's address for registry gift carts.
  *
  * @param addressId - ID of the shipping address
+ * @param shippingAmount - Selected shipping cost (taxable in some states)
  * @returns Result object with tax amount or error
  *
  * @example
- * const result = await calculateTax('address123');
+ * const result = await calculateTax('address123', 5.99);
  */
-export async function calculateTax(addressId: string): Promise<ActionResult<{
+export async function calculateTax(addressId?: string, shippingAmount: number = 0): Promise<ActionResult<{
   taxRate: number;
   taxAmount: number;
   taxableAmount: number;
@@ -530,18 +971,6 @@ export async function calculateTax(addressId: string): Promise<ActionResult<{
       };
     }
 
-    // Get address
-    const address = await prisma.address.findUnique({
-      where: { id: addressId },
-    });
-
-    if (!address) {
-      return {
-        success: false,
-        error: 'Address not found',
-      };
-    }
-
     // Get cart to calculate tax
     const cart = await getCart();
     if (!cart || cart.items.length === 0) {
@@ -555,40 +984,39 @@ export async function calculateTax(addressId: string): Promise<ActionResult<{
       };
     }
 
-    // Calculate subtotal
-    let subtotal = 0;
-    for (const item of cart.items) {
-      subtotal += Number(item.variant.price) * item.quantity;
-    }
-
-    // Calculate tax based on state
-    // In a real implementation, you would use a tax service like TaxJar or Avalara
-    const taxRates: Record<string, number> = {
-      'CA': 0.0825,
-      'NY': 0.08,
-      'TX': 0.0625,
-      'FL': 0.06,
-      'IL': 0.0625,
-      'PA': 0.06,
-      'OH': 0.0575,
-      'GA': 0.04,
-      'NC': 0.0475,
-      'MI': 0.06,
-    };
+    const { address } = await getShippingDestination(cart, addressId);
+    if (!address) {
+      return {
+        success: false,
+        error: 'Address not found',
+      };
+    }
 
-    const taxRate = taxRates[address.state] || 0;
-    const taxAmount = subtotal * taxRate;
+    // Calculate tax for the shipping destination, after promotions and any code
+    const { savings } = await getCartSavings(cart.discountCodeId, {
+      lines: toPromotionLines(cart.items),
+      shippingAmount,
+      customer: { userId: cart.userId },
+    });
+    const tax = await computeTax({
+      address: toTaxAddress(address),
+      lineItems: withLineDiscounts(toTaxLineItems(cart.items), savings),
+      shipping: shippingAmount - savings.shippingDiscount,
+    });
 
     return {
       success: true,
       data: {
-        taxRate,
-        taxAmount: Math.round(taxAmount * 100) / 100,
-        taxableAmount: subtotal,
+        taxRate: tax.rate,
+        taxAmount: tax.amountToCollect,
+        taxableAmount: tax.taxableAmount,
       },
     };
   } catch (error) {
     console.error('Calculate tax error:', error);
+    if (error instanceof BadRequestError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while calculating tax. Please try again.',
@@ -596,45 +1024,79 @@ export async function calculateTax(addressId: string): Promise<ActionResult<{
   }
 }
 
-// ============================================
-// HELPER FUNCTIONS FOR CALCULATIONS
-// ============================================
-
 /**
- * Calculate shipping amount for a shipping method
+ * Get who is checking out
+ *
+ * Guests have no account email, so checkout asks for one.
+ *
+ * @returns Result object with the signed-in customer's email, or null for a guest
+ *
+ * @example
+ * const result = await getCheckoutCustomer();
+ * if (result.success && !result.data!.email) showGuestEmailField();
  */
-async function calculateShippingAmount(methodId: string, subtotal: number): Promise<number> {
-  switch (methodId) {
-    case 'standard':
-      return subtotal >= 75 ? 0 : 5.99;
-    case 'express':
-      return subtotal >= 150 ? 9.99 : 14.99;
-    case 'overnight':
-      return 29.99;
-    default:
-      return 5.99;
+export async function getCheckoutCustomer(): Promise<ActionResult<{ email: string | null }>> {
+  try {
+    const user = await getCurrentUser();
+    return { success: true, data: { email: user?.email ?? null } };
+  } catch (error) {
+    console.error('Get checkout customer error:', error);
+    return {
+      success: false,
+      error: 'An error occurred while loading checkout. Please try again.',
+    };
   }
 }
 
 /**
- * Calculate tax amount for a state
+ * Get registry gift details for checkout
+ *
+ * For a registry gift cart, returns the registry and who the gifts ship
+ * to, with the registrant's street address hidden.
+ *
+ * @returns Result object with gift details, null for an ordinary cart, or error
+ *
+ * @example
+ * const result = await getGiftCheckoutDetails();
  */
-async function calculateTaxAmount(state: string, subtotal: number): Promise<number> {
-  const taxRates: Record<string, number> = {
-    'CA': 0.0825,
-    'NY': 0.08,
-    'TX': 0.0625,
-    'FL': 0.06,
-    'IL': 0.0625,
-    'PA': 0.06,
-    'OH': 0.0575,
-    'GA': 0.04,
-    'NC': 0.0475,
-    'MI': 0.06,
-  };
+export async function getGiftCheckoutDetails(): Promise<ActionResult<{
+  registryId: string;
+  registryName: string;
+  shareCode: string;
+  recipient: MaskedGiftAddress;
+} | null>> {
+  try {
+    const cart = await getCart();
+    if (!cart || cart.items.length === 0) {
+      return { success: true, data: null };
+    }
+
+    const registryId = getGiftCartRegistryId(cart.items);
+    if (!registryId) {
+      return { success: true, data: null };
+    }
+
+    const registry = await getGiftRegistry(registryId);
 
-  const taxRate = taxRates[state] || 0;
-  return Math.round(subtotal * taxRate * 100) / 100;
+    return {
+      success: true,
+      data: {
+        registryId: registry.id,
+        registryName: registry.name,
+        shareCode: registry.shareCode,
+        recipient: maskGiftShippingAddress(registry.shippingAddress),
+      },
+    };
+  } catch (error) {
+    console.error('Get gift checkout details error:', error);
+    if (error instanceof BadRequestError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while loading your gift details. Please try again.',
+    };
+  }
 }
 
 /**
@@ -698,14 +1160,19 @@ export async function getCheckoutSummary(): Promise<ActionResult<{
       };
     });
 
-    // Default shipping (standard)
-    const shipping = subtotal >= 75 ? 0 : 5.99;
+    // Default shipping (standard) until an address is quoted
+    const shipping = subtotal >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_METHODS.STANDARD.basePrice;
 
     // Default tax (will be recalculated based on address)
     const tax = 0;
 
-    // No discount applied yet
-    const discount = 0;
+    // Automatic promotions, and the code applied to the cart if it still applies
+    const { savings } = await getCartSavings(cart.discountCodeId, {
+      lines: toPromotionLines(cart.items),
+      shippingAmount: shipping,
+      customer: { userId: cart.userId },
+    });
+    const discount = savings.total;
 
     const total = subtotal + shipping + tax - discount;
 
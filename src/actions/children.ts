@@ -0,0 +1,272 @@
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/session';
+import { z } from 'zod';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { UnauthorizedError, NotFoundError } from '@/lib/errors';
+import { ChildSex } from '@prisma/client';
+import { adoptLegacyGrowthEntries } from '@/lib/growth';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+/**
+ * Child input schema
+ */
+const childSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  birthDate: z.string().datetime().optional().nullable(),
+  dueDate: z.string().datetime().optional().nullable(),
+  sex: z.nativeEnum(ChildSex).optional().nullable(),
+});
+
+export type ChildInput = z.infer<typeof childSchema>;
+
+/**
+ * A child profile
+ */
+export interface ChildProfile {
+  id: string;
+  name: string;
+  birthDate: Date | null;
+  dueDate: Date | null;
+  sex: ChildSex | null;
+  growthEntryCount: number;
+}
+
+// ============================================
+// CHILD ACTIONS
+// ============================================
+
+/**
+ * Get the current user's children
+ *
+ * Growth entries recorded against the user's registry before child
+ * profiles existed are moved onto children first.
+ *
+ * @returns Result object with children, oldest profile first, or error
+ *
+ * @example
+ * const result = await getChildren();
+ */
+export async function getChildren(): Promise<ActionResult<{ children: ChildProfile[] }>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to view your children');
+    }
+
+    await adoptLegacyGrowthEntries(user.id);
+
+    const children = await prisma.child.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { growthEntries: true } } },
+    });
+
+    return {
+      success: true,
+      data: {
+        children: children.map((child) => ({
+          id: child.id,
+          name: child.name,
+          birthDate: child.birthDate,
+          dueDate: child.dueDate,
+          sex: child.sex,
+          growthEntryCount: child._count.growthEntries,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Get children error:', error);
+    if (error instanceof UnauthorizedError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while fetching your children. Please try again.',
+    };
+  }
+}
+
+/**
+ * Add a child
+ *
+ * @param input - Child details; a due date stands in for the birth date
+ *   until the baby arrives
+ * @returns Result object with the new child's ID or error
+ *
+ * @example
+ * const result = await createChild({
+ *   name: 'Ava',
+ *   birthDate: '2026-03-02T00:00:00Z',
+ *   sex: 'FEMALE',
+ * });
+ */
+export async function createChild(input: ChildInput): Promise<ActionResult<{ childId: string }>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to add a child');
+    }
+
+    // Validate input
+    const validatedFields = childSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { name, birthDate, dueDate, sex } = validatedFields.data;
+
+    const child = await prisma.child.create({
+      data: {
+        userId: user.id,
+        name: name!,
+        birthDate: birthDate ? new Date(birthDate) : null,
+        dueDate: dueDate ? new Date(dueDate) : null,
+        sex,
+      },
+    });
+
+    revalidatePath('/registry');
+    revalidateTag('growth');
+
+    return {
+      success: true,
+      data: { childId: child.id },
+    };
+  } catch (error) {
+    console.error('Create child error:', error);
+    if (error instanceof UnauthorizedError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while adding the child. Please try again.',
+    };
+  }
+}
+
+/**
+ * Update a child
+ *
+ * @param childId - ID of the child to update
+ * @param input - Updated child details
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * const result = await updateChild('child123', { sex: 'MALE' });
+ */
+export async function updateChild(childId: string, input: Partial<ChildInput>): Promise<ActionResult> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to update a child');
+    }
+
+    // Validate input
+    const validatedFields = childSchema.partial().safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const data = validatedFields.data;
+
+    // Verify child belongs to user
+    const child = await prisma.child.findFirst({
+      where: { id: childId, userId: user.id },
+    });
+
+    if (!child) {
+      throw new NotFoundError('Child not found');
+    }
+
+    await prisma.child.update({
+      where: { id: childId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.birthDate !== undefined && { birthDate: data.birthDate ? new Date(data.birthDate) : null }),
+        ...(data.dueDate !== undefined && { dueDate: data.dueDate ? new Date(data.dueDate) : null }),
+        ...(data.sex !== undefined && { sex: data.sex }),
+      },
+    });
+
+    revalidatePath('/registry');
+    revalidateTag('growth');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update child error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while updating the child. Please try again.',
+    };
+  }
+}
+
+/**
+ * Delete a child
+ *
+ * Deletes the child along with their growth entries and predictions.
+ *
+ * @param childId - ID of the child to delete
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * const result = await deleteChild('child123');
+ */
+export async function deleteChild(childId: string): Promise<ActionResult> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to delete a child');
+    }
+
+    const deleted = await prisma.child.deleteMany({
+      where: { id: childId, userId: user.id },
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundError('Child not found');
+    }
+
+    revalidatePath('/registry');
+    revalidateTag('growth');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Delete child error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while deleting the child. Please try again.',
+    };
+  }
+}
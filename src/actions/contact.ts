@@ -4,7 +4,12 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, ValidationError } from '@/lib/errors';
+import { ReturnReason } from '@prisma/client';
+import { headers } from 'next/headers';
+import { BadRequestError, NotFoundError, RateLimitError, UnauthorizedError, ValidationError } from '@/lib/errors';
+import { rateLimiter, getClientIp, CONTACT_RATE_LIMIT } from '@/lib/rate-limiter';
+import { createSupportTicket } from '@/lib/support';
+import { cancelReturnRequest, createReturnRequest } from '@/lib/returns';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -34,6 +39,37 @@ const submitContactFormSchema = z.object({
 
 export type SubmitContactFormInput = z.infer<typeof submitContactFormSchema>;
 
+/**
+ * Ticket subject prefixes for product issue types
+ */
+const PRODUCT_ISSUE_LABELS = {
+  DAMAGED: 'Damaged item',
+  WRONG_ITEM: 'Wrong item',
+  MISSING: 'Missing item',
+  DEFECTIVE: 'Defective item',
+  OTHER: 'Product issue',
+} as const;
+
+/**
+ * Request return input schema
+ */
+const requestReturnSchema = z.object({
+  orderNumber: z.string().min(1, 'Order number is required'),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().cuid('Invalid order item ID'),
+        quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+        reason: z.nativeEnum(ReturnReason, { errorMap: () => ({ message: 'Select a reason' }) }),
+        note: z.string().max(500).optional(),
+      })
+    )
+    .min(1, 'Select at least one item to return'),
+  description: z.string().max(1000).optional(),
+});
+
+export type RequestReturnInput = z.infer<typeof requestReturnSchema>;
+
 // ============================================
 // CONTACT ACTIONS
 // ============================================
@@ -41,7 +77,9 @@ export type SubmitContactFormInput = z.infer<typeof submitContactFormSchema>;
 /**
  * Submit a contact form
  *
- * Submits a contact form message to the support team.
+ * Opens a support ticket for the message. The customer gets a confirmation
+ * email they can reply to, and the support team is notified. An order
+ * number is linked when it belongs to the sender.
  *
  * @param input - Contact form data (name, email, subject, message, etc.)
  * @returns Result object indicating success or failure
@@ -67,57 +105,42 @@ export async function submitContactForm(input: SubmitContactFormInput): Promise<
 
     const { name, email, subject, message, phone, orderNumber } = validatedFields.data;
 
+    // Check rate limit
+    const rateLimit = await rateLimiter.limit(getClientIp(await headers()), CONTACT_RATE_LIMIT);
+    if (rateLimit.limited) {
+      throw new RateLimitError('Too many messages sent. Please try again later.');
+    }
+
     // Get current user if logged in
     const user = await getCurrentUser();
 
-    // In a real implementation, you would:
-    // 1. Create a contact message record in the database
-    // 2. Send an email notification to the support team
-    // 3. Send a confirmation email to the user
+    // Only link orders placed by this customer
+    let orderId: string | null = null;
+    if (orderNumber) {
+      const order = await prisma.order.findUnique({
+        where: { orderNumber: orderNumber.trim() },
+        select: { id: true, userId: true, customerEmail: true },
+      });
+      if (
+        order &&
+        (order.userId === user?.id || order.customerEmail.toLowerCase() === email.toLowerCase())
+      ) {
+        orderId = order.id;
+      }
+    }
 
-    // Placeholder implementation
-    console.log('Contact form submission:', {
-      name,
-      email,
+    await createSupportTicket({
+      type: orderId ? 'ORDER' : 'CONTACT',
       subject,
       message,
-      phone,
-      orderNumber,
+      customerName: name,
+      customerEmail: email,
+      customerPhone: phone,
       userId: user?.id,
+      orderId,
+      metadata: orderNumber ? { orderNumber } : undefined,
     });
 
-    // TODO: Implement actual contact form submission
-    // const contactMessage = await prisma.contactMessage.create({
-    //   data: {
-    //     name,
-    //     email: email.toLowerCase(),
-    //     subject,
-    //     message,
-    //     phone,
-    //     orderNumber,
-    //     userId: user?.id,
-    //     status: 'PENDING',
-    //   },
-    // });
-
-    // TODO: Send email notification to support team
-    // await sendContactNotification({
-    //   to: 'support@babypetite.com',
-    //   subject: `New Contact Form: ${subject}`,
-    //   name,
-    //   email,
-    //   message,
-    //   phone,
-    //   orderNumber,
-    // });
-
-    // TODO: Send confirmation email to user
-    // await sendContactConfirmation({
-    //   to: email,
-    //   name,
-    //   subject,
-    // });
-
     revalidateTag('contact');
 
     return {
@@ -125,6 +148,9 @@ export async function submitContactForm(input: SubmitContactFormInput): Promise<
     };
   } catch (error) {
     console.error('Submit contact form error:', error);
+    if (error instanceof RateLimitError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while sending your message. Please try again.',
@@ -135,7 +161,7 @@ export async function submitContactForm(input: SubmitContactFormInput): Promise<
 /**
  * Submit a support request
  *
- * Submits a support request for a specific order or product.
+ * Opens a support ticket for a specific order or product.
  *
  * @param input - Support request data
  * @returns Result object indicating success or failure
@@ -143,7 +169,7 @@ export async function submitContactForm(input: SubmitContactFormInput): Promise<
  * @example
  * const result = await submitSupportRequest({
  *   type: 'ORDER',
- *   orderId: 'order123',
+ *   orderId: 'KP-ABC123-XYZ',
  *   subject: 'Missing item',
  *   message: 'I received my order but item X is missing',
  * });
@@ -182,12 +208,14 @@ export async function submitSupportRequest(input: {
     const { type, orderId, productId, subject, message } = validatedFields.data;
 
     // Validate that the order/product belongs to the user
+    let order: { id: string } | null = null;
     if (type === 'ORDER' && orderId) {
-      const order = await prisma.order.findFirst({
+      order = await prisma.order.findFirst({
         where: {
           orderNumber: orderId,
           userId: user.id,
         },
+        select: { id: true },
       });
 
       if (!order) {
@@ -211,36 +239,17 @@ export async function submitSupportRequest(input: {
       }
     }
 
-    // In a real implementation, you would:
-    // 1. Create a support ticket record
-    // 2. Send email notification to support team
-    // 3. Send confirmation email to user
-
-    // Placeholder implementation
-    console.log('Support request submission:', {
+    await createSupportTicket({
       type,
-      orderId,
-      productId,
       subject,
       message,
+      customerName: user.name,
+      customerEmail: user.email,
       userId: user.id,
-      userEmail: user.email,
+      orderId: order?.id,
+      productId: type === 'PRODUCT' ? productId : undefined,
     });
 
-    // TODO: Implement actual support request submission
-    // const supportTicket = await prisma.supportTicket.create({
-    //   data: {
-    //     type,
-    //     orderId,
-    //     productId,
-    //     subject,
-    //     message,
-    //     userId: user.id,
-    //     status: 'OPEN',
-    //     priority: 'NORMAL',
-    //   },
-    // });
-
     revalidateTag('support');
 
     return {
@@ -261,7 +270,8 @@ export async function submitSupportRequest(input: {
 /**
  * Report a product issue
  *
- * Reports an issue with a product (e.g., damaged, wrong item, etc.).
+ * Opens a high-priority support ticket for an issue with an ordered item
+ * (e.g., damaged, wrong item, etc.), linked to the order and product.
  *
  * @param input - Product issue report data
  * @returns Result object indicating success or failure
@@ -315,7 +325,9 @@ export async function reportProductIssue(input: {
         userId: user.id,
       },
       include: {
-        items: true,
+        items: {
+          include: { variant: { select: { productId: true } } },
+        },
       },
     });
 
@@ -335,35 +347,25 @@ export async function reportProductIssue(input: {
       };
     }
 
-    // In a real implementation, you would:
-    // 1. Create a product issue report record
-    // 2. Send email notification to support team
-    // 3. Send confirmation email to user
-
-    // Placeholder implementation
-    console.log('Product issue report:', {
-      orderNumber,
-      variantId,
-      issueType,
-      description,
-      images,
+    await createSupportTicket({
+      type: 'PRODUCT_ISSUE',
+      subject: `${PRODUCT_ISSUE_LABELS[issueType]}: ${orderItem.productName}`,
+      message: description,
+      customerName: user.name,
+      customerEmail: user.email,
       userId: user.id,
-      userEmail: user.email,
+      orderId: order.id,
+      productId: orderItem.variant.productId,
+      metadata: {
+        orderNumber,
+        variantId,
+        sku: orderItem.sku,
+        variantName: orderItem.variantName,
+        issueType,
+      },
+      attachments: images,
     });
 
-    // TODO: Implement actual product issue report
-    // const issueReport = await prisma.productIssueReport.create({
-    //   data: {
-    //     orderNumber,
-    //     variantId,
-    //     issueType,
-    //     description,
-    //     images: images || [],
-    //     userId: user.id,
-    //     status: 'PENDING',
-    //   },
-    // });
-
     revalidateTag('support');
     revalidatePath(`/account/orders/${orderNumber}`);
 
@@ -386,25 +388,25 @@ export async function reportProductIssue(input: {
 /**
  * Request a return
  *
- * Initiates a return request for an order.
+ * Creates a return request (RMA) for some or all of the items in a
+ * delivered order. Staff review it at `/admin/returns`; on approval the
+ * customer is emailed a printable return label and refunded.
  *
- * @param input - Return request data
- * @returns Result object indicating success or failure
+ * @param input - Order number, items with quantities and reason codes
+ * @returns Result object with the RMA number or error
  *
  * @example
  * const result = await requestReturn({
  *   orderNumber: 'KP-ABC123-XYZ',
- *   variantId: 'variant123',
- *   reason: 'Not as described',
- *   description: 'The product is different from what was shown',
+ *   items: [{ orderItemId: 'clx123...', quantity: 1, reason: 'TOO_SMALL' }],
+ *   description: 'Lovely, but she has outgrown it already',
  * });
  */
-export async function requestReturn(input: {
-  orderNumber: string;
-  variantId: string;
-  reason: string;
-  description: string;
-}): Promise<ActionResult<{ message: string }>> {
+export async function requestReturn(input: RequestReturnInput): Promise<ActionResult<{
+  returnId: string;
+  rmaNumber: string;
+  message: string;
+}>> {
   try {
     // Get current user
     const user = await getCurrentUser();
@@ -413,14 +415,7 @@ export async function requestReturn(input: {
     }
 
     // Validate input
-    const schema = z.object({
-      orderNumber: z.string().min(1, 'Order number is required'),
-      variantId: z.string().cuid('Invalid variant ID'),
-      reason: z.string().min(1, 'Reason is required').max(200),
-      description: z.string().min(10, 'Description must be at least 10 characters').max(1000),
-    });
-
-    const validatedFields = schema.safeParse(input);
+    const validatedFields = requestReturnSchema.safeParse(input);
     if (!validatedFields.success) {
       return {
         success: false,
@@ -428,7 +423,7 @@ export async function requestReturn(input: {
       };
     }
 
-    const { orderNumber, variantId, reason, description } = validatedFields.data;
+    const { orderNumber, items, description } = validatedFields.data;
 
     // Verify order belongs to user
     const order = await prisma.order.findFirst({
@@ -436,9 +431,7 @@ export async function requestReturn(input: {
         orderNumber,
         userId: user.id,
       },
-      include: {
-        items: true,
-      },
+      select: { id: true, deliveredAt: true },
     });
 
     if (!order) {
@@ -448,7 +441,6 @@ export async function requestReturn(input: {
       };
     }
 
-    // Check if order is eligible for return (e.g., within 30 days of delivery)
     if (!order.deliveredAt) {
       return {
         success: false,
@@ -456,60 +448,34 @@ export async function requestReturn(input: {
       };
     }
 
-    const daysSinceDelivery = Math.floor((Date.now() - order.deliveredAt.getTime()) / (1000 * 60 * 60 * 24));
-    if (daysSinceDelivery > 30) {
-      return {
-        success: false,
-        error: 'Return requests must be made within 30 days of delivery',
-      };
-    }
-
-    // Verify variant is in the order
-    const orderItem = order.items.find((item) => item.variantId === variantId);
-    if (!orderItem) {
-      return {
-        success: false,
-        error: 'Item not found in this order',
-      };
-    }
-
-    // In a real implementation, you would:
-    // 1. Create a return request record
-    // 2. Send email notification to support team
-    // 3. Send confirmation email to user with return instructions
-
-    // Placeholder implementation
-    console.log('Return request:', {
-      orderNumber,
-      variantId,
-      reason,
-      description,
+    const returnRequest = await createReturnRequest({
+      orderId: order.id,
       userId: user.id,
-      userEmail: user.email,
+      customerName: user.name,
+      items: items.map((item) => ({
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+        reason: item.reason,
+        note: item.note,
+      })),
+      customerNotes: description,
     });
 
-    // TODO: Implement actual return request
-    // const returnRequest = await prisma.returnRequest.create({
-    //   data: {
-    //     orderNumber,
-    //     variantId,
-    //     reason,
-    //     description,
-    //     userId: user.id,
-    //     status: 'PENDING',
-    //   },
-    // });
-
     revalidateTag('support');
     revalidatePath(`/account/orders/${orderNumber}`);
+    revalidatePath('/admin/returns');
 
     return {
       success: true,
-      data: { message: 'Your return request has been submitted. We will send you return instructions via email.' },
+      data: {
+        returnId: returnRequest.id,
+        rmaNumber: returnRequest.rmaNumber,
+        message: `Your return request ${returnRequest.rmaNumber} has been submitted. We will email you a return label once it is approved.`,
+      },
     };
   } catch (error) {
     console.error('Request return error:', error);
-    if (error instanceof UnauthorizedError) {
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError || error instanceof BadRequestError) {
       return { success: false, error: error.message };
     }
     return {
@@ -518,3 +484,45 @@ export async function requestReturn(input: {
     };
   }
 }
+
+/**
+ * Cancel a return request
+ *
+ * Withdraws a return that staff haven't reviewed yet.
+ *
+ * @param returnId - Return request ID
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * const result = await cancelReturn('clx123...');
+ */
+export async function cancelReturn(returnId: string): Promise<ActionResult> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to cancel a return');
+    }
+
+    const returnRequest = await cancelReturnRequest(returnId, user.id);
+    const order = await prisma.order.findUnique({
+      where: { id: returnRequest.orderId },
+      select: { orderNumber: true },
+    });
+
+    if (order) {
+      revalidatePath(`/account/orders/${order.orderNumber}`);
+    }
+    revalidatePath('/admin/returns');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Cancel return error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError || error instanceof BadRequestError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while cancelling the return. Please try again.',
+    };
+  }
+}
@@ -3,10 +3,23 @@
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError, ForbiddenError } from '@/lib/errors';
-import { DropshipOrderStatus, OrderStatus, Order } from '@prisma/client';
+import { UnauthorizedError, NotFoundError, ValidationError, ForbiddenError, ConflictError } from '@/lib/errors';
+import { DropshipOrderStatus, DropshipOrderEventType, OrderStatus, Order } from '@prisma/client';
 import { FulfillmentService } from '@/services/fulfillment/fulfillment-service';
 import { FulfillmentNotificationService } from '@/services/fulfillment/notifications';
+import {
+  canTransitionDropshipOrder,
+  recordDropshipOrderEvent,
+  transitionDropshipOrder,
+} from '@/services/fulfillment/events';
+import {
+  deliverDropshipOrder,
+  deliverShipment,
+  shipDropshipOrder,
+  shipShipment,
+  updateDropshipShipmentTracking,
+} from '@/services/fulfillment/shipments';
+import { completeTrackingDetails } from '@/lib/tracking/carriers';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -85,20 +98,6 @@ export interface DropshipOrderWithDetails {
   }>;
 }
 
-/**
- * Valid status transitions map
- */
-const VALID_STATUS_TRANSITIONS: Record<DropshipOrderStatus, DropshipOrderStatus[]> = {
-  PENDING: ['PLACED', 'CANCELLED', 'ISSUE'],
-  PLACED: ['CONFIRMED', 'CANCELLED', 'ISSUE'],
-  CONFIRMED: ['SHIPPED', 'CANCELLED', 'ISSUE'],
-  SHIPPED: ['DELIVERED', 'ISSUE'],
-  DELIVERED: [],
-  CANCELLED: [],
-  REFUNDED: [],
-  ISSUE: ['PENDING', 'PLACED', 'CONFIRMED', 'SHIPPED', 'CANCELLED'],
-};
-
 // ============================================
 // FULFILLMENT ACTIONS
 // ============================================
@@ -215,22 +214,21 @@ export async function updateFulfillmentStatus(
     }
 
     // Validate status transition
-    const validTransitions = VALID_STATUS_TRANSITIONS[currentOrder.status];
-    if (!validTransitions.includes(status)) {
+    if (!canTransitionDropshipOrder(currentOrder.status, status)) {
       return {
         success: false,
         error: `Cannot transition from ${currentOrder.status} to ${status}`,
       };
     }
 
-    // Update status
-    await prisma.dropshipOrder.update({
-      where: { id: orderId },
-      data: {
-        status,
-        updatedAt: new Date(),
-      },
-    });
+    // Update status and log the transition
+    await prisma.$transaction((tx) =>
+      transitionDropshipOrder(tx, orderId, {
+        fromStatus: currentOrder.status,
+        toStatus: status,
+        actorId: user.id,
+      })
+    );
 
     revalidatePath('/admin/fulfillment');
     revalidatePath(`/admin/fulfillment/${orderId}`);
@@ -239,7 +237,11 @@ export async function updateFulfillmentStatus(
     return { success: true };
   } catch (error) {
     console.error('Update fulfillment status error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -296,26 +298,30 @@ export async function addTrackingInfo(
       throw new NotFoundError('Fulfillment order not found');
     }
 
-    // Update tracking info
-    await prisma.dropshipOrder.update({
-      where: { id: orderId },
-      data: {
-        trackingNumber: trackingNumber.trim(),
-        carrier: carrier?.trim() || null,
-        trackingUrl: trackingUrl?.trim() || null,
-        updatedAt: new Date(),
-      },
-    });
+    // Fill in the carrier and tracking link from the number when left blank
+    const tracking = completeTrackingDetails({ trackingNumber, carrier, trackingUrl });
 
-    // Also update the main order's shipping record
-    await prisma.shipping.update({
-      where: { orderId: dropshipOrder.orderId },
-      data: {
-        trackingNumber: trackingNumber.trim(),
-        carrier: carrier?.trim() || null,
-        trackingUrl: trackingUrl?.trim() || null,
-        updatedAt: new Date(),
-      },
+    await prisma.$transaction(async (tx) => {
+      // Update tracking info
+      await tx.dropshipOrder.update({
+        where: { id: orderId },
+        data: {
+          ...tracking,
+          updatedAt: new Date(),
+        },
+      });
+
+      // Also correct the parcel, when the order ships as one
+      await updateDropshipShipmentTracking(tx, orderId, tracking);
+
+      await recordDropshipOrderEvent(tx, {
+        dropshipOrderId: orderId,
+        type: DropshipOrderEventType.TRACKING_UPDATED,
+        fromStatus: dropshipOrder.status,
+        toStatus: dropshipOrder.status,
+        actorId: user.id,
+        payload: { ...tracking, previousTrackingNumber: dropshipOrder.trackingNumber },
+      });
     });
 
     revalidatePath('/admin/fulfillment');
@@ -383,16 +389,19 @@ export async function markOrderPlaced(
       };
     }
 
-    // Update order
-    await prisma.dropshipOrder.update({
-      where: { id: orderId },
-      data: {
-        status: DropshipOrderStatus.PLACED,
-        aliExpressOrderId: aliExpressOrderId.trim(),
-        placedAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
+    // Update order and log the transition
+    await prisma.$transaction((tx) =>
+      transitionDropshipOrder(tx, orderId, {
+        fromStatus: currentOrder.status,
+        toStatus: DropshipOrderStatus.PLACED,
+        data: {
+          aliExpressOrderId: aliExpressOrderId.trim(),
+          placedAt: new Date(),
+        },
+        actorId: user.id,
+        payload: { aliExpressOrderId: aliExpressOrderId.trim() },
+      })
+    );
 
     revalidatePath('/admin/fulfillment');
     revalidatePath(`/admin/fulfillment/${orderId}`);
@@ -401,7 +410,11 @@ export async function markOrderPlaced(
     return { success: true };
   } catch (error) {
     console.error('Mark order placed error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -444,16 +457,9 @@ export async function markOrderShipped(
       };
     }
 
-    // Get current order with related data
+    // Get current order
     const dropshipOrder = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
-      include: {
-        order: {
-          include: {
-            items: true,
-          },
-        },
-      },
     });
 
     if (!dropshipOrder) {
@@ -469,53 +475,13 @@ export async function markOrderShipped(
       };
     }
 
-    // Update in transaction
-    await prisma.$transaction(async (tx) => {
-      // Update dropship order
-      await tx.dropshipOrder.update({
-        where: { id: orderId },
-        data: {
-          status: DropshipOrderStatus.SHIPPED,
-          trackingNumber: trackingNumber.trim(),
-          carrier: carrier?.trim() || null,
-          shippedAt: new Date(),
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update main order
-      await tx.order.update({
-        where: { id: dropshipOrder.orderId },
-        data: {
-          status: OrderStatus.SHIPPED,
-          shippedAt: new Date(),
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update shipping record
-      await tx.shipping.update({
-        where: { orderId: dropshipOrder.orderId },
-        data: {
-          trackingNumber: trackingNumber.trim(),
-          carrier: carrier?.trim() || null,
-          updatedAt: new Date(),
-        },
-      });
-    });
-
-    // Send shipping notification
-    try {
-      const notificationService = new FulfillmentNotificationService();
-      await notificationService.sendShippingNotification(
-        dropshipOrder.order as any,
-        trackingNumber,
-        carrier
-      );
-    } catch (notificationError) {
-      // Log but don't fail the operation
-      console.error('Failed to send shipping notification:', notificationError);
-    }
+    // Ship the order's remaining items as one parcel; this moves the dropship
+    // order and main order on and emails the customer
+    await shipDropshipOrder(
+      orderId,
+      { trackingNumber: trackingNumber.trim(), carrier: carrier?.trim() || null },
+      { actorId: user.id }
+    );
 
     revalidatePath('/admin/fulfillment');
     revalidatePath(`/admin/fulfillment/${orderId}`);
@@ -525,7 +491,11 @@ export async function markOrderShipped(
     return { success: true };
   } catch (error) {
     console.error('Mark order shipped error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -554,12 +524,9 @@ export async function markOrderDelivered(orderId: string): Promise<ActionResult>
       throw new UnauthorizedError('Admin access required');
     }
 
-    // Get current order with related data
+    // Get current order
     const dropshipOrder = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
-      include: {
-        order: true,
-      },
     });
 
     if (!dropshipOrder) {
@@ -574,47 +541,9 @@ export async function markOrderDelivered(orderId: string): Promise<ActionResult>
       };
     }
 
-    // Update in transaction
-    await prisma.$transaction(async (tx) => {
-      // Update dropship order
-      await tx.dropshipOrder.update({
-        where: { id: orderId },
-        data: {
-          status: DropshipOrderStatus.DELIVERED,
-          deliveredAt: new Date(),
-          actualDelivery: new Date(),
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update main order
-      await tx.order.update({
-        where: { id: dropshipOrder.orderId },
-        data: {
-          status: OrderStatus.DELIVERED,
-          deliveredAt: new Date(),
-          updatedAt: new Date(),
-        },
-      });
-
-      // Update shipping record
-      await tx.shipping.update({
-        where: { orderId: dropshipOrder.orderId },
-        data: {
-          actualDelivery: new Date(),
-          updatedAt: new Date(),
-        },
-      });
-    });
-
-    // Send delivery notification
-    try {
-      const notificationService = new FulfillmentNotificationService();
-      await notificationService.sendDeliveryNotification(dropshipOrder.order as any);
-    } catch (notificationError) {
-      // Log but don't fail the operation
-      console.error('Failed to send delivery notification:', notificationError);
-    }
+    // Deliver each of the order's parcels; the customer is emailed once the
+    // whole order has arrived
+    await deliverDropshipOrder(orderId, { actorId: user.id });
 
     revalidatePath('/admin/fulfillment');
     revalidatePath(`/admin/fulfillment/${orderId}`);
@@ -624,7 +553,11 @@ export async function markOrderDelivered(orderId: string): Promise<ActionResult>
     return { success: true };
   } catch (error) {
     console.error('Mark order delivered error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -634,6 +567,107 @@ export async function markOrderDelivered(orderId: string): Promise<ActionResult>
   }
 }
 
+/**
+ * Ship a single parcel
+ *
+ * For orders that ship in several packages. The order moves to shipped with
+ * its first parcel and the customer gets an email for each one.
+ *
+ * @param shipmentId - The shipment ID
+ * @param trackingNumber - The tracking number
+ * @param carrier - Optional carrier name
+ * @param trackingUrl - Optional tracking URL
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * const result = await shipOrderShipment('shipment_123', 'TRACK123', 'USPS');
+ */
+export async function shipOrderShipment(
+  shipmentId: string,
+  trackingNumber: string,
+  carrier?: string,
+  trackingUrl?: string
+): Promise<ActionResult> {
+  try {
+    // Check admin/staff authorization
+    const user = await getCurrentUser();
+    if (!user || (user.role !== 'ADMIN' && user.role !== 'STAFF')) {
+      throw new UnauthorizedError('Admin access required');
+    }
+
+    // Validate tracking number
+    if (!trackingNumber || trackingNumber.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Tracking number is required',
+      };
+    }
+
+    await shipShipment(shipmentId, { trackingNumber, carrier, trackingUrl }, { actorId: user.id });
+
+    revalidatePath('/admin/fulfillment', 'layout');
+    revalidateTag('fulfillment');
+    revalidateTag('orders');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Ship shipment error:', error);
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while marking the package as shipped.',
+    };
+  }
+}
+
+/**
+ * Mark a single parcel as delivered
+ *
+ * The order is delivered once all of its parcels are.
+ *
+ * @param shipmentId - The shipment ID
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * const result = await deliverOrderShipment('shipment_123');
+ */
+export async function deliverOrderShipment(shipmentId: string): Promise<ActionResult> {
+  try {
+    // Check admin/staff authorization
+    const user = await getCurrentUser();
+    if (!user || (user.role !== 'ADMIN' && user.role !== 'STAFF')) {
+      throw new UnauthorizedError('Admin access required');
+    }
+
+    await deliverShipment(shipmentId, { actorId: user.id });
+
+    revalidatePath('/admin/fulfillment', 'layout');
+    revalidateTag('fulfillment');
+    revalidateTag('orders');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Deliver shipment error:', error);
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while marking the package as delivered.',
+    };
+  }
+}
+
 /**
  * Report fulfillment issue
  *
@@ -669,7 +703,7 @@ export async function reportFulfillmentIssue(
     const dropshipOrder = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
       include: {
-        order: true,
+        order: { include: { items: true } },
       },
     });
 
@@ -677,19 +711,45 @@ export async function reportFulfillmentIssue(
       throw new NotFoundError('Fulfillment order not found');
     }
 
-    // Update order status
-    await prisma.dropshipOrder.update({
-      where: { id: orderId },
-      data: {
-        status: DropshipOrderStatus.ISSUE,
-        updatedAt: new Date(),
-      },
+    // Validate status transition
+    if (
+      dropshipOrder.status !== DropshipOrderStatus.ISSUE &&
+      !canTransitionDropshipOrder(dropshipOrder.status, DropshipOrderStatus.ISSUE)
+    ) {
+      return {
+        success: false,
+        error: `Cannot report an issue. Current status: ${dropshipOrder.status}`,
+      };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Further issues on an order already flagged are logged without a transition
+      if (dropshipOrder.status === DropshipOrderStatus.ISSUE) {
+        await recordDropshipOrderEvent(tx, {
+          dropshipOrderId: orderId,
+          type: DropshipOrderEventType.ISSUE_REPORTED,
+          fromStatus: dropshipOrder.status,
+          toStatus: dropshipOrder.status,
+          actorId: user.id,
+          note: issue.trim(),
+        });
+        return;
+      }
+
+      // Update order status and log the transition
+      await transitionDropshipOrder(tx, orderId, {
+        fromStatus: dropshipOrder.status,
+        toStatus: DropshipOrderStatus.ISSUE,
+        type: DropshipOrderEventType.ISSUE_REPORTED,
+        actorId: user.id,
+        note: issue.trim(),
+      });
     });
 
     // Send issue notification
     try {
       const notificationService = new FulfillmentNotificationService();
-      await notificationService.sendIssueNotification(dropshipOrder.order as any, issue);
+      await notificationService.sendIssueNotification(dropshipOrder.order, issue);
     } catch (notificationError) {
       // Log but don't fail the operation
       console.error('Failed to send issue notification:', notificationError);
@@ -702,7 +762,11 @@ export async function reportFulfillmentIssue(
     return { success: true };
   } catch (error) {
     console.error('Report fulfillment issue error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -5,7 +5,14 @@ import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
 import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
-import OpenAI from 'openai';
+import type { ChildSex, Prisma } from '@prisma/client';
+import {
+  projectGrowth,
+  getSizesForMeasurements,
+  type GrowthChartSource,
+  type GrowthMeasurement,
+  type GrowthProjection,
+} from '@/lib/growth';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -23,13 +30,14 @@ export interface ActionResult<T = void> {
 
 /**
  * Add growth entry input schema
+ * Measurements are in centimetres and kilograms
  */
 const addGrowthEntrySchema = z.object({
-  childName: z.string().min(1, 'Child name is required').max(100).optional(),
-  childBirthDate: z.string().datetime().optional().nullable(),
+  childId: z.string().cuid('Invalid child ID'),
   height: z.number().positive('Height must be positive').optional().nullable(),
   weight: z.number().positive('Weight must be positive').optional().nullable(),
   headCircumference: z.number().positive('Head circumference must be positive').optional().nullable(),
+  recordedAt: z.string().datetime().optional(),
   notes: z.string().max(500).optional(),
 });
 
@@ -61,6 +69,7 @@ export type DeleteGrowthEntryInput = z.infer<typeof deleteGrowthEntrySchema>;
  * Size prediction result
  */
 export interface SizePrediction {
+  ageMonths: number;
   currentSize: {
     clothing: string;
     shoes: string;
@@ -74,10 +83,21 @@ export interface SizePrediction {
     height: number;
     weight: number;
   }>;
+  /** Percentiles of the latest measurements; null if never measured */
   growthPercentile: {
-    height: number;
-    weight: number;
+    height: number | null;
+    weight: number | null;
+    headCircumference: number | null;
+  };
+  /** Recent growth per month (cm or kg); null without enough history */
+  growthVelocity: {
+    height: number | null;
+    weight: number | null;
   };
+  chart: GrowthChartSource;
+  sex: ChildSex | null;
+  /** Measurements never recorded, so predicted along the median */
+  assumedMedian: GrowthMeasurement[];
   recommendations: string[];
 }
 
@@ -88,15 +108,14 @@ export interface SizePrediction {
 /**
  * Add a growth entry
  *
- * Adds a new growth measurement entry to the user's registry.
+ * Adds a new growth measurement entry for one of the user's children.
  *
  * @param input - Growth entry data
  * @returns Result object with entry details or error
  *
  * @example
  * const result = await addGrowthEntry({
- *   childName: 'Baby Smith',
- *   childBirthDate: '2024-01-15T00:00:00Z',
+ *   childId: 'child123',
  *   height: 65,
  *   weight: 7.5,
  *   headCircumference: 42,
@@ -119,36 +138,31 @@ export async function addGrowthEntry(input: AddGrowthEntryInput): Promise<Action
       };
     }
 
-    const { childName, childBirthDate, height, weight, headCircumference, notes } = validatedFields.data;
+    const { childId, height, weight, headCircumference, recordedAt, notes } = validatedFields.data;
 
-    // Get user's registry
-    const registry = await prisma.registry.findUnique({
-      where: { userId: user.id },
+    // Verify child belongs to user
+    const child = await prisma.child.findFirst({
+      where: { id: childId, userId: user.id },
     });
 
-    if (!registry) {
-      return {
-        success: false,
-        error: 'You need to create a registry first to track growth',
-      };
+    if (!child) {
+      throw new NotFoundError('Child not found');
     }
 
     // Create growth entry
     const entry = await prisma.growthEntry.create({
       data: {
-        registryId: registry.id,
-        childName: childName || registry.name,
-        childBirthDate: childBirthDate ? new Date(childBirthDate) : null,
+        childId: child.id,
         height,
         weight,
         headCircumference,
+        ...(recordedAt && { recordedAt: new Date(recordedAt) }),
         notes,
       },
     });
 
     revalidatePath('/registry');
     revalidatePath('/account/registry');
-    revalidatePath(`/registry/${registry.shareCode}`);
     revalidateTag('growth');
 
     return {
@@ -157,7 +171,7 @@ export async function addGrowthEntry(input: AddGrowthEntryInput): Promise<Action
     };
   } catch (error) {
     console.error('Add growth entry error:', error);
-    if (error instanceof UnauthorizedError) {
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
       return { success: false, error: error.message };
     }
     return {
@@ -206,7 +220,7 @@ export async function updateGrowthEntry(
     const entry = await prisma.growthEntry.findFirst({
       where: {
         id: entryId,
-        registry: { userId: user.id },
+        child: { userId: user.id },
       },
     });
 
@@ -276,7 +290,7 @@ export async function deleteGrowthEntry(entryId: string): Promise<ActionResult>
     const entry = await prisma.growthEntry.findFirst({
       where: {
         id: entryId,
-        registry: { userId: user.id },
+        child: { userId: user.id },
       },
     });
 
@@ -307,15 +321,18 @@ export async function deleteGrowthEntry(entryId: string): Promise<ActionResult>
 }
 
 /**
- * Get size prediction using AI
+ * Get size prediction
  *
- * Uses OpenAI to predict future sizes based on growth data.
+ * Charts the child's measurements against the WHO (0-24 months) and CDC
+ * (24-60 months) growth charts, projects them forward from the growth
+ * history and maps them to our size chart. The same data always gives the
+ * same prediction; OpenAI, when configured, only writes the tips.
  *
- * @param childId - Child ID (registry ID)
+ * @param childId - Child ID
  * @returns Result object with size predictions or error
  *
  * @example
- * const result = await getSizePrediction('registry123');
+ * const result = await getSizePrediction('child123');
  */
 export async function getSizePrediction(childId: string): Promise<ActionResult<SizePrediction>> {
   try {
@@ -325,8 +342,8 @@ export async function getSizePrediction(childId: string): Promise<ActionResult<S
       throw new UnauthorizedError('You must be logged in to get size predictions');
     }
 
-    // Find registry
-    const registry = await prisma.registry.findFirst({
+    // Find child
+    const child = await prisma.child.findFirst({
       where: {
         id: childId,
         userId: user.id,
@@ -334,150 +351,111 @@ export async function getSizePrediction(childId: string): Promise<ActionResult<S
       include: {
         growthEntries: {
           orderBy: { recordedAt: 'desc' },
-          take: 10,
+          take: 20,
         },
       },
     });
 
-    if (!registry) {
-      throw new NotFoundError('Registry not found');
+    if (!child) {
+      throw new NotFoundError('Child not found');
     }
 
-    if (registry.growthEntries.length === 0) {
+    if (child.growthEntries.length === 0) {
       return {
         success: false,
         error: 'No growth data available. Please add at least one growth entry.',
       };
     }
 
-    // Get the most recent growth entry
-    const latestEntry = registry.growthEntries[0];
-
-    // Calculate child's age in months
-    const childBirthDate = latestEntry.childBirthDate || registry.eventDate;
-    if (!childBirthDate) {
+    // The due date stands in until the birth date is added
+    const birthDate = child.birthDate || child.dueDate;
+    if (!birthDate) {
       return {
         success: false,
         error: 'Child birth date is required for size prediction',
       };
     }
 
-    const ageInMonths = Math.floor((Date.now() - childBirthDate.getTime()) / (1000 * 60 * 60 * 24 * 30));
+    const sex = child.sex;
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+    const projection = projectGrowth({
+      birthDate,
+      sex,
+      entries: child.growthEntries,
+      monthsAhead: [0, 2, 4, 6],
     });
 
-    // Prepare prompt for OpenAI
-    const prompt = `
-You are a baby growth expert. Based on the following growth data, predict the child's future sizes and provide recommendations.
-
-Child Information:
-- Current Age: ${ageInMonths} months
-- Current Height: ${latestEntry.height || 'N/A'} cm
-- Current Weight: ${latestEntry.weight || 'N/A'} kg
-- Head Circumference: ${latestEntry.headCircumference || 'N/A'} cm
-
-Please provide:
-1. Current size recommendations (clothing, shoes, diaper)
-2. Predicted sizes for the next 6 months (every 2 months)
-3. Growth percentile estimates (height and weight)
-4. Recommendations for parents
-
-Format your response as JSON with the following structure:
-{
-  "currentSize": {
-    "clothing": "size (e.g., 0-3 months)",
-    "shoes": "size (e.g., 0)",
-    "diaper": "size (e.g., N)"
-  },
-  "predictedSizes": [
-    {
-      "ageMonths": number,
-      "clothing": "size",
-      "shoes": "size",
-      "diaper": "size",
-      "height": number,
-      "weight": number
+    if (!projection || projection.projections.length === 0) {
+      return {
+        success: false,
+        error: 'Size predictions are available for children from birth to 5 years old',
+      };
     }
-  ],
-  "growthPercentile": {
-    "height": number (0-100),
-    "weight": number (0-100)
-  },
-  "recommendations": ["tip1", "tip2", "tip3"]
-}
-`;
-
-    try {
-      // Call OpenAI API
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a baby growth expert who provides accurate size predictions and recommendations based on growth data.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-      });
-
-      const responseContent = completion.choices[0]?.message?.content;
-      if (!responseContent) {
-        throw new Error('No response from OpenAI');
-      }
 
-      const prediction = JSON.parse(responseContent) as SizePrediction;
-
-      // Update registry with AI predictions
-      await prisma.registry.update({
-        where: { id: registry.id },
-        data: {
-          predictedSizes: prediction as any,
-        },
-      });
+    const [now, ...upcoming] = projection.projections;
+    const currentSize = getSizesForMeasurements(now);
+    const predictedSizes = upcoming.map((measurements) => ({
+      ageMonths: Math.round(measurements.ageMonths),
+      ...getSizesForMeasurements(measurements),
+      height: measurements.height,
+      weight: measurements.weight,
+    }));
+
+    const prediction: SizePrediction = {
+      ageMonths: projection.ageMonths,
+      currentSize,
+      predictedSizes,
+      growthPercentile: {
+        height: projection.current.height?.percentile ?? null,
+        weight: projection.current.weight?.percentile ?? null,
+        headCircumference: projection.current.headCircumference?.percentile ?? null,
+      },
+      growthVelocity: {
+        height: projection.velocity.height,
+        weight: projection.velocity.weight,
+      },
+      chart: projection.chart,
+      sex,
+      assumedMedian: projection.assumedMedian,
+      recommendations: getGrowthRecommendations(projection, currentSize.clothing, predictedSizes),
+    };
 
-      revalidatePath('/registry');
-      revalidatePath('/account/registry');
-      revalidateTag('growth');
+    // Narrative tips are optional; the numbers above never depend on them
+    if (process.env.OPENAI_API_KEY) {
+      try {
+        const { generateGrowthTips } = await import('@/lib/openai');
+        const tips = await generateGrowthTips({
+          ageMonths: Math.floor(projection.ageMonths),
+          heightPercentile: prediction.growthPercentile.height,
+          weightPercentile: prediction.growthPercentile.weight,
+          headCircumferencePercentile: prediction.growthPercentile.headCircumference,
+          currentClothingSize: currentSize.clothing,
+          upcomingClothingSizes: predictedSizes.map((p) => ({ ageMonths: p.ageMonths, size: p.clothing })),
+        });
+        if (tips.length > 0) {
+          prediction.recommendations = tips;
+        }
+      } catch (tipsError) {
+        console.error('Growth tips error:', tipsError);
+      }
+    }
 
-      return {
-        success: true,
-        data: prediction,
-      };
-    } catch (openaiError) {
-      console.error('OpenAI API error:', openaiError);
-
-      // Fallback to simple prediction based on growth charts
-      const fallbackPrediction = generateFallbackPrediction(
-        ageInMonths,
-        latestEntry.height,
-        latestEntry.weight
-      );
-
-      // Update registry with fallback predictions
-      await prisma.registry.update({
-        where: { id: registry.id },
-        data: {
-          predictedSizes: fallbackPrediction as any,
-        },
-      });
+    // Save predictions on the child
+    await prisma.child.update({
+      where: { id: child.id },
+      data: {
+        predictedSizes: prediction as unknown as Prisma.InputJsonValue,
+      },
+    });
 
-      revalidatePath('/registry');
-      revalidatePath('/account/registry');
-      revalidateTag('growth');
+    revalidatePath('/registry');
+    revalidatePath('/account/registry');
+    revalidateTag('growth');
 
-      return {
-        success: true,
-        data: fallbackPrediction,
-      };
-    }
+    return {
+      success: true,
+      data: prediction,
+    };
   } catch (error) {
     console.error('Get size prediction error:', error);
     if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
@@ -491,21 +469,19 @@ Format your response as JSON with the following structure:
 }
 
 /**
- * Get growth entries for a registry
+ * Get growth entries for a child
  *
- * Retrieves all growth entries for a registry.
+ * Retrieves all growth entries for one of the user's children.
  *
- * @param registryId - Registry ID
+ * @param childId - Child ID
  * @returns Result object with growth entries or error
  *
  * @example
- * const result = await getGrowthEntries('registry123');
+ * const result = await getGrowthEntries('child123');
  */
-export async function getGrowthEntries(registryId: string): Promise<ActionResult<{
+export async function getGrowthEntries(childId: string): Promise<ActionResult<{
   entries: Array<{
     id: string;
-    childName: string | null;
-    childBirthDate: Date | null;
     height: number | null;
     weight: number | null;
     headCircumference: number | null;
@@ -520,22 +496,30 @@ export async function getGrowthEntries(registryId: string): Promise<ActionResult
       throw new UnauthorizedError('You must be logged in to view growth entries');
     }
 
-    // Find registry
-    const registry = await prisma.registry.findFirst({
+    // Verify child belongs to user
+    const child = await prisma.child.findFirst({
       where: {
-        id: registryId,
+        id: childId,
         userId: user.id,
       },
     });
 
-    if (!registry) {
-      throw new NotFoundError('Registry not found');
+    if (!child) {
+      throw new NotFoundError('Child not found');
     }
 
     // Get growth entries
     const entries = await prisma.growthEntry.findMany({
-      where: { registryId },
+      where: { childId },
       orderBy: { recordedAt: 'desc' },
+      select: {
+        id: true,
+        height: true,
+        weight: true,
+        headCircumference: true,
+        recordedAt: true,
+        notes: true,
+      },
     });
 
     return {
@@ -559,82 +543,36 @@ export async function getGrowthEntries(registryId: string): Promise<ActionResult
 // ============================================
 
 /**
- * Generate fallback size prediction based on growth charts
- * Used when OpenAI API is unavailable
+ * Tips built from the growth projection
+ * Used as-is when OpenAI isn't configured or fails
  */
-function generateFallbackPrediction(
-  ageInMonths: number,
-  height: number | null,
-  weight: number | null
-): SizePrediction {
-  // Simple size mapping based on age
-  const sizeMap: Record<number, { clothing: string; shoes: string; diaper: string }> = {
-    0: { clothing: 'Newborn', shoes: '0', diaper: 'N' },
-    3: { clothing: '0-3 months', shoes: '1', diaper: 'N' },
-    6: { clothing: '3-6 months', shoes: '2', diaper: '1' },
-    9: { clothing: '6-9 months', shoes: '3', diaper: '2' },
-    12: { clothing: '12 months', shoes: '4', diaper: '3' },
-    18: { clothing: '18 months', shoes: '5', diaper: '4' },
-    24: { clothing: '24 months', shoes: '6', diaper: '5' },
-  };
-
-  // Find closest age bracket
-  const ages = Object.keys(sizeMap).map(Number).sort((a, b) => a - b);
-  let closestAge = ages[0];
-  for (const age of ages) {
-    if (ageInMonths >= age) {
-      closestAge = age;
-    } else {
-      break;
-    }
+function getGrowthRecommendations(
+  projection: GrowthProjection,
+  currentClothing: string,
+  predictedSizes: SizePrediction['predictedSizes']
+): string[] {
+  const recommendations: string[] = [];
+
+  const nextSize = predictedSizes.find((p) => p.clothing !== currentClothing);
+  if (nextSize) {
+    const monthsAway = Math.max(1, Math.round(nextSize.ageMonths - projection.ageMonths));
+    recommendations.push(
+      `Expect to move up to ${nextSize.clothing} in about ${monthsAway} month${monthsAway === 1 ? '' : 's'}, so it's a good size to add to your registry now.`
+    );
+  } else {
+    recommendations.push(`${currentClothing} should keep fitting for the next few months.`);
   }
 
-  const currentSize = sizeMap[closestAge];
-
-  // Generate predictions for next 6 months
-  const predictedSizes = [];
-  for (let i = 2; i <= 6; i += 2) {
-    const futureAge = ageInMonths + i;
-    let futureSize = currentSize;
-
-    for (const age of ages) {
-      if (futureAge >= age) {
-        futureSize = sizeMap[age];
-      } else {
-        break;
-      }
-    }
-
-    // Estimate height and weight growth
-    const estimatedHeight = height ? height + (i * 1.5) : 50 + (futureAge * 2.5);
-    const estimatedWeight = weight ? weight + (i * 0.5) : 3.5 + (futureAge * 0.5);
-
-    predictedSizes.push({
-      ageMonths: futureAge,
-      clothing: futureSize.clothing,
-      shoes: futureSize.shoes,
-      diaper: futureSize.diaper,
-      height: Math.round(estimatedHeight * 10) / 10,
-      weight: Math.round(estimatedWeight * 10) / 10,
-    });
+  if (projection.assumedMedian.length > 0) {
+    recommendations.push(
+      `Add a ${projection.assumedMedian.join(' and ')} measurement for a more accurate prediction; we've assumed an average ${projection.assumedMedian.join(' and ')} for now.`
+    );
+  } else if (projection.velocity.height === null && projection.velocity.weight === null) {
+    recommendations.push('Log measurements every few weeks so predictions can follow your baby\'s own growth pace.');
   }
 
-  // Calculate percentiles (simplified)
-  const heightPercentile = height ? Math.min(95, Math.max(5, 50 + ((height - (50 + ageInMonths * 2.5)) / 2))) : 50;
-  const weightPercentile = weight ? Math.min(95, Math.max(5, 50 + ((weight - (3.5 + ageInMonths * 0.5)) * 10))) : 50;
-
-  return {
-    currentSize,
-    predictedSizes,
-    growthPercentile: {
-      height: Math.round(heightPercentile),
-      weight: Math.round(weightPercentile),
-    },
-    recommendations: [
-      'Continue tracking your baby\'s growth regularly',
-      'Consult your pediatrician if you have concerns about growth',
-      'Ensure proper nutrition for healthy development',
-      'Remember every baby grows at their own pace',
-    ],
-  };
+  recommendations.push('Consult your pediatrician if you have concerns about growth');
+  recommendations.push('Remember every baby grows at their own pace');
+
+  return recommendations;
 }
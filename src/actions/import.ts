@@ -13,6 +13,7 @@ import {
   getImportService,
   previewImport as previewImportService,
   importProduct as importProductService,
+  addBackupSource as addBackupSourceService,
   type ImportProductInput,
   type ImportPreview,
   type ImportResult,
@@ -23,6 +24,16 @@ import {
   updateJob,
   getJob,
 } from '@/lib/import-job';
+import {
+  createImportBatch,
+  retryImportRow,
+  skipImportRow,
+  getImportBatch,
+  type ImportBatchSummary,
+  type ImportBatchDetail,
+} from '@/lib/import-batch';
+import { enqueueJob, cancelJobByUniqueKey } from '@/lib/jobs';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -62,6 +73,21 @@ const importProductSchema = z.object({
   processImages: z.boolean().default(true),
 });
 
+const addBackupSourceSchema = z.object({
+  productSourceId: z.string().min(1, 'Product source is required'),
+  url: z.string().url('Invalid AliExpress URL'),
+});
+
+const rankProductSourcesSchema = z.object({
+  productSourceIds: z.array(z.string().min(1)).min(1, 'At least one source is required'),
+});
+
+const startBatchImportSchema = z.object({
+  text: z.string().min(1, 'Choose a CSV file or paste some URLs').max(1_000_000, 'File is too large'),
+  fileName: z.string().max(255).optional(),
+  defaultCategoryId: z.string().optional(),
+});
+
 // ============================================
 // SERVER ACTIONS
 // ============================================
@@ -277,6 +303,165 @@ export async function importProduct(
   }
 }
 
+/**
+ * Add a backup source to an imported product
+ *
+ * Scrapes another AliExpress listing of the same product and links it as
+ * the product's lowest-ranked source. Fulfillment switches to it when the
+ * higher-ranked sources are unavailable.
+ *
+ * @param productSourceId - Any existing source of the product
+ * @param url - AliExpress URL of the backup listing
+ * @returns The new source's ID or error
+ *
+ * @example
+ * ```ts
+ * const result = await addBackupProductSource(
+ *   'source-123',
+ *   'https://www.aliexpress.com/item/654321.html'
+ * );
+ * ```
+ */
+export async function addBackupProductSource(
+  productSourceId: string,
+  url: string
+): Promise<ActionResult<{ productSourceId: string }>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    // Validate input
+    const validated = addBackupSourceSchema.safeParse({ productSourceId, url });
+    if (!validated.success) {
+      return {
+        success: false,
+        fieldErrors: validated.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const result: ImportResult = await addBackupSourceService({ productSourceId, url });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Import failed',
+      };
+    }
+
+    revalidatePath('/admin/suppliers');
+    revalidatePath('/admin/fulfillment');
+
+    return {
+      success: true,
+      data: { productSourceId: result.productSourceId || '' },
+    };
+  } catch (error) {
+    console.error('Add backup source error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add backup source',
+    };
+  }
+}
+
+/**
+ * Rank a product's sources
+ *
+ * The first source becomes the primary, the rest are backups in the
+ * given order.
+ *
+ * @param productSourceIds - Every source of one product, best first
+ * @returns Result object indicating success or failure
+ *
+ * @example
+ * ```ts
+ * const result = await rankProductSources(['source-backup', 'source-primary']);
+ * ```
+ */
+export async function rankProductSources(productSourceIds: string[]): Promise<ActionResult> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    // Validate input
+    const validated = rankProductSourcesSchema.safeParse({ productSourceIds });
+    if (!validated.success) {
+      return {
+        success: false,
+        fieldErrors: validated.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const sources = await prisma.productSource.findMany({
+      where: { id: { in: productSourceIds } },
+      select: { id: true, sanityProductId: true },
+    });
+
+    const sanityProductId = sources[0]?.sanityProductId;
+    const allSources = sanityProductId
+      ? await prisma.productSource.count({ where: { sanityProductId } })
+      : 0;
+
+    if (
+      sources.length !== productSourceIds.length ||
+      sources.some((source) => source.sanityProductId !== sanityProductId) ||
+      allSources !== productSourceIds.length
+    ) {
+      return {
+        success: false,
+        error: 'Rank every source of one product',
+      };
+    }
+
+    await prisma.$transaction(
+      productSourceIds.map((id, priority) =>
+        prisma.productSource.update({
+          where: { id },
+          data: { priority },
+        })
+      )
+    );
+
+    revalidatePath('/admin/suppliers');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Rank product sources error:', error);
+    return {
+      success: false,
+      error: 'Failed to rank product sources',
+    };
+  }
+}
+
 /**
  * Get import job status
  *
@@ -338,7 +523,7 @@ export async function getImportStatus(jobId: string): Promise<ActionResult<Impor
 /**
  * Start async import job
  *
- * Starts an asynchronous import job and returns the job ID.
+ * Queues an import and returns the job ID.
  * Use getImportStatus to check progress.
  *
  * @param url - AliExpress product URL
@@ -394,43 +579,12 @@ export async function startAsyncImport(
     const jobId = crypto.randomUUID();
     await createJob(jobId, user.id);
 
-    // Start async import (don't await)
-    (async () => {
-      try {
-        await updateJob(jobId, { status: 'processing', progress: 10, currentStep: 'Starting import' });
-
-        const input: ImportProductInput = {
-          url,
-          categoryId,
-          overrides,
-          processImages: true,
-        };
-
-        await updateJob(jobId, { progress: 20, currentStep: 'Fetching product data' });
-        const result = await importProductService(input);
-
-        if (result.success) {
-          await updateJob(jobId, {
-            status: 'completed',
-            progress: 100,
-            currentStep: 'Import completed',
-            result,
-          });
-        } else {
-          await updateJob(jobId, {
-            status: 'failed',
-            progress: 100,
-            error: result.error || 'Import failed',
-          });
-        }
-      } catch (error) {
-        await updateJob(jobId, {
-          status: 'failed',
-          progress: 100,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    })();
+    // Run on the job queue
+    await enqueueJob(
+      'import.product',
+      { jobId, url, categoryId, overrides },
+      { uniqueKey: `import:${jobId}` }
+    );
 
     return {
       success: true,
@@ -487,7 +641,8 @@ export async function cancelImportJob(jobId: string): Promise<ActionResult> {
       };
     }
 
-    // Mark as failed (actual cancellation would require job queue integration)
+    // A job already running finishes; one still queued never starts
+    await cancelJobByUniqueKey(`import:${jobId}`);
     await updateJob(jobId, {
       status: 'failed',
       error: 'Cancelled by user',
@@ -502,3 +657,214 @@ export async function cancelImportJob(jobId: string): Promise<ActionResult> {
     };
   }
 }
+
+/**
+ * Start a bulk import
+ *
+ * Creates a batch with a job per row of a CSV (url, category, title,
+ * price, tags) or a plain list of URLs, then imports the new products in
+ * the job queue. Duplicates are skipped before anything is scraped.
+ *
+ * @param text - The file's contents
+ * @param fileName - The uploaded file's name
+ * @param defaultCategoryId - Category for rows that don't name one
+ * @returns The new batch's summary
+ *
+ * @example
+ * ```ts
+ * const result = await startBatchImport(await file.text(), file.name, 'category-123');
+ * if (result.success) {
+ *   const batch = await getImportBatchStatus(result.data.id);
+ * }
+ * ```
+ */
+export async function startBatchImport(
+  text: string,
+  fileName?: string,
+  defaultCategoryId?: string
+): Promise<ActionResult<ImportBatchSummary>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    // Validate input
+    const validated = startBatchImportSchema.safeParse({ text, fileName, defaultCategoryId });
+    if (!validated.success) {
+      return {
+        success: false,
+        fieldErrors: validated.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const batch = await createImportBatch({
+      text,
+      fileName,
+      defaultCategory: defaultCategoryId || undefined,
+      userId: user.id,
+    });
+
+    await enqueueJob('import.batch', { batchId: batch.id });
+
+    revalidatePath('/admin/import');
+
+    return {
+      success: true,
+      data: batch,
+    };
+  } catch (error) {
+    console.error('Start batch import error:', error);
+    if (error instanceof ValidationError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'Failed to start bulk import',
+    };
+  }
+}
+
+/**
+ * Get a bulk import's progress and rows
+ *
+ * @param batchId - Batch ID
+ * @returns The batch with every row
+ */
+export async function getImportBatchStatus(batchId: string): Promise<ActionResult<ImportBatchDetail>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    const batch = await getImportBatch(batchId);
+
+    return {
+      success: true,
+      data: batch,
+    };
+  } catch (error) {
+    console.error('Get import batch error:', error);
+    if (error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'Failed to get bulk import',
+    };
+  }
+}
+
+/**
+ * Retry a failed or skipped row of a bulk import
+ *
+ * The row is queued again and the batch resumes if it had finished.
+ *
+ * @param jobId - The row's job ID
+ * @returns Success or error
+ */
+export async function retryImportBatchRow(jobId: string): Promise<ActionResult> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    const batchId = await retryImportRow(jobId);
+
+    // Resumes the batch if it had finished
+    await enqueueJob('import.batch', { batchId });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Retry import row error:', error);
+    if (
+      error instanceof NotFoundError ||
+      error instanceof ConflictError ||
+      error instanceof ValidationError
+    ) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'Failed to retry row',
+    };
+  }
+}
+
+/**
+ * Skip a pending or failed row of a bulk import
+ *
+ * @param jobId - The row's job ID
+ * @returns Success or error
+ */
+export async function skipImportBatchRow(jobId: string): Promise<ActionResult> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return {
+        success: false,
+        error: 'Admin access required',
+      };
+    }
+
+    await skipImportRow(jobId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Skip import row error:', error);
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'Failed to skip row',
+    };
+  }
+}
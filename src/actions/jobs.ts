@@ -0,0 +1,82 @@
+'use server';
+
+import { getCurrentUser } from '@/lib/session';
+import { revalidatePath } from 'next/cache';
+import { ConflictError, UnauthorizedError } from '@/lib/errors';
+import { cancelJob, retryJob } from '@/lib/jobs';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function requireJobsAdmin() {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'ADMIN') {
+    throw new UnauthorizedError('Admin access required');
+  }
+  return user;
+}
+
+function toErrorResult(error: unknown, fallback: string): ActionResult<never> {
+  if (error instanceof UnauthorizedError || error instanceof ConflictError) {
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: fallback };
+}
+
+// ============================================
+// JOB ACTIONS
+// ============================================
+
+/**
+ * Run a dead-lettered or cancelled background job again
+ *
+ * @example
+ * const result = await retryBackgroundJob('job_123');
+ */
+export async function retryBackgroundJob(jobId: string): Promise<ActionResult> {
+  try {
+    await requireJobsAdmin();
+
+    await retryJob(jobId);
+    revalidatePath('/admin/jobs');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Retry background job error:', error);
+    return toErrorResult(error, 'An error occurred while retrying the job.');
+  }
+}
+
+/**
+ * Cancel a background job that hasn't started
+ *
+ * @example
+ * const result = await cancelBackgroundJob('job_123');
+ */
+export async function cancelBackgroundJob(jobId: string): Promise<ActionResult> {
+  try {
+    await requireJobsAdmin();
+
+    await cancelJob(jobId);
+    revalidatePath('/admin/jobs');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Cancel background job error:', error);
+    return toErrorResult(error, 'An error occurred while cancelling the job.');
+  }
+}
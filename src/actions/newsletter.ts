@@ -1,10 +1,21 @@
 'use server';
 
-import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
+import { NewsletterTopic, type NewsletterSubscription } from '@prisma/client';
+import { UnauthorizedError, NotFoundError, BadRequestError } from '@/lib/errors';
+import { verifyUnsubscribeToken } from '@/lib/email/unsubscribe';
+import {
+  confirmNewsletterSubscription,
+  getNewsletterPreferencesUrl,
+  getNewsletterSubscription,
+  normalizeEmail,
+  normalizeTopics,
+  subscribeToNewsletter,
+  unsubscribeFromMarketing,
+  updateNewsletterTopics,
+} from '@/lib/newsletter';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -20,20 +31,34 @@ export interface ActionResult<T = void> {
   fieldErrors?: Record<string, string[]>;
 }
 
+/**
+ * Newsletter subscription status returned to the client
+ */
+export interface NewsletterStatusData {
+  subscribed: boolean;
+  status?: NewsletterSubscription['status'];
+  topics?: NewsletterTopic[];
+}
+
 /**
  * Subscribe input schema
  */
 const subscribeSchema = z.object({
   email: z.string().email('Invalid email address'),
+  topics: z.array(z.nativeEnum(NewsletterTopic)).optional(),
+  source: z.string().max(50).optional(),
 });
 
 export type SubscribeInput = z.infer<typeof subscribeSchema>;
 
 /**
  * Unsubscribe input schema
+ *
+ * The token comes from the signed link in a newsletter email.
  */
 const unsubscribeSchema = z.object({
   email: z.string().email('Invalid email address'),
+  token: z.string().min(1, 'Unsubscribe token is required'),
 });
 
 export type UnsubscribeInput = z.infer<typeof unsubscribeSchema>;
@@ -43,16 +68,43 @@ export type UnsubscribeInput = z.infer<typeof unsubscribeSchema>;
  */
 const updatePreferencesSchema = z.object({
   email: z.string().email('Invalid email address'),
-  preferences: z.object({
-    productUpdates: z.boolean().optional(),
-    promotions: z.boolean().optional(),
-    tipsAndAdvice: z.boolean().optional(),
-    events: z.boolean().optional(),
-  }),
+  token: z.string().min(1, 'Preferences token is required'),
+  topics: z.array(z.nativeEnum(NewsletterTopic)),
 });
 
 export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>;
 
+/**
+ * Update account newsletter preferences input schema
+ */
+const updateUserPreferencesSchema = z.object({
+  topics: z.array(z.nativeEnum(NewsletterTopic)),
+});
+
+export type UpdateUserNewsletterPreferencesInput = z.infer<typeof updateUserPreferencesSchema>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toStatusData(subscription: NewsletterSubscription | null): NewsletterStatusData {
+  if (!subscription) {
+    return { subscribed: false };
+  }
+
+  return {
+    subscribed: subscription.status === 'ACTIVE',
+    status: subscription.status,
+    topics: subscription.topics,
+  };
+}
+
+function requireValidToken(email: string, token: string) {
+  if (!verifyUnsubscribeToken(email, token)) {
+    throw new UnauthorizedError('This link is invalid. Please use the link in your most recent email.');
+  }
+}
+
 // ============================================
 // NEWSLETTER ACTIONS
 // ============================================
@@ -60,13 +112,15 @@ export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>;
 /**
  * Subscribe to the newsletter
  *
- * Subscribes an email address to the newsletter.
+ * Creates a pending subscription and emails a confirmation link (double
+ * opt-in). Signed-in customers subscribing their own address are linked to
+ * the subscription.
  *
- * @param input - Subscribe data (email)
+ * @param input - Subscribe data (email, optional topics and source)
  * @returns Result object indicating success or failure
  *
  * @example
- * const result = await subscribe({ email: 'user@example.com' });
+ * const result = await subscribe({ email: 'user@example.com', source: 'home' });
  */
 export async function subscribe(input: SubscribeInput): Promise<ActionResult<{ message: string }>> {
   try {
@@ -79,44 +133,27 @@ export async function subscribe(input: SubscribeInput): Promise<ActionResult<{ m
       };
     }
 
-    const { email } = validatedFields.data;
-    const normalizedEmail = email.toLowerCase();
-
-    // Check if already subscribed
-    // Note: You'll need to add a NewsletterSubscription model to your schema
-    // For now, we'll use a placeholder implementation
-
-    // In a real implementation, you would:
-    // 1. Check if email is already subscribed
-    // 2. Create a new subscription record
-    // 3. Send a confirmation email
-    // 4. Add to your email marketing service (Mailchimp, SendGrid, etc.)
-
-    // Placeholder implementation
-    console.log('Newsletter subscription request for:', normalizedEmail);
-
-    // TODO: Implement actual newsletter subscription
-    // const subscription = await prisma.newsletterSubscription.create({
-    //   data: {
-    //     email: normalizedEmail,
-    //     status: 'PENDING',
-    //     preferences: {
-    //       productUpdates: true,
-    //       promotions: true,
-    //       tipsAndAdvice: true,
-    //       events: true,
-    //     },
-    //   },
-    // });
-
-    // TODO: Send confirmation email
-    // await sendNewsletterConfirmation(normalizedEmail);
+    const { email, topics, source } = validatedFields.data;
+    const user = await getCurrentUser();
+    const isOwnEmail = !!user && normalizeEmail(user.email) === normalizeEmail(email);
+
+    const { outcome } = await subscribeToNewsletter({
+      email,
+      topics: topics ? normalizeTopics(topics) : undefined,
+      userId: isOwnEmail ? user.id : null,
+      source,
+    });
 
     revalidateTag('newsletter');
 
     return {
       success: true,
-      data: { message: 'Please check your email to confirm your subscription' },
+      data: {
+        message:
+          outcome === 'already_subscribed'
+            ? "You're already subscribed to our newsletter"
+            : 'Please check your email to confirm your subscription',
+      },
     };
   } catch (error) {
     console.error('Subscribe error:', error);
@@ -130,13 +167,13 @@ export async function subscribe(input: SubscribeInput): Promise<ActionResult<{ m
 /**
  * Unsubscribe from the newsletter
  *
- * Unsubscribes an email address from the newsletter.
+ * Uses the shared marketing opt-out, so cart reminder emails stop too.
  *
- * @param input - Unsubscribe data (email)
+ * @param input - Unsubscribe data (email and signed token)
  * @returns Result object indicating success or failure
  *
  * @example
- * const result = await unsubscribe({ email: 'user@example.com' });
+ * const result = await unsubscribe({ email: 'user@example.com', token });
  */
 export async function unsubscribe(input: UnsubscribeInput): Promise<ActionResult<{ message: string }>> {
   try {
@@ -149,34 +186,10 @@ export async function unsubscribe(input: UnsubscribeInput): Promise<ActionResult
       };
     }
 
-    const { email } = validatedFields.data;
-    const normalizedEmail = email.toLowerCase();
+    const { email, token } = validatedFields.data;
+    requireValidToken(email, token);
 
-    // In a real implementation, you would:
-    // 1. Find the subscription
-    // 2. Update status to UNSUBSCRIBED
-    // 3. Send a confirmation email
-    // 4. Remove from your email marketing service
-
-    // Placeholder implementation
-    console.log('Newsletter unsubscribe request for:', normalizedEmail);
-
-    // TODO: Implement actual newsletter unsubscription
-    // const subscription = await prisma.newsletterSubscription.findUnique({
-    //   where: { email: normalizedEmail },
-    // });
-
-    // if (!subscription) {
-    //   return {
-    //     success: false,
-    //     error: 'Email not found in our newsletter list',
-    //   };
-    // }
-
-    // await prisma.newsletterSubscription.update({
-    //   where: { email: normalizedEmail },
-    //   data: { status: 'UNSUBSCRIBED' },
-    // });
+    await unsubscribeFromMarketing(email, 'newsletter');
 
     revalidateTag('newsletter');
 
@@ -186,6 +199,9 @@ export async function unsubscribe(input: UnsubscribeInput): Promise<ActionResult
     };
   } catch (error) {
     console.error('Unsubscribe error:', error);
+    if (error instanceof UnauthorizedError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while unsubscribing from the newsletter. Please try again.',
@@ -196,20 +212,17 @@ export async function unsubscribe(input: UnsubscribeInput): Promise<ActionResult
 /**
  * Update newsletter preferences
  *
- * Updates the newsletter preferences for an email address.
+ * Updates the topics for an email address from the signed preferences
+ * link. Choosing no topics unsubscribes.
  *
- * @param input - Update preferences data (email, preferences)
+ * @param input - Update preferences data (email, token, topics)
  * @returns Result object indicating success or failure
  *
  * @example
  * const result = await updatePreferences({
  *   email: 'user@example.com',
- *   preferences: {
- *     productUpdates: true,
- *     promotions: false,
- *     tipsAndAdvice: true,
- *     events: false,
- *   },
+ *   token,
+ *   topics: ['NEW_ARRIVALS', 'REGISTRY_TIPS'],
  * });
  */
 export async function updatePreferences(input: UpdatePreferencesInput): Promise<ActionResult<{ message: string }>> {
@@ -223,42 +236,31 @@ export async function updatePreferences(input: UpdatePreferencesInput): Promise<
       };
     }
 
-    const { email, preferences } = validatedFields.data;
-    const normalizedEmail = email.toLowerCase();
+    const { email, token, topics } = validatedFields.data;
+    requireValidToken(email, token);
 
-    // In a real implementation, you would:
-    // 1. Find the subscription
-    // 2. Update the preferences
-    // 3. Sync with your email marketing service
-
-    // Placeholder implementation
-    console.log('Newsletter preferences update for:', normalizedEmail, preferences);
-
-    // TODO: Implement actual preferences update
-    // const subscription = await prisma.newsletterSubscription.findUnique({
-    //   where: { email: normalizedEmail },
-    // });
-
-    // if (!subscription) {
-    //   return {
-    //     success: false,
-    //     error: 'Email not found in our newsletter list',
-    //   };
-    // }
-
-    // await prisma.newsletterSubscription.update({
-    //   where: { email: normalizedEmail },
-    //   data: { preferences },
-    // });
+    const subscription = await updateNewsletterTopics(email, normalizeTopics(topics));
 
     revalidateTag('newsletter');
 
     return {
       success: true,
-      data: { message: 'Your preferences have been updated' },
+      data: {
+        message:
+          subscription.status === 'UNSUBSCRIBED'
+            ? 'You have been unsubscribed from our newsletter'
+            : 'Your preferences have been updated',
+      },
     };
   } catch (error) {
     console.error('Update preferences error:', error);
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof BadRequestError
+    ) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while updating your preferences. Please try again.',
@@ -269,60 +271,33 @@ export async function updatePreferences(input: UpdatePreferencesInput): Promise<
 /**
  * Get newsletter subscription status
  *
- * Checks if an email is subscribed to the newsletter and returns their preferences.
+ * Checks if an email is subscribed to the newsletter and returns its topics.
  *
  * @param email - Email address to check
+ * @param token - Signed token from a newsletter email
  * @returns Result object with subscription status or error
  *
  * @example
- * const result = await getSubscriptionStatus('user@example.com');
+ * const result = await getSubscriptionStatus('user@example.com', token);
  */
-export async function getSubscriptionStatus(email: string): Promise<ActionResult<{
-  subscribed: boolean;
-  status?: string;
-  preferences?: {
-    productUpdates: boolean;
-    promotions: boolean;
-    tipsAndAdvice: boolean;
-    events: boolean;
-  };
-}>> {
+export async function getSubscriptionStatus(
+  email: string,
+  token: string
+): Promise<ActionResult<NewsletterStatusData>> {
   try {
-    // Validate email
-    const normalizedEmail = email.toLowerCase();
-
-    // In a real implementation, you would:
-    // 1. Find the subscription
-    // 2. Return the status and preferences
-
-    // Placeholder implementation
-    // const subscription = await prisma.newsletterSubscription.findUnique({
-    //   where: { email: normalizedEmail },
-    // });
-
-    // if (!subscription) {
-    //   return {
-    //     success: true,
-    //     data: { subscribed: false },
-    //   };
-    // }
-
-    // return {
-    //   success: true,
-    //   data: {
-    //     subscribed: true,
-    //     status: subscription.status,
-    //     preferences: subscription.preferences,
-    //   },
-    // };
-
-    // Placeholder response
+    requireValidToken(email, token);
+
+    const subscription = await getNewsletterSubscription({ email });
+
     return {
       success: true,
-      data: { subscribed: false },
+      data: toStatusData(subscription),
     };
   } catch (error) {
     console.error('Get subscription status error:', error);
+    if (error instanceof UnauthorizedError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while checking your subscription status. Please try again.',
@@ -333,53 +308,39 @@ export async function getSubscriptionStatus(email: string): Promise<ActionResult
 /**
  * Confirm newsletter subscription
  *
- * Confirms a newsletter subscription using a confirmation token.
+ * Confirms a newsletter subscription using the token from the double
+ * opt-in email.
  *
  * @param token - Confirmation token
- * @returns Result object indicating success or failure
+ * @returns Result object with a signed preferences link, or error
  *
  * @example
  * const result = await confirmSubscription('confirmation-token-123');
  */
-export async function confirmSubscription(token: string): Promise<ActionResult<{ message: string }>> {
+export async function confirmSubscription(
+  token: string
+): Promise<ActionResult<{ message: string; preferencesUrl: string }>> {
   try {
-    // In a real implementation, you would:
-    // 1. Validate the token
-    // 2. Update the subscription status to ACTIVE
-    // 3. Send a welcome email
-
-    // Placeholder implementation
-    console.log('Newsletter subscription confirmation for token:', token);
-
-    // TODO: Implement actual subscription confirmation
-    // const subscription = await prisma.newsletterSubscription.findFirst({
-    //   where: { confirmationToken: token },
-    // });
-
-    // if (!subscription) {
-    //   return {
-    //     success: false,
-    //     error: 'Invalid confirmation token',
-    //   };
-    // }
-
-    // await prisma.newsletterSubscription.update({
-    //   where: { id: subscription.id },
-    //   data: {
-    //     status: 'ACTIVE',
-    //     confirmedAt: new Date(),
-    //     confirmationToken: null,
-    //   },
-    // });
+    if (!token) {
+      throw new NotFoundError('This confirmation link is invalid or has already been used');
+    }
+
+    const subscription = await confirmNewsletterSubscription(token);
 
     revalidateTag('newsletter');
 
     return {
       success: true,
-      data: { message: 'Your subscription has been confirmed!' },
+      data: {
+        message: 'Your subscription has been confirmed!',
+        preferencesUrl: getNewsletterPreferencesUrl(subscription.email),
+      },
     };
   } catch (error) {
     console.error('Confirm subscription error:', error);
+    if (error instanceof NotFoundError || error instanceof BadRequestError) {
+      return { success: false, error: error.message };
+    }
     return {
       success: false,
       error: 'An error occurred while confirming your subscription. Please try again.',
@@ -390,23 +351,15 @@ export async function confirmSubscription(token: string): Promise<ActionResult<{
 /**
  * Get current user's newsletter preferences
  *
- * Retrieves the current user's newsletter subscription preferences.
+ * Retrieves the subscription linked to the current user's account, or the
+ * one for their account email.
  *
  * @returns Result object with preferences or error
  *
  * @example
  * const result = await getUserNewsletterPreferences();
  */
-export async function getUserNewsletterPreferences(): Promise<ActionResult<{
-  subscribed: boolean;
-  status?: string;
-  preferences?: {
-    productUpdates: boolean;
-    promotions: boolean;
-    tipsAndAdvice: boolean;
-    events: boolean;
-  };
-}>> {
+export async function getUserNewsletterPreferences(): Promise<ActionResult<NewsletterStatusData>> {
   try {
     // Get current user
     const user = await getCurrentUser();
@@ -414,35 +367,13 @@ export async function getUserNewsletterPreferences(): Promise<ActionResult<{
       throw new UnauthorizedError('You must be logged in to view your newsletter preferences');
     }
 
-    // In a real implementation, you would:
-    // 1. Find the subscription by user ID
-    // 2. Return the status and preferences
-
-    // Placeholder implementation
-    // const subscription = await prisma.newsletterSubscription.findUnique({
-    //   where: { userId: user.id },
-    // });
-
-    // if (!subscription) {
-    //   return {
-    //     success: true,
-    //     data: { subscribed: false },
-    //   };
-    // }
-
-    // return {
-    //   success: true,
-    //   data: {
-    //     subscribed: true,
-    //     status: subscription.status,
-    //     preferences: subscription.preferences,
-    //   },
-    // };
-
-    // Placeholder response
+    const subscription =
+      (await getNewsletterSubscription({ userId: user.id })) ??
+      (await getNewsletterSubscription({ email: user.email }));
+
     return {
       success: true,
-      data: { subscribed: false },
+      data: toStatusData(subscription),
     };
   } catch (error) {
     console.error('Get user newsletter preferences error:', error);
@@ -459,25 +390,21 @@ export async function getUserNewsletterPreferences(): Promise<ActionResult<{
 /**
  * Update current user's newsletter preferences
  *
- * Updates the current user's newsletter subscription preferences.
+ * Updates the topics for the current user's subscription. Users who aren't
+ * subscribed yet are sent a confirmation email; choosing no topics
+ * unsubscribes.
  *
- * @param preferences - New preferences
+ * @param input - Topics to receive
  * @returns Result object indicating success or failure
  *
  * @example
  * const result = await updateUserNewsletterPreferences({
- *   productUpdates: true,
- *   promotions: false,
- *   tipsAndAdvice: true,
- *   events: false,
+ *   topics: ['NEW_ARRIVALS', 'SALES'],
  * });
  */
-export async function updateUserNewsletterPreferences(preferences: {
-  productUpdates?: boolean;
-  promotions?: boolean;
-  tipsAndAdvice?: boolean;
-  events?: boolean;
-}): Promise<ActionResult<{ message: string }>> {
+export async function updateUserNewsletterPreferences(
+  input: UpdateUserNewsletterPreferencesInput
+): Promise<ActionResult<{ message: string }>> {
   try {
     // Get current user
     const user = await getCurrentUser();
@@ -485,37 +412,56 @@ export async function updateUserNewsletterPreferences(preferences: {
       throw new UnauthorizedError('You must be logged in to update your newsletter preferences');
     }
 
-    // In a real implementation, you would:
-    // 1. Find or create the subscription
-    // 2. Update the preferences
-    // 3. Sync with your email marketing service
-
-    // Placeholder implementation
-    console.log('User newsletter preferences update for:', user.email, preferences);
-
-    // TODO: Implement actual preferences update
-    // const subscription = await prisma.newsletterSubscription.upsert({
-    //   where: { userId: user.id },
-    //   create: {
-    //     userId: user.id,
-    //     email: user.email,
-    //     status: 'ACTIVE',
-    //     preferences,
-    //   },
-    //   update: {
-    //     preferences,
-    //   },
-    // });
+    // Validate input
+    const validatedFields = updateUserPreferencesSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const topics = normalizeTopics(validatedFields.data.topics);
+    const existing =
+      (await getNewsletterSubscription({ userId: user.id })) ??
+      (await getNewsletterSubscription({ email: user.email }));
+    const email = existing?.email ?? user.email;
+
+    let message = 'Your preferences have been updated';
+
+    if (topics.length === 0) {
+      if (existing && existing.status !== 'UNSUBSCRIBED') {
+        await unsubscribeFromMarketing(email, 'newsletter');
+      }
+      message = 'You have been unsubscribed from our newsletter';
+    } else if (existing?.status === 'ACTIVE') {
+      await updateNewsletterTopics(email, topics);
+    } else {
+      const { outcome } = await subscribeToNewsletter({
+        email,
+        topics,
+        userId: user.id,
+        source: 'account',
+      });
+      if (outcome !== 'already_subscribed') {
+        message = 'Please check your email to confirm your subscription';
+      }
+    }
 
     revalidateTag('newsletter');
+    revalidatePath('/account/profile');
 
     return {
       success: true,
-      data: { message: 'Your preferences have been updated' },
+      data: { message },
     };
   } catch (error) {
     console.error('Update user newsletter preferences error:', error);
-    if (error instanceof UnauthorizedError) {
+    if (
+      error instanceof UnauthorizedError ||
+      error instanceof NotFoundError ||
+      error instanceof BadRequestError
+    ) {
       return { success: false, error: error.message };
     }
     return {
@@ -4,10 +4,23 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError, InvalidOrderStatusError } from '@/lib/errors';
-import { OrderStatus, PaymentStatus, FulfillmentStatus } from '@prisma/client';
-import Stripe from 'stripe';
-import { createDropshipOrderForOrder } from '@/services/fulfillment/order-handler';
+import { cookies, headers } from 'next/headers';
+import {
+  UnauthorizedError,
+  NotFoundError,
+  ValidationError,
+  InvalidOrderStatusError,
+  BadRequestError,
+  RateLimitError,
+} from '@/lib/errors';
+import { OrderStatus, PaymentStatus, FulfillmentStatus, ReturnStatus } from '@prisma/client';
+import { stripe } from '@/lib/stripe';
+import { getOrderShipments, type OrderShipmentSummary } from '@/services/fulfillment/shipments';
+import { createReturnRequest, getReturnableQuantities } from '@/lib/returns';
+import { maskGiftShippingAddress, type GiftAddressFields } from '@/lib/registry/gifts';
+import { retrievePaidCheckout } from '@/lib/payments';
+import { rateLimiter, getClientIp, ORDER_LOOKUP_RATE_LIMIT } from '@/lib/rate-limiter';
+import { getOrderTrackingPath, matchOrderForTracking, normalizeOrderNumber } from '@/lib/order-tracking';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -60,304 +73,19 @@ const trackOrderSchema = z.object({
 
 export type TrackOrderInput = z.infer<typeof trackOrderSchema>;
 
-// ============================================
-// ORDER ACTIONS
-// ============================================
-
 /**
- * Create an order from a checkout session
- *
- * Creates an order after successful payment via Stripe checkout.
- *
- * @param checkoutSessionId - Stripe checkout session ID
- * @returns Result object with order details or error
- *
- * @example
- * const result = await createOrder('cs_test_123');
+ * Guest order lookup input schema
  */
-export async function createOrder(checkoutSessionId: string): Promise<ActionResult<{
-  orderNumber: string;
-  orderId: string;
-}>> {
-  try {
-    // Get current user
-    const user = await getCurrentUser();
-
-    // Validate input
-    const validatedFields = createOrderSchema.safeParse({ checkoutSessionId });
-    if (!validatedFields.success) {
-      return {
-        success: false,
-        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
-      };
-    }
-
-    // Initialize Stripe
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-      apiVersion: '2025-02-24.acacia' as any,
-    });
-
-    // Retrieve checkout session
-    const session = await stripe.checkout.sessions.retrieve(checkoutSessionId);
-
-    if (session.payment_status !== 'paid') {
-      return {
-        success: false,
-        error: 'Payment not completed',
-      };
-    }
-
-    // Check if order already exists for this session
-    const existingPayment = await prisma.payment.findFirst({
-      where: { stripePaymentIntentId: session.payment_intent as string },
-    });
-
-    if (existingPayment) {
-      // Order already created
-      const order = await prisma.order.findUnique({
-        where: { id: existingPayment.orderId },
-      });
-      return {
-        success: true,
-        data: {
-          orderNumber: order?.orderNumber || '',
-          orderId: order?.id || '',
-        },
-      };
-    }
-
-    // Get metadata
-    const metadata = session.metadata || {};
-    const userId = metadata.userId || null;
-    const cartId = metadata.cartId;
-    const orderNumber = metadata.orderNumber || generateOrderNumber();
-    const shippingAddressId = metadata.shippingAddressId;
-    const billingAddressId = metadata.billingAddressId;
-    const shippingMethodId = metadata.shippingMethodId;
-    const isGift = metadata.isGift === 'true';
-    const giftMessage = metadata.giftMessage || null;
-    const notes = metadata.notes || null;
-
-    // Get cart items
-    const cart = await prisma.cart.findUnique({
-      where: { id: cartId },
-      include: {
-        items: {
-          include: {
-            variant: {
-              include: {
-                product: { select: { id: true, name: true, slug: true } },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    if (!cart || cart.items.length === 0) {
-      return {
-        success: false,
-        error: 'Cart is empty',
-      };
-    }
-
-    // Get addresses
-    const shippingAddress = await prisma.address.findUnique({
-      where: { id: shippingAddressId },
-    });
-
-    if (!shippingAddress) {
-      return {
-        success: false,
-        error: 'Shipping address not found',
-      };
-    }
-
-    // Calculate totals
-    let subtotal = 0;
-    const orderItems: Array<{
-      variantId: string;
-      productName: string;
-      variantName: string;
-      sku: string;
-      quantity: number;
-      unitPrice: number;
-      totalPrice: number;
-    }> = [];
-
-    for (const item of cart.items) {
-      const unitPrice = Number(item.variant.price);
-      const totalPrice = unitPrice * item.quantity;
-      subtotal += totalPrice;
-
-      orderItems.push({
-        variantId: item.variantId,
-        productName: item.variant.product.name,
-        variantName: item.variant.name,
-        sku: item.variant.sku,
-        quantity: item.quantity,
-        unitPrice,
-        totalPrice,
-      });
-    }
-
-    // Calculate shipping and tax
-    const shippingAmount = await calculateShippingCost(shippingMethodId, subtotal);
-    const taxAmount = await calculateTaxForOrder(shippingAddress.state, subtotal);
-    const total = subtotal + shippingAmount + taxAmount;
-
-    // Create order in transaction
-    const order = await prisma.$transaction(async (tx) => {
-      // Create order
-      const newOrder = await tx.order.create({
-        data: {
-          orderNumber,
-          userId: userId || undefined,
-          subtotal,
-          shippingAmount,
-          taxAmount,
-          total,
-          status: OrderStatus.CONFIRMED,
-          paymentStatus: PaymentStatus.COMPLETED,
-          fulfillmentStatus: FulfillmentStatus.UNFULFILLED,
-          shippingAddress: {
-            firstName: shippingAddress.firstName,
-            lastName: shippingAddress.lastName,
-            company: shippingAddress.company,
-            line1: shippingAddress.line1,
-            line2: shippingAddress.line2,
-            city: shippingAddress.city,
-            state: shippingAddress.state,
-            zip: shippingAddress.zip,
-            country: shippingAddress.country,
-            phone: shippingAddress.phone,
-          },
-          billingAddress: {
-            firstName: shippingAddress.firstName,
-            lastName: shippingAddress.lastName,
-            company: shippingAddress.company,
-            line1: shippingAddress.line1,
-            line2: shippingAddress.line2,
-            city: shippingAddress.city,
-            state: shippingAddress.state,
-            zip: shippingAddress.zip,
-            country: shippingAddress.country,
-            phone: shippingAddress.phone,
-          },
-          customerEmail: user?.email || session.customer_email || '',
-          customerPhone: shippingAddress.phone,
-          notes,
-          confirmedAt: new Date(),
-        },
-      });
-
-      // Create order items
-      for (const item of orderItems) {
-        await tx.orderItem.create({
-          data: {
-            orderId: newOrder.id,
-            variantId: item.variantId,
-            productName: item.productName,
-            variantName: item.variantName,
-            sku: item.sku,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice: item.totalPrice,
-          },
-        });
-
-        // Update inventory
-        await tx.inventory.update({
-          where: { variantId: item.variantId },
-          data: {
-            quantity: { decrement: item.quantity },
-            reservedQuantity: { decrement: item.quantity },
-            available: { decrement: item.quantity },
-          },
-        });
-      }
-
-      // Create payment record
-      await tx.payment.create({
-        data: {
-          orderId: newOrder.id,
-          provider: 'stripe',
-          stripePaymentIntentId: session.payment_intent as string,
-          amount: total,
-          status: PaymentStatus.COMPLETED,
-          paymentMethod: session.payment_method_types?.[0] || 'card',
-        },
-      });
-
-      // Create shipping record
-      await tx.shipping.create({
-        data: {
-          orderId: newOrder.id,
-          service: shippingMethodId,
-        },
-      });
-
-      // Clear cart
-      await tx.cartItem.deleteMany({
-        where: { cartId: cart.id },
-      });
-
-      return newOrder;
-    });
-
-    // Create dropship order for any dropshipped products (after main transaction)
-    try {
-      // Get the created order items with their IDs
-      const createdOrderItems = await prisma.orderItem.findMany({
-        where: { orderId: order.id },
-      });
-
-      await createDropshipOrderForOrder(
-        {
-          id: order.id,
-          orderNumber: order.orderNumber,
-          customerEmail: order.customerEmail,
-          customerPhone: order.customerPhone,
-          shippingAddress: order.shippingAddress as Record<string, unknown>,
-          subtotal: Number(order.subtotal),
-          shippingAmount: Number(order.shippingAmount),
-          total: Number(order.total),
-        },
-        createdOrderItems.map((item) => ({
-          id: item.id,
-          variantId: item.variantId,
-          productName: item.productName,
-          variantName: item.variantName,
-          sku: item.sku,
-          quantity: item.quantity,
-          unitPrice: Number(item.unitPrice),
-          totalPrice: Number(item.totalPrice),
-        }))
-      );
-    } catch (dropshipError) {
-      // Log but don't fail the order creation
-      console.error('Failed to create dropship order:', dropshipError);
-    }
+const lookupOrderSchema = z.object({
+  orderNumber: z.string().trim().min(1, 'Order number is required').max(50),
+  email: z.string().trim().email('Invalid email address'),
+});
 
-    revalidatePath('/account/orders');
-    revalidatePath('/account');
-    revalidateTag('orders');
+export type LookupOrderInput = z.infer<typeof lookupOrderSchema>;
 
-    return {
-      success: true,
-      data: {
-        orderNumber: order.orderNumber,
-        orderId: order.id,
-      },
-    };
-  } catch (error) {
-    console.error('Create order error:', error);
-    return {
-      success: false,
-      error: 'An error occurred while creating your order. Please contact support.',
-    };
-  }
-}
+// ============================================
+// ORDER ACTIONS
+// ============================================
 
 /**
  * Cancel an order
@@ -442,10 +170,6 @@ export async function cancelOrder(orderNumber: string): Promise<ActionResult> {
 
       // Process refund if payment was completed
       if (order.payment && order.payment.status === PaymentStatus.COMPLETED) {
-        const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-          apiVersion: '2025-02-24.acacia' as any,
-        });
-
         // Create refund
         await stripe.refunds.create({
           payment_intent: order.payment.stripePaymentIntentId!,
@@ -480,7 +204,8 @@ export async function cancelOrder(orderNumber: string): Promise<ActionResult> {
 /**
  * Request a refund for an order
  *
- * Submits a refund request for a delivered order.
+ * Opens a return request for every item not already being returned. The
+ * refund is issued when staff approve the return.
  *
  * @param orderNumber - Order number
  * @param reason - Reason for refund
@@ -515,6 +240,13 @@ export async function requestRefund(orderNumber: string, reason: string): Promis
         orderNumber,
         userId: user.id,
       },
+      include: {
+        items: true,
+        returnRequests: {
+          where: { status: { in: ['REQUESTED', 'APPROVED', 'REFUNDED'] } },
+          include: { items: true },
+        },
+      },
     });
 
     if (!order) {
@@ -548,20 +280,36 @@ export async function requestRefund(orderNumber: string, reason: string): Promis
       };
     }
 
-    // In a real implementation, you would:
-    // 1. Create a refund request record
-    // 2. Send notification to admin
-    // 3. Process the refund through Stripe
+    // Refunds go through a return request covering everything not already
+    // being returned; staff approve it and the refund is issued from there
+    const returnable = getReturnableQuantities(
+      order.items,
+      order.returnRequests.flatMap((returnRequest) => returnRequest.items)
+    );
+    const items = order.items
+      .filter((item) => (returnable.get(item.id) ?? 0) > 0)
+      .map((item) => ({
+        orderItemId: item.id,
+        quantity: returnable.get(item.id)!,
+        reason: 'OTHER' as const,
+      }));
+
+    if (items.length === 0) {
+      return {
+        success: false,
+        error: 'A return has already been requested for every item in this order',
+      };
+    }
 
-    // For now, we'll update the order status
-    await prisma.order.update({
-      where: { id: order.id },
-      data: {
-        status: OrderStatus.REFUNDED,
-        notes: `Refund requested: ${reason}`,
-      },
+    await createReturnRequest({
+      orderId: order.id,
+      userId: user.id,
+      customerName: user.name,
+      items,
+      customerNotes: reason,
     });
 
+    revalidatePath('/admin/returns');
     revalidatePath('/account/orders');
     revalidatePath(`/account/orders/${orderNumber}`);
     revalidateTag('orders');
@@ -569,7 +317,7 @@ export async function requestRefund(orderNumber: string, reason: string): Promis
     return { success: true };
   } catch (error) {
     console.error('Request refund error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError || error instanceof BadRequestError) {
       return { success: false, error: error.message };
     }
     return {
@@ -582,7 +330,9 @@ export async function requestRefund(orderNumber: string, reason: string): Promis
 /**
  * Track an order
  *
- * Returns tracking information for an order.
+ * Returns tracking information for every parcel of an order, with a
+ * shipped and delivered event per parcel. Signed-in customers only; guests
+ * use `lookupOrderTracking` and the `/track` page.
  *
  * @param orderNumber - Order number to track
  * @returns Result object with tracking information or error
@@ -593,10 +343,9 @@ export async function requestRefund(orderNumber: string, reason: string): Promis
 export async function trackOrder(orderNumber: string): Promise<ActionResult<{
   orderNumber: string;
   status: OrderStatus;
+  fulfillmentStatus: FulfillmentStatus;
   estimatedDelivery: Date | null;
-  trackingNumber: string | null;
-  trackingUrl: string | null;
-  carrier: string | null;
+  shipments: OrderShipmentSummary[];
   events: Array<{
     status: string;
     location: string;
@@ -607,6 +356,9 @@ export async function trackOrder(orderNumber: string): Promise<ActionResult<{
   try {
     // Get current user
     const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to track an order');
+    }
 
     // Validate input
     const validatedFields = trackOrderSchema.safeParse({ orderNumber });
@@ -621,8 +373,7 @@ export async function trackOrder(orderNumber: string): Promise<ActionResult<{
     const order = await prisma.order.findFirst({
       where: {
         orderNumber,
-        // Allow tracking without login for order status page
-        ...(user ? { userId: user.id } : {}),
+        userId: user.id,
       },
       include: {
         shipping: true,
@@ -650,39 +401,74 @@ export async function trackOrder(orderNumber: string): Promise<ActionResult<{
       });
     }
 
-    if (order.shippedAt) {
-      events.push({
-        status: 'shipped',
-        location: 'Warehouse',
-        timestamp: order.shippedAt,
-        description: 'Order shipped',
+    const shipments = await getOrderShipments(order.id);
+
+    if (shipments.length > 0) {
+      shipments.forEach((shipment, index) => {
+        const label = shipments.length > 1 ? `Package ${index + 1} of ${shipments.length}` : 'Order';
+
+        if (shipment.shippedAt) {
+          events.push({
+            status: 'shipped',
+            location: 'Warehouse',
+            timestamp: shipment.shippedAt,
+            description: `${label} shipped`,
+          });
+        }
+
+        if (shipment.deliveredAt) {
+          events.push({
+            status: 'delivered',
+            location: 'Destination',
+            timestamp: shipment.deliveredAt,
+            description: `${label} delivered`,
+          });
+        }
       });
-    }
+    } else {
+      // Orders from before shipments existed
+      if (order.shippedAt) {
+        events.push({
+          status: 'shipped',
+          location: 'Warehouse',
+          timestamp: order.shippedAt,
+          description: 'Order shipped',
+        });
+      }
 
-    if (order.deliveredAt) {
-      events.push({
-        status: 'delivered',
-        location: 'Destination',
-        timestamp: order.deliveredAt,
-        description: 'Order delivered',
-      });
+      if (order.deliveredAt) {
+        events.push({
+          status: 'delivered',
+          location: 'Destination',
+          timestamp: order.deliveredAt,
+          description: 'Order delivered',
+        });
+      }
     }
 
+    events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // The order arrives with its last parcel
+    const estimates = shipments
+      .filter((shipment) => shipment.status !== 'DELIVERED' && shipment.estimatedDelivery)
+      .map((shipment) => shipment.estimatedDelivery!.getTime());
+
     return {
       success: true,
       data: {
         orderNumber: order.orderNumber,
         status: order.status,
-        estimatedDelivery: order.shipping?.estimatedDelivery || null,
-        trackingNumber: order.shipping?.trackingNumber || null,
-        trackingUrl: order.shipping?.trackingUrl || null,
-        carrier: order.shipping?.carrier || null,
+        fulfillmentStatus: order.fulfillmentStatus,
+        estimatedDelivery: estimates.length > 0
+          ? new Date(Math.max(...estimates))
+          : order.shipping?.estimatedDelivery || null,
+        shipments,
         events,
       },
     };
   } catch (error) {
     console.error('Track order error:', error);
-    if (error instanceof NotFoundError) {
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
       return { success: false, error: error.message };
     }
     return {
@@ -692,6 +478,130 @@ export async function trackOrder(orderNumber: string): Promise<ActionResult<{
   }
 }
 
+/**
+ * Look up an order to track without signing in
+ *
+ * Checks the order number against the email the order was placed with and
+ * returns the signed `/track` link for it. Rate limited per IP address, and
+ * a wrong number and a wrong email get the same answer, so the form can't
+ * be used to find out which orders exist.
+ *
+ * @param input - Order number and email
+ * @returns Result object with the tracking page path or error
+ *
+ * @example
+ * const result = await lookupOrderTracking({ orderNumber: 'KP-ABC123-XYZ', email: 'jane@example.com' });
+ * if (result.success) router.push(result.data!.path);
+ */
+export async function lookupOrderTracking(input: LookupOrderInput): Promise<ActionResult<{ path: string }>> {
+  try {
+    // Validate input
+    const validatedFields = lookupOrderSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { orderNumber, email } = validatedFields.data;
+
+    // Check rate limit
+    const rateLimit = await rateLimiter.limit(getClientIp(await headers()), ORDER_LOOKUP_RATE_LIMIT);
+    if (rateLimit.limited) {
+      throw new RateLimitError('Too many lookups. Please try again later.');
+    }
+
+    if (!(await matchOrderForTracking(orderNumber, email))) {
+      throw new NotFoundError('We couldn\'t find an order with that number and email address.');
+    }
+
+    return {
+      success: true,
+      data: { path: getOrderTrackingPath(normalizeOrderNumber(orderNumber)) },
+    };
+  } catch (error) {
+    console.error('Lookup order tracking error:', error);
+    if (error instanceof RateLimitError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while looking up your order. Please try again.',
+    };
+  }
+}
+
+/**
+ * Get the account prompt for a guest's just-paid checkout
+ *
+ * Shown on the success page so guests can create an account (or sign in)
+ * to track the order; verifying the email attaches it. Only answers the
+ * browser whose cart session paid, so a shared success link doesn't give
+ * away the buyer's email.
+ *
+ * @param checkoutSessionId - Stripe Checkout session ID, or PaymentIntent ID
+ *   for on-site payment, from the success URL
+ * @returns Result object with the email, order number, tracking path and
+ *   whether the email already has an account, or null for signed-in
+ *   customers and checkouts that aren't this guest's
+ *
+ * @example
+ * const result = await getGuestOrderClaim('cs_test_123');
+ */
+export async function getGuestOrderClaim(checkoutSessionId: string): Promise<ActionResult<{
+  email: string;
+  orderNumber: string;
+  trackingPath: string;
+  hasAccount: boolean;
+} | null>> {
+  try {
+    // Validate input
+    const validatedFields = createOrderSchema.safeParse({ checkoutSessionId });
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const user = await getCurrentUser();
+    const cookieStore = await cookies();
+    const cartSessionId = cookieStore.get('cart_session')?.value;
+    if (user || !cartSessionId) {
+      return { success: true, data: null };
+    }
+
+    const { metadata, email } = await retrievePaidCheckout(checkoutSessionId);
+
+    if (metadata.guestSessionId !== cartSessionId || !metadata.orderNumber || !email) {
+      return { success: true, data: null };
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true },
+    });
+
+    return {
+      success: true,
+      data: {
+        email,
+        orderNumber: metadata.orderNumber,
+        // The webhook may not have created the order yet; the link works once it has
+        trackingPath: getOrderTrackingPath(metadata.orderNumber),
+        hasAccount: !!account,
+      },
+    };
+  } catch (error) {
+    console.error('Get guest order claim error:', error);
+    return {
+      success: false,
+      error: 'An error occurred while loading your order. Please try again.',
+    };
+  }
+}
+
 /**
  * Get user's orders
  *
@@ -825,6 +735,14 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
     quantity: number;
     unitPrice: number;
     totalPrice: number;
+    returnableQuantity: number;
+  }>;
+  returns: Array<{
+    id: string;
+    rmaNumber: string;
+    status: ReturnStatus;
+    refundAmount: number | null;
+    createdAt: Date;
   }>;
   shipping: {
     carrier: string | null;
@@ -833,6 +751,7 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
     trackingUrl: string | null;
     estimatedDelivery: Date | null;
   } | null;
+  shipments: OrderShipmentSummary[];
 }>> {
   try {
     // Get current user
@@ -850,6 +769,10 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
       include: {
         items: true,
         shipping: true,
+        returnRequests: {
+          include: { items: true },
+          orderBy: { createdAt: 'desc' },
+        },
       },
     });
 
@@ -857,6 +780,13 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
       throw new NotFoundError('Order not found');
     }
 
+    const returnable = getReturnableQuantities(
+      order.items,
+      order.returnRequests
+        .filter((returnRequest) => returnRequest.status !== 'REJECTED' && returnRequest.status !== 'CANCELLED')
+        .flatMap((returnRequest) => returnRequest.items)
+    );
+
     return {
       success: true,
       data: {
@@ -869,7 +799,10 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
         shippingAmount: Number(order.shippingAmount),
         taxAmount: Number(order.taxAmount),
         total: Number(order.total),
-        shippingAddress: order.shippingAddress as Record<string, unknown>,
+        // Registry gifts ship to the registrant, whose address stays hidden
+        shippingAddress: (order.registryId
+          ? maskGiftShippingAddress(order.shippingAddress as unknown as GiftAddressFields)
+          : order.shippingAddress) as Record<string, unknown>,
         billingAddress: order.billingAddress as Record<string, unknown>,
         customerEmail: order.customerEmail,
         customerPhone: order.customerPhone,
@@ -886,6 +819,14 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
           quantity: item.quantity,
           unitPrice: Number(item.unitPrice),
           totalPrice: Number(item.totalPrice),
+          returnableQuantity: returnable.get(item.id) ?? 0,
+        })),
+        returns: order.returnRequests.map((returnRequest) => ({
+          id: returnRequest.id,
+          rmaNumber: returnRequest.rmaNumber,
+          status: returnRequest.status,
+          refundAmount: returnRequest.refundAmount === null ? null : Number(returnRequest.refundAmount),
+          createdAt: returnRequest.createdAt,
         })),
         shipping: order.shipping ? {
           carrier: order.shipping.carrier,
@@ -894,6 +835,7 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
           trackingUrl: order.shipping.trackingUrl,
           estimatedDelivery: order.shipping.estimatedDelivery,
         } : null,
+        shipments: await getOrderShipments(order.id),
       },
     };
   } catch (error) {
@@ -907,53 +849,3 @@ export async function getOrder(orderNumber: string): Promise<ActionResult<{
     };
   }
 }
-
-// ============================================
-// HELPER FUNCTIONS
-// ============================================
-
-/**
- * Generate a unique order number
- */
-function generateOrderNumber(): string {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `KP-${timestamp}-${random}`;
-}
-
-/**
- * Calculate shipping cost for a shipping method
- */
-async function calculateShippingCost(methodId: string, subtotal: number): Promise<number> {
-  switch (methodId) {
-    case 'standard':
-      return subtotal >= 75 ? 0 : 5.99;
-    case 'express':
-      return subtotal >= 150 ? 9.99 : 14.99;
-    case 'overnight':
-      return 29.99;
-    default:
-      return 5.99;
-  }
-}
-
-/**
- * Calculate tax for an order
- */
-async function calculateTaxForOrder(state: string, subtotal: number): Promise<number> {
-  const taxRates: Record<string, number> = {
-    'CA': 0.0825,
-    'NY': 0.08,
-    'TX': 0.0625,
-    'FL': 0.06,
-    'IL': 0.0625,
-    'PA': 0.06,
-    'OH': 0.0575,
-    'GA': 0.04,
-    'NC': 0.0475,
-    'MI': 0.06,
-  };
-
-  const taxRate = taxRates[state] || 0;
-  return Math.round(subtotal * taxRate * 100) / 100;
-}
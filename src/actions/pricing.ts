@@ -0,0 +1,94 @@
+'use server';
+
+import { getCurrentUser } from '@/lib/session';
+import { revalidatePath } from 'next/cache';
+import { ConflictError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import { approvePriceChange, rejectPriceChange } from '@/lib/price-monitor';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Require an ADMIN user; repricing is not a staff task
+ */
+async function requirePricingAdmin() {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'ADMIN') {
+    throw new UnauthorizedError('Admin access required');
+  }
+  return user;
+}
+
+function toErrorResult(error: unknown, fallback: string): ActionResult<never> {
+  if (
+    error instanceof UnauthorizedError ||
+    error instanceof NotFoundError ||
+    error instanceof ConflictError
+  ) {
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: fallback };
+}
+
+// ============================================
+// PRICE CHANGE ACTIONS
+// ============================================
+
+/**
+ * Approve a supplier price change queued by the price monitor
+ *
+ * Reprices the product's variants to the proposed prices.
+ *
+ * @example
+ * const result = await approveSupplierPriceChange('spc_123');
+ */
+export async function approveSupplierPriceChange(changeId: string): Promise<ActionResult> {
+  try {
+    const user = await requirePricingAdmin();
+
+    await approvePriceChange(changeId, user.id);
+    revalidatePath('/admin/pricing');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Approve price change error:', error);
+    return toErrorResult(error, 'An error occurred while approving the price change.');
+  }
+}
+
+/**
+ * Reject a supplier price change queued by the price monitor
+ *
+ * Keeps the current retail prices.
+ *
+ * @example
+ * const result = await rejectSupplierPriceChange('spc_123');
+ */
+export async function rejectSupplierPriceChange(changeId: string): Promise<ActionResult> {
+  try {
+    const user = await requirePricingAdmin();
+
+    await rejectPriceChange(changeId, user.id);
+    revalidatePath('/admin/pricing');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Reject price change error:', error);
+    return toErrorResult(error, 'An error occurred while rejecting the price change.');
+  }
+}
@@ -6,6 +6,12 @@ import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
 import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
 import { RegistryStatus, Priority } from '@prisma/client';
+import { enqueueEmail } from '@/lib/jobs';
+import {
+  getRegistryGiftLog,
+  setThankYouSent,
+  type GiftLogEntry,
+} from '@/lib/registry/gift-log';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -41,6 +47,7 @@ const updateRegistrySchema = z.object({
   description: z.string().max(1000).optional(),
   eventDate: z.string().datetime().optional().nullable(),
   isPublic: z.boolean().optional(),
+  shippingAddressId: z.string().cuid('Invalid address ID').optional().nullable(),
 });
 
 export type UpdateRegistryInput = z.infer<typeof updateRegistrySchema>;
@@ -91,26 +98,26 @@ const removeRegistryItemSchema = z.object({
 export type RemoveRegistryItemInput = z.infer<typeof removeRegistryItemSchema>;
 
 /**
- * Purchase registry item input schema
+ * Share registry input schema
  */
-const purchaseRegistryItemSchema = z.object({
+const shareRegistrySchema = z.object({
   shareCode: z.string().min(1, 'Share code is required'),
-  itemId: z.string().cuid('Invalid item ID'),
-  quantity: z.number().int().positive('Quantity must be at least 1').max(99),
+  emails: z.array(z.string().email('Invalid email address')).min(1, 'At least one email is required').max(20, 'Maximum 20 emails'),
+  message: z.string().max(1000).optional(),
 });
 
-export type PurchaseRegistryItemInput = z.infer<typeof purchaseRegistryItemSchema>;
+export type ShareRegistryInput = z.infer<typeof shareRegistrySchema>;
 
 /**
- * Share registry input schema
+ * Thank-you sent input schema
  */
-const shareRegistrySchema = z.object({
+const thankYouSentSchema = z.object({
   shareCode: z.string().min(1, 'Share code is required'),
-  emails: z.array(z.string().email('Invalid email address')).min(1, 'At least one email is required').max(20, 'Maximum 20 emails'),
-  message: z.string().max(1000).optional(),
+  orderId: z.string().cuid('Invalid order ID'),
+  sent: z.boolean(),
 });
 
-export type ShareRegistryInput = z.infer<typeof shareRegistrySchema>;
+export type ThankYouSentInput = z.infer<typeof thankYouSentSchema>;
 
 // ============================================
 // HELPER FUNCTIONS
@@ -279,6 +286,18 @@ export async function updateRegistry(
     if (data.eventDate !== undefined) updateData.eventDate = data.eventDate ? new Date(data.eventDate) : null;
     if (data.isPublic !== undefined) updateData.isPublic = data.isPublic;
 
+    // Gifts ship to this address, so it must be one of the owner's own
+    if (data.shippingAddressId) {
+      const address = await prisma.address.findFirst({
+        where: { id: data.shippingAddressId, userId: user.id },
+        select: { id: true },
+      });
+      if (!address) {
+        throw new NotFoundError('Address not found');
+      }
+    }
+    if (data.shippingAddressId !== undefined) updateData.shippingAddressId = data.shippingAddressId;
+
     // Update registry
     await prisma.registry.update({
       where: { id: registry.id },
@@ -644,95 +663,6 @@ export async function removeRegistryItem(shareCode: string, itemId: string): Pro
   }
 }
 
-/**
- * Purchase a registry item (for gift givers)
- *
- * Marks an item as purchased and updates the quantity purchased.
- *
- * @param input - Purchase registry item data
- * @returns Result object indicating success or failure
- *
- * @example
- * const result = await purchaseRegistryItem({
- *   shareCode: 'ABC12345',
- *   itemId: 'item123',
- *   quantity: 1,
- * });
- */
-export async function purchaseRegistryItem(input: PurchaseRegistryItemInput): Promise<ActionResult> {
-  try {
-    // Validate input
-    const validatedFields = purchaseRegistryItemSchema.safeParse(input);
-    if (!validatedFields.success) {
-      return {
-        success: false,
-        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
-      };
-    }
-
-    const { shareCode, itemId, quantity } = validatedFields.data;
-
-    // Find registry
-    const registry = await prisma.registry.findUnique({
-      where: { shareCode },
-    });
-
-    if (!registry) {
-      throw new NotFoundError('Registry not found');
-    }
-
-    if (!registry.isPublic) {
-      return {
-        success: false,
-        error: 'This registry is private',
-      };
-    }
-
-    // Find item
-    const item = await prisma.registryItem.findFirst({
-      where: {
-        id: itemId,
-        registryId: registry.id,
-      },
-    });
-
-    if (!item) {
-      throw new NotFoundError('Registry item not found');
-    }
-
-    // Check if enough items are available
-    const remaining = item.quantity - item.quantityPurchased;
-    if (quantity > remaining) {
-      return {
-        success: false,
-        error: `Only ${remaining} items remaining`,
-      };
-    }
-
-    // Update quantity purchased
-    await prisma.registryItem.update({
-      where: { id: itemId },
-      data: {
-        quantityPurchased: item.quantityPurchased + quantity,
-      },
-    });
-
-    revalidatePath(`/registry/${shareCode}`);
-    revalidateTag('registry');
-
-    return { success: true };
-  } catch (error) {
-    console.error('Purchase registry item error:', error);
-    if (error instanceof NotFoundError) {
-      return { success: false, error: error.message };
-    }
-    return {
-      success: false,
-      error: 'An error occurred while purchasing the registry item. Please try again.',
-    };
-  }
-}
-
 /**
  * Share a registry via email
  *
@@ -784,30 +714,20 @@ export async function shareRegistry(input: ShareRegistryInput): Promise<ActionRe
     const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://example.com';
     const shareUrl = `${siteUrl}/registry/${registry.shareCode}`;
 
-    // Send emails to each recipient
-    const emailPromises = emails.map(async (email) => {
-      const emailContent = message
-        ? `${userName} has shared their baby registry with you!\n\nPersonal message: ${message}\n\nView their registry: ${shareUrl}`
-        : `${userName} has shared their baby registry with you!\n\nView their registry: ${shareUrl}`;
-
-      const { sendEmail } = await import('@/lib/email/service');
-      return sendEmail({
-        to: email,
-        subject: `${userName} shared their baby registry with you`,
-        text: emailContent,
-      });
-    });
-
-    const results = await Promise.all(emailPromises);
-    const hasErrors = results.some((result) => !result.success);
-
-    if (hasErrors) {
-      console.error('Failed to send some registry share emails:', results);
-      return {
-        success: false,
-        error: 'Failed to send some emails. Please try again.',
-      };
-    }
+    // Queue an email to each recipient
+    const emailContent = message
+      ? `${userName} has shared their baby registry with you!\n\nPersonal message: ${message}\n\nView their registry: ${shareUrl}`
+      : `${userName} has shared their baby registry with you!\n\nView their registry: ${shareUrl}`;
+
+    await Promise.all(
+      emails.map((email) =>
+        enqueueEmail({
+          to: email,
+          subject: `${userName} shared their baby registry with you`,
+          text: emailContent,
+        })
+      )
+    );
 
     console.log('Sharing registry', shareCode, 'with emails:', emails);
 
@@ -845,6 +765,14 @@ export async function getRegistry(shareCode: string): Promise<ActionResult<{
   shareCode: string;
   isPublic: boolean;
   status: RegistryStatus;
+  shippingAddressId: string | null;
+  completedAt: Date | null;
+  completionDiscount: {
+    code: string;
+    percentOff: number;
+    expiresAt: Date | null;
+    used: boolean;
+  } | null;
   createdAt: Date;
   items: Array<{
     id: string;
@@ -858,6 +786,7 @@ export async function getRegistry(shareCode: string): Promise<ActionResult<{
     priority: Priority;
     notes: string | null;
   }>;
+  acceptsGifts: boolean;
   isOwner: boolean;
 }>> {
   try {
@@ -871,6 +800,7 @@ export async function getRegistry(shareCode: string): Promise<ActionResult<{
         items: {
           orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
         },
+        completionDiscount: true,
       },
     });
 
@@ -897,6 +827,19 @@ export async function getRegistry(shareCode: string): Promise<ActionResult<{
         shareCode: registry.shareCode,
         isPublic: registry.isPublic,
         status: registry.status,
+        shippingAddressId: isOwner ? registry.shippingAddressId : null,
+        completedAt: registry.completedAt,
+        completionDiscount:
+          isOwner && registry.completionDiscount
+            ? {
+                code: registry.completionDiscount.code,
+                percentOff: registry.completionDiscount.discountValue.toNumber(),
+                expiresAt: registry.completionDiscount.expiresAt,
+                used:
+                  registry.completionDiscount.maxUses !== null &&
+                  registry.completionDiscount.currentUses >= registry.completionDiscount.maxUses,
+              }
+            : null,
         createdAt: registry.createdAt,
         items: registry.items.map((item) => ({
           id: item.id,
@@ -910,6 +853,8 @@ export async function getRegistry(shareCode: string): Promise<ActionResult<{
           priority: item.priority,
           notes: item.notes,
         })),
+        // Gifts can only be bought once the registrant says where to ship them
+        acceptsGifts: registry.status === RegistryStatus.ACTIVE && !!registry.shippingAddressId,
         isOwner,
       },
     };
@@ -943,6 +888,7 @@ export async function getUserRegistry(): Promise<ActionResult<{
   shareCode: string;
   isPublic: boolean;
   status: RegistryStatus;
+  shippingAddressId: string | null;
   createdAt: Date;
   items: Array<{
     id: string;
@@ -991,6 +937,7 @@ export async function getUserRegistry(): Promise<ActionResult<{
         shareCode: registry.shareCode,
         isPublic: registry.isPublic,
         status: registry.status,
+        shippingAddressId: registry.shippingAddressId,
         createdAt: registry.createdAt,
         items: registry.items.map((item) => ({
           id: item.id,
@@ -1017,3 +964,114 @@ export async function getUserRegistry(): Promise<ActionResult<{
     };
   }
 }
+
+/**
+ * Get a registry's gift log
+ *
+ * Lists who bought what, for the registry owner's thank-you notes.
+ *
+ * @param shareCode - Registry share code
+ * @returns Result object with the gift log or error
+ *
+ * @example
+ * const result = await getGiftLog('ABC12345');
+ */
+export async function getGiftLog(shareCode: string): Promise<ActionResult<GiftLogEntry[]>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to view your gift log');
+    }
+
+    // Find registry
+    const registry = await prisma.registry.findFirst({
+      where: {
+        shareCode,
+        userId: user.id,
+      },
+      select: { id: true },
+    });
+
+    if (!registry) {
+      throw new NotFoundError('Registry not found');
+    }
+
+    const entries = await getRegistryGiftLog(registry.id);
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error('Get gift log error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while fetching your gift log. Please try again.',
+    };
+  }
+}
+
+/**
+ * Mark a gift's thank-you note as sent (or not)
+ *
+ * @param input - Thank-you data (shareCode, orderId, sent)
+ * @returns Result object with when the thank-you was marked sent
+ *
+ * @example
+ * const result = await updateThankYouSent({
+ *   shareCode: 'ABC12345',
+ *   orderId: 'order123',
+ *   sent: true,
+ * });
+ */
+export async function updateThankYouSent(
+  input: ThankYouSentInput
+): Promise<ActionResult<{ thankYouSentAt: Date | null }>> {
+  try {
+    // Get current user
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError('You must be logged in to update your gift log');
+    }
+
+    // Validate input
+    const validatedFields = thankYouSentSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { shareCode, orderId, sent } = validatedFields.data;
+
+    // Find registry
+    const registry = await prisma.registry.findFirst({
+      where: {
+        shareCode,
+        userId: user.id,
+      },
+      select: { id: true },
+    });
+
+    if (!registry) {
+      throw new NotFoundError('Registry not found');
+    }
+
+    const thankYouSentAt = await setThankYouSent(registry.id, orderId, sent === true);
+
+    revalidatePath(`/registry/${shareCode}/manage`);
+
+    return { success: true, data: { thankYouSentAt } };
+  } catch (error) {
+    console.error('Update thank-you sent error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return {
+      success: false,
+      error: 'An error occurred while updating your gift log. Please try again.',
+    };
+  }
+}
@@ -0,0 +1,244 @@
+'use server';
+
+import { getCurrentUser } from '@/lib/session';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import {
+  approveReturnRequest,
+  processApprovedReturn,
+  markReturnReceived,
+  rejectReturnRequest,
+  updateDropshipClaim,
+} from '@/lib/returns';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+/**
+ * Approve return input schema
+ */
+const approveReturnSchema = z.object({
+  returnId: z.string().min(1),
+  refundAmount: z.number().min(0, 'Refund cannot be negative').optional(),
+});
+
+export type ApproveReturnInput = z.infer<typeof approveReturnSchema>;
+
+/**
+ * Reject return input schema
+ */
+const rejectReturnSchema = z.object({
+  returnId: z.string().min(1),
+  reason: z.string().trim().min(10, 'Please explain why (at least 10 characters)').max(1000),
+});
+
+export type RejectReturnInput = z.infer<typeof rejectReturnSchema>;
+
+/**
+ * Update dropship claim input schema
+ */
+const updateClaimSchema = z.object({
+  claimId: z.string().min(1),
+  status: z.enum(['OPEN', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'RESOLVED']),
+  supplierReference: z.string().max(200).nullable().optional(),
+  recoveredAmount: z.number().min(0).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export type UpdateDropshipClaimInput = z.infer<typeof updateClaimSchema>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Require an ADMIN or STAFF user
+ */
+async function requireReturnsStaff() {
+  const user = await getCurrentUser();
+  if (!user || (user.role !== 'ADMIN' && user.role !== 'STAFF')) {
+    throw new UnauthorizedError('Admin access required');
+  }
+  return user;
+}
+
+function revalidateReturn(returnId: string) {
+  revalidatePath('/admin/returns');
+  revalidatePath(`/admin/returns/${returnId}`);
+}
+
+function toErrorResult(error: unknown, fallback: string): ActionResult<never> {
+  if (
+    error instanceof UnauthorizedError ||
+    error instanceof NotFoundError ||
+    error instanceof BadRequestError ||
+    error instanceof ConflictError
+  ) {
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: fallback };
+}
+
+// ============================================
+// RETURN ACTIONS
+// ============================================
+
+/**
+ * Approve a return
+ *
+ * Opens supplier claims for dropshipped items, refunds the customer and
+ * emails them their return label. Our own items are restocked once the
+ * parcel is marked received.
+ *
+ * @param input - Return ID and optional refund override in dollars
+ * @returns Result object with the return status or error
+ *
+ * @example
+ * const result = await approveReturn({ returnId: 'ret_123' });
+ */
+export async function approveReturn(input: ApproveReturnInput): Promise<ActionResult<{ status: string }>> {
+  try {
+    const user = await requireReturnsStaff();
+
+    const validatedFields = approveReturnSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { returnId, refundAmount } = validatedFields.data;
+    const returnRequest = await approveReturnRequest(returnId, user.id, { refundAmount });
+
+    revalidateReturn(returnId);
+    revalidatePath('/admin/orders');
+
+    return { success: true, data: { status: returnRequest.status } };
+  } catch (error) {
+    console.error('Approve return error:', error);
+    revalidateReturn(input.returnId);
+    return toErrorResult(error, 'An error occurred while approving the return.');
+  }
+}
+
+/**
+ * Retry the supplier claims and refund of an approved return after a failure
+ *
+ * @example
+ * const result = await retryReturnRefund('ret_123');
+ */
+export async function retryReturnRefund(returnId: string): Promise<ActionResult> {
+  try {
+    await requireReturnsStaff();
+
+    await processApprovedReturn(returnId);
+    revalidateReturn(returnId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Retry return refund error:', error);
+    revalidateReturn(returnId);
+    return toErrorResult(error, 'An error occurred while refunding the return.');
+  }
+}
+
+/**
+ * Mark a return's parcel as received and restock our own items
+ *
+ * @example
+ * const result = await receiveReturn('ret_123');
+ */
+export async function receiveReturn(returnId: string): Promise<ActionResult> {
+  try {
+    await requireReturnsStaff();
+
+    await markReturnReceived(returnId);
+    revalidateReturn(returnId);
+    revalidatePath('/admin/orders');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Receive return error:', error);
+    return toErrorResult(error, 'An error occurred while receiving the return.');
+  }
+}
+
+/**
+ * Reject a return
+ *
+ * @param input - Return ID and the reason, which is emailed to the customer
+ *
+ * @example
+ * const result = await rejectReturn({
+ *   returnId: 'ret_123',
+ *   reason: 'Worn items cannot be returned.',
+ * });
+ */
+export async function rejectReturn(input: RejectReturnInput): Promise<ActionResult> {
+  try {
+    const user = await requireReturnsStaff();
+
+    const validatedFields = rejectReturnSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { returnId, reason } = validatedFields.data;
+    await rejectReturnRequest(returnId, user.id, reason);
+    revalidateReturn(returnId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Reject return error:', error);
+    return toErrorResult(error, 'An error occurred while rejecting the return.');
+  }
+}
+
+/**
+ * Update a supplier claim for returned dropship items
+ *
+ * @example
+ * const result = await updateReturnClaim({
+ *   claimId: 'claim_123',
+ *   status: 'SUBMITTED',
+ *   supplierReference: 'AE-DISPUTE-8812',
+ * });
+ */
+export async function updateReturnClaim(input: UpdateDropshipClaimInput): Promise<ActionResult> {
+  try {
+    await requireReturnsStaff();
+
+    const validatedFields = updateClaimSchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { claimId, status, supplierReference, recoveredAmount, notes } = validatedFields.data;
+    const claim = await updateDropshipClaim(claimId, { status, supplierReference, recoveredAmount, notes });
+    revalidateReturn(claim.returnRequestId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update return claim error:', error);
+    return toErrorResult(error, 'An error occurred while updating the claim.');
+  }
+}
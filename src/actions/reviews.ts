@@ -4,7 +4,8 @@ import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { z } from 'zod';
 import { revalidatePath, revalidateTag } from 'next/cache';
-import { UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
+import { UnauthorizedError, NotFoundError, ValidationError, RateLimitError } from '@/lib/errors';
+import { rateLimiter, REVIEW_RATE_LIMIT } from '@/lib/rate-limiter';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -108,6 +109,12 @@ export async function createReview(input: CreateReviewInput): Promise<ActionResu
 
     const { productId, rating, title, content } = validatedFields.data;
 
+    // Check rate limit
+    const rateLimit = await rateLimiter.limit(user.id, REVIEW_RATE_LIMIT);
+    if (rateLimit.limited) {
+      throw new RateLimitError('You are posting reviews too quickly. Please try again later.');
+    }
+
     // Verify product exists
     const product = await prisma.product.findUnique({
       where: { id: productId },
@@ -167,7 +174,7 @@ export async function createReview(input: CreateReviewInput): Promise<ActionResu
     };
   } catch (error) {
     console.error('Create review error:', error);
-    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError || error instanceof RateLimitError) {
       return { success: false, error: error.message };
     }
     return {
@@ -0,0 +1,61 @@
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/session';
+import { revalidatePath } from 'next/cache';
+import { NotFoundError, UnauthorizedError } from '@/lib/errors';
+import type { SupplierStatus } from '@prisma/client';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// ============================================
+// SUPPLIER ACTIONS
+// ============================================
+
+/**
+ * Suspend, deactivate or reactivate a supplier
+ *
+ * Clears the scorecard flag; the next scorecard run flags the supplier
+ * again if it is reactivated and still scores low.
+ *
+ * @example
+ * const result = await updateSupplierStatus('sup_123', 'SUSPENDED');
+ */
+export async function updateSupplierStatus(supplierId: string, status: SupplierStatus): Promise<ActionResult> {
+  try {
+    const user = await getCurrentUser();
+    if (!user || user.role !== 'ADMIN') {
+      throw new UnauthorizedError('Admin access required');
+    }
+
+    const supplier = await prisma.supplier.findUnique({ where: { id: supplierId }, select: { id: true } });
+    if (!supplier) {
+      throw new NotFoundError('Supplier not found');
+    }
+
+    await prisma.supplier.update({
+      where: { id: supplierId },
+      data: { status, flaggedAt: null, flagReasons: [] },
+    });
+    revalidatePath('/admin/suppliers');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update supplier status error:', error);
+    if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: 'An error occurred while updating the supplier.' };
+  }
+}
@@ -0,0 +1,197 @@
+'use server';
+
+import { getCurrentUser } from '@/lib/session';
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+import {
+  assignTicket,
+  replyToTicket,
+  updateTicketPriority,
+  updateTicketStatus,
+} from '@/lib/support';
+import type { SupportTicketPriority, SupportTicketStatus } from '@prisma/client';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Result type for server actions
+ */
+export interface ActionResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+/**
+ * Staff reply input schema
+ */
+const replySchema = z.object({
+  ticketId: z.string().min(1),
+  body: z.string().trim().min(1, 'Message is required').max(10000),
+  internal: z.boolean().default(false),
+});
+
+export type ReplyToSupportTicketInput = z.input<typeof replySchema>;
+
+const TICKET_STATUSES = ['OPEN', 'IN_PROGRESS', 'WAITING_ON_CUSTOMER', 'RESOLVED', 'CLOSED'] as const;
+const TICKET_PRIORITIES = ['LOW', 'NORMAL', 'HIGH', 'URGENT'] as const;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Require an ADMIN or STAFF user
+ */
+async function requireSupportStaff() {
+  const user = await getCurrentUser();
+  if (!user || (user.role !== 'ADMIN' && user.role !== 'STAFF')) {
+    throw new UnauthorizedError('Admin access required');
+  }
+  return user;
+}
+
+function revalidateTicket(ticketId: string) {
+  revalidatePath('/admin/support');
+  revalidatePath(`/admin/support/${ticketId}`);
+}
+
+function toErrorResult(error: unknown, fallback: string): ActionResult<never> {
+  if (
+    error instanceof UnauthorizedError ||
+    error instanceof NotFoundError ||
+    error instanceof BadRequestError
+  ) {
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: fallback };
+}
+
+// ============================================
+// SUPPORT ACTIONS
+// ============================================
+
+/**
+ * Reply to a support ticket
+ *
+ * Public replies are emailed to the customer in the ticket's thread;
+ * internal notes are only visible to staff.
+ *
+ * @param input - Ticket ID, message body and whether it is an internal note
+ * @returns Result object with whether the customer email went out
+ *
+ * @example
+ * const result = await replyToSupportTicket({
+ *   ticketId: 'ticket_123',
+ *   body: 'A replacement is on its way.',
+ * });
+ */
+export async function replyToSupportTicket(
+  input: ReplyToSupportTicketInput
+): Promise<ActionResult<{ emailSent: boolean }>> {
+  try {
+    const user = await requireSupportStaff();
+
+    const validatedFields = replySchema.safeParse(input);
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        fieldErrors: validatedFields.error.flatten().fieldErrors as Record<string, string[]>,
+      };
+    }
+
+    const { ticketId, body, internal } = validatedFields.data;
+    const { emailSent } = await replyToTicket(ticketId, user.id, body, { internal });
+
+    revalidateTicket(ticketId);
+
+    return { success: true, data: { emailSent } };
+  } catch (error) {
+    console.error('Reply to support ticket error:', error);
+    return toErrorResult(error, 'An error occurred while sending the reply.');
+  }
+}
+
+/**
+ * Update a support ticket's status
+ *
+ * @example
+ * const result = await updateSupportTicketStatus('ticket_123', 'RESOLVED');
+ */
+export async function updateSupportTicketStatus(
+  ticketId: string,
+  status: SupportTicketStatus
+): Promise<ActionResult> {
+  try {
+    const user = await requireSupportStaff();
+
+    if (!TICKET_STATUSES.includes(status)) {
+      return { success: false, error: 'Invalid status' };
+    }
+
+    await updateTicketStatus(ticketId, status, user.id);
+    revalidateTicket(ticketId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update support ticket status error:', error);
+    return toErrorResult(error, 'An error occurred while updating the ticket status.');
+  }
+}
+
+/**
+ * Update a support ticket's priority (recomputes SLA due dates)
+ *
+ * @example
+ * const result = await updateSupportTicketPriority('ticket_123', 'URGENT');
+ */
+export async function updateSupportTicketPriority(
+  ticketId: string,
+  priority: SupportTicketPriority
+): Promise<ActionResult> {
+  try {
+    const user = await requireSupportStaff();
+
+    if (!TICKET_PRIORITIES.includes(priority)) {
+      return { success: false, error: 'Invalid priority' };
+    }
+
+    await updateTicketPriority(ticketId, priority, user.id);
+    revalidateTicket(ticketId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Update support ticket priority error:', error);
+    return toErrorResult(error, 'An error occurred while updating the ticket priority.');
+  }
+}
+
+/**
+ * Assign a support ticket to a staff member
+ *
+ * @param ticketId - The ticket ID
+ * @param assigneeId - ADMIN or STAFF user ID, or null to unassign
+ *
+ * @example
+ * const result = await assignSupportTicket('ticket_123', 'user_456');
+ */
+export async function assignSupportTicket(
+  ticketId: string,
+  assigneeId: string | null
+): Promise<ActionResult> {
+  try {
+    const user = await requireSupportStaff();
+
+    await assignTicket(ticketId, assigneeId, user.id);
+    revalidateTicket(ticketId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Assign support ticket error:', error);
+    return toErrorResult(error, 'An error occurred while assigning the ticket.');
+  }
+}
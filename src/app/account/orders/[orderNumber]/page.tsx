@@ -5,8 +5,11 @@ import { getOrder, cancelOrder } from '@/actions/orders';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { MapPin, Truck, CreditCard, ArrowLeft, Package, CheckCircle, AlertCircle } from 'lucide-react';
-import { OrderStatus, PaymentStatus, FulfillmentStatus } from '@prisma/client';
+import { OrderStatus, PaymentStatus, FulfillmentStatus, ReturnStatus, ShipmentStatus } from '@prisma/client';
+import { isWithinReturnWindow, RETURN_WINDOW_DAYS } from '@/lib/returns/policy';
+import { getReturnLabelPath } from '@/lib/returns/labels';
 import CancelOrderButton from './cancel-button';
+import ReturnRequestForm, { CancelReturnButton } from './return-request-form';
 
 interface OrderDetailsPageProps {
   params: Promise<{ orderNumber: string }>;
@@ -38,6 +41,16 @@ export default async function AccountOrderDetailsPage({ params }: OrderDetailsPa
                     order.status === OrderStatus.CONFIRMED ||
                     order.status === OrderStatus.PROCESSING;
 
+  // Orders from before shipments existed keep their tracking on the shipping record
+  const isSplit = order.shipments.length > 1;
+  const tracking = order.shipments[0] ?? order.shipping;
+  const shippedPackages = order.shipments.filter((shipment) => shipment.shippedAt !== null).length;
+
+  const returnableItems = order.items.filter((item) => item.returnableQuantity > 0);
+  const canReturn = order.status === OrderStatus.DELIVERED &&
+                    isWithinReturnWindow(order.deliveredAt) &&
+                    returnableItems.length > 0;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -68,13 +81,20 @@ export default async function AccountOrderDetailsPage({ params }: OrderDetailsPa
             <p className="text-sm text-gray-500 mb-1">Order Status</p>
             <OrderStatusBadge status={order.status} />
           </div>
-          {order.shipping?.trackingNumber && (
+          {isSplit ? (
+            <div className="text-right">
+              <p className="text-sm text-gray-500 mb-1">Shipping in {order.shipments.length} packages</p>
+              <p className="font-medium text-gray-900">
+                {shippedPackages} of {order.shipments.length} shipped
+              </p>
+            </div>
+          ) : tracking?.trackingNumber && (
             <div className="text-right">
               <p className="text-sm text-gray-500 mb-1">Tracking Number</p>
-              <p className="font-medium text-gray-900">{order.shipping.trackingNumber}</p>
-              {order.shipping.trackingUrl && (
+              <p className="font-medium text-gray-900">{tracking.trackingNumber}</p>
+              {tracking.trackingUrl && (
                 <a 
-                  href={order.shipping.trackingUrl} 
+                  href={tracking.trackingUrl} 
                   target="_blank" 
                   rel="noopener noreferrer"
                   className="text-sm text-blue-600 hover:underline"
@@ -97,6 +117,55 @@ export default async function AccountOrderDetailsPage({ params }: OrderDetailsPa
         </div>
       </div>
 
+      {/* Packages, when the order ships in more than one */}
+      {isSplit && (
+        <div className="bg-white rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Packages ({order.shipments.length})
+          </h3>
+          <div className="divide-y divide-gray-100">
+            {order.shipments.map((shipment, index) => (
+              <div key={shipment.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <Truck className="w-4 h-4 text-gray-400" />
+                    <p className="font-medium text-gray-900">Package {index + 1}</p>
+                    <span className="text-sm text-gray-500">
+                      {SHIPMENT_STATUS_LABELS[shipment.status]}
+                    </span>
+                  </div>
+                  {shipment.trackingNumber && (
+                    <div className="text-right text-sm">
+                      <p className="text-gray-900">
+                        {shipment.carrier && `${shipment.carrier} `}{shipment.trackingNumber}
+                      </p>
+                      {shipment.trackingUrl && (
+                        <a
+                          href={shipment.trackingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          Track Package
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <ul className="mt-2 ml-6 text-sm text-gray-600">
+                  {shipment.items.map((item) => (
+                    <li key={item.orderItemId}>
+                      {item.productName}
+                      {item.variantName !== 'Default' && ` – ${item.variantName}`} × {item.quantity}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Order items */}
       <div className="bg-white rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -220,15 +289,47 @@ export default async function AccountOrderDetailsPage({ params }: OrderDetailsPa
         </div>
       )}
 
+      {/* Returns */}
+      {order.returns.length > 0 && (
+        <div className="bg-white rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Returns
+          </h3>
+          <div className="divide-y divide-gray-100">
+            {order.returns.map((returnRequest) => (
+              <div key={returnRequest.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">{returnRequest.rmaNumber}</p>
+                  <p className="text-sm text-gray-500">
+                    {RETURN_STATUS_LABELS[returnRequest.status]}
+                    {returnRequest.refundAmount !== null && ` · $${returnRequest.refundAmount.toFixed(2)} refund`}
+                  </p>
+                </div>
+                {(returnRequest.status === 'APPROVED' || returnRequest.status === 'REFUNDED') && (
+                  <Link href={getReturnLabelPath(returnRequest.id)} target="_blank">
+                    <Button variant="outline" size="sm">
+                      Print Return Label
+                    </Button>
+                  </Link>
+                )}
+                {returnRequest.status === 'REQUESTED' && (
+                  <CancelReturnButton returnId={returnRequest.id} />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
-      <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex flex-col sm:flex-row flex-wrap gap-4">
         {order.status === OrderStatus.DELIVERED && (
           <Button variant="outline" leftIcon={<Package className="w-4 h-4" />}>
             Buy Again
           </Button>
         )}
-        {order.status === OrderStatus.SHIPPED && order.shipping?.trackingUrl && (
-          <a href={order.shipping.trackingUrl} target="_blank" rel="noopener noreferrer">
+        {order.status === OrderStatus.SHIPPED && !isSplit && tracking?.trackingUrl && (
+          <a href={tracking.trackingUrl} target="_blank" rel="noopener noreferrer">
             <Button variant="outline" leftIcon={<Truck className="w-4 h-4" />}>
               Track Package
             </Button>
@@ -242,11 +343,40 @@ export default async function AccountOrderDetailsPage({ params }: OrderDetailsPa
         {canCancel && (
           <CancelOrderButton orderNumber={order.orderNumber} />
         )}
+        {canReturn && (
+          <ReturnRequestForm orderNumber={order.orderNumber} items={returnableItems} />
+        )}
       </div>
+      {order.status === OrderStatus.DELIVERED && (
+        <p className="text-sm text-gray-500">
+          Items can be returned within {RETURN_WINDOW_DAYS} days of delivery.
+        </p>
+      )}
     </div>
   );
 }
 
+/**
+ * Customer-facing package status labels
+ */
+const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  PENDING: 'Preparing',
+  SHIPPED: 'On its way',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+};
+
+/**
+ * Customer-facing return status labels
+ */
+const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  REQUESTED: 'Awaiting review',
+  APPROVED: 'Approved – print your label and send the items back',
+  REJECTED: 'Not approved',
+  REFUNDED: 'Refunded',
+  CANCELLED: 'Cancelled',
+};
+
 /**
  * Order status badge component
  */
@@ -0,0 +1,192 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { cancelReturn, requestReturn } from '@/actions/contact';
+import { RETURN_REASON_LABELS } from '@/lib/returns/policy';
+import { CheckCircle, RotateCcw } from 'lucide-react';
+import type { ReturnReason } from '@prisma/client';
+
+interface ReturnRequestFormProps {
+  orderNumber: string;
+  items: Array<{
+    id: string;
+    productName: string;
+    variantName: string;
+    returnableQuantity: number;
+  }>;
+}
+
+const REASON_OPTIONS = [
+  { value: '', label: 'Select a reason' },
+  ...(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => ({
+    value: reason,
+    label: RETURN_REASON_LABELS[reason],
+  })),
+];
+
+/**
+ * Return request form component
+ * Lets customers choose how many of each item to return and why
+ */
+export default function ReturnRequestForm({ orderNumber, items }: ReturnRequestFormProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [quantities, setQuantities] = React.useState<Record<string, number>>({});
+  const [reasons, setReasons] = React.useState<Record<string, ReturnReason | ''>>({});
+  const [description, setDescription] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [confirmation, setConfirmation] = React.useState<string | null>(null);
+
+  const selectedItems = items.filter((item) => (quantities[item.id] ?? 0) > 0);
+
+  const handleSubmit = async () => {
+    if (selectedItems.length === 0) {
+      setError('Select at least one item to return');
+      return;
+    }
+    if (selectedItems.some((item) => !reasons[item.id])) {
+      setError('Select a reason for each item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await requestReturn({
+        orderNumber,
+        items: selectedItems.map((item) => ({
+          orderItemId: item.id,
+          quantity: quantities[item.id],
+          reason: reasons[item.id] as ReturnReason,
+        })),
+        description: description.trim() || undefined,
+      });
+
+      if (result.success && result.data) {
+        setConfirmation(result.data.message);
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to request return');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (confirmation) {
+    return (
+      <div className="flex items-start gap-2 p-4 bg-green-50 rounded-lg text-sm text-green-700">
+        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+        <p>{confirmation}</p>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        leftIcon={<RotateCcw className="w-4 h-4" />}
+        onClick={() => setIsOpen(true)}
+      >
+        Return Items
+      </Button>
+    );
+  }
+
+  return (
+    <div className="w-full bg-white rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Return Items</h3>
+      <div className="divide-y divide-gray-100">
+        {items.map((item) => (
+          <div key={item.id} className="py-3 grid grid-cols-1 sm:grid-cols-3 gap-3 items-center">
+            <div>
+              <p className="font-medium text-gray-900">{item.productName}</p>
+              <p className="text-sm text-gray-500">{item.variantName}</p>
+            </div>
+            <Select
+              aria-label={`Quantity of ${item.productName} to return`}
+              value={String(quantities[item.id] ?? 0)}
+              onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: Number(e.target.value) }))}
+              options={Array.from({ length: item.returnableQuantity + 1 }, (_, quantity) => ({
+                value: String(quantity),
+                label: quantity === 0 ? "Don't return" : `Return ${quantity}`,
+              }))}
+            />
+            <Select
+              aria-label={`Reason for returning ${item.productName}`}
+              value={reasons[item.id] ?? ''}
+              disabled={(quantities[item.id] ?? 0) === 0}
+              onChange={(e) => setReasons((prev) => ({ ...prev, [item.id]: e.target.value as ReturnReason }))}
+              options={REASON_OPTIONS}
+            />
+          </div>
+        ))}
+      </div>
+      <Textarea
+        label="Anything else we should know? (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={3}
+        maxLength={1000}
+      />
+      {error && (
+        <p className="text-sm text-red-700 font-medium">{error}</p>
+      )}
+      <div className="flex gap-3">
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+          Never Mind
+        </Button>
+        <Button size="sm" onClick={handleSubmit} loading={isSubmitting}>
+          Request Return
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Cancel return button component
+ * Withdraws a return request that hasn't been reviewed yet
+ */
+export function CancelReturnButton({ returnId }: { returnId: string }) {
+  const router = useRouter();
+  const [isCancelling, setIsCancelling] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const result = await cancelReturn(returnId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to cancel return');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-700">{error}</span>}
+      <Button variant="ghost" size="sm" onClick={handleCancel} loading={isCancelling}>
+        Cancel Return
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { requireAuth } from '@/lib/session';
 import { getUserProfile } from '@/actions/user';
+import { getUserNewsletterPreferences } from '@/actions/newsletter';
 import ProfileClient from './profile-client';
 
 /**
@@ -10,8 +11,12 @@ export default async function AccountProfilePage() {
   // Require authentication
   const user = await requireAuth();
 
-  // Get user profile
-  const profileResult = await getUserProfile();
+  // Get user profile and newsletter preferences
+  const [profileResult, newsletterResult] = await Promise.all([
+    getUserProfile(),
+    getUserNewsletterPreferences(),
+  ]);
+  const newsletter = newsletterResult.data ?? { subscribed: false };
   
   if (!profileResult.success || !profileResult.data) {
     // Return a minimal profile with the session user data
@@ -27,9 +32,10 @@ export default async function AccountProfilePage() {
           emailVerified: user.emailVerified,
           createdAt: new Date(),
         }}
+        newsletter={newsletter}
       />
     );
   }
 
-  return <ProfileClient profile={profileResult.data} />;
+  return <ProfileClient profile={profileResult.data} newsletter={newsletter} />;
 }
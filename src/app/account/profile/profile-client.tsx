@@ -8,6 +8,8 @@ import { Separator } from '@/components/ui/separator';
 import { User, Mail, Lock, Camera, AlertCircle, CheckCircle } from 'lucide-react';
 import { updateProfile, changePassword, deleteAccount, uploadAvatar } from '@/actions/user';
 import { signOut } from 'next-auth/react';
+import { NewsletterPreferencesForm } from '@/components/newsletter/newsletter-preferences-form';
+import type { NewsletterStatusData } from '@/actions/newsletter';
 
 interface UserProfile {
   id: string;
@@ -22,13 +24,14 @@ interface UserProfile {
 
 interface ProfileClientProps {
   profile: UserProfile;
+  newsletter: NewsletterStatusData;
 }
 
 /**
  * Account profile page client component
  * Allows users to update their profile information and change password
  */
-export default function ProfileClient({ profile }: ProfileClientProps) {
+export default function ProfileClient({ profile, newsletter }: ProfileClientProps) {
   const router = useRouter();
   const [isSaving, setIsSaving] = React.useState(false);
   const [isChangingPassword, setIsChangingPassword] = React.useState(false);
@@ -343,6 +346,20 @@ export default function ProfileClient({ profile }: ProfileClientProps) {
         </form>
       </div>
 
+      {/* Newsletter */}
+      <div className="bg-white rounded-lg p-6">
+        <h3 className="text-sm font-semibold text-gray-900 mb-1">
+          Newsletter
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose which emails we send to {profile.email}.
+        </p>
+        <NewsletterPreferencesForm
+          status={newsletter.status ?? null}
+          topics={newsletter.topics ?? []}
+        />
+      </div>
+
       {/* Danger zone */}
       <div className="bg-white rounded-lg p-6 border border-red-200">
         <h3 className="text-sm font-semibold text-red-900 mb-2">
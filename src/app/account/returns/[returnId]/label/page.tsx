@@ -0,0 +1,132 @@
+import { notFound } from 'next/navigation';
+import { requireAuth } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { getReturnAddress } from '@/lib/returns/labels';
+import { RETURN_REASON_LABELS } from '@/lib/returns/policy';
+import { maskGiftShippingAddress, type GiftAddressFields } from '@/lib/registry/gifts';
+import PrintButton from './print-button';
+
+interface ReturnLabelPageProps {
+  params: Promise<{ returnId: string }>;
+}
+
+/**
+ * Printable return label - Server Component
+ * Shipping label and packing slip for an approved return. Visible to the
+ * customer who made the return and to staff.
+ */
+export default async function ReturnLabelPage({ params }: ReturnLabelPageProps) {
+  const { returnId } = await params;
+  const user = await requireAuth(`/account/returns/${returnId}/label`);
+
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: {
+      order: {
+        select: { orderNumber: true, shippingAddress: true, registryId: true },
+      },
+      items: {
+        include: {
+          orderItem: {
+            select: { productName: true, variantName: true, sku: true },
+          },
+        },
+      },
+    },
+  });
+
+  const isStaff = user.role === 'ADMIN' || user.role === 'STAFF';
+  if (!returnRequest || (returnRequest.userId !== user.id && !isStaff)) {
+    notFound();
+  }
+
+  if (returnRequest.status !== 'APPROVED' && returnRequest.status !== 'REFUNDED') {
+    return (
+      <div className="bg-white rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          Return {returnRequest.rmaNumber}
+        </h2>
+        <p className="text-gray-600">
+          A return label is available once your return has been approved.
+        </p>
+      </div>
+    );
+  }
+
+  // Registry gifts went to the registrant, whose address gifters don't see
+  const from = (returnRequest.order.registryId && !isStaff
+    ? maskGiftShippingAddress(returnRequest.order.shippingAddress as unknown as GiftAddressFields)
+    : returnRequest.order.shippingAddress) as Record<string, string>;
+  const to = getReturnAddress();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-gray-600">
+          Print this page, attach the label to your parcel and put the packing slip inside.
+        </p>
+        <PrintButton />
+      </div>
+
+      <div data-print-area className="bg-white rounded-lg p-6 space-y-8 text-gray-900">
+        {/* Shipping label */}
+        <div className="border-2 border-gray-900 rounded-md p-6 space-y-6">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-500">From</p>
+            <p className="font-medium">{from?.firstName} {from?.lastName}</p>
+            <p>{from?.line1}</p>
+            {from?.line2 && <p>{from.line2}</p>}
+            <p>{from?.city}, {from?.state} {from?.zip}</p>
+            <p>{from?.country}</p>
+          </div>
+
+          <div className="pl-8">
+            <p className="text-xs uppercase tracking-wide text-gray-500">Ship to</p>
+            <p className="text-xl font-bold">{to.name}</p>
+            <p className="text-lg">Attn: {returnRequest.rmaNumber}</p>
+            <p className="text-lg">{to.line1}</p>
+            {to.line2 && <p className="text-lg">{to.line2}</p>}
+            <p className="text-lg">{to.city}, {to.state} {to.zip}</p>
+            <p className="text-lg">{to.country}</p>
+          </div>
+
+          <div className="border-t-2 border-dashed border-gray-400 pt-4 text-center">
+            <p className="text-xs uppercase tracking-wide text-gray-500">Return authorization</p>
+            <p className="font-mono text-3xl font-bold tracking-widest">{returnRequest.rmaNumber}</p>
+          </div>
+        </div>
+
+        {/* Packing slip */}
+        <div>
+          <h2 className="text-lg font-semibold mb-1">Packing slip</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Order {returnRequest.order.orderNumber} · Return {returnRequest.rmaNumber}
+          </p>
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 border-b border-gray-200">
+              <tr>
+                <th className="py-2 font-medium">Item</th>
+                <th className="py-2 font-medium">SKU</th>
+                <th className="py-2 font-medium">Qty</th>
+                <th className="py-2 font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {returnRequest.items.map((item) => (
+                <tr key={item.id}>
+                  <td className="py-2">
+                    {item.orderItem.productName}
+                    <span className="text-gray-500"> · {item.orderItem.variantName}</span>
+                  </td>
+                  <td className="py-2 font-mono">{item.orderItem.sku}</td>
+                  <td className="py-2">{item.quantity}</td>
+                  <td className="py-2">{RETURN_REASON_LABELS[item.reason]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Print button component
+ * Opens the browser print dialog for the return label
+ */
+export default function PrintButton() {
+  return (
+    <Button leftIcon={<Printer className="w-4 h-4" />} onClick={() => window.print()}>
+      Print Label
+    </Button>
+  );
+}
@@ -0,0 +1,710 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { 
+  ArrowLeft,
+  Package,
+  ExternalLink,
+  MapPin,
+  Phone,
+  Mail,
+  Truck,
+  Clock,
+  CheckCircle,
+  AlertTriangle,
+  Copy,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice, formatDate } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { CopyButton } from '@/components/admin/copy-button';
+import { Button } from '@/components/ui/button';
+import { shipOrderShipment, deliverOrderShipment } from '@/actions/fulfillment';
+import type { StatusType } from '@/components/admin/status-badge';
+import type { Prisma, ShipmentStatus, TrackingStatus } from '@prisma/client';
+import type { DropshipOrderTimelineEvent } from '@/services/fulfillment/events';
+
+/**
+ * Full order type with relations, as loaded by the page
+ */
+type OrderWithRelations = Prisma.DropshipOrderGetPayload<{
+  include: {
+    order: {
+      include: {
+        items: { include: { variant: true } };
+        user: { select: { email: true; firstName: true; lastName: true } };
+      };
+    };
+    items: { include: { productSource: { include: { category: true } } } };
+  };
+}>;
+
+/**
+ * A parcel of the order
+ */
+export interface ShipmentPanelItem {
+  id: string;
+  status: ShipmentStatus;
+  /** Set for parcels sent by a supplier */
+  dropshipOrderId: string | null;
+  supplierName: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  /** Latest carrier scan, from the tracking provider */
+  trackingStatus: TrackingStatus | null;
+  latestScan: { description: string; location: string | null; occurredAt: Date } | null;
+  /** Why the parcel needs attention, if it has stalled */
+  stallReason: string | null;
+  items: Array<{
+    orderItemId: string;
+    productName: string;
+    variantName: string;
+    quantity: number;
+  }>;
+}
+
+/**
+ * Props for the OrderDetailClient component
+ */
+export interface OrderDetailClientProps {
+  dropshipOrder: OrderWithRelations;
+  /** The order's fulfillment event log, oldest first */
+  events: DropshipOrderTimelineEvent[];
+  /** Every parcel of the order, oldest first */
+  shipments: ShipmentPanelItem[];
+}
+
+/**
+ * Carrier scan status labels
+ */
+const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  INFO_RECEIVED: 'Label created',
+  IN_TRANSIT: 'In transit',
+  OUT_FOR_DELIVERY: 'Out for delivery',
+  AVAILABLE_FOR_PICKUP: 'Ready for pickup',
+  DELIVERED: 'Delivered',
+  FAILED_ATTEMPT: 'Delivery attempt failed',
+  EXCEPTION: 'Exception',
+  RETURNED: 'Returning to sender',
+};
+
+/**
+ * Shipment status badge mapping
+ */
+const SHIPMENT_STATUS_BADGES: Record<ShipmentStatus, { status: StatusType; label: string }> = {
+  PENDING: { status: 'pending', label: 'Not Shipped' },
+  SHIPPED: { status: 'shipped', label: 'Shipped' },
+  DELIVERED: { status: 'delivered', label: 'Delivered' },
+  CANCELLED: { status: 'cancelled', label: 'Cancelled' },
+};
+
+/**
+ * Timeline labels for status transitions
+ */
+const STATUS_EVENT_LABELS: Record<string, string> = {
+  PENDING: 'Moved back to Pending',
+  PLACED: 'Placed on AliExpress',
+  CONFIRMED: 'Confirmed by Supplier',
+  SHIPPED: 'Shipped',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+  REFUNDED: 'Refunded',
+  ISSUE: 'Flagged as Issue',
+};
+
+/**
+ * A row in the order timeline
+ */
+interface TimelineEntry {
+  id: string;
+  label: string;
+  date: Date;
+  actor?: string;
+  transition?: string;
+  note?: string | null;
+  details?: string[];
+  isIssue?: boolean;
+}
+
+/**
+ * Build timeline rows from the event log
+ */
+function toTimelineEntries(events: DropshipOrderTimelineEvent[]): TimelineEntry[] {
+  return events.map((event) => {
+    const payload = (event.payload ?? {}) as Record<string, string | null | undefined>;
+    const details: string[] = [];
+    if (payload.aliExpressOrderId) details.push(`AliExpress order ${payload.aliExpressOrderId}`);
+    if (payload.trackingNumber) {
+      details.push(`Tracking ${payload.trackingNumber}${payload.carrier ? ` (${payload.carrier})` : ''}`);
+    }
+    if (payload.previousTrackingNumber) details.push(`Replaces ${payload.previousTrackingNumber}`);
+
+    let label = STATUS_EVENT_LABELS[event.toStatus] ?? event.toStatus;
+    if (event.type === 'CREATED') label = 'Order Created';
+    if (event.type === 'TRACKING_UPDATED') label = 'Tracking Updated';
+    if (event.type === 'ISSUE_REPORTED') label = 'Issue Reported';
+    if (event.type === 'SOURCE_SWITCHED') label = 'Switched to Backup Source';
+
+    const actorName = event.actor
+      ? [event.actor.firstName, event.actor.lastName].filter(Boolean).join(' ') || event.actor.email
+      : 'System';
+
+    return {
+      id: event.id,
+      label,
+      date: event.createdAt,
+      actor: actorName,
+      transition: event.fromStatus && event.fromStatus !== event.toStatus
+        ? `${event.fromStatus} → ${event.toStatus}`
+        : undefined,
+      note: event.note,
+      details,
+      isIssue: event.type === 'ISSUE_REPORTED',
+    };
+  });
+}
+
+/**
+ * OrderDetailClient Component
+ * 
+ * Displays detailed information about a dropship order including:
+ * - Order summary
+ * - Customer shipping address
+ * - Items list with AliExpress links
+ * - The order's parcels, each shipped and delivered on its own
+ * - Status update buttons
+ * - Order timeline
+ * 
+ * @example
+ * ```tsx
+ * <OrderDetailClient dropshipOrder={order} />
+ * ```
+ */
+export function OrderDetailClient({ dropshipOrder, events, shipments }: OrderDetailClientProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Parse shipping address
+  const shippingAddress = dropshipOrder.shippingAddress as {
+    firstName?: string;
+    lastName?: string;
+    line1: string;
+    line2?: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+    phone?: string;
+  };
+
+  // Format full address
+  const fullAddress = [
+    shippingAddress.line1,
+    shippingAddress.line2,
+    `${shippingAddress.city}, ${shippingAddress.state} ${shippingAddress.zip}`,
+    shippingAddress.country,
+  ].filter(Boolean).join('\n');
+
+  // Map status to badge status
+  const getBadgeStatus = () => {
+    switch (dropshipOrder.status) {
+      case 'PENDING':
+        return 'pending';
+      case 'PLACED':
+      case 'CONFIRMED':
+        return 'placed';
+      case 'SHIPPED':
+        return 'shipped';
+      case 'DELIVERED':
+        return 'delivered';
+      case 'CANCELLED':
+        return 'cancelled';
+      case 'ISSUE':
+        return 'issue';
+      default:
+        return 'pending';
+    }
+  };
+
+  // Timeline events; orders created before the event log fall back to their timestamps
+  const timelineEvents: TimelineEntry[] = events.length > 0
+    ? toTimelineEntries(events)
+    : [
+        { id: 'PENDING', label: 'Order Created', date: dropshipOrder.createdAt },
+        { id: 'PLACED', label: 'Placed on AliExpress', date: dropshipOrder.placedAt },
+        { id: 'SHIPPED', label: 'Shipped', date: dropshipOrder.shippedAt },
+        { id: 'DELIVERED', label: 'Delivered', date: dropshipOrder.deliveredAt },
+      ].filter((event): event is TimelineEntry => event.date !== null);
+
+  // Handle status update
+  const handleStatusUpdate = async (newStatus: string) => {
+    setIsUpdating(true);
+    // In a real implementation, this would call a server action
+    console.log('Updating status to:', newStatus);
+    setIsUpdating(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Back button */}
+      <Link
+        href="/admin/fulfillment"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Fulfillment
+      </Link>
+
+      {/* Page header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Order {dropshipOrder.order.orderNumber}
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Dropship Order ID: {dropshipOrder.id}
+          </p>
+        </div>
+        <StatusBadge status={getBadgeStatus()} size="lg" />
+      </div>
+
+      {/* Flag */}
+      {dropshipOrder.order.flaggedAt && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700" role="alert">
+          <p className="font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Order flagged for review {formatDate(dropshipOrder.order.flaggedAt, 'relative')}
+          </p>
+          {dropshipOrder.order.flagReasons.length > 0 && (
+            <p className="mt-1">{dropshipOrder.order.flagReasons.join(' · ')}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main content */}
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Package className="w-5 h-5" />
+                Items ({dropshipOrder.items.length})
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {dropshipOrder.items.map((item) => (
+                <div key={item.id} className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">
+                        {item.productSource.productSlug}
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1">
+                        AliExpress SKU: {item.aliExpressSku}
+                      </p>
+                      <div className="flex items-center gap-4 mt-2">
+                        <span className="text-sm text-gray-600">
+                          Qty: {item.quantity}
+                        </span>
+                        <span className="text-sm text-gray-600">
+                          Unit Cost: {formatPrice(Number(item.unitCost))}
+                        </span>
+                        <span className="text-sm font-medium">
+                          Total: {formatPrice(Number(item.totalCost))}
+                        </span>
+                      </div>
+                    </div>
+                    <a
+                      href={item.productSource.aliExpressUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                    >
+                      View on AliExpress
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Shipments */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Truck className="w-5 h-5" />
+                Shipments ({shipments.length})
+              </h2>
+            </div>
+            {shipments.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">
+                This order has no shipments yet. Marking it as shipped sends everything in one package.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {shipments.map((shipment, index) => (
+                  <ShipmentRow
+                    key={shipment.id}
+                    shipment={shipment}
+                    packageNumber={index + 1}
+                    inThisDropshipOrder={shipment.dropshipOrderId === dropshipOrder.id}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Timeline */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                Order Timeline
+              </h2>
+            </div>
+            <div className="p-4">
+              <div className="relative">
+                {timelineEvents.map((event, index) => (
+                  <div key={event.id} className="flex gap-4 pb-4 last:pb-0">
+                    <div className="flex flex-col items-center">
+                      <div className={cn(
+                        'w-8 h-8 rounded-full flex items-center justify-center',
+                        event.isIssue
+                          ? 'bg-red-100 text-red-600'
+                          : index === timelineEvents.length - 1
+                            ? 'bg-green-100 text-green-600'
+                            : 'bg-gray-100 text-gray-400'
+                      )}>
+                        {event.isIssue ? (
+                          <AlertTriangle className="w-4 h-4" />
+                        ) : (
+                          <CheckCircle className="w-4 h-4" />
+                        )}
+                      </div>
+                      {index < timelineEvents.length - 1 && (
+                        <div className="w-0.5 h-full bg-gray-200 mt-2" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-baseline gap-x-2">
+                        <p className="font-medium text-gray-900">{event.label}</p>
+                        {event.transition && (
+                          <span className="text-xs font-mono text-gray-500">{event.transition}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {formatDate(event.date, 'long')}{' '}
+                        {new Date(event.date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                        {event.actor && <> &middot; {event.actor}</>}
+                      </p>
+                      {event.note && (
+                        <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{event.note}</p>
+                      )}
+                      {event.details && event.details.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">{event.details.join(' · ')}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Actions */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Actions</h3>
+            {dropshipOrder.status === 'PENDING' && (
+              <Button fullWidth>
+                Mark as Placed on AliExpress
+              </Button>
+            )}
+            {dropshipOrder.status === 'PLACED' && (
+              <Button fullWidth>
+                Mark as Shipped
+              </Button>
+            )}
+            {dropshipOrder.status === 'SHIPPED' && (
+              <Button fullWidth>
+                Mark as Delivered
+              </Button>
+            )}
+            {dropshipOrder.status !== 'ISSUE' && (
+              <Button variant="outline" fullWidth>
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                Report Issue
+              </Button>
+            )}
+          </div>
+
+          {/* Shipping Address */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+              <MapPin className="w-5 h-5" />
+              Shipping Address
+            </h3>
+            <div className="space-y-2 text-sm">
+              {shippingAddress.firstName && (
+                <p className="font-medium">
+                  {shippingAddress.firstName} {shippingAddress.lastName}
+                </p>
+              )}
+              <p className="text-gray-600 whitespace-pre-line">{fullAddress}</p>
+              {shippingAddress.phone && (
+                <p className="text-gray-600 flex items-center gap-1">
+                  <Phone className="w-3 h-3" />
+                  {shippingAddress.phone}
+                </p>
+              )}
+            </div>
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <CopyButton 
+                text={fullAddress} 
+                label="Copy address" 
+                showLabel 
+                size="sm" 
+              />
+            </div>
+          </div>
+
+          {/* Customer Info */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+              <Mail className="w-5 h-5" />
+              Customer
+            </h3>
+            <div className="space-y-2 text-sm">
+              <p className="font-medium">
+                {dropshipOrder.order.user?.firstName} {dropshipOrder.order.user?.lastName}
+              </p>
+              <p className="text-gray-600">{dropshipOrder.customerEmail}</p>
+              {dropshipOrder.customerPhone && (
+                <p className="text-gray-600">{dropshipOrder.customerPhone}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Cost Summary */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Cost Summary</h3>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Items Cost</span>
+                <span>{formatPrice(Number(dropshipOrder.totalCost))}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Shipping</span>
+                <span>{formatPrice(Number(dropshipOrder.shippingCost))}</span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-gray-100 font-medium">
+                <span>Total</span>
+                <span>
+                  {formatPrice(Number(dropshipOrder.totalCost) + Number(dropshipOrder.shippingCost))}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* AliExpress Order Info */}
+          {dropshipOrder.aliExpressOrderId && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">AliExpress Order</h3>
+              <div className="space-y-2 text-sm">
+                <div>
+                  <span className="text-gray-600">Order ID: </span>
+                  <span className="font-mono">{dropshipOrder.aliExpressOrderId}</span>
+                </div>
+                {dropshipOrder.aliExpressOrderStatus && (
+                  <div>
+                    <span className="text-gray-600">Status: </span>
+                    <span>{dropshipOrder.aliExpressOrderStatus}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Shipment Row Component
+ *
+ * One parcel with what's in it. Pending parcels take a carrier and
+ * tracking number to ship; shipped parcels can be marked delivered.
+ */
+function ShipmentRow({
+  shipment,
+  packageNumber,
+  inThisDropshipOrder,
+}: {
+  shipment: ShipmentPanelItem;
+  packageNumber: number;
+  /** Whether the parcel is part of this dropship order */
+  inThisDropshipOrder: boolean;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const badge = SHIPMENT_STATUS_BADGES[shipment.status];
+  const source = shipment.supplierName ?? (shipment.dropshipOrderId ? 'Supplier' : 'In-house');
+
+  // Run an action, then refresh the server-rendered page
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className={cn('p-4 space-y-3', !inThisDropshipOrder && 'bg-gray-50/50')}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-gray-900">
+            Package {packageNumber}
+            <span className="ml-2 text-sm font-normal text-gray-500">{source}</span>
+          </p>
+          {shipment.trackingNumber && (
+            <p className="text-sm text-gray-600 mt-1 flex items-center gap-1">
+              {shipment.carrier && <span>{shipment.carrier}</span>}
+              <span className="font-mono">{shipment.trackingNumber}</span>
+              <CopyButton text={shipment.trackingNumber} label="Copy tracking number" size="sm" />
+              {shipment.trackingUrl && (
+                <a
+                  href={shipment.trackingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </p>
+          )}
+          {shipment.shippedAt && (
+            <p className="text-xs text-gray-500 mt-1">
+              Shipped {formatDate(shipment.shippedAt, 'medium')}
+              {shipment.deliveredAt && ` · Delivered ${formatDate(shipment.deliveredAt, 'medium')}`}
+            </p>
+          )}
+          {shipment.trackingStatus && (
+            <p className="text-xs text-gray-500 mt-1">
+              Carrier: {TRACKING_STATUS_LABELS[shipment.trackingStatus]}
+              {shipment.latestScan && (
+                <>
+                  {' · '}
+                  {shipment.latestScan.description}
+                  {shipment.latestScan.location && `, ${shipment.latestScan.location}`}
+                  {' · '}
+                  {formatDate(shipment.latestScan.occurredAt, 'relative')}
+                </>
+              )}
+            </p>
+          )}
+          {shipment.stallReason && (
+            <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {shipment.stallReason}
+            </p>
+          )}
+        </div>
+        <StatusBadge status={badge.status} label={badge.label} size="sm" />
+      </div>
+
+      <ul className="text-sm text-gray-600">
+        {shipment.items.map((item) => (
+          <li key={item.orderItemId}>
+            {item.productName}
+            {item.variantName !== 'Default' && ` – ${item.variantName}`} × {item.quantity}
+          </li>
+        ))}
+      </ul>
+
+      {shipment.status === 'PENDING' && (
+        <div className="flex flex-col md:flex-row gap-2 md:items-end">
+          <div className="md:w-44">
+            <label htmlFor={`carrier-${shipment.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+              Carrier
+            </label>
+            <select
+              id={`carrier-${shipment.id}`}
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow"
+            >
+              <option value="">Detect from number</option>
+              <option value="dhl">DHL</option>
+              <option value="fedex">FedEx</option>
+              <option value="ups">UPS</option>
+              <option value="usps">USPS</option>
+              <option value="aliexpress">AliExpress Shipping</option>
+              <option value="china-post">China Post</option>
+              <option value="yunexpress">YunExpress</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor={`tracking-${shipment.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+              Tracking Number
+            </label>
+            <input
+              type="text"
+              id={`tracking-${shipment.id}`}
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Enter tracking number"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow"
+            />
+          </div>
+          <Button
+            size="sm"
+            loading={isPending}
+            disabled={!trackingNumber.trim()}
+            leftIcon={<Truck className="w-4 h-4" />}
+            onClick={() => runAction(() => shipOrderShipment(shipment.id, trackingNumber, carrier || undefined))}
+          >
+            Mark Shipped
+          </Button>
+        </div>
+      )}
+
+      {shipment.status === 'SHIPPED' && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            loading={isPending}
+            leftIcon={<CheckCircle className="w-4 h-4" />}
+            onClick={() => runAction(() => deliverOrderShipment(shipment.id))}
+          >
+            Mark Delivered
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { prisma } from '@/lib/prisma';
+import { notFound } from 'next/navigation';
+import { getDropshipOrderTimeline } from '@/services/fulfillment/events';
+import { resolveCarrier } from '@/lib/tracking/carriers';
+import { getStallReason } from '@/lib/tracking/timeline';
+import { OrderDetailClient } from './order-detail-client';
+
+/**
+ * Fulfillment Order Detail Page
+ * 
+ * Shows detailed information about a specific dropship order.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function OrderDetailPage({
+  params,
+}: {
+  params: Promise<{ orderId: string }>;
+}) {
+  const { orderId } = await params;
+
+  // Fetch the dropship order with all related data
+  const dropshipOrder = await prisma.dropshipOrder.findUnique({
+    where: { id: orderId },
+    include: {
+      order: {
+        include: {
+          items: {
+            include: {
+              variant: true,
+            },
+          },
+          user: {
+            select: {
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      },
+      items: {
+        include: {
+          productSource: {
+            include: {
+              category: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!dropshipOrder) {
+    notFound();
+  }
+
+  const [events, shipments] = await Promise.all([
+    getDropshipOrderTimeline(orderId),
+    // All of the order's parcels, including in-house and other suppliers'
+    prisma.shipment.findMany({
+      where: { orderId: dropshipOrder.orderId },
+      include: {
+        supplier: { select: { name: true } },
+        items: {
+          include: {
+            orderItem: { select: { productName: true, variantName: true } },
+          },
+        },
+        trackingEvents: {
+          select: { description: true, location: true, occurredAt: true },
+          orderBy: { occurredAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return (
+    <OrderDetailClient
+      dropshipOrder={dropshipOrder}
+      events={events}
+      shipments={shipments.map((shipment) => ({
+        id: shipment.id,
+        status: shipment.status,
+        dropshipOrderId: shipment.dropshipOrderId,
+        supplierName: shipment.supplier?.name ?? null,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        shippedAt: shipment.shippedAt,
+        deliveredAt: shipment.deliveredAt,
+        trackingStatus: shipment.trackingStatus,
+        latestScan: shipment.trackingEvents[0] ?? null,
+        stallReason: shipment.status === 'SHIPPED'
+          ? getStallReason({
+              carrier: resolveCarrier(shipment.trackingNumber, shipment.carrier),
+              trackingStatus: shipment.trackingStatus,
+              shippedAt: shipment.shippedAt,
+              lastEventAt: shipment.lastEventAt,
+            })
+          : null,
+        items: shipment.items.map((item) => ({
+          orderItemId: item.orderItemId,
+          productName: item.orderItem.productName,
+          variantName: item.orderItem.variantName,
+          quantity: item.quantity,
+        })),
+      }))}
+    />
+  );
+}
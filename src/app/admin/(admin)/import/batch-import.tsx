@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import { Upload, Download, RotateCcw, SkipForward, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { StatusBadge, type StatusType } from '@/components/admin/status-badge';
+import {
+  startBatchImport,
+  getImportBatchStatus,
+  retryImportBatchRow,
+  skipImportBatchRow,
+} from '@/actions/import';
+import type { ImportBatchDetail, ImportBatchSummary } from '@/lib/import-batch';
+import type { ImportJobStatus } from '@/services/import';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Props for the BatchImport component
+ */
+export interface BatchImportProps {
+  categories: Array<{ id: string; name: string }>;
+  recentBatches: ImportBatchSummary[];
+}
+
+/**
+ * Row status badge mapping
+ */
+const ROW_STATUS_BADGES: Record<ImportJobStatus['status'], { status: StatusType; label: string }> = {
+  pending: { status: 'pending', label: 'Queued' },
+  processing: { status: 'placed', label: 'Importing' },
+  completed: { status: 'delivered', label: 'Imported' },
+  failed: { status: 'issue', label: 'Failed' },
+  skipped: { status: 'inactive', label: 'Skipped' },
+};
+
+/**
+ * How often a running batch is refreshed
+ */
+const POLL_INTERVAL_MS = 3000;
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * BatchImport Component
+ *
+ * Bulk import from a CSV with `url`, `category`, `title`, `price` and
+ * `tags` columns, or a plain list of URLs. Shows the selected batch's
+ * progress with per-row retry and skip, and a link to the results report.
+ */
+export function BatchImport({ categories, recentBatches }: BatchImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultCategoryId, setDefaultCategoryId] = useState('');
+  const [batches, setBatches] = useState(recentBatches);
+  const [batchId, setBatchId] = useState<string | null>(recentBatches[0]?.id ?? null);
+  const [batch, setBatch] = useState<ImportBatchDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const loadBatch = useCallback(async (id: string) => {
+    const result = await getImportBatchStatus(id);
+    if (result.success && result.data) {
+      setBatch(result.data);
+      const { rows: _rows, ...summary } = result.data;
+      setBatches((current) => current.map((b) => (b.id === id ? summary : b)));
+    } else {
+      setError(result.error || 'Failed to load bulk import');
+    }
+  }, []);
+
+  // Refresh the selected batch until it finishes
+  const isRunning = batch?.status === 'processing' || (batch?.counts.pending ?? 0) > 0;
+
+  useEffect(() => {
+    if (!batchId) return;
+    loadBatch(batchId);
+  }, [batchId, loadBatch]);
+
+  useEffect(() => {
+    if (!batchId || !isRunning) return;
+    const timer = setTimeout(() => loadBatch(batchId), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batchId, batch, isRunning, loadBatch]);
+
+  const handleUpload = () => {
+    if (!file) return;
+    setError(null);
+
+    startTransition(async () => {
+      const result = await startBatchImport(await file.text(), file.name, defaultCategoryId || undefined);
+      if (result.success && result.data) {
+        setBatches((current) => [result.data!, ...current]);
+        setBatchId(result.data.id);
+        setFile(null);
+      } else {
+        setError(result.error || Object.values(result.fieldErrors ?? {})[0]?.[0] || 'Failed to start bulk import');
+      }
+    });
+  };
+
+  const handleRowAction = (jobId: string, action: 'retry' | 'skip') => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = action === 'retry' ? await retryImportBatchRow(jobId) : await skipImportBatchRow(jobId);
+      if (!result.success) {
+        setError(result.error || 'Failed to update row');
+      }
+      if (batchId) {
+        await loadBatch(batchId);
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Bulk Import</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Upload a CSV with <code>url</code>, <code>category</code> and optional <code>title</code>,{' '}
+          <code>price</code> and <code>tags</code> columns (tags separated by <code>;</code>), or a
+          list of URLs, one per line. Products that are already imported are skipped.
+        </p>
+      </div>
+
+      {/* Upload */}
+      <div className="flex flex-col md:flex-row gap-3 md:items-end">
+        <div className="flex-1">
+          <label htmlFor="batch-file" className="block text-sm font-medium text-gray-700 mb-2">
+            File
+          </label>
+          <input
+            id="batch-file"
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+          />
+        </div>
+        <div className="md:w-64">
+          <label htmlFor="batch-category" className="block text-sm font-medium text-gray-700 mb-2">
+            Default Category
+          </label>
+          <select
+            id="batch-category"
+            value={defaultCategoryId}
+            onChange={(e) => setDefaultCategoryId(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow focus:border-transparent"
+          >
+            <option value="">From the file</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={handleUpload} disabled={!file || isPending} loading={isPending && !!file}>
+          <Upload className="w-4 h-4 mr-2" />
+          Start Import
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Recent batches */}
+      {batches.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {batches.map((b) => (
+            <button
+              key={b.id}
+              type="button"
+              onClick={() => setBatchId(b.id)}
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 rounded-md border text-sm',
+                b.id === batchId
+                  ? 'bg-yellow border-yellow text-gray-900'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              {b.fileName || 'Pasted list'}
+              <span className="text-xs text-gray-500">{formatDate(b.createdAt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Selected batch */}
+      {batch && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>
+                  {batch.counts.completed} imported · {batch.counts.failed} failed · {batch.counts.skipped} skipped
+                  {batch.counts.pending + batch.counts.processing > 0 &&
+                    ` · ${batch.counts.pending + batch.counts.processing} to go`}
+                </span>
+                <span>{batch.progress}%</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow transition-all" style={{ width: `${batch.progress}%` }} />
+              </div>
+            </div>
+            <a href={`/api/admin/import/batches/${batch.id}/report`} download>
+              <Button variant="outline" size="sm" leftIcon={<Download className="w-4 h-4" />}>
+                Download Report
+              </Button>
+            </a>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Row</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">URL</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Category</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Result</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {batch.rows.map((row) => {
+                  const badge = ROW_STATUS_BADGES[row.status];
+                  const canRetry = row.retryable && (row.status === 'failed' || row.status === 'skipped');
+                  const canSkip = row.status === 'pending' || row.status === 'failed';
+
+                  return (
+                    <tr key={row.jobId}>
+                      <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-4 py-2 max-w-xs truncate" title={row.url}>
+                        {row.url}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{row.category}</td>
+                      <td className="px-4 py-2">
+                        <StatusBadge status={badge.status} label={badge.label} size="sm" />
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {row.productSlug ? (
+                          <a href={`/products/${row.productSlug}`} className="text-blue-600 hover:underline">
+                            {row.productSlug}
+                          </a>
+                        ) : (
+                          row.error || row.currentStep
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {canRetry && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isPending}
+                            onClick={() => handleRowAction(row.jobId, 'retry')}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                        {canSkip && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isPending}
+                            onClick={() => handleRowAction(row.jobId, 'skip')}
+                          >
+                            <SkipForward className="w-4 h-4 mr-1" />
+                            Skip
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
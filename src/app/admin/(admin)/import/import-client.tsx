@@ -10,6 +10,8 @@ import { ImportPreview } from '@/components/admin/import-preview';
 import type { ImportPreview as ImportPreviewType } from '@/services/import';
 import { previewImportProduct, importProduct } from '@/actions/import';
 import { useRouter } from 'next/navigation';
+import type { ImportBatchSummary } from '@/lib/import-batch';
+import { BatchImport } from './batch-import';
 
 // ============================================
 // TYPES & SCHEMAS
@@ -22,6 +24,14 @@ const importFormSchema = z.object({
 
 type ImportFormData = z.infer<typeof importFormSchema>;
 
+/**
+ * Props for the ImportClient component
+ */
+export interface ImportClientProps {
+  /** Latest bulk imports, newest first */
+  recentBatches: ImportBatchSummary[];
+}
+
 interface Category {
   id: string;
   name: string;
@@ -42,8 +52,9 @@ interface Category {
  * - Category selection
  * - Product preview before import
  * - Import progress tracking
+ * - Bulk import from a CSV or URL list
  */
-export function ImportClient() {
+export function ImportClient({ recentBatches }: ImportClientProps) {
   const router = useRouter();
   
   // State
@@ -243,6 +254,9 @@ export function ImportClient() {
           isImporting={importLoading}
         />
       )}
+
+      {/* Bulk import */}
+      <BatchImport categories={categories} recentBatches={recentBatches} />
     </div>
   );
 }
@@ -0,0 +1,15 @@
+import { listImportBatches } from '@/lib/import-batch';
+import { ImportClient } from './import-client';
+
+/**
+ * Product Import Page
+ * 
+ * Admin page for importing products from AliExpress.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function ImportPage() {
+  const recentBatches = await listImportBatches(5);
+
+  return <ImportClient recentBatches={recentBatches} />;
+}
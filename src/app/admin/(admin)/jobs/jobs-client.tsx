@@ -0,0 +1,279 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  Clock,
+  Loader,
+  CheckCircle,
+  Skull,
+  XCircle,
+  ListChecks,
+  RotateCcw,
+} from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { Button } from '@/components/ui/button';
+import { retryBackgroundJob, cancelBackgroundJob } from '@/actions/jobs';
+import type { BackgroundJobStatus } from '@prisma/client';
+import type { StatusType } from '@/components/admin/status-badge';
+
+/**
+ * Background job row data
+ */
+export interface JobListItem {
+  id: string;
+  type: string;
+  status: BackgroundJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy: string | null;
+  lastError: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Props for the JobsClient component
+ */
+export interface JobsClientProps {
+  jobs: JobListItem[];
+  counts: Array<{ type: string; status: BackgroundJobStatus; count: number }>;
+  /** Status the list is filtered to */
+  status: BackgroundJobStatus | 'all';
+  /** Job type the list is filtered to */
+  type?: string;
+}
+
+/**
+ * Tab configuration
+ */
+const tabs = [
+  { id: 'all', label: 'All', icon: ListChecks },
+  { id: 'PENDING', label: 'Pending', icon: Clock },
+  { id: 'RUNNING', label: 'Running', icon: Loader },
+  { id: 'DEAD', label: 'Dead', icon: Skull },
+  { id: 'COMPLETED', label: 'Completed', icon: CheckCircle },
+  { id: 'CANCELLED', label: 'Cancelled', icon: XCircle },
+] as const;
+
+/**
+ * Job status badge mapping
+ */
+const JOB_STATUS_BADGES: Record<BackgroundJobStatus, { status: StatusType; label: string }> = {
+  PENDING: { status: 'pending', label: 'Pending' },
+  RUNNING: { status: 'placed', label: 'Running' },
+  COMPLETED: { status: 'delivered', label: 'Completed' },
+  DEAD: { status: 'issue', label: 'Dead' },
+  CANCELLED: { status: 'cancelled', label: 'Cancelled' },
+};
+
+/**
+ * Link to the list with a status and type filter
+ */
+function jobsHref(status: string, type?: string): string {
+  const params = new URLSearchParams();
+  if (status !== 'all') params.set('status', status);
+  if (type) params.set('type', type);
+  const query = params.toString();
+  return query ? `/admin/jobs?${query}` : '/admin/jobs';
+}
+
+/**
+ * JobsClient Component
+ *
+ * The background job queue. Tabs filter by status and the per-type
+ * summary filters by type. Dead and cancelled jobs can be retried with a
+ * fresh set of attempts; pending jobs can be cancelled.
+ *
+ * @example
+ * ```tsx
+ * <JobsClient jobs={jobs} counts={counts} status="DEAD" />
+ * ```
+ */
+export function JobsClient({ jobs, counts, status, type }: JobsClientProps) {
+  const statusCounts = useMemo(() => {
+    const byStatus: Record<string, number> = { all: 0 };
+    for (const group of counts) {
+      if (type && group.type !== type) continue;
+      byStatus[group.status] = (byStatus[group.status] ?? 0) + group.count;
+      byStatus.all += group.count;
+    }
+    return byStatus;
+  }, [counts, type]);
+
+  const typeSummaries = useMemo(() => {
+    const byType = new Map<string, Partial<Record<BackgroundJobStatus, number>>>();
+    for (const group of counts) {
+      byType.set(group.type, { ...byType.get(group.type), [group.status]: group.count });
+    }
+    return [...byType.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [counts]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Background Jobs</h1>
+        <p className="text-gray-600 mt-1">
+          Imports, emails, search indexing and scheduled tasks run by the job worker
+        </p>
+      </div>
+
+      {/* Per-type summary */}
+      {typeSummaries.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {typeSummaries.map(([jobType, byStatus]) => (
+            <Link
+              key={jobType}
+              href={jobsHref(status, type === jobType ? undefined : jobType)}
+              className={cn(
+                'rounded-lg border p-3 text-sm',
+                type === jobType ? 'border-yellow bg-yellow/10' : 'border-gray-200 bg-white hover:bg-gray-50'
+              )}
+            >
+              <p className="font-mono text-xs text-gray-900 truncate">{jobType}</p>
+              <p className="mt-1 text-gray-500">
+                {byStatus.PENDING ?? 0} pending · {byStatus.RUNNING ?? 0} running
+                {(byStatus.DEAD ?? 0) > 0 && (
+                  <span className="text-red-600"> · {byStatus.DEAD} dead</span>
+                )}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Status tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {tabs.map((tab) => (
+          <Link
+            key={tab.id}
+            href={jobsHref(tab.id, type)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap',
+              status === tab.id
+                ? 'bg-yellow text-gray-900'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.label}
+            <span className="text-xs opacity-70">{statusCounts[tab.id] ?? 0}</span>
+          </Link>
+        ))}
+      </div>
+
+      {/* Job list */}
+      {jobs.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <ListChecks className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No jobs</h3>
+          <p className="text-gray-500">Background jobs matching these filters will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Attempts</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Run At</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Last Error</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {jobs.map((job) => (
+                <JobRow key={job.id} job={job} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Job Row Component
+ */
+function JobRow({ job }: { job: JobListItem }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const badge = JOB_STATUS_BADGES[job.status];
+
+  // Run an action, then refresh the server-rendered list
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <tr className="align-top">
+      <td className="px-4 py-2">
+        <p className="font-mono text-xs text-gray-900">{job.type}</p>
+        <p className="text-xs text-gray-500">Queued {formatDate(job.createdAt, 'relative')}</p>
+      </td>
+      <td className="px-4 py-2">
+        <StatusBadge status={badge.status} label={badge.label} size="sm" />
+        {job.lockedBy && <p className="mt-1 text-xs text-gray-500 truncate max-w-[12rem]">{job.lockedBy}</p>}
+      </td>
+      <td className="px-4 py-2 text-gray-600">
+        {job.attempts}/{job.maxAttempts}
+      </td>
+      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+        {job.completedAt
+          ? `Done ${formatDate(job.completedAt, 'relative')}`
+          : new Date(job.runAt).toLocaleString()}
+      </td>
+      <td className="px-4 py-2 max-w-md">
+        {job.lastError && (
+          <p className="text-xs text-red-700 break-words line-clamp-3" title={job.lastError}>
+            {job.lastError}
+          </p>
+        )}
+        {error && (
+          <p className="text-xs text-red-700" role="alert">
+            {error}
+          </p>
+        )}
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">
+        {(job.status === 'DEAD' || job.status === 'CANCELLED') && (
+          <Button
+            size="sm"
+            variant="outline"
+            loading={isPending}
+            leftIcon={<RotateCcw className="w-4 h-4" />}
+            onClick={() => runAction(() => retryBackgroundJob(job.id))}
+          >
+            Retry
+          </Button>
+        )}
+        {job.status === 'PENDING' && (
+          <Button
+            size="sm"
+            variant="ghost"
+            loading={isPending}
+            leftIcon={<XCircle className="w-4 h-4" />}
+            onClick={() => runAction(() => cancelBackgroundJob(job.id))}
+          >
+            Cancel
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+}
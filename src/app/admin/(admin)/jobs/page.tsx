@@ -0,0 +1,46 @@
+import type { BackgroundJobStatus } from '@prisma/client';
+import { getJobCounts, listJobs } from '@/lib/jobs';
+import { JobsClient } from './jobs-client';
+
+/**
+ * Background Jobs Page
+ *
+ * The background job queue: counts per type and status, and the most
+ * recent jobs with their last error. Dead jobs can be retried and pending
+ * ones cancelled.
+ */
+export const dynamic = 'force-dynamic';
+
+const STATUSES: BackgroundJobStatus[] = ['PENDING', 'RUNNING', 'COMPLETED', 'DEAD', 'CANCELLED'];
+
+export default async function JobsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; type?: string }>;
+}) {
+  const params = await searchParams;
+  const status = STATUSES.find((s) => s === params.status);
+  const type = params.type || undefined;
+
+  const [jobs, counts] = await Promise.all([listJobs({ status, type }), getJobCounts()]);
+
+  return (
+    <JobsClient
+      status={status ?? 'all'}
+      type={type}
+      counts={counts}
+      jobs={jobs.map((job) => ({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAt: job.runAt,
+        lockedBy: job.lockedBy,
+        lastError: job.lastError,
+        completedAt: job.completedAt,
+        createdAt: job.createdAt,
+      }))}
+    />
+  );
+}
@@ -0,0 +1,19 @@
+import { ReactNode } from 'react';
+import { requireAdmin } from '@/lib/session';
+import { AdminShell } from '@/components/admin/admin-shell';
+
+/**
+ * Admin layout component
+ *
+ * Everything under /admin except the sections staff work in
+ */
+export default async function AdminLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  // Require admin role
+  const user = await requireAdmin('/admin');
+
+  return <AdminShell user={user}>{children}</AdminShell>;
+}
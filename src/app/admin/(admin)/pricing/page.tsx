@@ -0,0 +1,44 @@
+import { prisma } from '@/lib/prisma';
+import type { VariantPriceDiff } from '@/lib/price-monitor';
+import { PricingClient } from './pricing-client';
+
+/**
+ * Price Monitor Page
+ *
+ * Supplier cost changes found by the price monitor: large changes waiting
+ * for review, plus recent automatic repricings, with a per-variant diff.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function PricingPage() {
+  const changes = await prisma.supplierPriceChange.findMany({
+    include: {
+      productSource: {
+        select: { productSlug: true, aliExpressUrl: true },
+      },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+    take: 500,
+  });
+
+  return (
+    <PricingClient
+      changes={changes.map((change) => ({
+        id: change.id,
+        status: change.status,
+        productSlug: change.productSource.productSlug,
+        aliExpressUrl: change.productSource.aliExpressUrl,
+        oldCost: Number(change.oldCost),
+        newCost: Number(change.newCost),
+        changePercent: change.changePercent,
+        oldPrice: Number(change.oldPrice),
+        newPrice: Number(change.newPrice),
+        variantPrices: change.variantPrices as unknown as VariantPriceDiff[],
+        reviewedAt: change.reviewedAt,
+        createdAt: change.createdAt,
+      }))}
+    />
+  );
+}
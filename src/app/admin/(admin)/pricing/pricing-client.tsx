@@ -0,0 +1,304 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Inbox,
+  TrendingUp,
+  TrendingDown,
+  CheckCircle,
+  XCircle,
+  Zap,
+  ExternalLink,
+  Search,
+} from 'lucide-react';
+import { cn, formatDate, formatPrice } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { approveSupplierPriceChange, rejectSupplierPriceChange } from '@/actions/pricing';
+import type { PriceChangeStatus } from '@prisma/client';
+import type { StatusType } from '@/components/admin/status-badge';
+import type { VariantPriceDiff } from '@/lib/price-monitor/changes';
+
+/**
+ * Supplier price change row data
+ */
+export interface PriceChangeListItem {
+  id: string;
+  status: PriceChangeStatus;
+  productSlug: string;
+  aliExpressUrl: string;
+  oldCost: number;
+  newCost: number;
+  changePercent: number;
+  oldPrice: number;
+  newPrice: number;
+  variantPrices: VariantPriceDiff[];
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Props for the PricingClient component
+ */
+export interface PricingClientProps {
+  changes: PriceChangeListItem[];
+}
+
+/**
+ * Tab configuration
+ */
+const tabs = [
+  { id: 'PENDING_REVIEW', label: 'Awaiting Review', icon: Inbox },
+  { id: 'APPLIED', label: 'Auto-repriced', icon: Zap },
+  { id: 'APPROVED', label: 'Approved', icon: CheckCircle },
+  { id: 'REJECTED', label: 'Rejected', icon: XCircle },
+  { id: 'all', label: 'All', icon: TrendingUp },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
+
+/**
+ * Price change status badge mapping
+ */
+const PRICE_CHANGE_STATUS_BADGES: Record<PriceChangeStatus, { status: StatusType; label: string }> = {
+  PENDING_REVIEW: { status: 'pending', label: 'Awaiting Review' },
+  APPLIED: { status: 'active', label: 'Auto-repriced' },
+  APPROVED: { status: 'delivered', label: 'Approved' },
+  REJECTED: { status: 'cancelled', label: 'Rejected' },
+};
+
+/**
+ * PricingClient Component
+ *
+ * Supplier cost changes found by the price monitor, with old and new
+ * retail prices side by side. Changes awaiting review can be approved
+ * (repricing the product) or rejected (keeping today's prices).
+ *
+ * @example
+ * ```tsx
+ * <PricingClient changes={changes} />
+ * ```
+ */
+export function PricingClient({ changes }: PricingClientProps) {
+  const [activeTab, setActiveTab] = useState<TabId>('PENDING_REVIEW');
+  const [search, setSearch] = useState('');
+
+  const counts = useMemo(() => {
+    const byStatus: Record<TabId, number> = {
+      PENDING_REVIEW: 0,
+      APPLIED: 0,
+      APPROVED: 0,
+      REJECTED: 0,
+      all: changes.length,
+    };
+    for (const change of changes) {
+      byStatus[change.status]++;
+    }
+    return byStatus;
+  }, [changes]);
+
+  const filteredChanges = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return changes
+      .filter(change => activeTab === 'all' || change.status === activeTab)
+      .filter(change => !query || change.productSlug.toLowerCase().includes(query));
+  }, [changes, activeTab, search]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Price Monitor</h1>
+        <p className="text-gray-600 mt-1">
+          Supplier cost changes and the retail prices that follow from them
+        </p>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap',
+              activeTab === tab.id
+                ? 'bg-yellow text-gray-900'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.label}
+            <span className="text-xs opacity-70">{counts[tab.id]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="max-w-md">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search products..."
+          leftIcon={<Search className="w-4 h-4" />}
+          aria-label="Search price changes"
+        />
+      </div>
+
+      {/* Change list */}
+      {filteredChanges.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <TrendingUp className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No price changes</h3>
+          <p className="text-gray-500">
+            Supplier cost changes matching these filters will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredChanges.map((change) => (
+            <PriceChangeCard key={change.id} change={change} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Old → new price pair
+ */
+function PriceDiff({ oldPrice, newPrice }: { oldPrice: number; newPrice: number }) {
+  const delta = newPrice - oldPrice;
+
+  return (
+    <span className="whitespace-nowrap">
+      <span className="text-gray-500 line-through">{formatPrice(oldPrice)}</span>
+      {' → '}
+      <span className="font-medium text-gray-900">{formatPrice(newPrice)}</span>
+      {Math.abs(delta) >= 0.005 && (
+        <span className={cn('ml-2 text-xs', delta > 0 ? 'text-red-600' : 'text-green-600')}>
+          {delta > 0 ? '+' : '−'}{formatPrice(Math.abs(delta))}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Price Change Card Component
+ */
+function PriceChangeCard({ change }: { change: PriceChangeListItem }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const badge = PRICE_CHANGE_STATUS_BADGES[change.status];
+  const TrendIcon = change.changePercent >= 0 ? TrendingUp : TrendingDown;
+
+  // Run an action, then refresh the server-rendered list
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="flex flex-wrap items-start justify-between gap-4 px-4 py-3 border-b border-gray-100">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <StatusBadge status={badge.status} label={badge.label} size="sm" />
+            <span
+              className={cn(
+                'inline-flex items-center gap-1 text-xs font-medium',
+                change.changePercent >= 0 ? 'text-red-600' : 'text-green-600'
+              )}
+            >
+              <TrendIcon className="w-3 h-3" />
+              {change.changePercent > 0 ? '+' : ''}{change.changePercent}% cost
+            </span>
+          </div>
+          <p className="font-medium text-gray-900 truncate">{change.productSlug}</p>
+          <p className="text-xs text-gray-500">
+            Found {formatDate(change.createdAt, 'relative')}
+            {change.reviewedAt && ` · reviewed ${formatDate(change.reviewedAt, 'relative')}`}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <a
+            href={change.aliExpressUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Supplier page
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          {change.status === 'PENDING_REVIEW' && (
+            <>
+              <Button
+                size="sm"
+                loading={isPending}
+                leftIcon={<CheckCircle className="w-4 h-4" />}
+                onClick={() => runAction(() => approveSupplierPriceChange(change.id))}
+              >
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                loading={isPending}
+                leftIcon={<XCircle className="w-4 h-4" />}
+                onClick={() => runAction(() => rejectSupplierPriceChange(change.id))}
+              >
+                Keep Prices
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 rounded-md px-4 py-3 text-sm bg-red-50 text-red-700" role="alert">
+          {error}
+        </div>
+      )}
+
+      {/* Diff */}
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 w-1/3">Supplier cost</th>
+            <td className="px-4 py-2">
+              <PriceDiff oldPrice={change.oldCost} newPrice={change.newCost} />
+            </td>
+          </tr>
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-600">Base price</th>
+            <td className="px-4 py-2">
+              <PriceDiff oldPrice={change.oldPrice} newPrice={change.newPrice} />
+            </td>
+          </tr>
+          {change.variantPrices.map((variant) => (
+            <tr key={variant.variantId}>
+              <th className="px-4 py-2 text-left font-mono text-xs font-normal text-gray-500">
+                {variant.sku}
+              </th>
+              <td className="px-4 py-2">
+                <PriceDiff oldPrice={variant.oldPrice} newPrice={variant.newPrice} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { prisma } from '@/lib/prisma';
+import { getSupplierScorecardHistory } from '@/lib/supplier-scorecard';
+import { SupplierDetails } from './supplier-details';
+
+/**
+ * Supplier Management Page
+ * 
+ * Admin page for viewing and managing AliExpress suppliers, with each
+ * supplier's scorecard and its trend.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function SuppliersPage() {
+  // Fetch all suppliers with product count
+  const [suppliers, history] = await Promise.all([
+    prisma.supplier.findMany({
+      include: {
+        _count: {
+          select: {
+            products: true,
+            dropshipOrders: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    }),
+    getSupplierScorecardHistory(),
+  ]);
+
+  return (
+    <SupplierDetails
+      suppliers={suppliers.map((supplier) => {
+        const scorecards = history.get(supplier.id) ?? [];
+        const latest = scorecards[scorecards.length - 1];
+
+        return {
+          ...supplier,
+          score: latest?.score ?? null,
+          scorecard: latest
+            ? {
+                date: latest.date,
+                orderCount: latest.orderCount,
+                shippedCount: latest.shippedCount,
+                deliveredCount: latest.deliveredCount,
+                avgHoursToShip: latest.avgHoursToShip,
+                onTimeRate: latest.onTimeRate,
+                issueRate: latest.issueRate,
+                cancellationRate: latest.cancellationRate,
+                refundRate: latest.refundRate,
+                costDriftPercent: latest.costDriftPercent,
+                refundCount: latest.refundCount,
+                refundAmount: Number(latest.refundAmount),
+              }
+            : null,
+          scoreHistory: scorecards
+            .filter((scorecard) => scorecard.score !== null)
+            .map((scorecard) => ({ date: scorecard.date, score: scorecard.score! })),
+        };
+      })}
+    />
+  );
+}
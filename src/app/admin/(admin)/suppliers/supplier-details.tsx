@@ -1,23 +1,84 @@
 'use client';
 
-import { useState } from 'react';
-import { ExternalLink, Star, Package, ShoppingBag, MoreVertical } from 'lucide-react';
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  ExternalLink,
+  Star,
+  Package,
+  ShoppingBag,
+  MoreVertical,
+  AlertTriangle,
+  TrendingUp,
+  TrendingDown,
+} from 'lucide-react';
 import { DataTable, type ColumnDef } from '@/components/admin/data-table';
 import { StatusBadge } from '@/components/admin/status-badge';
 import { Button } from '@/components/ui/button';
-import { formatDate } from '@/lib/utils';
-import type { Supplier } from '@prisma/client';
+import { cn, formatDate, formatPrice } from '@/lib/utils';
+import { updateSupplierStatus } from '@/actions/suppliers';
+import { FLAG_SCORE_THRESHOLD, MIN_SCORED_ORDERS, SCORECARD_WINDOW_DAYS } from '@/lib/supplier-scorecard/metrics';
+import type { Supplier, SupplierStatus } from '@prisma/client';
 
 /**
- * Supplier with counts
+ * A supplier's latest scorecard
+ */
+export interface SupplierScorecardSummary {
+  date: Date;
+  orderCount: number;
+  shippedCount: number;
+  deliveredCount: number;
+  avgHoursToShip: number | null;
+  onTimeRate: number | null;
+  issueRate: number | null;
+  cancellationRate: number | null;
+  refundRate: number | null;
+  costDriftPercent: number | null;
+  refundCount: number;
+  refundAmount: number;
+}
+
+/**
+ * Supplier with counts and scorecard
  */
 interface SupplierWithCounts extends Supplier {
   _count: {
     products: number;
     dropshipOrders: number;
   };
+  /** Latest score, 0-100; null with too few orders */
+  score: number | null;
+  scorecard: SupplierScorecardSummary | null;
+  /** Scores over the scorecard window, oldest first */
+  scoreHistory: Array<{ date: Date; score: number }>;
 }
 
+/**
+ * How far back the trend compares the latest score
+ */
+const TREND_DAYS = 30;
+
+/**
+ * Change in score over the last `TREND_DAYS`
+ */
+function getScoreTrend(history: SupplierWithCounts['scoreHistory']): number | null {
+  if (history.length < 2) return null;
+
+  const latest = history[history.length - 1];
+  const cutoff = new Date(latest.date).getTime() - TREND_DAYS * 24 * 60 * 60 * 1000;
+  const earlier = [...history].reverse().find((point) => new Date(point.date).getTime() <= cutoff) ?? history[0];
+
+  return Math.round((latest.score - earlier.score) * 10) / 10;
+}
+
+function scoreColor(score: number): string {
+  if (score < FLAG_SCORE_THRESHOLD) return 'text-red-600';
+  if (score < 80) return 'text-amber-600';
+  return 'text-green-600';
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`);
+
 /**
  * Props for the SupplierDetails component
  */
@@ -28,7 +89,8 @@ export interface SupplierDetailsProps {
 /**
  * SupplierDetails Component
  * 
- * Displays a table of all suppliers with filtering and actions.
+ * Displays a table of all suppliers with their scorecards, filtering and
+ * actions. Suppliers flagged by the scorecard job can be filtered on.
  * 
  * @example
  * ```tsx
@@ -42,7 +104,9 @@ export function SupplierDetails({ suppliers }: SupplierDetailsProps) {
   // Filter suppliers by status
   const filteredSuppliers = statusFilter === 'all'
     ? suppliers
-    : suppliers.filter(s => s.status === statusFilter);
+    : statusFilter === 'FLAGGED'
+      ? suppliers.filter(s => s.flaggedAt)
+      : suppliers.filter(s => s.status === statusFilter);
 
   // Column definitions
   const columns: ColumnDef<SupplierWithCounts>[] = [
@@ -78,6 +142,44 @@ export function SupplierDetails({ suppliers }: SupplierDetailsProps) {
         )
       ),
     },
+    {
+      id: 'score',
+      header: 'Score',
+      sortable: true,
+      align: 'center',
+      cell: (supplier) => {
+        if (supplier.score === null) {
+          return (
+            <span className="text-gray-400" title={`Scored from ${MIN_SCORED_ORDERS} orders`}>
+              N/A
+            </span>
+          );
+        }
+
+        const trend = getScoreTrend(supplier.scoreHistory);
+        return (
+          <div className="flex items-center gap-2">
+            {supplier.flaggedAt && (
+              <AlertTriangle className="w-4 h-4 text-red-500" aria-label="Flagged for suspension" />
+            )}
+            <span className={cn('font-medium', scoreColor(supplier.score))}>
+              {Math.round(supplier.score)}
+            </span>
+            {trend !== null && trend !== 0 && (
+              <span
+                className={cn(
+                  'inline-flex items-center gap-0.5 text-xs',
+                  trend > 0 ? 'text-green-600' : 'text-red-600'
+                )}
+              >
+                {trend > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                {Math.abs(trend)}
+              </span>
+            )}
+          </div>
+        );
+      },
+    },
     {
       id: 'products',
       header: 'Products',
@@ -180,12 +282,13 @@ export function SupplierDetails({ suppliers }: SupplierDetailsProps) {
             <option value="ACTIVE">Active</option>
             <option value="INACTIVE">Inactive</option>
             <option value="SUSPENDED">Suspended</option>
+            <option value="FLAGGED">Flagged</option>
           </select>
         </div>
       </div>
 
       {/* Stats cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg border border-gray-200 p-4">
           <p className="text-sm text-gray-500">Total Suppliers</p>
           <p className="text-2xl font-bold text-gray-900">{suppliers.length}</p>
@@ -202,6 +305,12 @@ export function SupplierDetails({ suppliers }: SupplierDetailsProps) {
             {suppliers.reduce((sum, s) => sum + s._count.products, 0)}
           </p>
         </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <p className="text-sm text-gray-500">Flagged for Suspension</p>
+          <p className="text-2xl font-bold text-red-600">
+            {suppliers.filter(s => s.flaggedAt).length}
+          </p>
+        </div>
       </div>
 
       {/* Suppliers table */}
@@ -229,7 +338,88 @@ export function SupplierDetails({ suppliers }: SupplierDetailsProps) {
 }
 
 /**
- * Supplier Detail Drawer (simplified for now)
+ * Score trend line
+ */
+function ScoreSparkline({ history }: { history: SupplierWithCounts['scoreHistory'] }) {
+  if (history.length < 2) return null;
+
+  const width = 200;
+  const height = 40;
+  const points = history
+    .map((point, i) => {
+      const x = (i / (history.length - 1)) * width;
+      const y = height - (point.score / 100) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const thresholdY = height - (FLAG_SCORE_THRESHOLD / 100) * height;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-10" preserveAspectRatio="none" aria-hidden>
+      <line x1={0} x2={width} y1={thresholdY} y2={thresholdY} className="stroke-red-200" strokeDasharray="4 4" />
+      <polyline points={points} fill="none" className="stroke-gray-700" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+/**
+ * Supplier scorecard metrics
+ */
+function ScorecardDetails({ supplier }: { supplier: SupplierWithCounts }) {
+  const { scorecard } = supplier;
+  if (!scorecard) {
+    return <p className="text-sm text-gray-500">No scorecard yet.</p>;
+  }
+
+  const metrics = [
+    {
+      label: 'Time to ship',
+      value: scorecard.avgHoursToShip === null ? '—' : `${Math.round((scorecard.avgHoursToShip / 24) * 10) / 10} days`,
+    },
+    { label: 'On-time delivery', value: formatRate(scorecard.onTimeRate) },
+    { label: 'Issue rate', value: formatRate(scorecard.issueRate) },
+    { label: 'Cancellation rate', value: formatRate(scorecard.cancellationRate) },
+    {
+      label: 'Cost drift',
+      value:
+        scorecard.costDriftPercent === null
+          ? '—'
+          : `${scorecard.costDriftPercent > 0 ? '+' : ''}${scorecard.costDriftPercent}%`,
+    },
+    {
+      label: 'Refunds',
+      value: `${scorecard.refundCount} (${formatPrice(scorecard.refundAmount)})`,
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between">
+        <p className="text-sm text-gray-500">
+          Last {SCORECARD_WINDOW_DAYS} days · {scorecard.orderCount} orders
+        </p>
+        {supplier.score !== null && (
+          <p className={cn('text-2xl font-bold', scoreColor(supplier.score))}>
+            {Math.round(supplier.score)}
+            <span className="text-sm font-normal text-gray-400">/100</span>
+          </p>
+        )}
+      </div>
+      <ScoreSparkline history={supplier.scoreHistory} />
+      <dl className="grid grid-cols-2 gap-3">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="p-3 bg-gray-50 rounded-lg">
+            <dt className="text-xs text-gray-500">{metric.label}</dt>
+            <dd className="font-medium text-gray-900">{metric.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * Supplier Detail Drawer
  */
 function SupplierDetailDrawer({ 
   supplier, 
@@ -238,6 +428,23 @@ function SupplierDetailDrawer({
   supplier: SupplierWithCounts; 
   onClose: () => void;
 }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const changeStatus = (status: SupplierStatus) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await updateSupplierStatus(supplier.id, status);
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+        return;
+      }
+      router.refresh();
+      onClose();
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
       <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-auto">
@@ -260,6 +467,19 @@ function SupplierDetailDrawer({
         </div>
 
         <div className="p-6 space-y-4">
+          {/* Flag */}
+          {supplier.flaggedAt && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+              <p className="font-medium flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Flagged for suspension {formatDate(supplier.flaggedAt, 'relative')}
+              </p>
+              {supplier.flagReasons.length > 0 && (
+                <p className="mt-1">{supplier.flagReasons.join(' · ')}</p>
+              )}
+            </div>
+          )}
+
           {/* Status */}
           <div>
             <p className="text-sm text-gray-500">Status</p>
@@ -291,6 +511,12 @@ function SupplierDetailDrawer({
             </div>
           </div>
 
+          {/* Scorecard */}
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">Scorecard</p>
+            <ScorecardDetails supplier={supplier} />
+          </div>
+
           {/* Store URL */}
           {supplier.storeUrl && (
             <div>
@@ -316,17 +542,23 @@ function SupplierDetailDrawer({
           </div>
         </div>
 
+        {error && (
+          <div className="mx-6 mb-4 rounded-md px-4 py-3 text-sm bg-red-50 text-red-700" role="alert">
+            {error}
+          </div>
+        )}
+
         <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
           <Button variant="outline" onClick={onClose}>
             Close
           </Button>
           {supplier.status === 'ACTIVE' && (
-            <Button variant="secondary">
+            <Button variant="secondary" loading={isPending} onClick={() => changeStatus('SUSPENDED')}>
               Suspend
             </Button>
           )}
           {supplier.status === 'SUSPENDED' && (
-            <Button>
+            <Button loading={isPending} onClick={() => changeStatus('ACTIVE')}>
               Reactivate
             </Button>
           )}
@@ -0,0 +1,19 @@
+import { ReactNode } from 'react';
+import { requireStaff } from '@/lib/session';
+import { AdminShell } from '@/components/admin/admin-shell';
+
+/**
+ * Staff layout component
+ *
+ * The support inbox and returns queue, open to staff as well as admins
+ */
+export default async function StaffLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  // Require staff or admin role
+  const user = await requireStaff('/admin');
+
+  return <AdminShell user={user}>{children}</AdminShell>;
+}
@@ -0,0 +1,129 @@
+import { prisma } from '@/lib/prisma';
+import { notFound } from 'next/navigation';
+import { calculateReturnRefund } from '@/lib/returns';
+import { ReturnDetailClient } from './return-detail-client';
+
+/**
+ * Return Detail Page
+ *
+ * Shows a return request's items with approve/reject controls, the refund
+ * and any supplier claims for dropshipped items.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function ReturnDetailPage({
+  params,
+}: {
+  params: Promise<{ returnId: string }>;
+}) {
+  const { returnId } = await params;
+
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: {
+      items: {
+        include: { orderItem: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      claims: {
+        include: {
+          dropshipOrder: {
+            select: {
+              aliExpressOrderId: true,
+              supplier: { select: { name: true } },
+            },
+          },
+          items: { select: { id: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      order: {
+        include: { payment: true },
+      },
+      user: {
+        select: { firstName: true, lastName: true, email: true },
+      },
+      reviewedBy: {
+        select: { firstName: true, lastName: true, email: true },
+      },
+    },
+  });
+
+  if (!returnRequest) {
+    notFound();
+  }
+
+  const { order } = returnRequest;
+  const refundedSoFar = Number(order.payment?.refundedAmount ?? 0);
+  const suggestedRefund = calculateReturnRefund(
+    {
+      subtotal: Number(order.subtotal),
+      discountAmount: Number(order.discountAmount),
+      shippingAmount: Number(order.shippingAmount),
+      taxAmount: Number(order.taxAmount),
+      total: Number(order.total),
+    },
+    returnRequest.items.map((item) => ({
+      unitPrice: Number(item.orderItem.unitPrice),
+      quantity: item.quantity,
+      reason: item.reason,
+    })),
+    refundedSoFar
+  );
+
+  return (
+    <ReturnDetailClient
+      returnRequest={{
+        id: returnRequest.id,
+        rmaNumber: returnRequest.rmaNumber,
+        status: returnRequest.status,
+        customerNotes: returnRequest.customerNotes,
+        supportTicketId: returnRequest.supportTicketId,
+        rejectionReason: returnRequest.rejectionReason,
+        refundAmount: returnRequest.refundAmount === null ? null : Number(returnRequest.refundAmount),
+        stripeRefundId: returnRequest.stripeRefundId,
+        refundError: returnRequest.refundError,
+        refundedAt: returnRequest.refundedAt,
+        receivedAt: returnRequest.receivedAt,
+        restockedAt: returnRequest.restockedAt,
+        reviewedAt: returnRequest.reviewedAt,
+        reviewedBy: returnRequest.reviewedBy,
+        createdAt: returnRequest.createdAt,
+        customer: returnRequest.user,
+        order: {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          total: Number(order.total),
+          refundedAmount: refundedSoFar,
+          deliveredAt: order.deliveredAt,
+        },
+        items: returnRequest.items.map((item) => ({
+          id: item.id,
+          productName: item.orderItem.productName,
+          variantName: item.orderItem.variantName,
+          sku: item.orderItem.sku,
+          orderedQuantity: item.orderItem.quantity,
+          quantity: item.quantity,
+          unitPrice: Number(item.orderItem.unitPrice),
+          reason: item.reason,
+          note: item.note,
+          isDropship: Boolean(item.dropshipOrderItemId),
+          restocked: item.restocked,
+          refundAmount: item.refundAmount === null ? null : Number(item.refundAmount),
+        })),
+        claims: returnRequest.claims.map((claim) => ({
+          id: claim.id,
+          status: claim.status,
+          amount: Number(claim.amount),
+          recoveredAmount: claim.recoveredAmount === null ? null : Number(claim.recoveredAmount),
+          supplierReference: claim.supplierReference,
+          notes: claim.notes,
+          supplierName: claim.dropshipOrder.supplier?.name ?? null,
+          aliExpressOrderId: claim.dropshipOrder.aliExpressOrderId,
+          itemCount: claim.items.length,
+        })),
+      }}
+      suggestedRefund={suggestedRefund}
+    />
+  );
+}
@@ -0,0 +1,536 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft,
+  Mail,
+  ShoppingBag,
+  Printer,
+  MessageSquare,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  Truck,
+  PackageCheck,
+} from 'lucide-react';
+import { cn, formatDate, formatPrice } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { approveReturn, receiveReturn, rejectReturn, retryReturnRefund, updateReturnClaim } from '@/actions/returns';
+import { RETURN_REASON_LABELS, type ReturnRefundBreakdown } from '@/lib/returns/policy';
+import { getReturnLabelPath } from '@/lib/returns/labels';
+import { RETURN_STATUS_BADGES } from '../returns-client';
+import type { DropshipClaimStatus, ReturnReason, ReturnStatus } from '@prisma/client';
+
+/**
+ * Person shown as customer or reviewer
+ */
+interface Person {
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+/**
+ * Supplier claim for dropshipped items
+ */
+interface ReturnClaim {
+  id: string;
+  status: DropshipClaimStatus;
+  amount: number;
+  recoveredAmount: number | null;
+  supplierReference: string | null;
+  notes: string | null;
+  supplierName: string | null;
+  aliExpressOrderId: string | null;
+  itemCount: number;
+}
+
+/**
+ * Return request with items, claims and order summary
+ */
+interface ReturnDetail {
+  id: string;
+  rmaNumber: string;
+  status: ReturnStatus;
+  customerNotes: string | null;
+  supportTicketId: string | null;
+  rejectionReason: string | null;
+  refundAmount: number | null;
+  stripeRefundId: string | null;
+  refundError: string | null;
+  refundedAt: Date | null;
+  receivedAt: Date | null;
+  restockedAt: Date | null;
+  reviewedAt: Date | null;
+  reviewedBy: Person | null;
+  createdAt: Date;
+  customer: Person;
+  order: {
+    id: string;
+    orderNumber: string;
+    total: number;
+    refundedAmount: number;
+    deliveredAt: Date | null;
+  };
+  items: Array<{
+    id: string;
+    productName: string;
+    variantName: string;
+    sku: string;
+    orderedQuantity: number;
+    quantity: number;
+    unitPrice: number;
+    reason: ReturnReason;
+    note: string | null;
+    isDropship: boolean;
+    restocked: boolean;
+    refundAmount: number | null;
+  }>;
+  claims: ReturnClaim[];
+}
+
+/**
+ * Props for the ReturnDetailClient component
+ */
+export interface ReturnDetailClientProps {
+  returnRequest: ReturnDetail;
+  suggestedRefund: ReturnRefundBreakdown;
+}
+
+const CLAIM_STATUS_OPTIONS: Array<{ value: DropshipClaimStatus; label: string }> = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'SUBMITTED', label: 'Submitted to supplier' },
+  { value: 'ACCEPTED', label: 'Accepted' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'RESOLVED', label: 'Resolved' },
+];
+
+function formatPerson(person: Person): string {
+  return [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email;
+}
+
+/**
+ * ReturnDetailClient Component
+ *
+ * Displays a return request including:
+ * - Returned items with reason codes and restock/claim disposition
+ * - Approve (with refund override) and reject controls
+ * - Refund status with retry after a failed Stripe refund
+ * - Marking the parcel received, which restocks our own items
+ * - Supplier claims for dropshipped items
+ *
+ * @example
+ * ```tsx
+ * <ReturnDetailClient returnRequest={returnRequest} suggestedRefund={breakdown} />
+ * ```
+ */
+export function ReturnDetailClient({ returnRequest, suggestedRefund }: ReturnDetailClientProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [refundAmount, setRefundAmount] = useState(suggestedRefund.total.toFixed(2));
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const badge = RETURN_STATUS_BADGES[returnRequest.status];
+  const maxRefund = Math.max(0, returnRequest.order.total - returnRequest.order.refundedAmount);
+
+  // Run an action, then refresh the server-rendered return
+  const runAction = (
+    action: () => Promise<{ success: boolean; error?: string; fieldErrors?: Record<string, string[]> }>
+  ) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        const fieldError = result.fieldErrors && Object.values(result.fieldErrors)[0]?.[0];
+        setError(result.error || fieldError || 'Something went wrong');
+      }
+      router.refresh();
+    });
+  };
+
+  const handleApprove = () => {
+    const amount = Number(refundAmount);
+    if (!Number.isFinite(amount) || amount < 0 || amount > maxRefund) {
+      setError(`Refund must be between ${formatPrice(0)} and ${formatPrice(maxRefund)}`);
+      return;
+    }
+    runAction(() => approveReturn({ returnId: returnRequest.id, refundAmount: amount }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Back button */}
+      <Link
+        href="/admin/returns"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Returns
+      </Link>
+
+      {/* Page header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="font-mono text-sm text-gray-500">{returnRequest.rmaNumber}</p>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Return for {returnRequest.order.orderNumber}
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Requested {formatDate(returnRequest.createdAt, 'relative')} by {formatPerson(returnRequest.customer)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(returnRequest.status === 'APPROVED' || returnRequest.status === 'REFUNDED') && (
+            <Link href={getReturnLabelPath(returnRequest.id)} target="_blank">
+              <Button variant="outline" size="sm" leftIcon={<Printer className="w-4 h-4" />}>
+                Return Label
+              </Button>
+            </Link>
+          )}
+          {(returnRequest.status === 'APPROVED' || returnRequest.status === 'REFUNDED') &&
+            !returnRequest.receivedAt && (
+              <Button
+                size="sm"
+                loading={isPending}
+                leftIcon={<PackageCheck className="w-4 h-4" />}
+                onClick={() => runAction(() => receiveReturn(returnRequest.id))}
+              >
+                Mark Received
+              </Button>
+            )}
+          <StatusBadge status={badge.status} label={badge.label} size="lg" />
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md px-4 py-3 text-sm bg-red-50 text-red-700" role="alert">
+          {error}
+        </div>
+      )}
+
+      {returnRequest.status === 'APPROVED' && returnRequest.refundError && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md px-4 py-3 text-sm bg-red-50 text-red-700">
+          <span>{returnRequest.refundError}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            loading={isPending}
+            leftIcon={<RefreshCw className="w-4 h-4" />}
+            onClick={() => runAction(() => retryReturnRefund(returnRequest.id))}
+          >
+            Retry Refund
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-500">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Item</th>
+                  <th className="px-4 py-2 font-medium">Qty</th>
+                  <th className="px-4 py-2 font-medium">Reason</th>
+                  <th className="px-4 py-2 font-medium text-right">Refund</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {returnRequest.items.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{item.productName}</p>
+                      <p className="text-gray-500">{item.variantName} · {item.sku}</p>
+                      <p className="mt-1 text-xs">
+                        {item.isDropship ? (
+                          <span className="text-purple-700">Dropshipped · supplier claim</span>
+                        ) : (
+                          <span className={item.restocked ? 'text-green-700' : 'text-gray-500'}>
+                            {item.restocked ? 'Restocked' : 'Restock on receipt'}
+                          </span>
+                        )}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {item.quantity} of {item.orderedQuantity}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">{RETURN_REASON_LABELS[item.reason]}</p>
+                      {item.note && <p className="text-gray-500">{item.note}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {item.refundAmount !== null
+                        ? formatPrice(item.refundAmount)
+                        : formatPrice(item.unitPrice * item.quantity)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {returnRequest.customerNotes && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h2 className="font-semibold text-gray-900 mb-2">Customer notes</h2>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{returnRequest.customerNotes}</p>
+            </div>
+          )}
+
+          {/* Supplier claims */}
+          {returnRequest.claims.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Truck className="w-4 h-4" />
+                Supplier claims
+              </h2>
+              {returnRequest.claims.map((claim) => (
+                <ClaimCard key={claim.id} claim={claim} disabled={isPending} onSave={runAction} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Review */}
+          {returnRequest.status === 'REQUESTED' ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+              <h2 className="font-semibold text-gray-900">Review</h2>
+              <dl className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Items</dt>
+                  <dd>{formatPrice(suggestedRefund.items)}</dd>
+                </div>
+                {suggestedRefund.discount > 0 && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Discount share</dt>
+                    <dd>-{formatPrice(suggestedRefund.discount)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Tax</dt>
+                  <dd>{formatPrice(suggestedRefund.tax)}</dd>
+                </div>
+                {suggestedRefund.shipping > 0 && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Shipping</dt>
+                    <dd>{formatPrice(suggestedRefund.shipping)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium text-gray-900 pt-1 border-t border-gray-100">
+                  <dt>Suggested refund</dt>
+                  <dd>{formatPrice(suggestedRefund.total)}</dd>
+                </div>
+              </dl>
+              <Input
+                label="Refund amount"
+                type="number"
+                min={0}
+                max={maxRefund}
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                helperText={`Up to ${formatPrice(maxRefund)} remains refundable on this order`}
+              />
+              <Button
+                className="w-full"
+                loading={isPending}
+                leftIcon={<CheckCircle className="w-4 h-4" />}
+                onClick={handleApprove}
+              >
+                Approve &amp; Refund
+              </Button>
+
+              <div className="pt-4 border-t border-gray-100 space-y-3">
+                <Textarea
+                  label="Rejection reason"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  placeholder="Sent to the customer"
+                  rows={3}
+                />
+                <Button
+                  className="w-full"
+                  variant="outline"
+                  loading={isPending}
+                  disabled={rejectionReason.trim().length < 10}
+                  leftIcon={<XCircle className="w-4 h-4" />}
+                  onClick={() => runAction(() => rejectReturn({ returnId: returnRequest.id, reason: rejectionReason }))}
+                >
+                  Reject Return
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h2 className="font-semibold text-gray-900 mb-3">Review</h2>
+              <dl className="text-sm space-y-2">
+                {returnRequest.reviewedAt && (
+                  <div>
+                    <dt className="text-gray-500">Reviewed</dt>
+                    <dd className="text-gray-900">
+                      {formatDate(returnRequest.reviewedAt, 'medium')}
+                      {returnRequest.reviewedBy && ` by ${formatPerson(returnRequest.reviewedBy)}`}
+                    </dd>
+                  </div>
+                )}
+                {returnRequest.rejectionReason && (
+                  <div>
+                    <dt className="text-gray-500">Rejection reason</dt>
+                    <dd className="text-gray-900 whitespace-pre-wrap">{returnRequest.rejectionReason}</dd>
+                  </div>
+                )}
+                {returnRequest.refundAmount !== null && (
+                  <div>
+                    <dt className="text-gray-500">Refund</dt>
+                    <dd className="text-gray-900">
+                      {formatPrice(returnRequest.refundAmount)}
+                      {returnRequest.refundedAt ? ` · issued ${formatDate(returnRequest.refundedAt, 'medium')}` : ' · pending'}
+                    </dd>
+                    {returnRequest.stripeRefundId && (
+                      <dd className="font-mono text-xs text-gray-500">{returnRequest.stripeRefundId}</dd>
+                    )}
+                  </div>
+                )}
+                {returnRequest.receivedAt && (
+                  <div>
+                    <dt className="text-gray-500">Received</dt>
+                    <dd className="text-gray-900">{formatDate(returnRequest.receivedAt, 'medium')}</dd>
+                  </div>
+                )}
+                {returnRequest.restockedAt && (
+                  <div>
+                    <dt className="text-gray-500">Restocked</dt>
+                    <dd className="text-gray-900">{formatDate(returnRequest.restockedAt, 'medium')}</dd>
+                  </div>
+                )}
+              </dl>
+            </div>
+          )}
+
+          {/* Customer & order */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900 mb-1">Customer</h2>
+              <p className="font-medium text-gray-900">{formatPerson(returnRequest.customer)}</p>
+              <p className="text-sm text-gray-600 flex items-center gap-2 mt-1">
+                <Mail className="w-4 h-4" />
+                <a href={`mailto:${returnRequest.customer.email}`} className="hover:underline">
+                  {returnRequest.customer.email}
+                </a>
+              </p>
+            </div>
+            <div>
+              <h2 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                <ShoppingBag className="w-4 h-4" />
+                Order
+              </h2>
+              <p className="font-mono text-sm">{returnRequest.order.orderNumber}</p>
+              <p className="text-sm text-gray-600">
+                {formatPrice(returnRequest.order.total)}
+                {returnRequest.order.refundedAmount > 0 && ` · ${formatPrice(returnRequest.order.refundedAmount)} refunded`}
+                {returnRequest.order.deliveredAt && ` · delivered ${formatDate(returnRequest.order.deliveredAt)}`}
+              </p>
+            </div>
+            {returnRequest.supportTicketId && (
+              <Link
+                href={`/admin/support/${returnRequest.supportTicketId}`}
+                className="inline-flex items-center gap-2 text-sm text-gray-700 hover:underline"
+              >
+                <MessageSquare className="w-4 h-4" />
+                Conversation with customer
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Claim Card Component
+ */
+function ClaimCard({
+  claim,
+  disabled,
+  onSave,
+}: {
+  claim: ReturnClaim;
+  disabled: boolean;
+  onSave: (action: () => Promise<{ success: boolean; error?: string }>) => void;
+}) {
+  const [status, setStatus] = useState<DropshipClaimStatus>(claim.status);
+  const [supplierReference, setSupplierReference] = useState(claim.supplierReference || '');
+  const [recoveredAmount, setRecoveredAmount] = useState(
+    claim.recoveredAmount !== null ? claim.recoveredAmount.toFixed(2) : ''
+  );
+
+  const isClosed = claim.status === 'ACCEPTED' || claim.status === 'REJECTED' || claim.status === 'RESOLVED';
+
+  return (
+    <div className={cn('bg-white rounded-lg border p-4 space-y-3', isClosed ? 'border-gray-200' : 'border-purple-200')}>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="font-medium text-gray-900">
+          {claim.supplierName || 'Supplier'}
+          {claim.aliExpressOrderId && (
+            <span className="font-mono text-gray-500"> · {claim.aliExpressOrderId}</span>
+          )}
+        </p>
+        <p className="text-gray-600">
+          {claim.itemCount} item{claim.itemCount !== 1 ? 's' : ''} · cost {formatPrice(claim.amount)}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Select
+          label="Status"
+          value={status}
+          disabled={disabled}
+          options={CLAIM_STATUS_OPTIONS}
+          onChange={(e) => setStatus(e.target.value as DropshipClaimStatus)}
+        />
+        <Input
+          label="Supplier reference"
+          value={supplierReference}
+          onChange={(e) => setSupplierReference(e.target.value)}
+          placeholder="Dispute or case ID"
+        />
+        <Input
+          label="Recovered"
+          type="number"
+          min={0}
+          step="0.01"
+          value={recoveredAmount}
+          onChange={(e) => setRecoveredAmount(e.target.value)}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={() =>
+            onSave(() =>
+              updateReturnClaim({
+                claimId: claim.id,
+                status,
+                supplierReference: supplierReference.trim() || null,
+                recoveredAmount: recoveredAmount === '' ? null : Number(recoveredAmount),
+              })
+            )
+          }
+        >
+          Save Claim
+        </Button>
+      </div>
+    </div>
+  );
+}
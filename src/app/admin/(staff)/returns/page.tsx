@@ -0,0 +1,44 @@
+import { prisma } from '@/lib/prisma';
+import { ReturnsClient } from './returns-client';
+
+/**
+ * Returns Page
+ *
+ * Staff queue of customer return requests awaiting approval, plus recent
+ * approved, refunded and rejected returns.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function ReturnsPage() {
+  const returns = await prisma.returnRequest.findMany({
+    include: {
+      order: {
+        select: { orderNumber: true, customerEmail: true },
+      },
+      items: {
+        select: { quantity: true, dropshipOrderItemId: true },
+      },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+    take: 500,
+  });
+
+  return (
+    <ReturnsClient
+      returns={returns.map((returnRequest) => ({
+        id: returnRequest.id,
+        rmaNumber: returnRequest.rmaNumber,
+        status: returnRequest.status,
+        orderNumber: returnRequest.order.orderNumber,
+        customerEmail: returnRequest.order.customerEmail,
+        itemCount: returnRequest.items.reduce((sum, item) => sum + item.quantity, 0),
+        hasDropshipItems: returnRequest.items.some((item) => item.dropshipOrderItemId),
+        refundAmount: returnRequest.refundAmount === null ? null : Number(returnRequest.refundAmount),
+        refundError: returnRequest.refundError,
+        createdAt: returnRequest.createdAt,
+      }))}
+    />
+  );
+}
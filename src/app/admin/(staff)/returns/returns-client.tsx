@@ -0,0 +1,228 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Inbox,
+  RotateCcw,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Search,
+  ChevronRight,
+} from 'lucide-react';
+import { cn, formatDate, formatPrice } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { Input } from '@/components/ui/input';
+import type { ReturnStatus } from '@prisma/client';
+import type { StatusType } from '@/components/admin/status-badge';
+
+/**
+ * Return request row data
+ */
+export interface ReturnListItem {
+  id: string;
+  rmaNumber: string;
+  status: ReturnStatus;
+  orderNumber: string;
+  customerEmail: string;
+  itemCount: number;
+  hasDropshipItems: boolean;
+  refundAmount: number | null;
+  refundError: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Props for the ReturnsClient component
+ */
+export interface ReturnsClientProps {
+  returns: ReturnListItem[];
+}
+
+/**
+ * Tab configuration
+ */
+const tabs = [
+  { id: 'requested', label: 'Awaiting Review', icon: Inbox },
+  { id: 'approved', label: 'Approved', icon: RotateCcw },
+  { id: 'refunded', label: 'Refunded', icon: CheckCircle },
+  { id: 'closed', label: 'Rejected & Cancelled', icon: XCircle },
+  { id: 'all', label: 'All', icon: RotateCcw },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
+
+/**
+ * Return status badge mapping
+ */
+export const RETURN_STATUS_BADGES: Record<ReturnStatus, { status: StatusType; label: string }> = {
+  REQUESTED: { status: 'pending', label: 'Awaiting Review' },
+  APPROVED: { status: 'placed', label: 'Approved' },
+  REJECTED: { status: 'issue', label: 'Rejected' },
+  REFUNDED: { status: 'delivered', label: 'Refunded' },
+  CANCELLED: { status: 'cancelled', label: 'Cancelled' },
+};
+
+/**
+ * ReturnsClient Component
+ *
+ * Return request queue with status tabs and search. Approved returns whose
+ * refund failed are flagged so they can be retried.
+ *
+ * @example
+ * ```tsx
+ * <ReturnsClient returns={returns} />
+ * ```
+ */
+export function ReturnsClient({ returns }: ReturnsClientProps) {
+  const [activeTab, setActiveTab] = useState<TabId>('requested');
+  const [search, setSearch] = useState('');
+
+  const counts = useMemo(() => ({
+    requested: returns.filter(r => r.status === 'REQUESTED').length,
+    approved: returns.filter(r => r.status === 'APPROVED').length,
+    refunded: returns.filter(r => r.status === 'REFUNDED').length,
+    closed: returns.filter(r => r.status === 'REJECTED' || r.status === 'CANCELLED').length,
+    all: returns.length,
+    failed: returns.filter(r => r.status === 'APPROVED' && r.refundError).length,
+  }), [returns]);
+
+  const filteredReturns = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return returns
+      .filter(returnRequest => {
+        switch (activeTab) {
+          case 'requested':
+            return returnRequest.status === 'REQUESTED';
+          case 'approved':
+            return returnRequest.status === 'APPROVED';
+          case 'refunded':
+            return returnRequest.status === 'REFUNDED';
+          case 'closed':
+            return returnRequest.status === 'REJECTED' || returnRequest.status === 'CANCELLED';
+          default:
+            return true;
+        }
+      })
+      .filter(returnRequest =>
+        !query ||
+        returnRequest.rmaNumber.toLowerCase().includes(query) ||
+        returnRequest.orderNumber.toLowerCase().includes(query) ||
+        returnRequest.customerEmail.toLowerCase().includes(query)
+      );
+  }, [returns, activeTab, search]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+        <p className="text-gray-600 mt-1">
+          Review return requests, refund customers and track supplier claims
+        </p>
+      </div>
+
+      {counts.failed > 0 && (
+        <button
+          onClick={() => setActiveTab('approved')}
+          className="w-full flex items-center gap-2 p-4 rounded-lg bg-red-50 border border-red-200 text-left text-sm text-red-800"
+        >
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {counts.failed} approved return{counts.failed !== 1 ? 's' : ''} could not be refunded and need attention
+        </button>
+      )}
+
+      {/* Status tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap',
+              activeTab === tab.id
+                ? 'bg-yellow text-gray-900'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.label}
+            <span className="text-xs opacity-70">{counts[tab.id]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="max-w-md">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search RMA, order or email..."
+          leftIcon={<Search className="w-4 h-4" />}
+          aria-label="Search returns"
+        />
+      </div>
+
+      {/* Return list */}
+      {filteredReturns.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <RotateCcw className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No returns</h3>
+          <p className="text-gray-500">
+            Return requests matching these filters will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {filteredReturns.map((returnRequest) => (
+            <ReturnRow key={returnRequest.id} returnRequest={returnRequest} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Return Row Component
+ */
+function ReturnRow({ returnRequest }: { returnRequest: ReturnListItem }) {
+  const badge = RETURN_STATUS_BADGES[returnRequest.status];
+
+  return (
+    <Link
+      href={`/admin/returns/${returnRequest.id}`}
+      className="flex items-center gap-4 px-4 py-3 hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 mb-1">
+          <span className="font-mono text-xs text-gray-500">{returnRequest.rmaNumber}</span>
+          <StatusBadge status={badge.status} label={badge.label} size="sm" />
+          {returnRequest.hasDropshipItems && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700">
+              Dropship
+            </span>
+          )}
+          {returnRequest.refundError && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              Refund failed
+            </span>
+          )}
+        </div>
+        <p className="font-medium text-gray-900 truncate">
+          {returnRequest.orderNumber} · {returnRequest.itemCount} item{returnRequest.itemCount !== 1 ? 's' : ''}
+        </p>
+        <p className="text-sm text-gray-500 truncate">{returnRequest.customerEmail}</p>
+      </div>
+
+      <div className="hidden md:block text-right text-sm text-gray-500 w-40">
+        <p className="font-medium text-gray-900">
+          {returnRequest.refundAmount !== null ? formatPrice(returnRequest.refundAmount) : '—'}
+        </p>
+        <p className="text-xs">{formatDate(returnRequest.createdAt, 'relative')}</p>
+      </div>
+
+      <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+    </Link>
+  );
+}
@@ -0,0 +1,60 @@
+import { prisma } from '@/lib/prisma';
+import { notFound } from 'next/navigation';
+import { TicketDetailClient } from './ticket-detail-client';
+
+/**
+ * Support Ticket Detail Page
+ *
+ * Shows a ticket's thread with reply, internal note, status, priority and
+ * assignment controls.
+ */
+export const dynamic = 'force-dynamic';
+
+export default async function TicketDetailPage({
+  params,
+}: {
+  params: Promise<{ ticketId: string }>;
+}) {
+  const { ticketId } = await params;
+
+  const [ticket, staff] = await Promise.all([
+    prisma.supportTicket.findUnique({
+      where: { id: ticketId },
+      include: {
+        messages: {
+          include: {
+            author: {
+              select: { firstName: true, lastName: true, email: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        assignee: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        order: {
+          select: { id: true, orderNumber: true, status: true, total: true, createdAt: true },
+        },
+        product: {
+          select: { name: true, slug: true },
+        },
+      },
+    }),
+    prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'STAFF'] } },
+      select: { id: true, firstName: true, lastName: true, email: true },
+      orderBy: { firstName: 'asc' },
+    }),
+  ]);
+
+  if (!ticket) {
+    notFound();
+  }
+
+  return (
+    <TicketDetailClient
+      ticket={{ ...ticket, order: ticket.order && { ...ticket.order, total: Number(ticket.order.total) } }}
+      staff={staff}
+    />
+  );
+}
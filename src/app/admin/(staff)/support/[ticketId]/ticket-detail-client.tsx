@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft,
+  Mail,
+  Phone,
+  Package,
+  ShoppingBag,
+  Lock,
+  Send,
+  Paperclip,
+  Info,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice, formatDate } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { SlaTimer } from '@/components/admin/sla-timer';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  assignSupportTicket,
+  replyToSupportTicket,
+  updateSupportTicketPriority,
+  updateSupportTicketStatus,
+} from '@/actions/support';
+import {
+  PRIORITY_STYLES,
+  TICKET_STATUS_BADGES,
+  TICKET_TYPE_LABELS,
+  formatStaffName,
+  type SupportStaffMember,
+} from '../support-client';
+import type {
+  SupportTicket,
+  SupportTicketPriority,
+  SupportTicketStatus,
+  TicketMessage,
+} from '@prisma/client';
+
+/**
+ * Ticket with thread and relations
+ */
+interface TicketWithRelations extends SupportTicket {
+  messages: Array<TicketMessage & {
+    author: { firstName: string | null; lastName: string | null; email: string } | null;
+  }>;
+  assignee: SupportStaffMember | null;
+  order: { id: string; orderNumber: string; status: string; total: number; createdAt: Date } | null;
+  product: { name: string; slug: string } | null;
+}
+
+/**
+ * Props for the TicketDetailClient component
+ */
+export interface TicketDetailClientProps {
+  ticket: TicketWithRelations;
+  staff: SupportStaffMember[];
+}
+
+const STATUS_OPTIONS = (Object.keys(TICKET_STATUS_BADGES) as SupportTicketStatus[]).map((status) => ({
+  value: status,
+  label: TICKET_STATUS_BADGES[status].label,
+}));
+
+const PRIORITY_OPTIONS = [
+  { value: 'URGENT', label: 'Urgent' },
+  { value: 'HIGH', label: 'High' },
+  { value: 'NORMAL', label: 'Normal' },
+  { value: 'LOW', label: 'Low' },
+];
+
+/**
+ * Human label for a metadata key, e.g. `issueType` → `Issue type`
+ */
+function formatMetadataKey(key: string): string {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toUrlList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * TicketDetailClient Component
+ *
+ * Displays a support ticket including:
+ * - Message thread with internal notes and system events
+ * - Reply box with internal note toggle
+ * - Status, priority and assignee controls
+ * - Customer, order and product details
+ *
+ * @example
+ * ```tsx
+ * <TicketDetailClient ticket={ticket} staff={staff} />
+ * ```
+ */
+export function TicketDetailClient({ ticket, staff }: TicketDetailClientProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [reply, setReply] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const badge = TICKET_STATUS_BADGES[ticket.status];
+  const metadata = (ticket.metadata || {}) as Record<string, unknown>;
+
+  // Run an action, then refresh the server-rendered ticket
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  const handleReply = () => {
+    if (!reply.trim()) return;
+
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const result = await replyToSupportTicket({ ticketId: ticket.id, body: reply, internal: isInternal });
+      if (!result.success) {
+        setError(result.error || result.fieldErrors?.body?.[0] || 'Failed to send reply');
+        return;
+      }
+      if (!isInternal && !result.data?.emailSent) {
+        setNotice('Reply saved, but the email to the customer could not be sent.');
+      }
+      setReply('');
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Back button */}
+      <Link
+        href="/admin/support"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Support
+      </Link>
+
+      {/* Page header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="font-mono text-sm text-gray-500">{ticket.ticketNumber}</p>
+          <h1 className="text-2xl font-bold text-gray-900">{ticket.subject}</h1>
+          <p className="text-gray-600 mt-1">
+            {TICKET_TYPE_LABELS[ticket.type]} · Opened {formatDate(ticket.createdAt, 'relative')}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', PRIORITY_STYLES[ticket.priority])}>
+            {ticket.priority.charAt(0) + ticket.priority.slice(1).toLowerCase()}
+          </span>
+          <SlaTimer ticket={ticket} showLabel />
+          <StatusBadge status={badge.status} label={badge.label} size="lg" />
+        </div>
+      </div>
+
+      {(error || notice) && (
+        <div
+          className={cn(
+            'rounded-md px-4 py-3 text-sm',
+            error ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+          )}
+          role="alert"
+        >
+          {error || notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Thread */}
+        <div className="lg:col-span-2 space-y-4">
+          {ticket.messages.map((message) => (
+            <MessageBubble key={message.id} message={message} customerName={ticket.customerName || ticket.customerEmail} />
+          ))}
+
+          {/* Reply box */}
+          <div
+            className={cn(
+              'bg-white rounded-lg border p-4 space-y-3',
+              isInternal ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'
+            )}
+          >
+            <Textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              placeholder={isInternal ? 'Add an internal note (not sent to the customer)' : `Reply to ${ticket.customerEmail}`}
+              rows={5}
+              aria-label={isInternal ? 'Internal note' : 'Reply'}
+            />
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={isInternal}
+                  onChange={(e) => setIsInternal(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <Lock className="w-4 h-4" />
+                Internal note
+              </label>
+              <Button
+                onClick={handleReply}
+                loading={isPending}
+                disabled={!reply.trim()}
+                leftIcon={<Send className="w-4 h-4" />}
+              >
+                {isInternal ? 'Add Note' : 'Send Reply'}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Ticket controls */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+            <Select
+              label="Status"
+              value={ticket.status}
+              disabled={isPending}
+              options={STATUS_OPTIONS}
+              onChange={(e) =>
+                runAction(() => updateSupportTicketStatus(ticket.id, e.target.value as SupportTicketStatus))
+              }
+            />
+            <Select
+              label="Priority"
+              value={ticket.priority}
+              disabled={isPending}
+              options={PRIORITY_OPTIONS}
+              helperText="Changing priority recalculates the SLA deadlines"
+              onChange={(e) =>
+                runAction(() => updateSupportTicketPriority(ticket.id, e.target.value as SupportTicketPriority))
+              }
+            />
+            <Select
+              label="Assignee"
+              value={ticket.assigneeId || ''}
+              disabled={isPending}
+              options={[
+                { value: '', label: 'Unassigned' },
+                ...staff.map((member) => ({ value: member.id, label: formatStaffName(member) })),
+              ]}
+              onChange={(e) => runAction(() => assignSupportTicket(ticket.id, e.target.value || null))}
+            />
+          </div>
+
+          {/* Customer */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h2 className="font-semibold text-gray-900 mb-3">Customer</h2>
+            {ticket.customerName && <p className="font-medium text-gray-900">{ticket.customerName}</p>}
+            <p className="text-sm text-gray-600 flex items-center gap-2 mt-1">
+              <Mail className="w-4 h-4" />
+              <a href={`mailto:${ticket.customerEmail}`} className="hover:underline">{ticket.customerEmail}</a>
+            </p>
+            {ticket.customerPhone && (
+              <p className="text-sm text-gray-600 flex items-center gap-2 mt-1">
+                <Phone className="w-4 h-4" />
+                {ticket.customerPhone}
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              {ticket.userId ? 'Registered customer' : 'Guest'}
+            </p>
+          </div>
+
+          {/* Linked order/product */}
+          {(ticket.order || ticket.product) && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+              {ticket.order && (
+                <div>
+                  <h2 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                    <ShoppingBag className="w-4 h-4" />
+                    Order
+                  </h2>
+                  <p className="font-mono text-sm">{ticket.order.orderNumber}</p>
+                  <p className="text-sm text-gray-600">
+                    {formatPrice(ticket.order.total)} · {ticket.order.status.toLowerCase()} · {formatDate(ticket.order.createdAt)}
+                  </p>
+                </div>
+              )}
+              {ticket.product && (
+                <div>
+                  <h2 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                    <Package className="w-4 h-4" />
+                    Product
+                  </h2>
+                  <Link href={`/products/${ticket.product.slug}`} className="text-sm text-gray-700 hover:underline">
+                    {ticket.product.name}
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Form details */}
+          {Object.keys(metadata).length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h2 className="font-semibold text-gray-900 mb-3">Details</h2>
+              <dl className="space-y-2 text-sm">
+                {Object.entries(metadata).map(([key, value]) => (
+                  <div key={key}>
+                    <dt className="text-gray-500">{formatMetadataKey(key)}</dt>
+                    <dd className="text-gray-900 break-words">
+                      {Array.isArray(value) ? value.join(', ') : String(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Message Bubble Component
+ */
+function MessageBubble({
+  message,
+  customerName,
+}: {
+  message: TicketWithRelations['messages'][number];
+  customerName: string;
+}) {
+  if (message.authorType === 'SYSTEM') {
+    return (
+      <p className="flex items-center justify-center gap-2 text-xs text-gray-500">
+        <Info className="w-3.5 h-3.5" />
+        {message.body} · {formatDate(message.createdAt, 'relative')}
+        {message.author && ` · ${formatStaffName(message.author as SupportStaffMember)}`}
+      </p>
+    );
+  }
+
+  const isStaff = message.authorType === 'STAFF';
+  const authorName = isStaff
+    ? message.author ? formatStaffName(message.author as SupportStaffMember) : 'Staff'
+    : customerName;
+  const attachments = toUrlList(message.attachments);
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border p-4',
+        message.isInternal
+          ? 'bg-yellow-50 border-yellow-200'
+          : isStaff
+            ? 'bg-blue-50 border-blue-100 ml-8'
+            : 'bg-white border-gray-200 mr-8'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+          {message.isInternal && <Lock className="w-3.5 h-3.5 text-yellow-700" />}
+          {authorName}
+          {message.isInternal && <span className="text-xs font-normal text-yellow-700">Internal note</span>}
+        </p>
+        <time className="text-xs text-gray-500" dateTime={new Date(message.createdAt).toISOString()}>
+          {new Date(message.createdAt).toLocaleString()}
+        </time>
+      </div>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap">{message.body}</p>
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {attachments.map((url, index) => (
+            <a
+              key={url}
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 underline"
+            >
+              <Paperclip className="w-3.5 h-3.5" />
+              Attachment {index + 1}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
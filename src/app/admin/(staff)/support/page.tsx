@@ -0,0 +1,54 @@
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/session';
+import { SupportClient } from './support-client';
+
+/**
+ * Support Inbox Page
+ *
+ * Staff inbox for customer support tickets with filters and SLA timers.
+ */
+export const dynamic = 'force-dynamic';
+
+/** Resolved and closed tickets stay in the inbox this long */
+const RECENTLY_CLOSED_DAYS = 30;
+
+export default async function SupportPage() {
+  const user = await getCurrentUser();
+  const closedSince = new Date(Date.now() - RECENTLY_CLOSED_DAYS * 24 * 60 * 60 * 1000);
+
+  const [tickets, staff] = await Promise.all([
+    prisma.supportTicket.findMany({
+      where: {
+        OR: [
+          { status: { in: ['OPEN', 'IN_PROGRESS', 'WAITING_ON_CUSTOMER'] } },
+          { updatedAt: { gte: closedSince } },
+        ],
+      },
+      include: {
+        assignee: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        order: {
+          select: { orderNumber: true },
+        },
+        product: {
+          select: { name: true },
+        },
+        _count: {
+          select: { messages: true },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 500,
+    }),
+    prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'STAFF'] } },
+      select: { id: true, firstName: true, lastName: true, email: true },
+      orderBy: { firstName: 'asc' },
+    }),
+  ]);
+
+  return <SupportClient tickets={tickets} staff={staff} currentUserId={user?.id ?? null} />;
+}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Inbox,
+  MessageSquare,
+  Clock,
+  AlertTriangle,
+  UserX,
+  CheckCircle,
+  Search,
+  ChevronRight,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/utils';
+import { StatusBadge } from '@/components/admin/status-badge';
+import { SlaTimer } from '@/components/admin/sla-timer';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { getSlaTimer } from '@/lib/support/sla';
+import type { SupportTicket, SupportTicketStatus, SupportTicketType } from '@prisma/client';
+import type { StatusType } from '@/components/admin/status-badge';
+
+/**
+ * Staff member shown in assignee filters
+ */
+export interface SupportStaffMember {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+/**
+ * Ticket with inbox relations
+ */
+export interface SupportTicketListItem extends SupportTicket {
+  assignee: SupportStaffMember | null;
+  order: { orderNumber: string } | null;
+  product: { name: string } | null;
+  _count: { messages: number };
+}
+
+/**
+ * Props for the SupportClient component
+ */
+export interface SupportClientProps {
+  tickets: SupportTicketListItem[];
+  staff: SupportStaffMember[];
+  currentUserId: string | null;
+}
+
+/**
+ * Tab configuration
+ */
+const tabs = [
+  { id: 'open', label: 'Open', icon: Inbox },
+  { id: 'waiting', label: 'Waiting', icon: Clock },
+  { id: 'resolved', label: 'Resolved', icon: CheckCircle },
+  { id: 'all', label: 'All', icon: MessageSquare },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
+
+/**
+ * Ticket status badge mapping
+ */
+export const TICKET_STATUS_BADGES: Record<SupportTicketStatus, { status: StatusType; label: string }> = {
+  OPEN: { status: 'pending', label: 'Open' },
+  IN_PROGRESS: { status: 'placed', label: 'In Progress' },
+  WAITING_ON_CUSTOMER: { status: 'shipped', label: 'Waiting on Customer' },
+  RESOLVED: { status: 'delivered', label: 'Resolved' },
+  CLOSED: { status: 'cancelled', label: 'Closed' },
+};
+
+/**
+ * Ticket type labels
+ */
+export const TICKET_TYPE_LABELS: Record<SupportTicketType, string> = {
+  CONTACT: 'Contact',
+  ORDER: 'Order',
+  PRODUCT: 'Product',
+  ACCOUNT: 'Account',
+  PRODUCT_ISSUE: 'Product Issue',
+  RETURN: 'Return',
+  OTHER: 'Other',
+};
+
+/**
+ * Priority pill colors
+ */
+export const PRIORITY_STYLES = {
+  LOW: 'bg-gray-100 text-gray-600',
+  NORMAL: 'bg-blue-50 text-blue-700',
+  HIGH: 'bg-orange-100 text-orange-800',
+  URGENT: 'bg-red-100 text-red-800',
+} as const;
+
+const PRIORITY_RANK = { URGENT: 0, HIGH: 1, NORMAL: 2, LOW: 3 } as const;
+
+export function formatStaffName(member: SupportStaffMember): string {
+  return [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email;
+}
+
+function isActive(ticket: SupportTicket): boolean {
+  return ticket.status === 'OPEN' || ticket.status === 'IN_PROGRESS' || ticket.status === 'WAITING_ON_CUSTOMER';
+}
+
+/**
+ * SupportClient Component
+ *
+ * Support inbox with status tabs, priority/assignee/type filters, search and
+ * live SLA timers. Active tickets are sorted by the next SLA deadline.
+ *
+ * @example
+ * ```tsx
+ * <SupportClient tickets={tickets} staff={staff} currentUserId={user.id} />
+ * ```
+ */
+export function SupportClient({ tickets, staff, currentUserId }: SupportClientProps) {
+  const [activeTab, setActiveTab] = useState<TabId>('open');
+  const [priority, setPriority] = useState('all');
+  const [assignee, setAssignee] = useState('all');
+  const [type, setType] = useState('all');
+  const [search, setSearch] = useState('');
+
+  const counts = useMemo(() => {
+    const now = new Date();
+    return {
+      open: tickets.filter(t => t.status === 'OPEN' || t.status === 'IN_PROGRESS').length,
+      waiting: tickets.filter(t => t.status === 'WAITING_ON_CUSTOMER').length,
+      overdue: tickets.filter(t => isActive(t) && getSlaTimer(t, now).state === 'breached').length,
+      unassigned: tickets.filter(t => isActive(t) && !t.assigneeId).length,
+    };
+  }, [tickets]);
+
+  const filteredTickets = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    return tickets
+      .filter(ticket => {
+        switch (activeTab) {
+          case 'open':
+            return ticket.status === 'OPEN' || ticket.status === 'IN_PROGRESS';
+          case 'waiting':
+            return ticket.status === 'WAITING_ON_CUSTOMER';
+          case 'resolved':
+            return ticket.status === 'RESOLVED' || ticket.status === 'CLOSED';
+          default:
+            return true;
+        }
+      })
+      .filter(ticket => priority === 'all' || ticket.priority === priority)
+      .filter(ticket => type === 'all' || ticket.type === type)
+      .filter(ticket => {
+        if (assignee === 'all') return true;
+        if (assignee === 'mine') return ticket.assigneeId === currentUserId;
+        if (assignee === 'unassigned') return !ticket.assigneeId;
+        return ticket.assigneeId === assignee;
+      })
+      .filter(ticket =>
+        !query ||
+        ticket.ticketNumber.toLowerCase().includes(query) ||
+        ticket.subject.toLowerCase().includes(query) ||
+        ticket.customerEmail.includes(query) ||
+        (ticket.customerName || '').toLowerCase().includes(query) ||
+        (ticket.order?.orderNumber || '').toLowerCase().includes(query)
+      )
+      .sort((a, b) => {
+        // Active tickets: nearest SLA deadline first, then priority
+        if (isActive(a) && isActive(b)) {
+          const dueA = getSlaTimer(a).dueAt.getTime();
+          const dueB = getSlaTimer(b).dueAt.getTime();
+          return dueA - dueB || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+        }
+        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      });
+  }, [tickets, activeTab, priority, type, assignee, search, currentUserId]);
+
+  const statCards = [
+    { id: 'open' as const, label: 'Open', value: counts.open, icon: Inbox },
+    { id: 'waiting' as const, label: 'Waiting on Customer', value: counts.waiting, icon: Clock },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Support</h1>
+        <p className="text-gray-600 mt-1">
+          Customer tickets from the contact, support, product issue and return forms
+        </p>
+      </div>
+
+      {/* Stats cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {statCards.map((card) => (
+          <button
+            key={card.id}
+            onClick={() => setActiveTab(card.id)}
+            className={cn(
+              'p-4 rounded-lg border-2 text-left transition-colors',
+              activeTab === card.id
+                ? 'border-yellow bg-yellow-50'
+                : 'border-gray-200 bg-white hover:border-gray-300'
+            )}
+          >
+            <div className="flex items-center gap-2 text-gray-500 mb-1">
+              <card.icon className="w-4 h-4" />
+              <span className="text-sm">{card.label}</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+          </button>
+        ))}
+
+        <div className="p-4 rounded-lg border-2 border-gray-200 bg-white">
+          <div className="flex items-center gap-2 text-gray-500 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="text-sm">SLA Overdue</span>
+          </div>
+          <p className={cn('text-2xl font-bold', counts.overdue > 0 ? 'text-red-600' : 'text-gray-900')}>
+            {counts.overdue}
+          </p>
+        </div>
+
+        <button
+          onClick={() => setAssignee('unassigned')}
+          className={cn(
+            'p-4 rounded-lg border-2 text-left transition-colors',
+            assignee === 'unassigned'
+              ? 'border-yellow bg-yellow-50'
+              : 'border-gray-200 bg-white hover:border-gray-300'
+          )}
+        >
+          <div className="flex items-center gap-2 text-gray-500 mb-1">
+            <UserX className="w-4 h-4" />
+            <span className="text-sm">Unassigned</span>
+          </div>
+          <p className="text-2xl font-bold text-gray-900">{counts.unassigned}</p>
+        </button>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap',
+              activeTab === tab.id
+                ? 'bg-yellow text-gray-900'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search tickets, emails, orders..."
+          leftIcon={<Search className="w-4 h-4" />}
+          aria-label="Search tickets"
+        />
+        <Select
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          aria-label="Filter by assignee"
+          options={[
+            { value: 'all', label: 'All assignees' },
+            { value: 'mine', label: 'Assigned to me' },
+            { value: 'unassigned', label: 'Unassigned' },
+            ...staff.map((member) => ({ value: member.id, label: formatStaffName(member) })),
+          ]}
+        />
+        <Select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value)}
+          aria-label="Filter by priority"
+          options={[
+            { value: 'all', label: 'All priorities' },
+            { value: 'URGENT', label: 'Urgent' },
+            { value: 'HIGH', label: 'High' },
+            { value: 'NORMAL', label: 'Normal' },
+            { value: 'LOW', label: 'Low' },
+          ]}
+        />
+        <Select
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          aria-label="Filter by type"
+          options={[
+            { value: 'all', label: 'All types' },
+            ...Object.entries(TICKET_TYPE_LABELS).map(([value, label]) => ({ value, label })),
+          ]}
+        />
+      </div>
+
+      {/* Ticket list */}
+      {filteredTickets.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Inbox className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-1">No tickets</h3>
+          <p className="text-gray-500">
+            Tickets matching these filters will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {filteredTickets.map((ticket) => (
+            <TicketRow key={ticket.id} ticket={ticket} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Ticket Row Component
+ */
+function TicketRow({ ticket }: { ticket: SupportTicketListItem }) {
+  const badge = TICKET_STATUS_BADGES[ticket.status];
+
+  return (
+    <Link
+      href={`/admin/support/${ticket.id}`}
+      className="flex items-center gap-4 px-4 py-3 hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 mb-1">
+          <span className="font-mono text-xs text-gray-500">{ticket.ticketNumber}</span>
+          <StatusBadge status={badge.status} label={badge.label} size="sm" />
+          <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', PRIORITY_STYLES[ticket.priority])}>
+            {ticket.priority.charAt(0) + ticket.priority.slice(1).toLowerCase()}
+          </span>
+          <span className="text-xs text-gray-500">{TICKET_TYPE_LABELS[ticket.type]}</span>
+        </div>
+        <p className="font-medium text-gray-900 truncate">{ticket.subject}</p>
+        <p className="text-sm text-gray-500 truncate">
+          {ticket.customerName ? `${ticket.customerName} · ` : ''}
+          {ticket.customerEmail}
+          {ticket.order && ` · ${ticket.order.orderNumber}`}
+          {ticket.product && ` · ${ticket.product.name}`}
+        </p>
+      </div>
+
+      <div className="hidden md:block text-right text-sm text-gray-500 w-40">
+        <p className="truncate">
+          {ticket.assignee ? formatStaffName(ticket.assignee) : 'Unassigned'}
+        </p>
+        <p className="text-xs">
+          {ticket._count.messages} message{ticket._count.messages !== 1 ? 's' : ''} · {formatDate(ticket.createdAt, 'relative')}
+        </p>
+      </div>
+
+      <SlaTimer ticket={ticket} />
+      <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+    </Link>
+  );
+}
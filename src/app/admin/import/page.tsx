@@ -1,12 +0,0 @@
-import { ImportClient } from './import-client';
-
-/**
- * Product Import Page
- * 
- * Admin page for importing products from AliExpress.
- */
-export const dynamic = 'force-dynamic';
-
-export default function ImportPage() {
-  return <ImportClient />;
-}
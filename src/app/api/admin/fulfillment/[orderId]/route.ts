@@ -1,27 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
+import { ConflictError } from '@/lib/errors';
 import { DropshipOrderStatus } from '@prisma/client';
 import { FulfillmentService } from '@/services/fulfillment/fulfillment-service';
+import { canTransitionDropshipOrder, transitionDropshipOrder } from '@/services/fulfillment/events';
 
 interface RouteParams {
   params: Promise<{ orderId: string }>;
 }
 
-/**
- * Valid status transitions map
- */
-const VALID_STATUS_TRANSITIONS: Record<DropshipOrderStatus, DropshipOrderStatus[]> = {
-  PENDING: ['PLACED', 'CANCELLED', 'ISSUE'],
-  PLACED: ['CONFIRMED', 'CANCELLED', 'ISSUE'],
-  CONFIRMED: ['SHIPPED', 'CANCELLED', 'ISSUE'],
-  SHIPPED: ['DELIVERED', 'ISSUE'],
-  DELIVERED: [],
-  CANCELLED: [],
-  REFUNDED: [],
-  ISSUE: ['PENDING', 'PLACED', 'CONFIRMED', 'SHIPPED', 'CANCELLED'],
-};
-
 /**
  * GET /api/admin/fulfillment/[orderId]
  *
@@ -120,19 +108,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     };
 
     // Handle status update
-    if (body.status) {
-      const newStatus = body.status as DropshipOrderStatus;
-      const validTransitions = VALID_STATUS_TRANSITIONS[currentOrder.status];
-
-      if (!validTransitions.includes(newStatus)) {
+    const newStatus = body.status as DropshipOrderStatus | undefined;
+    if (newStatus) {
+      if (!canTransitionDropshipOrder(currentOrder.status, newStatus)) {
         return NextResponse.json(
           { error: `Cannot transition from ${currentOrder.status} to ${newStatus}` },
           { status: 400 }
         );
       }
 
-      updateData.status = newStatus;
-
       // Set timestamps based on status
       if (newStatus === DropshipOrderStatus.PLACED) {
         updateData.placedAt = new Date();
@@ -149,10 +133,26 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       updateData.aliExpressOrderId = body.aliExpressOrderId;
     }
 
-    // Update order
-    const updatedOrder = await prisma.dropshipOrder.update({
-      where: { id: orderId },
-      data: updateData,
+    // Update order, logging the transition when the status changes
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      if (!newStatus) {
+        return tx.dropshipOrder.update({
+          where: { id: orderId },
+          data: updateData,
+        });
+      }
+
+      await transitionDropshipOrder(tx, orderId, {
+        fromStatus: currentOrder.status,
+        toStatus: newStatus,
+        data: updateData,
+        actorId: user.id,
+        note: body.notes || null,
+        payload: body.aliExpressOrderId ? { aliExpressOrderId: body.aliExpressOrderId } : undefined,
+      });
+      return tx.dropshipOrder.findUniqueOrThrow({
+        where: { id: orderId },
+      });
     });
 
     return NextResponse.json({
@@ -168,6 +168,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       },
     });
   } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
     console.error('Error updating fulfillment order:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
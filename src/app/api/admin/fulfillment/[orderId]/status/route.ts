@@ -1,33 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
-import { DropshipOrderStatus, OrderStatus } from '@prisma/client';
+import { ConflictError } from '@/lib/errors';
+import { DropshipOrderStatus, DropshipOrderEventType, OrderStatus, ShipmentStatus } from '@prisma/client';
 import { FulfillmentNotificationService } from '@/services/fulfillment/notifications';
+import { canTransitionDropshipOrder, transitionDropshipOrder } from '@/services/fulfillment/events';
+import { deliverDropshipOrder, shipDropshipOrder, syncOrderFulfillment } from '@/services/fulfillment/shipments';
 
 interface RouteParams {
   params: Promise<{ orderId: string }>;
 }
 
-/**
- * Valid status transitions map
- */
-const VALID_STATUS_TRANSITIONS: Record<DropshipOrderStatus, DropshipOrderStatus[]> = {
-  PENDING: ['PLACED', 'CANCELLED', 'ISSUE'],
-  PLACED: ['CONFIRMED', 'CANCELLED', 'ISSUE'],
-  CONFIRMED: ['SHIPPED', 'CANCELLED', 'ISSUE'],
-  SHIPPED: ['DELIVERED', 'ISSUE'],
-  DELIVERED: [],
-  CANCELLED: [],
-  REFUNDED: [],
-  ISSUE: ['PENDING', 'PLACED', 'CONFIRMED', 'SHIPPED', 'CANCELLED'],
-};
-
 /**
  * Map dropship status to main order status
+ *
+ * Shipped and delivered come from the order's shipments instead.
  */
 const DROPSHIP_TO_ORDER_STATUS: Partial<Record<DropshipOrderStatus, OrderStatus>> = {
-  SHIPPED: OrderStatus.SHIPPED,
-  DELIVERED: OrderStatus.DELIVERED,
   CANCELLED: OrderStatus.CANCELLED,
 };
 
@@ -40,6 +29,10 @@ const DROPSHIP_TO_ORDER_STATUS: Partial<Record<DropshipOrderStatus, OrderStatus>
  * - status: New status (required)
  * - issue: Issue description (required if status is ISSUE)
  * - notifyCustomer: Whether to send notification (default: true for shipped/delivered)
+ *
+ * Shipping sends everything still pending on the order as one parcel, with
+ * the order's tracking; delivering marks each of its shipped parcels
+ * delivered.
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
@@ -79,7 +72,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const dropshipOrder = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
       include: {
-        order: true,
+        order: { include: { items: true } },
       },
     });
 
@@ -91,99 +84,93 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     // Validate status transition
-    const validTransitions = VALID_STATUS_TRANSITIONS[dropshipOrder.status];
-    if (!validTransitions.includes(newStatus)) {
+    if (!canTransitionDropshipOrder(dropshipOrder.status, newStatus)) {
       return NextResponse.json(
         { error: `Cannot transition from ${dropshipOrder.status} to ${newStatus}` },
         { status: 400 }
       );
     }
 
-    // Build update data
-    const updateData: any = {
-      status: newStatus,
-      updatedAt: new Date(),
-    };
-
-    // Set timestamps based on status
-    if (newStatus === DropshipOrderStatus.PLACED) {
-      updateData.placedAt = new Date();
-    } else if (newStatus === DropshipOrderStatus.SHIPPED) {
-      updateData.shippedAt = new Date();
+    const notifyCustomer = body.notifyCustomer !== false;
+
+    if (newStatus === DropshipOrderStatus.SHIPPED) {
+      await shipDropshipOrder(
+        orderId,
+        {
+          trackingNumber: dropshipOrder.trackingNumber,
+          carrier: dropshipOrder.carrier,
+          trackingUrl: dropshipOrder.trackingUrl,
+        },
+        { actorId: user.id, notifyCustomer }
+      );
     } else if (newStatus === DropshipOrderStatus.DELIVERED) {
-      updateData.deliveredAt = new Date();
-      updateData.actualDelivery = new Date();
-    }
+      await deliverDropshipOrder(orderId, { actorId: user.id, notifyCustomer });
+    } else {
+      // Build update data
+      const updateData: any = {};
+
+      // Set timestamps based on status
+      if (newStatus === DropshipOrderStatus.PLACED) {
+        updateData.placedAt = new Date();
+      }
 
-    // Update in transaction
-    const updatedOrder = await prisma.$transaction(async (tx) => {
-      // Update dropship order
-      const updated = await tx.dropshipOrder.update({
-        where: { id: orderId },
-        data: updateData,
-      });
+      // Update in transaction
+      await prisma.$transaction(async (tx) => {
+        // Update dropship order and log the transition
+        await transitionDropshipOrder(tx, orderId, {
+          fromStatus: dropshipOrder.status,
+          toStatus: newStatus,
+          data: updateData,
+          type: newStatus === DropshipOrderStatus.ISSUE
+            ? DropshipOrderEventType.ISSUE_REPORTED
+            : DropshipOrderEventType.STATUS_CHANGED,
+          actorId: user.id,
+          note: newStatus === DropshipOrderStatus.ISSUE ? body.issue.trim() : null,
+        });
 
-      // Update main order status if applicable
-      const mainOrderStatus = DROPSHIP_TO_ORDER_STATUS[newStatus];
-      if (mainOrderStatus) {
-        const orderUpdateData: any = {
-          status: mainOrderStatus,
-          updatedAt: new Date(),
-        };
-
-        if (newStatus === DropshipOrderStatus.SHIPPED) {
-          orderUpdateData.shippedAt = new Date();
-        } else if (newStatus === DropshipOrderStatus.DELIVERED) {
-          orderUpdateData.deliveredAt = new Date();
-        } else if (newStatus === DropshipOrderStatus.CANCELLED) {
-          orderUpdateData.cancelledAt = new Date();
+        if (newStatus === DropshipOrderStatus.CANCELLED) {
+          // The supplier's parcels won't ship
+          await tx.shipment.updateMany({
+            where: { dropshipOrderId: orderId, status: ShipmentStatus.PENDING },
+            data: { status: ShipmentStatus.CANCELLED },
+          });
         }
 
-        await tx.order.update({
-          where: { id: dropshipOrder.orderId },
-          data: orderUpdateData,
-        });
-
-        // Update shipping record for delivered
-        if (newStatus === DropshipOrderStatus.DELIVERED) {
-          await tx.shipping.update({
-            where: { orderId: dropshipOrder.orderId },
+        // Update main order status if applicable
+        const mainOrderStatus = DROPSHIP_TO_ORDER_STATUS[newStatus];
+        if (mainOrderStatus) {
+          await tx.order.update({
+            where: { id: dropshipOrder.orderId },
             data: {
-              actualDelivery: new Date(),
+              status: mainOrderStatus,
+              cancelledAt: new Date(),
               updatedAt: new Date(),
             },
           });
         }
-      }
-
-      return updated;
-    });
-
-    // Send notifications
-    const notifyCustomer = body.notifyCustomer !== false;
 
-    try {
-      const notificationService = new FulfillmentNotificationService();
+        await syncOrderFulfillment(tx, dropshipOrder.orderId);
+      });
 
-      if (newStatus === DropshipOrderStatus.SHIPPED && notifyCustomer) {
-        await notificationService.sendShippingNotification(
-          dropshipOrder.order as any,
-          dropshipOrder.trackingNumber || 'Tracking pending',
-          dropshipOrder.carrier || undefined
-        );
-      } else if (newStatus === DropshipOrderStatus.DELIVERED && notifyCustomer) {
-        await notificationService.sendDeliveryNotification(dropshipOrder.order as any);
-      } else if (newStatus === DropshipOrderStatus.ISSUE) {
-        await notificationService.sendIssueNotification(
-          dropshipOrder.order as any,
-          body.issue
-        );
+      // Send notifications
+      if (newStatus === DropshipOrderStatus.ISSUE) {
+        try {
+          const notificationService = new FulfillmentNotificationService();
+          await notificationService.sendIssueNotification(
+            dropshipOrder.order,
+            body.issue
+          );
+        } catch (notificationError) {
+          console.error('Failed to send notification:', notificationError);
+          // Don't fail the request, just log the error
+        }
       }
-    } catch (notificationError) {
-      console.error('Failed to send notification:', notificationError);
-      // Don't fail the request, just log the error
     }
 
+    const updatedOrder = await prisma.dropshipOrder.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+
     return NextResponse.json({
       success: true,
       order: {
@@ -196,6 +183,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       },
     });
   } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
     console.error('Error updating fulfillment status:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
-import { FulfillmentNotificationService } from '@/services/fulfillment/notifications';
+import { DropshipOrderEventType, ShipmentStatus } from '@prisma/client';
+import { recordDropshipOrderEvent } from '@/services/fulfillment/events';
+import { notifyShipmentShipped, updateDropshipShipmentTracking } from '@/services/fulfillment/shipments';
 
 interface RouteParams {
   params: Promise<{ orderId: string }>;
@@ -17,6 +19,10 @@ interface RouteParams {
  * - carrier: Carrier name (optional)
  * - trackingUrl: Tracking URL (optional)
  * - notifyCustomer: Whether to send notification (default: true)
+ *
+ * The tracking also goes on the order's parcel when it ships as one; split
+ * orders take tracking per shipment. The customer is only emailed about a
+ * parcel that has shipped.
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -43,9 +49,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Get current order
     const dropshipOrder = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
-      include: {
-        order: true,
-      },
     });
 
     if (!dropshipOrder) {
@@ -61,7 +64,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const notifyCustomer = body.notifyCustomer !== false;
 
     // Update tracking info in transaction
-    await prisma.$transaction(async (tx) => {
+    const shipmentId = await prisma.$transaction(async (tx) => {
       // Update dropship order
       await tx.dropshipOrder.update({
         where: { id: orderId },
@@ -73,30 +76,38 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         },
       });
 
-      // Update main order's shipping record
-      await tx.shipping.update({
-        where: { orderId: dropshipOrder.orderId },
-        data: {
+      // Update the order's parcel
+      const updatedShipmentId = await updateDropshipShipmentTracking(tx, orderId, {
+        trackingNumber,
+        carrier,
+        trackingUrl,
+      });
+
+      await recordDropshipOrderEvent(tx, {
+        dropshipOrderId: orderId,
+        type: DropshipOrderEventType.TRACKING_UPDATED,
+        fromStatus: dropshipOrder.status,
+        toStatus: dropshipOrder.status,
+        actorId: user.id,
+        payload: {
           trackingNumber,
           carrier,
           trackingUrl,
-          updatedAt: new Date(),
+          previousTrackingNumber: dropshipOrder.trackingNumber,
         },
       });
+
+      return updatedShipmentId;
     });
 
-    // Send notification if requested
-    if (notifyCustomer) {
-      try {
-        const notificationService = new FulfillmentNotificationService();
-        await notificationService.sendShippingNotification(
-          dropshipOrder.order as any,
-          trackingNumber,
-          carrier || undefined
-        );
-      } catch (notificationError) {
-        console.error('Failed to send shipping notification:', notificationError);
-        // Don't fail the request, just log the error
+    // Send notification if requested; failures are logged, not returned
+    if (notifyCustomer && shipmentId) {
+      const shipment = await prisma.shipment.findUnique({
+        where: { id: shipmentId },
+        select: { status: true },
+      });
+      if (shipment?.status === ShipmentStatus.SHIPPED) {
+        await notifyShipmentShipped(shipmentId);
       }
     }
 
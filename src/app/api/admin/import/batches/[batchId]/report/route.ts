@@ -0,0 +1,61 @@
+/**
+ * Admin API: Import Batch Report
+ * GET /api/admin/import/batches/[batchId]/report
+ * Downloads a bulk import's per-row results as CSV
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/session';
+import { AppError } from '@/lib/errors';
+import { getImportBatchReportCsv } from '@/lib/import-batch';
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    // Check authentication
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check admin role
+    if (user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { batchId } = await params;
+    const csv = await getImportBatchReportCsv(batchId);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="import-${batchId}-results.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error('Import batch report error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build import report' },
+      { status: 500 }
+    );
+  }
+}
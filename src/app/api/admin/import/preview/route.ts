@@ -9,7 +9,7 @@ import { getImportService, type ImportPreview } from '@/services/import';
 import { getCurrentUser } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import { rateLimiter, PREVIEW_RATE_LIMIT } from '@/lib/rate-limiter';
+import { rateLimiter, getRateLimitHeaders, PREVIEW_RATE_LIMIT } from '@/lib/rate-limiter';
 
 // ============================================
 // VALIDATION SCHEMA
@@ -44,20 +44,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Check rate limit
-    const rateLimitResult = rateLimiter.limit(user.id, PREVIEW_RATE_LIMIT);
+    const rateLimitResult = await rateLimiter.limit(user.id, PREVIEW_RATE_LIMIT);
     if (!rateLimitResult.success) {
       return NextResponse.json(
         { 
           success: false, 
           error: 'Too many requests. Please try again later.',
-          retryAfter: rateLimitResult.resetAfter 
+          retryAfter: rateLimitResult.retryAfter 
         },
         { 
           status: 429,
-          headers: {
-            'Retry-After': String(rateLimitResult.resetAfter),
-            'X-RateLimit-Remaining': String(rateLimitResult.remaining),
-          }
+          headers: getRateLimitHeaders(rateLimitResult, PREVIEW_RATE_LIMIT),
         }
       );
     }
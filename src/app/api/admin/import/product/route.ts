@@ -14,7 +14,7 @@ import {
 import { getCurrentUser } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import { rateLimiter, IMPORT_RATE_LIMIT } from '@/lib/rate-limiter';
+import { rateLimiter, getRateLimitHeaders, IMPORT_RATE_LIMIT } from '@/lib/rate-limiter';
 
 // ============================================
 // VALIDATION SCHEMA
@@ -59,20 +59,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Check rate limit
-    const rateLimitResult = rateLimiter.limit(user.id, IMPORT_RATE_LIMIT);
+    const rateLimitResult = await rateLimiter.limit(user.id, IMPORT_RATE_LIMIT);
     if (!rateLimitResult.success) {
       return NextResponse.json(
         { 
           success: false, 
           error: 'Too many requests. Please try again later.',
-          retryAfter: rateLimitResult.resetAfter 
+          retryAfter: rateLimitResult.retryAfter 
         },
         { 
           status: 429,
-          headers: {
-            'Retry-After': String(rateLimitResult.resetAfter),
-            'X-RateLimit-Remaining': String(rateLimitResult.remaining),
-          }
+          headers: getRateLimitHeaders(rateLimitResult, IMPORT_RATE_LIMIT),
         }
       );
     }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/session';
+import { closeCheckouts } from '@/lib/stripe';
+import { releaseCartHolds } from '@/lib/inventory-holds';
+
+// ============================================================================
+// GET /api/checkout/cancel - Return from Stripe Checkout without paying
+// ============================================================================
+
+/**
+ * Stripe's cancel URL. Hands the cart's held stock back and closes its
+ * abandoned checkouts so they can't be paid later, then returns the
+ * customer to checkout.
+ */
+export async function GET(request: NextRequest) {
+  const redirectUrl = new URL('/checkout?canceled=true', request.url);
+
+  try {
+    const user = await getCurrentUser();
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('cart_session')?.value;
+
+    const cart = user
+      ? await prisma.cart.findFirst({ where: { userId: user.id }, select: { id: true } })
+      : sessionId
+        ? await prisma.cart.findFirst({ where: { sessionId }, select: { id: true } })
+        : null;
+
+    if (cart) {
+      const sessionIds = await releaseCartHolds(cart.id);
+      await closeCheckouts(sessionIds);
+    }
+  } catch (error) {
+    // The sweeper releases the holds anyway once they expire
+    console.error('Error releasing cancelled checkout:', error);
+  }
+
+  return NextResponse.redirect(redirectUrl);
+}
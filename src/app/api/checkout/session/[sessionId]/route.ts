@@ -127,6 +127,10 @@ export async function GET(
         
         // Build response from Stripe data
         const shippingMethod = SHIPPING_METHODS[stripeSession.metadata?.shippingMethodId || 'standard'];
+        // Quoted amount charged at checkout; the table is only a label fallback
+        const shippingAmount = stripeSession.metadata?.shippingAmount
+          ? Number(stripeSession.metadata.shippingAmount)
+          : shippingMethod?.price || 0;
         
         const response: CheckoutSessionDetailResponse = {
           id: stripeSession.id,
@@ -155,7 +159,7 @@ export async function GET(
           shippingMethod: {
             id: stripeSession.metadata?.shippingMethodId || 'standard',
             name: shippingMethod?.name || 'Standard Shipping',
-            price: shippingMethod?.price || 9.99,
+            price: shippingAmount,
             estimatedDays: shippingMethod?.estimatedDays || '5-7 business days',
           },
           items: (stripeSession.line_items?.data || []).map((item) => ({
@@ -171,7 +175,7 @@ export async function GET(
           })),
           summary: {
             subtotal: (stripeSession.amount_subtotal || 0) / 100,
-            shipping: shippingMethod?.price || 0,
+            shipping: shippingAmount,
             discount: 0,
             tax: (stripeSession.total_details?.amount_tax || 0) / 100,
             total: (stripeSession.amount_total || 0) / 100,
@@ -1,7 +1,9 @@
 // Cart Abandonment Cron Job Endpoint
 //
-// Vercel Cron Job endpoint that triggers cart abandonment email processing.
-// Runs every 15-30 minutes to send scheduled emails.
+// Vercel Cron Job endpoint that queues cart abandonment email processing;
+// the job worker sends the due emails (see src/lib/jobs). Runs every 15-30
+// minutes. Vercel Cron calls GET, which also returns the queue stats; POST
+// queues the same job, or sends a test email inline.
 //
 // Configuration in vercel.json:
 // {
@@ -12,8 +14,10 @@
 // }
 
 import { NextRequest, NextResponse } from 'next/server';
-import { runEmailScheduler, getSchedulerStats, sendTestEmail } from '@/lib/cart-abandonment/scheduler';
-import { cronConfig, cartAbandonmentConfig } from '@/lib/email/config';
+import { getSchedulerStats, sendTestEmail } from '@/lib/cart-abandonment/scheduler';
+import { enqueueCronJob } from '@/lib/jobs';
+import { cartAbandonmentConfig } from '@/lib/email/config';
+import { isAuthorizedCronRequest, unauthorizedCronResponse } from '@/lib/cron';
 import { logger } from '@/lib/logger';
 
 // ============================================================================
@@ -23,6 +27,7 @@ import { logger } from '@/lib/logger';
 interface CronResponse {
   success: boolean;
   message: string;
+  jobId?: string;
   data?: {
     totalSent: number;
     totalFailed: number;
@@ -41,66 +46,30 @@ interface CronResponse {
 }
 
 // ============================================================================
-// AUTHORIZATION
-// ============================================================================
-
-/**
- * Verify the cron job request is authorized
- */
-function isAuthorized(request: NextRequest): boolean {
-  // Check for Vercel Cron Jobs header
-  const authHeader = request.headers.get('authorization');
-  const cronSecret = cronConfig.secret;
-
-  // If no secret is configured, only allow in development
-  if (!cronSecret) {
-    if (process.env.NODE_ENV === 'development') {
-      return true;
-    }
-    logger.warn('Cron job called without secret configuration');
-    return false;
-  }
-
-  // Verify the secret
-  if (authHeader === `Bearer ${cronSecret}`) {
-    return true;
-  }
-
-  // Also check for Vercel's cron header
-  const vercelCronHeader = request.headers.get('x-vercel-cron');
-  if (vercelCronHeader === 'true' && process.env.VERCEL === '1') {
-    return true;
-  }
-
-  return false;
-}
-
-// ============================================================================
-// GET - Status Check
+// GET - Queue Scheduler and Status Check
 // ============================================================================
 
 export async function GET(request: NextRequest): Promise<NextResponse<CronResponse>> {
   try {
     // Check authorization
-    if (!isAuthorized(request)) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Unauthorized',
-          error: 'Invalid or missing authorization',
-        },
-        { status: 401 }
-      );
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedCronResponse(request);
     }
 
+    const job = await enqueueCronJob('cron.cart-abandonment');
+
     // Get current stats
     const stats = await getSchedulerStats();
 
-    return NextResponse.json({
-      success: true,
-      message: 'Cart abandonment scheduler status',
-      stats,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Cart abandonment emails queued',
+        jobId: job.id,
+        stats,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
@@ -120,7 +89,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<CronRespon
 }
 
 // ============================================================================
-// POST - Run Scheduler
+// POST - Queue Scheduler or Send Test Email
 // ============================================================================
 
 export async function POST(request: NextRequest): Promise<NextResponse<CronResponse>> {
@@ -128,19 +97,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<CronRespo
 
   try {
     // Check authorization
-    if (!isAuthorized(request)) {
-      logger.warn('Unauthorized cron job attempt', {
-        ip: request.headers.get('x-forwarded-for') || 'unknown',
-      });
-      
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Unauthorized',
-          error: 'Invalid or missing authorization',
-        },
-        { status: 401 }
-      );
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedCronResponse(request);
     }
 
     // Check if cart abandonment is enabled
@@ -159,8 +117,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<CronRespo
       });
     }
 
-    logger.info('Starting cart abandonment cron job');
-
     // Parse request body for optional test mode
     let testEmail: string | null = null;
     let testEmailNumber: 1 | 2 | 3 = 1;
@@ -194,29 +150,18 @@ export async function POST(request: NextRequest): Promise<NextResponse<CronRespo
       });
     }
 
-    // Run the email scheduler
-    const results = await runEmailScheduler();
+    const job = await enqueueCronJob('cron.cart-abandonment');
 
-    const duration = Date.now() - startTime;
+    logger.info('Cart abandonment job queued', { jobId: job.id });
 
-    logger.info('Cart abandonment cron job completed', {
-      totalSent: results.totalSent,
-      totalFailed: results.totalFailed,
-      duration: `${duration}ms`,
-    });
-
-    return NextResponse.json({
-      success: true,
-      message: 'Cart abandonment emails processed',
-      data: {
-        totalSent: results.totalSent,
-        totalFailed: results.totalFailed,
-        email1Sent: results.email1.filter((r) => r.success).length,
-        email2Sent: results.email2.filter((r) => r.success).length,
-        email3Sent: results.email3.filter((r) => r.success).length,
-        duration,
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Cart abandonment emails queued',
+        jobId: job.id,
       },
-    });
+      { status: 202 }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const duration = Date.now() - startTime;
@@ -0,0 +1,33 @@
+// Inventory Check Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues the daily supplier stock sync: the
+// job updates variant inventory for the least recently checked product
+// sources, hides variants whose AliExpress SKU has vanished, marks sold-out
+// or removed listings and emails a low-stock alert. The job worker runs it
+// (see src/lib/jobs). Vercel Cron calls GET; POST queues the same job for
+// manual runs.
+//
+// Set ALIEXPRESS_FIXTURES_DIR to read recorded product pages
+// (<dir>/<productId>.html) instead of scraping AliExpress.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/inventory-check",
+//     "schedule": "0 9 * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.inventory-check', 'Inventory check');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
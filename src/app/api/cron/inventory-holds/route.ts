@@ -0,0 +1,30 @@
+// Inventory Holds Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues the inventory hold sweeper: the job
+// releases checkout holds past their expiry whose Stripe
+// checkout.session.expired webhook never arrived, returning the stock to
+// sale (see src/lib/inventory-holds). The job worker runs it (see
+// src/lib/jobs). Runs every 5 minutes. Vercel Cron calls GET; POST queues
+// the same job for manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/inventory-holds",
+//     "schedule": "*/5 * * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.inventory-holds', 'Inventory hold sweep');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
@@ -0,0 +1,103 @@
+// Background Jobs Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that runs due background jobs (see src/lib/jobs)
+// until none are left or its time is nearly up. Hosts that run the job
+// worker (`npm run worker`) don't need it; on Vercel it is what runs the
+// queue. Jobs whose time limit doesn't fit in the time left are left for
+// the next run. Runs every minute. Vercel Cron calls GET; POST does the
+// same for manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/jobs",
+//     "schedule": "* * * * *"
+//   }]
+// }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { drainJobs } from '@/lib/jobs/worker';
+import { isAuthorizedCronRequest, unauthorizedCronResponse, type CronResponse } from '@/lib/cron';
+import { logger } from '@/lib/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type JobsCronResponse = CronResponse<{
+  completed: number;
+  failed: number;
+  duration: number;
+}>;
+
+/**
+ * Time kept back from `maxDuration` to record the last job's outcome
+ */
+const SAFETY_MARGIN_MS = 20 * 1000;
+
+// ============================================================================
+// RUN JOBS
+// ============================================================================
+
+async function handleRequest(request: NextRequest): Promise<NextResponse<JobsCronResponse>> {
+  const startTime = Date.now();
+
+  try {
+    // Check authorization
+    if (!isAuthorizedCronRequest(request)) {
+      return unauthorizedCronResponse(request);
+    }
+
+    const deadline = new Date(startTime + maxDuration * 1000 - SAFETY_MARGIN_MS);
+    const results = await drainJobs(deadline);
+    const duration = Date.now() - startTime;
+
+    if (results.completed + results.failed > 0) {
+      logger.info('Background jobs cron run completed', {
+        ...results,
+        duration: `${duration}ms`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Background jobs processed',
+      data: { ...results, duration },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const duration = Date.now() - startTime;
+
+    logger.error('Background jobs cron run failed', error as Error, {
+      duration: `${duration}ms`,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Cron job failed',
+        error: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<JobsCronResponse>> {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<JobsCronResponse>> {
+  return handleRequest(request);
+}
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
+
+// Maximum duration for the cron job (Vercel Pro/Enterprise)
+// Supplier scrapes take minutes, so give them a full run
+export const maxDuration = 300; // 5 minutes
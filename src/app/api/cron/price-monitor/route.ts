@@ -0,0 +1,30 @@
+// Price Monitor Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues a supplier price check: the job
+// re-scrapes prices for the least recently synced product sources,
+// reprices small cost changes automatically and queues large ones for
+// review at /admin/pricing. The job worker runs it (see src/lib/jobs).
+// Runs every 6 hours. Vercel Cron calls GET; POST queues the same job for
+// manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/price-monitor",
+//     "schedule": "0 */6 * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.price-monitor', 'Price monitor');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
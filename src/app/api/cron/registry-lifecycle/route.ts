@@ -0,0 +1,29 @@
+// Registry Lifecycle Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues the registry lifecycle job: the job
+// moves registries past their event date to COMPLETED (and gives their
+// owners a completion discount) and ARCHIVES old completed registries. The
+// job worker runs it (see src/lib/jobs). Runs daily. Vercel Cron calls GET;
+// POST queues the same job for manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/registry-lifecycle",
+//     "schedule": "0 8 * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.registry-lifecycle', 'Registry lifecycle');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
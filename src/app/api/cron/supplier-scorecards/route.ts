@@ -0,0 +1,29 @@
+// Supplier Scorecards Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues the supplier scorecard job: the job
+// scores every supplier on its recent dropship orders, stores the day's
+// scorecards and flags suppliers below the threshold for suspension. The
+// job worker runs it (see src/lib/jobs). Runs daily. Vercel Cron calls GET;
+// POST queues the same job for manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/supplier-scorecards",
+//     "schedule": "0 7 * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.supplier-scorecards', 'Supplier scorecards');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
@@ -0,0 +1,29 @@
+// Tracking Poll Cron Job Endpoint
+//
+// Vercel Cron Job endpoint that queues the tracking poll job: the job asks
+// the tracking provider about parcels not checked in the last few hours,
+// stores new carrier scans and marks parcels shipped or delivered (see
+// src/lib/tracking). The job worker runs it (see src/lib/jobs). Runs hourly.
+// Vercel Cron calls GET; POST queues the same job for manual runs.
+//
+// Configuration in vercel.json:
+// {
+//   "crons": [{
+//     "path": "/api/cron/tracking-poll",
+//     "schedule": "0 * * * *"
+//   }]
+// }
+
+import { createQueueCronHandler } from '@/lib/cron';
+
+const handleRequest = createQueueCronHandler('cron.tracking-poll', 'Tracking poll');
+
+export const GET = handleRequest;
+export const POST = handleRequest;
+
+// ============================================================================
+// EDGE RUNTIME CONFIGURATION
+// ============================================================================
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
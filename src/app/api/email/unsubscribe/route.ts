@@ -1,16 +1,20 @@
 /**
  * Email Unsubscribe Endpoint
  *
- * Handles unsubscribe requests from cart abandonment emails.
- * Users can unsubscribe from marketing emails while still receiving
- * essential transactional emails (order confirmations, etc.)
+ * Handles unsubscribe requests from marketing emails (newsletter and cart
+ * abandonment). One opt-out covers all marketing email, while users still
+ * receive essential transactional emails (order confirmations, etc.)
+ *
+ * Links are signed with `getUnsubscribeUrl`. Besides the link in the email
+ * footer, this supports RFC 8058 one-click unsubscribe: mail clients POST
+ * `List-Unsubscribe=One-Click` to the List-Unsubscribe URL.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { unsubscribeEmail, isEmailUnsubscribed } from '@/lib/cart-abandonment/tracker';
 import { logger } from '@/lib/logger';
 import { emailConfig } from '@/lib/email/config';
+import { verifyUnsubscribeToken, type UnsubscribeType } from '@/lib/email/unsubscribe';
+import { isUnsubscribedFromMarketing, unsubscribeFromMarketing } from '@/lib/newsletter';
 
 // ============================================================================
 // TYPES
@@ -27,6 +31,16 @@ interface UnsubscribeResponse {
 // HELPER FUNCTIONS
 // ============================================================================
 
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Read the email type from a request, defaulting to cart abandonment for
+ * links sent before the type was added
+ */
+function parseUnsubscribeType(type: unknown): UnsubscribeType {
+  return type === 'newsletter' ? 'newsletter' : 'cart-abandonment';
+}
+
 /**
  * Generate a simple HTML response page
  */
@@ -165,7 +179,7 @@ function generateHtmlResponse(
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const searchParams = request.nextUrl.searchParams;
   const email = searchParams.get('email');
-  const type = searchParams.get('type') || 'cart-abandonment';
+  const type = parseUnsubscribeType(searchParams.get('type'));
   const token = searchParams.get('token');
 
   try {
@@ -189,8 +203,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_REGEX.test(email)) {
       logger.warn('Unsubscribe attempt with invalid email', { email });
       
       return new NextResponse(
@@ -208,14 +221,33 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // Validate signature
+    if (!verifyUnsubscribeToken(email, token)) {
+      logger.warn('Unsubscribe attempt with invalid token', { email, type });
+
+      return new NextResponse(
+        generateHtmlResponse(
+          'Invalid Link',
+          `This unsubscribe link is invalid or incomplete. Please use the link in your most recent email, or contact <a href="mailto:${emailConfig.supportEmail}">${emailConfig.supportEmail}</a>.`,
+          false
+        ),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'text/html',
+          },
+        }
+      );
+    }
+
     // Check if already unsubscribed
-    const alreadyUnsubscribed = await isEmailUnsubscribed(email);
+    const alreadyUnsubscribed = await isUnsubscribedFromMarketing(email);
 
     if (alreadyUnsubscribed) {
       return new NextResponse(
         generateHtmlResponse(
           'Already Unsubscribed',
-          `You're already unsubscribed from cart abandonment emails. You won't receive any more reminders about items left in your cart.`,
+          `You're already unsubscribed from Baby Petite marketing emails. You won't receive our newsletter or reminders about items left in your cart.`,
           true
         ),
         {
@@ -228,14 +260,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Process unsubscribe
-    await unsubscribeEmail(email);
-
-    logger.info('Email unsubscribed', { email, type });
+    await unsubscribeFromMarketing(email, type);
 
     return new NextResponse(
       generateHtmlResponse(
         'Unsubscribed Successfully',
-        `You've been unsubscribed from cart abandonment emails. You won't receive any more reminders about items left in your cart.<br><br>Note: You'll still receive essential emails like order confirmations and shipping updates.`,
+        `You've been unsubscribed from Baby Petite marketing emails. You won't receive our newsletter or reminders about items left in your cart.<br><br>Note: You'll still receive essential emails like order confirmations and shipping updates.`,
         true
       ),
       {
@@ -270,13 +300,66 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 }
 
 // ============================================================================
-// POST - API endpoint for programmatic unsubscribe
+// POST - One-click (RFC 8058) and programmatic unsubscribe
 // ============================================================================
 
+/**
+ * Read the unsubscribe request from a POST
+ *
+ * One-click requests are form-encoded with a `List-Unsubscribe=One-Click`
+ * body and carry the email and token in the List-Unsubscribe URL's query.
+ * API requests send JSON with `email`, `type` and `token`.
+ */
+async function parsePostRequest(request: NextRequest): Promise<{
+  email?: string;
+  type: UnsubscribeType;
+  token?: string;
+  oneClick: boolean;
+} | null> {
+  const contentType = request.headers.get('content-type') || '';
+  const searchParams = request.nextUrl.searchParams;
+
+  if (
+    contentType.includes('application/x-www-form-urlencoded') ||
+    contentType.includes('multipart/form-data')
+  ) {
+    const formData = await request.formData();
+    if (formData.get('List-Unsubscribe') !== 'One-Click') {
+      return null;
+    }
+
+    return {
+      email: searchParams.get('email') ?? undefined,
+      type: parseUnsubscribeType(searchParams.get('type')),
+      token: searchParams.get('token') ?? undefined,
+      oneClick: true,
+    };
+  }
+
+  const body = await request.json();
+  return {
+    email: body.email,
+    type: parseUnsubscribeType(body.type),
+    token: body.token,
+    oneClick: false,
+  };
+}
+
 export async function POST(request: NextRequest): Promise<NextResponse<UnsubscribeResponse>> {
   try {
-    const body = await request.json();
-    const { email, type = 'cart-abandonment' } = body;
+    const unsubscribeRequest = await parsePostRequest(request);
+
+    if (!unsubscribeRequest) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Expected List-Unsubscribe=One-Click',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { email, type, token, oneClick } = unsubscribeRequest;
 
     // Validate email
     if (!email) {
@@ -290,8 +373,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<Unsubscri
     }
 
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_REGEX.test(email)) {
       return NextResponse.json(
         {
           success: false,
@@ -301,10 +383,23 @@ export async function POST(request: NextRequest): Promise<NextResponse<Unsubscri
       );
     }
 
+    // Validate signature
+    if (!verifyUnsubscribeToken(email, token)) {
+      logger.warn('Unsubscribe attempt with invalid token via API', { email, type, oneClick });
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid unsubscribe token',
+        },
+        { status: 403 }
+      );
+    }
+
     // Process unsubscribe
-    await unsubscribeEmail(email);
+    await unsubscribeFromMarketing(email, type);
 
-    logger.info('Email unsubscribed via API', { email, type });
+    logger.info('Email unsubscribed via API', { email, type, oneClick });
 
     return NextResponse.json({
       success: true,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCurrentUser } from '@/lib/session';
 import { AppError, UnauthorizedError, NotFoundError, ForbiddenError } from '@/lib/errors';
+import { maskGiftShippingAddress, type GiftAddressFields } from '@/lib/registry/gifts';
+import { getOrderShipments } from '@/services/fulfillment/shipments';
 
 // ============================================================================
 // TYPES
@@ -74,6 +76,18 @@ export interface OrderDetailResponse {
     estimatedDelivery: string | null;
     actualDelivery: string | null;
   } | null;
+  /** Parcels the order ships in, oldest first */
+  shipments: Array<{
+    id: string;
+    status: string;
+    carrier: string | null;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    estimatedDelivery: string | null;
+    shippedAt: string | null;
+    deliveredAt: string | null;
+    items: Array<{ orderItemId: string; quantity: number }>;
+  }>;
   payment: {
     provider: string;
     status: string;
@@ -164,12 +178,38 @@ export async function GET(
       });
     }
 
-    if (order.shippedAt) {
+    const shipments = await getOrderShipments(order.id);
+
+    if (shipments.length > 1) {
+      // One entry per parcel
+      shipments.forEach((shipment, index) => {
+        const label = `Package ${index + 1} of ${shipments.length}`;
+        if (shipment.shippedAt) {
+          timeline.push({
+            status: 'shipped',
+            timestamp: shipment.shippedAt.toISOString(),
+            description: shipment.trackingNumber
+              ? `${label} shipped via ${shipment.carrier || 'carrier'} - Tracking: ${shipment.trackingNumber}`
+              : `${label} shipped`,
+          });
+        }
+        if (shipment.deliveredAt && shipment.deliveredAt.getTime() !== order.deliveredAt?.getTime()) {
+          // The last parcel's arrival is the order's, listed below
+          timeline.push({
+            status: 'delivered',
+            timestamp: shipment.deliveredAt.toISOString(),
+            description: `${label} delivered`,
+          });
+        }
+      });
+      timeline.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    } else if (order.shippedAt) {
+      const tracking = shipments[0] ?? order.shipping;
       timeline.push({
         status: 'shipped',
         timestamp: order.shippedAt.toISOString(),
-        description: order.shipping?.trackingNumber
-          ? `Shipped via ${order.shipping.carrier || 'carrier'} - Tracking: ${order.shipping.trackingNumber}`
+        description: tracking?.trackingNumber
+          ? `Shipped via ${tracking.carrier || 'carrier'} - Tracking: ${tracking.trackingNumber}`
           : 'Order shipped',
       });
     }
@@ -216,7 +256,10 @@ export async function GET(
           },
         },
       })),
-      shippingAddress: order.shippingAddress as OrderDetailResponse['shippingAddress'],
+      // Gifters see registry gifts' destination without the street address
+      shippingAddress: (order.registryId && user.role === 'CUSTOMER'
+        ? maskGiftShippingAddress(order.shippingAddress as unknown as GiftAddressFields)
+        : order.shippingAddress) as OrderDetailResponse['shippingAddress'],
       billingAddress: order.billingAddress as OrderDetailResponse['billingAddress'],
       subtotal: order.subtotal.toNumber(),
       discountAmount: order.discountAmount.toNumber(),
@@ -239,6 +282,17 @@ export async function GET(
             actualDelivery: order.shipping.actualDelivery?.toISOString() || null,
           }
         : null,
+      shipments: shipments.map((shipment) => ({
+        id: shipment.id,
+        status: shipment.status,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        estimatedDelivery: shipment.estimatedDelivery?.toISOString() || null,
+        shippedAt: shipment.shippedAt?.toISOString() || null,
+        deliveredAt: shipment.deliveredAt?.toISOString() || null,
+        items: shipment.items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+      })),
       payment: order.payment
         ? {
             provider: order.payment.provider,
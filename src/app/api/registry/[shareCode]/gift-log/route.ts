@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/session';
+import { AppError, NotFoundError, ForbiddenError } from '@/lib/errors';
+import { getRegistryGiftLog, toGiftLogCsv } from '@/lib/registry/gift-log';
+
+// ============================================================================
+// GET /api/registry/[shareCode]/gift-log - Export gift log as CSV
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shareCode: string }> }
+) {
+  try {
+    const { shareCode } = await params;
+    const user = await getCurrentUser();
+
+    if (!user) {
+      throw new ForbiddenError('Authentication required');
+    }
+
+    // Find registry
+    const registry = await prisma.registry.findUnique({
+      where: { shareCode: shareCode.toUpperCase() },
+      select: { id: true, userId: true, shareCode: true },
+    });
+
+    if (!registry) {
+      throw new NotFoundError('Registry not found');
+    }
+
+    // Check ownership
+    if (registry.userId !== user.id) {
+      throw new ForbiddenError('You do not have permission to view this gift log');
+    }
+
+    const entries = await getRegistryGiftLog(registry.id);
+
+    return new NextResponse(toGiftLogCsv(entries), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="registry-${registry.shareCode}-gifts.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+    console.error('Error exporting gift log:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,14 @@ import { z } from 'zod';
 import {
   AppError,
   BadRequestError,
+  RateLimitError,
 } from '@/lib/errors';
+import {
+  rateLimiter,
+  getClientIp,
+  getRateLimitHeaders,
+  SEARCH_RATE_LIMIT,
+} from '@/lib/rate-limiter';
 
 // ============================================================================
 // TYPES & VALIDATION
@@ -64,7 +71,18 @@ export interface GlobalSearchResponse {
 // ============================================================================
 
 export async function GET(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {};
+
   try {
+    // Rate limit by client IP
+    const rateLimit = await rateLimiter.limit(getClientIp(request.headers), SEARCH_RATE_LIMIT);
+    rateLimitHeaders = getRateLimitHeaders(rateLimit, SEARCH_RATE_LIMIT);
+    if (rateLimit.limited) {
+      throw new RateLimitError('Too many searches. Please try again shortly.', {
+        retryAfter: rateLimit.retryAfter,
+      });
+    }
+
     const { searchParams } = new URL(request.url);
 
     // Parse and validate query parameters
@@ -278,12 +296,12 @@ export async function GET(request: NextRequest) {
       totalResults,
     };
 
-    return NextResponse.json(response);
+    return NextResponse.json(response, { headers: rateLimitHeaders });
   } catch (error) {
     if (error instanceof AppError) {
       return NextResponse.json(
         { error: error.message, code: error.code },
-        { status: error.statusCode }
+        { status: error.statusCode, headers: rateLimitHeaders }
       );
     }
     console.error('Error performing search:', error);
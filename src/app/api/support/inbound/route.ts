@@ -0,0 +1,160 @@
+// Support Inbound Email Endpoint
+//
+// Receives customer replies to support ticket emails and appends them to the
+// ticket thread. Accepts SendGrid Inbound Parse posts (multipart form with
+// `from`, `to`, `subject`, `text` and raw `headers`) or JSON with the same
+// fields, where `headers` may be a raw block or an object.
+//
+// Point the inbound route for the SUPPORT_REPLY_TO domain at:
+//   /api/support/inbound?secret=<SUPPORT_INBOUND_SECRET>
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  addCustomerReply,
+  extractReplyText,
+  findTicketForInboundEmail,
+  parseEmailHeaders,
+  parseMessageIds,
+  parseReplyToken,
+} from '@/lib/support';
+import { logger } from '@/lib/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface InboundEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  headers: Record<string, string>;
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+/**
+ * Verify the request carries the inbound secret (query or bearer token)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.SUPPORT_INBOUND_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'development') {
+      return true;
+    }
+    logger.warn('Support inbound email called without secret configuration');
+    return false;
+  }
+
+  return (
+    request.nextUrl.searchParams.get('secret') === secret ||
+    request.headers.get('authorization') === `Bearer ${secret}`
+  );
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+async function parseInboundEmail(request: NextRequest): Promise<InboundEmail> {
+  const contentType = request.headers.get('content-type') || '';
+
+  let fields: Record<string, unknown>;
+  if (contentType.includes('application/json')) {
+    fields = await request.json();
+  } else {
+    const form = await request.formData();
+    fields = Object.fromEntries(
+      Array.from(form.entries()).filter(([, value]) => typeof value === 'string')
+    );
+  }
+
+  const rawHeaders = fields.headers;
+  const headers =
+    typeof rawHeaders === 'string'
+      ? parseEmailHeaders(rawHeaders)
+      : Object.fromEntries(
+          Object.entries((rawHeaders as Record<string, string>) || {}).map(([key, value]) => [
+            key.toLowerCase(),
+            String(value),
+          ])
+        );
+
+  return {
+    from: String(fields.from || headers.from || ''),
+    to: [fields.to, headers.to, headers.cc, headers['delivered-to']].filter(Boolean).join(', '),
+    subject: String(fields.subject || headers.subject || ''),
+    text: String(fields.text || ''),
+    headers,
+  };
+}
+
+function getSenderEmail(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match ? match[1] : from).trim().toLowerCase();
+}
+
+// ============================================================================
+// POST - Receive Reply
+// ============================================================================
+
+/**
+ * Append an inbound email to its ticket
+ *
+ * Unmatched or rejected emails are acknowledged with 200 so the provider
+ * does not retry them.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const email = await parseInboundEmail(request);
+    const messageIds = [
+      ...parseMessageIds(email.headers['in-reply-to']),
+      ...parseMessageIds(email.headers.references),
+    ];
+
+    const ticket = await findTicketForInboundEmail({
+      to: email.to,
+      subject: email.subject,
+      messageIds,
+    });
+
+    if (!ticket) {
+      logger.warn('Inbound support email did not match a ticket', { subject: email.subject });
+      return NextResponse.json({ success: false, message: 'No matching ticket' });
+    }
+
+    // The reply token is unguessable; other matches must come from the customer
+    const sender = getSenderEmail(email.from);
+    const viaReplyToken = parseReplyToken(email.to) === ticket.replyToken;
+    if (!viaReplyToken && sender !== ticket.customerEmail) {
+      logger.warn('Inbound support email sender does not match ticket', {
+        ticketId: ticket.id,
+        sender,
+      });
+      return NextResponse.json({ success: false, message: 'Sender does not match ticket' });
+    }
+
+    const body = extractReplyText(email.text);
+    if (!body) {
+      return NextResponse.json({ success: false, message: 'Empty reply' });
+    }
+
+    const message = await addCustomerReply(ticket.id, {
+      body,
+      authorId: ticket.userId,
+      emailMessageId: parseMessageIds(email.headers['message-id'])[0] || null,
+    });
+
+    return NextResponse.json({ success: true, ticketId: ticket.id, messageId: message.id });
+  } catch (error) {
+    logger.error('Support inbound email failed', error instanceof Error ? error : undefined);
+    return NextResponse.json({ success: false, error: 'Failed to process email' }, { status: 500 });
+  }
+}
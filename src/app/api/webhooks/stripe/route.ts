@@ -1,12 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { constructWebhookEvent } from '@/lib/stripe';
+import { constructWebhookEvent, createRefund } from '@/lib/stripe';
 import { prisma } from '@/lib/prisma';
-import { getTaxRate, calculateTax, formatTaxRate } from '@/lib/tax';
-import { OrderStatus, PaymentStatus, FulfillmentStatus } from '@prisma/client';
+import { recordTaxableSale, toTaxAddress } from '@/lib/tax';
+import { getShippingQuote } from '@/lib/shipping';
+import { OrderStatus, PaymentStatus, FulfillmentStatus, Prisma, type Address } from '@prisma/client';
 import Stripe from 'stripe';
-import { sendEmail } from '@/lib/email/service';
+import { enqueueEmail } from '@/lib/jobs';
 import { OrderConfirmationEmail } from '@/lib/email/templates/order-confirmation';
 import { render } from '@react-email/render';
+import { createDropshipOrderForOrder } from '@/services/fulfillment/order-handler';
+import { planOrderShipments } from '@/services/fulfillment/shipments';
+import { claimRegistryItem, maskGiftShippingAddress } from '@/lib/registry/gifts';
+import { ConflictError, NotFoundError, OrderAlreadyProcessedError } from '@/lib/errors';
+import { convertCheckoutHolds, releaseCheckoutHolds } from '@/lib/inventory-holds';
+import { redeemDiscount } from '@/lib/promotions';
+import {
+  fromCheckoutSession,
+  getAmountMismatch,
+  getCheckoutSnapshot,
+  isCheckoutPaymentIntent,
+  retrievePaidCheckout,
+  type PaidCheckout,
+} from '@/lib/payments';
 
 // ============================================================================
 // TYPES
@@ -59,10 +74,18 @@ export async function POST(request: NextRequest): Promise<NextResponse<WebhookRe
         await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
         break;
 
+      case 'checkout.session.expired':
+        await handleCheckoutSessionExpired(event.data.object as Stripe.Checkout.Session);
+        break;
+
       case 'payment_intent.succeeded':
         await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
         break;
 
+      case 'payment_intent.canceled':
+        await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent);
+        break;
+
       case 'payment_intent.payment_failed':
         await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
         break;
@@ -81,11 +104,285 @@ export async function POST(request: NextRequest): Promise<NextResponse<WebhookRe
 
     return NextResponse.json({ received: true, message: 'Webhook processed' });
   } catch (error) {
+    console.error('Error processing Stripe webhook:', error);
+    return NextResponse.json(
+      { received: false, error: 'Webhook handler failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+/**
+ * Handle checkout.session.completed event
+ * Creates the order once a hosted Stripe Checkout is paid.
+ */
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
+  console.log(`Processing completed checkout session: ${session.id}`);
+  await createOrderFromCheckout(fromCheckoutSession(session));
+}
+
+/**
+ * Create the order from a paid checkout, hosted or on-site, at the prices
+ * snapshotted when the customer was sent to pay. If Stripe took a different
+ * amount, the order is flagged. Registry gifts ship to the registrant and
+ * are counted against the registry here; if someone else bought them first,
+ * the payment is refunded. Runs once per checkout however often Stripe
+ * retries.
+ */
+async function createOrderFromCheckout(checkout: PaidCheckout): Promise<void> {
+  if (!checkout.paid) {
+    console.log(`Checkout ${checkout.id} is not paid yet`);
+    return;
+  }
+
+  const paymentIntentId = checkout.paymentIntentId;
+
+  // Skip if the order was already created (e.g. by the success page)
+  if (paymentIntentId) {
+    const existingPayment = await prisma.payment.findFirst({
+      where: { stripePaymentIntentId: paymentIntentId },
+    });
+    if (existingPayment) {
+      console.log(`Order already exists for payment intent: ${paymentIntentId}`);
+      return;
+    }
+  }
+
+  // Guest checkouts have no userId; the order is kept against their email
+  const metadata = checkout.metadata;
+
+  // What the customer was charged for; the cart and prices may have changed since
+  const snapshot = await getCheckoutSnapshot(checkout.id);
+
+  // Without it there's nothing to price the order at, so the payment goes back
+  if (!snapshot || snapshot.lines.length === 0) {
+    console.error(`Checkout snapshot not found or empty for checkout: ${checkout.id}`);
+    await refundUnpricedCheckout(checkout);
+    return;
+  }
+
+  // Registry gifts ship to the registrant's address
+  const registry = metadata.registryId
+    ? await prisma.registry.findUnique({
+        where: { id: metadata.registryId },
+        include: { shippingAddress: true },
+      })
+    : null;
+
+  if (metadata.registryId && !registry?.shippingAddress) {
+    await refundRegistryGift(checkout, 'The registry no longer has a shipping address');
+    return;
+  }
+
+  // Resolve shipping address: registry or saved address first, then what Stripe collected
+  const savedAddress = registry?.shippingAddress ?? (metadata.shippingAddressId
+    ? await prisma.address.findUnique({ where: { id: metadata.shippingAddressId } })
+    : null);
+  const collected = checkout.shipping?.address;
+  const [firstName, ...lastNameParts] = (checkout.shipping?.name || '').split(' ');
+  const shippingAddress = savedAddress
+    ? toAddressSnapshot(savedAddress)
+    : {
+        firstName,
+        lastName: lastNameParts.join(' '),
+        company: null,
+        line1: collected?.line1 || '',
+        line2: collected?.line2 || null,
+        city: collected?.city || '',
+        state: collected?.state || '',
+        zip: collected?.postal_code || '',
+        country: collected?.country || 'US',
+        phone: checkout.shipping?.phone || null,
+      };
+
+  // The carrier and service to ship with; the amount was charged at checkout
+  const shippingQuote = metadata.shippingQuoteId
+    ? await getShippingQuote(metadata.shippingQuoteId)
+    : null;
+  const { subtotal, discountAmount, shippingAmount, total } = snapshot;
+  const amountMismatch = getAmountMismatch(checkout, total);
+
+  // Gifts are billed to the gifter, not the registrant
+  const billingAddress = registry
+    ? await getGifterBillingAddress(checkout, metadata.billingAddressId)
+    : shippingAddress;
+
+  let order;
+  try {
+    order = await prisma.$transaction(async (tx) => {
+      // Sell the held stock; fails if the success page already created the order
+      const shortages = await convertCheckoutHolds(tx, checkout.id, snapshot.lines);
+      const flagReasons = shortages.map((shortage) => {
+        const sku = snapshot.lines.find((line) => line.variantId === shortage.variantId)?.sku;
+        return `Hold lapsed before payment: ${shortage.requested - shortage.available} × ${sku} out of stock, refund or backorder`;
+      });
+      if (amountMismatch) {
+        flagReasons.push(amountMismatch);
+      }
+
+      // Count gifts against the registry; fails if someone else got there first
+      for (const line of snapshot.lines) {
+        if (registry && line.registryItemId) {
+          await claimRegistryItem(tx, line.registryItemId, line.quantity);
+        }
+      }
+
+      const newOrder = await tx.order.create({
+        data: {
+          orderNumber: metadata.orderNumber || generateOrderNumber(),
+          userId: metadata.userId || null,
+          guestSessionId: metadata.guestSessionId || null,
+          subtotal,
+          discountAmount,
+          shippingAmount,
+          taxAmount: snapshot.taxAmount,
+          taxDetails: snapshot.taxDetails,
+          total,
+          couponCode: snapshot.couponCode,
+          discountId: snapshot.discountId,
+          promotions: snapshot.promotions.length > 0 ? snapshot.promotions : undefined,
+          status: OrderStatus.CONFIRMED,
+          paymentStatus: PaymentStatus.COMPLETED,
+          fulfillmentStatus: FulfillmentStatus.UNFULFILLED,
+          shippingAddress,
+          billingAddress,
+          customerEmail: checkout.email,
+          customerPhone: registry ? billingAddress.phone : shippingAddress.phone,
+          notes: metadata.notes || null,
+          registryId: registry?.id,
+          giftMessage: registry ? metadata.giftMessage || null : undefined,
+          gifterName: registry ? metadata.gifterName || null : undefined,
+          showGifterName: metadata.showGifterName !== 'false',
+          confirmedAt: new Date(),
+          flaggedAt: flagReasons.length > 0 ? new Date() : undefined,
+          flagReasons,
+        },
+      });
+
+      for (const line of snapshot.lines) {
+        await tx.orderItem.create({
+          data: {
+            orderId: newOrder.id,
+            variantId: line.variantId,
+            productName: line.productName,
+            variantName: line.variantName,
+            sku: line.sku,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            totalPrice: line.unitPrice * line.quantity,
+            discountAmount: line.discountAmount,
+            registryItemId: registry ? line.registryItemId : null,
+          },
+        });
+      }
+
+      await tx.payment.create({
+        data: {
+          orderId: newOrder.id,
+          provider: 'stripe',
+          stripePaymentIntentId: paymentIntentId,
+          amount: checkout.amountReceived,
+          status: PaymentStatus.COMPLETED,
+          paymentMethod: checkout.paymentMethod,
+          cardBrand: checkout.cardBrand,
+          cardLast4: checkout.cardLast4,
+        },
+      });
+
+      await tx.shipping.create({
+        data: {
+          orderId: newOrder.id,
+          // Rate-table quotes have no carrier until fulfillment picks one
+          carrier: shippingQuote && shippingQuote.carrier !== 'table' ? shippingQuote.carrier : undefined,
+          service: shippingQuote?.service || metadata.shippingMethodId || 'standard',
+        },
+      });
+
+      // Count the use against the code's limits
+      if (snapshot.discountId) {
+        await redeemDiscount(tx, snapshot.discountId, newOrder.id);
+      }
+
+      // The cart may have been deleted since checkout
+      await tx.cartItem.deleteMany({
+        where: { cartId: snapshot.cartId },
+      });
+      await tx.cart.updateMany({
+        where: { id: snapshot.cartId },
+        data: { discountCodeId: null },
+      });
+
+      return newOrder;
+    });
+  } catch (error) {
+    // The payment is unique, so a second order for it can't be created
+    // even once its holds have lapsed
+    if (
+      error instanceof OrderAlreadyProcessedError ||
+      (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+    ) {
+      console.log(`Order already created for checkout: ${checkout.id}`);
+      return;
+    }
+    if (registry && (error instanceof ConflictError || error instanceof NotFoundError)) {
+      await refundRegistryGift(checkout, error.message);
+      return;
+    }
     console.error('Error creating order in transaction:', error);
     throw error;
   }
 
-  console.log(`Order created: ${order.orderNumber} from checkout session: ${session.id}`);
+  console.log(`Order created: ${order.orderNumber} from checkout: ${checkout.id}`);
+
+  // Track sales per jurisdiction for economic nexus monitoring
+  try {
+    await recordTaxableSale(toTaxAddress(shippingAddress), subtotal - discountAmount + shippingAmount);
+  } catch (nexusError) {
+    console.error('Failed to record taxable sale:', nexusError);
+  }
+
+  // Create dropship order for any dropshipped products
+  try {
+    const createdOrderItems = await prisma.orderItem.findMany({
+      where: { orderId: order.id },
+    });
+
+    await createDropshipOrderForOrder(
+      {
+        id: order.id,
+        orderNumber: order.orderNumber,
+        customerEmail: order.customerEmail,
+        customerPhone: order.customerPhone,
+        shippingAddress: order.shippingAddress as Record<string, unknown>,
+        subtotal: Number(order.subtotal),
+        shippingAmount: Number(order.shippingAmount),
+        total: Number(order.total),
+      },
+      createdOrderItems.map((item) => ({
+        id: item.id,
+        variantId: item.variantId,
+        productName: item.productName,
+        variantName: item.variantName,
+        sku: item.sku,
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        totalPrice: Number(item.totalPrice),
+      }))
+    );
+  } catch (dropshipError) {
+    console.error('Failed to create dropship order:', dropshipError);
+  }
+
+  // Split the order into the parcels it ships in, now its sources are known
+  try {
+    await prisma.$transaction((tx) => planOrderShipments(tx, order.id));
+  } catch (shipmentError) {
+    console.error('Failed to plan shipments:', shipmentError);
+  }
 
   // Send order confirmation email asynchronously (do not block)
   try {
@@ -113,7 +410,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<WebhookRe
     });
 
     if (orderWithDetails) {
-      const emailHtml = render(
+      const emailHtml = await render(
         OrderConfirmationEmail({
           orderNumber: order.orderNumber,
           customerName: order.customerEmail.split('@')[0],
@@ -131,7 +428,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<WebhookRe
           tax: order.taxAmount.toNumber(),
           discount: order.discountAmount.toNumber(),
           total: order.total.toNumber(),
-          shippingAddress: order.shippingAddress as any,
+          // Gifters never see the registrant's address
+          shippingAddress: (registry ? maskGiftShippingAddress(shippingAddress) : order.shippingAddress) as any,
           billingAddress: order.billingAddress as any,
           shippingMethod: {
             name: orderWithDetails.shipping?.service || 'Standard Shipping',
@@ -141,22 +439,35 @@ export async function POST(request: NextRequest): Promise<NextResponse<WebhookRe
         })
       );
 
-      await sendEmail({
-        to: order.customerEmail,
-        subject: `Your Baby Petite Order ${order.orderNumber} is Confirmed!`,
-        html: emailHtml,
-      });
-      console.log(`Order confirmation email sent to ${order.customerEmail}`);
+      await enqueueEmail(
+        {
+          to: order.customerEmail,
+          subject: `Your Baby Petite Order ${order.orderNumber} is Confirmed!`,
+          html: emailHtml,
+        },
+        { uniqueKey: `order-confirmation:${order.id}` }
+      );
+      console.log(`Order confirmation email queued for ${order.customerEmail}`);
     }
   } catch (emailError) {
-    console.error('Failed to send order confirmation email:', emailError);
+    console.error('Failed to queue order confirmation email:', emailError);
     // Do not throw – order creation succeeded, email failure is non-critical
   }
 }
 
+/**
+ * Handle checkout.session.expired event
+ * Hands the session's held stock back when the customer never paid.
+ */
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session): Promise<void> {
+  const released = await releaseCheckoutHolds(session.id);
+  console.log(`Released ${released} inventory holds for expired checkout session: ${session.id}`);
+}
+
 /**
  * Handle payment_intent.succeeded event
- * This is triggered when a payment is successful
+ * Creates the order for an on-site payment, or marks an existing order's
+ * payment completed
  */
 async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
   console.log(`Processing successful payment intent: ${paymentIntent.id}`);
@@ -168,6 +479,11 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
   });
 
   if (!payment) {
+    // On-site checkouts are paid before their order exists
+    if (isCheckoutPaymentIntent(paymentIntent)) {
+      await createOrderFromCheckout(await retrievePaidCheckout(paymentIntent.id));
+      return;
+    }
     console.log(`Payment not found for payment intent: ${paymentIntent.id}`);
     return;
   }
@@ -195,6 +511,19 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
   console.log(`Payment completed for order: ${payment.order.orderNumber}`);
 }
 
+/**
+ * Handle payment_intent.canceled event
+ * Hands an abandoned on-site checkout's held stock back
+ */
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  if (!isCheckoutPaymentIntent(paymentIntent)) {
+    return;
+  }
+
+  const released = await releaseCheckoutHolds(paymentIntent.id);
+  console.log(`Released ${released} inventory holds for canceled payment intent: ${paymentIntent.id}`);
+}
+
 /**
  * Handle payment_intent.payment_failed event
  * This is triggered when a payment fails
@@ -273,6 +602,7 @@ async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
       where: { id: payment.id },
       data: {
         status: isFullRefund ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+        refundedAmount: refundAmount / 100,
       },
     }),
     prisma.order.update({
@@ -332,3 +662,144 @@ function generateOrderNumber(): string {
   const random = Math.random().toString(36).substring(2, 6).toUpperCase();
   return `KP-${timestamp}-${random}`;
 }
+
+function toAddressSnapshot(address: Address) {
+  return {
+    firstName: address.firstName,
+    lastName: address.lastName,
+    company: address.company,
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    state: address.state,
+    zip: address.zip,
+    country: address.country,
+    phone: address.phone,
+  };
+}
+
+/**
+ * Billing address for a registry gift: the gifter's saved address, or the
+ * one Stripe collected with their card. Saved addresses must be the
+ * gifter's own, the user's or the guest session's.
+ */
+async function getGifterBillingAddress(checkout: PaidCheckout, billingAddressId?: string) {
+  const { userId, guestSessionId } = checkout.metadata;
+  const owner = userId
+    ? { userId }
+    : guestSessionId
+      ? { userId: null, guestSessionId }
+      : null;
+  const saved = billingAddressId && owner
+    ? await prisma.address.findFirst({ where: { id: billingAddressId, ...owner } })
+    : null;
+  if (saved) {
+    return toAddressSnapshot(saved);
+  }
+
+  const details = checkout.billing;
+  const [firstName, ...lastNameParts] = (details?.name || '').split(' ');
+  return {
+    firstName,
+    lastName: lastNameParts.join(' '),
+    company: null,
+    line1: details?.address?.line1 || '',
+    line2: details?.address?.line2 || null,
+    city: details?.address?.city || '',
+    state: details?.address?.state || '',
+    zip: details?.address?.postal_code || '',
+    country: details?.address?.country || 'US',
+    phone: details?.phone || null,
+  };
+}
+
+/**
+ * Refund a registry gift that can no longer be fulfilled, e.g. because
+ * another gifter bought the last one first. Keyed on the checkout so
+ * webhook retries can't refund twice.
+ */
+async function refundRegistryGift(checkout: PaidCheckout, reason: string): Promise<void> {
+  console.log(`Refunding registry gift for checkout ${checkout.id}: ${reason}`);
+
+  const refunded = await refundCheckout(checkout, 'registry-gift', 'registry_item_unavailable');
+  const email = checkout.email;
+  if (!refunded || !email) {
+    return;
+  }
+
+  try {
+    await enqueueEmail(
+      {
+        to: email,
+        subject: 'Your Baby Petite registry gift has been refunded',
+        text: [
+          `We're sorry, we couldn't complete your registry gift. ${reason}.`,
+          'Your payment has been refunded in full and should reach your account within 5-10 business days.',
+          'Other items on the registry may still be available.',
+        ].join('\n\n'),
+        tags: { type: 'registry-gift-refund' },
+      },
+      { uniqueKey: `registry-gift-refund:${checkout.id}` }
+    );
+  } catch (emailError) {
+    console.error('Failed to queue registry gift refund email:', emailError);
+  }
+}
+
+/**
+ * Refund a paid checkout that has no price snapshot, e.g. one started
+ * before snapshots were saved, rather than guess what it was charged for.
+ * Keyed on the checkout so webhook retries can't refund twice.
+ */
+async function refundUnpricedCheckout(checkout: PaidCheckout): Promise<void> {
+  // Fail the webhook if there's nothing to refund, so it's retried and seen
+  if (!(await refundCheckout(checkout, 'unpriced-checkout', 'checkout_snapshot_missing'))) {
+    throw new Error(`Checkout ${checkout.id} has no price snapshot and no payment intent to refund`);
+  }
+
+  const email = checkout.email;
+  if (!email) {
+    return;
+  }
+
+  try {
+    await enqueueEmail(
+      {
+        to: email,
+        subject: 'Your Baby Petite order could not be completed',
+        text: [
+          "We're sorry, something went wrong creating your order and it wasn't placed.",
+          'Your payment has been refunded in full and should reach your account within 5-10 business days.',
+          'Your cart has been kept, so you can check out again.',
+        ].join('\n\n'),
+        tags: { type: 'unpriced-checkout-refund' },
+      },
+      { uniqueKey: `unpriced-checkout-refund:${checkout.id}` }
+    );
+  } catch (emailError) {
+    console.error('Failed to queue unpriced checkout refund email:', emailError);
+  }
+}
+
+/**
+ * Hand a paid checkout's held stock back and refund its payment in full
+ *
+ * @param key - Prefix of the refund's idempotency key, per kind of refund
+ * @param reason - Why, recorded on the refund's metadata
+ * @returns Whether there was a payment to refund
+ */
+async function refundCheckout(checkout: PaidCheckout, key: string, reason: string): Promise<boolean> {
+  // Nothing was sold, so the held stock goes back on sale
+  await releaseCheckoutHolds(checkout.id);
+
+  if (!checkout.paymentIntentId) {
+    console.error(`Checkout ${checkout.id} has no payment intent to refund`);
+    return false;
+  }
+
+  await createRefund(checkout.paymentIntentId, undefined, 'requested_by_customer', {
+    idempotencyKey: `${key}-${checkout.id}`,
+    metadata: { checkoutSessionId: checkout.id, reason },
+  });
+  return true;
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrackingProvider, ingestTrackingResults, type TrackingResult } from '@/lib/tracking';
+import { logger } from '@/lib/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface WebhookResponse {
+  received: boolean;
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// POST /api/webhooks/tracking - Handle tracking provider pushes
+// ============================================================================
+
+/**
+ * Carrier scans pushed by the tracking provider. Goes through the same
+ * ingestion as the `cron.tracking-poll` job, so a scan seen by both is
+ * stored once.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<WebhookResponse>> {
+  const provider = getTrackingProvider();
+  if (!provider) {
+    return NextResponse.json(
+      { received: false, error: 'Tracking is not configured' },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.text();
+
+  let results: TrackingResult[];
+  try {
+    results = provider.parseWebhook(body, request.headers);
+  } catch (error) {
+    logger.warn('Tracking webhook rejected', {
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { received: false, error: 'Invalid signature' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const totals = await ingestTrackingResults(results, provider.name);
+
+    logger.info('Tracking webhook processed', { provider: provider.name, ...totals });
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    logger.error('Tracking webhook failed', error as Error, { provider: provider.name });
+
+    // A 5xx makes the provider retry the push
+    return NextResponse.json(
+      { received: false, error: 'Webhook handler failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Use Node.js runtime for Prisma compatibility
+export const runtime = 'nodejs';
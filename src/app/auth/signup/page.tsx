@@ -1,31 +1,68 @@
 'use client';
 
 import * as React from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Mail, Lock, User } from 'lucide-react';
 import Link from 'next/link';
+import { signUp } from '@/actions/auth';
 
 /**
  * Sign up page component
  */
 export default function SignUpPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [agreedToTerms, setAgreedToTerms] = React.useState(false);
+  // Prefilled when a guest creates an account to track their order
+  const [form, setForm] = React.useState({
+    firstName: '',
+    lastName: '',
+    email: searchParams.get('email') ?? '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [error, setError] = React.useState('');
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string[]>>({});
+
+  const updateField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!agreedToTerms) return;
 
+    setError('');
+    setFieldErrors({});
+    if (form.password !== form.confirmPassword) {
+      setFieldErrors({ confirmPassword: ['Passwords do not match'] });
+      return;
+    }
+
     setIsSubmitting(true);
-    // Simulate sign up
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsSubmitting(false);
-    router.push('/auth/verify-email');
+    try {
+      const result = await signUp({
+        firstName: form.firstName,
+        lastName: form.lastName,
+        email: form.email,
+        password: form.password,
+      });
+
+      if (!result.success) {
+        setError(result.error ?? '');
+        setFieldErrors(result.fieldErrors ?? {});
+        return;
+      }
+
+      router.push('/auth/verify-email');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleSocialSignUp = async (provider: string) => {
@@ -76,6 +113,12 @@ export default function SignUpPage() {
 
       {/* Sign up form */}
       <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label htmlFor="firstName" className="block text-sm font-medium text-gray-900 mb-2">
@@ -85,6 +128,9 @@ export default function SignUpPage() {
               id="firstName"
               type="text"
               placeholder="John"
+              value={form.firstName}
+              onChange={updateField('firstName')}
+              error={fieldErrors.firstName?.[0]}
               required
               leftIcon={<User className="w-4 h-4" />}
             />
@@ -97,6 +143,9 @@ export default function SignUpPage() {
               id="lastName"
               type="text"
               placeholder="Doe"
+              value={form.lastName}
+              onChange={updateField('lastName')}
+              error={fieldErrors.lastName?.[0]}
               required
             />
           </div>
@@ -111,6 +160,9 @@ export default function SignUpPage() {
               id="email"
               type="email"
               placeholder="you@example.com"
+              value={form.email}
+              onChange={updateField('email')}
+              error={fieldErrors.email?.[0]}
               required
               leftIcon={<Mail className="w-4 h-4" />}
             />
@@ -126,6 +178,9 @@ export default function SignUpPage() {
               id="password"
               type="password"
               placeholder="••••••••"
+              value={form.password}
+              onChange={updateField('password')}
+              error={fieldErrors.password?.[0]}
               required
               leftIcon={<Lock className="w-4 h-4" />}
             />
@@ -144,6 +199,9 @@ export default function SignUpPage() {
               id="confirmPassword"
               type="password"
               placeholder="••••••••"
+              value={form.confirmPassword}
+              onChange={updateField('confirmPassword')}
+              error={fieldErrors.confirmPassword?.[0]}
               required
               leftIcon={<Lock className="w-4 h-4" />}
             />
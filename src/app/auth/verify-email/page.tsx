@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Mail, CheckCircle, AlertCircle } from 'lucide-react';
 import Link from 'next/link';
+import { verifyEmail as verifyEmailToken } from '@/actions/auth';
 
 /**
  * Email verification page component
@@ -17,6 +18,7 @@ export default function VerifyEmailPage() {
   const [isVerifying, setIsVerifying] = React.useState(false);
   const [isVerified, setIsVerified] = React.useState(false);
   const [error, setError] = React.useState('');
+  const [claimedOrders, setClaimedOrders] = React.useState(0);
 
   React.useEffect(() => {
     if (token) {
@@ -26,10 +28,19 @@ export default function VerifyEmailPage() {
 
   const verifyEmail = async () => {
     setIsVerifying(true);
-    // Simulate email verification
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsVerifying(false);
-    setIsVerified(true);
+    try {
+      const result = await verifyEmailToken({ token: token! });
+      if (!result.success) {
+        setError(result.error ?? 'Invalid or expired verification link.');
+        return;
+      }
+
+      // Guest orders placed with this email are now on the account
+      setClaimedOrders(result.data?.claimedOrders ?? 0);
+      setIsVerified(true);
+    } finally {
+      setIsVerifying(false);
+    }
   };
 
   const handleResendEmail = async () => {
@@ -68,7 +79,13 @@ export default function VerifyEmailPage() {
           <p className="text-gray-600 mb-6">
             Your email has been successfully verified. You can now sign in to your account.
           </p>
-          <Link href="/auth/signin">
+          {claimedOrders > 0 && (
+            <p className="text-sm text-gray-600 bg-yellow/10 border border-yellow/30 rounded-md px-4 py-3 mb-6">
+              We've added {claimedOrders} earlier order{claimedOrders === 1 ? '' : 's'} to your account.
+              Sign in to track {claimedOrders === 1 ? 'it' : 'them'} from your order history.
+            </p>
+          )}
+          <Link href="/auth/signin?callbackUrl=/account/orders">
             <Button fullWidth>Sign In</Button>
           </Link>
         </div>
@@ -85,6 +102,12 @@ export default function VerifyEmailPage() {
         <h1 className="text-2xl font-bold text-gray-900 mb-2">
           Verify Your Email
         </h1>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mt-4 mb-4 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
         <p className="text-gray-600">
           We've sent a verification link to your email address. Please check your inbox and click the link to verify your account.
         </p>
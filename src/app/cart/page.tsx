@@ -19,6 +19,7 @@ export default async function CartPage() {
     items: [],
     itemCount: 0,
     subtotal: 0,
+    registry: null,
   };
 
   return <CartContent initialCart={initialCart} />;
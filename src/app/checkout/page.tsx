@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 import { getCart } from '@/actions/cart';
+import { getCurrentUser } from '@/lib/session';
 import { GuestCheckoutChoice } from '@/components/checkout/guest-checkout-choice';
 
 /**
@@ -16,6 +17,11 @@ export default async function CheckoutPage() {
   if (!cartResult.success || !cartResult.data || cartResult.data.items.length === 0) {
     redirect('/cart');
   }
+
+  // Signed-in customers have nothing to choose
+  if (await getCurrentUser()) {
+    redirect('/checkout/shipping');
+  }
   
   // Show guest/sign-in choice instead of redirecting
   // This improves UX by making guest checkout more visible
@@ -1,39 +1,41 @@
 'use client';
 
 import * as React from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { OrderSummary } from '@/components/checkout/order-summary';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Separator } from '@/components/ui/separator';
-import { CreditCard, Lock, Shield, Loader2, Apple, Wallet } from 'lucide-react';
+import { Loader2, Lock, Apple, Wallet } from 'lucide-react';
 import { useCheckout } from '@/context/checkout-context';
-import { createCheckoutSession } from '@/actions/checkout';
-import { PaymentRequestButton } from '@/components/payment';
+import { createCheckoutPayment, updateCheckoutPayment } from '@/actions/checkout';
+import { CheckoutPaymentForm } from '@/components/payment';
 import { SecurityBadges } from '@/components/ui/security-badges';
+import type { SavedCard } from '@/lib/payments';
+
+interface CheckoutPayment {
+  paymentIntentId: string;
+  clientSecret: string;
+  total: number;
+  savedCards: SavedCard[];
+  canSaveCard: boolean;
+}
 
 /**
  * Checkout payment page component
+ *
+ * Prices the cart and holds its stock on the server, then takes payment
+ * on-site. The order is created once Stripe confirms the payment.
  */
 export default function CheckoutPaymentPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { state, actions } = useCheckout();
-  
-  const [isProcessing, setIsProcessing] = React.useState(false);
-  const [cardNumber, setCardNumber] = React.useState('');
-  const [cardholderName, setCardholderName] = React.useState('');
-  const [expiry, setExpiry] = React.useState('');
-  const [cvc, setCvc] = React.useState('');
-  const [saveCard, setSaveCard] = React.useState(false);
-  const [useSameBillingAddress, setUseSameBillingAddress] = React.useState(true);
-  const [error, setError] = React.useState<string | null>(null);
-  const [showPaymentRequest, setShowPaymentRequest] = React.useState(true);
-  const [paymentRequestAvailable, setPaymentRequestAvailable] = React.useState(false);
 
-  // Calculate total amount in cents for payment request
-  const totalAmountCents = Math.round(
-    (state.summary.subtotal + state.summary.shipping + state.summary.tax - (state.discountAmount || 0)) * 100
+  const [payment, setPayment] = React.useState<CheckoutPayment | null>(null);
+  const [error, setError] = React.useState<string | null>(
+    searchParams.get('failed')
+      ? 'Your payment was not completed. Please try again or use another payment method.'
+      : null
   );
+  const startedRef = React.useRef(false);
 
   // Redirect if no shipping address
   React.useEffect(() => {
@@ -42,32 +44,12 @@ export default function CheckoutPaymentPage() {
     }
   }, [state.shippingAddress, router]);
 
-  // Format card number with spaces
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = (matches && matches[0]) || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    return parts.length ? parts.join(' ') : v;
-  };
-
-  // Format expiry date
-  const formatExpiry = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    if (v.length >= 2) {
-      return `${v.substring(0, 2)}/${v.substring(2, 4)}`;
-    }
-    return v;
-  };
+  // Start the payment once, when shipping is chosen
+  React.useEffect(() => {
+    if (startedRef.current || !state.shippingAddress) return;
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!state.shippingAddress?.id) {
+    // Registry gifts ship to the registrant's address, resolved on the server
+    if (!state.registryGift && !state.shippingAddress.id) {
       setError('Shipping address is required');
       return;
     }
@@ -77,43 +59,40 @@ export default function CheckoutPaymentPage() {
       return;
     }
 
-    setIsProcessing(true);
-    setError(null);
-
-    try {
-      // Create checkout session with Stripe
-      const result = await createCheckoutSession({
-        shippingAddressId: state.shippingAddress.id,
-        shippingMethodId: state.shippingMethod.id,
-        useSameBillingAddress,
-        billingAddressId: undefined,
-        discountCode: state.discountCode || undefined,
-        isGift: false,
-        giftMessage: undefined,
-        notes: undefined,
+    startedRef.current = true;
+    createCheckoutPayment({
+      shippingAddressId: state.registryGift ? undefined : state.shippingAddress.id,
+      shippingMethodId: state.shippingMethod.id,
+      useSameBillingAddress: true,
+      discountCode: state.discountCode || undefined,
+      isGift: !!state.registryGift,
+      giftMessage: state.registryGift?.giftMessage || undefined,
+      gifterName: state.registryGift?.gifterName || undefined,
+      showGifterName: state.registryGift?.showGifterName ?? true,
+      email: state.guestEmail || undefined,
+    })
+      .then((result) => {
+        if (result.success && result.data) {
+          actions.setCheckoutSessionId(result.data.paymentIntentId);
+          setPayment(result.data);
+        } else {
+          setError(result.error || 'Failed to prepare your payment');
+        }
+      })
+      .catch((err) => {
+        console.error('Payment error:', err);
+        setError('An error occurred while preparing your payment. Please try again.');
       });
+  }, [state.shippingAddress, state.shippingMethod, state.registryGift, state.discountCode, state.guestEmail, actions]);
 
-      if (result.success && result.data) {
-        // Store session ID
-        actions.setCheckoutSessionId(result.data.sessionId);
-        
-        // Redirect to Stripe checkout
-        if (result.data.url) {
-          window.location.href = result.data.url;
-          return;
-        }
-        
-        // If no URL, go to review page (for testing without Stripe)
-        router.push('/checkout/review');
-      } else {
-        setError(result.error || 'Failed to create checkout session');
-      }
-    } catch (err) {
-      console.error('Payment error:', err);
-      setError('An error occurred while processing your payment. Please try again.');
-    } finally {
-      setIsProcessing(false);
-    }
+  const handleSaveCardChange = async (saveCard: boolean) => {
+    if (!payment) return false;
+    const result = await updateCheckoutPayment({ paymentIntentId: payment.paymentIntentId, saveCard });
+    return result.success;
+  };
+
+  const handleSuccess = (paymentIntentId: string) => {
+    router.push(`/checkout/success?payment_intent=${paymentIntentId}`);
   };
 
   // Transform items for OrderSummary component
@@ -176,152 +155,30 @@ export default function CheckoutPaymentPage() {
             </div>
           )}
 
-          {/* Apple Pay / Google Pay Payment Request Button */}
-          {showPaymentRequest && (
-            <div className="mb-6">
-              <PaymentRequestButton
-                amount={totalAmountCents}
-                currency="USD"
-                label="Baby Petite Order"
-                onSuccess={(paymentIntentId) => {
-                  console.log('Payment successful:', paymentIntentId);
-                  // Payment request button handles the payment flow
-                  // Redirect to success page
-                  router.push('/checkout/success');
-                }}
-                onError={(err) => {
-                  console.error('Payment error:', err);
-                  setError(err.message || 'Payment failed. Please try again.');
-                }}
-                onCancel={() => {
-                  console.log('Payment cancelled');
-                }}
-              />
-              
-              {/* Divider between payment request and card payment */}
-              <div className="relative my-6">
-                <div className="absolute inset-0 flex items-center">
-                  <span className="w-full border-t border-gray-300" />
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="bg-white px-2 text-gray-500">or pay with card</span>
-                </div>
-              </div>
-            </div>
+          {state.registryGift && (
+            <p className="mb-4 text-sm text-gray-600">
+              Enter your own billing address with your card details.
+            </p>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {/* Card number */}
-            <div>
-              <label htmlFor="card-number" className="block text-sm font-medium text-gray-900 mb-2">
-                Card Number
-              </label>
-              <div className="relative">
-                <Input
-                  id="card-number"
-                  type="text"
-                  placeholder="1234 5678 9012 3456"
-                  value={cardNumber}
-                  onChange={(e) => setCardNumber(formatCardNumber(e.target.value))}
-                  maxLength={19}
-                  required
-                  className="pl-10"
-                />
-                <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-              </div>
-            </div>
-
-            {/* Cardholder name */}
-            <div>
-              <label htmlFor="cardholder-name" className="block text-sm font-medium text-gray-900 mb-2">
-                Cardholder Name
-              </label>
-              <Input
-                id="cardholder-name"
-                type="text"
-                placeholder="John Doe"
-                value={cardholderName}
-                onChange={(e) => setCardholderName(e.target.value)}
-                required
-              />
-            </div>
-
-            {/* Expiry and CVC */}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="expiry" className="block text-sm font-medium text-gray-900 mb-2">
-                  Expiry Date
-                </label>
-                <Input
-                  id="expiry"
-                  type="text"
-                  placeholder="MM/YY"
-                  value={expiry}
-                  onChange={(e) => setExpiry(formatExpiry(e.target.value))}
-                  maxLength={5}
-                  required
-                />
-              </div>
-              <div>
-                <label htmlFor="cvc" className="block text-sm font-medium text-gray-900 mb-2">
-                  CVC
-                </label>
-                <Input
-                  id="cvc"
-                  type="text"
-                  placeholder="123"
-                  value={cvc}
-                  onChange={(e) => setCvc(e.target.value.replace(/\D/g, '').substring(0, 4))}
-                  maxLength={4}
-                  required
-                />
+          {payment ? (
+            <CheckoutPaymentForm
+              clientSecret={payment.clientSecret}
+              total={payment.total}
+              savedCards={payment.savedCards}
+              canSaveCard={payment.canSaveCard}
+              email={state.guestEmail || undefined}
+              returnUrl={`${window.location.origin}/checkout/success`}
+              onSaveCardChange={handleSaveCardChange}
+              onSuccess={handleSuccess}
+            />
+          ) : (
+            !error && (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
               </div>
-            </div>
-
-            {/* Save card */}
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={saveCard}
-                onChange={(e) => setSaveCard(e.target.checked)}
-                className="w-4 h-4 text-yellow border-gray-300 rounded focus:ring-yellow"
-              />
-              <span className="text-sm text-gray-700">
-                Save card for future purchases
-              </span>
-            </label>
-
-            <Separator />
-
-            {/* Billing address */}
-            <div>
-              <h3 className="text-sm font-semibold text-gray-900 mb-3">
-                Billing Address
-              </h3>
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={useSameBillingAddress}
-                  onChange={(e) => setUseSameBillingAddress(e.target.checked)}
-                  className="w-4 h-4 text-yellow border-gray-300 rounded focus:ring-yellow"
-                />
-                <span className="text-sm text-gray-700">
-                  Same as shipping address
-                </span>
-              </label>
-            </div>
-
-            {/* Submit button */}
-            <Button
-              type="submit"
-              size="lg"
-              fullWidth
-              loading={isProcessing}
-              rightIcon={<Shield className="w-4 h-4" />}
-            >
-              {isProcessing ? 'Processing...' : 'Continue to Review'}
-            </Button>
-          </form>
+            )
+          )}
 
           {/* Payment methods */}
           <div className="mt-6 pt-6 border-t border-gray-200">
@@ -369,7 +226,7 @@ export default function CheckoutPaymentPage() {
               subtotal: state.summary.subtotal,
               tax: state.summary.tax,
               shipping: state.summary.shipping,
-              total: state.summary.subtotal + state.summary.shipping + state.summary.tax - state.discountAmount,
+              total: payment?.total ?? state.summary.subtotal + state.summary.shipping + state.summary.tax - state.discountAmount,
               currency: state.summary.currency,
             }}
             shippingAddress={shippingAddressDisplay}
@@ -32,7 +32,8 @@ export default function CheckoutReviewPage() {
   const handlePlaceOrder = async () => {
     if (!agreedToTerms) return;
     
-    if (!state.shippingAddress?.id) {
+    // Registry gifts ship to the registrant's address, resolved on the server
+    if (!state.registryGift && !state.shippingAddress?.id) {
       setError('Shipping address is required');
       return;
     }
@@ -48,14 +49,17 @@ export default function CheckoutReviewPage() {
     try {
       // Create checkout session with Stripe
       const result = await createCheckoutSession({
-        shippingAddressId: state.shippingAddress.id,
+        shippingAddressId: state.registryGift ? undefined : state.shippingAddress?.id,
         shippingMethodId: state.shippingMethod.id,
         useSameBillingAddress: true,
         billingAddressId: undefined,
         discountCode: state.discountCode || undefined,
-        isGift: false,
-        giftMessage: undefined,
+        isGift: !!state.registryGift,
+        giftMessage: state.registryGift?.giftMessage || undefined,
+        gifterName: state.registryGift?.gifterName || undefined,
+        showGifterName: state.registryGift?.showGifterName ?? true,
         notes: undefined,
+        email: state.guestEmail || undefined,
       });
 
       if (result.success && result.data) {
@@ -155,6 +159,36 @@ export default function CheckoutReviewPage() {
           </div>
         </div>
 
+        {/* Registry gift */}
+        {state.registryGift && (
+          <div className="bg-white rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Gift for {state.registryGift.registryName}
+              </h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push('/checkout/shipping')}
+              >
+                Edit
+              </Button>
+            </div>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                {!state.registryGift.showGifterName
+                  ? 'Sent anonymously'
+                  : state.registryGift.gifterName
+                    ? `From: ${state.registryGift.gifterName}`
+                    : 'Your name will be shared with the registrant'}
+              </p>
+              {state.registryGift.giftMessage && (
+                <p className="italic">&ldquo;{state.registryGift.giftMessage}&rdquo;</p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Shipping method */}
         <div className="bg-white rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
@@ -5,15 +5,20 @@ import { useRouter } from 'next/navigation';
 import { AddressFormWithAutocomplete } from '@/components/checkout/address-form-with-autocomplete';
 import { OrderSummary } from '@/components/checkout/order-summary';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Radio } from '@/components/ui/radio';
 import { Separator } from '@/components/ui/separator';
-import { Truck, Clock, Loader2 } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Truck, Clock, Loader2, Gift } from 'lucide-react';
 import { useCheckout, type CheckoutShippingAddress, type CheckoutShippingMethod } from '@/context/checkout-context';
 import { getCart } from '@/actions/cart';
 import { getUserAddresses } from '@/actions/addresses';
-import { calculateShipping, validateDiscountCode } from '@/actions/checkout';
+import { calculateShipping, getCheckoutCustomer, getGiftCheckoutDetails, validateDiscountCode } from '@/actions/checkout';
 import { createAddress } from '@/actions/addresses';
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 /**
  * Saved address type from API
  */
@@ -32,6 +37,18 @@ interface SavedAddress {
   isDefault: boolean;
 }
 
+/**
+ * Registry gift recipient, with the street address hidden
+ */
+interface GiftRecipient {
+  firstName: string;
+  lastName: string;
+  line1: string;
+  city: string;
+  state: string;
+  country: string;
+}
+
 /**
  * Cart item from API
  */
@@ -76,6 +93,14 @@ export default function CheckoutShippingPage() {
   const [promoCode, setPromoCode] = React.useState('');
   const [promoCodeError, setPromoCodeError] = React.useState<string | null>(null);
   const [isApplyingPromo, setIsApplyingPromo] = React.useState(false);
+  const [promotions, setPromotions] = React.useState<Array<{ label: string; amount: number }>>([]);
+  const [giftRecipient, setGiftRecipient] = React.useState<GiftRecipient | null>(null);
+  const [giftError, setGiftError] = React.useState<string | null>(null);
+  const [giftMessage, setGiftMessage] = React.useState(state.registryGift?.giftMessage ?? '');
+  const [gifterName, setGifterName] = React.useState(state.registryGift?.gifterName ?? '');
+  const [showGifterName, setShowGifterName] = React.useState(state.registryGift?.showGifterName ?? true);
+  const [guestEmail, setGuestEmail] = React.useState(state.guestEmail ?? '');
+  const [guestEmailError, setGuestEmailError] = React.useState<string | null>(null);
 
   // Load cart and addresses on mount
   React.useEffect(() => {
@@ -90,6 +115,12 @@ export default function CheckoutShippingPage() {
         }
 
         const cartData = cartResult.data;
+
+        // Guests give an email for their receipt instead of signing in
+        const customerResult = await getCheckoutCustomer();
+        if (customerResult.success && customerResult.data) {
+          actions.setGuestCheckout(!customerResult.data.email);
+        }
         
         // Transform cart items for checkout context
         const checkoutItems = cartData.items.map((item: CartItem) => ({
@@ -115,6 +146,54 @@ export default function CheckoutShippingPage() {
           currency: 'USD',
         });
 
+        // Automatic promotions the cart gets; checkout prices them again
+        setPromotions(cartData.promotions.map((promotion) => ({ label: promotion.name, amount: promotion.amount })));
+
+        // Carry over the promo code applied in the cart
+        if (cartData.discount) {
+          actions.applyDiscount(cartData.discount.code, cartData.discount.discountAmount);
+          setPromoCode(cartData.discount.code);
+        }
+
+        // Registry gifts ship to the registrant, so there's no address to choose
+        const giftResult = await getGiftCheckoutDetails();
+        if (!giftResult.success) {
+          setGiftError(giftResult.error || 'This registry can\'t accept gifts right now');
+          return;
+        }
+
+        if (giftResult.data) {
+          const gift = giftResult.data;
+          setGiftRecipient(gift.recipient);
+          actions.setRegistryGift({
+            registryName: gift.registryName,
+            shareCode: gift.shareCode,
+            giftMessage: state.registryGift?.giftMessage ?? '',
+            gifterName: state.registryGift?.gifterName ?? '',
+            showGifterName: state.registryGift?.showGifterName ?? true,
+          });
+
+          const shippingResult = await calculateShipping();
+          if (shippingResult.success && shippingResult.data) {
+            setShippingOptions(shippingResult.data.options);
+            const defaultOption = shippingResult.data.options[0];
+            if (defaultOption) {
+              setSelectedShipping(defaultOption.id);
+              actions.setShippingMethod({
+                id: defaultOption.id,
+                name: defaultOption.name,
+                price: defaultOption.price,
+                estimatedDays: defaultOption.estimatedDays,
+              });
+            }
+          } else {
+            setGiftError(shippingResult.error || 'Failed to load shipping options');
+          }
+          return;
+        }
+
+        actions.setRegistryGift(null);
+
         // Load saved addresses
         const addressesResult = await getUserAddresses();
         if (addressesResult.success && addressesResult.data) {
@@ -177,8 +256,25 @@ export default function CheckoutShippingPage() {
     }
   };
 
+  // Keep a guest's email for the checkout session; false if it's missing
+  const confirmGuestEmail = (): boolean => {
+    if (!state.isGuestCheckout) return true;
+
+    const email = guestEmail.trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      setGuestEmailError(email ? 'Enter a valid email address' : 'Email is required');
+      return false;
+    }
+
+    setGuestEmailError(null);
+    actions.setGuestEmail(email);
+    return true;
+  };
+
   // Handle new address submission
   const handleAddressSubmit = async (data: any) => {
+    if (!confirmGuestEmail()) return;
+
     setIsSubmitting(true);
     try {
       // Create address in database
@@ -249,7 +345,7 @@ export default function CheckoutShippingPage() {
 
   // Handle saved address selection and continue
   const handleContinueWithSavedAddress = async () => {
-    if (!selectedSavedAddressId) return;
+    if (!selectedSavedAddressId || !confirmGuestEmail()) return;
     
     setIsSubmitting(true);
     try {
@@ -280,6 +376,30 @@ export default function CheckoutShippingPage() {
     }
   };
 
+  // Handle continuing with a registry gift
+  const handleContinueWithGift = () => {
+    if (!giftRecipient || !state.registryGift || !confirmGuestEmail()) return;
+
+    actions.setRegistryGift({
+      ...state.registryGift,
+      giftMessage: giftMessage.trim(),
+      gifterName: gifterName.trim(),
+      showGifterName,
+    });
+
+    // The real address stays on the server; checkout shows the masked one
+    actions.setShippingAddress({
+      firstName: giftRecipient.firstName,
+      lastName: giftRecipient.lastName,
+      line1: giftRecipient.line1,
+      city: giftRecipient.city,
+      state: giftRecipient.state,
+      zip: '',
+      country: giftRecipient.country,
+    });
+    router.push('/checkout/payment');
+  };
+
   // Handle promo code application
   const handleApplyPromoCode = async (code: string) => {
     if (!code.trim()) return;
@@ -290,7 +410,7 @@ export default function CheckoutShippingPage() {
     try {
       const result = await validateDiscountCode(code);
       if (result.success && result.data) {
-        actions.applyDiscount(result.data.code, result.data.value);
+        actions.applyDiscount(result.data.code, result.data.discountAmount);
         setPromoCode(code);
       } else {
         setPromoCodeError(result.error || 'Invalid promo code');
@@ -328,111 +448,198 @@ export default function CheckoutShippingPage() {
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
       {/* Left column - Forms */}
       <div className="lg:col-span-2 space-y-8">
-        {/* Shipping address */}
-        <div className="bg-white rounded-lg p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">
-            Shipping Address
-          </h2>
+        {/* Guest contact email */}
+        {state.isGuestCheckout && (
+          <div className="bg-white rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Contact
+            </h2>
+            <Input
+              type="email"
+              label="Email"
+              placeholder="you@example.com"
+              autoComplete="email"
+              value={guestEmail}
+              onChange={(e) => setGuestEmail(e.target.value)}
+              error={guestEmailError ?? undefined}
+              required
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              We'll send your receipt and tracking updates here. You can create an account after checkout.
+            </p>
+          </div>
+        )}
 
-          {/* Address selection */}
-          {savedAddresses.length > 0 && (
-            <div className="space-y-4 mb-6">
-              <fieldset className="space-y-3">
-                <legend className="sr-only">Choose address type</legend>
-                <label className="flex items-center gap-3 cursor-pointer">
-                  <Radio
-                    name="address"
-                    value="saved"
-                    checked={selectedAddress === 'saved'}
-                    onChange={() => setSelectedAddress('saved')}
-                  />
-                  <span className="text-sm font-medium text-gray-900">
-                    Use saved address
-                  </span>
-                </label>
+        {giftError && (
+          <div className="bg-white rounded-lg p-6">
+            <p className="text-sm text-red-600">{giftError}</p>
+          </div>
+        )}
 
-                <label className="flex items-center gap-3 cursor-pointer">
-                  <Radio
-                    name="address"
-                    value="new"
-                    checked={selectedAddress === 'new'}
-                    onChange={() => setSelectedAddress('new')}
-                  />
-                  <span className="text-sm font-medium text-gray-900">
-                    Use a new address
-                  </span>
-                </label>
-              </fieldset>
+        {/* Registry gift */}
+        {giftRecipient && state.registryGift ? (
+          <div className="bg-white rounded-lg p-6 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Gift for {state.registryGift.registryName}
+              </h2>
+              <div className="flex items-start gap-3 p-4 border border-gray-200 rounded-md">
+                <Gift className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-gray-600">
+                  <p className="font-medium text-gray-900">
+                    {giftRecipient.firstName} {giftRecipient.lastName}
+                  </p>
+                  <p>{giftRecipient.line1}</p>
+                  <p>
+                    {giftRecipient.city}, {giftRecipient.state}
+                  </p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Your gift ships straight to the registrant. Their full address is kept private.
+              </p>
             </div>
-          )}
 
-          {selectedAddress === 'new' || savedAddresses.length === 0 ? (
-            <AddressFormWithAutocomplete
-              onSubmit={handleAddressSubmit}
-              submitText="Continue to Payment"
-              isSubmitting={isSubmitting}
+            <Textarea
+              label="Gift message (optional)"
+              value={giftMessage}
+              onChange={(e) => setGiftMessage(e.target.value)}
+              maxLength={500}
+              showCount
+              rows={3}
             />
-          ) : (
-            <div className="space-y-4">
-              {/* Saved addresses list */}
-              <div className="space-y-3">
-                {savedAddresses.map((address) => (
-                  <label
-                    key={address.id}
-                    className={`flex items-start gap-3 p-4 border rounded-md cursor-pointer transition-colors ${
-                      selectedSavedAddressId === address.id
-                        ? 'border-yellow bg-yellow/5'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
-                  >
+
+            <div className="space-y-3">
+              <Input
+                label="From"
+                placeholder="Your name"
+                value={gifterName}
+                onChange={(e) => setGifterName(e.target.value)}
+                maxLength={100}
+              />
+              <Checkbox
+                label="Let the registrant know this gift is from me"
+                helperText="Untick to send the gift anonymously"
+                checked={showGifterName}
+                onChange={(e) => setShowGifterName(e.target.checked)}
+              />
+            </div>
+
+            <Button
+              onClick={handleContinueWithGift}
+              fullWidth
+              disabled={shippingOptions.length === 0}
+            >
+              Continue to Payment
+            </Button>
+          </div>
+        ) : (
+          /* Shipping address */
+          <div className="bg-white rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Shipping Address
+            </h2>
+
+            {/* Address selection */}
+            {savedAddresses.length > 0 && (
+              <div className="space-y-4 mb-6">
+                <fieldset className="space-y-3">
+                  <legend className="sr-only">Choose address type</legend>
+                  <label className="flex items-center gap-3 cursor-pointer">
                     <Radio
-                      name="savedAddress"
-                      value={address.id}
-                      checked={selectedSavedAddressId === address.id}
-                      onChange={() => setSelectedSavedAddressId(address.id)}
+                      name="address"
+                      value="saved"
+                      checked={selectedAddress === 'saved'}
+                      onChange={() => setSelectedAddress('saved')}
                     />
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2">
-                        <p className="font-medium text-gray-900">
-                          {address.firstName} {address.lastName}
+                    <span className="text-sm font-medium text-gray-900">
+                      Use saved address
+                    </span>
+                  </label>
+
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <Radio
+                      name="address"
+                      value="new"
+                      checked={selectedAddress === 'new'}
+                      onChange={() => setSelectedAddress('new')}
+                    />
+                    <span className="text-sm font-medium text-gray-900">
+                      Use a new address
+                    </span>
+                  </label>
+                </fieldset>
+              </div>
+            )}
+
+            {selectedAddress === 'new' || savedAddresses.length === 0 ? (
+              <AddressFormWithAutocomplete
+                onSubmit={handleAddressSubmit}
+                submitText="Continue to Payment"
+                isSubmitting={isSubmitting}
+              />
+            ) : (
+              <div className="space-y-4">
+                {/* Saved addresses list */}
+                <div className="space-y-3">
+                  {savedAddresses.map((address) => (
+                    <label
+                      key={address.id}
+                      className={`flex items-start gap-3 p-4 border rounded-md cursor-pointer transition-colors ${
+                        selectedSavedAddressId === address.id
+                          ? 'border-yellow bg-yellow/5'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <Radio
+                        name="savedAddress"
+                        value={address.id}
+                        checked={selectedSavedAddressId === address.id}
+                        onChange={() => setSelectedSavedAddressId(address.id)}
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-gray-900">
+                            {address.firstName} {address.lastName}
+                          </p>
+                          {address.isDefault && (
+                            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                              Default
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {address.line1}
+                          {address.line2 && `, ${address.line2}`}
                         </p>
-                        {address.isDefault && (
-                          <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
-                            Default
-                          </span>
+                        <p className="text-sm text-gray-600">
+                          {address.city}, {address.state} {address.zip}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {address.country}
+                        </p>
+                        {address.phone && (
+                          <p className="text-sm text-gray-600 mt-1">
+                            {address.phone}
+                          </p>
                         )}
                       </div>
-                      <p className="text-sm text-gray-600 mt-1">
-                        {address.line1}
-                        {address.line2 && `, ${address.line2}`}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        {address.city}, {address.state} {address.zip}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        {address.country}
-                      </p>
-                      {address.phone && (
-                        <p className="text-sm text-gray-600 mt-1">
-                          {address.phone}
-                        </p>
-                      )}
-                    </div>
-                  </label>
-                ))}
+                    </label>
+                  ))}
+                </div>
+
+                <Button 
+                  onClick={handleContinueWithSavedAddress} 
+                  fullWidth
+                  disabled={!selectedSavedAddressId || isSubmitting}
+                  loading={isSubmitting}
+                >
+                  Continue to Payment
+                </Button>
               </div>
-
-              <Button 
-                onClick={handleContinueWithSavedAddress} 
-                fullWidth
-                disabled={!selectedSavedAddressId || isSubmitting}
-                loading={isSubmitting}
-              >
-                Continue to Payment
-              </Button>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
 
         {/* Shipping method */}
         {shippingOptions.length > 0 && (
@@ -498,8 +705,14 @@ export default function CheckoutShippingPage() {
               subtotal: state.summary.subtotal,
               tax: state.summary.tax,
               shipping: state.summary.shipping,
-              total: state.summary.subtotal + state.summary.shipping + state.summary.tax - state.discountAmount,
+              total:
+                state.summary.subtotal +
+                state.summary.shipping +
+                state.summary.tax -
+                state.discountAmount -
+                promotions.reduce((sum, promotion) => sum + promotion.amount, 0),
               currency: state.summary.currency,
+              discounts: promotions,
             }}
             showShippingInfo={false}
             showPromoCode={true}
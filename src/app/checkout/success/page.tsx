@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { CheckCircle, Package, Mail, MapPin, CreditCard, Loader2 } from 'lucide-react';
 import { getCheckoutSummary } from '@/actions/checkout';
 import { clearCart } from '@/actions/cart';
+import { getGuestOrderClaim } from '@/actions/orders';
+import { GuestAccountClaim } from '@/components/checkout/guest-account-claim';
 
 /**
  * Checkout success page component
@@ -11,14 +13,25 @@ import { clearCart } from '@/actions/cart';
 export default async function CheckoutSuccessPage({
   searchParams,
 }: {
-  searchParams: Promise<{ session_id?: string }>;
+  searchParams: Promise<{ session_id?: string; payment_intent?: string; redirect_status?: string }>;
 }) {
   const params = await searchParams;
-  const sessionId = params.session_id;
+
+  // On-site payments come back from 3D Secure or a wallet with the
+  // PaymentIntent; send the customer back to try again if it failed
+  if (params.redirect_status === 'failed') {
+    redirect('/checkout/payment?failed=true');
+  }
+
+  const sessionId = params.session_id ?? params.payment_intent;
 
   // If we have a Stripe session ID, we can fetch order details
   // For now, we'll use the checkout summary to display order info
   const checkoutResult = await getCheckoutSummary();
+
+  // Guests are offered an account that the order moves to
+  const claimResult = sessionId ? await getGuestOrderClaim(sessionId) : null;
+  const guestClaim = claimResult?.success ? claimResult.data : null;
   
   // Clear the cart after successful order
   await clearCart();
@@ -31,9 +44,9 @@ export default async function CheckoutSuccessPage({
   const checkoutData = checkoutResult.data;
 
   // Format order number from session ID or generate one
-  const orderNumber = sessionId 
+  const orderNumber = guestClaim?.orderNumber ?? (sessionId
     ? `KP-${sessionId.substring(0, 8).toUpperCase()}`
-    : `KP-${Date.now().toString(36).toUpperCase()}`;
+    : `KP-${Date.now().toString(36).toUpperCase()}`);
 
   const orderDate = new Date().toLocaleDateString('en-US', {
     year: 'numeric',
@@ -114,6 +127,16 @@ export default async function CheckoutSuccessPage({
             </div>
           )}
 
+          {guestClaim && (
+            <GuestAccountClaim
+              email={guestClaim.email}
+              orderNumber={guestClaim.orderNumber}
+              trackingPath={guestClaim.trackingPath}
+              hasAccount={guestClaim.hasAccount}
+              className="mb-8"
+            />
+          )}
+
           {/* What's next */}
           <div className="bg-white rounded-lg p-6 mb-8">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -163,7 +186,7 @@ export default async function CheckoutSuccessPage({
                 Continue Shopping
               </Button>
             </Link>
-            <Link href="/account/orders" className="flex-1">
+            <Link href={guestClaim ? guestClaim.trackingPath : '/account/orders'} className="flex-1">
               <Button size="lg" fullWidth>
                 View Order Details
               </Button>
@@ -184,6 +184,7 @@ export default function RootLayout({
                       title: 'Support',
                       links: [
                         { label: 'Contact Us', href: '/contact' },
+                        { label: 'Track Order', href: '/track' },
                         { label: 'FAQ', href: '/faq' },
                         { label: 'Shipping', href: '/shipping' },
                         { label: 'Returns', href: '/returns' },
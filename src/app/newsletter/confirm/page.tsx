@@ -0,0 +1,62 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { Container } from '@/components/layout/container';
+import { Button } from '@/components/ui/button';
+import { confirmSubscription } from '@/actions/newsletter';
+
+export const metadata: Metadata = {
+  title: 'Confirm Subscription | Baby Petite',
+  robots: { index: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+interface NewsletterConfirmPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Newsletter confirmation page - Server Component
+ * Landing page for the double opt-in link in the confirmation email
+ */
+export default async function NewsletterConfirmPage({ searchParams }: NewsletterConfirmPageProps) {
+  const { token } = await searchParams;
+  const result = await confirmSubscription(token ?? '');
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-16 md:py-24">
+      <Container size="sm">
+        <div className="bg-white rounded-lg p-8 text-center space-y-4">
+          {result.success && result.data ? (
+            <>
+              <CheckCircle className="w-12 h-12 mx-auto text-green-600" />
+              <h1 className="text-2xl font-bold text-gray-900">{result.data.message}</h1>
+              <p className="text-gray-600">
+                Thanks for joining the Baby Petite newsletter. You can choose which emails you
+                get at any time.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <Link href={result.data.preferencesUrl}>
+                  <Button variant="outline">Manage Preferences</Button>
+                </Link>
+                <Link href="/">
+                  <Button>Continue Shopping</Button>
+                </Link>
+              </div>
+            </>
+          ) : (
+            <>
+              <AlertCircle className="w-12 h-12 mx-auto text-red-600" />
+              <h1 className="text-2xl font-bold text-gray-900">We couldn&apos;t confirm your subscription</h1>
+              <p className="text-gray-600">{result.error}</p>
+              <Link href="/#newsletter">
+                <Button>Subscribe Again</Button>
+              </Link>
+            </>
+          )}
+        </div>
+      </Container>
+    </main>
+  );
+}
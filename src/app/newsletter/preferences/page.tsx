@@ -0,0 +1,55 @@
+import { Metadata } from 'next';
+import { AlertCircle } from 'lucide-react';
+import { Container } from '@/components/layout/container';
+import { NewsletterPreferencesForm } from '@/components/newsletter/newsletter-preferences-form';
+import { getSubscriptionStatus } from '@/actions/newsletter';
+
+export const metadata: Metadata = {
+  title: 'Email Preferences | Baby Petite',
+  robots: { index: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+interface NewsletterPreferencesPageProps {
+  searchParams: Promise<{ email?: string; token?: string }>;
+}
+
+/**
+ * Newsletter preferences page - Server Component
+ * Reached from the signed preferences link in newsletter emails, so
+ * subscribers can manage topics without signing in
+ */
+export default async function NewsletterPreferencesPage({ searchParams }: NewsletterPreferencesPageProps) {
+  const { email, token } = await searchParams;
+  const result = email && token ? await getSubscriptionStatus(email, token) : null;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-16 md:py-24">
+      <Container size="sm">
+        <div className="bg-white rounded-lg p-8 space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email Preferences</h1>
+            {email && <p className="text-gray-600">Choose which emails we send to {email}.</p>}
+          </div>
+
+          {result?.success && result.data ? (
+            <NewsletterPreferencesForm
+              status={result.data.status ?? null}
+              topics={result.data.topics ?? []}
+              link={{ email: email!, token: token! }}
+            />
+          ) : (
+            <div className="flex items-start gap-2 p-4 bg-red-50 rounded-lg text-sm text-red-700">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <p>
+                {result?.error ||
+                  'This link is invalid. Please use the link in your most recent email.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </Container>
+    </main>
+  );
+}
@@ -1,9 +1,9 @@
 import { BannerCarousel } from '@/components/content/banner-carousel';
 import { CollectionCard } from '@/components/content/collection-card';
 import { FeatureCard } from '@/components/content/feature-card';
+import { NewsletterSignupForm } from '@/components/newsletter/newsletter-signup-form';
 import { ProductCard, Product } from '@/components/product/product-card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Truck, Shield, Heart, ArrowRight } from 'lucide-react';
 import Link from 'next/link';
 import { PaginatedProductsResponse } from '@/app/api/products/route';
@@ -319,7 +319,7 @@ export default async function HomePage() {
       </section>
 
       {/* Newsletter Signup */}
-      <section className="py-12 md:py-16">
+      <section id="newsletter" className="py-12 md:py-16">
         <div className="container mx-auto px-4">
           <div className="max-w-xl mx-auto text-center">
             <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4">
@@ -328,17 +328,7 @@ export default async function HomePage() {
             <p className="text-gray-600 mb-6">
               Subscribe for exclusive offers, new arrivals, and parenting tips.
             </p>
-            <form className="flex flex-col sm:flex-row gap-3">
-              <Input
-                type="email"
-                placeholder="Enter your email"
-                className="flex-1"
-                required
-              />
-              <Button type="submit" size="lg">
-                Subscribe
-              </Button>
-            </form>
+            <NewsletterSignupForm source="home" />
             <p className="text-xs text-gray-500 mt-3">
               By subscribing, you agree to our{' '}
               <Link href="/privacy" className="underline hover:text-gray-700">
@@ -2,18 +2,22 @@
 
 import * as React from 'react';
 import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { GrowthTracker } from '@/components/registry/growth-tracker';
 import { SizePredictor } from '@/components/registry/size-predictor';
-import { ArrowLeft, TrendingUp, Ruler } from 'lucide-react';
+import { ArrowLeft, TrendingUp, Ruler, Plus } from 'lucide-react';
 import { addGrowthEntry, deleteGrowthEntry, getSizePrediction } from '@/actions/growth';
 import type { SizePrediction } from '@/actions/growth';
+import { createChild, updateChild } from '@/actions/children';
+import type { ChildProfile } from '@/actions/children';
+import type { ChildSex } from '@prisma/client';
+import { cmToInches, inchesToCm, kgToPounds, poundsToKg } from '@/lib/growth/units';
 
 interface GrowthEntry {
   id: string;
-  childName: string | null;
-  childBirthDate: Date | null;
   height: number | null;
   weight: number | null;
   headCircumference: number | null;
@@ -28,39 +32,144 @@ interface RegistryData {
   eventDate: Date | null;
 }
 
+const SEX_OPTIONS = [
+  { value: 'MALE', label: 'Boy' },
+  { value: 'FEMALE', label: 'Girl' },
+];
+
+/**
+ * Form for adding a child profile
+ */
+function AddChildForm({
+  onCreated,
+  onCancel,
+}: {
+  onCreated: (childId: string) => void;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = React.useState('');
+  const [birthDate, setBirthDate] = React.useState('');
+  const [dueDate, setDueDate] = React.useState('');
+  const [sex, setSex] = React.useState<ChildSex | ''>('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await createChild({
+      name,
+      birthDate: birthDate ? new Date(birthDate).toISOString() : null,
+      dueDate: dueDate ? new Date(dueDate).toISOString() : null,
+      sex: sex || null,
+    });
+    setIsSubmitting(false);
+
+    if (result.success && result.data) {
+      onCreated(result.data.childId);
+    } else {
+      setError(result.error || Object.values(result.fieldErrors ?? {})[0]?.[0] || 'Failed to add child');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} required />
+      <div className="grid grid-cols-2 gap-3">
+        <Input type="date" label="Birth date" value={birthDate} onChange={(e) => setBirthDate(e.target.value)} />
+        <Input type="date" label="Due date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+      </div>
+      <Select
+        label="Boy or girl?"
+        value={sex}
+        onChange={(e) => setSex(e.target.value as ChildSex | '')}
+        options={[{ value: '', label: 'Not sure yet' }, ...SEX_OPTIONS]}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-3">
+        {onCancel && (
+          <Button type="button" variant="secondary" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting}>
+          Add Child
+        </Button>
+      </div>
+    </form>
+  );
+}
+
 /**
  * Client component for growth tracking
+ * Shows one child at a time; switching children reloads the page for that child
  */
 export function GrowthTrackerView({
   registry,
+  childProfiles,
+  selectedChild,
   growthEntries: initialEntries,
 }: {
   registry: RegistryData;
+  childProfiles: ChildProfile[];
+  selectedChild: ChildProfile | null;
   growthEntries: GrowthEntry[];
 }) {
+  const router = useRouter();
+  const pathname = usePathname();
   const [entries, setEntries] = React.useState(initialEntries);
   const [sizePrediction, setSizePrediction] = React.useState<SizePrediction | null>(null);
   const [isPredicting, setIsPredicting] = React.useState(false);
+  const [predictionError, setPredictionError] = React.useState<string | null>(null);
+  const [childSex, setChildSex] = React.useState<ChildSex | ''>(selectedChild?.sex ?? '');
+  const [isAddingChild, setIsAddingChild] = React.useState(false);
 
-  // Get the latest entry for current stats
-  const latestEntry = entries[0];
-  const childBirthDate = latestEntry?.childBirthDate || registry.eventDate;
+  const childBirthDate = selectedChild?.birthDate || selectedChild?.dueDate || null;
+  const childOptions = childProfiles.map((child) => ({ id: child.id, name: child.name }));
 
-  // Transform entries for the GrowthTracker component
+  const handleChildChange = (childId: string) => {
+    router.push(`${pathname}?child=${childId}`);
+  };
+
+  const handleChildCreated = (childId: string) => {
+    setIsAddingChild(false);
+    router.push(`${pathname}?child=${childId}`);
+    router.refresh();
+  };
+
+  const handleSexChange = async (sex: ChildSex | '') => {
+    if (!selectedChild) return;
+    setChildSex(sex);
+    setSizePrediction(null);
+    await updateChild(selectedChild.id, { sex: sex || null });
+  };
+
+  // Transform entries for the GrowthTracker component, which works in lbs and inches
   const growthTrackerEntries = entries.map((entry) => ({
     id: entry.id,
     date: entry.recordedAt,
-    weight: entry.weight || undefined,
-    height: entry.height || undefined,
-    headCircumference: entry.headCircumference || undefined,
+    weight: entry.weight ? kgToPounds(entry.weight) : undefined,
+    height: entry.height ? cmToInches(entry.height) : undefined,
+    headCircumference: entry.headCircumference ? cmToInches(entry.headCircumference) : undefined,
     notes: entry.notes || undefined,
   }));
 
   const handleAddEntry = async (entry: { date: Date | string; weight?: number; height?: number; headCircumference?: number; notes?: string }) => {
+    if (!selectedChild) return;
+
+    // Entries are stored in cm and kg
+    const height = entry.height ? inchesToCm(entry.height) : null;
+    const weight = entry.weight ? poundsToKg(entry.weight) : null;
+    const headCircumference = entry.headCircumference ? inchesToCm(entry.headCircumference) : null;
+
     const result = await addGrowthEntry({
-      height: entry.height || null,
-      weight: entry.weight || null,
-      headCircumference: entry.headCircumference || null,
+      childId: selectedChild.id,
+      height,
+      weight,
+      headCircumference,
+      recordedAt: new Date(entry.date).toISOString(),
       notes: entry.notes,
     });
 
@@ -68,18 +177,14 @@ export function GrowthTrackerView({
       // Add the new entry to local state
       const newEntry: GrowthEntry = {
         id: result.data.entryId,
-        childName: null,
-        childBirthDate: childBirthDate ? new Date(childBirthDate) : null,
-        height: entry.height || null,
-        weight: entry.weight || null,
-        headCircumference: entry.headCircumference || null,
+        height,
+        weight,
+        headCircumference,
         recordedAt: new Date(entry.date),
         notes: entry.notes || null,
       };
       setEntries((prev) => [newEntry, ...prev]);
     }
-
-    return result;
   };
 
   const handleDeleteEntry = async (entryId: string) => {
@@ -90,25 +195,43 @@ export function GrowthTrackerView({
   };
 
   const handlePredictSize = async () => {
+    if (!selectedChild) return;
     setIsPredicting(true);
-    const result = await getSizePrediction(registry.id);
+    setPredictionError(null);
+    const result = await getSizePrediction(selectedChild.id);
     setIsPredicting(false);
 
     if (result.success && result.data) {
       setSizePrediction(result.data);
+    } else {
+      setPredictionError(result.error || 'Failed to predict sizes');
     }
   };
 
   // Transform SizePrediction from action to SizePredictionData for component
   const predictionData = sizePrediction ? {
     predictedSize: sizePrediction.currentSize.clothing,
-    confidence: Math.round((sizePrediction.growthPercentile.height + sizePrediction.growthPercentile.weight) / 2),
+    // Confidence reflects how much real data the chart projection is based on
+    confidence:
+      sizePrediction.assumedMedian.length > 0
+        ? 50
+        : sizePrediction.growthVelocity.height !== null || sizePrediction.growthVelocity.weight !== null
+          ? 90
+          : 75,
     alternatives: sizePrediction.predictedSizes.slice(0, 3).map((pred, index) => ({
       size: pred.clothing,
       probability: Math.max(5, 30 - index * 10),
     })),
     predictionDate: new Date(),
-    factors: sizePrediction.recommendations.slice(0, 3),
+    factors: [
+      ...(['height', 'weight', 'headCircumference'] as const)
+        .filter((measurement) => sizePrediction.growthPercentile[measurement] !== null)
+        .map(
+          (measurement) =>
+            `${measurement === 'headCircumference' ? 'Head' : measurement === 'height' ? 'Height' : 'Weight'}: ${sizePrediction.growthPercentile[measurement]}th percentile (${sizePrediction.chart})`
+        ),
+      ...sizePrediction.recommendations.slice(0, 3),
+    ],
   } : null;
 
   return (
@@ -121,70 +244,121 @@ export function GrowthTrackerView({
               Back to Registry
             </Button>
           </Link>
-          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mt-4">
-            Growth Tracking
-          </h1>
-          <p className="text-gray-600 mt-1">
-            {registry.name}
-          </p>
+          <div className="flex items-end justify-between mt-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+                Growth Tracking
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {selectedChild ? selectedChild.name : registry.name}
+              </p>
+            </div>
+            {selectedChild && !isAddingChild && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsAddingChild(true)}
+                leftIcon={<Plus className="w-4 h-4" />}
+              >
+                Add Child
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
       <div className="container mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Growth tracker */}
-          <div className="bg-white rounded-lg p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <TrendingUp className="w-5 h-5 text-gray-400" />
-              <h2 className="text-lg font-semibold text-gray-900">
-                Growth Tracker
-              </h2>
-            </div>
-
-            <GrowthTracker
-              birthDate={childBirthDate || new Date()}
-              entries={growthTrackerEntries}
-              onAddEntry={handleAddEntry}
-              onDeleteEntry={handleDeleteEntry}
-              showAddButton={true}
-              showChart={true}
+        {(!selectedChild || isAddingChild) && (
+          <div className="bg-white rounded-lg p-6 mb-8 max-w-lg">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">
+              {selectedChild ? 'Add a child' : 'Who are you tracking?'}
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Each child gets their own growth history and size predictions. Add a due date if your baby hasn't arrived yet.
+            </p>
+            <AddChildForm
+              onCreated={handleChildCreated}
+              onCancel={selectedChild ? () => setIsAddingChild(false) : undefined}
             />
           </div>
+        )}
 
-          {/* Size predictor */}
-          <div className="bg-white rounded-lg p-6">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center gap-2">
-                <Ruler className="w-5 h-5 text-gray-400" />
+        {selectedChild && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Growth tracker */}
+            <div className="bg-white rounded-lg p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <TrendingUp className="w-5 h-5 text-gray-400" />
                 <h2 className="text-lg font-semibold text-gray-900">
-                  Size Predictor
+                  Growth Tracker
                 </h2>
               </div>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handlePredictSize}
-                loading={isPredicting}
-                disabled={entries.length === 0}
-              >
-                Get Prediction
-              </Button>
-            </div>
 
-            {predictionData ? (
-              <SizePredictor
-                prediction={predictionData}
+              <GrowthTracker
                 birthDate={childBirthDate || new Date()}
-                showDetails={true}
+                entries={growthTrackerEntries}
+                childOptions={childOptions}
+                selectedChildId={selectedChild.id}
+                onChildChange={handleChildChange}
+                onAddEntry={handleAddEntry}
+                onDeleteEntry={handleDeleteEntry}
+                showAddButton={true}
+                showChart={true}
               />
-            ) : (
-              <div className="text-center py-8 text-gray-500">
-                <Ruler className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-                <p>Add growth entries and click "Get Prediction" to see size recommendations</p>
+            </div>
+
+            {/* Size predictor */}
+            <div className="bg-white rounded-lg p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-2">
+                  <Ruler className="w-5 h-5 text-gray-400" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    Size Predictor
+                  </h2>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="Growth chart"
+                    value={childSex}
+                    onChange={(e) => handleSexChange(e.target.value as ChildSex | '')}
+                    className="text-sm border border-gray-200 rounded px-2 py-1"
+                  >
+                    <option value="">Boy or girl?</option>
+                    <option value="MALE">Boy</option>
+                    <option value="FEMALE">Girl</option>
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handlePredictSize}
+                    loading={isPredicting}
+                    disabled={entries.length === 0}
+                  >
+                    Get Prediction
+                  </Button>
+                </div>
               </div>
-            )}
+
+              {predictionError && <p className="text-sm text-red-600 mb-4">{predictionError}</p>}
+
+              {predictionData ? (
+                <SizePredictor
+                  prediction={predictionData}
+                  birthDate={childBirthDate || new Date()}
+                  childOptions={childOptions}
+                  selectedChildId={selectedChild.id}
+                  onChildChange={handleChildChange}
+                  showDetails={true}
+                />
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <Ruler className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>Add growth entries and click "Get Prediction" to see size recommendations</p>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Info section */}
         <div className="mt-8 bg-yellow/10 rounded-lg p-6">
@@ -192,7 +366,7 @@ export function GrowthTrackerView({
             About Growth Tracking
           </h3>
           <p className="text-gray-600">
-            Track your baby's growth over time and get personalized size recommendations based on their measurements. This helps ensure you always select the right size when adding items to your registry.
+            Track your baby's growth over time and get personalized size recommendations based on their measurements. Measurements are compared with the WHO growth charts up to 2 years and the CDC charts after that, so choosing boy or girl gives more accurate percentiles. This helps ensure you always select the right size when adding items to your registry.
           </p>
         </div>
       </div>
@@ -1,19 +1,23 @@
 import { notFound, redirect } from 'next/navigation';
 import { getRegistry } from '@/actions/registry';
 import { getGrowthEntries } from '@/actions/growth';
+import { getChildren } from '@/actions/children';
 import { GrowthTrackerView } from './growth-tracker-view';
-import { Priority } from '@prisma/client';
 
 /**
  * Growth tracker page
- * Server component that fetches registry and growth data
+ * Server component that fetches registry, children and the selected
+ * child's growth data (`?child=` picks the child, defaulting to the first)
  */
 export default async function RegistryGrowthPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ shareCode: string }>;
+  searchParams: Promise<{ child?: string }>;
 }) {
   const { shareCode } = await params;
+  const { child: childId } = await searchParams;
   const result = await getRegistry(shareCode);
 
   if (!result.success) {
@@ -37,12 +41,19 @@ export default async function RegistryGrowthPage({
     redirect(`/registry/${shareCode}`);
   }
 
-  // Fetch growth entries
-  const growthResult = await getGrowthEntries(registry.id);
-  const growthEntries = growthResult.success && growthResult.data ? growthResult.data.entries : [];
+  // Fetch children and the selected child's growth entries
+  const childrenResult = await getChildren();
+  const children = childrenResult.success && childrenResult.data ? childrenResult.data.children : [];
+  const selectedChild = children.find((child) => child.id === childId) ?? children[0] ?? null;
+
+  const growthResult = selectedChild ? await getGrowthEntries(selectedChild.id) : null;
+  const growthEntries = growthResult?.success && growthResult.data ? growthResult.data.entries : [];
 
   return (
     <GrowthTrackerView
+      key={selectedChild?.id ?? 'none'}
+      childProfiles={children}
+      selectedChild={selectedChild}
       registry={{
         id: registry.id,
         name: registry.name,
@@ -51,8 +62,6 @@ export default async function RegistryGrowthPage({
       }}
       growthEntries={growthEntries.map((entry) => ({
         id: entry.id,
-        childName: entry.childName,
-        childBirthDate: entry.childBirthDate,
         height: entry.height,
         weight: entry.weight,
         headCircumference: entry.headCircumference,
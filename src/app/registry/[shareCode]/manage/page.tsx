@@ -1,5 +1,6 @@
 import { notFound, redirect } from 'next/navigation';
-import { getRegistry } from '@/actions/registry';
+import { getGiftLog, getRegistry } from '@/actions/registry';
+import { getUserAddresses } from '@/actions/addresses';
 import { RegistryManageView } from './registry-manage-view';
 import { Priority } from '@prisma/client';
 
@@ -36,6 +37,19 @@ export default async function RegistryManagePage({
     redirect(`/registry/${shareCode}`);
   }
 
+  // Addresses the owner can have gifts shipped to
+  const addressesResult = await getUserAddresses();
+  const addresses = addressesResult.success && addressesResult.data
+    ? addressesResult.data.addresses.map((address) => ({
+        id: address.id,
+        label: `${address.firstName} ${address.lastName}, ${address.line1}, ${address.city}, ${address.state} ${address.zip}`,
+      }))
+    : [];
+
+  // Who bought what, for thank-you notes
+  const giftLogResult = await getGiftLog(shareCode);
+  const giftLog = giftLogResult.success && giftLogResult.data ? giftLogResult.data : [];
+
   // Transform items for the client component
   const registryItems = registry.items.map((item) => ({
     id: item.id,
@@ -59,8 +73,13 @@ export default async function RegistryManagePage({
         eventDate: registry.eventDate,
         shareCode: registry.shareCode,
         isPublic: registry.isPublic,
+        shippingAddressId: registry.shippingAddressId,
+        status: registry.status,
+        completionDiscount: registry.completionDiscount,
         items: registryItems,
       }}
+      addresses={addresses}
+      giftLog={giftLog}
     />
   );
 }
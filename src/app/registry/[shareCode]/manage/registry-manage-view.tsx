@@ -5,10 +5,29 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Search, Share2, Settings, Trash2, ExternalLink, TrendingUp } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Plus,
+  Search,
+  Share2,
+  Settings,
+  Trash2,
+  ExternalLink,
+  TrendingUp,
+  Truck,
+  Gift,
+  Download,
+  Tag,
+} from 'lucide-react';
 import { RegistryShare } from '@/components/registry/registry-share';
-import { removeRegistryItem, updateRegistryItem } from '@/actions/registry';
-import { Priority } from '@prisma/client';
+import {
+  removeRegistryItem,
+  updateRegistry,
+  updateRegistryItem,
+  updateThankYouSent,
+} from '@/actions/registry';
+import type { GiftLogEntry } from '@/lib/registry/gift-log';
+import { Priority, RegistryStatus } from '@prisma/client';
 
 interface RegistryItem {
   id: string;
@@ -30,18 +49,44 @@ interface RegistryData {
   eventDate: Date | null;
   shareCode: string;
   isPublic: boolean;
+  shippingAddressId: string | null;
+  status: RegistryStatus;
+  completionDiscount: {
+    code: string;
+    percentOff: number;
+    expiresAt: Date | null;
+    used: boolean;
+  } | null;
   items: RegistryItem[];
 }
 
+interface AddressOption {
+  id: string;
+  label: string;
+}
+
 /**
  * Client component for registry management
  */
-export function RegistryManageView({ registry }: { registry: RegistryData }) {
+export function RegistryManageView({
+  registry,
+  addresses,
+  giftLog: initialGiftLog,
+}: {
+  registry: RegistryData;
+  addresses: AddressOption[];
+  giftLog: GiftLogEntry[];
+}) {
   const router = useRouter();
   const [showShare, setShowShare] = React.useState(false);
+  const [shippingAddressId, setShippingAddressId] = React.useState(registry.shippingAddressId ?? '');
+  const [isSavingAddress, setIsSavingAddress] = React.useState(false);
+  const [addressError, setAddressError] = React.useState<string | null>(null);
   const [searchQuery, setSearchQuery] = React.useState('');
   const [items, setItems] = React.useState(registry.items);
   const [removingItems, setRemovingItems] = React.useState<Set<string>>(new Set());
+  const [giftLog, setGiftLog] = React.useState(initialGiftLog);
+  const [giftLogError, setGiftLogError] = React.useState<string | null>(null);
 
   const totalItems = items.length;
   const fulfilledItems = items.filter((item) => item.quantityPurchased >= item.quantity).length;
@@ -86,6 +131,45 @@ export function RegistryManageView({ registry }: { registry: RegistryData }) {
     }
   };
 
+  const handleShippingAddressChange = async (addressId: string) => {
+    const previous = shippingAddressId;
+    setShippingAddressId(addressId);
+    setIsSavingAddress(true);
+    setAddressError(null);
+
+    const result = await updateRegistry(registry.shareCode, {
+      shippingAddressId: addressId || null,
+    });
+
+    setIsSavingAddress(false);
+
+    if (!result.success) {
+      setShippingAddressId(previous);
+      setAddressError(result.error || 'Failed to update shipping address');
+    }
+  };
+
+  const handleThankYouChange = async (orderId: string, sent: boolean) => {
+    setGiftLogError(null);
+
+    const result = await updateThankYouSent({
+      shareCode: registry.shareCode,
+      orderId,
+      sent,
+    });
+
+    if (result.success && result.data) {
+      const { thankYouSentAt } = result.data;
+      setGiftLog((prev) =>
+        prev.map((entry) => (entry.orderId === orderId ? { ...entry, thankYouSentAt } : entry))
+      );
+    } else {
+      setGiftLogError(result.error || 'Failed to update gift log');
+    }
+  };
+
+  const thankYousSent = giftLog.filter((entry) => entry.thankYouSentAt).length;
+
   const getPriorityColor = (priority: Priority) => {
     switch (priority) {
       case Priority.HIGH:
@@ -111,6 +195,11 @@ export function RegistryManageView({ registry }: { registry: RegistryData }) {
               </h1>
               <p className="text-gray-600 mt-1">
                 {registry.name}
+                {registry.status !== RegistryStatus.ACTIVE && (
+                  <span className="ml-2 text-xs px-2 py-1 rounded bg-gray-200 text-gray-700">
+                    {registry.status === RegistryStatus.COMPLETED ? 'Completed' : 'Archived'}
+                  </span>
+                )}
               </p>
             </div>
             <div className="flex gap-3">
@@ -155,6 +244,68 @@ export function RegistryManageView({ registry }: { registry: RegistryData }) {
           </div>
         </div>
 
+        {/* Completion discount */}
+        {registry.completionDiscount && (
+          <div className="max-w-2xl mx-auto mb-8 bg-yellow/10 rounded-lg border border-yellow p-4">
+            <div className="flex items-start gap-3">
+              <Tag className="w-5 h-5 text-yellow-dark flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {registry.completionDiscount.percentOff}% off the items you didn&apos;t receive
+                </p>
+                <p className="text-lg font-mono font-semibold text-gray-900 mt-1">
+                  {registry.completionDiscount.code}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {registry.completionDiscount.used
+                    ? 'This code has been used.'
+                    : registry.completionDiscount.expiresAt
+                      ? `Single use, valid until ${new Date(registry.completionDiscount.expiresAt).toLocaleDateString()}.`
+                      : 'Single use.'}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Gift shipping address */}
+        <div className="max-w-2xl mx-auto mb-8 bg-white rounded-lg border border-gray-200 p-4">
+          <div className="flex items-start gap-3">
+            <Truck className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 space-y-2">
+              <div>
+                <label htmlFor="registry-shipping-address" className="text-sm font-medium text-gray-900">
+                  Ship gifts to
+                </label>
+                <p className="text-xs text-gray-500">
+                  Gift givers never see this address. Gifts can&apos;t be bought until one is chosen.
+                </p>
+              </div>
+              {addresses.length > 0 ? (
+                <select
+                  id="registry-shipping-address"
+                  value={shippingAddressId}
+                  onChange={(e) => handleShippingAddressChange(e.target.value)}
+                  disabled={isSavingAddress}
+                  className="w-full text-sm border border-gray-200 rounded px-2 py-2"
+                >
+                  <option value="">Choose an address</option>
+                  {addresses.map((address) => (
+                    <option key={address.id} value={address.id}>
+                      {address.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <Link href="/account/addresses" className="text-sm text-yellow-dark hover:underline">
+                  Add an address to your account
+                </Link>
+              )}
+              {addressError && <p className="text-sm text-red-600">{addressError}</p>}
+            </div>
+          </div>
+        </div>
+
         {/* Search and add */}
         <div className="flex flex-col sm:flex-row gap-4 mb-8">
           <div className="flex-1 relative">
@@ -269,6 +420,74 @@ export function RegistryManageView({ registry }: { registry: RegistryData }) {
         </div>
       </div>
 
+      {/* Gift log */}
+      <div className="container mx-auto px-4 pb-12">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Gift Log ({giftLog.length})
+            </h2>
+            {giftLog.length > 0 && (
+              <p className="text-sm text-gray-600">
+                {thankYousSent} of {giftLog.length} thank-you notes sent
+              </p>
+            )}
+          </div>
+          {giftLog.length > 0 && (
+            <a href={`/api/registry/${registry.shareCode}/gift-log`} download>
+              <Button variant="outline" leftIcon={<Download className="w-4 h-4" />}>
+                Export CSV
+              </Button>
+            </a>
+          )}
+        </div>
+
+        {giftLogError && <p className="text-sm text-red-600 mb-4">{giftLogError}</p>}
+
+        {giftLog.length === 0 ? (
+          <div className="bg-white rounded-lg p-12 text-center">
+            <Gift className="w-8 h-8 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">No gifts yet. They&apos;ll show up here as they&apos;re bought.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {giftLog.map((entry) => (
+              <div key={entry.orderId} className="p-4 flex flex-col sm:flex-row sm:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="font-medium text-gray-900">{entry.gifterName}</p>
+                    <p className="text-xs text-gray-500 flex-shrink-0">
+                      {new Date(entry.purchasedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {entry.gifterEmail && (
+                    <p className="text-sm text-gray-500">{entry.gifterEmail}</p>
+                  )}
+                  <ul className="mt-2 text-sm text-gray-700">
+                    {entry.items.map((item, index) => (
+                      <li key={index}>
+                        {item.quantity} × {item.productName}
+                        {item.variantName && (
+                          <span className="text-gray-500"> ({item.variantName})</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {entry.giftMessage && (
+                    <p className="mt-2 text-sm text-gray-600 italic">&ldquo;{entry.giftMessage}&rdquo;</p>
+                  )}
+                </div>
+                <Checkbox
+                  label="Thank-you sent"
+                  checked={!!entry.thankYouSentAt}
+                  onChange={(e) => handleThankYouChange(entry.orderId, e.target.checked)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Share dialog */}
       {showShare && (
         <RegistryShare
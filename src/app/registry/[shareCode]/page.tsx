@@ -55,6 +55,7 @@ export default async function RegistryPublicPage({
         shareCode: registry.shareCode,
         isPublic: registry.isPublic,
         isOwner: registry.isOwner,
+        acceptsGifts: registry.acceptsGifts,
         items: registryItems,
       }}
     />
@@ -2,10 +2,12 @@
 
 import * as React from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Share2, Calendar, Gift, ShoppingCart, CheckCircle, ExternalLink } from 'lucide-react';
 import { RegistryShare } from '@/components/registry/registry-share';
-import { purchaseRegistryItem } from '@/actions/registry';
+import { addRegistryItemToCart } from '@/actions/cart';
+import { useToast } from '@/hooks/use-toast';
 import { Priority } from '@prisma/client';
 
 interface RegistryItem {
@@ -29,6 +31,7 @@ interface RegistryData {
   shareCode: string;
   isPublic: boolean;
   isOwner: boolean;
+  acceptsGifts: boolean;
   items: RegistryItem[];
 }
 
@@ -36,18 +39,22 @@ interface RegistryData {
  * Client component for public registry view
  */
 export function RegistryPublicView({ registry }: { registry: RegistryData }) {
+  const router = useRouter();
+  const toast = useToast();
   const [showShare, setShowShare] = React.useState(false);
   const [purchasingItems, setPurchasingItems] = React.useState<Set<string>>(new Set());
-  const [items, setItems] = React.useState(registry.items);
+  const items = registry.items;
 
   const totalItems = items.length;
   const fulfilledItems = items.filter((item) => item.quantityPurchased >= item.quantity).length;
   const progress = totalItems > 0 ? (fulfilledItems / totalItems) * 100 : 0;
+  const canBuyGifts = registry.acceptsGifts && !registry.isOwner;
 
-  const handlePurchase = async (itemId: string) => {
+  // Gifts go through the cart and checkout; the registry is updated once paid
+  const handleBuyGift = async (itemId: string) => {
     setPurchasingItems((prev) => new Set(prev).add(itemId));
 
-    const result = await purchaseRegistryItem({
+    const result = await addRegistryItemToCart({
       shareCode: registry.shareCode,
       itemId,
       quantity: 1,
@@ -60,14 +67,9 @@ export function RegistryPublicView({ registry }: { registry: RegistryData }) {
     });
 
     if (result.success) {
-      // Update local state
-      setItems((prevItems) =>
-        prevItems.map((item) =>
-          item.id === itemId
-            ? { ...item, quantityPurchased: item.quantityPurchased + 1 }
-            : item
-        )
-      );
+      router.push('/cart');
+    } else {
+      toast.error(result.error || 'Failed to add gift to cart');
     }
   };
 
@@ -143,6 +145,12 @@ export function RegistryPublicView({ registry }: { registry: RegistryData }) {
           </div>
         </div>
 
+        {!registry.acceptsGifts && !registry.isOwner && (
+          <p className="max-w-2xl mx-auto mb-8 text-center text-sm text-gray-600">
+            This registry isn&apos;t accepting gifts through our store yet.
+          </p>
+        )}
+
         {/* Actions */}
         <div className="flex justify-center gap-3 mb-8">
           <Button
@@ -223,14 +231,16 @@ export function RegistryPublicView({ registry }: { registry: RegistryData }) {
                               View
                             </Button>
                           </Link>
-                          <Button
-                            size="sm"
-                            onClick={() => handlePurchase(item.id)}
-                            loading={isPurchasing}
-                            leftIcon={<ShoppingCart className="w-3 h-3" />}
-                          >
-                            Mark Purchased
-                          </Button>
+                          {canBuyGifts && item.variantId && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleBuyGift(item.id)}
+                              loading={isPurchasing}
+                              leftIcon={<ShoppingCart className="w-3 h-3" />}
+                            >
+                              Buy Gift
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,185 @@
+import { CheckCircle, ExternalLink, MapPin, Package, Truck } from 'lucide-react';
+import { cn, formatDate } from '@/lib/utils';
+import type { OrderTrackingView as OrderTrackingViewData, TrackingStep } from '@/lib/order-tracking/timeline';
+
+interface OrderTrackingViewProps {
+  view: OrderTrackingViewData;
+}
+
+const TIME_FORMAT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+/**
+ * Progress steps, styled like the account order timeline
+ */
+function StepBar({ steps }: { steps: TrackingStep[] }) {
+  return (
+    <div className="flex justify-between">
+      {steps.map((step) => (
+        <div key={step.label} className="flex flex-col items-center flex-1 text-center">
+          <div
+            className={cn(
+              'w-8 h-8 rounded-full flex items-center justify-center',
+              step.state === 'complete' ? 'bg-green-100' : 'bg-gray-100',
+              step.state === 'current' && 'ring-2 ring-green-400'
+            )}
+          >
+            {step.state === 'complete' ? (
+              <CheckCircle className="w-4 h-4 text-green-600" />
+            ) : (
+              <div className={cn('w-2 h-2 rounded-full', step.state === 'current' ? 'bg-green-500' : 'bg-gray-400')} />
+            )}
+          </div>
+          <p
+            className={cn(
+              'mt-2 text-xs font-medium',
+              step.state === 'upcoming' ? 'text-gray-500' : 'text-gray-900'
+            )}
+          >
+            {step.label}
+          </p>
+          {step.at && (
+            <p className="text-xs text-gray-500">
+              {step.at.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Public order tracking view - Server Component
+ * Order progress, each package with its carrier, and the combined scan history
+ */
+export default function OrderTrackingView({ view }: OrderTrackingViewProps) {
+  const { destination } = view;
+  const place = [destination.city, destination.state, destination.country].filter(Boolean).join(', ');
+  const split = view.packages.length > 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg p-6 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Order {view.orderNumber}</h1>
+            <p className="text-sm text-gray-500">Placed {formatDate(view.placedAt, 'long')}</p>
+          </div>
+          {view.estimatedDelivery && (
+            <div className="sm:text-right">
+              <p className="text-sm text-gray-500">Estimated delivery</p>
+              <p className="text-lg font-semibold text-gray-900">{formatDate(view.estimatedDelivery, 'full')}</p>
+            </div>
+          )}
+        </div>
+
+        <StepBar steps={view.steps} />
+
+        {view.cancelled && (
+          <p className="text-sm text-red-600">
+            This order was cancelled. Any payment taken has been or will be refunded.
+          </p>
+        )}
+
+        {(destination.recipient || place) && (
+          <div className="flex items-start gap-2 text-sm text-gray-600">
+            <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              Shipping to {[destination.recipient, place].filter(Boolean).join(' in ')}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {view.packages.map((pkg) => (
+        <div key={pkg.packageNumber} className="bg-white rounded-lg p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+              <Package className="w-5 h-5 text-gray-500" />
+              {split ? `Package ${pkg.packageNumber} of ${view.packages.length}` : 'Your package'}
+            </h2>
+            {pkg.trackingNumber && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Truck className="w-4 h-4" />
+                <span>
+                  {pkg.carrier ? `${pkg.carrier} ` : ''}
+                  {pkg.trackingUrl ? (
+                    <a
+                      href={pkg.trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      {pkg.trackingNumber}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    pkg.trackingNumber
+                  )}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <StepBar steps={pkg.steps} />
+
+          {pkg.latestScan && (
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">{pkg.latestScan.description}</span>
+              {pkg.latestScan.location ? ` · ${pkg.latestScan.location}` : ''}
+              {` · ${TIME_FORMAT.format(pkg.latestScan.occurredAt)}`}
+            </p>
+          )}
+          {pkg.status !== 'DELIVERED' && pkg.estimatedDelivery && (
+            <p className="text-sm text-gray-600">Expected {formatDate(pkg.estimatedDelivery, 'long')}</p>
+          )}
+
+          <ul className="text-sm text-gray-700 divide-y divide-gray-100">
+            {pkg.items.map((item, index) => (
+              <li key={index} className="py-2 flex justify-between gap-4">
+                <span>
+                  {item.productName}
+                  {item.variantName && <span className="text-gray-500"> · {item.variantName}</span>}
+                </span>
+                <span className="text-gray-500">×{item.quantity}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {view.activity.length > 0 && (
+        <div className="bg-white rounded-lg p-6">
+          <h2 className="font-semibold text-gray-900 mb-4">Tracking history</h2>
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {view.activity.map((entry, index) => (
+              <li key={index} className="ml-4">
+                <span
+                  className={cn(
+                    'absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white',
+                    index === 0 ? 'bg-green-500' : 'bg-gray-300'
+                  )}
+                />
+                <p className="text-sm font-medium text-gray-900">
+                  {entry.title}
+                  {split && entry.packageNumber && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">Package {entry.packageNumber}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {TIME_FORMAT.format(entry.at)}
+                  {entry.location ? ` · ${entry.location}` : ''}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { PackageSearch } from 'lucide-react';
+import { Container } from '@/components/layout/container';
+import { Alert } from '@/components/ui/alert';
+import { getOrderTrackingView, verifyOrderTrackingToken } from '@/lib/order-tracking';
+import TrackLookupForm from './track-lookup-form';
+import OrderTrackingView from './order-tracking-view';
+
+export const metadata: Metadata = {
+  title: 'Track Your Order | Baby Petite',
+  robots: { index: false },
+};
+
+export const dynamic = 'force-dynamic';
+
+interface TrackPageProps {
+  searchParams: Promise<{ order?: string; token?: string }>;
+}
+
+/**
+ * Order tracking page - Server Component
+ * Opened from the signed link in shipping emails, or by looking an order up
+ * with its number and email
+ */
+export default async function TrackPage({ searchParams }: TrackPageProps) {
+  const { order, token } = await searchParams;
+
+  let error: string | null = null;
+  if (order && token) {
+    const view = verifyOrderTrackingToken(order, token) ? await getOrderTrackingView(order) : null;
+
+    if (view) {
+      return (
+        <main className="min-h-screen bg-gray-50 py-12 md:py-16">
+          <Container size="md">
+            <OrderTrackingView view={view} />
+            <p className="mt-6 text-center text-sm text-gray-500">
+              Questions about your order? <Link href="/contact" className="text-blue-600 hover:underline">Contact us</Link>
+            </p>
+          </Container>
+        </main>
+      );
+    }
+
+    error = 'This tracking link is invalid. Please look up your order with its number and email.';
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-16 md:py-24">
+      <Container size="sm">
+        <div className="bg-white rounded-lg p-8 space-y-6">
+          <div className="text-center space-y-2">
+            <PackageSearch className="w-12 h-12 mx-auto text-gray-400" />
+            <h1 className="text-2xl font-bold text-gray-900">Track Your Order</h1>
+            <p className="text-gray-600">
+              Enter your order number and the email you ordered with. No account needed.
+            </p>
+          </div>
+          {error && <Alert variant="error">{error}</Alert>}
+          <TrackLookupForm defaultOrderNumber={order} />
+        </div>
+      </Container>
+    </main>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { lookupOrderTracking } from '@/actions/orders';
+
+interface TrackLookupFormProps {
+  /** Prefills the order number, e.g. from an expired link */
+  defaultOrderNumber?: string;
+}
+
+/**
+ * Order lookup form component
+ * Finds an order by number and email and opens its tracking page
+ */
+export default function TrackLookupForm({ defaultOrderNumber = '' }: TrackLookupFormProps) {
+  const router = useRouter();
+  const [orderNumber, setOrderNumber] = React.useState(defaultOrderNumber);
+  const [email, setEmail] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string[]>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      const result = await lookupOrderTracking({ orderNumber, email });
+
+      if (result.success && result.data) {
+        router.push(result.data.path);
+        return;
+      }
+
+      setFieldErrors(result.fieldErrors ?? {});
+      setError(result.error ?? null);
+    } catch {
+      setError('An unexpected error occurred');
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        label="Order number"
+        name="orderNumber"
+        placeholder="KP-XXXXXXX-XXXX"
+        value={orderNumber}
+        onChange={(e) => setOrderNumber(e.target.value)}
+        error={fieldErrors.orderNumber?.[0]}
+        helperText="You'll find it in your order confirmation email"
+        required
+      />
+      <Input
+        label="Email address"
+        name="email"
+        type="email"
+        autoComplete="email"
+        placeholder="The email you ordered with"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        error={fieldErrors.email?.[0]}
+        required
+      />
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      <Button type="submit" fullWidth loading={isSubmitting} leftIcon={<Search className="w-4 h-4" />}>
+        Track Order
+      </Button>
+    </form>
+  );
+}
@@ -1,31 +1,34 @@
 import { ReactNode } from 'react';
-import { redirect } from 'next/navigation';
-import { requireAdmin } from '@/lib/session';
-import { Sidebar } from '@/components/admin/sidebar';
-import { Menu, Bell, User } from 'lucide-react';
 import Link from 'next/link';
+import { Menu, Bell, User } from 'lucide-react';
+import type { SessionUser } from '@/lib/session';
+import { Sidebar } from './sidebar';
 
 /**
- * Admin layout component
- * 
- * Provides the admin interface structure with:
+ * Props for the AdminShell component
+ */
+export interface AdminShellProps {
+  /** Signed-in admin or staff user */
+  user: SessionUser;
+  children: ReactNode;
+}
+
+/**
+ * Admin Shell Component
+ *
+ * Shared chrome for the admin interface:
  * - Collapsible sidebar navigation
  * - Header with user info
  * - Responsive design
+ *
+ * Doesn't check the role itself; the admin and staff layouts that render it do.
  */
-export default async function AdminLayout({
-  children,
-}: {
-  children: ReactNode;
-}) {
-  // Require admin role
-  const user = await requireAdmin('/admin');
-
+export function AdminShell({ user, children }: AdminShellProps) {
   return (
     <div className="min-h-screen bg-gray-50 flex">
       {/* Sidebar - hidden on mobile */}
       <div className="hidden md:flex">
-        <Sidebar />
+        <Sidebar role={user.role} />
       </div>
 
       {/* Main content area */}
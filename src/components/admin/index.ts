@@ -9,6 +9,8 @@ export { StatusBadge, type StatusBadgeProps, type StatusType } from './status-ba
 export { CopyButton, type CopyButtonProps } from './copy-button';
 export { DataTable, type DataTableProps, type ColumnDef, type SortDirection } from './data-table';
 export { Sidebar, type SidebarProps } from './sidebar';
+export { AdminShell, type AdminShellProps } from './admin-shell';
+export { SlaTimer, type SlaTimerProps } from './sla-timer';
 
 // Import components
 export { ImportPreview, type ImportPreviewProps, type Category } from './import-preview';
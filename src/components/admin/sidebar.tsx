@@ -6,13 +6,18 @@ import {
   LayoutDashboard,
   Import,
   Users,
+  TrendingUp,
   Package,
+  LifeBuoy,
+  RotateCcw,
+  ListChecks,
   Settings,
   ChevronLeft,
   ChevronRight,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
+import type { UserRole } from '@prisma/client';
 
 /**
  * Navigation item definition
@@ -22,6 +27,8 @@ interface NavItem {
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   badge?: number;
+  /** Also shown to STAFF users (everything else is ADMIN only) */
+  staff?: boolean;
 }
 
 /**
@@ -31,7 +38,11 @@ const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
   { name: 'Import Products', href: '/admin/import', icon: Import },
   { name: 'Suppliers', href: '/admin/suppliers', icon: Users },
+  { name: 'Price Monitor', href: '/admin/pricing', icon: TrendingUp },
   { name: 'Fulfillment', href: '/admin/fulfillment', icon: Package, badge: 0 },
+  { name: 'Support', href: '/admin/support', icon: LifeBuoy, staff: true },
+  { name: 'Returns', href: '/admin/returns', icon: RotateCcw, staff: true },
+  { name: 'Background Jobs', href: '/admin/jobs', icon: ListChecks },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ];
 
@@ -41,6 +52,8 @@ const navigation: NavItem[] = [
 export interface SidebarProps {
   /** Optional pending orders count for badge */
   pendingOrdersCount?: number;
+  /** Current user's role, used to hide admin-only sections from staff */
+  role?: UserRole;
 }
 
 /**
@@ -54,14 +67,16 @@ export interface SidebarProps {
  * <Sidebar pendingOrdersCount={5} />
  * ```
  */
-export function Sidebar({ pendingOrdersCount = 0 }: SidebarProps) {
+export function Sidebar({ pendingOrdersCount = 0, role = 'ADMIN' }: SidebarProps) {
   const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
 
   // Update badge count for fulfillment
-  const navWithBadge = navigation.map(item => 
-    item.name === 'Fulfillment' ? { ...item, badge: pendingOrdersCount } : item
-  );
+  const navWithBadge = navigation
+    .filter(item => role === 'ADMIN' || item.staff)
+    .map(item =>
+      item.name === 'Fulfillment' ? { ...item, badge: pendingOrdersCount } : item
+    );
 
   return (
     <aside
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatSlaDuration, getSlaTimer, type SlaTicket, type SlaTimerState } from '@/lib/support/sla';
+
+/**
+ * Props for the SlaTimer component
+ */
+export interface SlaTimerProps {
+  /** Ticket status, creation time and SLA timestamps */
+  ticket: SlaTicket;
+  /** Show the full "First response due in…" label */
+  showLabel?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Timer state color configuration
+ */
+const stateConfig: Record<SlaTimerState, string> = {
+  on_track: 'bg-gray-100 text-gray-700',
+  at_risk: 'bg-yellow-100 text-yellow-800',
+  breached: 'bg-red-100 text-red-800',
+  met: 'bg-green-100 text-green-800',
+};
+
+/**
+ * Re-render every 30 seconds so the countdown stays current
+ */
+function useNow(intervalMs = 30000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
+
+/**
+ * SlaTimer Component
+ *
+ * Live countdown for the SLA clock running on a support ticket: first
+ * response until staff reply, then resolution. Turns amber in the last
+ * quarter of the window and red once breached.
+ *
+ * @example
+ * ```tsx
+ * <SlaTimer ticket={ticket} />
+ * <SlaTimer ticket={ticket} showLabel />
+ * ```
+ */
+export function SlaTimer({ ticket, showLabel = false, className }: SlaTimerProps) {
+  const now = useNow();
+  const timer = getSlaTimer(ticket, now);
+  const duration = formatSlaDuration(timer.remainingMs);
+  const clock = timer.kind === 'first_response' ? 'First response' : 'Resolution';
+
+  let text: string;
+  if (timer.state === 'met') {
+    text = showLabel ? 'Resolved within SLA' : 'Met';
+  } else if (timer.state === 'breached') {
+    text = showLabel ? `${clock} overdue by ${duration}` : `Overdue ${duration}`;
+  } else {
+    text = showLabel ? `${clock} due in ${duration}` : duration;
+  }
+
+  const Icon = timer.state === 'met' ? CheckCircle : timer.state === 'breached' ? AlertTriangle : Clock;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap',
+        stateConfig[timer.state],
+        className
+      )}
+      title={`${clock} due ${timer.dueAt.toLocaleString()}`}
+    >
+      <Icon className="w-3.5 h-3.5" aria-hidden="true" />
+      {text}
+    </span>
+  );
+}
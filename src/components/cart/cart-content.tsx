@@ -5,13 +5,14 @@ import Link from 'next/link';
 import { CartItem } from '@/components/cart/cart-item';
 import { CartSummary } from '@/components/cart/cart-summary';
 import { EmptyCart } from '@/components/cart/empty-cart';
+import { PromotionNudges } from '@/components/cart/promotion-nudges';
 import { CartUpsell } from '@/components/upsell';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { ArrowRight, Truck, Shield, Loader2, Tag, X } from 'lucide-react';
+import { ArrowRight, Truck, Shield, Loader2, Tag, X, Gift } from 'lucide-react';
 import { updateCartItem, removeFromCart, applyDiscountCode, removeDiscountCode } from '@/actions/cart';
 import { useToast } from '@/hooks/use-toast';
-import type { CartItemData, CartSummaryData } from './cart-drawer';
+import type { CartItemData, CartSummaryData, PromotionNudgeData } from './cart-drawer';
 
 /**
  * Cart item from server action
@@ -20,6 +21,8 @@ interface CartItemFromServer {
   id: string;
   variantId: string;
   quantity: number;
+  registryItemId?: string | null;
+  promotionId?: string | null;
   variant: {
     id: string;
     name: string;
@@ -48,6 +51,20 @@ interface CartData {
   items: CartItemFromServer[];
   itemCount: number;
   subtotal: number;
+  registry?: {
+    id: string;
+    name: string;
+    shareCode: string;
+  } | null;
+  discount?: {
+    code: string;
+    type: 'PERCENTAGE' | 'FIXED' | 'SHIPPING';
+    value: number;
+    discountAmount: number;
+  } | null;
+  discountError?: string | null;
+  promotions?: Array<{ promotionId: string; name: string; amount: number }>;
+  nudges?: PromotionNudgeData[];
 }
 
 /**
@@ -76,6 +93,7 @@ function transformCartItem(item: CartItemFromServer): CartItemData {
     salePrice: item.variant.compareAtPrice ? item.variant.price : undefined,
     quantity: item.quantity,
     maxQuantity: item.variant.inventory?.available || 99,
+    isFreeGift: !!item.promotionId,
   };
 }
 
@@ -117,26 +135,42 @@ export function CartContent({ initialCart }: CartContentProps) {
   const [promoCode, setPromoCode] = React.useState('');
   const [appliedPromo, setAppliedPromo] = React.useState<{
     code: string;
+    type: 'PERCENTAGE' | 'FIXED' | 'SHIPPING';
     discountAmount: number;
-  } | null>(null);
+  } | null>(initialCart.discount ?? null);
   const [isApplyingPromo, setIsApplyingPromo] = React.useState(false);
   
   // Sync with server data when it changes
   React.useEffect(() => {
     setCartItems(initialCart.items);
   }, [initialCart.items]);
+
+  // The code saved on the cart is re-priced whenever the cart changes
+  React.useEffect(() => {
+    setAppliedPromo(initialCart.discount ?? null);
+  }, [initialCart.discount]);
   
-  // Calculate summary
+  // Calculate summary, less automatic promotions and the promo code
   const cartSummary = React.useMemo(() => {
     const baseSummary = calculateCartSummary(cartItems);
-    if (appliedPromo) {
-      return {
-        ...baseSummary,
-        total: Math.max(0, baseSummary.total - appliedPromo.discountAmount),
-      };
+    const discounts = (initialCart.promotions ?? []).map((promotion) => ({
+      label: promotion.name,
+      amount: promotion.amount,
+    }));
+    if (appliedPromo && appliedPromo.discountAmount > 0) {
+      discounts.push({ label: `Promo (${appliedPromo.code})`, amount: appliedPromo.discountAmount });
     }
-    return baseSummary;
-  }, [cartItems, appliedPromo]);
+    if (discounts.length === 0) {
+      return baseSummary;
+    }
+
+    const discountTotal = discounts.reduce((sum, discount) => sum + discount.amount, 0);
+    return {
+      ...baseSummary,
+      discounts,
+      total: Math.max(0, baseSummary.total - discountTotal),
+    };
+  }, [cartItems, appliedPromo, initialCart.promotions]);
   
   const isEmpty = cartItems.length === 0;
   
@@ -217,6 +251,7 @@ export function CartContent({ initialCart }: CartContentProps) {
       if (result.success && result.data) {
         setAppliedPromo({
           code: result.data.code,
+          type: result.data.type,
           discountAmount: result.data.discountAmount,
         });
         toast.success(`Code "${result.data.code}" has been applied to your order`, { title: 'Promo applied' });
@@ -275,6 +310,20 @@ export function CartContent({ initialCart }: CartContentProps) {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Cart items */}
             <div className="lg:col-span-2 space-y-4">
+              {initialCart.registry && (
+                <div className="flex items-start gap-3 p-4 bg-yellow/10 border border-yellow/30 rounded-lg">
+                  <Gift className="w-5 h-5 text-gray-700 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-gray-700">
+                    <p className="font-medium text-gray-900">
+                      Gifts for {initialCart.registry.name}
+                    </p>
+                    <p>
+                      These items ship straight to the registrant. You can add a gift message at checkout.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {cartItems.map((item) => (
                 <CartItem
                   key={item.id}
@@ -287,9 +336,9 @@ export function CartContent({ initialCart }: CartContentProps) {
 
               {/* Continue shopping */}
               <div className="pt-4">
-                <Link href="/products">
+                <Link href={initialCart.registry ? `/registry/${initialCart.registry.shareCode}` : '/products'}>
                   <Button variant="ghost" leftIcon={<ArrowRight className="w-4 h-4 rotate-180" />}>
-                    Continue Shopping
+                    {initialCart.registry ? 'Back to Registry' : 'Continue Shopping'}
                   </Button>
                 </Link>
               </div>
@@ -313,6 +362,9 @@ export function CartContent({ initialCart }: CartContentProps) {
                   Order Summary
                 </h2>
 
+                {/* Promotions the cart is close to */}
+                <PromotionNudges nudges={initialCart.nudges ?? []} className="mb-4" />
+
                 <CartSummary
                   summary={cartSummary}
                   showTax={true}
@@ -339,10 +391,17 @@ export function CartContent({ initialCart }: CartContentProps) {
                       </button>
                     </div>
                     <p className="text-xs text-green-600 mt-1">
-                      You saved ${appliedPromo.discountAmount.toFixed(2)}
+                      {appliedPromo.type === 'SHIPPING'
+                        ? 'Shipping discount applied at checkout'
+                        : `You saved $${appliedPromo.discountAmount.toFixed(2)}`}
                     </p>
                   </div>
                 )}
+                {!appliedPromo && initialCart.discountError && (
+                  <p className="mt-4 text-xs text-red-600">
+                    Your promo code no longer applies: {initialCart.discountError}
+                  </p>
+                )}
 
                 {/* Checkout button */}
                 <Link href="/checkout/shipping" className="block mt-6">
@@ -2,9 +2,10 @@
 
 import * as React from 'react';
 import { useRouter } from 'next/navigation';
-import { CartDrawer } from './cart-drawer';
+import { CartDrawer, type PromotionNudgeData } from './cart-drawer';
 import { useCartStore } from '@/store/cart-store';
 import { formatPrice } from '@/lib/utils';
+import { getCart } from '@/actions/cart';
 
 /**
  * Cart Drawer Wrapper
@@ -29,12 +30,45 @@ export function CartDrawerWrapper() {
   const subtotal = useCartStore((state) => state.getSubtotal());
   const totalItems = useCartStore((state) => state.getTotalItems());
   const discountedTotal = useCartStore((state) => state.getDiscountedTotal());
+
+  // Automatic promotions are worked out against the server cart. Free gifts
+  // aren't in the store's items, so only price discounts are shown here.
+  const [promotions, setPromotions] = React.useState<Array<{ label: string; amount: number }>>([]);
+  const [nudges, setNudges] = React.useState<PromotionNudgeData[]>([]);
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    getCart()
+      .then((result) => {
+        if (cancelled || !result.success || !result.data) {
+          return;
+        }
+        setPromotions(
+          result.data.promotions
+            .filter((promotion) => promotion.type !== 'FREE_GIFT')
+            .map((promotion) => ({ label: promotion.name, amount: promotion.amount }))
+        );
+        setNudges(result.data.nudges);
+      })
+      .catch((error) => {
+        console.error('Failed to load cart promotions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, items]);
   
   // For now, tax and shipping are simplified
   // TODO: Integrate with checkout context or API for real tax/shipping calculations
   const tax = 0;
   const shipping = 0;
-  const total = discountedTotal;
+  const promotionTotal = promotions.reduce((sum, promotion) => sum + promotion.amount, 0);
+  const total = Math.max(0, discountedTotal - promotionTotal);
   
   // Handle checkout navigation
   const handleCheckout = React.useCallback(() => {
@@ -65,7 +99,8 @@ export function CartDrawerWrapper() {
     shipping,
     total,
     currency: 'USD', // TODO: make dynamic based on locale
-  }), [subtotal, tax, shipping, total]);
+    discounts: promotions,
+  }), [subtotal, tax, shipping, total, promotions]);
   
   return (
     <CartDrawer
@@ -73,6 +108,7 @@ export function CartDrawerWrapper() {
       onClose={closeCart}
       items={cartItems}
       summary={summary}
+      nudges={nudges}
       onUpdateQuantity={updateQuantity}
       onRemoveItem={removeItem}
       onCheckout={handleCheckout}
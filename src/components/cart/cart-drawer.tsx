@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button';
 import { CartItem } from './cart-item';
 import { CartSummary } from './cart-summary';
 import { EmptyCart } from './empty-cart';
+import { PromotionNudges } from './promotion-nudges';
 
 /**
  * Cart item type
@@ -55,6 +56,10 @@ export interface CartItemData {
    * Maximum quantity available
    */
   maxQuantity?: number;
+  /**
+   * Free gift added by a promotion (can't be changed or removed)
+   */
+  isFreeGift?: boolean;
 }
 
 /**
@@ -81,6 +86,24 @@ export interface CartSummaryData {
    * Currency code
    */
   currency?: string;
+  /**
+   * Promotions and codes taken off the subtotal
+   */
+  discounts?: Array<{ label: string; amount: number }>;
+}
+
+/**
+ * Nudge towards a promotion the cart doesn't qualify for yet
+ */
+export interface PromotionNudgeData {
+  /**
+   * Promotion ID
+   */
+  promotionId: string;
+  /**
+   * What to add, e.g. "Add $12.50 more to unlock free shipping"
+   */
+  message: string;
 }
 
 /**
@@ -103,6 +126,10 @@ export interface CartDrawerProps {
    * Cart summary
    */
   summary: CartSummaryData;
+  /**
+   * Nudges towards promotions the cart is close to
+   */
+  nudges?: PromotionNudgeData[];
   /**
    * Callback when quantity is updated
    */
@@ -146,6 +173,7 @@ export function CartDrawer({
   onClose,
   items,
   summary,
+  nudges = [],
   onUpdateQuantity,
   onRemoveItem,
   onCheckout,
@@ -177,6 +205,9 @@ export function CartDrawer({
           <EmptyCart onClose={onClose} />
         ) : (
           <div className="space-y-4">
+            {/* Promotions the cart is close to */}
+            <PromotionNudges nudges={nudges} limit={1} />
+
             {/* Cart items */}
             <div className="flex-1 overflow-y-auto -mx-4 px-4">
               <div className="space-y-3">
@@ -111,26 +111,37 @@ export function CartItem({
               </p>
             )}
           </Link>
-          <button
-            type="button"
-            onClick={onRemove}
-            disabled={isUpdating}
-            className={cn(
-              'flex-shrink-0 p-1 rounded-sm',
-              'text-gray-400 hover:text-gray-600',
-              'hover:bg-gray-200',
-              'transition-colors duration-200',
-              'disabled:opacity-50 disabled:cursor-not-allowed'
-            )}
-            aria-label="Remove item"
-          >
-            <X className="w-4 h-4" />
-          </button>
+          {!item.isFreeGift && (
+            <button
+              type="button"
+              onClick={onRemove}
+              disabled={isUpdating}
+              className={cn(
+                'flex-shrink-0 p-1 rounded-sm',
+                'text-gray-400 hover:text-gray-600',
+                'hover:bg-gray-200',
+                'transition-colors duration-200',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+              aria-label="Remove item"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </div>
 
         {/* Price */}
         <div className="mt-auto pt-2">
-          {isOnSale ? (
+          {item.isFreeGift ? (
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-semibold text-green-600">
+                Free gift
+              </span>
+              <span className="text-xs text-gray-400 line-through">
+                {formatPrice(displayPrice)}
+              </span>
+            </div>
+          ) : isOnSale ? (
             <div className="flex items-baseline gap-2">
               <span className="text-sm font-semibold text-gray-900">
                 {formatPrice(displayPrice)}
@@ -147,47 +158,53 @@ export function CartItem({
         </div>
 
         {/* Quantity controls */}
-        <div className="flex items-center justify-between mt-2">
-          <div className="flex items-center border border-gray-200 rounded-md bg-white">
-            <button
-              type="button"
-              onClick={() => handleQuantityChange(-1)}
-              disabled={item.quantity <= 1 || isUpdating}
-              className={cn(
-                'px-2 py-1 text-gray-600 hover:bg-gray-50',
-                'disabled:opacity-50 disabled:cursor-not-allowed',
-                'transition-colors duration-200'
-              )}
-              aria-label="Decrease quantity"
-            >
-              <Minus className="w-3 h-3" />
-            </button>
-            <span className="w-8 text-center text-sm font-medium">
-              {item.quantity}
+        {item.isFreeGift ? (
+          <p className="mt-2 text-xs text-gray-500">
+            Qty {item.quantity} · Added with your promotion
+          </p>
+        ) : (
+          <div className="flex items-center justify-between mt-2">
+            <div className="flex items-center border border-gray-200 rounded-md bg-white">
+              <button
+                type="button"
+                onClick={() => handleQuantityChange(-1)}
+                disabled={item.quantity <= 1 || isUpdating}
+                className={cn(
+                  'px-2 py-1 text-gray-600 hover:bg-gray-50',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                  'transition-colors duration-200'
+                )}
+                aria-label="Decrease quantity"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <span className="w-8 text-center text-sm font-medium">
+                {item.quantity}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleQuantityChange(1)}
+                disabled={
+                  (item.maxQuantity !== undefined && item.quantity >= item.maxQuantity) ||
+                  isUpdating
+                }
+                className={cn(
+                  'px-2 py-1 text-gray-600 hover:bg-gray-50',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                  'transition-colors duration-200'
+                )}
+                aria-label="Increase quantity"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+
+            {/* Item total */}
+            <span className="text-sm font-semibold text-gray-900">
+              {formatPrice(displayPrice * item.quantity)}
             </span>
-            <button
-              type="button"
-              onClick={() => handleQuantityChange(1)}
-              disabled={
-                (item.maxQuantity !== undefined && item.quantity >= item.maxQuantity) ||
-                isUpdating
-              }
-              className={cn(
-                'px-2 py-1 text-gray-600 hover:bg-gray-50',
-                'disabled:opacity-50 disabled:cursor-not-allowed',
-                'transition-colors duration-200'
-              )}
-              aria-label="Increase quantity"
-            >
-              <Plus className="w-3 h-3" />
-            </button>
           </div>
-
-          {/* Item total */}
-          <span className="text-sm font-semibold text-gray-900">
-            {formatPrice(displayPrice * item.quantity)}
-          </span>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -63,7 +63,7 @@ export function CartSummary({
   shippingLabel = 'Shipping',
   className,
 }: CartSummaryProps) {
-  const { subtotal, tax, shipping, total, currency } = summary;
+  const { subtotal, tax, shipping, total, currency, discounts = [] } = summary;
 
   return (
     <div className={cn('space-y-3', className)}>
@@ -77,6 +77,16 @@ export function CartSummary({
         </span>
       </div>
 
+      {/* Promotions and codes */}
+      {discounts.map((discount) => (
+        <div key={discount.label} className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">{discount.label}</span>
+          <span className="text-green-600">
+            -{formatPrice(discount.amount, currency)}
+          </span>
+        </div>
+      ))}
+
       {/* Tax */}
       {showTax && (
         <div className="flex items-center justify-between text-sm">
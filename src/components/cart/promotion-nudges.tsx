@@ -0,0 +1,53 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import { Sparkles } from 'lucide-react';
+import type { PromotionNudgeData } from './cart-drawer';
+
+/**
+ * Promotion nudges component props
+ */
+export interface PromotionNudgesProps {
+  /**
+   * Nudges, closest first
+   */
+  nudges: PromotionNudgeData[];
+  /**
+   * Most nudges to show
+   * @default 2
+   */
+  limit?: number;
+  /**
+   * Additional class name
+   */
+  className?: string;
+}
+
+/**
+ * "Add $X more to unlock" messages for promotions the cart is close to
+ *
+ * @example
+ * ```tsx
+ * <PromotionNudges nudges={cart.nudges} limit={1} />
+ * ```
+ */
+export function PromotionNudges({ nudges, limit = 2, className }: PromotionNudgesProps) {
+  if (nudges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {nudges.slice(0, limit).map((nudge) => (
+        <div
+          key={nudge.promotionId}
+          className="flex items-start gap-2 p-3 bg-yellow/10 border border-yellow/30 rounded-md"
+        >
+          <Sparkles className="w-4 h-4 text-gray-700 flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <p className="text-sm text-gray-700">{nudge.message}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
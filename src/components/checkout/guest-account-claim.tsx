@@ -0,0 +1,80 @@
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { UserPlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the GuestAccountClaim component
+ */
+export interface GuestAccountClaimProps {
+  /**
+   * Email the guest checked out with
+   */
+  email: string;
+  /**
+   * Order number from the checkout
+   */
+  orderNumber: string;
+  /**
+   * Signed `/track` path for the order
+   */
+  trackingPath: string;
+  /**
+   * Whether the email already has an account, so signing in is enough
+   */
+  hasAccount: boolean;
+  /**
+   * Optional className for custom styling
+   */
+  className?: string;
+}
+
+/**
+ * GuestAccountClaim component
+ *
+ * Shown after a guest checkout: invites the buyer to create an account (or
+ * sign in) with the email they used. Once that email is verified, the
+ * order, the addresses saved at checkout and the cart move to the account.
+ *
+ * @example
+ * ```tsx
+ * <GuestAccountClaim
+ *   email="nana@example.com"
+ *   orderNumber="KP-ABC123-XYZ"
+ *   trackingPath="/track?order=KP-ABC123-XYZ&token=..."
+ *   hasAccount={false}
+ * />
+ * ```
+ */
+export function GuestAccountClaim({ email, orderNumber, trackingPath, hasAccount, className }: GuestAccountClaimProps) {
+  const params = new URLSearchParams({ email, callbackUrl: '/account/orders' });
+  const accountHref = hasAccount ? `/auth/signin?${params}` : `/auth/signup?${params}`;
+
+  return (
+    <div className={cn('bg-yellow/10 border border-yellow/30 rounded-lg p-6', className)}>
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 bg-yellow/20 rounded-full flex items-center justify-center flex-shrink-0">
+          <UserPlus className="w-4 h-4 text-yellow-dark" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            {hasAccount ? 'Sign in to track this order' : 'Create an account to track this order'}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {hasAccount
+              ? `Order #${orderNumber} will appear in your order history once you sign in with ${email}.`
+              : `Use ${email} and verify it, and we'll add order #${orderNumber} and your saved address to your new account.`}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Link href={accountHref}>
+              <Button size="sm">{hasAccount ? 'Sign In' : 'Create Account'}</Button>
+            </Link>
+            <Link href={trackingPath}>
+              <Button variant="outline" size="sm">Track Without an Account</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,3 +7,4 @@
 export { AddressForm, type AddressData, type AddressFormProps } from './address-form';
 export { AddressFormWithAutocomplete, type AddressFormWithAutocompleteProps } from './address-form-with-autocomplete';
 export { OrderSummary, type OrderSummaryProps } from './order-summary';
+export { GuestAccountClaim, type GuestAccountClaimProps } from './guest-account-claim';
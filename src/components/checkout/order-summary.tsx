@@ -106,7 +106,7 @@ export function OrderSummary({
     }
   };
 
-  const { subtotal, tax, shipping, total, currency } = summary;
+  const { subtotal, tax, shipping, total, currency, discounts = [] } = summary;
   const finalTotal = discountAmount ? total - discountAmount : total;
 
   return (
@@ -255,6 +255,14 @@ export function OrderSummary({
             {shipping === 0 ? 'Free' : formatPrice(shipping, currency)}
           </span>
         </div>
+        {discounts.map((discount) => (
+          <div key={discount.label} className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">{discount.label}</span>
+            <span className="text-green-600">
+              -{formatPrice(discount.amount, currency)}
+            </span>
+          </div>
+        ))}
         {discountAmount && (
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">Discount</span>
@@ -0,0 +1,145 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import type { NewsletterStatus, NewsletterTopic } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { updatePreferences, updateUserNewsletterPreferences } from '@/actions/newsletter';
+import { NEWSLETTER_TOPICS, NEWSLETTER_TOPIC_LABELS } from '@/lib/newsletter/topics';
+
+/**
+ * Newsletter preferences form props
+ */
+export interface NewsletterPreferencesFormProps {
+  /**
+   * Current subscription status, or null if the address never subscribed
+   */
+  status: NewsletterStatus | null;
+  /**
+   * Topics currently selected
+   */
+  topics: NewsletterTopic[];
+  /**
+   * Signed link credentials for visitors who aren't signed in. Without
+   * them the form updates the signed-in user's preferences.
+   */
+  link?: {
+    email: string;
+    token: string;
+  };
+}
+
+/**
+ * Newsletter preferences form
+ * Lets subscribers choose topics or unsubscribe, from the account page or
+ * the signed link in a newsletter email
+ */
+export function NewsletterPreferencesForm({ status, topics, link }: NewsletterPreferencesFormProps) {
+  const router = useRouter();
+  const [selected, setSelected] = React.useState<NewsletterTopic[]>(
+    status === 'UNSUBSCRIBED' ? [] : topics
+  );
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const toggleTopic = (topic: NewsletterTopic) => {
+    setSelected((prev) =>
+      prev.includes(topic) ? prev.filter((t) => t !== topic) : [...prev, topic]
+    );
+  };
+
+  const save = async (nextTopics: NewsletterTopic[]) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = link
+        ? await updatePreferences({ email: link.email, token: link.token, topics: nextTopics })
+        : await updateUserNewsletterPreferences({ topics: nextTopics });
+
+      if (result.success && result.data) {
+        setSelected(nextTopics);
+        setMessage(result.data.message);
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update preferences');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Signed links can't re-subscribe; that needs a new double opt-in
+  const canChooseTopics = !link || status === 'ACTIVE' || status === 'PENDING';
+
+  return (
+    <div className="space-y-4">
+      {status === 'PENDING' && (
+        <p className="text-sm text-gray-600">
+          We&apos;re waiting for you to confirm your subscription. Check your inbox for the
+          confirmation email.
+        </p>
+      )}
+      {status === null && link && (
+        <p className="text-sm text-gray-600">
+          This email address isn&apos;t subscribed to our newsletter.
+        </p>
+      )}
+      {status === 'UNSUBSCRIBED' && (
+        <p className="text-sm text-gray-600">
+          You&apos;re unsubscribed from our marketing emails.
+          {!link && ' Choose topics below to subscribe again.'}
+        </p>
+      )}
+
+      {canChooseTopics && (
+        <div className="space-y-3">
+          {NEWSLETTER_TOPICS.map((topic) => (
+            <Checkbox
+              key={topic}
+              label={NEWSLETTER_TOPIC_LABELS[topic].label}
+              helperText={NEWSLETTER_TOPIC_LABELS[topic].description}
+              checked={selected.includes(topic)}
+              onChange={() => toggleTopic(topic)}
+              disabled={isSaving}
+            />
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          <p>{message}</p>
+        </div>
+      )}
+
+      {canChooseTopics && (
+        <div className="flex flex-wrap gap-3">
+          <Button size="sm" onClick={() => save(selected)} loading={isSaving}>
+            Save Preferences
+          </Button>
+          {status !== 'UNSUBSCRIBED' && status !== null && (
+            <Button variant="ghost" size="sm" onClick={() => save([])} disabled={isSaving}>
+              Unsubscribe from All
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NewsletterPreferencesForm;
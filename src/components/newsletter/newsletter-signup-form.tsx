@@ -0,0 +1,82 @@
+'use client';
+
+import * as React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { subscribe } from '@/actions/newsletter';
+
+/**
+ * Newsletter signup form props
+ */
+export interface NewsletterSignupFormProps {
+  /**
+   * Where the form is shown, recorded on the subscription
+   */
+  source: string;
+}
+
+/**
+ * Newsletter signup form
+ * Subscribes an email address and asks the visitor to confirm it by email
+ *
+ * @example
+ * ```tsx
+ * <NewsletterSignupForm source="home" />
+ * ```
+ */
+export function NewsletterSignupForm({ source }: NewsletterSignupFormProps) {
+  const [email, setEmail] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await subscribe({ email: email.trim(), source });
+
+      if (result.success && result.data) {
+        setMessage(result.data.message);
+      } else {
+        setError(result.fieldErrors?.email?.[0] || result.error || 'Failed to subscribe');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (message) {
+    return (
+      <div className="flex items-center justify-center gap-2 p-4 bg-green-50 rounded-lg text-sm text-green-700">
+        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+        <p>{message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+      <Input
+        type="email"
+        placeholder="Enter your email"
+        aria-label="Email address"
+        className="flex-1"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        error={error ?? undefined}
+        required
+      />
+      <Button type="submit" size="lg" loading={isSubmitting}>
+        Subscribe
+      </Button>
+    </form>
+  );
+}
+
+export default NewsletterSignupForm;
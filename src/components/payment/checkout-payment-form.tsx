@@ -0,0 +1,268 @@
+'use client';
+
+import * as React from 'react';
+import { loadStripe, Stripe, StripeElements } from '@stripe/stripe-js';
+import { Button } from '@/components/ui/button';
+import { CreditCard, Loader2, Shield } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SavedCard } from '@/lib/payments';
+
+/**
+ * Checkout Payment Form Props
+ */
+interface CheckoutPaymentFormProps {
+  /** Client secret of the checkout's PaymentIntent */
+  clientSecret: string;
+  /** Amount to pay, in dollars */
+  total: number;
+  /** Cards the customer can pay with instead of entering one */
+  savedCards?: SavedCard[];
+  /** Whether to offer saving the card; signed-in customers only */
+  canSaveCard?: boolean;
+  /** Prefills the email Link signs the customer in with */
+  email?: string;
+  /** Where Stripe returns after 3D Secure or a wallet that redirects */
+  returnUrl: string;
+  /** Called when the customer ticks or unticks "save card" */
+  onSaveCardChange?: (saveCard: boolean) => Promise<boolean>;
+  /** Callback when payment is successful */
+  onSuccess: (paymentIntentId: string) => void;
+  /** Stripe publishable key */
+  stripePublishableKey?: string;
+  className?: string;
+}
+
+const NEW_CARD = 'new';
+
+/**
+ * Checkout Payment Form Component
+ *
+ * Pays the checkout's PaymentIntent on-site. Returning customers can pick a
+ * saved card; otherwise Stripe's Payment Element takes a card, Apple Pay,
+ * Google Pay or Link. 3D Secure is handled by Stripe in a modal, or by
+ * redirecting to the return URL.
+ *
+ * @see https://stripe.com/docs/payments/payment-element
+ */
+export function CheckoutPaymentForm({
+  clientSecret,
+  total,
+  savedCards = [],
+  canSaveCard = false,
+  email,
+  returnUrl,
+  onSaveCardChange,
+  onSuccess,
+  stripePublishableKey,
+  className,
+}: CheckoutPaymentFormProps) {
+  const paymentElementRef = React.useRef<HTMLDivElement>(null);
+  const [stripe, setStripe] = React.useState<Stripe | null>(null);
+  const [elements, setElements] = React.useState<StripeElements | null>(null);
+  const [selected, setSelected] = React.useState(savedCards[0]?.id ?? NEW_CARD);
+  const [saveCard, setSaveCard] = React.useState(false);
+  const [isUpdating, setIsUpdating] = React.useState(false);
+  const [isProcessing, setIsProcessing] = React.useState(false);
+  const [isReady, setIsReady] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Initialize Stripe
+  React.useEffect(() => {
+    const publishableKey = stripePublishableKey || process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+
+    if (!publishableKey) {
+      console.error('Stripe publishable key is not configured');
+      setError('Payment configuration error');
+      return;
+    }
+
+    loadStripe(publishableKey)
+      .then(setStripe)
+      .catch((err) => {
+        console.error('Failed to load Stripe:', err);
+        setError('Failed to initialize payment');
+      });
+  }, [stripePublishableKey]);
+
+  // Mount the Payment Element for this PaymentIntent
+  React.useEffect(() => {
+    if (!stripe || !paymentElementRef.current) return;
+
+    const elementsInstance = stripe.elements({
+      clientSecret,
+      appearance: { theme: 'stripe' },
+    });
+    const paymentElement = elementsInstance.create('payment', {
+      layout: 'tabs',
+      defaultValues: email ? { billingDetails: { email } } : undefined,
+      wallets: { applePay: 'auto', googlePay: 'auto' },
+    });
+    paymentElement.on('ready', () => setIsReady(true));
+    paymentElement.mount(paymentElementRef.current);
+    setElements(elementsInstance);
+
+    return () => {
+      paymentElement.destroy();
+      setElements(null);
+      setIsReady(false);
+    };
+  }, [stripe, clientSecret, email]);
+
+  // Save the card with this payment, or stop saving it
+  const handleSaveCardChange = async (checked: boolean) => {
+    if (!onSaveCardChange) return;
+
+    setIsUpdating(true);
+    setError(null);
+    try {
+      if (!(await onSaveCardChange(checked))) {
+        setError('Could not update your payment. Please try again.');
+        return;
+      }
+      setSaveCard(checked);
+      await elements?.fetchUpdates();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      if (selected !== NEW_CARD) {
+        // Stripe shows the 3D Secure challenge itself if the bank asks for one
+        const result = await stripe.confirmCardPayment(clientSecret, { payment_method: selected });
+        if (result.error) {
+          setError(result.error.message || 'Your card was declined. Please try another card.');
+          return;
+        }
+        onSuccess(result.paymentIntent.id);
+        return;
+      }
+
+      const { error: submitError } = await elements.submit();
+      if (submitError) {
+        setError(submitError.message || 'Please check your payment details.');
+        return;
+      }
+
+      // Only redirects for 3D Secure or wallets that need it; the return
+      // URL picks up from there
+      const result = await stripe.confirmPayment({
+        elements,
+        confirmParams: { return_url: returnUrl },
+        redirect: 'if_required',
+      });
+      if (result.error) {
+        setError(result.error.message || 'Your payment failed. Please try again.');
+        return;
+      }
+      onSuccess(result.paymentIntent.id);
+    } catch (err) {
+      console.error('Payment error:', err);
+      setError('An error occurred while processing your payment. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-4', className)}>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Saved cards */}
+      {savedCards.length > 0 && (
+        <div className="space-y-2">
+          {savedCards.map((card) => (
+            <label
+              key={card.id}
+              className={cn(
+                'flex items-center gap-3 p-3 border rounded-md cursor-pointer',
+                selected === card.id ? 'bg-yellow/10 border-yellow/30' : 'border-gray-200'
+              )}
+            >
+              <input
+                type="radio"
+                name="payment-method"
+                value={card.id}
+                checked={selected === card.id}
+                onChange={() => setSelected(card.id)}
+                className="w-4 h-4 text-yellow border-gray-300 focus:ring-yellow"
+              />
+              <CreditCard className="w-4 h-4 text-gray-500" />
+              <span className="text-sm text-gray-900 capitalize">
+                {card.brand} ending in {card.last4}
+              </span>
+              <span className="ml-auto text-xs text-gray-500">
+                Expires {String(card.expMonth).padStart(2, '0')}/{String(card.expYear).slice(-2)}
+              </span>
+            </label>
+          ))}
+          <label
+            className={cn(
+              'flex items-center gap-3 p-3 border rounded-md cursor-pointer',
+              selected === NEW_CARD ? 'bg-yellow/10 border-yellow/30' : 'border-gray-200'
+            )}
+          >
+            <input
+              type="radio"
+              name="payment-method"
+              value={NEW_CARD}
+              checked={selected === NEW_CARD}
+              onChange={() => setSelected(NEW_CARD)}
+              className="w-4 h-4 text-yellow border-gray-300 focus:ring-yellow"
+            />
+            <span className="text-sm text-gray-900">Use another payment method</span>
+          </label>
+        </div>
+      )}
+
+      {/* Card, wallets and Link; kept mounted so switching back keeps what was entered */}
+      <div className={cn(selected !== NEW_CARD && 'hidden')}>
+        {!isReady && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        )}
+        <div ref={paymentElementRef} />
+
+        {canSaveCard && onSaveCardChange && isReady && (
+          <label className="flex items-center gap-2 mt-4 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={saveCard}
+              disabled={isUpdating || isProcessing}
+              onChange={(e) => handleSaveCardChange(e.target.checked)}
+              className="w-4 h-4 text-yellow border-gray-300 rounded focus:ring-yellow"
+            />
+            <span className="text-sm text-gray-700">
+              Save card for future purchases
+            </span>
+          </label>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        size="lg"
+        fullWidth
+        loading={isProcessing}
+        disabled={!stripe || !elements || isUpdating || (selected === NEW_CARD && !isReady)}
+        rightIcon={<Shield className="w-4 h-4" />}
+      >
+        {isProcessing ? 'Processing...' : `Pay $${total.toFixed(2)}`}
+      </Button>
+    </form>
+  );
+}
+
+export default CheckoutPaymentForm;
@@ -1 +1,2 @@
 export { PaymentRequestButton, PaymentRequestButtonWrapper } from './payment-request-button';
+export { CheckoutPaymentForm } from './checkout-payment-form';
@@ -0,0 +1,75 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import { Select } from '@/components/ui/select';
+
+/**
+ * Child option type
+ */
+export interface ChildOption {
+  /**
+   * Child ID
+   */
+  id: string;
+  /**
+   * Child's name
+   */
+  name: string;
+}
+
+/**
+ * Child switcher component props
+ */
+export interface ChildSwitcherProps {
+  /**
+   * Children to choose between
+   */
+  childOptions: ChildOption[];
+  /**
+   * Currently selected child ID
+   */
+  selectedChildId: string;
+  /**
+   * Callback when another child is selected
+   */
+  onChildChange: (childId: string) => void;
+  /**
+   * Additional class name
+   */
+  className?: string;
+}
+
+/**
+ * Switches between a family's children
+ * Renders nothing for families with a single child
+ *
+ * @example
+ * ```tsx
+ * <ChildSwitcher
+ *   childOptions={[{ id: 'child1', name: 'Ava' }, { id: 'child2', name: 'Leo' }]}
+ *   selectedChildId="child1"
+ *   onChildChange={(childId) => setSelectedChildId(childId)}
+ * />
+ * ```
+ */
+export function ChildSwitcher({
+  childOptions,
+  selectedChildId,
+  onChildChange,
+  className,
+}: ChildSwitcherProps) {
+  if (childOptions.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      aria-label="Child"
+      value={selectedChildId}
+      onChange={(e) => onChildChange(e.target.value)}
+      options={childOptions.map((child) => ({ value: child.id, label: child.name }))}
+      containerClassName={cn('w-36', className)}
+    />
+  );
+}
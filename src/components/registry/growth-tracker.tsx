@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { calculateAge } from '@/lib/utils';
+import { ChildSwitcher, type ChildOption } from './child-switcher';
 
 /**
  * Growth entry type
@@ -51,6 +52,18 @@ export interface GrowthTrackerProps {
    * Growth entries
    */
   entries: GrowthEntry[];
+  /**
+   * Children to switch between (shown when there is more than one)
+   */
+  childOptions?: ChildOption[];
+  /**
+   * Currently selected child ID
+   */
+  selectedChildId?: string;
+  /**
+   * Callback when another child is selected
+   */
+  onChildChange?: (childId: string) => void;
   /**
    * Callback when entry is added
    */
@@ -83,6 +96,9 @@ export interface GrowthTrackerProps {
  * <GrowthTracker
  *   birthDate={babyBirthDate}
  *   entries={growthEntries}
+ *   childOptions={children}
+ *   selectedChildId={childId}
+ *   onChildChange={setChildId}
  *   onAddEntry={async (entry) => {
  *     await addGrowthEntry(entry);
  *   }}
@@ -93,6 +109,9 @@ export interface GrowthTrackerProps {
 export function GrowthTracker({
   birthDate,
   entries,
+  childOptions,
+  selectedChildId,
+  onChildChange,
   onAddEntry,
   onDeleteEntry,
   showAddButton = true,
@@ -151,16 +170,25 @@ export function GrowthTracker({
             <Ruler className="w-5 h-5 text-yellow" />
             Growth Tracker
           </CardTitle>
-          {showAddButton && onAddEntry && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setIsAddModalOpen(true)}
-              leftIcon={<Plus className="w-4 h-4" />}
-            >
-              Add Entry
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {childOptions && selectedChildId && onChildChange && (
+              <ChildSwitcher
+                childOptions={childOptions}
+                selectedChildId={selectedChildId}
+                onChildChange={onChildChange}
+              />
+            )}
+            {showAddButton && onAddEntry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsAddModalOpen(true)}
+                leftIcon={<Plus className="w-4 h-4" />}
+              >
+                Add Entry
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
 
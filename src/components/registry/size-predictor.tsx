@@ -6,6 +6,7 @@ import { Brain, TrendingUp, Info } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip } from '@/components/ui/tooltip';
+import { ChildSwitcher, type ChildOption } from './child-switcher';
 
 /**
  * Size prediction data type
@@ -52,6 +53,18 @@ export interface SizePredictorProps {
    * Baby's gender (optional)
    */
   gender?: 'male' | 'female' | 'unknown';
+  /**
+   * Children to switch between (shown when there is more than one)
+   */
+  childOptions?: ChildOption[];
+  /**
+   * Currently selected child ID
+   */
+  selectedChildId?: string;
+  /**
+   * Callback when another child is selected
+   */
+  onChildChange?: (childId: string) => void;
   /**
    * Whether to show detailed info
    * @default true
@@ -81,6 +94,9 @@ export interface SizePredictorProps {
  *   }}
  *   birthDate={babyBirthDate}
  *   gender="male"
+ *   childOptions={children}
+ *   selectedChildId={childId}
+ *   onChildChange={setChildId}
  * />
  * ```
  */
@@ -88,6 +104,9 @@ export function SizePredictor({
   prediction,
   birthDate,
   gender,
+  childOptions,
+  selectedChildId,
+  onChildChange,
   showDetails = true,
   className,
 }: SizePredictorProps) {
@@ -122,9 +141,18 @@ export function SizePredictor({
             <Brain className="w-5 h-5 text-yellow" />
             AI Size Prediction
           </CardTitle>
-          <Tooltip content="Based on growth patterns and average percentiles">
-            <Info className="w-4 h-4 text-gray-400" />
-          </Tooltip>
+          <div className="flex items-center gap-2">
+            {childOptions && selectedChildId && onChildChange && (
+              <ChildSwitcher
+                childOptions={childOptions}
+                selectedChildId={selectedChildId}
+                onChildChange={onChildChange}
+              />
+            )}
+            <Tooltip content="Based on growth patterns and average percentiles">
+              <Info className="w-4 h-4 text-gray-400" />
+            </Tooltip>
+          </div>
         </div>
       </CardHeader>
 
@@ -54,6 +54,17 @@ export interface CheckoutCartItem {
   quantity: number;
 }
 
+/**
+ * Registry gift details, for carts bought from a registry
+ */
+export interface CheckoutRegistryGift {
+  registryName: string;
+  shareCode: string;
+  giftMessage: string;
+  gifterName: string;
+  showGifterName: boolean;
+}
+
 /**
  * Checkout summary
  */
@@ -87,6 +98,9 @@ export interface CheckoutState {
   discountCode: string | null;
   discountAmount: number;
   
+  // Registry gift (ships to the registrant's hidden address)
+  registryGift: CheckoutRegistryGift | null;
+  
   // Session
   checkoutSessionId: string | null;
   
@@ -118,6 +132,9 @@ interface CheckoutContextActions {
   applyDiscount: (code: string, amount: number) => void;
   removeDiscount: () => void;
   
+  // Registry gift
+  setRegistryGift: (gift: CheckoutRegistryGift | null) => void;
+  
   // Session
   setCheckoutSessionId: (sessionId: string) => void;
   
@@ -151,6 +168,7 @@ const initialState: CheckoutState = {
   useSameBillingAddress: true,
   discountCode: null,
   discountAmount: 0,
+  registryGift: null,
   checkoutSessionId: null,
   isGuestCheckout: false,
   guestEmail: null,
@@ -233,6 +251,10 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
       }));
     },
 
+    setRegistryGift: (gift) => {
+      setState((prev) => ({ ...prev, registryGift: gift }));
+    },
+
     setCheckoutSessionId: (sessionId) => {
       setState((prev) => ({ ...prev, checkoutSessionId: sessionId }));
     },
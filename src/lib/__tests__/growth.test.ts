@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  DAYS_PER_MONTH,
+  getGrowthPercentile,
+  getLmsParameters,
+  getMeasurementAtZScore,
+  zScoreToPercentile,
+} from '../growth/percentiles';
+import { projectGrowth } from '../growth/projection';
+import { getClothingSize, getDiaperSize, getShoeSize } from '../growth/sizes';
+import { groupLegacyEntries } from '../growth/children';
+
+const birthDate = new Date('2026-01-01T00:00:00Z');
+const atAge = (months: number) => new Date(birthDate.getTime() + months * DAYS_PER_MONTH * 24 * 60 * 60 * 1000);
+
+describe('growth percentiles', () => {
+  it('should put the WHO median on the 50th percentile', () => {
+    expect(getGrowthPercentile('weight', 3.3464, 0, 'MALE')).toMatchObject({
+      zScore: 0,
+      percentile: 50,
+      chart: 'WHO',
+    });
+  });
+
+  it('should match the published WHO SD tables', () => {
+    // Girls' weight-for-age at 6 months: -2 SD is 5.7 kg
+    expect(getMeasurementAtZScore('weight', -2, 6, 'FEMALE')).toBeCloseTo(5.73, 2);
+    // Boys' length-for-age at 12 months: +2 SD is 80.5 cm
+    expect(getMeasurementAtZScore('height', 2, 12, 'MALE')).toBeCloseTo(80.5, 1);
+  });
+
+  it('should convert z-scores to percentiles', () => {
+    expect(zScoreToPercentile(0)).toBeCloseTo(50, 5);
+    expect(zScoreToPercentile(1.96)).toBeCloseTo(97.5, 1);
+    expect(zScoreToPercentile(-1)).toBeCloseTo(15.87, 1);
+  });
+
+  it('should interpolate between monthly rows', () => {
+    const lms = getLmsParameters('height', 'MALE', 1.5)!;
+    expect(lms.M).toBeCloseTo((54.7244 + 58.4249) / 2, 4);
+  });
+
+  it('should switch to the CDC charts after 24 months', () => {
+    expect(getGrowthPercentile('height', 95, 36, 'FEMALE')?.chart).toBe('CDC');
+    expect(getGrowthPercentile('headCircumference', 49, 36, 'FEMALE')).toBeNull();
+    expect(getGrowthPercentile('weight', 25, 72, 'FEMALE')).toBeNull();
+  });
+
+  it('should average both charts when sex is unknown', () => {
+    const boy = getGrowthPercentile('weight', 8, 6, 'MALE')!;
+    const girl = getGrowthPercentile('weight', 8, 6, 'FEMALE')!;
+    const either = getGrowthPercentile('weight', 8, 6, null)!;
+
+    expect(either.zScore).toBeCloseTo((boy.zScore + girl.zScore) / 2, 1);
+  });
+});
+
+describe('projectGrowth', () => {
+  it('should track the current percentile with a single entry', () => {
+    const projection = projectGrowth({
+      birthDate,
+      sex: 'MALE',
+      entries: [{ recordedAt: atAge(4), height: 63.886, weight: 7.0023 }],
+      monthsAhead: [0, 2],
+      now: atAge(4),
+    })!;
+
+    expect(projection.current.height?.percentile).toBe(50);
+    expect(projection.velocity.height).toBeNull();
+    expect(projection.projections[1]).toMatchObject({ ageMonths: 6, height: 67.6, weight: 7.9 });
+    expect(projection.assumedMedian).toEqual([]);
+  });
+
+  it('should follow a child who is crossing percentiles', () => {
+    const median3 = getMeasurementAtZScore('weight', 0, 3, 'FEMALE')!;
+    const plusHalf5 = getMeasurementAtZScore('weight', 0.5, 5, 'FEMALE')!;
+
+    const projection = projectGrowth({
+      birthDate,
+      sex: 'FEMALE',
+      entries: [
+        { recordedAt: atAge(5), weight: plusHalf5 },
+        { recordedAt: atAge(3), weight: median3 },
+      ],
+      monthsAhead: [0, 2],
+      now: atAge(5),
+    })!;
+
+    // Gaining 0.25 SD a month is capped at 0.1 SD a month
+    const expected = getMeasurementAtZScore('weight', 0.7, 7, 'FEMALE')!;
+    expect(projection.projections[1].weight).toBeCloseTo(expected, 1);
+    expect(projection.velocity.weight).toBeGreaterThan(0);
+    expect(projection.assumedMedian).toEqual(['height']);
+  });
+
+  it('should give the same result for the same data', () => {
+    const input = {
+      birthDate,
+      sex: null,
+      entries: [{ recordedAt: atAge(10), height: 72, weight: 9 }],
+      monthsAhead: [0, 2, 4, 6],
+      now: atAge(11),
+    };
+
+    expect(projectGrowth(input)).toEqual(projectGrowth(input));
+  });
+
+  it('should refuse to chart children past 5 years', () => {
+    expect(
+      projectGrowth({ birthDate, sex: 'MALE', entries: [], monthsAhead: [0], now: atAge(61) })
+    ).toBeNull();
+  });
+});
+
+describe('size chart mapping', () => {
+  it('should size up when either height or weight outgrows a size', () => {
+    // 26.4 in fits 3-6M, but 16.5 lbs doesn't
+    expect(getClothingSize(67, 7.5)).toBe('6-9 Months');
+    expect(getClothingSize(50, 3.4)).toBe('Newborn');
+    expect(getClothingSize(130, 30)).toBe('5 Toddler');
+  });
+
+  it('should map weight to diapers and age to shoes', () => {
+    expect(getDiaperSize(4)).toBe('N');
+    expect(getDiaperSize(5)).toBe('1');
+    expect(getDiaperSize(20)).toBe('5');
+    expect(getShoeSize(0.5)).toBe('0');
+    expect(getShoeSize(13)).toBe('5');
+  });
+});
+
+describe('groupLegacyEntries', () => {
+  it('should split siblings by name and keep their latest details', () => {
+    const children = groupLegacyEntries(
+      [
+        { id: 'a1', childName: 'Ava', childBirthDate: atAge(0), childSex: null, recordedAt: atAge(1) },
+        { id: 'l1', childName: 'Leo', childBirthDate: null, childSex: 'MALE', recordedAt: atAge(2) },
+        { id: 'a2', childName: 'ava ', childBirthDate: null, childSex: 'FEMALE', recordedAt: atAge(3) },
+        { id: 'r1', childName: null, childBirthDate: null, childSex: null, recordedAt: atAge(4) },
+      ],
+      { name: 'Smith Family Registry', birthDate: birthDate }
+    );
+
+    expect(children).toEqual([
+      { name: 'Smith Family Registry', birthDate, sex: null, entryIds: ['r1'] },
+      { name: 'ava', birthDate: atAge(0), sex: 'FEMALE', entryIds: ['a2', 'a1'] },
+      { name: 'Leo', birthDate, sex: 'MALE', entryIds: ['l1'] },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { planGuestClaim, type GuestCart } from '../guest-checkout/claim';
+
+describe('planGuestClaim', () => {
+  const carts: GuestCart[] = [
+    { id: 'cart_old', sessionId: 'sess_a', updatedAt: new Date('2026-03-01T10:00:00Z') },
+    { id: 'cart_new', sessionId: 'sess_b', updatedAt: new Date('2026-03-05T10:00:00Z') },
+    { id: 'cart_stranger', sessionId: 'sess_c', updatedAt: new Date('2026-03-09T10:00:00Z') },
+  ];
+
+  it('should claim every order, their sessions and the latest of their carts', () => {
+    const plan = planGuestClaim(
+      [
+        { id: 'order_1', guestSessionId: 'sess_a' },
+        { id: 'order_2', guestSessionId: 'sess_b' },
+        { id: 'order_3', guestSessionId: 'sess_a' },
+      ],
+      carts,
+      false
+    );
+
+    expect(plan).toEqual({
+      orderIds: ['order_1', 'order_2', 'order_3'],
+      sessionIds: ['sess_a', 'sess_b'],
+      cartId: 'cart_new',
+    });
+  });
+
+  it('should keep the cart the user already has', () => {
+    const plan = planGuestClaim([{ id: 'order_1', guestSessionId: 'sess_b' }], carts, true);
+
+    expect(plan.cartId).toBeNull();
+    expect(plan.sessionIds).toEqual(['sess_b']);
+  });
+
+  it('should claim orders placed without a cart session', () => {
+    expect(planGuestClaim([{ id: 'order_1', guestSessionId: null }], carts, false)).toEqual({
+      orderIds: ['order_1'],
+      sessionIds: [],
+      cartId: null,
+    });
+  });
+});
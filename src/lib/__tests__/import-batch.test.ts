@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from '../errors';
+import { parseImportCsv, planImportRows, toImportReportCsv, type ImportRowContext } from '../import-batch/rows';
+
+const item = (id: string) => `https://www.aliexpress.com/item/${id}.html`;
+
+const context: ImportRowContext = {
+  categories: [
+    { id: 'cat-bodysuits', slug: 'bodysuits', name: 'Bodysuits' },
+    { id: 'cat-sleepwear', slug: 'sleepwear', name: 'Sleep & Swaddle' },
+  ],
+  importedProducts: new Map([['1005001111111111', 'organic-cotton-bodysuit']]),
+  queuedProductIds: new Set(['1005002222222222']),
+};
+
+describe('parseImportCsv', () => {
+  it('should read columns by header, with quoted fields and tag lists', () => {
+    const csv = [
+      'URL,Category,Title,Price,Tags,Notes',
+      `${item('1005003333333333')},bodysuits,"Ribbed Bodysuit, 2-Pack",$24.99,organic; newborn|gift,ignored`,
+      `${item('1005004444444444')},,,,`,
+    ].join('\r\n');
+
+    const rows = parseImportCsv(csv, 'sleepwear');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      rowNumber: 2,
+      category: 'bodysuits',
+      title: 'Ribbed Bodysuit, 2-Pack',
+      price: 24.99,
+      tags: ['organic', 'newborn', 'gift'],
+    });
+    expect(rows[0].error).toBeUndefined();
+    expect(rows[1]).toMatchObject({ rowNumber: 3, category: 'sleepwear', tags: [] });
+  });
+
+  it('should read a plain URL list and flag bad rows', () => {
+    const rows = parseImportCsv(`${item('1005003333333333')}\nhttps://example.com/not-a-product\n`);
+
+    expect(rows.map((row) => row.rowNumber)).toEqual([1, 2]);
+    expect(rows[0].error).toBe('Category is required');
+    expect(rows[1].error).toBe('Not an AliExpress product URL');
+  });
+
+  it('should reject files without a url column', () => {
+    expect(() => parseImportCsv('link,category\nfoo,bar')).toThrow(ValidationError);
+    expect(() => parseImportCsv('\n\n')).toThrow(ValidationError);
+  });
+});
+
+describe('planImportRows', () => {
+  it('should skip duplicates before anything is scraped', () => {
+    const csv = [
+      'url,category,price',
+      `${item('1005003333333333')},Sleep & Swaddle,19`,
+      `${item('1005003333333333')}?sku_id=2,bodysuits,`,
+      `${item('1005001111111111')},bodysuits,`,
+      `${item('1005002222222222')},bodysuits,`,
+      `${item('1005005555555555')},hats,`,
+      `${item('1005006666666666')},bodysuits,-4`,
+    ].join('\n');
+
+    const planned = planImportRows(parseImportCsv(csv), context);
+
+    expect(planned.map((row) => [row.status, row.error])).toEqual([
+      ['pending', undefined],
+      ['skipped', 'Duplicate of row 2'],
+      ['skipped', 'Already imported as organic-cotton-bodysuit'],
+      ['skipped', 'Already queued in another import'],
+      ['failed', 'Unknown category "hats"'],
+      ['failed', 'Price must be a positive number'],
+    ]);
+    expect(planned[0].input).toEqual({
+      url: item('1005003333333333'),
+      category: 'Sleep & Swaddle',
+      categoryId: 'cat-sleepwear',
+      overrides: { basePrice: 19 },
+    });
+    expect(planned[0].aliExpressProductId).toBe('1005003333333333');
+  });
+});
+
+describe('toImportReportCsv', () => {
+  it('should render one line per row and defuse formulas', () => {
+    const csv = toImportReportCsv([
+      {
+        rowNumber: 2,
+        url: item('1005003333333333'),
+        category: '=HYPERLINK("x")',
+        aliExpressProductId: '1005003333333333',
+        status: 'completed',
+        productSlug: 'ribbed-bodysuit',
+      },
+    ]);
+
+    expect(csv.split('\r\n')[0]).toBe('Row,URL,Category,AliExpress ID,Status,Product,Error');
+    expect(csv).toContain(`2,${item('1005003333333333')},"'=HYPERLINK(""x"")",1005003333333333,completed,ribbed-bodysuit,`);
+  });
+});
@@ -0,0 +1,99 @@
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { planInventorySync, type LocalVariantStock } from '../inventory-check/plan';
+import { FixturePageSource } from '@/services/aliexpress/page-source';
+import { parseStockSnapshot } from '@/services/aliexpress/stock-parser';
+import type { VariantMapping } from '@/types/dropshipping';
+
+const pages = new FixturePageSource(
+  path.join(process.cwd(), 'src/services/aliexpress/__tests__/fixtures')
+);
+
+async function snapshotFor(productId: string) {
+  return parseStockSnapshot(await pages.fetchHtml(`https://www.aliexpress.com/item/${productId}.html`));
+}
+
+function variant(sku: string, available = 50): LocalVariantStock {
+  return {
+    id: `var_${sku}`,
+    sku,
+    isActive: true,
+    inventory: { reservedQuantity: 2, available, lowStockThreshold: 10 },
+  };
+}
+
+function mapping(localVariantSku: string, aliExpressSku: string): VariantMapping {
+  return { localVariantSku, aliExpressSku, aliExpressVariantName: localVariantSku };
+}
+
+describe('planInventorySync', () => {
+  it('should sync mapped variant stock and deactivate vanished SKUs', async () => {
+    const plan = planInventorySync(
+      await snapshotFor('1005006100000001'),
+      'ACTIVE',
+      [variant('BP-0-3M'), variant('BP-3-6M'), variant('BP-6-9M'), variant('BP-9-12M')],
+      [
+        mapping('BP-0-3M', '12000036000000001'),
+        mapping('BP-3-6M', '12000036000000002'),
+        mapping('BP-6-9M', '12000036000000003'),
+        mapping('BP-9-12M', '12000036000000099'),
+      ]
+    );
+
+    expect(plan.sourceStatus).toBe('ACTIVE');
+    expect(plan.inventoryStatus).toBe('LOW_STOCK');
+    expect(plan.variants.map((v) => [v.sku, v.quantity, v.available, v.deactivate])).toEqual([
+      ['BP-0-3M', 120, 118, false],
+      ['BP-3-6M', 4, 2, false],
+      ['BP-6-9M', 0, 0, false],
+      ['BP-9-12M', 0, 0, true],
+    ]);
+  });
+
+  it('should flag variants that just dropped to their low-stock threshold', async () => {
+    const plan = planInventorySync(
+      await snapshotFor('1005006100000001'),
+      'ACTIVE',
+      [variant('BP-3-6M', 50), variant('BP-6-9M', 0)],
+      [mapping('BP-3-6M', '12000036000000002'), mapping('BP-6-9M', '12000036000000003')]
+    );
+
+    expect(plan.variants.map((v) => v.becameLowStock)).toEqual([true, false]);
+  });
+
+  it('should discontinue a removed listing and hide every variant', async () => {
+    const plan = planInventorySync(await snapshotFor('1005006100000002'), 'ACTIVE', [variant('BP-ONE')], null);
+
+    expect(plan.sourceStatus).toBe('DISCONTINUED');
+    expect(plan.inventoryStatus).toBe('OUT_OF_STOCK');
+    expect(plan.variants[0]).toMatchObject({ quantity: 0, deactivate: true, becameLowStock: false });
+  });
+
+  it('should mark a sold-out single-SKU product unavailable', async () => {
+    const plan = planInventorySync(await snapshotFor('1005006100000003'), 'PRICE_CHANGED', [variant('BP-ONE')], null);
+
+    expect(plan.sourceStatus).toBe('UNAVAILABLE');
+    expect(plan.inventoryStatus).toBe('OUT_OF_STOCK');
+    expect(plan.variants[0]).toMatchObject({ quantity: 0, available: 0, deactivate: false });
+  });
+
+  it('should keep a pending price review on a source that is in stock', async () => {
+    const plan = planInventorySync(await snapshotFor('1005006100000004'), 'PRICE_CHANGED', [variant('BP-BLUE')], [
+      mapping('BP-BLUE', '12000036000000021'),
+    ]);
+
+    expect(plan.sourceStatus).toBe('PRICE_CHANGED');
+    expect(plan.variants[0]).toMatchObject({ quantity: 40, available: 38 });
+  });
+
+  it('should fail the check on a captcha page instead of assuming stock', async () => {
+    const snapshot = await snapshotFor('1005006100000005');
+
+    expect(() => planInventorySync(snapshot, 'ACTIVE', [variant('BP-ONE')], null)).toThrow(
+      'Supplier page shows no stock'
+    );
+    expect(() =>
+      planInventorySync(snapshot, 'ACTIVE', [variant('BP-BLUE')], [mapping('BP-BLUE', '12000036000000021')])
+    ).toThrow('Supplier page lists none of the mapped SKUs');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHECKOUT_SESSION_TTL_MS,
+  getHoldExpiry,
+  planConversion,
+  planHolds,
+  planRelease,
+  type StockLevel,
+} from '../inventory-holds/plan';
+
+describe('planHolds', () => {
+  const stock: StockLevel[] = [
+    { variantId: 'var_romper', quantity: 10, reservedQuantity: 7 },
+    { variantId: 'var_socks', quantity: 5, reservedQuantity: 0 },
+  ];
+
+  it('should hold unreserved stock, one line per variant', () => {
+    const plan = planHolds(
+      [
+        { variantId: 'var_socks', quantity: 2 },
+        { variantId: 'var_romper', quantity: 1 },
+        { variantId: 'var_socks', quantity: 1 },
+      ],
+      stock
+    );
+
+    expect(plan.shortages).toEqual([]);
+    expect(plan.updates).toEqual([
+      { variantId: 'var_romper', quantity: 10, reservedQuantity: 8, available: 2 },
+      { variantId: 'var_socks', quantity: 5, reservedQuantity: 3, available: 2 },
+    ]);
+  });
+
+  it('should hold nothing if any variant is short', () => {
+    const plan = planHolds(
+      [
+        { variantId: 'var_romper', quantity: 4 },
+        { variantId: 'var_socks', quantity: 1 },
+        { variantId: 'var_blanket', quantity: 1 },
+      ],
+      stock
+    );
+
+    expect(plan.updates).toEqual([]);
+    expect(plan.shortages).toEqual([
+      { variantId: 'var_blanket', requested: 1, available: 0 },
+      { variantId: 'var_romper', requested: 4, available: 3 },
+    ]);
+  });
+});
+
+describe('planRelease', () => {
+  it('should hand held stock back without going below zero', () => {
+    expect(
+      planRelease(
+        [{ variantId: 'var_romper', quantity: 3 }],
+        [{ variantId: 'var_romper', quantity: 10, reservedQuantity: 2 }]
+      )
+    ).toEqual([{ variantId: 'var_romper', quantity: 10, reservedQuantity: 0, available: 10 }]);
+  });
+});
+
+describe('planConversion', () => {
+  const stock: StockLevel[] = [
+    { variantId: 'var_romper', quantity: 10, reservedQuantity: 3 },
+    { variantId: 'var_socks', quantity: 5, reservedQuantity: 1 },
+  ];
+
+  it('should sell held lines out of reserved stock', () => {
+    const lines = [{ variantId: 'var_romper', quantity: 2 }];
+
+    expect(planConversion(lines, lines, stock)).toEqual({
+      updates: [{ variantId: 'var_romper', quantity: 8, reservedQuantity: 1, available: 7 }],
+      shortages: [],
+    });
+  });
+
+  it('should re-reserve a line whose hold expired, and release holds without a line', () => {
+    expect(
+      planConversion([{ variantId: 'var_romper', quantity: 2 }], [{ variantId: 'var_socks', quantity: 1 }], stock)
+    ).toEqual({
+      updates: [
+        { variantId: 'var_romper', quantity: 8, reservedQuantity: 3, available: 5 },
+        { variantId: 'var_socks', quantity: 5, reservedQuantity: 0, available: 5 },
+      ],
+      shortages: [],
+    });
+  });
+
+  it("should report lapsed units stock can't cover without touching other holds", () => {
+    const plan = planConversion(
+      [{ variantId: 'var_socks', quantity: 3 }],
+      [{ variantId: 'var_socks', quantity: 1 }],
+      [{ variantId: 'var_socks', quantity: 4, reservedQuantity: 3 }]
+    );
+
+    // One unit held, one free, one owed; the other two reserved units stay put
+    expect(plan.updates).toEqual([{ variantId: 'var_socks', quantity: 2, reservedQuantity: 2, available: 0 }]);
+    expect(plan.shortages).toEqual([{ variantId: 'var_socks', requested: 2, available: 1 }]);
+  });
+});
+
+describe('getHoldExpiry', () => {
+  it('should close the Stripe session before the hold lapses', () => {
+    const now = new Date('2026-04-01T12:00:00Z');
+    const { sessionExpiresAt, holdExpiresAt } = getHoldExpiry(now);
+
+    // Stripe rejects sessions that close in under 30 minutes
+    expect(sessionExpiresAt.getTime() - now.getTime()).toBe(CHECKOUT_SESSION_TTL_MS);
+    expect(CHECKOUT_SESSION_TTL_MS).toBeGreaterThan(30 * 60 * 1000);
+    expect(holdExpiresAt.getTime()).toBeGreaterThan(sessionExpiresAt.getTime());
+  });
+});
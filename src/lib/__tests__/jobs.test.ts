@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelayMs, planJobFailure, MAX_RETRY_DELAY_MS } from '../jobs/retry';
+import { JOB_SETTINGS, isJobType } from '../jobs/settings';
+
+const MINUTE = 60 * 1000;
+
+describe('getRetryDelayMs', () => {
+  it('should double the delay with each attempt', () => {
+    expect(getRetryDelayMs(1, MINUTE, 0)).toBe(MINUTE);
+    expect(getRetryDelayMs(2, MINUTE, 0)).toBe(2 * MINUTE);
+    expect(getRetryDelayMs(4, MINUTE, 0)).toBe(8 * MINUTE);
+  });
+
+  it('should add up to 20% jitter', () => {
+    expect(getRetryDelayMs(1, MINUTE, 1)).toBe(1.2 * MINUTE);
+    expect(getRetryDelayMs(1, MINUTE, 0.5)).toBe(1.1 * MINUTE);
+  });
+
+  it('should cap the delay', () => {
+    expect(getRetryDelayMs(30, MINUTE, 0)).toBe(MAX_RETRY_DELAY_MS);
+  });
+});
+
+describe('planJobFailure', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should schedule a retry while attempts remain', () => {
+    expect(planJobFailure({ attempts: 2, maxAttempts: 5 }, MINUTE, now, 0)).toEqual({
+      status: 'PENDING',
+      runAt: new Date(now.getTime() + 2 * MINUTE),
+    });
+  });
+
+  it('should dead-letter a job out of attempts', () => {
+    expect(planJobFailure({ attempts: 5, maxAttempts: 5 }, MINUTE, now, 0)).toEqual({ status: 'DEAD' });
+  });
+});
+
+describe('JOB_SETTINGS', () => {
+  it('should fit every job type in the drain route', () => {
+    for (const settings of Object.values(JOB_SETTINGS)) {
+      expect(settings.timeoutMs).toBeLessThanOrEqual(280 * 1000);
+    }
+  });
+
+  it('should recognize job types', () => {
+    expect(isJobType('email.send')).toBe(true);
+    expect(isJobType('email.unknown')).toBe(false);
+  });
+});
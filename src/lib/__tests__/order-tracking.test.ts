@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createOrderTrackingToken,
+  getOrderTrackingPath,
+  verifyOrderTrackingToken,
+} from '../order-tracking/links';
+import {
+  buildOrderSteps,
+  buildOrderTrackingView,
+  buildTrackingActivity,
+  getEstimatedDelivery,
+  redactAddress,
+  type TimelineOrder,
+  type TimelineShipment,
+} from '../order-tracking/timeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const placed = new Date('2026-03-02T09:00:00Z');
+const day = (n: number) => new Date(placed.getTime() + n * DAY_MS);
+
+beforeEach(() => {
+  process.env.ORDER_TRACKING_SECRET = 'test-order-tracking-secret';
+});
+
+function createOrder(overrides: Partial<TimelineOrder> = {}): TimelineOrder {
+  return {
+    orderNumber: 'KP-ABC1234-WXYZ',
+    status: 'SHIPPED',
+    createdAt: placed,
+    confirmedAt: placed,
+    shippedAt: day(1),
+    deliveredAt: null,
+    cancelledAt: null,
+    shippingAddress: {
+      firstName: 'Jamie',
+      lastName: 'Rivera',
+      line1: '12 Elm Street',
+      city: 'Austin',
+      state: 'TX',
+      zip: '78701',
+      country: 'US',
+      phone: '555-0100',
+    },
+    estimatedDelivery: day(7),
+    ...overrides,
+  };
+}
+
+function createShipment(overrides: Partial<TimelineShipment> = {}): TimelineShipment {
+  return {
+    status: 'PENDING',
+    carrier: null,
+    trackingNumber: null,
+    trackingUrl: null,
+    trackingStatus: null,
+    estimatedDelivery: null,
+    shippedAt: null,
+    deliveredAt: null,
+    items: [{ productName: 'Cotton Romper', variantName: '0-3M', quantity: 1 }],
+    scans: [],
+    ...overrides,
+  };
+}
+
+describe('order tracking tokens', () => {
+  it('should open only the order the link was sent for', () => {
+    const token = createOrderTrackingToken('KP-ABC1234-WXYZ');
+    expect(verifyOrderTrackingToken('kp-abc1234-wxyz', token)).toBe(true);
+    expect(verifyOrderTrackingToken('KP-ABC1234-WXYA', token)).toBe(false);
+    expect(verifyOrderTrackingToken('KP-ABC1234-WXYZ', undefined)).toBe(false);
+  });
+
+  it('should build a page path carrying the order and token', () => {
+    const params = new URL(getOrderTrackingPath('KP-ABC1234-WXYZ'), 'http://localhost').searchParams;
+    expect(params.get('order')).toBe('KP-ABC1234-WXYZ');
+    expect(verifyOrderTrackingToken('KP-ABC1234-WXYZ', params.get('token'))).toBe(true);
+  });
+});
+
+describe('buildOrderSteps', () => {
+  it('should show a split order as partly shipped', () => {
+    const steps = buildOrderSteps(createOrder(), [
+      createShipment({ status: 'SHIPPED', shippedAt: day(1) }),
+      createShipment(),
+    ]);
+
+    expect(steps.map((step) => [step.label, step.state])).toEqual([
+      ['Order placed', 'complete'],
+      ['Preparing', 'complete'],
+      ['Shipped (1 of 2)', 'current'],
+      ['Delivered', 'upcoming'],
+    ]);
+  });
+
+  it('should stop cancelled orders at the cancellation', () => {
+    const steps = buildOrderSteps(createOrder({ status: 'CANCELLED', cancelledAt: day(1) }), []);
+    expect(steps.map((step) => step.label)).toEqual(['Order placed', 'Cancelled']);
+    expect(steps.every((step) => step.state === 'complete')).toBe(true);
+  });
+});
+
+describe('buildTrackingActivity', () => {
+  it('should merge carrier scans from every package, newest first', () => {
+    const activity = buildTrackingActivity(createOrder(), [
+      createShipment({
+        status: 'SHIPPED',
+        carrier: 'USPS',
+        shippedAt: day(1),
+        scans: [{ status: 'IN_TRANSIT', description: 'Departed facility', location: 'Dallas, TX', occurredAt: day(2) }],
+      }),
+      createShipment({ status: 'DELIVERED', shippedAt: day(1.5), deliveredAt: day(3) }),
+    ]);
+
+    expect(activity.map((entry) => [entry.title, entry.packageNumber])).toEqual([
+      ['Package 2 delivered', 2],
+      ['Departed facility', 1],
+      ['Package 2 shipped', 2],
+      ['Package 1 shipped with USPS', 1],
+      ['Order placed', null],
+      ['Order confirmed', null],
+    ]);
+  });
+});
+
+describe('getEstimatedDelivery', () => {
+  it('should wait for the last package still on the way', () => {
+    const order = createOrder();
+    expect(
+      getEstimatedDelivery(order, [
+        createShipment({ status: 'SHIPPED', estimatedDelivery: day(4) }),
+        createShipment({ status: 'SHIPPED', estimatedDelivery: day(9) }),
+        createShipment({ status: 'DELIVERED', estimatedDelivery: day(12) }),
+      ])
+    ).toEqual(day(9));
+    expect(getEstimatedDelivery(order, [createShipment()])).toEqual(day(7));
+    expect(getEstimatedDelivery(createOrder({ status: 'DELIVERED' }), [])).toBeNull();
+  });
+});
+
+describe('redactAddress', () => {
+  it('should keep only the first name, last initial and city', () => {
+    const view = buildOrderTrackingView(createOrder(), [createShipment()]);
+
+    expect(view.destination).toEqual({ recipient: 'Jamie R.', city: 'Austin', state: 'TX', country: 'US' });
+    expect(JSON.stringify(view)).not.toContain('Elm Street');
+    expect(JSON.stringify(view)).not.toContain('555-0100');
+    expect(redactAddress(null)).toEqual({ recipient: null, city: null, state: null, country: null });
+  });
+});
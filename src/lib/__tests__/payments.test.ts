@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import {
+  fromCheckoutSession,
+  fromPaymentIntent,
+  getAmountMismatch,
+  isCheckoutPaymentIntent,
+  toSavedCards,
+} from '../payments/normalize';
+
+const metadata = { cartId: 'cart_1', orderNumber: 'KP-TEST-0001', guestSessionId: 'sess_1' };
+
+describe('fromPaymentIntent', () => {
+  const paymentIntent = {
+    id: 'pi_123',
+    status: 'succeeded',
+    amount_received: 4599,
+    metadata,
+    receipt_email: 'parent@example.com',
+    payment_method_types: ['card', 'link'],
+    shipping: {
+      name: 'Ada Lovelace',
+      phone: '555-0100',
+      address: { line1: '1 Nursery Lane', line2: null, city: 'Austin', state: 'TX', postal_code: '78701', country: 'US' },
+    },
+    latest_charge: {
+      id: 'ch_123',
+      billing_details: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        phone: null,
+        address: { line1: null, line2: null, city: null, state: null, postal_code: '78701', country: 'US' },
+      },
+      payment_method_details: {
+        type: 'card',
+        card: { brand: 'visa', last4: '4242', wallet: { type: 'apple_pay' } },
+      },
+    },
+  } as unknown as Stripe.PaymentIntent;
+
+  it('should read the checkout, card and wallet from the latest charge', () => {
+    expect(fromPaymentIntent(paymentIntent)).toMatchObject({
+      id: 'pi_123',
+      paymentIntentId: 'pi_123',
+      paid: true,
+      amountReceived: 45.99,
+      metadata,
+      email: 'parent@example.com',
+      shipping: { name: 'Ada Lovelace', phone: '555-0100' },
+      billing: { name: 'Ada Lovelace', address: { postal_code: '78701' } },
+      paymentMethod: 'apple_pay',
+      cardBrand: 'visa',
+      cardLast4: '4242',
+    });
+  });
+
+  it('should leave the card empty when the charge is not expanded', () => {
+    const checkout = fromPaymentIntent({
+      ...paymentIntent,
+      status: 'requires_action',
+      latest_charge: 'ch_123',
+    } as Stripe.PaymentIntent);
+
+    expect(checkout).toMatchObject({ paid: false, billing: null, paymentMethod: 'card', cardLast4: null });
+  });
+
+  it('should only treat PaymentIntents carrying a cart as on-site checkouts', () => {
+    expect(isCheckoutPaymentIntent(paymentIntent)).toBe(true);
+    expect(isCheckoutPaymentIntent({ ...paymentIntent, metadata: {} } as Stripe.PaymentIntent)).toBe(false);
+  });
+});
+
+describe('fromCheckoutSession', () => {
+  it('should read a paid hosted checkout the same way', () => {
+    const session = {
+      id: 'cs_123',
+      payment_intent: 'pi_456',
+      payment_status: 'paid',
+      amount_total: 3250,
+      payment_method_types: ['card'],
+      metadata,
+      customer_email: null,
+      customer_details: {
+        email: 'parent@example.com',
+        name: 'Grace Hopper',
+        phone: '555-0199',
+        address: { line1: '2 Crib Court', line2: null, city: 'Denver', state: 'CO', postal_code: '80202', country: 'US' },
+      },
+      shipping_details: null,
+    } as unknown as Stripe.Checkout.Session;
+
+    expect(fromCheckoutSession(session)).toMatchObject({
+      id: 'cs_123',
+      paymentIntentId: 'pi_456',
+      paid: true,
+      amountReceived: 32.5,
+      metadata,
+      email: 'parent@example.com',
+      shipping: null,
+      billing: { name: 'Grace Hopper', phone: '555-0199', address: { city: 'Denver' } },
+      paymentMethod: 'card',
+    });
+  });
+});
+
+describe('getAmountMismatch', () => {
+  const checkout = fromPaymentIntent({ id: 'pi_789', status: 'succeeded', amount_received: 4599 } as Stripe.PaymentIntent);
+
+  it('should pass a payment for the checkout total', () => {
+    expect(getAmountMismatch(checkout, 45.99)).toBeNull();
+    expect(getAmountMismatch(checkout, 30.66 + 15.33)).toBeNull();
+  });
+
+  it('should describe a payment for a different amount', () => {
+    expect(getAmountMismatch(checkout, 49.99)).toBe(
+      'Paid $45.99 but checkout was priced at $49.99, refund or collect the difference'
+    );
+  });
+});
+
+describe('toSavedCards', () => {
+  const card = (id: string, created: number, exp_month: number, exp_year: number) =>
+    ({ id, created, card: { brand: 'visa', last4: id.slice(-4), exp_month, exp_year } }) as unknown as Stripe.PaymentMethod;
+
+  it('should list cards newest first, leaving out expired ones', () => {
+    const now = new Date('2026-04-15T12:00:00Z');
+
+    expect(
+      toSavedCards(
+        [card('pm_old_1111', 100, 12, 2027), card('pm_expired_2222', 300, 3, 2026), card('pm_new_3333', 200, 4, 2026)],
+        now
+      )
+    ).toEqual([
+      { id: 'pm_new_3333', brand: 'visa', last4: '3333', expMonth: 4, expYear: 2026 },
+      { id: 'pm_old_1111', brand: 'visa', last4: '1111', expMonth: 12, expYear: 2027 },
+    ]);
+  });
+});
+
+// Runs against stripe-mock (docker run -p 12111:12111 stripe/stripe-mock)
+// when STRIPE_MOCK_URL points at it, e.g. http://localhost:12111
+describe.skipIf(!process.env.STRIPE_MOCK_URL)('with stripe-mock', () => {
+  it('should create a PaymentIntent for on-site checkout', async () => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+    process.env.STRIPE_API_BASE = process.env.STRIPE_MOCK_URL;
+    const { createPaymentIntent } = await import('../stripe');
+
+    const paymentIntent = await createPaymentIntent(4599, 'USD', metadata, {
+      receiptEmail: 'parent@example.com',
+    });
+
+    expect(paymentIntent.object).toBe('payment_intent');
+    expect(paymentIntent.id).toMatch(/^pi_/);
+    expect(fromPaymentIntent(paymentIntent).id).toBe(paymentIntent.id);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { decideCostChange, getVariantPriceDiffs, isVariantRepriced } from '../price-monitor/changes';
+import type { CategoryPricing } from '@/types/dropshipping';
+
+const pricing: CategoryPricing = {
+  categoryId: 'cat_1',
+  categoryName: 'Bodysuits',
+  markupFactor: 2.5,
+  shippingBuffer: 3,
+};
+
+describe('decideCostChange', () => {
+  it('should ignore changes under the threshold', () => {
+    expect(decideCostChange(5, 5.25)).toEqual({ action: 'ignore', changePercent: 5 });
+    expect(decideCostChange(5, 5)).toEqual({ action: 'ignore', changePercent: 0 });
+  });
+
+  it('should reprice moderate changes in either direction', () => {
+    expect(decideCostChange(5, 6)).toEqual({ action: 'reprice', changePercent: 20 });
+    expect(decideCostChange(5, 4)).toEqual({ action: 'reprice', changePercent: -20 });
+  });
+
+  it('should queue large swings for review', () => {
+    expect(decideCostChange(5, 9)).toEqual({ action: 'review', changePercent: 80 });
+    expect(decideCostChange(6, 3)).toEqual({ action: 'review', changePercent: -50 });
+  });
+});
+
+describe('getVariantPriceDiffs', () => {
+  it('should price mapped variants from their own supplier cost', () => {
+    const diffs = getVariantPriceDiffs(
+      [
+        { id: 'v1', sku: 'BP-1-S', price: 13.99 },
+        { id: 'v2', sku: 'BP-1-M', price: 13.99 },
+        { id: 'v3', sku: 'BP-1-L', price: 13.99 },
+      ],
+      {
+        price: 5,
+        variants: [
+          { skuId: 'ae-s', name: 'S', attributes: {}, price: 0, stock: 10 },
+          { skuId: 'ae-m', name: 'M', attributes: {}, price: 6, stock: 10 },
+        ],
+      },
+      [
+        { localVariantSku: 'BP-1-S', aliExpressSku: 'ae-s', aliExpressVariantName: 'S' },
+        { localVariantSku: 'BP-1-M', aliExpressSku: 'ae-m', aliExpressVariantName: 'M' },
+      ],
+      pricing
+    );
+
+    // Unpriced and unmapped variants fall back to the base cost
+    expect(diffs.map((d) => d.newPrice)).toEqual([16.99, 18.99, 16.99]);
+    expect(diffs.every(isVariantRepriced)).toBe(true);
+  });
+
+  it('should not count a variant whose price stays the same', () => {
+    expect(isVariantRepriced({ variantId: 'v1', sku: 'BP-1-S', oldPrice: 16.99, newPrice: 16.990000000000002 })).toBe(
+      false
+    );
+  });
+});
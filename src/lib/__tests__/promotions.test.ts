@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertDiscountApplies,
+  calculateDiscount,
+  combineSavings,
+  toDiscountType,
+  withLineDiscounts,
+} from '../promotions/engine';
+import { parsePromotionTerms, selectPromotions, withPromotionDiscounts } from '../promotions/automatic';
+import type { DiscountRule, PromotionLine, PromotionRule } from '../promotions/types';
+
+const now = new Date('2026-04-01T12:00:00Z');
+
+function createRule(overrides: Partial<DiscountRule> = {}): DiscountRule {
+  return {
+    id: 'discount_1',
+    code: 'SAVE20',
+    type: 'PERCENTAGE',
+    value: 20,
+    isActive: true,
+    startsAt: null,
+    expiresAt: null,
+    maxUses: null,
+    currentUses: 0,
+    maxUsesPerUser: null,
+    minPurchaseAmount: null,
+    applicableCategories: [],
+    applicableProducts: [],
+    ...overrides,
+  };
+}
+
+const lines: PromotionLine[] = [
+  { id: 'romper', productId: 'prod_romper', categoryId: 'cat_clothing', unitPrice: 24.99, quantity: 2 },
+  { id: 'blanket', productId: 'prod_blanket', categoryId: 'cat_nursery', unitPrice: 39.5, quantity: 1 },
+  { id: 'socks', productId: 'prod_socks', categoryId: 'cat_clothing', unitPrice: 9.99, quantity: 3 },
+];
+
+describe('calculateDiscount', () => {
+  it('should take a percentage off every line when the code is unscoped', () => {
+    const discount = calculateDiscount(createRule(), lines);
+
+    // 20% of 119.45
+    expect(discount.itemDiscount).toBe(23.89);
+    expect(discount.lineDiscounts.reduce((sum, line) => sum + Math.round(line.amount * 100), 0)).toBe(2389);
+    expect(discount.total).toBe(23.89);
+  });
+
+  it('should only discount lines in the scoped products or categories', () => {
+    const discount = calculateDiscount(
+      createRule({ applicableCategories: ['cat_nursery'], applicableProducts: ['prod_socks'] }),
+      lines
+    );
+
+    expect(discount.eligibleSubtotal).toBe(69.47);
+    expect(discount.lineDiscounts.map((line) => line.lineId)).toEqual(['blanket', 'socks']);
+    expect(discount.itemDiscount).toBe(13.89);
+  });
+
+  it('should cap a fixed amount at the eligible lines and spread it across them', () => {
+    const discount = calculateDiscount(
+      createRule({ type: 'FIXED', value: 50, applicableProducts: ['prod_socks'] }),
+      lines
+    );
+
+    expect(discount.itemDiscount).toBe(29.97);
+    expect(discount.lineDiscounts).toEqual([{ lineId: 'socks', amount: 29.97 }]);
+  });
+
+  it('should take shipping codes off shipping only', () => {
+    const discount = calculateDiscount(createRule({ type: 'SHIPPING', value: 100 }), lines, 7.95);
+
+    expect(discount.itemDiscount).toBe(0);
+    expect(discount.lineDiscounts).toEqual([]);
+    expect(discount.shippingDiscount).toBe(7.95);
+    expect(discount.total).toBe(7.95);
+  });
+
+  it('should hand each tax line its share', () => {
+    const discount = calculateDiscount(createRule({ type: 'FIXED', value: 10, applicableProducts: ['prod_blanket'] }), lines);
+    const taxLines = withLineDiscounts(
+      lines.map((line) => ({ id: line.id, quantity: line.quantity, unitPrice: line.unitPrice })),
+      discount
+    );
+
+    expect(taxLines.map((line) => line.discount)).toEqual([0, 10, 0]);
+  });
+});
+
+describe('assertDiscountApplies', () => {
+  it('should accept a code that applies', () => {
+    expect(() => assertDiscountApplies(createRule(), { lines, now })).not.toThrow();
+  });
+
+  it.each([
+    [{ isActive: false }, 'Invalid discount code'],
+    [{ startsAt: new Date('2026-05-01T00:00:00Z') }, 'This discount code is not yet active'],
+    [{ expiresAt: new Date('2026-03-01T00:00:00Z') }, 'Discount code has expired'],
+    [{ maxUses: 100, currentUses: 100 }, 'Discount code usage limit exceeded'],
+    [{ minPurchaseAmount: 150 }, 'Minimum purchase of $150.00 required for this discount code'],
+    [{ applicableProducts: ['prod_stroller'] }, "This discount code doesn't apply to anything in your cart"],
+  ] as Array<[Partial<DiscountRule>, string]>)('should reject %o', (overrides, message) => {
+    expect(() => assertDiscountApplies(createRule(overrides), { lines, now })).toThrow(message);
+  });
+
+  it('should stop customers using a code more than allowed', () => {
+    const rule = createRule({ maxUsesPerUser: 1 });
+    expect(() => assertDiscountApplies(rule, { lines, now, customerUses: 0 })).not.toThrow();
+    expect(() => assertDiscountApplies(rule, { lines, now, customerUses: 1 })).toThrow(
+      "You've already used this discount code"
+    );
+  });
+});
+
+describe('toDiscountType', () => {
+  it('should read types stored in either case', () => {
+    expect(toDiscountType('percentage')).toBe('PERCENTAGE');
+    expect(toDiscountType('FIXED')).toBe('FIXED');
+    expect(() => toDiscountType('bogo')).toThrow('Unknown discount type');
+  });
+});
+
+function createPromotion(overrides: Partial<PromotionRule> = {}): PromotionRule {
+  return {
+    id: 'promo_spend',
+    name: '15% off orders over $100',
+    isActive: true,
+    startsAt: null,
+    expiresAt: null,
+    priority: 0,
+    stackable: false,
+    condition: { minSubtotal: 100 },
+    action: { type: 'PERCENT_OFF', percent: 15 },
+    ...overrides,
+  };
+}
+
+describe('selectPromotions', () => {
+  it('should give the cart the best of the promotions that do not stack', () => {
+    const { promotions } = selectPromotions(
+      [
+        createPromotion({ id: 'promo_10', name: '10% off orders over $50', action: { type: 'PERCENT_OFF', percent: 10 }, condition: { minSubtotal: 50 } }),
+        createPromotion(),
+      ],
+      lines,
+      now
+    );
+
+    // 15% of 119.45
+    expect(promotions.map((promotion) => promotion.promotionId)).toEqual(['promo_spend']);
+    expect(promotions[0].total).toBe(17.92);
+  });
+
+  it('should nudge towards promotions the cart is close to', () => {
+    const { promotions, nudges } = selectPromotions([createPromotion({ condition: { minSubtotal: 150 } })], lines, now);
+
+    expect(promotions).toEqual([]);
+    expect(nudges).toEqual([
+      expect.objectContaining({ amountNeeded: 30.55, message: 'Add $30.55 more to unlock 15% off orders over $100' }),
+    ]);
+  });
+
+  it('should make the cheapest matching units free for buy X get Y', () => {
+    const bodysuits: PromotionLine[] = [
+      { id: 'white', productId: 'prod_white', categoryId: 'cat_bodysuits', unitPrice: 14, quantity: 2 },
+      { id: 'striped', productId: 'prod_striped', categoryId: 'cat_bodysuits', unitPrice: 12, quantity: 2 },
+    ];
+    const { promotions, nudges } = selectPromotions(
+      [
+        createPromotion({
+          id: 'promo_bogo',
+          name: 'Buy 2 bodysuits, get 1 free',
+          condition: { categoryIds: ['cat_bodysuits'] },
+          action: { type: 'FREE_ITEMS', buyQuantity: 2, freeQuantity: 1 },
+        }),
+      ],
+      bodysuits,
+      now
+    );
+
+    expect(promotions[0].lineDiscounts).toEqual([{ lineId: 'striped', amount: 12 }]);
+    expect(nudges).toEqual([]);
+  });
+
+  it('should price complete bundles at the bundle price', () => {
+    const starterSet: PromotionLine[] = [
+      { id: 'romper', productId: 'prod_romper', categoryId: 'cat_clothing', unitPrice: 24.99, quantity: 2 },
+      { id: 'blanket', productId: 'prod_blanket', categoryId: 'cat_nursery', unitPrice: 39.5, quantity: 1 },
+    ];
+    const bundle = createPromotion({
+      id: 'promo_bundle',
+      name: 'Newborn starter set',
+      condition: {},
+      action: {
+        type: 'BUNDLE_PRICE',
+        items: [{ productId: 'prod_romper', quantity: 2 }, { productId: 'prod_blanket', quantity: 1 }],
+        price: 75,
+      },
+    });
+
+    const { promotions } = selectPromotions([bundle], starterSet, now);
+    expect(promotions[0].total).toBe(14.48);
+
+    const { nudges } = selectPromotions([bundle], starterSet.slice(0, 1), now);
+    expect(nudges[0].message).toBe('Add 1 more item to unlock Newborn starter set');
+  });
+
+  it('should give a free gift without counting it towards the spend', () => {
+    const gift = createPromotion({
+      id: 'promo_swaddle',
+      name: 'Free swaddle over $75',
+      condition: { minSubtotal: 75 },
+      action: { type: 'FREE_GIFT', variantId: 'var_swaddle', quantity: 1 },
+      giftPrice: 18,
+    });
+
+    // Not in the cart yet, but worth adding
+    const pending = selectPromotions([gift], lines, now).promotions[0];
+    expect(pending).toMatchObject({ giftVariantId: 'var_swaddle', total: 18, lineDiscounts: [] });
+
+    const withGift: PromotionLine[] = [
+      ...lines.slice(0, 1),
+      { id: 'swaddle', productId: 'prod_swaddle', categoryId: 'cat_nursery', unitPrice: 18, quantity: 1, variantId: 'var_swaddle', giftPromotionId: 'promo_swaddle' },
+    ];
+    const { promotions, nudges } = selectPromotions([gift], withGift, now);
+    expect(promotions).toEqual([]);
+    expect(nudges[0].amountNeeded).toBe(25.02);
+  });
+
+  it('should skip promotions that have ended', () => {
+    const { promotions } = selectPromotions([createPromotion({ expiresAt: new Date('2026-03-01T00:00:00Z') })], lines, now);
+    expect(promotions).toEqual([]);
+  });
+});
+
+describe('combineSavings', () => {
+  it('should price a code on what automatic promotions leave', () => {
+    const { promotions } = selectPromotions([createPromotion()], lines, now);
+    const discount = calculateDiscount(
+      createRule({ type: 'FIXED', value: 5, applicableProducts: ['prod_blanket'] }),
+      withPromotionDiscounts(lines, promotions)
+    );
+    const savings = combineSavings(promotions, discount);
+
+    expect(discount.eligibleSubtotal).toBe(33.58);
+    expect(savings.total).toBe(22.92);
+    expect(savings.lineDiscounts.reduce((sum, line) => sum + Math.round(line.amount * 100), 0)).toBe(2292);
+  });
+});
+
+describe('parsePromotionTerms', () => {
+  it('should read stored terms and reject ones that do not parse', () => {
+    expect(parsePromotionTerms({ minSubtotal: 75 }, { type: 'FREE_GIFT', variantId: 'var_swaddle' })).toEqual({
+      condition: { minSubtotal: 75 },
+      action: { type: 'FREE_GIFT', variantId: 'var_swaddle', quantity: 1 },
+    });
+    expect(parsePromotionTerms({}, { type: 'PERCENT_OFF', percent: 150 })).toBeNull();
+    expect(parsePromotionTerms({}, { type: 'MYSTERY_BOX' })).toBeNull();
+  });
+});
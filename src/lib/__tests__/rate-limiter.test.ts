@@ -0,0 +1,103 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import type { RateLimitConfig } from '../rate-limiter/algorithms';
+import { MemoryRateLimitStore, type RateLimitStore } from '../rate-limiter/store';
+import { RedisRateLimitStore } from '../rate-limiter/redis-store';
+import { getRateLimitHeaders } from '../rate-limiter/headers';
+
+// Runs against a real Redis when REDIS_URL is set, otherwise in-process
+const redis = process.env.REDIS_URL ? new Redis(process.env.REDIS_URL) : new RedisMock();
+const testPrefix = `ratelimit-test:${Date.now()}:`;
+
+afterAll(async () => {
+  await redis.quit();
+});
+
+const SLIDING: RateLimitConfig = { maxRequests: 3, windowMs: 60_000, algorithm: 'sliding-window' };
+const BUCKET: RateLimitConfig = { maxRequests: 3, windowMs: 60_000, algorithm: 'token-bucket' };
+
+// Start of a fixed window, so window boundaries are predictable
+const t0 = 1_800_000_000_000 - (1_800_000_000_000 % 60_000);
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['memory', () => new MemoryRateLimitStore()],
+  ['redis', () => new RedisRateLimitStore(redis, testPrefix)],
+];
+
+describe.each(stores)('%s store', (_name, createStore) => {
+  it('should allow up to the limit then report when to retry', async () => {
+    const store = createStore();
+    const key = `sliding:${Math.random()}`;
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push(await store.consume(key, SLIDING, t0 + 1000));
+    }
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0, 0]);
+    // Requests in this window only slide out after the next one
+    expect(decisions[3].retryAfterMs).toBe(59_000 + 20_000);
+  });
+
+  it('should weight the previous window as it slides out', async () => {
+    const store = createStore();
+    const key = `sliding:${Math.random()}`;
+
+    for (let i = 0; i < 3; i++) {
+      await store.consume(key, SLIDING, t0 + 1000);
+    }
+
+    // A quarter into the next window, 3 * 0.75 = 2.25 requests still count
+    const blocked = await store.consume(key, SLIDING, t0 + 75_000);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBe(5_000);
+
+    expect((await store.consume(key, SLIDING, t0 + 80_000)).allowed).toBe(true);
+  });
+
+  it('should refill a token bucket over the window', async () => {
+    const store = createStore();
+    const key = `bucket:${Math.random()}`;
+
+    for (let i = 0; i < 3; i++) {
+      expect((await store.consume(key, BUCKET, t0)).allowed).toBe(true);
+    }
+
+    const empty = await store.consume(key, BUCKET, t0);
+    expect(empty).toEqual({ allowed: false, remaining: 0, resetMs: 60_000, retryAfterMs: 20_000 });
+
+    expect((await store.consume(key, BUCKET, t0 + 20_000)).allowed).toBe(true);
+    expect((await store.consume(key, BUCKET, t0 + 20_000)).allowed).toBe(false);
+  });
+
+  it('should start over after a reset', async () => {
+    const store = createStore();
+    const key = `reset:${Math.random()}`;
+
+    for (let i = 0; i < 3; i++) {
+      await store.consume(key, SLIDING, t0);
+    }
+    await store.reset(key);
+
+    expect((await store.consume(key, SLIDING, t0)).remaining).toBe(2);
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('should describe the policy and add Retry-After when limited', () => {
+    const headers = getRateLimitHeaders(
+      { success: false, limit: 3, remaining: 0, resetAfter: 80, retryAfter: 20, limited: true },
+      SLIDING
+    );
+
+    expect(headers).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '80',
+      'RateLimit-Policy': '3;w=60',
+      'Retry-After': '20',
+    });
+  });
+});
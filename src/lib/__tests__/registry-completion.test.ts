@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { ARCHIVE_AFTER_DAYS, getLifecycleTransition } from '../registry/completion';
+import { toGiftLogCsv, type GiftLogEntry } from '../registry/gift-log';
+
+const now = new Date('2026-06-01T08:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('getLifecycleTransition', () => {
+  it('should complete an active registry once its event date has passed', () => {
+    expect(getLifecycleTransition({ status: 'ACTIVE', eventDate: daysAgo(1), completedAt: null }, now)).toBe(
+      'complete'
+    );
+    expect(getLifecycleTransition({ status: 'ACTIVE', eventDate: daysAgo(-1), completedAt: null }, now)).toBeNull();
+    expect(getLifecycleTransition({ status: 'ACTIVE', eventDate: null, completedAt: null }, now)).toBeNull();
+  });
+
+  it('should leave a registry its owner reopened after completion', () => {
+    expect(
+      getLifecycleTransition({ status: 'ACTIVE', eventDate: daysAgo(30), completedAt: daysAgo(20) }, now)
+    ).toBeNull();
+  });
+
+  it('should pick up registries the owner completed, then archive them later', () => {
+    expect(getLifecycleTransition({ status: 'COMPLETED', eventDate: null, completedAt: null }, now)).toBe(
+      'complete'
+    );
+    expect(
+      getLifecycleTransition({ status: 'COMPLETED', eventDate: null, completedAt: daysAgo(ARCHIVE_AFTER_DAYS - 1) }, now)
+    ).toBeNull();
+    expect(
+      getLifecycleTransition({ status: 'COMPLETED', eventDate: null, completedAt: daysAgo(ARCHIVE_AFTER_DAYS) }, now)
+    ).toBe('archive');
+    expect(getLifecycleTransition({ status: 'ARCHIVED', eventDate: daysAgo(400), completedAt: daysAgo(300) }, now)).toBeNull();
+  });
+});
+
+describe('toGiftLogCsv', () => {
+  const entry: GiftLogEntry = {
+    orderId: 'order1',
+    orderNumber: 'BP-1001',
+    purchasedAt: new Date('2026-05-02T15:30:00Z'),
+    gifterName: 'Aunt Sam',
+    gifterEmail: 'sam@example.com',
+    giftMessage: 'Congrats, "little one"!\nLove, Sam',
+    items: [
+      { productName: 'Sleep Sack', variantName: '0-3M', quantity: 2 },
+      { productName: 'Bibs, 3-pack', variantName: 'Yellow', quantity: 1 },
+    ],
+    thankYouSentAt: new Date('2026-05-10T09:00:00Z'),
+  };
+
+  it('should write one row per gifted item', () => {
+    const lines = toGiftLogCsv([entry]).split('\r\n');
+
+    expect(lines[0]).toBe('Date,Order,From,Email,Item,Option,Quantity,Message,Thank-you sent');
+    expect(lines[1]).toMatch(/^2026-05-02,BP-1001,Aunt Sam,sam@example.com,Sleep Sack,0-3M,2,/);
+    expect(lines).toHaveLength(4);
+  });
+
+  it('should quote commas, quotes and newlines', () => {
+    const csv = toGiftLogCsv([entry]);
+
+    expect(csv).toContain('"Congrats, ""little one""!\nLove, Sam",2026-05-10');
+    expect(csv).toContain(',"Bibs, 3-pack",Yellow,1,');
+  });
+
+  it('should neutralise spreadsheet formulas in gifter-supplied text', () => {
+    const csv = toGiftLogCsv([
+      { ...entry, gifterName: '=HYPERLINK("http://evil.test")', gifterEmail: null, giftMessage: null, thankYouSentAt: null },
+    ]);
+
+    expect(csv).toContain(`,"'=HYPERLINK(""http://evil.test"")",,Sleep Sack,`);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  GIFT_ADDRESS_PLACEHOLDER,
+  claimRegistryItem,
+  getGiftCartRegistryId,
+  maskGiftShippingAddress,
+} from '../registry/gifts';
+import { ConflictError, BadRequestError } from '../errors';
+
+/**
+ * In-memory registry item whose count can be bumped by a "concurrent"
+ * gifter between our read and our write
+ */
+function fakeTx(item: { quantity: number; quantityPurchased: number }, onRead?: () => void) {
+  const tx = {
+    registryItem: {
+      findUnique: vi.fn(async () => {
+        const snapshot = { ...item, productName: 'Sleep Sack' };
+        onRead?.();
+        return snapshot;
+      }),
+      updateMany: vi.fn(async ({ where, data }) => {
+        if (where.quantityPurchased !== item.quantityPurchased) {
+          return { count: 0 };
+        }
+        item.quantityPurchased = data.quantityPurchased;
+        return { count: 1 };
+      }),
+    },
+  };
+  return tx as unknown as Prisma.TransactionClient & typeof tx;
+}
+
+describe('claimRegistryItem', () => {
+  it('should add the gift to the purchased count', async () => {
+    const item = { quantity: 3, quantityPurchased: 1 };
+    await claimRegistryItem(fakeTx(item), 'item1', 2);
+    expect(item.quantityPurchased).toBe(3);
+  });
+
+  it('should retry with the fresh count when another gift lands first', async () => {
+    const item = { quantity: 3, quantityPurchased: 0 };
+    let raced = false;
+    const tx = fakeTx(item, () => {
+      if (!raced) {
+        raced = true;
+        item.quantityPurchased = 1;
+      }
+    });
+
+    await claimRegistryItem(tx, 'item1', 2);
+    expect(item.quantityPurchased).toBe(3);
+    expect(tx.registryItem.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse to over-purchase when a concurrent gift took the rest', async () => {
+    const item = { quantity: 2, quantityPurchased: 0 };
+    let raced = false;
+    const tx = fakeTx(item, () => {
+      if (!raced) {
+        raced = true;
+        item.quantityPurchased = 2;
+      }
+    });
+
+    await expect(claimRegistryItem(tx, 'item1', 1)).rejects.toBeInstanceOf(ConflictError);
+    expect(item.quantityPurchased).toBe(2);
+  });
+});
+
+describe('getGiftCartRegistryId', () => {
+  it('should return null for an ordinary cart', () => {
+    expect(getGiftCartRegistryId([{ registryItemId: null, registryItem: null }])).toBeNull();
+  });
+
+  it('should reject gifts mixed with other items or other registries', () => {
+    const gift = { registryItemId: 'a', registryItem: { registryId: 'r1' } };
+    expect(getGiftCartRegistryId([gift, gift])).toBe('r1');
+    expect(() => getGiftCartRegistryId([gift, { registryItemId: null }])).toThrow(BadRequestError);
+    expect(() =>
+      getGiftCartRegistryId([gift, { registryItemId: 'b', registryItem: { registryId: 'r2' } }])
+    ).toThrow(BadRequestError);
+  });
+});
+
+describe('maskGiftShippingAddress', () => {
+  it('should hide the street, postcode and phone', () => {
+    const masked = maskGiftShippingAddress({
+      firstName: 'Jamie',
+      lastName: 'Rivera',
+      city: 'Portland',
+      state: 'OR',
+      country: 'US',
+    });
+
+    expect(masked).toMatchObject({
+      firstName: 'Jamie',
+      lastName: 'R.',
+      line1: GIFT_ADDRESS_PLACEHOLDER,
+      line2: null,
+      city: 'Portland',
+      zip: '',
+      phone: null,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateCents,
+  calculateReturnRefund,
+  getReturnableQuantities,
+  isWithinReturnWindow,
+} from '../returns/policy';
+
+const order = {
+  subtotal: 100,
+  discountAmount: 10,
+  shippingAmount: 8,
+  taxAmount: 7.2,
+  total: 105.2,
+};
+
+describe('calculateReturnRefund', () => {
+  it('should refund the price less its discount share plus its tax share', () => {
+    const refund = calculateReturnRefund(order, [{ unitPrice: 20, quantity: 2, reason: 'TOO_SMALL' }]);
+    expect(refund).toEqual({
+      items: 40,
+      discount: 4,
+      tax: 2.88,
+      shipping: 0,
+      total: 38.88,
+      lines: [38.88],
+    });
+  });
+
+  it('should refund a shipping share only when every line is our fault', () => {
+    const damaged = calculateReturnRefund(order, [{ unitPrice: 50, quantity: 1, reason: 'DAMAGED' }]);
+    expect(damaged.shipping).toBe(4);
+
+    const mixed = calculateReturnRefund(order, [
+      { unitPrice: 25, quantity: 1, reason: 'DAMAGED' },
+      { unitPrice: 25, quantity: 1, reason: 'CHANGED_MIND' },
+    ]);
+    expect(mixed.shipping).toBe(0);
+  });
+
+  it('should split the total across lines and cap it at what is left unrefunded', () => {
+    const refund = calculateReturnRefund(order, [
+      { unitPrice: 10, quantity: 1, reason: 'TOO_LARGE' },
+      { unitPrice: 20, quantity: 1, reason: 'TOO_LARGE' },
+    ]);
+    expect(refund.lines.reduce((sum, line) => sum + line, 0)).toBeCloseTo(refund.total, 10);
+
+    const capped = calculateReturnRefund(order, [{ unitPrice: 100, quantity: 1, reason: 'DEFECTIVE' }], 100);
+    expect(capped.total).toBe(5.2);
+  });
+});
+
+describe('return policy helpers', () => {
+  it('should allocate every cent', () => {
+    expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateCents(500, [0, 0])).toEqual([500, 0]);
+  });
+
+  it('should subtract earlier returns from returnable quantities', () => {
+    const returnable = getReturnableQuantities(
+      [{ id: 'a', quantity: 3 }, { id: 'b', quantity: 1 }],
+      [{ orderItemId: 'a', quantity: 1 }, { orderItemId: 'b', quantity: 1 }]
+    );
+    expect(returnable.get('a')).toBe(2);
+    expect(returnable.get('b')).toBe(0);
+  });
+
+  it('should close the return window 30 days after delivery', () => {
+    const deliveredAt = new Date('2024-06-01T00:00:00Z');
+    expect(isWithinReturnWindow(deliveredAt, new Date('2024-06-30T00:00:00Z'))).toBe(true);
+    expect(isWithinReturnWindow(deliveredAt, new Date('2024-07-02T00:00:00Z'))).toBe(false);
+    expect(isWithinReturnWindow(null)).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildParcel, parseDimensions } from '../shipping/parcel';
+import { getShippingZone } from '../shipping/zones';
+import { TableCarrierAdapter } from '../shipping/table-carrier';
+import { EasyPostCarrierAdapter, toEasyPostShipment } from '../shipping/easypost';
+import { createEasyPostFixtureFetch } from '../shipping/easypost-fixtures';
+import { getShippingQuoteKey } from '../shipping/quotes';
+import { quoteShipping } from '../shipping';
+import type { CarrierAdapter, CarrierRateRequest, ShippingAddress } from '../shipping/types';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const warehouse: ShippingAddress = { country: 'US', state: 'CA', zip: '94103' };
+const newYork: ShippingAddress = { country: 'US', state: 'NY', zip: '10001' };
+const onesies = { quantity: 2, weight: 0.2, dimensions: { length: 25, width: 20, height: 3 } };
+
+function rateRequest(destination: ShippingAddress = newYork): CarrierRateRequest {
+  return {
+    origin: warehouse,
+    destination,
+    parcel: buildParcel([onesies]),
+    zone: getShippingZone(warehouse, destination),
+  };
+}
+
+const fixtureAdapter = new EasyPostCarrierAdapter({
+  apiKey: 'test_key',
+  baseUrl: 'http://easypost.local',
+  fetch: createEasyPostFixtureFetch(),
+});
+
+const failingAdapter: CarrierAdapter = {
+  name: 'broken',
+  getRates: async () => {
+    throw new Error('carrier down');
+  },
+};
+
+describe('buildParcel', () => {
+  it('should bill the greater of actual and dimensional weight', () => {
+    const parcel = buildParcel([onesies]);
+    expect(parcel.weight).toBe(0.5);
+    expect(parcel.dimensions).toEqual({ length: 25, width: 20, height: 6 });
+    expect(parcel.dimensionalWeight).toBe(0.6);
+    expect(parcel.billableWeight).toBe(0.6);
+    expect(parcel.itemCount).toBe(2);
+  });
+
+  it('should assume a default weight and minimum box for bare variants', () => {
+    const parcel = buildParcel([{ quantity: 3 }]);
+    expect(parcel.weight).toBe(0.85);
+    expect(parcel.dimensions).toEqual({ length: 20, width: 15, height: 5 });
+    expect(parcel.billableWeight).toBe(0.85);
+  });
+
+  it('should parse dimensions stored as JSON strings in inches', () => {
+    expect(parseDimensions('{"length":10,"width":5,"height":2,"unit":"in"}')).toEqual({
+      length: 25.4,
+      width: 12.7,
+      height: 5.08,
+    });
+    expect(parseDimensions('not json')).toBeNull();
+    expect(parseDimensions({ length: 10, width: 0, height: 2 })).toBeNull();
+  });
+});
+
+describe('getShippingZone', () => {
+  it('should zone domestic destinations by state', () => {
+    expect(getShippingZone(warehouse, { country: 'US', state: 'CA' }).id).toBe('US_LOCAL');
+    expect(getShippingZone(warehouse, { country: 'US', state: 'or' }).id).toBe('US_REGIONAL');
+    expect(getShippingZone(warehouse, newYork).id).toBe('US_NATIONAL');
+    expect(getShippingZone(warehouse, { country: 'US', state: 'HI' }).id).toBe('US_REMOTE');
+  });
+
+  it('should zone international destinations by country', () => {
+    expect(getShippingZone(warehouse, { country: 'CA', state: 'ON' }).id).toBe('NORTH_AMERICA');
+    expect(getShippingZone(warehouse, { country: 'GB' }).id).toBe('INTERNATIONAL');
+  });
+});
+
+describe('TableCarrierAdapter', () => {
+  it('should scale the weight rate table by zone', async () => {
+    const rates = await new TableCarrierAdapter().getRates(rateRequest());
+    expect(rates.map((rate) => [rate.serviceLevel, rate.amount])).toEqual([
+      ['standard', 7.19],
+      ['express', 15.59],
+      ['overnight', 29.99],
+    ]);
+  });
+});
+
+describe('EasyPostCarrierAdapter', () => {
+  it('should send parcels in inches and ounces', () => {
+    const body = toEasyPostShipment(rateRequest());
+    expect(body.shipment.parcel).toEqual({ length: 9.8, width: 7.9, height: 2.4, weight: 17.6 });
+    expect(body.shipment.to_address).toMatchObject({ country: 'US', state: 'NY', zip: '10001' });
+  });
+
+  it('should map fixture rates to service levels', async () => {
+    const rates = await fixtureAdapter.getRates(rateRequest());
+    expect(rates).toContainEqual(
+      expect.objectContaining({ carrier: 'USPS', service: 'GroundAdvantage', serviceLevel: 'standard', amount: 8.04 })
+    );
+    expect(rates).toContainEqual(
+      expect.objectContaining({ carrier: 'UPS', service: 'NextDayAir', serviceLevel: 'overnight', amount: 38.28 })
+    );
+  });
+
+  it('should surface API errors', async () => {
+    const unauthorized = new EasyPostCarrierAdapter({
+      apiKey: 'test_key',
+      fetch: (async () => new Response('nope', { status: 401 })) as typeof fetch,
+    });
+    await expect(unauthorized.getRates(rateRequest())).rejects.toThrow('EasyPost request failed (401)');
+  });
+});
+
+describe('quoteShipping', () => {
+  it('should offer the cheapest carrier per service level', async () => {
+    const { options } = await quoteShipping(
+      { items: [onesies], destination: newYork, subtotal: 40, origin: warehouse },
+      [fixtureAdapter]
+    );
+    expect(options.map((option) => [option.id, option.carrier, option.price])).toEqual([
+      ['standard', 'USPS', 8.04],
+      ['express', 'USPS', 14.28],
+      ['overnight', 'UPS', 38.28],
+    ]);
+  });
+
+  it('should make standard shipping free over the threshold', async () => {
+    const { options } = await quoteShipping(
+      { items: [onesies], destination: newYork, subtotal: 80, origin: warehouse },
+      [fixtureAdapter]
+    );
+    expect(options[0]).toMatchObject({ id: 'standard', price: 0, carrierAmount: 8.04 });
+    expect(options[1].price).toBe(14.28);
+  });
+
+  it('should not apply free shipping internationally', async () => {
+    const { options, zone } = await quoteShipping(
+      { items: [onesies], destination: { country: 'GB' }, subtotal: 80, origin: warehouse },
+      [new TableCarrierAdapter()]
+    );
+    expect(zone.id).toBe('INTERNATIONAL');
+    expect(options.map((option) => option.id)).toEqual(['standard', 'express']);
+    expect(options[0].price).toBe(16.47);
+  });
+
+  it('should drop services a zone does not offer', async () => {
+    const { options } = await quoteShipping(
+      { items: [onesies], destination: { country: 'US', state: 'HI' }, subtotal: 40, origin: warehouse },
+      [fixtureAdapter]
+    );
+    expect(options.map((option) => option.id)).toEqual(['standard', 'express']);
+  });
+
+  it('should fall back to the rate table when carriers fail', async () => {
+    const { options } = await quoteShipping(
+      { items: [onesies], destination: newYork, subtotal: 40, origin: warehouse },
+      [failingAdapter]
+    );
+    expect(options[0]).toMatchObject({ carrier: 'table', price: 7.19 });
+  });
+});
+
+describe('getShippingQuoteKey', () => {
+  const items = [
+    { variantId: 'var_a', quantity: 1 },
+    { variantId: 'var_b', quantity: 2 },
+  ];
+
+  it('should ignore item order and ZIP+4 suffixes', () => {
+    expect(getShippingQuoteKey(newYork, items)).toBe(
+      getShippingQuoteKey({ ...newYork, zip: '10001-2345' }, [...items].reverse())
+    );
+  });
+
+  it('should change when quantities or destination change', () => {
+    const key = getShippingQuoteKey(newYork, items);
+    expect(getShippingQuoteKey(newYork, [{ variantId: 'var_a', quantity: 2 }, items[1]])).not.toBe(key);
+    expect(getShippingQuoteKey({ ...newYork, state: 'NJ' }, items)).not.toBe(key);
+  });
+});
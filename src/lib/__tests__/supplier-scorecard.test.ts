@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeSupplierMetrics,
+  scoreSupplier,
+  FLAG_SCORE_THRESHOLD,
+  type ScorecardOrder,
+  type SupplierMetrics,
+} from '../supplier-scorecard/metrics';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const day = (d: number) => new Date(Date.UTC(2026, 1, d, 10));
+
+function order(id: string, overrides: Partial<ScorecardOrder> = {}): ScorecardOrder {
+  return {
+    id,
+    status: 'DELIVERED',
+    placedAt: day(1),
+    shippedAt: day(3),
+    deliveredAt: day(12),
+    estimatedDelivery: day(14),
+    hadIssue: false,
+    items: [{ id: `${id}-item`, supplierId: 'sup-a', quantity: 1, unitCost: 10, listedCost: 10 }],
+    claimItems: [],
+    ...overrides,
+  };
+}
+
+const healthy: SupplierMetrics = {
+  orderCount: 20,
+  shippedCount: 20,
+  deliveredCount: 20,
+  avgHoursToShip: 48,
+  onTimeRate: 1,
+  issueRate: 0,
+  cancellationRate: 0,
+  refundRate: 0,
+  costDriftPercent: 0,
+  refundCount: 0,
+  refundAmount: 0,
+};
+
+describe('computeSupplierMetrics', () => {
+  it('should measure shipping, delivery, issues and cancellations', () => {
+    const metrics = computeSupplierMetrics(
+      'sup-a',
+      [
+        order('o1'),
+        // Delivered a day late
+        order('o2', { deliveredAt: day(15), estimatedDelivery: day(14) }),
+        // Still out after the estimate
+        order('o3', { status: 'SHIPPED', deliveredAt: null, estimatedDelivery: day(20) }),
+        order('o4', { status: 'ISSUE', shippedAt: null, deliveredAt: null }),
+        order('o5', { status: 'CANCELLED', shippedAt: null, deliveredAt: null, hadIssue: true }),
+      ],
+      now
+    );
+
+    expect(metrics).toMatchObject({
+      orderCount: 5,
+      shippedCount: 3,
+      deliveredCount: 2,
+      avgHoursToShip: 48,
+      // o1 on time; o2, o3 and o4 late
+      onTimeRate: 0.25,
+      issueRate: 0.4,
+      cancellationRate: 0.2,
+    });
+  });
+
+  it('should only count the supplier its own lines of a mixed order', () => {
+    const mixed = order('o1', {
+      items: [
+        { id: 'a', supplierId: 'sup-a', quantity: 2, unitCost: 11, listedCost: 10 },
+        { id: 'b', supplierId: 'sup-b', quantity: 1, unitCost: 50, listedCost: 20 },
+      ],
+      claimItems: [
+        { claimId: 'claim-1', dropshipOrderItemId: 'b', refundAmount: 40 },
+      ],
+    });
+
+    const a = computeSupplierMetrics('sup-a', [mixed, order('o2', { items: [] })], now);
+    expect(a).toMatchObject({ orderCount: 1, costDriftPercent: 10, refundCount: 0, refundRate: 0 });
+
+    const b = computeSupplierMetrics('sup-b', [mixed], now);
+    expect(b).toMatchObject({ orderCount: 1, costDriftPercent: 150, refundCount: 1, refundAmount: 40, refundRate: 1 });
+  });
+
+  it('should leave rates empty without orders', () => {
+    expect(computeSupplierMetrics('sup-a', [], now)).toMatchObject({
+      orderCount: 0,
+      avgHoursToShip: null,
+      onTimeRate: null,
+      issueRate: null,
+      costDriftPercent: null,
+    });
+  });
+});
+
+describe('scoreSupplier', () => {
+  it('should give a healthy supplier full marks', () => {
+    expect(scoreSupplier(healthy)).toEqual({ score: 100, flagged: false, reasons: [] });
+  });
+
+  it('should not score suppliers with too few orders', () => {
+    expect(scoreSupplier({ ...healthy, orderCount: 2, onTimeRate: 0 })).toEqual({
+      score: null,
+      flagged: false,
+      reasons: [],
+    });
+  });
+
+  it('should flag a poor supplier with its weakest metrics', () => {
+    const result = scoreSupplier({
+      ...healthy,
+      avgHoursToShip: 240,
+      onTimeRate: 0.4,
+      issueRate: 0.25,
+    });
+
+    expect(result.score).toBeLessThan(FLAG_SCORE_THRESHOLD);
+    expect(result.flagged).toBe(true);
+    expect(result.reasons).toEqual(['Slow to ship', 'Frequent issues', 'Late deliveries']);
+  });
+
+  it('should reweight when metrics have no data', () => {
+    const result = scoreSupplier({ ...healthy, onTimeRate: null, avgHoursToShip: null, costDriftPercent: null });
+    expect(result.score).toBe(100);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { formatSlaDuration, getSlaDueDates, getSlaTimer } from '../support/sla';
+import {
+  extractReplyText,
+  formatTicketSubject,
+  getSupportReplyAddress,
+  getThreadingHeaders,
+  parseEmailHeaders,
+  parseMessageIds,
+  parseReplyToken,
+  parseTicketNumber,
+} from '../support/email';
+
+const HOUR = 60 * 60 * 1000;
+const createdAt = new Date('2024-06-03T09:00:00Z');
+
+function ticket(overrides: Partial<Parameters<typeof getSlaTimer>[0]> = {}) {
+  return {
+    status: 'OPEN' as const,
+    createdAt,
+    ...getSlaDueDates('HIGH', createdAt),
+    firstRespondedAt: null,
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe('getSlaDueDates', () => {
+  it('should set deadlines from the priority targets', () => {
+    const urgent = getSlaDueDates('URGENT', createdAt);
+    expect(urgent.firstResponseDueAt.getTime() - createdAt.getTime()).toBe(1 * HOUR);
+    expect(urgent.resolutionDueAt.getTime() - createdAt.getTime()).toBe(8 * HOUR);
+
+    const low = getSlaDueDates('LOW', createdAt);
+    expect(low.firstResponseDueAt.getTime() - createdAt.getTime()).toBe(48 * HOUR);
+  });
+});
+
+describe('getSlaTimer', () => {
+  it('should run the first-response clock until staff reply', () => {
+    const timer = getSlaTimer(ticket(), new Date(createdAt.getTime() + 1 * HOUR));
+    expect(timer.kind).toBe('first_response');
+    expect(timer.remainingMs).toBe(3 * HOUR);
+    expect(timer.state).toBe('on_track');
+  });
+
+  it('should flag the last quarter of the window and breaches', () => {
+    expect(getSlaTimer(ticket(), new Date(createdAt.getTime() + 3.5 * HOUR)).state).toBe('at_risk');
+    expect(getSlaTimer(ticket(), new Date(createdAt.getTime() + 5 * HOUR)).state).toBe('breached');
+  });
+
+  it('should switch to the resolution clock after the first response', () => {
+    const responded = ticket({ firstRespondedAt: new Date(createdAt.getTime() + HOUR) });
+    const timer = getSlaTimer(responded, new Date(createdAt.getTime() + 5 * HOUR));
+    expect(timer.kind).toBe('resolution');
+    expect(timer.remainingMs).toBe(19 * HOUR);
+  });
+
+  it('should report whether resolved tickets met the SLA', () => {
+    const onTime = ticket({ status: 'RESOLVED', resolvedAt: new Date(createdAt.getTime() + 10 * HOUR) });
+    const late = ticket({ status: 'CLOSED', resolvedAt: new Date(createdAt.getTime() + 30 * HOUR) });
+    expect(getSlaTimer(onTime).state).toBe('met');
+    expect(getSlaTimer(late).state).toBe('breached');
+  });
+
+  it('should format durations for badges', () => {
+    expect(formatSlaDuration(45 * 60 * 1000)).toBe('45m');
+    expect(formatSlaDuration(-(3 * HOUR + 20 * 60 * 1000))).toBe('3h 20m');
+    expect(formatSlaDuration(52 * HOUR)).toBe('2d 4h');
+  });
+});
+
+describe('support email threading', () => {
+  it('should round-trip reply tokens through the reply-to address', () => {
+    const address = getSupportReplyAddress('ckx1token99');
+    expect(address).toMatch(/^support\+ckx1token99@/);
+    expect(parseReplyToken(`"Baby Petite" <${address}>, other@example.com`)).toBe('ckx1token99');
+    expect(parseReplyToken('someone@example.com')).toBeNull();
+  });
+
+  it('should find ticket numbers in reply subjects', () => {
+    const subject = formatTicketSubject('SUP-LZ3K9X2A-7QF2', 'Sizing question', true);
+    expect(subject).toBe('Re: [SUP-LZ3K9X2A-7QF2] Sizing question');
+    expect(parseTicketNumber(`Fwd: ${subject}`)).toBe('SUP-LZ3K9X2A-7QF2');
+    expect(parseTicketNumber('Sizing question')).toBeNull();
+  });
+
+  it('should thread replies under earlier messages', () => {
+    expect(getThreadingHeaders('<c@x>', [])).toEqual({ 'Message-ID': '<c@x>' });
+    expect(getThreadingHeaders('<c@x>', ['<a@x>', '<b@x>'])).toEqual({
+      'Message-ID': '<c@x>',
+      'In-Reply-To': '<b@x>',
+      References: '<a@x> <b@x>',
+    });
+  });
+
+  it('should parse inbound headers and strip quoted text', () => {
+    const headers = parseEmailHeaders(
+      'Message-ID: <reply@mail.example>\r\nReferences: <a@x>\r\n <b@x>\r\nSubject: Re: hi'
+    );
+    expect(parseMessageIds(headers.references)).toEqual(['<a@x>', '<b@x>']);
+    expect(headers['message-id']).toBe('<reply@mail.example>');
+
+    const text = 'Thanks, that fixed it!\n\nOn Mon, 3 Jun 2024 at 10:00, Baby Petite <support@babypetite.com> wrote:\n> Try a size up';
+    expect(extractReplyText(text)).toBe('Thanks, that fixed it!');
+  });
+});
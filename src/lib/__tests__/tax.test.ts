@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { TableTaxProvider, StaticTaxRateSource, resolveJurisdictionRule } from '../tax/table-provider';
+import { TaxJarTaxProvider, toTaxJarRequest } from '../tax/taxjar';
+import { createTaxJarMockFetch } from '../tax/taxjar-mock';
+import { DEFAULT_TAX_RULES, getTaxRate, isExempt, formatTaxRate } from '../tax/rates';
+import type { TaxJurisdictionRule, TaxRequest } from '../tax/types';
+
+const bodysuit = { id: 'line-1', quantity: 2, unitPrice: 25, taxCategory: 'INFANT_CLOTHING' as const };
+const stroller = { id: 'line-2', quantity: 1, unitPrice: 100, taxCategory: 'GENERAL' as const };
+
+function request(overrides: Partial<TaxRequest> = {}): TaxRequest {
+  return {
+    address: { country: 'US', state: 'CA', zip: '94103' },
+    lineItems: [stroller],
+    shipping: 10,
+    ...overrides,
+  };
+}
+
+describe('default rate table', () => {
+  it('should cover every US state plus DC', () => {
+    const states = DEFAULT_TAX_RULES.filter((rule) => rule.country === 'US');
+    expect(states).toHaveLength(51);
+  });
+
+  it('should look up statewide rates', () => {
+    expect(getTaxRate('US', 'CA').rate).toBe(0.0725);
+    expect(getTaxRate('us', 'tx').rate).toBe(0.0625);
+    expect(getTaxRate('US', 'OR').rate).toBe(0);
+  });
+
+  it('should return a zero rule for unknown countries', () => {
+    expect(getTaxRate('ZZ').rate).toBe(0);
+  });
+
+  it('should format rates with decimals', () => {
+    expect(formatTaxRate(0.0725)).toBe('7.25%');
+    expect(formatTaxRate(0.06)).toBe('6%');
+  });
+});
+
+describe('isExempt', () => {
+  const rule = { exemptions: [{ category: 'CLOTHING' as const, maxUnitPrice: 175 }] };
+
+  it('should treat infant clothing as clothing', () => {
+    expect(isExempt(rule, 'INFANT_CLOTHING', 20)).toBe(true);
+  });
+
+  it('should respect per-item price thresholds', () => {
+    expect(isExempt(rule, 'CLOTHING', 200)).toBe(false);
+  });
+
+  it('should not exempt other categories', () => {
+    expect(isExempt(rule, 'GENERAL', 20)).toBe(false);
+  });
+});
+
+describe('resolveJurisdictionRule', () => {
+  const rules: TaxJurisdictionRule[] = [
+    { country: 'US', state: 'CA', name: 'CA', rate: 0.0725, shippingTaxable: false, isIncludedInPrice: false, exemptions: [] },
+    { country: 'US', state: 'CA', zip: '90210', name: 'Beverly Hills', rate: 0.1025, shippingTaxable: false, isIncludedInPrice: false, exemptions: [] },
+  ];
+
+  it('should prefer zip over state', () => {
+    expect(resolveJurisdictionRule(rules, { country: 'US', state: 'CA', zip: '90210-1234' })?.name).toBe('Beverly Hills');
+    expect(resolveJurisdictionRule(rules, { country: 'US', state: 'ca', zip: '94103' })?.name).toBe('CA');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(resolveJurisdictionRule(rules, { country: 'US', state: 'NY' })).toBeNull();
+  });
+});
+
+describe('TableTaxProvider', () => {
+  const provider = new TableTaxProvider(new StaticTaxRateSource());
+
+  it('should not tax shipping where shipping is exempt', async () => {
+    const result = await provider.calculate(request());
+    expect(result.amountToCollect).toBe(7.25);
+    expect(result.shippingTax).toBe(0);
+    expect(result.taxableAmount).toBe(100);
+  });
+
+  it('should tax shipping where shipping is taxable', async () => {
+    const result = await provider.calculate(request({ address: { country: 'US', state: 'TX' } }));
+    expect(result.shippingTaxable).toBe(true);
+    expect(result.amountToCollect).toBe(6.88);
+  });
+
+  it('should exempt infant clothing in clothing-exempt states', async () => {
+    const result = await provider.calculate(
+      request({ address: { country: 'US', state: 'PA' }, lineItems: [bodysuit, stroller], shipping: 0 })
+    );
+    expect(result.lines[0]).toMatchObject({ id: 'line-1', exempt: true, tax: 0 });
+    expect(result.lines[1]).toMatchObject({ id: 'line-2', exempt: false, tax: 6 });
+    expect(result.amountToCollect).toBe(6);
+  });
+
+  it('should apply line discounts before tax', async () => {
+    const result = await provider.calculate(
+      request({ lineItems: [{ ...stroller, discount: 20 }], shipping: 0 })
+    );
+    expect(result.amountToCollect).toBe(5.8);
+  });
+
+  it('should extract VAT from inclusive prices instead of adding it', async () => {
+    const result = await provider.calculate(
+      request({ address: { country: 'GB', zip: 'SW1A 1AA' }, lineItems: [{ ...stroller, unitPrice: 120 }], shipping: 0 })
+    );
+    expect(result.isIncludedInPrice).toBe(true);
+    expect(result.amountToCollect).toBe(0);
+    expect(result.includedTax).toBe(20);
+  });
+
+  it('should collect nothing outside nexus jurisdictions', async () => {
+    const result = await provider.calculate(request({ nexus: [{ country: 'US', state: 'NY' }] }));
+    expect(result.hasNexus).toBe(false);
+    expect(result.amountToCollect).toBe(0);
+  });
+
+  it('should collect inside nexus jurisdictions', async () => {
+    const result = await provider.calculate(request({ nexus: [{ country: 'US', state: 'CA' }] }));
+    expect(result.hasNexus).toBe(true);
+    expect(result.amountToCollect).toBe(7.25);
+  });
+});
+
+describe('TaxJarTaxProvider', () => {
+  const provider = new TaxJarTaxProvider({
+    apiKey: 'test_key',
+    baseUrl: 'http://taxjar.local',
+    fetch: createTaxJarMockFetch(),
+  });
+
+  it('should map requests to the TaxJar contract', () => {
+    const body = toTaxJarRequest(request({ lineItems: [bodysuit] }));
+    expect(body).toMatchObject({
+      to_country: 'US',
+      to_state: 'CA',
+      to_zip: '94103',
+      amount: 50,
+      shipping: 10,
+      line_items: [{ id: 'line-1', quantity: 2, unit_price: 25, product_tax_code: '20010' }],
+    });
+  });
+
+  it('should calculate tax through the mock API', async () => {
+    const result = await provider.calculate(request({ address: { country: 'US', state: 'TX' } }));
+    expect(result.provider).toBe('taxjar');
+    expect(result.amountToCollect).toBe(6.88);
+    expect(result.lines[0].tax).toBe(6.25);
+  });
+
+  it('should honour clothing tax codes', async () => {
+    const result = await provider.calculate(
+      request({ address: { country: 'US', state: 'NJ' }, lineItems: [bodysuit], shipping: 0 })
+    );
+    expect(result.amountToCollect).toBe(0);
+  });
+
+  it('should surface API errors', async () => {
+    const failing = new TaxJarTaxProvider({
+      apiKey: 'test_key',
+      fetch: (async () => new Response('boom', { status: 500 })) as typeof fetch,
+    });
+    await expect(failing.calculate(request())).rejects.toThrow('TaxJar request failed (500)');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  completeTrackingDetails,
+  detectCarrier,
+  parseCarrierName,
+} from '../tracking/carriers';
+import { getStallReason, getTrackingFingerprint, summarizeTracking } from '../tracking/timeline';
+import { SeventeenTrackProvider, signSeventeenTrackWebhook } from '../tracking/seventeen-track';
+import { createSeventeenTrackFake } from '../tracking/seventeen-track-fake';
+import type { TrackingEventInput } from '../tracking/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const start = new Date('2026-03-02T09:00:00Z');
+
+function createProvider(clock: { now: Date }) {
+  return new SeventeenTrackProvider({
+    apiKey: 'test_key',
+    baseUrl: 'http://17track.local',
+    fetch: createSeventeenTrackFake({ now: () => clock.now }),
+  });
+}
+
+describe('detectCarrier', () => {
+  it.each([
+    ['1Z999AA10123456784', 'ups'],
+    ['9400 1000 0000 0000 0000 00', 'usps'],
+    ['EA123456789US', 'usps'],
+    ['123456789012', 'fedex'],
+    ['RB123456789CN', 'china-post'],
+    ['LP00123456789012', 'cainiao'],
+    ['YT2412345678901234', 'yunexpress'],
+  ])('should read %s as %s', (trackingNumber, carrier) => {
+    expect(detectCarrier(trackingNumber)).toBe(carrier);
+  });
+
+  it('should not guess at unknown formats', () => {
+    expect(detectCarrier('ABC123')).toBeNull();
+  });
+});
+
+describe('parseCarrierName', () => {
+  it('should read the names staff and suppliers use', () => {
+    expect(parseCarrierName('AliExpress Standard Shipping')).toBe('cainiao');
+    expect(parseCarrierName('USPS')).toBe('usps');
+    expect(parseCarrierName('ups')).toBe('ups');
+    expect(parseCarrierName('ePacket')).toBe('china-post');
+    expect(parseCarrierName('Royal Mail')).toBeNull();
+  });
+});
+
+describe('completeTrackingDetails', () => {
+  it('should fill in the carrier and tracking link from the number', () => {
+    expect(completeTrackingDetails({ trackingNumber: ' 1z999aa1-0123456784 ' })).toEqual({
+      trackingNumber: '1Z999AA10123456784',
+      carrier: 'UPS',
+      trackingUrl: 'https://www.ups.com/track?tracknum=1Z999AA10123456784',
+    });
+  });
+
+  it('should keep what staff typed', () => {
+    expect(
+      completeTrackingDetails({
+        trackingNumber: 'LP00123456789012',
+        carrier: 'aliexpress',
+        trackingUrl: 'https://example.com/track',
+      })
+    ).toEqual({
+      trackingNumber: 'LP00123456789012',
+      carrier: 'aliexpress',
+      trackingUrl: 'https://example.com/track',
+    });
+  });
+});
+
+describe('summarizeTracking', () => {
+  const scan = (status: TrackingEventInput['status'], hours: number): TrackingEventInput => ({
+    status,
+    description: status,
+    location: null,
+    occurredAt: new Date(start.getTime() + hours * HOUR_MS),
+  });
+
+  it('should take the latest scan and the time of delivery', () => {
+    expect(summarizeTracking([scan('DELIVERED', 70), scan('IN_TRANSIT', 20), scan('INFO_RECEIVED', 0)])).toEqual({
+      status: 'DELIVERED',
+      lastEventAt: new Date(start.getTime() + 70 * HOUR_MS),
+      deliveredAt: new Date(start.getTime() + 70 * HOUR_MS),
+    });
+  });
+
+  it('should give the same scan the same fingerprint however it is worded', () => {
+    const a = scan('IN_TRANSIT', 20);
+    expect(getTrackingFingerprint({ ...a, description: ' In_Transit ' })).toBe(getTrackingFingerprint(a));
+    expect(getTrackingFingerprint(scan('IN_TRANSIT', 21))).not.toBe(getTrackingFingerprint(a));
+  });
+});
+
+describe('getStallReason', () => {
+  const now = new Date(start.getTime() + 12 * DAY_MS);
+
+  it('should allow overseas parcels longer between scans', () => {
+    const lastEventAt = new Date(now.getTime() - 7 * DAY_MS);
+    expect(getStallReason({ carrier: 'usps', trackingStatus: 'IN_TRANSIT', shippedAt: start, lastEventAt }, now))
+      .toBe('No carrier scan in 7 days');
+    expect(getStallReason({ carrier: 'cainiao', trackingStatus: 'IN_TRANSIT', shippedAt: start, lastEventAt }, now))
+      .toBeNull();
+  });
+
+  it('should flag carrier problems straight away', () => {
+    expect(getStallReason({ carrier: 'ups', trackingStatus: 'EXCEPTION', shippedAt: now, lastEventAt: now }, now))
+      .toBe('Carrier reported a problem');
+  });
+
+  it('should count from shipping when the carrier never scanned the parcel', () => {
+    expect(getStallReason({ carrier: null, trackingStatus: null, shippedAt: start, lastEventAt: null }, now))
+      .toBe('No carrier scan since shipping 12 days ago');
+  });
+});
+
+describe('SeventeenTrackProvider with the local fake', () => {
+  it('should register unknown numbers and report scans as the parcel moves', async () => {
+    const clock = { now: start };
+    const provider = createProvider(clock);
+    const request = { trackingNumber: '9400111202555842761523', carrier: 'usps' as const };
+
+    expect(await provider.track([request])).toEqual([]);
+
+    clock.now = new Date(start.getTime() + 30 * HOUR_MS);
+    const [inTransit] = await provider.track([request]);
+    expect(inTransit.carrier).toBe('usps');
+    expect(inTransit.status).toBe('IN_TRANSIT');
+    expect(inTransit.events.map((event) => event.status)).toEqual(['IN_TRANSIT', 'IN_TRANSIT', 'INFO_RECEIVED']);
+
+    clock.now = new Date(start.getTime() + 4 * DAY_MS);
+    const [delivered] = await provider.track([request]);
+    expect(delivered.status).toBe('DELIVERED');
+    expect(summarizeTracking(delivered.events).deliveredAt).toEqual(new Date(start.getTime() + 70 * HOUR_MS));
+  });
+
+  it('should hold parcels ending in 9999 at customs', async () => {
+    const clock = { now: start };
+    const provider = createProvider(clock);
+    const request = { trackingNumber: 'LP00123456789999', carrier: null };
+
+    await provider.track([request]);
+    clock.now = new Date(start.getTime() + 30 * DAY_MS);
+    const [held] = await provider.track([request]);
+
+    expect(held.carrier).toBe('cainiao');
+    expect(held.status).toBe('EXCEPTION');
+  });
+
+  it('should read signed webhooks and reject forged ones', () => {
+    const provider = createProvider({ now: start });
+    const body = JSON.stringify({
+      event: 'TRACKING_UPDATED',
+      data: {
+        number: 'YT2412345678901234',
+        carrier: 190008,
+        track_info: {
+          latest_status: { status: 'Delivered' },
+          tracking: {
+            providers: [
+              {
+                events: [
+                  {
+                    time_iso: '2026-03-12T15:04:00+08:00',
+                    description: 'Delivered to mailbox',
+                    location: 'Austin, TX',
+                    stage: null,
+                    sub_status: 'Delivered_Other',
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    });
+
+    const [result] = provider.parseWebhook(
+      body,
+      new Headers({ sign: signSeventeenTrackWebhook(body, 'test_key') })
+    );
+    expect(result).toMatchObject({ trackingNumber: 'YT2412345678901234', carrier: 'yunexpress', status: 'DELIVERED' });
+    expect(result.events[0]).toMatchObject({
+      status: 'DELIVERED',
+      location: 'Austin, TX',
+      occurredAt: new Date('2026-03-12T07:04:00Z'),
+    });
+
+    expect(() => provider.parseWebhook(body, new Headers({ sign: 'forged' }))).toThrow('Invalid 17TRACK webhook signature');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createUnsubscribeToken,
+  getListUnsubscribeHeaders,
+  getUnsubscribeUrl,
+  verifyUnsubscribeToken,
+} from '../email/unsubscribe';
+import { normalizeTopics } from '../newsletter/topics';
+
+beforeEach(() => {
+  process.env.UNSUBSCRIBE_SECRET = 'test-unsubscribe-secret';
+});
+
+describe('unsubscribe tokens', () => {
+  it('should verify a token for the address it was created for', () => {
+    const token = createUnsubscribeToken('parent@example.com');
+    expect(verifyUnsubscribeToken('parent@example.com', token)).toBe(true);
+  });
+
+  it('should ignore case and surrounding whitespace in the address', () => {
+    const token = createUnsubscribeToken('Parent@Example.com ');
+    expect(verifyUnsubscribeToken('parent@example.com', token)).toBe(true);
+  });
+
+  it('should reject a token for another address, or a missing token', () => {
+    const token = createUnsubscribeToken('parent@example.com');
+    expect(verifyUnsubscribeToken('someone@example.com', token)).toBe(false);
+    expect(verifyUnsubscribeToken('parent@example.com', `${token}x`)).toBe(false);
+    expect(verifyUnsubscribeToken('parent@example.com', null)).toBe(false);
+  });
+});
+
+describe('getListUnsubscribeHeaders', () => {
+  it('should point List-Unsubscribe at the signed URL and enable one-click', () => {
+    const url = getUnsubscribeUrl('parent@example.com', 'newsletter');
+    const headers = getListUnsubscribeHeaders('parent@example.com', 'newsletter');
+
+    expect(headers).toEqual({
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+
+    const params = new URL(url).searchParams;
+    expect(params.get('email')).toBe('parent@example.com');
+    expect(params.get('type')).toBe('newsletter');
+    expect(verifyUnsubscribeToken('parent@example.com', params.get('token'))).toBe(true);
+  });
+});
+
+describe('normalizeTopics', () => {
+  it('should drop unknown and duplicate topics and keep display order', () => {
+    expect(normalizeTopics(['REGISTRY_TIPS', 'BOGUS', 'NEW_ARRIVALS', 'REGISTRY_TIPS'])).toEqual([
+      'NEW_ARRIVALS',
+      'REGISTRY_TIPS',
+    ]);
+  });
+});
@@ -5,6 +5,8 @@ import { prisma } from './prisma';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import crypto from 'crypto';
+import { rateLimiter, LOGIN_RATE_LIMIT } from './rate-limiter';
+import { claimGuestPurchases } from './guest-checkout';
 
 /**
  * NextAuth.js v4 Configuration
@@ -79,6 +81,13 @@ export const authOptions = {
 
           const { email, password } = validatedFields.data;
 
+          // Throttle password guessing per account
+          const rateLimit = await rateLimiter.limit(email.toLowerCase(), LOGIN_RATE_LIMIT);
+          if (rateLimit.limited) {
+            console.error('Authentication rate limited for session');
+            return null;
+          }
+
           // Find user by email
           const user = await prisma.user.findUnique({
             where: { email },
@@ -107,6 +116,8 @@ export const authOptions = {
             return null;
           }
 
+          await rateLimiter.reset(email.toLowerCase(), LOGIN_RATE_LIMIT.prefix);
+
           // Update last login timestamp
           await prisma.user.update({
             where: { id: user.id },
@@ -285,6 +296,13 @@ export const authOptions = {
      */
     async signIn({ user, account, profile }) {
       console.log('User signed in:', user.email, 'via', account?.provider);
+
+      // Pick up guest orders placed with this (verified) email since
+      if (user.id) {
+        await claimGuestPurchases(user.id).catch((error) => {
+          console.error('Error claiming guest orders:', error);
+        });
+      }
     },
 
     /**
@@ -8,6 +8,7 @@
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { sendEmail } from '@/lib/email/service';
+import { getListUnsubscribeHeaders, getUnsubscribeUrl } from '@/lib/email/unsubscribe';
 import {
   CartAbandonmentEmail,
   CartAbandonmentEmail1,
@@ -187,6 +188,7 @@ async function sendAbandonmentEmail(
       cartUrl,
       discountCode: emailNumber === 3 ? cartAbandonmentConfig.discountCode : undefined,
       discountPercent: emailNumber === 3 ? cartAbandonmentConfig.discountPercent || undefined : undefined,
+      unsubscribeUrl: getUnsubscribeUrl(email, 'cart-abandonment'),
     };
 
     // Select the appropriate email component
@@ -202,6 +204,7 @@ async function sendAbandonmentEmail(
       subject: cartAbandonmentSubjects[`email${emailNumber}` as const],
       react: <EmailComponent {...emailProps} />,
       text: generateCartAbandonmentText({ ...emailProps, emailNumber }),
+      headers: getListUnsubscribeHeaders(email, 'cart-abandonment'),
       tags: {
         type: 'cart-abandonment',
         emailNumber: String(emailNumber),
@@ -447,6 +450,7 @@ export async function sendTestEmail(
   );
 
   const cartUrl = `${emailConfig.baseUrl}/cart?test=true`;
+  const unsubscribeUrl = getUnsubscribeUrl(email, 'cart-abandonment');
 
   const EmailComponent = {
     1: CartAbandonmentEmail1,
@@ -465,6 +469,7 @@ export async function sendTestEmail(
         cartUrl={cartUrl}
         discountCode={emailNumber === 3 ? 'TEST10' : undefined}
         discountPercent={emailNumber === 3 ? 10 : undefined}
+        unsubscribeUrl={unsubscribeUrl}
       />
     ),
     text: generateCartAbandonmentText({
@@ -475,7 +480,9 @@ export async function sendTestEmail(
       cartUrl,
       discountCode: emailNumber === 3 ? 'TEST10' : undefined,
       discountPercent: emailNumber === 3 ? 10 : undefined,
+      unsubscribeUrl,
     }),
+    headers: getListUnsubscribeHeaders(email, 'cart-abandonment'),
     tags: {
       type: 'cart-abandonment-test',
       emailNumber: String(emailNumber),
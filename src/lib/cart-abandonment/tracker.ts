@@ -8,6 +8,7 @@
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { cartAbandonmentConfig } from '@/lib/email/config';
+import { isUnsubscribedFromMarketing, unsubscribeFromMarketing } from '@/lib/newsletter/subscriptions';
 
 // ============================================================================
 // TYPES
@@ -262,15 +263,12 @@ export async function markEmailSent(
 
 /**
  * Unsubscribe email from cart abandonment emails
+ *
+ * Uses the shared marketing opt-out, so the newsletter stops too.
  */
 export async function unsubscribeEmail(email: string): Promise<void> {
   try {
-    await prisma.cartAbandonment.updateMany({
-      where: { email },
-      data: { unsubscribed: true },
-    });
-
-    logger.info('Unsubscribed email from cart abandonment', { email });
+    await unsubscribeFromMarketing(email, 'cart-abandonment');
   } catch (error) {
     logger.error('Failed to unsubscribe email', {
       email,
@@ -280,15 +278,11 @@ export async function unsubscribeEmail(email: string): Promise<void> {
 }
 
 /**
- * Check if email is unsubscribed
+ * Check if email is unsubscribed from marketing email
  */
 export async function isEmailUnsubscribed(email: string): Promise<boolean> {
   try {
-    const record = await prisma.cartAbandonment.findFirst({
-      where: { email, unsubscribed: true },
-    });
-
-    return !!record;
+    return await isUnsubscribedFromMarketing(email);
   } catch (error) {
     logger.error('Failed to check unsubscribe status', {
       email,
@@ -0,0 +1,77 @@
+/**
+ * Cron Authorization
+ *
+ * Shared check for `/api/cron/*` routes: Vercel Cron and manual runs send
+ * `Authorization: Bearer $CRON_SECRET`. Without a secret configured, only
+ * development requests are let through.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cronConfig } from '@/lib/email/config';
+import { logger } from '@/lib/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * JSON body every cron route responds with
+ */
+export interface CronResponse<T = { jobId: string }> {
+  success: boolean;
+  message: string;
+  data?: T;
+  error?: string;
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+/**
+ * Verify the cron job request is authorized
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = cronConfig.secret;
+
+  // If no secret is configured, only allow in development
+  if (!cronSecret) {
+    if (process.env.NODE_ENV === 'development') {
+      return true;
+    }
+    logger.warn('Cron job called without secret configuration');
+    return false;
+  }
+
+  // Verify the secret
+  if (authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  // Also check for Vercel's cron header
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  if (vercelCronHeader === 'true' && process.env.VERCEL === '1') {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Log an unauthorized cron attempt and build its 401 response
+ */
+export function unauthorizedCronResponse(request: NextRequest): NextResponse<CronResponse<never>> {
+  logger.warn('Unauthorized cron job attempt', {
+    ip: request.headers.get('x-forwarded-for') || 'unknown',
+  });
+
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Unauthorized',
+      error: 'Invalid or missing authorization',
+    },
+    { status: 401 }
+  );
+}
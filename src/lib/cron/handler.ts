@@ -0,0 +1,62 @@
+/**
+ * Cron Job Handlers
+ *
+ * Most cron routes only queue a background job for the worker to run (see
+ * src/lib/jobs); `createQueueCronHandler` builds that route handler.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueCronJob, type JobType } from '@/lib/jobs';
+import { logger } from '@/lib/logger';
+import { isAuthorizedCronRequest, unauthorizedCronResponse, type CronResponse } from './auth';
+
+/**
+ * Build a GET/POST handler that queues a cron job and answers 202
+ *
+ * @param type - Cron job to queue
+ * @param label - What the job does, e.g. 'Price monitor'; used in the
+ * response message and logs
+ *
+ * @example
+ * const handleRequest = createQueueCronHandler('cron.price-monitor', 'Price monitor');
+ * export { handleRequest as GET, handleRequest as POST };
+ */
+export function createQueueCronHandler(
+  type: Extract<JobType, `cron.${string}`>,
+  label: string
+): (request: NextRequest) => Promise<NextResponse<CronResponse>> {
+  return async (request) => {
+    try {
+      // Check authorization
+      if (!isAuthorizedCronRequest(request)) {
+        return unauthorizedCronResponse(request);
+      }
+
+      const job = await enqueueCronJob(type);
+
+      logger.info(`${label} job queued`, { jobId: job.id });
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${label} queued`,
+          data: { jobId: job.id },
+        },
+        { status: 202 }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error(`Failed to queue ${label.toLowerCase()}`, error as Error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Cron job failed',
+          error: errorMessage,
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
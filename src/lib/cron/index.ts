@@ -0,0 +1,9 @@
+/**
+ * Cron
+ *
+ * Authorization and handlers shared by the `/api/cron/*` routes.
+ */
+
+export { isAuthorizedCronRequest, unauthorizedCronResponse } from './auth';
+export type { CronResponse } from './auth';
+export { createQueueCronHandler } from './handler';
@@ -0,0 +1,83 @@
+/**
+ * CSV Utilities
+ * Reading admin uploads and writing downloadable reports
+ */
+
+// ============================================
+// WRITING
+// ============================================
+
+/**
+ * Quote a CSV field when needed, and defuse spreadsheet formulas
+ */
+export function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render rows as CSV with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// READING
+// ============================================
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields with embedded commas, quotes and line breaks, a
+ * leading byte-order mark and both line ending styles. Blank lines are
+ * dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
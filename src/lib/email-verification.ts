@@ -2,6 +2,7 @@ import { prisma } from './prisma';
 import { generateSecureToken } from './auth-helpers';
 import { sendEmailVerification } from './sendgrid';
 import { markEmailAsVerified } from './auth-helpers';
+import { claimGuestPurchases } from './guest-checkout';
 
 /**
  * Email Verification Logic
@@ -35,6 +36,8 @@ export interface VerifyEmailResult {
   success: boolean;
   message: string;
   userId?: string;
+  /** Guest orders placed with this email, now on the account */
+  claimedOrders?: number;
 }
 
 /**
@@ -256,10 +259,23 @@ export async function verifyEmail(token: string): Promise<VerifyEmailResult> {
 
     console.log(`Email verified successfully for user: ${validation.userId}`);
 
+    // Orders placed as a guest with this email belong to the account now.
+    // The email is verified either way, so a failure here doesn't fail it;
+    // the next sign-in claims them.
+    let claimedOrders = 0;
+    try {
+      ({ orders: claimedOrders } = await claimGuestPurchases(validation.userId));
+    } catch (error) {
+      console.error('Error claiming guest orders:', error);
+    }
+
     return {
       success: true,
-      message: 'Email verified successfully. You can now access all features.',
+      message: claimedOrders > 0
+        ? `Email verified successfully. We've added ${claimedOrders} earlier order${claimedOrders === 1 ? '' : 's'} to your account.`
+        : 'Email verified successfully. You can now access all features.',
       userId: validation.userId,
+      claimedOrders,
     };
   } catch (error) {
     console.error('Error verifying email:', error);
@@ -53,3 +53,25 @@ export {
   RegistryInviteEmail,
   type RegistryInviteProps,
 } from './templates/registry-invite';
+export {
+  RegistryCompletionEmail,
+  type RegistryCompletionEmailProps,
+} from './templates/registry-completion';
+export {
+  SupportTicketEmail,
+  generateSupportTicketText,
+  type SupportTicketEmailProps,
+} from './templates/support-ticket';
+export {
+  NewsletterConfirmationEmail,
+  type NewsletterConfirmationEmailProps,
+} from './templates/newsletter-confirmation';
+
+// Unsubscribe links
+export {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  getUnsubscribeUrl,
+  getListUnsubscribeHeaders,
+  type UnsubscribeType,
+} from './unsubscribe';
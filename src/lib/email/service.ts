@@ -36,6 +36,7 @@ export interface SendEmailOptions {
   attachments?: EmailAttachment[];
   headers?: Record<string, string>;
   tags?: Record<string, string>;
+  replyTo?: string;
 }
 
 export interface SendEmailResult {
@@ -102,6 +103,7 @@ class ResendProvider implements EmailProviderInterface {
         })),
         headers: options.headers,
         tags: options.tags,
+        replyTo: options.replyTo,
       });
 
       if (response.error) {
@@ -185,6 +187,7 @@ class SendGridProvider implements EmailProviderInterface {
           disposition: 'attachment' as const,
         })),
         headers: options.headers,
+        replyTo: options.replyTo,
       };
 
       const response = await sgMail.default.send(msg);
@@ -48,6 +48,8 @@ export interface CartAbandonmentEmailProps {
   cartUrl: string;
   discountCode?: string;
   discountPercent?: number;
+  /** Signed link from `getUnsubscribeUrl` */
+  unsubscribeUrl?: string;
   reviews?: Array<{
     author: string;
     rating: number;
@@ -149,6 +151,7 @@ export function CartAbandonmentEmail({
   cartUrl,
   discountCode,
   discountPercent,
+  unsubscribeUrl,
   reviews = defaultReviews,
 }: CartAbandonmentEmailProps) {
   const content = getEmailContent(emailNumber, customerName);
@@ -169,11 +172,6 @@ export function CartAbandonmentEmail({
     total = subtotal - discount + shipping + tax;
   }
 
-  // Generate unsubscribe URL
-  const unsubscribeUrl = `${emailConfig.baseUrl}/api/email/unsubscribe?email=${encodeURIComponent(
-    customerName || ''
-  )}&type=cart-abandonment`;
-
   return (
     <EmailLayout preview={content.preview}>
       <EmailContainer>
@@ -356,8 +354,10 @@ export function generateCartAbandonmentText(
   lines.push('');
   lines.push('Baby Petite — Quality clothing for your little ones');
   lines.push(`Support: ${emailConfig.supportEmail}`);
-  lines.push('');
-  lines.push(`Unsubscribe: ${emailConfig.baseUrl}/api/email/unsubscribe`);
+  if (props.unsubscribeUrl) {
+    lines.push('');
+    lines.push(`Unsubscribe: ${props.unsubscribeUrl}`);
+  }
 
   return lines.join('\n');
 }
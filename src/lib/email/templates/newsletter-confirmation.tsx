@@ -0,0 +1,86 @@
+/**
+ * Newsletter Confirmation Email Template
+ *
+ * Double opt-in email sent when someone subscribes to the newsletter. The
+ * subscription stays pending until the confirmation link is clicked.
+ */
+
+import * as React from 'react';
+import {
+  EmailLayout,
+  EmailContainer,
+  EmailHeader,
+  EmailSection,
+  EmailHeading,
+  EmailText,
+  EmailButton,
+  Divider,
+  brandColors,
+} from './components';
+import { emailConfig } from '../config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NewsletterConfirmationEmailProps {
+  confirmUrl: string;
+  /** Labels of the topics the subscriber chose */
+  topics: string[];
+  /** Hours until the confirmation link expires */
+  expiresInHours: number;
+}
+
+// ============================================================================
+// EMAIL TEMPLATE COMPONENT
+// ============================================================================
+
+export function NewsletterConfirmationEmail({
+  confirmUrl,
+  topics,
+  expiresInHours,
+}: NewsletterConfirmationEmailProps) {
+  return (
+    <EmailLayout preview="Please confirm your Baby Petite newsletter subscription">
+      <EmailContainer>
+        <EmailHeader />
+
+        <EmailSection padding="32px 40px">
+          <EmailHeading level={2} align="left">
+            Confirm your subscription
+          </EmailHeading>
+          <EmailText>
+            Thanks for signing up to the Baby Petite newsletter! Please confirm your
+            email address so we can start sending you:
+          </EmailText>
+          {topics.map((topic) => (
+            <EmailText key={topic}>• {topic}</EmailText>
+          ))}
+        </EmailSection>
+
+        <EmailSection padding="0 40px 32px">
+          <EmailButton href={confirmUrl} fullWidth>
+            Confirm Subscription
+          </EmailButton>
+        </EmailSection>
+
+        <Divider />
+
+        <EmailSection padding="24px 40px" backgroundColor={brandColors.background}>
+          <EmailText align="center" color={brandColors.textLight} size="sm">
+            This link expires in {expiresInHours} hours. If you didn&apos;t sign up, you can
+            ignore this email and you won&apos;t be subscribed. Questions? Contact us at{' '}
+            <a
+              href={`mailto:${emailConfig.supportEmail}`}
+              style={{ color: brandColors.primary, textDecoration: 'underline' }}
+            >
+              {emailConfig.supportEmail}
+            </a>
+          </EmailText>
+        </EmailSection>
+      </EmailContainer>
+    </EmailLayout>
+  );
+}
+
+export default NewsletterConfirmationEmail;
@@ -0,0 +1,116 @@
+/**
+ * Registry Completion Email Template
+ *
+ * Sent to a registrant once their event date has passed, with a single-use
+ * discount code for the registry items that weren't gifted.
+ */
+
+import * as React from 'react';
+import {
+  EmailLayout,
+  EmailContainer,
+  EmailHeader,
+  EmailSection,
+  EmailHeading,
+  EmailText,
+  EmailButton,
+  Divider,
+  brandColors,
+} from './components';
+import { emailConfig } from '../config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RegistryCompletionEmailProps {
+  firstName?: string | null;
+  registryName: string;
+  /** Single-use discount code for the remaining items */
+  discountCode: string;
+  discountPercent: number;
+  expiresAt: Date;
+  /** Names of the items still unpurchased */
+  remainingItems: string[];
+  /** Link to the registry's manage page */
+  manageUrl: string;
+}
+
+// ============================================================================
+// EMAIL TEMPLATE COMPONENT
+// ============================================================================
+
+export function RegistryCompletionEmail({
+  firstName,
+  registryName,
+  discountCode,
+  discountPercent,
+  expiresAt,
+  remainingItems,
+  manageUrl,
+}: RegistryCompletionEmailProps) {
+  const expiry = expiresAt.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  return (
+    <EmailLayout preview={`${discountPercent}% off the rest of your ${registryName} registry`}>
+      <EmailContainer>
+        <EmailHeader />
+
+        <EmailSection padding="32px 40px">
+          <EmailHeading level={2} align="left">
+            {firstName ? `Congratulations, ${firstName}!` : 'Congratulations!'}
+          </EmailHeading>
+          <EmailText>
+            Your big day has come and gone. To help you finish {registryName}, here&apos;s{' '}
+            {discountPercent}% off the items that weren&apos;t gifted:
+          </EmailText>
+          {remainingItems.map((item) => (
+            <EmailText key={item}>• {item}</EmailText>
+          ))}
+        </EmailSection>
+
+        <EmailSection padding="0 40px 24px" backgroundColor={brandColors.background}>
+          <EmailText align="center" size="sm" color={brandColors.textLight}>
+            Your code
+          </EmailText>
+          <EmailHeading level={2} align="center">
+            {discountCode}
+          </EmailHeading>
+          <EmailText align="center" size="sm" color={brandColors.textLight}>
+            Use it once, by {expiry}
+          </EmailText>
+        </EmailSection>
+
+        <EmailSection padding="24px 40px 32px">
+          <EmailText>
+            You can also see who sent each gift and keep track of your thank-you notes on your
+            registry page.
+          </EmailText>
+          <EmailButton href={manageUrl} fullWidth>
+            View Gift Log
+          </EmailButton>
+        </EmailSection>
+
+        <Divider />
+
+        <EmailSection padding="24px 40px" backgroundColor={brandColors.background}>
+          <EmailText align="center" color={brandColors.textLight} size="sm">
+            Questions? Contact us at{' '}
+            <a
+              href={`mailto:${emailConfig.supportEmail}`}
+              style={{ color: brandColors.primary, textDecoration: 'underline' }}
+            >
+              {emailConfig.supportEmail}
+            </a>
+          </EmailText>
+        </EmailSection>
+      </EmailContainer>
+    </EmailLayout>
+  );
+}
+
+export default RegistryCompletionEmail;
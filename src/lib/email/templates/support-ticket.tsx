@@ -0,0 +1,133 @@
+/**
+ * Support Ticket Email Template
+ *
+ * Sent to the customer when a support ticket is opened and whenever staff
+ * reply. Customers answer by replying to the email; the reply-to address
+ * routes their message back into the ticket thread.
+ */
+
+import * as React from 'react';
+import {
+  EmailLayout,
+  EmailContainer,
+  EmailHeader,
+  EmailSection,
+  EmailHeading,
+  EmailText,
+  Divider,
+  brandColors,
+} from './components';
+import { emailConfig } from '../config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SupportTicketEmailProps {
+  kind: 'received' | 'reply';
+  ticketNumber: string;
+  subject: string;
+  customerName?: string | null;
+  /** The customer's original message, or the staff reply */
+  message: string;
+  staffName?: string | null;
+  supportEmail?: string;
+}
+
+// ============================================================================
+// EMAIL TEMPLATE COMPONENT
+// ============================================================================
+
+export function SupportTicketEmail({
+  kind,
+  ticketNumber,
+  subject,
+  customerName,
+  message,
+  staffName,
+  supportEmail = emailConfig.supportEmail,
+}: SupportTicketEmailProps) {
+  const name = customerName || 'there';
+  const isReply = kind === 'reply';
+
+  return (
+    <EmailLayout
+      preview={isReply ? `New reply on ticket ${ticketNumber}` : `We received your request (${ticketNumber})`}
+    >
+      <EmailContainer>
+        <EmailHeader />
+
+        <EmailSection padding="32px 40px">
+          <EmailHeading level={2} align="left">
+            {isReply ? 'We replied to your request' : "We've got your message"}
+          </EmailHeading>
+          <EmailText>Hi {name},</EmailText>
+          <EmailText>
+            {isReply
+              ? `${staffName || 'Our support team'} replied to your request "${subject}".`
+              : `Thanks for reaching out. Your request "${subject}" has been logged and our team will get back to you shortly.`}
+          </EmailText>
+          <EmailText size="sm" color={brandColors.textLight}>
+            Ticket reference: <strong>{ticketNumber}</strong>
+          </EmailText>
+        </EmailSection>
+
+        <Divider />
+
+        <EmailSection padding="24px 40px">
+          <EmailText size="sm" color={brandColors.textLight}>
+            {isReply ? staffName || 'Baby Petite Support' : 'Your message'}
+          </EmailText>
+          {message.split(/\n{2,}/).map((paragraph, index) => (
+            <EmailText key={index}>{paragraph}</EmailText>
+          ))}
+        </EmailSection>
+
+        <Divider />
+
+        <EmailSection padding="24px 40px" backgroundColor={brandColors.background}>
+          <EmailText align="center" color={brandColors.textLight} size="sm">
+            Simply reply to this email to add to your ticket. Please keep the ticket
+            reference in the subject line. You can also reach us at{' '}
+            <a
+              href={`mailto:${supportEmail}`}
+              style={{ color: brandColors.primary, textDecoration: 'underline' }}
+            >
+              {supportEmail}
+            </a>
+          </EmailText>
+        </EmailSection>
+      </EmailContainer>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// TEXT VERSION GENERATOR
+// ============================================================================
+
+/**
+ * Generate plain text version of the email
+ */
+export function generateSupportTicketText(props: SupportTicketEmailProps): string {
+  const supportEmail = props.supportEmail || emailConfig.supportEmail;
+  const lines: string[] = [`Hi ${props.customerName || 'there'},`, ''];
+
+  if (props.kind === 'reply') {
+    lines.push(`${props.staffName || 'Our support team'} replied to your request "${props.subject}":`);
+  } else {
+    lines.push(`Thanks for reaching out. Your request "${props.subject}" has been logged and our team will get back to you shortly.`);
+    lines.push('', 'Your message:');
+  }
+
+  lines.push(
+    '',
+    props.message,
+    '',
+    `Ticket reference: ${props.ticketNumber}`,
+    '',
+    `Reply to this email to add to your ticket, or contact us at ${supportEmail}.`
+  );
+
+  return lines.join('\n');
+}
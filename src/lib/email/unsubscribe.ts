@@ -0,0 +1,87 @@
+/**
+ * Email Unsubscribe Links
+ *
+ * Signed unsubscribe links for marketing emails. The token is an HMAC of the
+ * email address, so a link can only unsubscribe the address it was sent to.
+ * Every marketing email should also carry the RFC 8058 List-Unsubscribe
+ * headers so mail clients can offer one-click unsubscribe.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { emailConfig } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Which kind of marketing email the link came from. All types share one
+ * opt-out; the type is only recorded for reporting.
+ */
+export type UnsubscribeType = 'newsletter' | 'cart-abandonment';
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET or NEXTAUTH_SECRET must be set to sign unsubscribe links');
+  }
+  return secret;
+}
+
+/**
+ * Create the unsubscribe token for an email address
+ */
+export function createUnsubscribeToken(email: string): string {
+  return createHmac('sha256', getUnsubscribeSecret())
+    .update(email.trim().toLowerCase())
+    .digest('base64url');
+}
+
+/**
+ * Check an unsubscribe token against an email address
+ */
+export function verifyUnsubscribeToken(email: string, token: string | null | undefined): boolean {
+  if (!token) {
+    return false;
+  }
+
+  const expected = Buffer.from(createUnsubscribeToken(email));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================================================
+// LINKS & HEADERS
+// ============================================================================
+
+/**
+ * Build the signed unsubscribe URL for an email address
+ */
+export function getUnsubscribeUrl(email: string, type: UnsubscribeType): string {
+  const params = new URLSearchParams({
+    email: email.trim().toLowerCase(),
+    type,
+    token: createUnsubscribeToken(email),
+  });
+
+  return `${emailConfig.baseUrl}/api/email/unsubscribe?${params.toString()}`;
+}
+
+/**
+ * Build the List-Unsubscribe headers for a marketing email (RFC 2369 and
+ * RFC 8058). Mail clients POST `List-Unsubscribe=One-Click` to the URL.
+ */
+export function getListUnsubscribeHeaders(
+  email: string,
+  type: UnsubscribeType
+): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${getUnsubscribeUrl(email, type)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
@@ -96,6 +96,11 @@ const envSchema = z.object({
   // Google Maps (Optional - Address Autocomplete)
   // ===========================================
   NEXT_PUBLIC_GOOGLE_MAPS_API_KEY: z.string().optional(),
+
+  // ===========================================
+  // Redis (Optional - Shared Rate Limits)
+  // ===========================================
+  REDIS_URL: z.string().url().optional(),
 });
 
 /**
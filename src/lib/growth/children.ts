@@ -0,0 +1,134 @@
+/**
+ * Child Profiles
+ *
+ * Growth entries used to be keyed by registry, with the child's name,
+ * birth date and sex copied onto every row, so siblings shared one growth
+ * history. Entries now belong to a `Child`. Legacy entries are moved onto
+ * children the first time their owner's children are listed, one child per
+ * distinct name.
+ */
+
+import type { ChildSex } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A growth entry recorded before child profiles
+ */
+export interface LegacyGrowthEntry {
+  id: string;
+  childName: string | null;
+  childBirthDate: Date | null;
+  childSex: ChildSex | null;
+  recordedAt: Date;
+}
+
+/**
+ * A child pieced together from legacy growth entries
+ */
+export interface LegacyChild {
+  name: string;
+  birthDate: Date | null;
+  sex: ChildSex | null;
+  entryIds: string[];
+}
+
+// ============================================
+// LEGACY ENTRIES
+// ============================================
+
+/**
+ * Group legacy entries into children by name
+ *
+ * Birth date and sex come from the most recent entry that recorded them.
+ *
+ * @param fallback - Name and birth date for entries without them (the registry's)
+ */
+export function groupLegacyEntries(
+  entries: LegacyGrowthEntry[],
+  fallback: { name: string; birthDate: Date | null }
+): LegacyChild[] {
+  const newestFirst = [...entries].sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+  const children = new Map<string, LegacyChild>();
+
+  for (const entry of newestFirst) {
+    const name = entry.childName?.trim() || fallback.name;
+    const key = name.toLowerCase();
+
+    let child = children.get(key);
+    if (!child) {
+      child = { name, birthDate: null, sex: null, entryIds: [] };
+      children.set(key, child);
+    }
+
+    child.entryIds.push(entry.id);
+    child.birthDate ??= entry.childBirthDate;
+    child.sex ??= entry.childSex;
+  }
+
+  return Array.from(children.values()).map((child) => ({
+    ...child,
+    birthDate: child.birthDate ?? fallback.birthDate,
+  }));
+}
+
+/**
+ * Move a user's legacy registry growth entries onto child profiles
+ *
+ * Safe to run concurrently: entries are only claimed while they still have
+ * no child, and a child that claimed nothing is removed again.
+ *
+ * @returns Number of children created
+ */
+export async function adoptLegacyGrowthEntries(userId: string): Promise<number> {
+  const registry = await prisma.registry.findUnique({
+    where: { userId },
+    select: {
+      name: true,
+      eventDate: true,
+      growthEntries: {
+        where: { childId: null },
+        select: { id: true, childName: true, childBirthDate: true, childSex: true, recordedAt: true },
+      },
+    },
+  });
+
+  if (!registry || registry.growthEntries.length === 0) {
+    return 0;
+  }
+
+  const legacyChildren = groupLegacyEntries(registry.growthEntries, {
+    name: registry.name,
+    birthDate: registry.eventDate,
+  });
+
+  let created = 0;
+  for (const legacy of legacyChildren) {
+    await prisma.$transaction(async (tx) => {
+      const child = await tx.child.create({
+        data: {
+          userId,
+          name: legacy.name,
+          birthDate: legacy.birthDate,
+          sex: legacy.sex,
+        },
+      });
+
+      const claimed = await tx.growthEntry.updateMany({
+        where: { id: { in: legacy.entryIds }, childId: null },
+        data: { childId: child.id },
+      });
+
+      if (claimed.count === 0) {
+        await tx.child.delete({ where: { id: child.id } });
+      } else {
+        created++;
+      }
+    });
+  }
+
+  return created;
+}
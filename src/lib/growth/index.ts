@@ -0,0 +1,52 @@
+/**
+ * Growth
+ *
+ * Deterministic growth-chart engine behind size predictions: WHO
+ * (0–24 months) and CDC (24–60 months) percentiles, growth projection from
+ * a child's measurement history and mapping to our size chart. Also moves
+ * registry-keyed growth entries onto child profiles.
+ */
+
+export {
+  WHO_LMS,
+  CDC_LMS,
+  WHO_MAX_AGE_MONTHS,
+  CHART_MAX_AGE_MONTHS,
+} from './charts';
+export type { GrowthMeasurement, GrowthChartSource, LmsRow, LmsTables } from './charts';
+
+export {
+  DAYS_PER_MONTH,
+  getAgeInMonths,
+  getChartSource,
+  getLmsParameters,
+  lmsToZScore,
+  zScoreToValue,
+  zScoreToPercentile,
+  getGrowthPercentile,
+  getMeasurementAtZScore,
+} from './percentiles';
+export type { LmsParameters, GrowthPercentile } from './percentiles';
+
+export { projectGrowth } from './projection';
+export type { GrowthEntryInput, ProjectedMeasurements, GrowthProjection } from './projection';
+
+export {
+  CM_PER_INCH,
+  LB_PER_KG,
+  inchesToCm,
+  cmToInches,
+  poundsToKg,
+  kgToPounds,
+} from './units';
+
+export {
+  getClothingSize,
+  getShoeSize,
+  getDiaperSize,
+  getSizesForMeasurements,
+} from './sizes';
+export type { ChartSizes } from './sizes';
+
+export { groupLegacyEntries, adoptLegacyGrowthEntries } from './children';
+export type { LegacyGrowthEntry, LegacyChild } from './children';
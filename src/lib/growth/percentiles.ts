@@ -0,0 +1,240 @@
+/**
+ * Growth Percentiles
+ *
+ * Z-scores and percentiles for height, weight and head circumference from
+ * the WHO/CDC LMS tables in `./charts`. Everything here is pure and
+ * deterministic, so the same measurements always give the same result.
+ *
+ * When a child's sex isn't known we average the boys' and girls' charts.
+ */
+
+import type { ChildSex } from '@prisma/client';
+import {
+  CDC_LMS,
+  CHART_MAX_AGE_MONTHS,
+  WHO_LMS,
+  WHO_MAX_AGE_MONTHS,
+  type GrowthChartSource,
+  type GrowthMeasurement,
+  type LmsRow,
+} from './charts';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Average days per month, as used by the WHO tables
+ */
+export const DAYS_PER_MONTH = 30.4375;
+
+const BOTH_SEXES: ChildSex[] = ['MALE', 'FEMALE'];
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * LMS parameters at a given age
+ */
+export interface LmsParameters {
+  L: number;
+  M: number;
+  S: number;
+}
+
+/**
+ * Where a measurement sits on the growth chart
+ */
+export interface GrowthPercentile {
+  value: number;
+  zScore: number;
+  /** 0–100, one decimal place */
+  percentile: number;
+  chart: GrowthChartSource;
+}
+
+// ============================================
+// AGE
+// ============================================
+
+/**
+ * Age in (fractional) months on a given date
+ */
+export function getAgeInMonths(birthDate: Date, on: Date = new Date()): number {
+  const days = (on.getTime() - birthDate.getTime()) / (24 * 60 * 60 * 1000);
+  return days / DAYS_PER_MONTH;
+}
+
+/**
+ * Which chart covers an age, or null if none does
+ */
+export function getChartSource(
+  measurement: GrowthMeasurement,
+  ageMonths: number
+): GrowthChartSource | null {
+  if (ageMonths < 0) {
+    return null;
+  }
+  if (ageMonths <= WHO_MAX_AGE_MONTHS) {
+    return 'WHO';
+  }
+  if (ageMonths <= CHART_MAX_AGE_MONTHS && measurement !== 'headCircumference') {
+    return 'CDC';
+  }
+  return null;
+}
+
+// ============================================
+// LMS
+// ============================================
+
+function interpolateRows(rows: readonly LmsRow[], ageMonths: number): LmsParameters | null {
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  if (!first || ageMonths < first[0] || ageMonths > last[0]) {
+    return null;
+  }
+
+  for (let i = 0; i < rows.length - 1; i++) {
+    const [age0, L0, M0, S0] = rows[i];
+    const [age1, L1, M1, S1] = rows[i + 1];
+    if (ageMonths <= age1) {
+      const t = (ageMonths - age0) / (age1 - age0);
+      return {
+        L: L0 + (L1 - L0) * t,
+        M: M0 + (M1 - M0) * t,
+        S: S0 + (S1 - S0) * t,
+      };
+    }
+  }
+
+  return { L: last[1], M: last[2], S: last[3] };
+}
+
+/**
+ * LMS parameters for a measurement at an age, interpolated between rows
+ *
+ * @returns Null if no chart covers the age
+ */
+export function getLmsParameters(
+  measurement: GrowthMeasurement,
+  sex: ChildSex,
+  ageMonths: number
+): LmsParameters | null {
+  const source = getChartSource(measurement, ageMonths);
+  if (!source) {
+    return null;
+  }
+
+  const rows = (source === 'WHO' ? WHO_LMS : CDC_LMS)[measurement][sex];
+  return rows ? interpolateRows(rows, ageMonths) : null;
+}
+
+/**
+ * Z-score of a measurement given its LMS parameters
+ */
+export function lmsToZScore(value: number, { L, M, S }: LmsParameters): number {
+  if (Math.abs(L) < 1e-6) {
+    return Math.log(value / M) / S;
+  }
+  return (Math.pow(value / M, L) - 1) / (L * S);
+}
+
+/**
+ * Measurement at a given z-score; the inverse of `lmsToZScore`
+ */
+export function zScoreToValue(zScore: number, { L, M, S }: LmsParameters): number {
+  if (Math.abs(L) < 1e-6) {
+    return M * Math.exp(S * zScore);
+  }
+  return M * Math.pow(1 + L * S * zScore, 1 / L);
+}
+
+// ============================================
+// NORMAL DISTRIBUTION
+// ============================================
+
+/**
+ * Error function (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+ */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-ax * ax));
+}
+
+/**
+ * Percentile (0–100) for a z-score
+ */
+export function zScoreToPercentile(zScore: number): number {
+  return 50 * (1 + erf(zScore / Math.SQRT2));
+}
+
+// ============================================
+// PERCENTILES
+// ============================================
+
+/**
+ * Where a measurement sits on the growth chart for the child's age and sex
+ *
+ * @param sex - Null to average the boys' and girls' charts
+ * @returns Null if no chart covers the age
+ */
+export function getGrowthPercentile(
+  measurement: GrowthMeasurement,
+  value: number,
+  ageMonths: number,
+  sex: ChildSex | null
+): GrowthPercentile | null {
+  const chart = getChartSource(measurement, ageMonths);
+  if (!chart || !(value > 0)) {
+    return null;
+  }
+
+  const zScores: number[] = [];
+  for (const chartSex of sex ? [sex] : BOTH_SEXES) {
+    const lms = getLmsParameters(measurement, chartSex, ageMonths);
+    if (lms) {
+      zScores.push(lmsToZScore(value, lms));
+    }
+  }
+  if (zScores.length === 0) {
+    return null;
+  }
+
+  const zScore = zScores.reduce((sum, z) => sum + z, 0) / zScores.length;
+
+  return {
+    value,
+    zScore: Math.round(zScore * 100) / 100,
+    percentile: Math.round(zScoreToPercentile(zScore) * 10) / 10,
+    chart,
+  };
+}
+
+/**
+ * Measurement at a z-score for the child's age and sex
+ *
+ * @param sex - Null to average the boys' and girls' charts
+ * @returns Null if no chart covers the age
+ */
+export function getMeasurementAtZScore(
+  measurement: GrowthMeasurement,
+  zScore: number,
+  ageMonths: number,
+  sex: ChildSex | null
+): number | null {
+  const values: number[] = [];
+  for (const chartSex of sex ? [sex] : BOTH_SEXES) {
+    const lms = getLmsParameters(measurement, chartSex, ageMonths);
+    if (lms) {
+      values.push(zScoreToValue(zScore, lms));
+    }
+  }
+
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
@@ -0,0 +1,258 @@
+/**
+ * Growth Projection
+ *
+ * Projects a child's measurements forward from their `GrowthEntry`
+ * history. Children tend to track along a percentile, so we project the
+ * z-score rather than the raw measurement: the latest z-score, plus its
+ * recent trend (how fast the child is crossing percentiles), converted
+ * back to centimetres and kilograms with the chart for the target age.
+ *
+ * Measurements that were never recorded are projected along the median.
+ */
+
+import type { ChildSex } from '@prisma/client';
+import { CHART_MAX_AGE_MONTHS, type GrowthChartSource, type GrowthMeasurement } from './charts';
+import {
+  getAgeInMonths,
+  getChartSource,
+  getGrowthPercentile,
+  getMeasurementAtZScore,
+  type GrowthPercentile,
+} from './percentiles';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MEASUREMENTS: GrowthMeasurement[] = ['height', 'weight', 'headCircumference'];
+
+/**
+ * Only entries from this many months before the latest one set the trend
+ */
+const TREND_WINDOW_MONTHS = 6;
+
+/**
+ * Entries closer together than this are too noisy to give a trend
+ */
+const MIN_TREND_SPAN_MONTHS = 0.5;
+
+/**
+ * Cap on how fast a projection may cross percentiles (z-score per month)
+ */
+const MAX_Z_TREND_PER_MONTH = 0.1;
+
+/**
+ * Projections never go further than this from the median
+ */
+const MAX_PROJECTED_Z = 3;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One recorded set of measurements
+ */
+export interface GrowthEntryInput {
+  recordedAt: Date;
+  height?: number | null;
+  weight?: number | null;
+  headCircumference?: number | null;
+}
+
+/**
+ * Projected measurements at a future age
+ */
+export interface ProjectedMeasurements {
+  ageMonths: number;
+  height: number;
+  weight: number;
+  /** Null past the age head circumference is charted to */
+  headCircumference: number | null;
+}
+
+/**
+ * A child's growth, now and projected
+ */
+export interface GrowthProjection {
+  ageMonths: number;
+  chart: GrowthChartSource;
+  /** Latest recorded value of each measurement, on the chart */
+  current: Record<GrowthMeasurement, GrowthPercentile | null>;
+  /** Recent growth per month, in cm or kg */
+  velocity: Record<GrowthMeasurement, number | null>;
+  projections: ProjectedMeasurements[];
+  /** Measurements never recorded, so projected along the median */
+  assumedMedian: GrowthMeasurement[];
+}
+
+interface ChartedPoint {
+  ageMonths: number;
+  value: number;
+  zScore: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Least-squares slope of y against x
+ */
+function slope(points: Array<{ x: number; y: number }>): number {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (const p of points) {
+    numerator += (p.x - meanX) * (p.y - meanY);
+    denominator += (p.x - meanX) ** 2;
+  }
+
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Chart every recorded value of a measurement, oldest first
+ */
+function chartHistory(
+  measurement: GrowthMeasurement,
+  entries: GrowthEntryInput[],
+  birthDate: Date,
+  sex: ChildSex | null
+): ChartedPoint[] {
+  const points: ChartedPoint[] = [];
+
+  for (const entry of entries) {
+    const value = entry[measurement];
+    if (value == null) {
+      continue;
+    }
+
+    const ageMonths = getAgeInMonths(birthDate, entry.recordedAt);
+    const charted = getGrowthPercentile(measurement, value, ageMonths, sex);
+    if (charted) {
+      points.push({ ageMonths, value, zScore: charted.zScore });
+    }
+  }
+
+  return points.sort((a, b) => a.ageMonths - b.ageMonths);
+}
+
+/**
+ * The recent part of a history, if it spans long enough to show a trend
+ */
+function getTrendWindow(points: ChartedPoint[]): ChartedPoint[] | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const latest = points[points.length - 1];
+  const recent = points.filter((p) => p.ageMonths >= latest.ageMonths - TREND_WINDOW_MONTHS);
+  if (recent.length < 2 || latest.ageMonths - recent[0].ageMonths < MIN_TREND_SPAN_MONTHS) {
+    return null;
+  }
+
+  return recent;
+}
+
+// ============================================
+// PROJECTION
+// ============================================
+
+/**
+ * Chart a child's growth and project it forward
+ *
+ * @param input.entries - Growth entries, in any order
+ * @param input.sex - Null to average the boys' and girls' charts
+ * @param input.monthsAhead - How far ahead to project, from today
+ * @returns Null if the child is too old (or not yet born) to chart
+ */
+export function projectGrowth(input: {
+  birthDate: Date;
+  sex: ChildSex | null;
+  entries: GrowthEntryInput[];
+  monthsAhead: number[];
+  now?: Date;
+}): GrowthProjection | null {
+  const { birthDate, sex, entries, monthsAhead } = input;
+  const ageMonths = getAgeInMonths(birthDate, input.now ?? new Date());
+  const chart = getChartSource('height', ageMonths);
+
+  if (!chart) {
+    return null;
+  }
+
+  const current = {} as GrowthProjection['current'];
+  const velocity = {} as GrowthProjection['velocity'];
+  const assumedMedian: GrowthMeasurement[] = [];
+  const projectors = {} as Record<GrowthMeasurement, (age: number) => number | null>;
+
+  for (const measurement of MEASUREMENTS) {
+    const history = chartHistory(measurement, entries, birthDate, sex);
+    const latest = history[history.length - 1];
+    const window = getTrendWindow(history);
+
+    current[measurement] = latest
+      ? getGrowthPercentile(measurement, latest.value, latest.ageMonths, sex)
+      : null;
+    velocity[measurement] = window
+      ? round(slope(window.map((p) => ({ x: p.ageMonths, y: p.value }))), 2)
+      : null;
+
+    if (!latest) {
+      if (measurement !== 'headCircumference') {
+        assumedMedian.push(measurement);
+      }
+      projectors[measurement] = (age) => getMeasurementAtZScore(measurement, 0, age, sex);
+      continue;
+    }
+
+    const zTrend = window
+      ? clamp(slope(window.map((p) => ({ x: p.ageMonths, y: p.zScore }))), -MAX_Z_TREND_PER_MONTH, MAX_Z_TREND_PER_MONTH)
+      : 0;
+
+    projectors[measurement] = (age) => {
+      const zScore = clamp(latest.zScore + zTrend * (age - latest.ageMonths), -MAX_PROJECTED_Z, MAX_PROJECTED_Z);
+      return getMeasurementAtZScore(measurement, zScore, age, sex);
+    };
+  }
+
+  const projections: ProjectedMeasurements[] = [];
+  for (const months of monthsAhead) {
+    const age = Math.min(ageMonths + months, CHART_MAX_AGE_MONTHS);
+    const height = projectors.height(age);
+    const weight = projectors.weight(age);
+    if (height === null || weight === null) {
+      continue;
+    }
+
+    const headCircumference = projectors.headCircumference(age);
+    projections.push({
+      ageMonths: round(age, 1),
+      height: round(height, 1),
+      weight: round(weight, 1),
+      headCircumference: headCircumference === null ? null : round(headCircumference, 1),
+    });
+  }
+
+  return {
+    ageMonths: round(ageMonths, 1),
+    chart,
+    current,
+    velocity,
+    projections,
+    assumedMedian,
+  };
+}
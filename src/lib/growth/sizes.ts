@@ -0,0 +1,123 @@
+/**
+ * Size Chart Mapping
+ *
+ * Maps measurements to our size chart (see /size-guide and the size
+ * constants in `@/lib/constants`). A size fits while the child is within
+ * its upper height and weight limits; we pick the smallest size that fits
+ * both, so a long but light baby still sizes up for length.
+ */
+
+import { BABY_CLOTHING_SIZES } from '@/lib/constants';
+import { CM_PER_INCH, LB_PER_KG } from './units';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Upper limits of each clothing size, from the size guide
+ */
+const CLOTHING_SIZE_LIMITS: Array<{ size: string; maxHeightIn: number; maxWeightLb: number }> = [
+  { size: 'NB', maxHeightIn: 21, maxWeightLb: 8 },
+  { size: '0-3M', maxHeightIn: 24, maxWeightLb: 12 },
+  { size: '3-6M', maxHeightIn: 27, maxWeightLb: 16 },
+  { size: '6-9M', maxHeightIn: 28, maxWeightLb: 20 },
+  { size: '9-12M', maxHeightIn: 30, maxWeightLb: 24 },
+  { size: '12-18M', maxHeightIn: 32, maxWeightLb: 28 },
+  { size: '18-24M', maxHeightIn: 34, maxWeightLb: 32 },
+  { size: '2T', maxHeightIn: 36, maxWeightLb: 30 },
+  { size: '3T', maxHeightIn: 38, maxWeightLb: 34 },
+  { size: '4T', maxHeightIn: 40, maxWeightLb: 38 },
+  { size: '5T', maxHeightIn: 42, maxWeightLb: 42 },
+];
+
+/**
+ * Shoe sizes by age, for children up to the given age in months
+ */
+const SHOE_SIZE_AGES: Array<{ size: string; maxAgeMonths: number }> = [
+  { size: '0', maxAgeMonths: 1 },
+  { size: '1', maxAgeMonths: 3 },
+  { size: '2', maxAgeMonths: 6 },
+  { size: '3', maxAgeMonths: 9 },
+  { size: '4', maxAgeMonths: 12 },
+  { size: '5', maxAgeMonths: 18 },
+  { size: '5.5', maxAgeMonths: 24 },
+  { size: '6', maxAgeMonths: 36 },
+  { size: '7', maxAgeMonths: 48 },
+  { size: '8', maxAgeMonths: 60 },
+];
+
+/**
+ * Upper weight limit of each diaper size (sizes 5 and 6 are open-ended)
+ */
+const DIAPER_SIZE_LIMITS: Array<{ size: string; maxWeightLb: number }> = [
+  { size: 'N', maxWeightLb: 10 },
+  { size: '1', maxWeightLb: 14 },
+  { size: '2', maxWeightLb: 18 },
+  { size: '3', maxWeightLb: 28 },
+  { size: '4', maxWeightLb: 37 },
+  { size: '5', maxWeightLb: Infinity },
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Sizes for a set of measurements
+ */
+export interface ChartSizes {
+  clothing: string;
+  shoes: string;
+  diaper: string;
+}
+
+// ============================================
+// SIZES
+// ============================================
+
+/**
+ * Clothing size label for a height (cm) and weight (kg)
+ */
+export function getClothingSize(heightCm: number, weightKg: number): string {
+  const heightIn = heightCm / CM_PER_INCH;
+  const weightLb = weightKg * LB_PER_KG;
+
+  const fit =
+    CLOTHING_SIZE_LIMITS.find((s) => heightIn <= s.maxHeightIn && weightLb <= s.maxWeightLb) ??
+    CLOTHING_SIZE_LIMITS[CLOTHING_SIZE_LIMITS.length - 1];
+
+  return BABY_CLOTHING_SIZES.find((s) => s.size === fit.size)?.label ?? fit.size;
+}
+
+/**
+ * Shoe size for an age in months
+ */
+export function getShoeSize(ageMonths: number): string {
+  const fit =
+    SHOE_SIZE_AGES.find((s) => ageMonths < s.maxAgeMonths) ?? SHOE_SIZE_AGES[SHOE_SIZE_AGES.length - 1];
+  return fit.size;
+}
+
+/**
+ * Diaper size for a weight (kg)
+ */
+export function getDiaperSize(weightKg: number): string {
+  const weightLb = weightKg * LB_PER_KG;
+  return DIAPER_SIZE_LIMITS.find((s) => weightLb <= s.maxWeightLb)!.size;
+}
+
+/**
+ * Clothing, shoe and diaper sizes for a child's age and measurements
+ */
+export function getSizesForMeasurements(measurements: {
+  ageMonths: number;
+  height: number;
+  weight: number;
+}): ChartSizes {
+  return {
+    clothing: getClothingSize(measurements.height, measurements.weight),
+    shoes: getShoeSize(measurements.ageMonths),
+    diaper: getDiaperSize(measurements.weight),
+  };
+}
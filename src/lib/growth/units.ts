@@ -0,0 +1,50 @@
+/**
+ * Growth Units
+ *
+ * Growth entries are stored in centimetres and kilograms, as the growth
+ * charts are. The growth tracker shows and collects inches and pounds.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CM_PER_INCH = 2.54;
+export const LB_PER_KG = 2.20462;
+
+// ============================================
+// CONVERSIONS
+// ============================================
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Inches to centimetres, to 2 decimal places
+ */
+export function inchesToCm(inches: number): number {
+  return round(inches * CM_PER_INCH, 2);
+}
+
+/**
+ * Centimetres to inches, to 1 decimal place
+ */
+export function cmToInches(cm: number): number {
+  return round(cm / CM_PER_INCH, 1);
+}
+
+/**
+ * Pounds to kilograms, to 3 decimal places
+ */
+export function poundsToKg(pounds: number): number {
+  return round(pounds / LB_PER_KG, 3);
+}
+
+/**
+ * Kilograms to pounds, to 1 decimal place
+ */
+export function kgToPounds(kg: number): number {
+  return round(kg * LB_PER_KG, 1);
+}
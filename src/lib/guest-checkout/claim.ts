@@ -0,0 +1,74 @@
+/**
+ * Guest Purchase Claims
+ *
+ * Decides what a new account takes over from the guest checkouts made
+ * with its email: the orders, the cart sessions they were placed from
+ * (whose saved addresses come along) and, if the account has no cart of
+ * its own, the most recent of those sessions' carts. Pure, so the service
+ * only has to load the candidates and write back the plan.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A guest order placed with the account's email
+ */
+export interface GuestOrder {
+  id: string;
+  guestSessionId: string | null;
+}
+
+/**
+ * A cart no user owns yet
+ */
+export interface GuestCart {
+  id: string;
+  sessionId: string | null;
+  updatedAt: Date;
+}
+
+export interface GuestClaimPlan {
+  orderIds: string[];
+  /** Cart sessions the orders came from; their addresses move too */
+  sessionIds: string[];
+  /** Guest cart to give the user, or null */
+  cartId: string | null;
+}
+
+// ============================================
+// PLAN
+// ============================================
+
+/**
+ * Plan what an account claims from guest checkouts
+ *
+ * Only carts from the claimed orders' sessions are considered, and none if
+ * the user already has a cart; a user has at most one.
+ *
+ * @param orders - Unclaimed orders placed with the user's email
+ * @param carts - Unowned carts from those orders' sessions
+ * @param hasCart - Whether the user already has a cart
+ */
+export function planGuestClaim(orders: GuestOrder[], carts: GuestCart[], hasCart: boolean): GuestClaimPlan {
+  const sessionIds = [
+    ...new Set(orders.flatMap((order) => (order.guestSessionId ? [order.guestSessionId] : []))),
+  ];
+  const sessions = new Set(sessionIds);
+
+  const cart = hasCart
+    ? null
+    : carts
+        .filter((candidate) => candidate.sessionId && sessions.has(candidate.sessionId))
+        .reduce<GuestCart | null>(
+          (latest, candidate) => (!latest || candidate.updatedAt > latest.updatedAt ? candidate : latest),
+          null
+        );
+
+  return {
+    orderIds: orders.map((order) => order.id),
+    sessionIds,
+    cartId: cart?.id ?? null,
+  };
+}
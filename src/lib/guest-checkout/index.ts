@@ -0,0 +1,11 @@
+/**
+ * Guest Checkout
+ *
+ * Orders placed without an account, keyed to the cart session and email
+ * address, and claimed by the account that verifies that email.
+ */
+
+export { claimGuestPurchases } from './service';
+export type { GuestClaimResult } from './service';
+export { planGuestClaim } from './claim';
+export type { GuestCart, GuestClaimPlan, GuestOrder } from './claim';
@@ -0,0 +1,99 @@
+/**
+ * Guest Checkout Service
+ *
+ * Guests check out with their anonymous cart session and an email address;
+ * their orders are stored without a user. Once someone verifies that email
+ * on an account, the account claims those orders, the addresses saved
+ * during them and the cart they shopped with.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { planGuestClaim } from './claim';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What an account took over from guest checkouts
+ */
+export interface GuestClaimResult {
+  orders: number;
+  addresses: number;
+  cartId: string | null;
+}
+
+const NOTHING_CLAIMED: GuestClaimResult = { orders: 0, addresses: 0, cartId: null };
+
+// ============================================
+// CLAIM
+// ============================================
+
+/**
+ * Attach a user's past guest orders, addresses and cart to their account
+ *
+ * Orders match on the email they were placed with, ignoring case, so this
+ * does nothing until the user's email is verified. Safe to call on every
+ * sign-in; claimed orders aren't matched again.
+ */
+export async function claimGuestPurchases(userId: string): Promise<GuestClaimResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+  if (!user?.emailVerified) {
+    return NOTHING_CLAIMED;
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const orders = await tx.order.findMany({
+      where: { userId: null, customerEmail: { equals: user.email.trim(), mode: 'insensitive' } },
+      select: { id: true, guestSessionId: true },
+    });
+    if (orders.length === 0) {
+      return NOTHING_CLAIMED;
+    }
+
+    const sessionIds = [...new Set(orders.flatMap((order) => (order.guestSessionId ? [order.guestSessionId] : [])))];
+    const [carts, ownCart] = await Promise.all([
+      sessionIds.length > 0
+        ? tx.cart.findMany({
+            where: { userId: null, sessionId: { in: sessionIds } },
+            select: { id: true, sessionId: true, updatedAt: true },
+          })
+        : [],
+      tx.cart.findFirst({ where: { userId }, select: { id: true } }),
+    ]);
+
+    const plan = planGuestClaim(orders, carts, !!ownCart);
+
+    // userId: null again, in case another sign-in claimed them first
+    const claimed = await tx.order.updateMany({
+      where: { id: { in: plan.orderIds }, userId: null },
+      data: { userId },
+    });
+
+    const addresses = plan.sessionIds.length > 0
+      ? await tx.address.updateMany({
+          where: { userId: null, guestSessionId: { in: plan.sessionIds } },
+          data: { userId, guestSessionId: null },
+        })
+      : { count: 0 };
+
+    if (plan.cartId) {
+      await tx.cart.update({
+        where: { id: plan.cartId },
+        data: { userId, sessionId: null },
+      });
+    }
+
+    return { orders: claimed.count, addresses: addresses.count, cartId: plan.cartId };
+  });
+
+  if (result.orders > 0) {
+    logger.info('Claimed guest purchases', { userId, ...result });
+  }
+
+  return result;
+}
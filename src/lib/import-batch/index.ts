@@ -0,0 +1,37 @@
+/**
+ * Import Batches
+ *
+ * Bulk AliExpress import from a CSV or URL list, with a child ImportJob per
+ * row and a downloadable results report.
+ */
+
+export {
+  createImportBatch,
+  processImportBatch,
+  retryImportRow,
+  skipImportRow,
+  getImportBatch,
+  listImportBatches,
+  getImportBatchReportCsv,
+} from './service';
+export type {
+  CreateImportBatchInput,
+  ImportBatchSummary,
+  ImportBatchRow,
+  ImportBatchDetail,
+} from './service';
+export {
+  MAX_BATCH_ROWS,
+  IMPORT_CSV_COLUMNS,
+  parseImportCsv,
+  planImportRows,
+  resolveCategory,
+  toImportReportCsv,
+} from './rows';
+export type {
+  ImportCsvRow,
+  ImportBatchRowInput,
+  PlannedImportRow,
+  ImportRowContext,
+  ImportReportRow,
+} from './rows';
@@ -0,0 +1,296 @@
+/**
+ * Import Batch Rows
+ *
+ * Turns an uploaded CSV (or a plain list of URLs) into the rows of a bulk
+ * import, and plans each row before anything is scraped: rows with bad
+ * input fail straight away, and rows whose AliExpress product is already
+ * imported, already queued, or repeated further up the file are skipped.
+ * Pure, so the file handling can be tested without a database.
+ */
+
+import { ValidationError } from '@/lib/errors';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { extractProductIdFromUrl } from '@/services/aliexpress/utils';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Largest file accepted in one batch. Rows are scraped one at a time a few
+ * seconds apart, so this is already well over an hour of work.
+ */
+export const MAX_BATCH_ROWS = 500;
+
+/**
+ * Columns read from the header row; others are ignored
+ */
+export const IMPORT_CSV_COLUMNS = ['url', 'category', 'title', 'price', 'tags'] as const;
+
+/**
+ * Limits shared with the single-product import form
+ */
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 50;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One row of an uploaded file
+ */
+export interface ImportCsvRow {
+  /** Spreadsheet row number, counting the header as row 1 */
+  rowNumber: number;
+  url: string;
+  /** Category ID, slug or name as written in the file */
+  category: string;
+  title?: string;
+  price?: number;
+  tags: string[];
+  /** Problem with the row's values */
+  error?: string;
+}
+
+/**
+ * What a batch row imports, stored on its ImportJob
+ */
+export interface ImportBatchRowInput {
+  url: string;
+  category: string;
+  /** Set once the category resolved */
+  categoryId?: string;
+  overrides?: {
+    name?: string;
+    basePrice?: number;
+    tags?: string[];
+  };
+}
+
+/**
+ * A row with the job status it starts in
+ */
+export interface PlannedImportRow {
+  rowNumber: number;
+  input: ImportBatchRowInput;
+  aliExpressProductId: string | null;
+  status: 'pending' | 'skipped' | 'failed';
+  error?: string;
+}
+
+/**
+ * What the database already knows about the file's products
+ */
+export interface ImportRowContext {
+  categories: Array<{ id: string; slug: string; name: string }>;
+  /** Imported AliExpress product ID to product slug */
+  importedProducts: Map<string, string>;
+  /** AliExpress product IDs waiting in other batches */
+  queuedProductIds: Set<string>;
+}
+
+/**
+ * A batch row's outcome, for the results report
+ */
+export interface ImportReportRow {
+  rowNumber: number;
+  url: string;
+  category: string;
+  aliExpressProductId: string | null;
+  status: string;
+  productSlug?: string;
+  error?: string;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse an uploaded file into import rows
+ *
+ * Files with a header row are read by column name (see
+ * `IMPORT_CSV_COLUMNS`). A file whose first line is a URL is read as a
+ * plain list, one URL per line. Rows without a category use
+ * `defaultCategory`. Tags are separated by `;` or `|`.
+ *
+ * @throws ValidationError if the file is empty, too long or has no url column
+ */
+export function parseImportCsv(text: string, defaultCategory?: string): ImportCsvRow[] {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    throw new ValidationError('The file is empty');
+  }
+
+  const isUrlList = /^https?:\/\//i.test(records[0][0].trim());
+  const header = isUrlList ? ['url'] : records[0].map((name) => name.trim().toLowerCase());
+  const dataRecords = isUrlList ? records : records.slice(1);
+  const firstRowNumber = isUrlList ? 1 : 2;
+
+  const column = (name: (typeof IMPORT_CSV_COLUMNS)[number]) => header.indexOf(name);
+  if (column('url') === -1) {
+    throw new ValidationError('The file needs a "url" column');
+  }
+  if (dataRecords.length === 0) {
+    throw new ValidationError('The file has no rows to import');
+  }
+  if (dataRecords.length > MAX_BATCH_ROWS) {
+    throw new ValidationError(`Import at most ${MAX_BATCH_ROWS} rows at a time`);
+  }
+
+  return dataRecords.map((record, index) => {
+    const value = (name: (typeof IMPORT_CSV_COLUMNS)[number]) => {
+      const i = column(name);
+      return i === -1 ? '' : (record[i] ?? '').trim();
+    };
+
+    const row: ImportCsvRow = {
+      rowNumber: firstRowNumber + index,
+      url: value('url'),
+      category: value('category') || defaultCategory?.trim() || '',
+      tags: value('tags')
+        .split(/[;|]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    };
+
+    const title = value('title');
+    if (title) row.title = title;
+
+    const price = value('price');
+    if (price) row.price = Number(price.replace(/^\$/, ''));
+
+    row.error = validateRow(row);
+    return row;
+  });
+}
+
+/**
+ * Check a row's values
+ *
+ * @returns The first problem, or undefined if the row is usable
+ */
+function validateRow(row: ImportCsvRow): string | undefined {
+  if (!row.url) {
+    return 'URL is required';
+  }
+  if (!extractProductIdFromUrl(row.url)) {
+    return 'Not an AliExpress product URL';
+  }
+  if (!row.category) {
+    return 'Category is required';
+  }
+  if (row.title !== undefined && row.title.length > MAX_TITLE_LENGTH) {
+    return `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+  if (row.price !== undefined && (!Number.isFinite(row.price) || row.price <= 0)) {
+    return 'Price must be a positive number';
+  }
+  if (row.tags.length > MAX_TAGS) {
+    return `At most ${MAX_TAGS} tags`;
+  }
+  if (row.tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+  }
+  return undefined;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Find a category by ID, slug or name (case-insensitive)
+ */
+export function resolveCategory(
+  value: string,
+  categories: ImportRowContext['categories']
+): ImportRowContext['categories'][number] | null {
+  const wanted = value.trim().toLowerCase();
+  return (
+    categories.find((c) => c.id === value.trim()) ??
+    categories.find((c) => c.slug.toLowerCase() === wanted) ??
+    categories.find((c) => c.name.toLowerCase() === wanted) ??
+    null
+  );
+}
+
+/**
+ * Decide how each row starts
+ *
+ * Only the first row for an AliExpress product is imported; the rest are
+ * skipped, as are products already imported or waiting in another batch.
+ */
+export function planImportRows(rows: ImportCsvRow[], context: ImportRowContext): PlannedImportRow[] {
+  const firstRowByProduct = new Map<string, number>();
+
+  return rows.map((row) => {
+    const aliExpressProductId = row.url ? extractProductIdFromUrl(row.url) : null;
+    const input: ImportBatchRowInput = { url: row.url, category: row.category };
+    const planned = (status: PlannedImportRow['status'], error?: string): PlannedImportRow => ({
+      rowNumber: row.rowNumber,
+      input,
+      aliExpressProductId,
+      status,
+      ...(error ? { error } : {}),
+    });
+
+    if (row.error || !aliExpressProductId) {
+      return planned('failed', row.error ?? 'Not an AliExpress product URL');
+    }
+
+    const category = resolveCategory(row.category, context.categories);
+    if (!category) {
+      return planned('failed', `Unknown category "${row.category}"`);
+    }
+
+    input.categoryId = category.id;
+    const overrides: NonNullable<ImportBatchRowInput['overrides']> = {};
+    if (row.title) overrides.name = row.title;
+    if (row.price !== undefined) overrides.basePrice = row.price;
+    if (row.tags.length > 0) overrides.tags = row.tags;
+    if (Object.keys(overrides).length > 0) input.overrides = overrides;
+
+    const firstRow = firstRowByProduct.get(aliExpressProductId);
+    if (firstRow !== undefined) {
+      return planned('skipped', `Duplicate of row ${firstRow}`);
+    }
+    firstRowByProduct.set(aliExpressProductId, row.rowNumber);
+
+    const importedSlug = context.importedProducts.get(aliExpressProductId);
+    if (importedSlug) {
+      return planned('skipped', `Already imported as ${importedSlug}`);
+    }
+    if (context.queuedProductIds.has(aliExpressProductId)) {
+      return planned('skipped', 'Already queued in another import');
+    }
+
+    return planned('pending');
+  });
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Render a batch's outcome as CSV, one line per uploaded row
+ */
+export function toImportReportCsv(rows: ImportReportRow[]): string {
+  const header = ['Row', 'URL', 'Category', 'AliExpress ID', 'Status', 'Product', 'Error'];
+
+  return toCsv([
+    header,
+    ...rows.map((row) => [
+      String(row.rowNumber),
+      row.url,
+      row.category,
+      row.aliExpressProductId ?? '',
+      row.status,
+      row.productSlug ?? '',
+      row.error ?? '',
+    ]),
+  ]);
+}
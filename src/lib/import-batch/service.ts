@@ -0,0 +1,477 @@
+/**
+ * Import Batches
+ *
+ * Bulk AliExpress import from an uploaded file. Each row becomes a child
+ * ImportJob; duplicates and bad rows are settled when the batch is created,
+ * so only new products are ever scraped. Rows are then imported one at a
+ * time through a `RequestQueue`, and admins can retry or skip single rows
+ * while the batch runs.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { enqueueJob } from '@/lib/jobs';
+import { Prisma } from '@prisma/client';
+import { RequestQueue, extractProductIdFromUrl } from '@/services/aliexpress';
+import { ProductImportService, type ImportJobStatus, type ImportResult } from '@/services/import';
+import {
+  parseImportCsv,
+  planImportRows,
+  toImportReportCsv,
+  type ImportBatchRowInput,
+} from './rows';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Minimum gap between two row imports. Each import opens the product page
+ * and its images, so this stays well clear of AliExpress's rate limits.
+ */
+const BATCH_IMPORT_INTERVAL_MS = 5000;
+
+// ============================================
+// TYPES
+// ============================================
+
+type ImportJobStatusName = ImportJobStatus['status'];
+
+/**
+ * Input for a new batch
+ */
+export interface CreateImportBatchInput {
+  /** The uploaded file's contents */
+  text: string;
+  fileName?: string;
+  /** Category for rows that don't name one */
+  defaultCategory?: string;
+  userId?: string;
+}
+
+/**
+ * A batch with its aggregate progress
+ */
+export interface ImportBatchSummary {
+  id: string;
+  status: string;
+  fileName: string | null;
+  totalRows: number;
+  counts: Record<ImportJobStatusName, number>;
+  /** Percentage of rows that are finished (completed, failed or skipped) */
+  progress: number;
+  createdAt: Date;
+}
+
+/**
+ * One row of a batch
+ */
+export interface ImportBatchRow {
+  jobId: string;
+  rowNumber: number;
+  status: ImportJobStatusName;
+  currentStep: string | null;
+  url: string;
+  category: string;
+  aliExpressProductId: string | null;
+  productSlug: string | null;
+  error: string | null;
+  /** Whether the row has valid input and can be retried */
+  retryable: boolean;
+}
+
+/**
+ * A batch and all its rows
+ */
+export interface ImportBatchDetail extends ImportBatchSummary {
+  rows: ImportBatchRow[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const FINISHED_STATUSES: ImportJobStatusName[] = ['completed', 'failed', 'skipped'];
+
+function summarize(
+  batch: { id: string; status: string; fileName: string | null; totalRows: number; createdAt: Date },
+  statuses: string[]
+): ImportBatchSummary {
+  const counts: Record<ImportJobStatusName, number> = {
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    skipped: 0,
+  };
+  for (const status of statuses) {
+    counts[status as ImportJobStatusName]++;
+  }
+
+  const finished = FINISHED_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+
+  return {
+    id: batch.id,
+    status: batch.status,
+    fileName: batch.fileName,
+    totalRows: batch.totalRows,
+    counts,
+    progress: batch.totalRows > 0 ? Math.round((finished / batch.totalRows) * 100) : 100,
+    createdAt: batch.createdAt,
+  };
+}
+
+// ============================================
+// BATCHES
+// ============================================
+
+/**
+ * Create a batch and a job for every row of the file
+ *
+ * Nothing is scraped here; start `processImportBatch` to import the pending
+ * rows.
+ *
+ * @throws ValidationError if the file can't be read or has nothing to import
+ */
+export async function createImportBatch(
+  input: CreateImportBatchInput
+): Promise<ImportBatchSummary> {
+  const rows = parseImportCsv(input.text, input.defaultCategory);
+  const productIds = rows.flatMap((row) => {
+    const productId = extractProductIdFromUrl(row.url);
+    return productId ? [productId] : [];
+  });
+
+  const [categories, importedSources, queuedJobs] = await Promise.all([
+    prisma.category.findMany({ select: { id: true, slug: true, name: true } }),
+    prisma.productSource.findMany({
+      where: { aliExpressProductId: { in: productIds } },
+      select: { aliExpressProductId: true, productSlug: true },
+    }),
+    prisma.importJob.findMany({
+      where: {
+        aliExpressProductId: { in: productIds },
+        status: { in: ['pending', 'processing'] },
+      },
+      select: { aliExpressProductId: true },
+    }),
+  ]);
+
+  const planned = planImportRows(rows, {
+    categories,
+    importedProducts: new Map(importedSources.map((s) => [s.aliExpressProductId, s.productSlug])),
+    queuedProductIds: new Set(queuedJobs.flatMap((j) => (j.aliExpressProductId ? [j.aliExpressProductId] : []))),
+  });
+
+  if (!planned.some((row) => row.status === 'pending')) {
+    const firstProblem = planned.find((row) => row.error)?.error;
+    throw new ValidationError(
+      firstProblem ? `Nothing to import: ${firstProblem}` : 'Nothing to import'
+    );
+  }
+
+  const batch = await prisma.importBatch.create({
+    data: {
+      fileName: input.fileName,
+      totalRows: planned.length,
+      userId: input.userId,
+      jobs: {
+        create: planned.map((row) => ({
+          jobId: randomUUID(),
+          status: row.status,
+          progress: row.status === 'pending' ? 0 : 100,
+          error: row.error,
+          userId: input.userId,
+          rowNumber: row.rowNumber,
+          input: row.input as object,
+          aliExpressProductId: row.aliExpressProductId,
+        })),
+      },
+    },
+  });
+
+  return summarize(batch, planned.map((row) => row.status));
+}
+
+/**
+ * Import a batch's pending rows, one at a time
+ *
+ * Returns straight away if the batch is already being processed; that run
+ * picks up rows retried in the meantime.
+ *
+ * @param deadline - Stop starting new rows after this; the batch goes back
+ *   to pending so another run can continue it
+ * @returns False if rows were left for another run
+ */
+export async function processImportBatch(batchId: string, deadline?: Date): Promise<boolean> {
+  const { count } = await prisma.importBatch.updateMany({
+    where: { id: batchId, status: { not: 'processing' } },
+    data: { status: 'processing' },
+  });
+  if (count === 0) {
+    return true;
+  }
+
+  const service = new ProductImportService();
+  const queue = new RequestQueue(BATCH_IMPORT_INTERVAL_MS);
+
+  try {
+    while (true) {
+      if (deadline && Date.now() >= deadline.getTime()) {
+        await prisma.importBatch.update({
+          where: { id: batchId },
+          data: { status: 'pending' },
+        });
+        return false;
+      }
+
+      const next = await prisma.importJob.findFirst({
+        where: { batchId, status: 'pending' },
+        orderBy: { rowNumber: 'asc' },
+        select: { id: true },
+      });
+
+      if (next) {
+        await processImportRow(next.id, service, queue);
+        continue;
+      }
+
+      await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { status: 'completed' },
+      });
+
+      // A row retried after the last check would otherwise wait for the next retry
+      const reopened = await prisma.importBatch.updateMany({
+        where: { id: batchId, status: 'completed', jobs: { some: { status: 'pending' } } },
+        data: { status: 'processing' },
+      });
+      if (reopened.count === 0) {
+        return true;
+      }
+    }
+  } catch (error) {
+    logger.error('Import batch failed', error as Error, { batchId });
+    await prisma.importBatch
+      .update({ where: { id: batchId }, data: { status: 'pending' } })
+      .catch(() => {});
+    throw error;
+  } finally {
+    await service.close();
+  }
+}
+
+/**
+ * Import one row of a batch
+ *
+ * The product is checked again just before scraping, in case it was
+ * imported since the batch was created.
+ */
+async function processImportRow(
+  id: string,
+  service: ProductImportService,
+  queue: RequestQueue
+): Promise<void> {
+  const { count } = await prisma.importJob.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'processing', progress: 10, currentStep: 'Checking for duplicates' },
+  });
+  if (count === 0) {
+    return;
+  }
+
+  const job = await prisma.importJob.findUniqueOrThrow({ where: { id } });
+  const input = job.input as unknown as ImportBatchRowInput;
+
+  try {
+    if (job.aliExpressProductId) {
+      const existing = await prisma.productSource.findFirst({
+        where: { aliExpressProductId: job.aliExpressProductId },
+        select: { productSlug: true },
+      });
+      if (existing) {
+        await prisma.importJob.update({
+          where: { id },
+          data: {
+            status: 'skipped',
+            progress: 100,
+            currentStep: null,
+            error: `Already imported as ${existing.productSlug}`,
+          },
+        });
+        return;
+      }
+    }
+
+    await prisma.importJob.update({
+      where: { id },
+      data: { progress: 20, currentStep: 'Fetching product data' },
+    });
+
+    const result: ImportResult = await queue.add(() =>
+      service.importProduct({
+        url: input.url,
+        categoryId: input.categoryId!,
+        overrides: input.overrides,
+        processImages: true,
+      })
+    );
+
+    await prisma.importJob.update({
+      where: { id },
+      data: result.success
+        ? { status: 'completed', progress: 100, currentStep: 'Import completed', result: result as object }
+        : { status: 'failed', progress: 100, currentStep: null, error: result.error || 'Import failed' },
+    });
+
+    if (result.success && result.productSlug) {
+      await enqueueJob('search.index-product', { slug: result.productSlug });
+    }
+  } catch (error) {
+    await prisma.importJob.update({
+      where: { id },
+      data: {
+        status: 'failed',
+        progress: 100,
+        currentStep: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+}
+
+// ============================================
+// ROWS
+// ============================================
+
+/**
+ * Queue a failed or skipped row again
+ *
+ * @returns The row's batch ID, to restart processing
+ * @throws NotFoundError if the row is not part of a batch
+ * @throws ValidationError if the row's input was invalid
+ * @throws ConflictError if the row is not failed or skipped
+ */
+export async function retryImportRow(jobId: string): Promise<string> {
+  const job = await prisma.importJob.findUnique({
+    where: { jobId },
+    select: { id: true, batchId: true, input: true },
+  });
+  if (!job?.batchId) {
+    throw new NotFoundError('Import row not found');
+  }
+
+  if (!(job.input as unknown as ImportBatchRowInput | null)?.categoryId) {
+    throw new ValidationError('This row has errors in the file. Fix them and upload it again.');
+  }
+
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: { in: ['failed', 'skipped'] } },
+    data: { status: 'pending', progress: 0, currentStep: null, error: null, result: Prisma.DbNull },
+  });
+  if (count === 0) {
+    throw new ConflictError('Only failed or skipped rows can be retried');
+  }
+
+  return job.batchId;
+}
+
+/**
+ * Leave a pending or failed row out of the batch
+ *
+ * @throws NotFoundError if the row is not part of a batch
+ * @throws ConflictError if the row is already importing or finished
+ */
+export async function skipImportRow(jobId: string): Promise<void> {
+  const job = await prisma.importJob.findUnique({
+    where: { jobId },
+    select: { id: true, batchId: true },
+  });
+  if (!job?.batchId) {
+    throw new NotFoundError('Import row not found');
+  }
+
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: { in: ['pending', 'failed'] } },
+    data: { status: 'skipped', progress: 100, currentStep: null, error: 'Skipped by admin' },
+  });
+  if (count === 0) {
+    throw new ConflictError('Only pending or failed rows can be skipped');
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get a batch with every row, in file order
+ *
+ * @throws NotFoundError if the batch doesn't exist
+ */
+export async function getImportBatch(batchId: string): Promise<ImportBatchDetail> {
+  const batch = await prisma.importBatch.findUnique({
+    where: { id: batchId },
+    include: { jobs: { orderBy: { rowNumber: 'asc' } } },
+  });
+  if (!batch) {
+    throw new NotFoundError('Import batch not found');
+  }
+
+  return {
+    ...summarize(batch, batch.jobs.map((job) => job.status)),
+    rows: batch.jobs.map((job) => {
+      const input = job.input as unknown as ImportBatchRowInput;
+      const result = job.result as unknown as ImportResult | null;
+
+      return {
+        jobId: job.jobId,
+        rowNumber: job.rowNumber ?? 0,
+        status: job.status as ImportJobStatusName,
+        currentStep: job.currentStep,
+        url: input.url,
+        category: input.category,
+        aliExpressProductId: job.aliExpressProductId,
+        productSlug: result?.productSlug ?? null,
+        error: job.error,
+        retryable: !!input.categoryId,
+      };
+    }),
+  };
+}
+
+/**
+ * Get the most recent batches, newest first
+ */
+export async function listImportBatches(limit: number = 10): Promise<ImportBatchSummary[]> {
+  const batches = await prisma.importBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { jobs: { select: { status: true } } },
+  });
+
+  return batches.map((batch) => summarize(batch, batch.jobs.map((job) => job.status)));
+}
+
+/**
+ * Render a batch's results report as CSV
+ *
+ * @throws NotFoundError if the batch doesn't exist
+ */
+export async function getImportBatchReportCsv(batchId: string): Promise<string> {
+  const batch = await getImportBatch(batchId);
+
+  return toImportReportCsv(
+    batch.rows.map((row) => ({
+      rowNumber: row.rowNumber,
+      url: row.url,
+      category: row.category,
+      aliExpressProductId: row.aliExpressProductId,
+      status: row.status,
+      productSlug: row.productSlug ?? undefined,
+      error: row.error ?? undefined,
+    }))
+  );
+}
@@ -4,7 +4,12 @@
  */
 
 import { prisma } from '@/lib/prisma';
-import { type ImportJobStatus } from '@/services/import';
+import { enqueueJob } from '@/lib/jobs';
+import {
+  importProduct as importProductService,
+  type ImportJobStatus,
+  type ImportProductInput,
+} from '@/services/import';
 
 /**
  * Create a new job entry in the database
@@ -85,6 +90,51 @@ export async function getJob(jobId: string): Promise<ImportJobStatus | null> {
   };
 }
 
+/**
+ * Run a single-product import and record its progress on the job
+ *
+ * Called by the `import.product` background job. A failed import is
+ * final; an exception is recorded and rethrown so the queue retries it.
+ */
+export async function runImportJob(
+  jobId: string,
+  input: ImportProductInput
+): Promise<ImportJobStatus['result']> {
+  try {
+    await updateJob(jobId, { status: 'processing', progress: 10, currentStep: 'Starting import' });
+
+    await updateJob(jobId, { progress: 20, currentStep: 'Fetching product data' });
+    const result = await importProductService({ ...input, processImages: true });
+
+    if (result.success) {
+      await updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        currentStep: 'Import completed',
+        result,
+      });
+      if (result.productSlug) {
+        await enqueueJob('search.index-product', { slug: result.productSlug });
+      }
+    } else {
+      await updateJob(jobId, {
+        status: 'failed',
+        progress: 100,
+        error: result.error || 'Import failed',
+      });
+    }
+
+    return result;
+  } catch (error) {
+    await updateJob(jobId, {
+      status: 'failed',
+      progress: 100,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
 /**
  * Cleanup old completed/failed jobs
  */
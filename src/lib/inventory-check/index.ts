@@ -0,0 +1,11 @@
+/**
+ * Inventory Check
+ *
+ * Daily sync of supplier stock into variant inventory, with deactivation of
+ * variants the supplier no longer lists and low-stock alerts.
+ */
+
+export { checkSourceInventory, runInventoryCheck } from './service';
+export type { InventoryCheckResult } from './service';
+export { planInventorySync } from './plan';
+export type { LocalVariantStock, VariantStockUpdate, InventorySyncPlan } from './plan';
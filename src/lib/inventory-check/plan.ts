@@ -0,0 +1,179 @@
+/**
+ * Inventory Sync Plan
+ *
+ * Turns a supplier stock snapshot into the changes the inventory check
+ * makes: stock per local variant, variants to deactivate because their
+ * supplier SKU is gone, and the product source's new statuses. Pure, so it
+ * can be tested against recorded pages.
+ *
+ * A page with no stock signal at all (a captcha, login wall or half-loaded
+ * listing) fails the check instead of being read as in stock.
+ */
+
+import type { InventoryStatus, SourceStatus } from '@prisma/client';
+import { ExternalServiceError } from '@/lib/errors';
+import { getStockValidator, type StockAction, type StockValidator } from '@/services/aliexpress/stock-validator';
+import type { SupplierStockSnapshot } from '@/services/aliexpress/stock-parser';
+import type { AliExpressProductData, VariantMapping } from '@/types/dropshipping';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Stock assumed for a buyable product whose page shows no quantity, the
+ * same figure the scraper uses for SKUs without stock data
+ */
+const UNKNOWN_STOCK = 999;
+
+/**
+ * Low-stock threshold for variants that have no inventory record yet
+ */
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A local variant and its current inventory
+ */
+export interface LocalVariantStock {
+  id: string;
+  sku: string;
+  isActive: boolean;
+  inventory: {
+    reservedQuantity: number;
+    available: number;
+    lowStockThreshold: number;
+  } | null;
+}
+
+/**
+ * New stock for one local variant
+ */
+export interface VariantStockUpdate {
+  variantId: string;
+  sku: string;
+  /** Units the supplier can ship */
+  quantity: number;
+  /** `quantity` less what open orders have reserved */
+  available: number;
+  /** The supplier SKU is gone, so the variant should be hidden */
+  deactivate: boolean;
+  /** Dropped to or below its low-stock threshold on this check */
+  becameLowStock: boolean;
+}
+
+export interface InventorySyncPlan {
+  sourceStatus: SourceStatus;
+  inventoryStatus: InventoryStatus;
+  /** `StockValidator` health score, 0-100 */
+  healthScore: number;
+  recommendedAction: StockAction['action'];
+  variants: VariantStockUpdate[];
+}
+
+// ============================================
+// PLAN
+// ============================================
+
+/**
+ * Plan the inventory changes for one product source
+ *
+ * @param snapshot - Stock parsed from the supplier's product page
+ * @param currentSourceStatus - The product source's status before the check
+ * @param variants - The product's local variants
+ * @param variantMapping - Local SKU to AliExpress SKU mapping from import
+ * @throws ExternalServiceError if the page lists none of the mapped SKUs or
+ * shows no stock at all
+ */
+export function planInventorySync(
+  snapshot: SupplierStockSnapshot,
+  currentSourceStatus: SourceStatus,
+  variants: LocalVariantStock[],
+  variantMapping: VariantMapping[] | null,
+  validator: StockValidator = getStockValidator()
+): InventorySyncPlan {
+  const toUpdate = (variant: LocalVariantStock, quantity: number, deactivate: boolean): VariantStockUpdate => {
+    const reserved = variant.inventory?.reservedQuantity ?? 0;
+    const available = Math.max(0, quantity - reserved);
+    const threshold = variant.inventory?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+    const previouslyAvailable = variant.inventory?.available ?? Infinity;
+
+    return {
+      variantId: variant.id,
+      sku: variant.sku,
+      quantity,
+      available,
+      deactivate: deactivate && variant.isActive,
+      becameLowStock: !deactivate && available <= threshold && previouslyAvailable > threshold,
+    };
+  };
+
+  if (snapshot.productRemoved) {
+    return {
+      sourceStatus: 'DISCONTINUED',
+      inventoryStatus: 'OUT_OF_STOCK',
+      healthScore: 0,
+      recommendedAction: 'HIDE_PRODUCT',
+      variants: variants.map((variant) => toUpdate(variant, 0, true)),
+    };
+  }
+
+  if (snapshot.variants.length === 0) {
+    if (variantMapping && variantMapping.length > 0) {
+      throw new ExternalServiceError('AliExpress', 'Supplier page lists none of the mapped SKUs');
+    }
+    if (snapshot.stock === undefined) {
+      throw new ExternalServiceError('AliExpress', 'Supplier page shows no stock');
+    }
+  }
+
+  // The validator reads product-level stock for products without variants
+  const product = {
+    variants: snapshot.variants,
+    stock: snapshot.stock ?? (snapshot.available ? UNKNOWN_STOCK : 0),
+  } as unknown as AliExpressProductData;
+
+  const validation = validator.validateProductStock(product);
+  const hidden = new Set(validator.getVariantsToHide(validation));
+  const supplierSkus = new Map(snapshot.variants.map((v) => [v.skuId, v]));
+
+  const updates = variants.map((variant) => {
+    const mapping = variantMapping?.find((m) => m.localVariantSku === variant.sku);
+
+    // Mapped to a supplier SKU: it must still be listed
+    if (mapping && snapshot.variants.length > 0) {
+      const supplierVariant = supplierSkus.get(mapping.aliExpressSku);
+      if (!supplierVariant) {
+        return toUpdate(variant, 0, true);
+      }
+      return toUpdate(variant, hidden.has(supplierVariant.skuId) ? 0 : supplierVariant.stock, false);
+    }
+
+    // Single-SKU products share the product's stock
+    return toUpdate(variant, validation.totalAvailableStock, false);
+  });
+
+  let inventoryStatus: InventoryStatus = 'AVAILABLE';
+  if (validation.isCompletelyOutOfStock) {
+    inventoryStatus = 'OUT_OF_STOCK';
+  } else if (validator.needsStockUpdate(validation) || updates.some((u) => u.deactivate)) {
+    inventoryStatus = 'LOW_STOCK';
+  }
+
+  let sourceStatus: SourceStatus = validation.isCompletelyOutOfStock ? 'UNAVAILABLE' : 'ACTIVE';
+  if (sourceStatus === 'ACTIVE' && currentSourceStatus === 'PRICE_CHANGED') {
+    // Still waiting on a price review
+    sourceStatus = 'PRICE_CHANGED';
+  }
+
+  return {
+    sourceStatus,
+    inventoryStatus,
+    healthScore: validator.calculateInventoryHealthScore(validation),
+    recommendedAction: validator.getRecommendedAction(validation).action,
+    variants: updates,
+  };
+}
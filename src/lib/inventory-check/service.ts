@@ -0,0 +1,269 @@
+/**
+ * Inventory Check
+ *
+ * Daily sync of supplier stock into our inventory. For the product sources
+ * checked longest ago it reads the AliExpress page, updates
+ * `Inventory.quantity`/`available` per variant, deactivates variants whose
+ * supplier SKU has disappeared and updates the source's `inventoryStatus`
+ * and `sourceStatus`. Variants that fall to their low-stock threshold are
+ * reported to the admin team in one `sendLowStockAlert` email per run.
+ *
+ * A listing AliExpress has taken down marks the source DISCONTINUED;
+ * discontinued sources are not checked again. Our stock follows the best
+ * healthy source, ranked the way fulfillment picks one, so a backup takes
+ * over when the primary goes unhealthy; other sources only have their own
+ * statuses updated. The product is hidden once none of its sources can
+ * supply it again (all discontinued or with suspended suppliers).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { NotFoundError } from '@/lib/errors';
+import { enqueueJob } from '@/lib/jobs';
+import { emailConfig } from '@/lib/email/config';
+import { sendLowStockAlert, type LowStockAlertData } from '@/lib/sendgrid';
+import { parseStockSnapshot, type SupplierPageSource } from '@/services/aliexpress';
+import { rankFulfillmentSources } from '@/services/fulfillment/source-selection';
+import type { VariantMapping } from '@/types/dropshipping';
+import { planInventorySync, type InventorySyncPlan } from './plan';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Product sources checked per run. Live pages take 10-20 seconds each, so
+ * this keeps a run inside the cron route's 5 minute limit.
+ */
+const CHECK_BATCH_SIZE = 15;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Summary of an inventory check run
+ */
+export interface InventoryCheckResult {
+  checked: number;
+  variantsUpdated: number;
+  variantsDeactivated: number;
+  unavailable: number;
+  discontinued: number;
+  lowStockAlerts: number;
+  errors: number;
+}
+
+type LowStockItem = LowStockAlertData['items'][number];
+
+// ============================================
+// CHECK
+// ============================================
+
+/**
+ * Check one product source against its supplier page and apply the result
+ *
+ * @returns The applied plan and the variants that just ran low
+ */
+export async function checkSourceInventory(
+  sourceId: string,
+  pages: SupplierPageSource,
+  now: Date = new Date()
+): Promise<{ plan: InventorySyncPlan; lowStock: LowStockItem[] }> {
+  const source = await prisma.productSource.findUnique({
+    where: { id: sourceId },
+    include: { supplier: { select: { status: true, rating: true } } },
+  });
+  if (!source) {
+    throw new NotFoundError('Product source');
+  }
+
+  const snapshot = parseStockSnapshot(await pages.fetchHtml(source.aliExpressUrl));
+
+  const product = await prisma.product.findUnique({
+    where: { slug: source.productSlug },
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+      variants: {
+        select: {
+          id: true,
+          sku: true,
+          name: true,
+          isActive: true,
+          inventory: { select: { reservedQuantity: true, available: true, lowStockThreshold: true } },
+        },
+      },
+    },
+  });
+  if (!product) {
+    throw new NotFoundError(`Product ${source.productSlug}`);
+  }
+
+  const plan = planInventorySync(
+    snapshot,
+    source.sourceStatus,
+    product.variants,
+    source.variantMapping as unknown as VariantMapping[] | null
+  );
+
+  // Rank the product's sources with this check's result applied
+  const siblings = await prisma.productSource.findMany({
+    where: { productSlug: source.productSlug, id: { not: source.id } },
+    include: { supplier: { select: { status: true, rating: true } } },
+  });
+  const candidates = [
+    { ...source, sourceStatus: plan.sourceStatus, inventoryStatus: plan.inventoryStatus },
+    ...siblings,
+  ].map((candidate) => ({ ...candidate, originalPrice: Number(candidate.originalPrice) }));
+
+  // Our stock follows the best healthy source, or the primary when none is
+  // healthy; any other source only tracks its own status
+  const [best] = rankFulfillmentSources(candidates);
+  const drivesStock = best ? best.id === source.id : !siblings.some((sibling) => sibling.priority < source.priority);
+  const hideProduct =
+    product.isActive &&
+    candidates.every(
+      (candidate) => candidate.sourceStatus === 'DISCONTINUED' || candidate.supplier.status !== 'ACTIVE'
+    );
+
+  await prisma.$transaction(async (tx) => {
+    for (const update of drivesStock ? plan.variants : []) {
+      await tx.inventory.upsert({
+        where: { variantId: update.variantId },
+        create: { variantId: update.variantId, quantity: update.quantity, available: update.available },
+        update: { quantity: update.quantity, available: update.available },
+      });
+
+      if (update.deactivate) {
+        await tx.variant.update({
+          where: { id: update.variantId },
+          data: { isActive: false },
+        });
+      }
+    }
+
+    if (hideProduct) {
+      await tx.product.update({
+        where: { id: product.id },
+        data: { isActive: false },
+      });
+    }
+
+    await tx.productSource.update({
+      where: { id: source.id },
+      data: {
+        sourceStatus: plan.sourceStatus,
+        inventoryStatus: plan.inventoryStatus,
+        lastStockCheckAt: now,
+      },
+    });
+  });
+
+  if (!drivesStock) {
+    if (hideProduct) {
+      await enqueueJob('search.index-product', { slug: source.productSlug });
+    }
+    return { plan: { ...plan, variants: [] }, lowStock: [] };
+  }
+
+  if (hideProduct || plan.variants.some((update) => update.deactivate)) {
+    await enqueueJob('search.index-product', { slug: source.productSlug });
+  }
+
+  const lowStock = plan.variants
+    .filter((update) => update.becameLowStock)
+    .map((update) => {
+      const variant = product.variants.find((v) => v.id === update.variantId)!;
+      return {
+        productId: product.id,
+        productName: product.name,
+        sku: update.sku,
+        currentStock: update.available,
+        reorderLevel: variant.inventory?.lowStockThreshold ?? 10,
+        variant: variant.name,
+      };
+    });
+
+  return { plan, lowStock };
+}
+
+/**
+ * Check the product sources whose stock was checked longest ago
+ *
+ * A page that cannot be fetched or parsed still moves the source to the
+ * back of the line, so one broken listing does not stall the rest.
+ *
+ * @param pages - Live pages in production, recorded pages in tests
+ */
+export async function runInventoryCheck(
+  pages: SupplierPageSource,
+  batchSize: number = CHECK_BATCH_SIZE
+): Promise<InventoryCheckResult> {
+  const result: InventoryCheckResult = {
+    checked: 0,
+    variantsUpdated: 0,
+    variantsDeactivated: 0,
+    unavailable: 0,
+    discontinued: 0,
+    lowStockAlerts: 0,
+    errors: 0,
+  };
+
+  const sources = await prisma.productSource.findMany({
+    where: { sourceStatus: { not: 'DISCONTINUED' } },
+    select: { id: true, productSlug: true },
+    orderBy: { lastStockCheckAt: { sort: 'asc', nulls: 'first' } },
+    take: batchSize,
+  });
+
+  const lowStock: LowStockItem[] = [];
+
+  for (const source of sources) {
+    try {
+      const { plan, lowStock: sourceLowStock } = await checkSourceInventory(source.id, pages);
+
+      result.checked++;
+      result.variantsUpdated += plan.variants.length;
+      result.variantsDeactivated += plan.variants.filter((v) => v.deactivate).length;
+      if (plan.sourceStatus === 'UNAVAILABLE') result.unavailable++;
+      if (plan.sourceStatus === 'DISCONTINUED') result.discontinued++;
+      lowStock.push(...sourceLowStock);
+
+      if (plan.recommendedAction !== 'NONE') {
+        logger.info('Supplier stock needs attention', {
+          productSourceId: source.id,
+          productSlug: source.productSlug,
+          action: plan.recommendedAction,
+          healthScore: plan.healthScore,
+        });
+      }
+    } catch (error) {
+      result.errors++;
+      logger.error('Inventory check failed', error as Error, {
+        productSourceId: source.id,
+        productSlug: source.productSlug,
+      });
+      await prisma.productSource
+        .update({ where: { id: source.id }, data: { lastStockCheckAt: new Date() } })
+        .catch(() => {});
+    }
+  }
+
+  if (lowStock.length > 0) {
+    try {
+      await sendLowStockAlert({
+        to: process.env.ADMIN_EMAIL || 'admin@babypetite.com',
+        subject: `Supplier stock check: ${lowStock.length} variants running low`,
+        items: lowStock,
+        adminUrl: `${emailConfig.baseUrl}/admin/suppliers`,
+      });
+      result.lowStockAlerts = lowStock.length;
+    } catch (error) {
+      logger.error('Failed to send low stock alert', error as Error, { items: lowStock.length });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,38 @@
+/**
+ * Inventory Holds
+ *
+ * Time-boxed stock reservations for Stripe Checkout: held when the session
+ * is created, released when it expires or is cancelled (or by the
+ * sweeper), and converted into sold stock when the order is created.
+ */
+
+export {
+  attachCheckoutSession,
+  convertCheckoutHolds,
+  placeCheckoutHolds,
+  releaseCartHolds,
+  releaseCheckoutHolds,
+  releaseExpiredHolds,
+} from './service';
+export type { CheckoutHolds } from './service';
+export {
+  CHECKOUT_SESSION_TTL_MS,
+  HOLD_GRACE_MS,
+  applyStockUpdates,
+  getHoldExpiry,
+  mergeHoldLines,
+  planConversion,
+  planHolds,
+  planRelease,
+  toAvailable,
+  toHoldLines,
+} from './plan';
+export type {
+  CheckoutHoldLine,
+  ConversionPlan,
+  HoldLine,
+  HoldPlan,
+  StockLevel,
+  StockShortage,
+  StockUpdate,
+} from './plan';
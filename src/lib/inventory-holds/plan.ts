@@ -0,0 +1,241 @@
+/**
+ * Inventory Hold Plan
+ *
+ * The stock arithmetic behind checkout holds: placing holds against what's
+ * available, releasing them, and turning them into sold stock when the
+ * order is paid. `available` is always `quantity - reservedQuantity`, never
+ * adjusted on its own. Pure, so the service only has to lock the rows,
+ * read them and write back what these functions return.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MINUTE = 60 * 1000;
+
+/**
+ * How long a Stripe Checkout session stays open. Stripe's minimum is 30
+ * minutes from creation; the extra minute covers the request itself.
+ */
+export const CHECKOUT_SESSION_TTL_MS = 31 * MINUTE;
+
+/**
+ * How long a hold outlives its session, so a payment Stripe accepts right
+ * at the deadline still finds its stock
+ */
+export const HOLD_GRACE_MS = 5 * MINUTE;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Units of one variant to hold, release or sell
+ */
+export interface HoldLine {
+  variantId: string;
+  quantity: number;
+}
+
+/**
+ * A checkout line to hold; the product names the variant in errors
+ */
+export interface CheckoutHoldLine extends HoldLine {
+  productId: string;
+}
+
+/**
+ * A variant's inventory row as read under lock
+ */
+export interface StockLevel {
+  variantId: string;
+  quantity: number;
+  reservedQuantity: number;
+}
+
+/**
+ * A variant's inventory row after a change
+ */
+export interface StockUpdate extends StockLevel {
+  available: number;
+}
+
+/**
+ * A variant without enough unreserved stock for a hold or a sale
+ */
+export interface StockShortage {
+  variantId: string;
+  requested: number;
+  available: number;
+}
+
+export interface HoldPlan {
+  /** Empty if anything is short; holds are all or nothing */
+  updates: StockUpdate[];
+  shortages: StockShortage[];
+}
+
+export interface ConversionPlan {
+  updates: StockUpdate[];
+  /** Paid-for units whose hold lapsed and that stock no longer covers */
+  shortages: StockShortage[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Units free to sell or hold
+ */
+export function toAvailable(quantity: number, reservedQuantity: number): number {
+  return Math.max(0, quantity - reservedQuantity);
+}
+
+/**
+ * When a new checkout session and its holds expire
+ */
+export function getHoldExpiry(now: Date = new Date()): { sessionExpiresAt: Date; holdExpiresAt: Date } {
+  const sessionExpiresAt = new Date(now.getTime() + CHECKOUT_SESSION_TTL_MS);
+  return { sessionExpiresAt, holdExpiresAt: new Date(sessionExpiresAt.getTime() + HOLD_GRACE_MS) };
+}
+
+/**
+ * One line per variant, in variant ID order
+ *
+ * Rows are always locked in this order, so two checkouts that share
+ * variants queue behind each other instead of deadlocking.
+ */
+export function mergeHoldLines(lines: HoldLine[]): HoldLine[] {
+  const quantities = new Map<string, number>();
+  for (const line of lines) {
+    if (line.quantity > 0) {
+      quantities.set(line.variantId, (quantities.get(line.variantId) ?? 0) + line.quantity);
+    }
+  }
+
+  return [...quantities.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([variantId, quantity]) => ({ variantId, quantity }));
+}
+
+/**
+ * Stock levels with updates applied
+ */
+export function applyStockUpdates(stock: StockLevel[], updates: StockUpdate[]): StockLevel[] {
+  const updated = new Map(updates.map((update) => [update.variantId, update]));
+  return stock.map((level) => {
+    const update = updated.get(level.variantId);
+    return update
+      ? { variantId: level.variantId, quantity: update.quantity, reservedQuantity: update.reservedQuantity }
+      : level;
+  });
+}
+
+/**
+ * Hold lines for cart items
+ */
+export function toHoldLines(
+  items: Array<{ variantId: string; quantity: number; variant: { product: { id: string } } }>
+): CheckoutHoldLine[] {
+  return items.map((item) => ({
+    variantId: item.variantId,
+    productId: item.variant.product.id,
+    quantity: item.quantity,
+  }));
+}
+
+function toStockUpdate(variantId: string, quantity: number, reservedQuantity: number): StockUpdate {
+  return { variantId, quantity, reservedQuantity, available: toAvailable(quantity, reservedQuantity) };
+}
+
+// ============================================
+// PLANS
+// ============================================
+
+/**
+ * Reserve stock for a checkout
+ *
+ * Variants without an inventory row have nothing to hold and come back as
+ * shortages.
+ */
+export function planHolds(lines: HoldLine[], stock: StockLevel[]): HoldPlan {
+  const levels = new Map(stock.map((level) => [level.variantId, level]));
+  const updates: StockUpdate[] = [];
+  const shortages: StockShortage[] = [];
+
+  for (const line of mergeHoldLines(lines)) {
+    const level = levels.get(line.variantId);
+    const available = level ? toAvailable(level.quantity, level.reservedQuantity) : 0;
+
+    if (!level || available < line.quantity) {
+      shortages.push({ variantId: line.variantId, requested: line.quantity, available });
+      continue;
+    }
+
+    updates.push(toStockUpdate(line.variantId, level.quantity, level.reservedQuantity + line.quantity));
+  }
+
+  return { updates: shortages.length > 0 ? [] : updates, shortages };
+}
+
+/**
+ * Hand held stock back
+ */
+export function planRelease(holds: HoldLine[], stock: StockLevel[]): StockUpdate[] {
+  const levels = new Map(stock.map((level) => [level.variantId, level]));
+
+  return mergeHoldLines(holds).flatMap((hold) => {
+    const level = levels.get(hold.variantId);
+    if (!level) {
+      return [];
+    }
+    return [toStockUpdate(hold.variantId, level.quantity, Math.max(0, level.reservedQuantity - hold.quantity))];
+  });
+}
+
+/**
+ * Sell what a paid checkout bought
+ *
+ * The holds come out of `reservedQuantity` and the lines out of `quantity`.
+ * Lines without a hold (it expired before Stripe confirmed payment) are
+ * re-reserved out of unreserved stock as far as it goes, never out of
+ * other checkouts' holds; what's left over comes back as shortages for
+ * staff to refund or backorder. Holds without a line are released.
+ *
+ * @param lines - What the order contains
+ * @param holds - The checkout's active holds
+ */
+export function planConversion(lines: HoldLine[], holds: HoldLine[], stock: StockLevel[]): ConversionPlan {
+  const levels = new Map(stock.map((level) => [level.variantId, level]));
+  const sold = new Map(mergeHoldLines(lines).map((line) => [line.variantId, line.quantity]));
+  const held = new Map(mergeHoldLines(holds).map((hold) => [hold.variantId, hold.quantity]));
+  const variantIds = mergeHoldLines([...lines, ...holds]).map((line) => line.variantId);
+  const updates: StockUpdate[] = [];
+  const shortages: StockShortage[] = [];
+
+  for (const variantId of variantIds) {
+    const level = levels.get(variantId);
+    const heldQuantity = held.get(variantId) ?? 0;
+    const fromHold = Math.min(sold.get(variantId) ?? 0, heldQuantity);
+    const unheld = (sold.get(variantId) ?? 0) - fromHold;
+
+    if (!level) {
+      if (unheld > 0) {
+        shortages.push({ variantId, requested: unheld, available: 0 });
+      }
+      continue;
+    }
+
+    const reservedQuantity = Math.max(0, level.reservedQuantity - heldQuantity);
+    const fromStock = Math.min(unheld, toAvailable(level.quantity - fromHold, reservedQuantity));
+    if (fromStock < unheld) {
+      shortages.push({ variantId, requested: unheld, available: fromStock });
+    }
+
+    updates.push(toStockUpdate(variantId, level.quantity - fromHold - fromStock, reservedQuantity));
+  }
+
+  return { updates, shortages };
+}
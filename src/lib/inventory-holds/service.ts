@@ -0,0 +1,338 @@
+/**
+ * Inventory Hold Service
+ *
+ * Sets stock aside while a customer pays, on Stripe Checkout or on-site
+ * with a PaymentIntent, so two parents can't both pay for the last unit.
+ * Starting checkout places one hold per variant, counted in
+ * `Inventory.reservedQuantity`; the hold is released when the session
+ * expires, the customer cancels or the `cron.inventory-holds` sweeper
+ * finds it past its expiry, and converted into sold stock when the order
+ * is created. Lines whose hold lapsed before payment are re-reserved at
+ * conversion, and reported if stock no longer covers them. Holds key on
+ * the Checkout Session or PaymentIntent ID alike.
+ *
+ * Every change locks the `Inventory` rows it touches (`FOR UPDATE`, in
+ * variant ID order) before reading them, and the holds it changes before
+ * that, so concurrent checkouts queue behind each other and a hold is
+ * never released and converted twice.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { InsufficientStockError, OrderAlreadyProcessedError } from '@/lib/errors';
+import {
+  applyStockUpdates,
+  getHoldExpiry,
+  mergeHoldLines,
+  planConversion,
+  planHolds,
+  planRelease,
+  type CheckoutHoldLine,
+  type HoldLine,
+  type StockLevel,
+  type StockShortage,
+  type StockUpdate,
+} from './plan';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Holds placed for a new checkout session
+ */
+export interface CheckoutHolds {
+  holdIds: string[];
+  /** Pass to Stripe as the session's `expires_at` */
+  sessionExpiresAt: Date;
+  /** Stripe checkouts for this cart whose holds were replaced; close them */
+  replacedSessionIds: string[];
+}
+
+/**
+ * Active hold as read under lock
+ */
+interface LockedHold extends HoldLine {
+  id: string;
+  checkoutSessionId: string | null;
+  status: string;
+}
+
+/**
+ * Holds most sweeper runs release at once
+ */
+const SWEEP_BATCH_SIZE = 200;
+
+// ============================================
+// ROW LOCKS
+// ============================================
+
+/**
+ * Lock and read inventory rows, in variant ID order
+ */
+async function lockStock(tx: Prisma.TransactionClient, variantIds: string[]): Promise<StockLevel[]> {
+  const ids = [...new Set(variantIds)].sort();
+  if (ids.length === 0) {
+    return [];
+  }
+
+  return tx.$queryRaw<StockLevel[]>`
+    SELECT "variantId", "quantity", "reservedQuantity" FROM "Inventory"
+    WHERE "variantId" IN (${Prisma.join(ids)})
+    ORDER BY "variantId"
+    FOR UPDATE
+  `;
+}
+
+async function writeStock(tx: Prisma.TransactionClient, updates: StockUpdate[]): Promise<void> {
+  for (const update of updates) {
+    await tx.inventory.update({
+      where: { variantId: update.variantId },
+      data: {
+        quantity: update.quantity,
+        reservedQuantity: update.reservedQuantity,
+        available: update.available,
+      },
+    });
+  }
+}
+
+/**
+ * Release holds already locked by the caller
+ */
+async function releaseLockedHolds(tx: Prisma.TransactionClient, holds: LockedHold[]): Promise<void> {
+  if (holds.length === 0) {
+    return;
+  }
+
+  const stock = await lockStock(tx, holds.map((hold) => hold.variantId));
+  await writeStock(tx, planRelease(holds, stock));
+  await tx.inventoryHold.updateMany({
+    where: { id: { in: holds.map((hold) => hold.id) } },
+    data: { status: 'RELEASED', releasedAt: new Date() },
+  });
+}
+
+// ============================================
+// PLACE
+// ============================================
+
+/**
+ * Hold a cart's stock for a new checkout session
+ *
+ * Replaces any holds from the cart's earlier checkouts. All or nothing: if
+ * a variant is short, nothing changes and the earlier holds stay.
+ *
+ * @throws InsufficientStockError naming the first variant that's short
+ */
+export async function placeCheckoutHolds(
+  cartId: string,
+  lines: CheckoutHoldLine[],
+  now: Date = new Date()
+): Promise<CheckoutHolds> {
+  const { sessionExpiresAt, holdExpiresAt } = getHoldExpiry(now);
+  const merged = mergeHoldLines(lines);
+
+  return prisma.$transaction(async (tx) => {
+    // One checkout per cart at a time
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`inventory-hold:${cartId}`}))`;
+
+    const previous = await tx.$queryRaw<LockedHold[]>`
+      SELECT "id", "variantId", "quantity", "checkoutSessionId", "status" FROM "InventoryHold"
+      WHERE "cartId" = ${cartId} AND "status" = 'ACTIVE'
+      FOR UPDATE
+    `;
+
+    const stock = await lockStock(tx, [...merged, ...previous].map((line) => line.variantId));
+    const released = planRelease(previous, stock);
+    const plan = planHolds(merged, applyStockUpdates(stock, released));
+
+    const shortage = plan.shortages[0];
+    if (shortage) {
+      const productId = lines.find((line) => line.variantId === shortage.variantId)?.productId ?? '';
+      throw new InsufficientStockError(productId, shortage.variantId, shortage.requested, shortage.available);
+    }
+
+    // A variant in both keeps the hold's figures, which include the release
+    const updates = new Map([...released, ...plan.updates].map((update) => [update.variantId, update]));
+    await writeStock(tx, [...updates.values()]);
+
+    if (previous.length > 0) {
+      await tx.inventoryHold.updateMany({
+        where: { id: { in: previous.map((hold) => hold.id) } },
+        data: { status: 'RELEASED', releasedAt: now },
+      });
+    }
+
+    const holds = await tx.inventoryHold.createManyAndReturn({
+      data: merged.map((line) => ({
+        variantId: line.variantId,
+        cartId,
+        quantity: line.quantity,
+        expiresAt: holdExpiresAt,
+      })),
+      select: { id: true },
+    });
+
+    return {
+      holdIds: holds.map((hold) => hold.id),
+      sessionExpiresAt,
+      replacedSessionIds: [
+        ...new Set(previous.flatMap((hold) => (hold.checkoutSessionId ? [hold.checkoutSessionId] : []))),
+      ],
+    };
+  });
+}
+
+/**
+ * Tie new holds to the Checkout Session or PaymentIntent they were placed
+ * for
+ *
+ * @returns false if the holds were released first (the cart started
+ *   another checkout meanwhile), in which case the session holds nothing
+ */
+export async function attachCheckoutSession(holdIds: string[], checkoutSessionId: string): Promise<boolean> {
+  const { count } = await prisma.inventoryHold.updateMany({
+    where: { id: { in: holdIds }, status: 'ACTIVE' },
+    data: { checkoutSessionId },
+  });
+  return count === holdIds.length;
+}
+
+// ============================================
+// RELEASE
+// ============================================
+
+/**
+ * Release a checkout session's holds, e.g. when Stripe expires it
+ *
+ * @returns Holds released; 0 if they were already released or converted
+ */
+export async function releaseCheckoutHolds(checkoutSessionId: string): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const holds = await tx.$queryRaw<LockedHold[]>`
+      SELECT "id", "variantId", "quantity", "checkoutSessionId", "status" FROM "InventoryHold"
+      WHERE "checkoutSessionId" = ${checkoutSessionId} AND "status" = 'ACTIVE'
+      FOR UPDATE
+    `;
+    await releaseLockedHolds(tx, holds);
+    return holds.length;
+  });
+}
+
+/**
+ * Release a cart's holds when the customer leaves Stripe Checkout
+ *
+ * @returns Stripe sessions whose holds were released; expire them so they
+ *   can't be paid without stock
+ */
+export async function releaseCartHolds(cartId: string): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`inventory-hold:${cartId}`}))`;
+
+    const holds = await tx.$queryRaw<LockedHold[]>`
+      SELECT "id", "variantId", "quantity", "checkoutSessionId", "status" FROM "InventoryHold"
+      WHERE "cartId" = ${cartId} AND "status" = 'ACTIVE'
+      FOR UPDATE
+    `;
+    await releaseLockedHolds(tx, holds);
+    return [...new Set(holds.flatMap((hold) => (hold.checkoutSessionId ? [hold.checkoutSessionId] : [])))];
+  });
+}
+
+/**
+ * Release holds past their expiry
+ *
+ * Run by the `cron.inventory-holds` job for sessions whose expiry webhook
+ * never arrived, and for PaymentIntents, which never expire. Holds another
+ * transaction has locked are left for the next run.
+ *
+ * @returns Holds released, and the checkouts they were for; close them so
+ *   they can't be paid without stock
+ */
+export async function releaseExpiredHolds(
+  now: Date = new Date()
+): Promise<{ released: number; checkoutIds: string[] }> {
+  let released = 0;
+  const checkoutIds = new Set<string>();
+
+  for (;;) {
+    const batch = await prisma.$transaction(async (tx) => {
+      const holds = await tx.$queryRaw<LockedHold[]>`
+        SELECT "id", "variantId", "quantity", "checkoutSessionId", "status" FROM "InventoryHold"
+        WHERE "status" = 'ACTIVE' AND "expiresAt" <= ${now}
+        ORDER BY "expiresAt" ASC
+        LIMIT ${SWEEP_BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      `;
+      await releaseLockedHolds(tx, holds);
+      return holds;
+    });
+
+    released += batch.length;
+    batch.forEach((hold) => hold.checkoutSessionId && checkoutIds.add(hold.checkoutSessionId));
+    if (batch.length < SWEEP_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  if (released > 0) {
+    logger.info('Released expired inventory holds', { released });
+  }
+
+  return { released, checkoutIds: [...checkoutIds] };
+}
+
+// ============================================
+// CONVERT
+// ============================================
+
+/**
+ * Sell a paid checkout's stock, inside the transaction creating its order
+ *
+ * Takes the holds out of reserved stock and the lines out of stock on
+ * hand. Lines whose hold already lapsed are re-reserved from unreserved
+ * stock under the same row locks; the order still goes ahead for what
+ * stock can't cover, so flag it for a refund or backorder.
+ *
+ * @returns Variants the order is short of
+ * @throws OrderAlreadyProcessedError if the session's holds were already
+ *   converted, i.e. another request created this order first
+ */
+export async function convertCheckoutHolds(
+  tx: Prisma.TransactionClient,
+  checkoutSessionId: string,
+  lines: HoldLine[]
+): Promise<StockShortage[]> {
+  const holds = await tx.$queryRaw<LockedHold[]>`
+    SELECT "id", "variantId", "quantity", "checkoutSessionId", "status" FROM "InventoryHold"
+    WHERE "checkoutSessionId" = ${checkoutSessionId}
+    FOR UPDATE
+  `;
+  if (holds.some((hold) => hold.status === 'CONVERTED')) {
+    throw new OrderAlreadyProcessedError(checkoutSessionId);
+  }
+
+  const active = holds.filter((hold) => hold.status === 'ACTIVE');
+  if (active.length < holds.length || holds.length === 0) {
+    logger.warn('Converting checkout without its inventory holds', { checkoutSessionId });
+  }
+
+  const stock = await lockStock(tx, [...lines, ...active].map((line) => line.variantId));
+  const plan = planConversion(lines, active, stock);
+  await writeStock(tx, plan.updates);
+
+  if (active.length > 0) {
+    await tx.inventoryHold.updateMany({
+      where: { id: { in: active.map((hold) => hold.id) } },
+      data: { status: 'CONVERTED', convertedAt: new Date() },
+    });
+  }
+
+  if (plan.shortages.length > 0) {
+    logger.warn('Paid checkout is short of stock', { checkoutSessionId, shortages: plan.shortages });
+  }
+
+  return plan.shortages;
+}
@@ -0,0 +1,88 @@
+/**
+ * Job Handlers
+ *
+ * The work behind each job type. Only the worker imports this module, so
+ * code that merely enqueues jobs doesn't load every handler's dependencies.
+ */
+
+import { sendEmail } from '@/lib/email/service';
+import { cartAbandonmentConfig } from '@/lib/email/config';
+import { runEmailScheduler } from '@/lib/cart-abandonment/scheduler';
+import { runImportJob } from '@/lib/import-job';
+import { processImportBatch } from '@/lib/import-batch';
+import { runInventoryCheck } from '@/lib/inventory-check';
+import { releaseExpiredHolds } from '@/lib/inventory-holds';
+import { closeCheckouts } from '@/lib/stripe';
+import { runPriceMonitor } from '@/lib/price-monitor';
+import { runRegistryLifecycle } from '@/lib/registry/completion';
+import { syncProductSearchIndex } from '@/lib/search-sync';
+import { runSupplierScorecards } from '@/lib/supplier-scorecard';
+import { pollShipmentTracking } from '@/lib/tracking';
+import { createSupplierPageSource } from '@/services/aliexpress';
+import { enqueueJob } from './queue';
+import type { JobHandlers } from './types';
+
+/**
+ * How long one `import.batch` run keeps starting rows before handing the
+ * rest of the batch to a follow-up job
+ */
+const BATCH_SLICE_MS = 3 * 60 * 1000;
+
+/**
+ * How long one `cron.tracking-poll` run keeps asking the provider; parcels
+ * left over wait for the next run
+ */
+const TRACKING_POLL_SLICE_MS = 3 * 60 * 1000;
+
+export const JOB_HANDLERS: JobHandlers = {
+  'import.product': ({ jobId, ...input }) => runImportJob(jobId, input),
+
+  'import.batch': async ({ batchId }) => {
+    const finished = await processImportBatch(batchId, new Date(Date.now() + BATCH_SLICE_MS));
+    if (!finished) {
+      await enqueueJob('import.batch', { batchId });
+    }
+    return { finished };
+  },
+
+  'email.send': async (email) => {
+    const result = await sendEmail(email);
+    if (!result.success) {
+      throw new Error(result.error || 'Email send failed');
+    }
+    return { messageId: result.messageId };
+  },
+
+  'search.index-product': ({ slug }) => syncProductSearchIndex(slug),
+
+  'cron.inventory-check': async () => {
+    const pages = createSupplierPageSource();
+    try {
+      return await runInventoryCheck(pages);
+    } finally {
+      await pages.close().catch(() => {});
+    }
+  },
+
+  'cron.price-monitor': () => runPriceMonitor(),
+
+  'cron.cart-abandonment': async () => {
+    if (!cartAbandonmentConfig.enabled) {
+      return { skipped: 'Cart abandonment emails are disabled' };
+    }
+    const results = await runEmailScheduler();
+    return { totalSent: results.totalSent, totalFailed: results.totalFailed };
+  },
+
+  'cron.registry-lifecycle': () => runRegistryLifecycle(),
+
+  'cron.supplier-scorecards': () => runSupplierScorecards(),
+
+  'cron.tracking-poll': () => pollShipmentTracking(new Date(Date.now() + TRACKING_POLL_SLICE_MS)),
+
+  'cron.inventory-holds': async () => {
+    const { released, checkoutIds } = await releaseExpiredHolds();
+    await closeCheckouts(checkoutIds);
+    return { released, closed: checkoutIds.length };
+  },
+};
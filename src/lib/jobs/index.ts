@@ -0,0 +1,36 @@
+/**
+ * Background Jobs
+ *
+ * Postgres-backed job queue with typed payloads, retries with backoff,
+ * dead-lettering and per-type concurrency limits. Enqueue from anywhere;
+ * jobs run in the worker (`npm run worker`) or the `/api/cron/jobs`
+ * drain route. The worker itself lives in `./worker`, which loads every
+ * handler, so import it directly where it's needed.
+ */
+
+export {
+  enqueueJob,
+  enqueueEmail,
+  enqueueCronJob,
+  claimJobs,
+  completeJob,
+  failJob,
+  recoverStaleJobs,
+  retryJob,
+  cancelJob,
+  cancelJobByUniqueKey,
+  getJobCounts,
+  listJobs,
+} from './queue';
+export { JOB_SETTINGS, isJobType } from './settings';
+export { MAX_RETRY_DELAY_MS, getRetryDelayMs, planJobFailure } from './retry';
+export type {
+  QueuedEmail,
+  JobPayloads,
+  JobType,
+  JobContext,
+  JobHandler,
+  JobHandlers,
+  JobSettings,
+  EnqueueJobOptions,
+} from './types';
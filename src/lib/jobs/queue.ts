@@ -0,0 +1,298 @@
+/**
+ * Background Job Queue
+ *
+ * Postgres-backed queue on the `BackgroundJob` table. Workers claim due
+ * jobs with `SELECT ... FOR UPDATE SKIP LOCKED`, so any number of them can
+ * poll the same table without taking the same job. Claims for a type are
+ * serialized with an advisory lock so its concurrency limit holds across
+ * workers. Failed runs are retried with backoff; a job out of attempts is
+ * dead-lettered and reported to Sentry.
+ */
+
+import type { BackgroundJob, BackgroundJobStatus } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { captureException } from '@/lib/sentry';
+import { ConflictError } from '@/lib/errors';
+import { JOB_SETTINGS } from './settings';
+import { planJobFailure } from './retry';
+import type { EnqueueJobOptions, JobPayloads, JobType, QueuedEmail } from './types';
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Add a job to the queue
+ *
+ * Pass a transaction client to enqueue the job with the change that
+ * needs it; the job only becomes visible if the transaction commits.
+ *
+ * @returns The job's ID; for a repeated `uniqueKey`, the existing job's
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueJobOptions = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<{ id: string }> {
+  const data: Prisma.BackgroundJobCreateInput = {
+    type,
+    payload: payload as Prisma.InputJsonValue,
+    priority: options.priority ?? 0,
+    maxAttempts: options.maxAttempts ?? JOB_SETTINGS[type].maxAttempts,
+    runAt: options.runAt ?? new Date(),
+    uniqueKey: options.uniqueKey,
+  };
+
+  if (options.uniqueKey) {
+    return client.backgroundJob.upsert({
+      where: { uniqueKey: options.uniqueKey },
+      create: data,
+      update: {},
+      select: { id: true },
+    });
+  }
+
+  return client.backgroundJob.create({ data, select: { id: true } });
+}
+
+/**
+ * Queue an email
+ */
+export function enqueueEmail(
+  email: QueuedEmail,
+  options?: EnqueueJobOptions,
+  client?: Prisma.TransactionClient
+): Promise<{ id: string }> {
+  return enqueueJob('email.send', email, options, client);
+}
+
+/**
+ * Queue a scheduled job, once per minute however often the schedule fires
+ */
+export function enqueueCronJob(
+  type: Extract<JobType, `cron.${string}`>,
+  now: Date = new Date()
+): Promise<{ id: string }> {
+  const slot = now.toISOString().slice(0, 16);
+  return enqueueJob(type, {}, { uniqueKey: `${type}:${slot}` });
+}
+
+// ============================================
+// CLAIM & COMPLETE
+// ============================================
+
+/**
+ * Claim due jobs of one type for a worker
+ *
+ * Never claims more than the type's free concurrency slots. Claimed jobs
+ * are RUNNING with their attempt count already incremented.
+ */
+export async function claimJobs(type: JobType, workerId: string, limit: number): Promise<BackgroundJob[]> {
+  const { concurrency } = JOB_SETTINGS[type];
+
+  return prisma.$transaction(async (tx) => {
+    // Only one worker at a time counts and claims this type's slots
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`background-job:${type}`}))`;
+
+    const running = await tx.backgroundJob.count({ where: { type, status: 'RUNNING' } });
+    const slots = Math.min(limit, concurrency - running);
+    if (slots <= 0) {
+      return [];
+    }
+
+    const due = await tx.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "BackgroundJob"
+      WHERE "type" = ${type} AND "status" = 'PENDING' AND "runAt" <= now()
+      ORDER BY "priority" DESC, "runAt" ASC
+      LIMIT ${slots}
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (due.length === 0) {
+      return [];
+    }
+
+    const ids = due.map((row) => row.id);
+    await tx.backgroundJob.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: 'RUNNING',
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    return tx.backgroundJob.findMany({ where: { id: { in: ids } } });
+  });
+}
+
+/**
+ * Mark a claimed job as done
+ */
+export async function completeJob(job: BackgroundJob, result: unknown): Promise<void> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: {
+      status: 'COMPLETED',
+      completedAt: new Date(),
+      result: result === undefined ? Prisma.DbNull : (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+
+  if (count === 0) {
+    logger.warn('Background job finished after losing its lock', { jobId: job.id, type: job.type });
+  }
+}
+
+/**
+ * Record a failed run, scheduling a retry or dead-lettering the job
+ *
+ * @returns The job's new status
+ */
+export async function failJob(
+  job: BackgroundJob,
+  error: unknown
+): Promise<Extract<BackgroundJobStatus, 'PENDING' | 'DEAD'>> {
+  const settings = JOB_SETTINGS[job.type as JobType];
+  const message = error instanceof Error ? error.message : String(error);
+  const next = planJobFailure(job, settings?.backoffMs ?? 60_000);
+
+  await prisma.backgroundJob.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: {
+      status: next.status,
+      runAt: next.runAt,
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+
+  const context = { jobId: job.id, type: job.type, attempts: job.attempts, maxAttempts: job.maxAttempts };
+
+  if (next.status === 'DEAD') {
+    logger.error('Background job dead-lettered', error as Error, context);
+    captureException(error, {
+      tags: { jobType: job.type },
+      extra: { ...context, payload: job.payload },
+    });
+  } else {
+    logger.warn('Background job failed, will retry', { ...context, error: message, retryAt: next.runAt });
+  }
+
+  return next.status;
+}
+
+/**
+ * Release jobs whose worker stopped before finishing them
+ *
+ * A job RUNNING for longer than its type's `timeoutMs` counts as a failed
+ * attempt.
+ *
+ * @returns Number of jobs released
+ */
+export async function recoverStaleJobs(now: Date = new Date()): Promise<number> {
+  let recovered = 0;
+
+  for (const [type, settings] of Object.entries(JOB_SETTINGS)) {
+    const stale = await prisma.backgroundJob.findMany({
+      where: {
+        type,
+        status: 'RUNNING',
+        lockedAt: { lt: new Date(now.getTime() - settings.timeoutMs) },
+      },
+    });
+
+    for (const job of stale) {
+      await failJob(job, new Error(`Worker ${job.lockedBy ?? 'unknown'} stopped responding`));
+      recovered++;
+    }
+  }
+
+  return recovered;
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+/**
+ * Run a dead-lettered or cancelled job again, with a fresh set of attempts
+ *
+ * @throws ConflictError if the job is not dead or cancelled
+ */
+export async function retryJob(id: string): Promise<void> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id, status: { in: ['DEAD', 'CANCELLED'] } },
+    data: { status: 'PENDING', attempts: 0, runAt: new Date(), completedAt: null },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Only dead or cancelled jobs can be retried');
+  }
+}
+
+/**
+ * Cancel a job that hasn't started
+ *
+ * @throws ConflictError if the job is not pending
+ */
+export async function cancelJob(id: string): Promise<void> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Only pending jobs can be cancelled');
+  }
+}
+
+/**
+ * Cancel the pending job enqueued with a unique key, if there is one
+ *
+ * @returns Whether a job was cancelled
+ */
+export async function cancelJobByUniqueKey(uniqueKey: string): Promise<boolean> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { uniqueKey, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  });
+
+  return count > 0;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Number of jobs per type and status
+ */
+export async function getJobCounts(): Promise<Array<{ type: string; status: BackgroundJobStatus; count: number }>> {
+  const groups = await prisma.backgroundJob.groupBy({
+    by: ['type', 'status'],
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({ type: group.type, status: group.status, count: group._count._all }));
+}
+
+/**
+ * Most recent jobs, optionally filtered
+ */
+export async function listJobs(
+  filter: { status?: BackgroundJobStatus; type?: string } = {},
+  take: number = 100
+): Promise<BackgroundJob[]> {
+  return prisma.backgroundJob.findMany({
+    where: { status: filter.status, type: filter.type },
+    orderBy: { createdAt: 'desc' },
+    take,
+  });
+}
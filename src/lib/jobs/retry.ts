@@ -0,0 +1,56 @@
+/**
+ * Job Retry Policy
+ *
+ * Exponential backoff between attempts and the decision to retry or
+ * dead-letter a failed run. Pure, so it can be tested without a database.
+ */
+
+import type { BackgroundJobStatus } from '@prisma/client';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Longest wait between two attempts
+ */
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// ============================================
+// RETRY
+// ============================================
+
+/**
+ * Delay before the next attempt
+ *
+ * Doubles with each attempt from `baseMs`, capped at `MAX_RETRY_DELAY_MS`,
+ * with up to 20% jitter so jobs that failed together don't retry together.
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param random - Source of jitter, 0 to 1
+ */
+export function getRetryDelayMs(attempt: number, baseMs: number, random: number = Math.random()): number {
+  const delay = Math.min(baseMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + 0.2 * random));
+}
+
+/**
+ * What happens to a job after a failed run
+ *
+ * @returns The job's new status and, when it will be retried, when
+ */
+export function planJobFailure(
+  job: { attempts: number; maxAttempts: number },
+  backoffMs: number,
+  now: Date = new Date(),
+  random?: number
+): { status: Extract<BackgroundJobStatus, 'PENDING' | 'DEAD'>; runAt?: Date } {
+  if (job.attempts >= job.maxAttempts) {
+    return { status: 'DEAD' };
+  }
+
+  return {
+    status: 'PENDING',
+    runAt: new Date(now.getTime() + getRetryDelayMs(job.attempts, backoffMs, random)),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Job Settings
+ *
+ * Concurrency, retries and time limits for each job type.
+ */
+
+import type { JobSettings, JobType } from './types';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Time limits stay under the `/api/cron/jobs` route's 5 minutes, so every
+ * type can also run there. Longer work (bulk imports) is split into
+ * follow-up jobs.
+ */
+export const JOB_SETTINGS: Record<JobType, JobSettings> = {
+  // Imports drive a headless browser against AliExpress, so keep them few
+  'import.product': { concurrency: 2, maxAttempts: 3, backoffMs: 2 * MINUTE, timeoutMs: 4 * MINUTE },
+  'import.batch': { concurrency: 1, maxAttempts: 3, backoffMs: 5 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'email.send': { concurrency: 5, maxAttempts: 6, backoffMs: MINUTE, timeoutMs: MINUTE },
+  'search.index-product': { concurrency: 3, maxAttempts: 5, backoffMs: MINUTE, timeoutMs: MINUTE },
+  // Scheduled jobs run again at their next slot, so retry only briefly
+  'cron.inventory-check': { concurrency: 1, maxAttempts: 2, backoffMs: 10 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.price-monitor': { concurrency: 1, maxAttempts: 2, backoffMs: 10 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.cart-abandonment': { concurrency: 1, maxAttempts: 2, backoffMs: 2 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.registry-lifecycle': { concurrency: 1, maxAttempts: 3, backoffMs: 10 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.supplier-scorecards': { concurrency: 1, maxAttempts: 3, backoffMs: 10 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.tracking-poll': { concurrency: 1, maxAttempts: 2, backoffMs: 15 * MINUTE, timeoutMs: 4.5 * MINUTE },
+  'cron.inventory-holds': { concurrency: 1, maxAttempts: 2, backoffMs: MINUTE, timeoutMs: 2 * MINUTE },
+};
+
+/**
+ * Whether a string names a known job type
+ */
+export function isJobType(type: string): type is JobType {
+  return type in JOB_SETTINGS;
+}
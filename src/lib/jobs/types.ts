@@ -0,0 +1,94 @@
+/**
+ * Background Job Types
+ *
+ * Every job type and the payload it carries. Payloads are stored as JSON,
+ * so they must be plain data.
+ */
+
+import type { SendEmailOptions } from '@/lib/email/service';
+import type { ImportProductInput } from '@/services/import';
+
+// ============================================
+// PAYLOADS
+// ============================================
+
+/**
+ * An email to send later; rendered to HTML or text before it is queued
+ */
+export type QueuedEmail = Omit<SendEmailOptions, 'react' | 'attachments'>;
+
+/**
+ * Payload for each job type
+ */
+export interface JobPayloads {
+  /** Single-product import tracked by the ImportJob with `jobId` */
+  'import.product': {
+    jobId: string;
+    url: string;
+    categoryId: string;
+    overrides?: ImportProductInput['overrides'];
+  };
+  /** Pending rows of a bulk import */
+  'import.batch': { batchId: string };
+  'email.send': QueuedEmail;
+  /** Push a product to the search index, or remove it if it's inactive */
+  'search.index-product': { slug: string };
+  'cron.inventory-check': Record<string, never>;
+  'cron.price-monitor': Record<string, never>;
+  'cron.cart-abandonment': Record<string, never>;
+  'cron.registry-lifecycle': Record<string, never>;
+  'cron.supplier-scorecards': Record<string, never>;
+  'cron.tracking-poll': Record<string, never>;
+  'cron.inventory-holds': Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+// ============================================
+// DEFINITIONS
+// ============================================
+
+/**
+ * Passed to a handler with its payload
+ */
+export interface JobContext {
+  jobId: string;
+  /** 1 on the first run */
+  attempt: number;
+}
+
+/**
+ * Does a job's work; throw to retry. The return value is stored as the
+ * job's result.
+ */
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+
+export type JobHandlers = { [T in JobType]: JobHandler<T> };
+
+/**
+ * How a job type is scheduled and retried
+ */
+export interface JobSettings {
+  /** Jobs of this type running at once, across all workers */
+  concurrency: number;
+  /** Runs before the job is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each later one */
+  backoffMs: number;
+  /** Longest a run may take; a lock held longer is treated as abandoned */
+  timeoutMs: number;
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueJobOptions {
+  /** Earliest time to run; defaults to now */
+  runAt?: Date;
+  /** Higher runs first */
+  priority?: number;
+  /** Overrides the type's `maxAttempts` */
+  maxAttempts?: number;
+  /** Enqueue at most one job with this key; later calls return the first */
+  uniqueKey?: string;
+}
@@ -0,0 +1,187 @@
+/**
+ * Job Worker
+ *
+ * Polls the queue and runs jobs with their handlers. `runWorker` is the
+ * long-running loop behind `npm run worker`; `drainJobs` works through
+ * due jobs until a deadline, for the `/api/cron/jobs` route on hosts
+ * without a worker process.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { BackgroundJob } from '@prisma/client';
+import { logger } from '@/lib/logger';
+import { JOB_HANDLERS } from './handlers';
+import { JOB_SETTINGS } from './settings';
+import { claimJobs, completeJob, failJob, recoverStaleJobs } from './queue';
+import type { JobHandlers, JobType } from './types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * How often a worker looks for jobs abandoned by a crashed worker
+ */
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WorkerOptions {
+  /** Identifies the worker in job locks; defaults to host and a random suffix */
+  workerId?: string;
+  pollIntervalMs?: number;
+  /** Job types to run; defaults to all */
+  types?: JobType[];
+  /** Stops the loop; running jobs are allowed to finish */
+  signal?: AbortSignal;
+  handlers?: JobHandlers;
+}
+
+export interface DrainResult {
+  completed: number;
+  failed: number;
+}
+
+// ============================================
+// RUN
+// ============================================
+
+/**
+ * Run one claimed job and record the outcome
+ *
+ * @returns Whether the run succeeded
+ */
+export async function runJob(job: BackgroundJob, handlers: JobHandlers = JOB_HANDLERS): Promise<boolean> {
+  const handler = handlers[job.type as JobType] as
+    | ((payload: unknown, context: { jobId: string; attempt: number }) => Promise<unknown>)
+    | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+
+    const result = await handler(job.payload, { jobId: job.id, attempt: job.attempts });
+    await completeJob(job, result);
+    return true;
+  } catch (error) {
+    await failJob(job, error);
+    return false;
+  }
+}
+
+function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Poll for jobs until stopped
+ *
+ * Runs up to each type's concurrency limit at once; the limit also holds
+ * across workers, since claims check jobs running anywhere.
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId ?? defaultWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const types = options.types ?? (Object.keys(JOB_SETTINGS) as JobType[]);
+  const handlers = options.handlers ?? JOB_HANDLERS;
+  const { signal } = options;
+
+  const running = new Map<JobType, number>();
+  const inFlight = new Set<Promise<unknown>>();
+  let lastRecovery = 0;
+
+  logger.info('Job worker started', { workerId, types });
+
+  while (!signal?.aborted) {
+    try {
+      if (Date.now() - lastRecovery >= RECOVERY_INTERVAL_MS) {
+        lastRecovery = Date.now();
+        const recovered = await recoverStaleJobs();
+        if (recovered > 0) {
+          logger.warn('Recovered abandoned background jobs', { recovered });
+        }
+      }
+
+      let claimed = 0;
+      for (const type of types) {
+        const free = JOB_SETTINGS[type].concurrency - (running.get(type) ?? 0);
+        if (free <= 0) continue;
+
+        const jobs = await claimJobs(type, workerId, free);
+        claimed += jobs.length;
+
+        for (const job of jobs) {
+          running.set(type, (running.get(type) ?? 0) + 1);
+          const run = runJob(job, handlers).finally(() => {
+            running.set(type, (running.get(type) ?? 1) - 1);
+            inFlight.delete(run);
+          });
+          inFlight.add(run);
+        }
+      }
+
+      if (claimed === 0) {
+        await sleep(pollIntervalMs, signal);
+      }
+    } catch (error) {
+      logger.error('Job worker poll failed', error as Error, { workerId });
+      await sleep(pollIntervalMs, signal);
+    }
+  }
+
+  logger.info('Job worker stopping, waiting for running jobs', { workerId, running: inFlight.size });
+  await Promise.allSettled([...inFlight]);
+  logger.info('Job worker stopped', { workerId });
+}
+
+/**
+ * Run due jobs one at a time until none are left or the deadline nears
+ *
+ * Only claims jobs whose type's `timeoutMs` fits in the time left, so a
+ * request-bound run never starts a job it can't finish.
+ */
+export async function drainJobs(deadline: Date, handlers: JobHandlers = JOB_HANDLERS): Promise<DrainResult> {
+  const workerId = `drain:${defaultWorkerId()}`;
+  const result: DrainResult = { completed: 0, failed: 0 };
+
+  await recoverStaleJobs();
+
+  while (true) {
+    const remaining = deadline.getTime() - Date.now();
+    const types = (Object.keys(JOB_SETTINGS) as JobType[]).filter(
+      (type) => JOB_SETTINGS[type].timeoutMs <= remaining
+    );
+
+    let job: BackgroundJob | undefined;
+    for (const type of types) {
+      [job] = await claimJobs(type, workerId, 1);
+      if (job) break;
+    }
+
+    if (!job) {
+      return result;
+    }
+
+    if (await runJob(job, handlers)) {
+      result.completed++;
+    } else {
+      result.failed++;
+    }
+  }
+}
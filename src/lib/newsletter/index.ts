@@ -0,0 +1,28 @@
+/**
+ * Newsletter
+ *
+ * Double opt-in newsletter subscriptions with topic preferences, and the
+ * marketing opt-out shared with cart abandonment emails. Unsubscribe links
+ * and List-Unsubscribe headers are built by `@/lib/email/unsubscribe` and
+ * handled by `/api/email/unsubscribe`.
+ */
+
+export {
+  CONFIRMATION_TTL_HOURS,
+  normalizeEmail,
+  getConfirmationUrl,
+  getNewsletterPreferencesUrl,
+  subscribeToNewsletter,
+  confirmNewsletterSubscription,
+  getNewsletterSubscription,
+  updateNewsletterTopics,
+  unsubscribeFromMarketing,
+  isUnsubscribedFromMarketing,
+} from './subscriptions';
+export type { SubscribeToNewsletterInput, SubscribeOutcome } from './subscriptions';
+export {
+  NEWSLETTER_TOPICS,
+  NEWSLETTER_TOPIC_LABELS,
+  DEFAULT_NEWSLETTER_TOPICS,
+  normalizeTopics,
+} from './topics';
@@ -0,0 +1,356 @@
+/**
+ * Newsletter Subscriptions
+ *
+ * Double opt-in newsletter subscriptions and the shared marketing opt-out.
+ * Subscribing creates a PENDING `NewsletterSubscription` and emails a
+ * confirmation link; the subscription becomes ACTIVE once the link is
+ * clicked.
+ *
+ * Unsubscribing from any marketing email (newsletter or cart abandonment)
+ * goes through `unsubscribeFromMarketing`, which marks the subscription
+ * UNSUBSCRIBED and flags the address's cart abandonment records, so one
+ * opt-out is honoured everywhere.
+ */
+
+import crypto from 'crypto';
+import * as React from 'react';
+import type { NewsletterSubscription, NewsletterTopic } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { emailConfig } from '@/lib/email/config';
+import { sendTemplateEmail } from '@/lib/email/service';
+import { createUnsubscribeToken, type UnsubscribeType } from '@/lib/email/unsubscribe';
+import { NewsletterConfirmationEmail } from '@/lib/email/templates/newsletter-confirmation';
+import { DEFAULT_NEWSLETTER_TOPICS, NEWSLETTER_TOPIC_LABELS } from './topics';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * How long a confirmation link stays valid
+ */
+export const CONFIRMATION_TTL_HOURS = 72;
+
+/**
+ * Minimum time between confirmation emails to the same address
+ */
+const CONFIRMATION_RESEND_MINUTES = 5;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Input for subscribing an email address
+ */
+export interface SubscribeToNewsletterInput {
+  email: string;
+  /** Defaults to the existing topics, or every topic for new subscribers */
+  topics?: NewsletterTopic[];
+  /** Links the subscription to an account */
+  userId?: string | null;
+  /** Where the signup came from, e.g. `home` or `account` */
+  source?: string | null;
+}
+
+/**
+ * Outcome of a subscribe request
+ */
+export type SubscribeOutcome = 'confirmation_sent' | 'already_pending' | 'already_subscribed';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Normalize an email address for storage and lookups
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function generateConfirmationToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Link to the confirmation page for a token
+ */
+export function getConfirmationUrl(token: string): string {
+  return `${emailConfig.baseUrl}/newsletter/confirm?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Signed link to the preferences page, for use in newsletter emails
+ */
+export function getNewsletterPreferencesUrl(email: string): string {
+  const params = new URLSearchParams({
+    email: normalizeEmail(email),
+    token: createUnsubscribeToken(email),
+  });
+
+  return `${emailConfig.baseUrl}/newsletter/preferences?${params.toString()}`;
+}
+
+async function sendConfirmationEmail(subscription: NewsletterSubscription): Promise<void> {
+  const result = await sendTemplateEmail({
+    to: subscription.email,
+    subject: 'Please confirm your Baby Petite newsletter subscription',
+    react: React.createElement(NewsletterConfirmationEmail, {
+      confirmUrl: getConfirmationUrl(subscription.confirmationToken!),
+      topics: subscription.topics.map((topic) => NEWSLETTER_TOPIC_LABELS[topic].label),
+      expiresInHours: CONFIRMATION_TTL_HOURS,
+    }),
+    tags: { type: 'newsletter-confirmation' },
+  });
+
+  if (!result.success) {
+    logger.error('Failed to send newsletter confirmation', undefined, {
+      email: subscription.email,
+      error: result.error,
+    });
+    throw new Error(result.error || 'Failed to send confirmation email');
+  }
+}
+
+/**
+ * Only link an account that isn't already linked to another subscription
+ */
+async function getLinkableUserId(userId: string | null | undefined, subscriptionId?: string) {
+  if (!userId) {
+    return undefined;
+  }
+
+  const linked = await prisma.newsletterSubscription.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  return !linked || linked.id === subscriptionId ? userId : undefined;
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+
+/**
+ * Subscribe an email address and send the double opt-in confirmation
+ *
+ * Active subscribers aren't emailed again; their topics are updated if new
+ * ones are given. Pending subscribers get a fresh link, at most once every
+ * few minutes.
+ */
+export async function subscribeToNewsletter(
+  input: SubscribeToNewsletterInput
+): Promise<{ outcome: SubscribeOutcome; subscription: NewsletterSubscription }> {
+  const email = normalizeEmail(input.email);
+  const existing = await prisma.newsletterSubscription.findUnique({ where: { email } });
+  const userId = await getLinkableUserId(input.userId, existing?.id);
+
+  if (existing?.status === 'ACTIVE') {
+    const subscription = await prisma.newsletterSubscription.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.topics && input.topics.length > 0 && { topics: input.topics }),
+        ...(userId && !existing.userId && { userId }),
+      },
+    });
+    return { outcome: 'already_subscribed', subscription };
+  }
+
+  const resendAfter = new Date(Date.now() - CONFIRMATION_RESEND_MINUTES * 60 * 1000);
+  if (
+    existing?.status === 'PENDING' &&
+    existing.confirmationToken &&
+    existing.confirmationSentAt &&
+    existing.confirmationSentAt > resendAfter
+  ) {
+    return { outcome: 'already_pending', subscription: existing };
+  }
+
+  const topics =
+    input.topics && input.topics.length > 0
+      ? input.topics
+      : existing?.topics.length
+        ? existing.topics
+        : DEFAULT_NEWSLETTER_TOPICS;
+
+  const data = {
+    status: 'PENDING' as const,
+    topics,
+    confirmationToken: generateConfirmationToken(),
+    confirmationSentAt: new Date(),
+    ...(input.source && { source: input.source }),
+  };
+
+  const subscription = existing
+    ? await prisma.newsletterSubscription.update({
+        where: { id: existing.id },
+        data: { ...data, ...(userId && !existing.userId && { userId }) },
+      })
+    : await prisma.newsletterSubscription.create({
+        data: { ...data, email, userId },
+      });
+
+  await sendConfirmationEmail(subscription);
+
+  logger.info('Newsletter confirmation sent', { email, source: input.source });
+
+  return { outcome: 'confirmation_sent', subscription };
+}
+
+/**
+ * Confirm a subscription from its double opt-in token
+ *
+ * Confirming is an explicit opt-in, so it also lifts an earlier marketing
+ * opt-out on the address's cart abandonment records.
+ */
+export async function confirmNewsletterSubscription(token: string): Promise<NewsletterSubscription> {
+  const pending = await prisma.newsletterSubscription.findUnique({
+    where: { confirmationToken: token },
+  });
+
+  if (!pending || pending.status !== 'PENDING') {
+    throw new NotFoundError('This confirmation link is invalid or has already been used');
+  }
+
+  const expiresAt = new Date(
+    (pending.confirmationSentAt ?? pending.createdAt).getTime() + CONFIRMATION_TTL_HOURS * 60 * 60 * 1000
+  );
+  if (expiresAt < new Date()) {
+    throw new BadRequestError('This confirmation link has expired. Please subscribe again.');
+  }
+
+  const [subscription] = await prisma.$transaction([
+    prisma.newsletterSubscription.update({
+      where: { id: pending.id },
+      data: {
+        status: 'ACTIVE',
+        confirmationToken: null,
+        confirmedAt: new Date(),
+        unsubscribedAt: null,
+      },
+    }),
+    prisma.cartAbandonment.updateMany({
+      where: { email: { equals: pending.email, mode: 'insensitive' }, unsubscribed: true },
+      data: { unsubscribed: false },
+    }),
+  ]);
+
+  logger.info('Newsletter subscription confirmed', { email: subscription.email });
+
+  return subscription;
+}
+
+/**
+ * Get a subscription by email address or account
+ */
+export async function getNewsletterSubscription(
+  where: { email: string } | { userId: string }
+): Promise<NewsletterSubscription | null> {
+  if ('userId' in where) {
+    return prisma.newsletterSubscription.findUnique({ where: { userId: where.userId } });
+  }
+  return prisma.newsletterSubscription.findUnique({ where: { email: normalizeEmail(where.email) } });
+}
+
+/**
+ * Change which topics a subscriber receives
+ *
+ * Choosing no topics unsubscribes the address.
+ */
+export async function updateNewsletterTopics(
+  email: string,
+  topics: NewsletterTopic[]
+): Promise<NewsletterSubscription> {
+  const normalizedEmail = normalizeEmail(email);
+
+  if (topics.length === 0) {
+    return unsubscribeFromMarketing(normalizedEmail, 'newsletter');
+  }
+
+  const subscription = await prisma.newsletterSubscription.findUnique({
+    where: { email: normalizedEmail },
+  });
+
+  if (!subscription) {
+    throw new NotFoundError('Email not found in our newsletter list');
+  }
+  if (subscription.status === 'UNSUBSCRIBED') {
+    throw new BadRequestError('This email is unsubscribed. Please subscribe again to choose topics.');
+  }
+
+  return prisma.newsletterSubscription.update({
+    where: { id: subscription.id },
+    data: { topics },
+  });
+}
+
+// ============================================
+// MARKETING OPT-OUT
+// ============================================
+
+/**
+ * Unsubscribe an email address from all marketing email
+ *
+ * Keeps an UNSUBSCRIBED subscription row even for addresses that never
+ * subscribed, so cart abandonment records created later still honour it.
+ */
+export async function unsubscribeFromMarketing(
+  email: string,
+  type: UnsubscribeType
+): Promise<NewsletterSubscription> {
+  const normalizedEmail = normalizeEmail(email);
+  const now = new Date();
+
+  const [subscription] = await prisma.$transaction([
+    prisma.newsletterSubscription.upsert({
+      where: { email: normalizedEmail },
+      create: {
+        email: normalizedEmail,
+        status: 'UNSUBSCRIBED',
+        topics: [],
+        unsubscribedAt: now,
+        source: `unsubscribe:${type}`,
+      },
+      update: {
+        status: 'UNSUBSCRIBED',
+        confirmationToken: null,
+        unsubscribedAt: now,
+      },
+    }),
+    prisma.cartAbandonment.updateMany({
+      where: { email: { equals: normalizedEmail, mode: 'insensitive' } },
+      data: { unsubscribed: true },
+    }),
+  ]);
+
+  logger.info('Email unsubscribed from marketing', { email: normalizedEmail, type });
+
+  return subscription;
+}
+
+/**
+ * Check whether an email address has opted out of marketing email
+ *
+ * An opt-out stands until a new subscription is confirmed, so subscribing
+ * someone else's address doesn't undo it.
+ */
+export async function isUnsubscribedFromMarketing(email: string): Promise<boolean> {
+  const normalizedEmail = normalizeEmail(email);
+
+  const [subscription, abandonment] = await Promise.all([
+    prisma.newsletterSubscription.findUnique({
+      where: { email: normalizedEmail },
+      select: { unsubscribedAt: true },
+    }),
+    prisma.cartAbandonment.findFirst({
+      where: { email: { equals: normalizedEmail, mode: 'insensitive' }, unsubscribed: true },
+      select: { id: true },
+    }),
+  ]);
+
+  return !!subscription?.unsubscribedAt || !!abandonment;
+}
@@ -0,0 +1,47 @@
+/**
+ * Newsletter Topics
+ *
+ * The topics subscribers can choose between. Safe to import from client
+ * components.
+ */
+
+import type { NewsletterTopic } from '@prisma/client';
+
+// ============================================
+// TOPICS
+// ============================================
+
+/**
+ * Topics in the order they are shown to subscribers
+ */
+export const NEWSLETTER_TOPICS: NewsletterTopic[] = ['NEW_ARRIVALS', 'SALES', 'REGISTRY_TIPS'];
+
+/**
+ * Label and description for each topic
+ */
+export const NEWSLETTER_TOPIC_LABELS: Record<NewsletterTopic, { label: string; description: string }> = {
+  NEW_ARRIVALS: {
+    label: 'New arrivals',
+    description: 'Be the first to see new collections and restocked favourites.',
+  },
+  SALES: {
+    label: 'Sales & offers',
+    description: 'Subscriber-only discounts and early access to sales.',
+  },
+  REGISTRY_TIPS: {
+    label: 'Registry tips',
+    description: 'Checklists and advice for building your baby registry.',
+  },
+};
+
+/**
+ * New subscribers get every topic unless they choose otherwise
+ */
+export const DEFAULT_NEWSLETTER_TOPICS: NewsletterTopic[] = [...NEWSLETTER_TOPICS];
+
+/**
+ * Drop unknown and duplicate topics, keeping display order
+ */
+export function normalizeTopics(topics: string[]): NewsletterTopic[] {
+  return NEWSLETTER_TOPICS.filter((topic) => topics.includes(topic));
+}
@@ -70,6 +70,18 @@ export interface SizePredictionResult {
   reasoning: string;
 }
 
+/**
+ * Growth tips input: measurements already charted and sized locally
+ */
+export interface GrowthTipsInput {
+  ageMonths: number;
+  heightPercentile: number | null;
+  weightPercentile: number | null;
+  headCircumferencePercentile: number | null;
+  currentClothingSize: string;
+  upcomingClothingSizes: Array<{ ageMonths: number; size: string }>;
+}
+
 /**
  * Registry suggestion input
  */
@@ -563,4 +575,65 @@ Never make up order details or policies.`;
   }
 }
 
+/**
+ * Writes friendly tips for parents around a growth prediction
+ *
+ * Percentiles and sizes are computed locally from the growth charts; the
+ * model only writes the narrative and must not change the numbers.
+ *
+ * @param input - Charted growth and predicted sizes
+ * @returns Three to four short tips
+ */
+export async function generateGrowthTips(input: GrowthTipsInput): Promise<string[]> {
+  const systemPrompt = `You are a friendly baby clothing advisor for Baby Petite. Write short, practical tips for parents based on a growth summary that has already been calculated from WHO/CDC growth charts.
+
+Rules:
+- Do not restate, recalculate or contradict the percentiles or sizes
+- Do not give medical advice; suggest talking to a pediatrician for any concerns
+- Each tip is one or two sentences
+
+Respond in JSON format:
+{
+  "tips": ["string", "string", "string"]
+}`;
+
+  const format = (value: number | null) => (value === null ? 'not measured' : `${value}th percentile`);
+  const userPrompt = `Growth summary:
+- Age: ${input.ageMonths} months
+- Height: ${format(input.heightPercentile)}
+- Weight: ${format(input.weightPercentile)}
+- Head circumference: ${format(input.headCircumferencePercentile)}
+- Current clothing size: ${input.currentClothingSize}
+- Upcoming sizes: ${input.upcomingClothingSizes.map((s) => `${s.size} at ${s.ageMonths} months`).join(', ')}
+
+Write 3-4 tips.`;
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: MODELS.CHAT,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.7,
+    });
+
+    const content = response.choices[0].message.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    const { tips } = JSON.parse(content) as { tips?: unknown };
+    if (!Array.isArray(tips)) {
+      throw new Error('Unexpected response from OpenAI');
+    }
+
+    return tips.filter((tip): tip is string => typeof tip === 'string').slice(0, 4);
+  } catch (error) {
+    console.error('Failed to generate growth tips:', error);
+    throw new Error('Failed to generate growth tips');
+  }
+}
+
 export default openai;
@@ -0,0 +1,34 @@
+/**
+ * Public Order Tracking
+ *
+ * The `/track` page for guests and gift recipients: lookup by order number
+ * and email, or a signed link from the shipping email, showing the order's
+ * progress, its packages and their carrier scans with the address redacted.
+ */
+
+export { getOrderTrackingView, matchOrderForTracking, normalizeOrderNumber } from './service';
+export {
+  createOrderTrackingToken,
+  verifyOrderTrackingToken,
+  getOrderTrackingPath,
+  getOrderTrackingUrl,
+} from './links';
+export {
+  buildOrderTrackingView,
+  buildOrderSteps,
+  buildPackageSteps,
+  buildTrackingActivity,
+  getEstimatedDelivery,
+  redactAddress,
+} from './timeline';
+export type {
+  OrderTrackingView,
+  TrackingPackage,
+  TrackingActivity,
+  TrackingStep,
+  TrackingStepState,
+  TrackingScan,
+  RedactedAddress,
+  TimelineOrder,
+  TimelineShipment,
+} from './timeline';
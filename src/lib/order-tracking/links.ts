@@ -0,0 +1,70 @@
+/**
+ * Order Tracking Links
+ *
+ * Signed links to the public `/track` page, sent in shipping emails so
+ * guests and gift recipients can follow a parcel without signing in. The
+ * token is an HMAC of the order number, so a link only opens the order it
+ * was sent for.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { emailConfig } from '@/lib/email/config';
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function getTrackingLinkSecret(): string {
+  const secret = process.env.ORDER_TRACKING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('ORDER_TRACKING_SECRET or NEXTAUTH_SECRET must be set to sign tracking links');
+  }
+  return secret;
+}
+
+/**
+ * Create the tracking token for an order number
+ */
+export function createOrderTrackingToken(orderNumber: string): string {
+  return createHmac('sha256', getTrackingLinkSecret())
+    .update(`order-tracking:${orderNumber.trim().toUpperCase()}`)
+    .digest('base64url');
+}
+
+/**
+ * Check a tracking token against an order number
+ */
+export function verifyOrderTrackingToken(orderNumber: string, token: string | null | undefined): boolean {
+  if (!token) {
+    return false;
+  }
+
+  const expected = Buffer.from(createOrderTrackingToken(orderNumber));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+/**
+ * Path of the signed tracking page for an order, for redirects within the
+ * site
+ */
+export function getOrderTrackingPath(orderNumber: string): string {
+  const params = new URLSearchParams({
+    order: orderNumber.trim().toUpperCase(),
+    token: createOrderTrackingToken(orderNumber),
+  });
+
+  return `/track?${params.toString()}`;
+}
+
+/**
+ * Build the signed tracking URL for an order, for emails
+ */
+export function getOrderTrackingUrl(orderNumber: string): string {
+  return `${emailConfig.baseUrl}${getOrderTrackingPath(orderNumber)}`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Public Order Tracking Service
+ *
+ * Loads what the public `/track` page shows for an order, and checks the
+ * order number and email a guest looks an order up with.
+ */
+
+import { ShipmentStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { buildOrderTrackingView, type OrderTrackingView } from './timeline';
+
+/**
+ * Carrier scans shown per package
+ */
+const SCANS_PER_PACKAGE = 25;
+
+/**
+ * Normalize an order number as customers type it
+ */
+export function normalizeOrderNumber(orderNumber: string): string {
+  return orderNumber.trim().replace(/^#/, '').toUpperCase();
+}
+
+/**
+ * Whether an order number and email belong to the same order
+ *
+ * Matches the email the order was placed with, ignoring case.
+ */
+export async function matchOrderForTracking(orderNumber: string, email: string): Promise<boolean> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber: normalizeOrderNumber(orderNumber) },
+    select: { customerEmail: true },
+  });
+
+  return !!order && order.customerEmail.trim().toLowerCase() === email.trim().toLowerCase();
+}
+
+/**
+ * Get the public tracking view for an order
+ *
+ * Callers must have checked the customer may see the order (a signed link
+ * or a matching email); the view leaves out prices and the street address.
+ *
+ * @returns The view, or null if there is no such order
+ */
+export async function getOrderTrackingView(orderNumber: string): Promise<OrderTrackingView | null> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber: normalizeOrderNumber(orderNumber) },
+    select: {
+      orderNumber: true,
+      status: true,
+      createdAt: true,
+      confirmedAt: true,
+      shippedAt: true,
+      deliveredAt: true,
+      cancelledAt: true,
+      shippingAddress: true,
+      shipping: { select: { estimatedDelivery: true } },
+      shipments: {
+        where: { status: { not: ShipmentStatus.CANCELLED } },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          status: true,
+          carrier: true,
+          trackingNumber: true,
+          trackingUrl: true,
+          trackingStatus: true,
+          estimatedDelivery: true,
+          shippedAt: true,
+          deliveredAt: true,
+          items: {
+            select: {
+              quantity: true,
+              orderItem: { select: { productName: true, variantName: true } },
+            },
+          },
+          trackingEvents: {
+            orderBy: { occurredAt: 'desc' },
+            take: SCANS_PER_PACKAGE,
+            select: { status: true, description: true, location: true, occurredAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const { shipping, shipments, ...rest } = order;
+
+  return buildOrderTrackingView(
+    { ...rest, estimatedDelivery: shipping?.estimatedDelivery ?? null },
+    shipments.map(({ items, trackingEvents, ...shipment }) => ({
+      ...shipment,
+      items: items.map((item) => ({
+        productName: item.orderItem.productName,
+        variantName: item.orderItem.variantName,
+        quantity: item.quantity,
+      })),
+      scans: trackingEvents,
+    }))
+  );
+}
@@ -0,0 +1,311 @@
+/**
+ * Public Order Tracking Timeline
+ *
+ * Turns an order, its parcels and their carrier scans into what the public
+ * `/track` page shows: progress steps for the order and for each package,
+ * one activity feed across all of them, the delivery estimate, and the
+ * destination with the street, postcode and phone left out. Pure, so the
+ * page's rules can be tested without a database.
+ */
+
+import type { OrderStatus, ShipmentStatus, TrackingStatus } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TrackingStepState = 'complete' | 'current' | 'upcoming';
+
+/**
+ * One step of a progress bar
+ */
+export interface TrackingStep {
+  label: string;
+  state: TrackingStepState;
+  at: Date | null;
+}
+
+/**
+ * A carrier scan as the customer sees it
+ */
+export interface TrackingScan {
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * A parcel as the timeline sees it
+ */
+export interface TimelineShipment {
+  status: ShipmentStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  trackingStatus: TrackingStatus | null;
+  estimatedDelivery: Date | null;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  items: Array<{ productName: string; variantName: string; quantity: number }>;
+  /** Newest first */
+  scans: TrackingScan[];
+}
+
+/**
+ * An order as the timeline sees it
+ */
+export interface TimelineOrder {
+  orderNumber: string;
+  status: OrderStatus;
+  createdAt: Date;
+  confirmedAt: Date | null;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  cancelledAt: Date | null;
+  shippingAddress: unknown;
+  /** Estimate from the shipping method chosen at checkout */
+  estimatedDelivery: Date | null;
+}
+
+/**
+ * The destination, down to the city
+ */
+export interface RedactedAddress {
+  /** First name and last initial */
+  recipient: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+}
+
+/**
+ * An entry in the activity feed
+ */
+export interface TrackingActivity {
+  at: Date;
+  title: string;
+  location: string | null;
+  /** Set when the order ships in more than one package */
+  packageNumber: number | null;
+}
+
+/**
+ * A package on the tracking page
+ */
+export interface TrackingPackage extends Omit<TimelineShipment, 'scans'> {
+  packageNumber: number;
+  steps: TrackingStep[];
+  latestScan: TrackingScan | null;
+}
+
+/**
+ * Everything the public tracking page shows
+ */
+export interface OrderTrackingView {
+  orderNumber: string;
+  status: OrderStatus;
+  placedAt: Date;
+  cancelled: boolean;
+  estimatedDelivery: Date | null;
+  destination: RedactedAddress;
+  steps: TrackingStep[];
+  packages: TrackingPackage[];
+  /** Newest first */
+  activity: TrackingActivity[];
+}
+
+// ============================================
+// STEPS
+// ============================================
+
+/**
+ * Mark steps complete up to `completed`, the next one current
+ */
+function toSteps(steps: Array<{ label: string; at: Date | null }>, completed: number): TrackingStep[] {
+  return steps.map((step, index) => ({
+    ...step,
+    state: index < completed ? 'complete' : index === completed ? 'current' : 'upcoming',
+  }));
+}
+
+/**
+ * Progress steps for the order as a whole
+ *
+ * A split order shows as partly shipped until its last package ships.
+ * Cancelled and refunded orders stop at the cancellation.
+ */
+export function buildOrderSteps(order: TimelineOrder, shipments: TimelineShipment[]): TrackingStep[] {
+  if (order.status === 'CANCELLED' || order.status === 'REFUNDED') {
+    return toSteps(
+      [
+        { label: 'Order placed', at: order.createdAt },
+        { label: order.status === 'REFUNDED' ? 'Refunded' : 'Cancelled', at: order.cancelledAt },
+      ],
+      2
+    );
+  }
+
+  const shipped = shipments.filter((s) => s.status === 'SHIPPED' || s.status === 'DELIVERED').length;
+  const partlyShipped = shipped > 0 && shipped < shipments.length;
+
+  const steps = [
+    { label: 'Order placed', at: order.createdAt },
+    { label: 'Preparing', at: order.confirmedAt },
+    { label: partlyShipped ? `Shipped (${shipped} of ${shipments.length})` : 'Shipped', at: order.shippedAt },
+    { label: 'Delivered', at: order.deliveredAt },
+  ];
+
+  const completed: Record<OrderStatus, number> = {
+    PENDING: 1,
+    CONFIRMED: 2,
+    PROCESSING: 2,
+    SHIPPED: partlyShipped ? 2 : 3,
+    DELIVERED: 4,
+    CANCELLED: 0,
+    REFUNDED: 0,
+  };
+
+  return toSteps(steps, completed[order.status]);
+}
+
+/**
+ * Progress steps for one package, from its status and latest carrier scan
+ */
+export function buildPackageSteps(shipment: TimelineShipment): TrackingStep[] {
+  const outForDelivery = shipment.scans.find((scan) => scan.status === 'OUT_FOR_DELIVERY');
+  const steps = [
+    { label: 'Preparing', at: null },
+    { label: 'Shipped', at: shipment.shippedAt },
+    { label: 'Out for delivery', at: outForDelivery?.occurredAt ?? null },
+    { label: 'Delivered', at: shipment.deliveredAt },
+  ];
+
+  let completed = 1;
+  if (shipment.status === 'DELIVERED') {
+    completed = 4;
+  } else if (shipment.status === 'SHIPPED') {
+    completed =
+      shipment.trackingStatus === 'OUT_FOR_DELIVERY' || shipment.trackingStatus === 'AVAILABLE_FOR_PICKUP'
+        ? 3
+        : 2;
+  }
+
+  return toSteps(steps, completed);
+}
+
+// ============================================
+// ACTIVITY
+// ============================================
+
+/**
+ * One feed across the order, its packages and their carrier scans
+ */
+export function buildTrackingActivity(order: TimelineOrder, shipments: TimelineShipment[]): TrackingActivity[] {
+  const split = shipments.length > 1;
+  const activity: TrackingActivity[] = [
+    { at: order.createdAt, title: 'Order placed', location: null, packageNumber: null },
+  ];
+
+  if (order.confirmedAt) {
+    activity.push({ at: order.confirmedAt, title: 'Order confirmed', location: null, packageNumber: null });
+  }
+  if (order.cancelledAt && (order.status === 'CANCELLED' || order.status === 'REFUNDED')) {
+    activity.push({ at: order.cancelledAt, title: 'Order cancelled', location: null, packageNumber: null });
+  }
+
+  shipments.forEach((shipment, index) => {
+    const packageNumber = split ? index + 1 : null;
+    const label = split ? `Package ${index + 1}` : 'Your order';
+
+    if (shipment.shippedAt) {
+      activity.push({
+        at: shipment.shippedAt,
+        title: `${label} shipped${shipment.carrier ? ` with ${shipment.carrier}` : ''}`,
+        location: null,
+        packageNumber,
+      });
+    }
+    for (const scan of shipment.scans) {
+      activity.push({ at: scan.occurredAt, title: scan.description, location: scan.location, packageNumber });
+    }
+    // Parcels marked delivered by hand have no delivery scan
+    if (shipment.deliveredAt && !shipment.scans.some((scan) => scan.status === 'DELIVERED')) {
+      activity.push({ at: shipment.deliveredAt, title: `${label} delivered`, location: null, packageNumber });
+    }
+  });
+
+  return activity.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * When the order should arrive: with its last package still on the way,
+ * or the checkout estimate before anything has an estimate of its own
+ */
+export function getEstimatedDelivery(order: TimelineOrder, shipments: TimelineShipment[]): Date | null {
+  if (order.status === 'DELIVERED' || order.status === 'CANCELLED' || order.status === 'REFUNDED') {
+    return null;
+  }
+
+  const estimates = shipments
+    .filter((shipment) => shipment.status !== 'DELIVERED' && shipment.estimatedDelivery)
+    .map((shipment) => shipment.estimatedDelivery!.getTime());
+
+  return estimates.length > 0 ? new Date(Math.max(...estimates)) : order.estimatedDelivery;
+}
+
+// ============================================
+// REDACTION
+// ============================================
+
+/**
+ * Cut an address down to the recipient's first name and initial and the
+ * city, so a forwarded link or guessed order number doesn't give away
+ * where someone lives
+ */
+export function redactAddress(address: unknown): RedactedAddress {
+  const fields = (address && typeof address === 'object' ? address : {}) as Record<string, unknown>;
+  const text = (key: string) => {
+    const value = fields[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  };
+
+  const firstName = text('firstName');
+  const lastName = text('lastName');
+
+  return {
+    recipient: firstName ? `${firstName}${lastName ? ` ${lastName.charAt(0)}.` : ''}` : null,
+    city: text('city'),
+    state: text('state'),
+    country: text('country'),
+  };
+}
+
+// ============================================
+// VIEW
+// ============================================
+
+/**
+ * Build the tracking page for an order and its parcels (oldest first,
+ * cancelled ones left out)
+ */
+export function buildOrderTrackingView(order: TimelineOrder, shipments: TimelineShipment[]): OrderTrackingView {
+  const cancelled = order.status === 'CANCELLED' || order.status === 'REFUNDED';
+
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    placedAt: order.createdAt,
+    cancelled,
+    estimatedDelivery: getEstimatedDelivery(order, shipments),
+    destination: redactAddress(order.shippingAddress),
+    steps: buildOrderSteps(order, shipments),
+    packages: shipments.map(({ scans, ...shipment }, index) => ({
+      ...shipment,
+      packageNumber: index + 1,
+      steps: buildPackageSteps({ ...shipment, scans }),
+      latestScan: scans[0] ?? null,
+    })),
+    activity: buildTrackingActivity(order, shipments),
+  };
+}
@@ -2,6 +2,7 @@ import { prisma } from './prisma';
 import { generateSecureToken } from './auth-helpers';
 import { sendPasswordReset } from './sendgrid';
 import { hashPassword, validatePasswordStrength } from './auth-helpers';
+import { rateLimiter, PASSWORD_RESET_RATE_LIMIT } from './rate-limiter';
 
 /**
  * Password Reset Logic
@@ -48,78 +49,6 @@ export interface TokenValidationResult {
   error?: string;
 }
 
-// ============================================
-// RATE LIMITING
-// ============================================
-
-/**
- * In-memory rate limiter for password reset requests
- * In production, use Redis or a similar solution
- */
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-/**
- * Rate limit configuration
- */
-const RATE_LIMIT_CONFIG = {
-  maxRequests: 3, // Maximum requests per window
-  windowMs: 15 * 60 * 1000, // 15 minutes
-} as const;
-
-/**
- * Check if an email is rate limited for password reset
- *
- * @param email - Email address to check
- * @returns Object indicating if rate limited and retry time
- */
-function checkRateLimit(email: string): {
-  limited: boolean;
-  retryAfter?: number;
-} {
-  const now = Date.now();
-  const key = email.toLowerCase();
-  const record = rateLimitStore.get(key);
-
-  if (!record) {
-    // First request
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.windowMs,
-    });
-    return { limited: false };
-  }
-
-  // Check if window has expired
-  if (now > record.resetTime) {
-    // Reset counter
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.windowMs,
-    });
-    return { limited: false };
-  }
-
-  // Check if limit exceeded
-  if (record.count >= RATE_LIMIT_CONFIG.maxRequests) {
-    const retryAfter = Math.ceil((record.resetTime - now) / 1000);
-    return { limited: true, retryAfter };
-  }
-
-  // Increment counter
-  record.count++;
-  return { limited: false };
-}
-
-/**
- * Clear rate limit for an email
- *
- * @param email - Email address to clear
- */
-function clearRateLimit(email: string): void {
-  const key = email.toLowerCase();
-  rateLimitStore.delete(key);
-}
-
 // ============================================
 // PASSWORD RESET FUNCTIONS
 // ============================================
@@ -151,7 +80,7 @@ export async function initiatePasswordReset(
     const normalizedEmail = email.toLowerCase();
 
     // Check rate limit
-    const rateLimit = checkRateLimit(normalizedEmail);
+    const rateLimit = await rateLimiter.limit(normalizedEmail, PASSWORD_RESET_RATE_LIMIT);
     if (rateLimit.limited) {
       return {
         success: false,
@@ -286,7 +215,7 @@ export async function resetPassword(
     });
 
     if (user) {
-      clearRateLimit(user.email);
+      await rateLimiter.reset(user.email.toLowerCase(), PASSWORD_RESET_RATE_LIMIT.prefix);
     }
 
     console.log(`Password reset successful for user: ${validation.userId}`);
@@ -0,0 +1,31 @@
+/**
+ * Payments
+ *
+ * On-site payment with PaymentIntents: Stripe Customers and saved cards
+ * for signed-in shoppers, one view of a checkout's payment whether it was
+ * made on hosted Stripe Checkout or on-site, and the prices the checkout's
+ * order is created at.
+ */
+
+export {
+  getCheckoutSnapshot,
+  getOrCreateStripeCustomer,
+  listSavedCards,
+  retrievePaidCheckout,
+  saveCheckoutSnapshot,
+  setCardSaving,
+} from './service';
+export {
+  fromCheckoutSession,
+  fromPaymentIntent,
+  getAmountMismatch,
+  isCheckoutPaymentIntent,
+  toSavedCards,
+} from './normalize';
+export type {
+  CheckoutSnapshot,
+  CheckoutSnapshotLine,
+  ContactDetails,
+  PaidCheckout,
+  SavedCard,
+} from './normalize';
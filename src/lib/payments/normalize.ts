@@ -0,0 +1,206 @@
+/**
+ * Paid Checkouts
+ *
+ * Customers pay either on hosted Stripe Checkout (a Checkout Session) or
+ * on-site with the Payment Element (a PaymentIntent). Both carry the same
+ * checkout metadata; these functions read either into one shape, so the
+ * order is created from a payment the same way whichever way it was made.
+ * Pure, so they can be checked against fixture objects.
+ */
+
+import type Stripe from 'stripe';
+import type { Prisma } from '@prisma/client';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Name, contact details and address Stripe collected
+ */
+export interface ContactDetails {
+  name: string;
+  phone: string | null;
+  address: Stripe.Address | null;
+}
+
+/**
+ * A checkout payment, hosted or on-site
+ */
+export interface PaidCheckout {
+  /** Checkout Session or PaymentIntent ID; inventory holds are keyed on it */
+  id: string;
+  paymentIntentId: string | null;
+  /** Whether Stripe has the money */
+  paid: boolean;
+  /** What Stripe took, in dollars */
+  amountReceived: number;
+  /** Set by checkout: cart, customer, addresses, shipping and savings */
+  metadata: Record<string, string>;
+  email: string;
+  /** What Stripe collected, for checkouts without a saved address */
+  shipping: ContactDetails | null;
+  /** The payer's billing details */
+  billing: ContactDetails | null;
+  /** `card`, `link`, or the wallet a card was paid with, e.g. `apple_pay` */
+  paymentMethod: string;
+  cardBrand: string | null;
+  cardLast4: string | null;
+}
+
+/**
+ * A checkout line as priced for payment
+ */
+export interface CheckoutSnapshotLine {
+  variantId: string;
+  productName: string;
+  variantName: string;
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+  /** The line's share of promotions and the discount code */
+  discountAmount: number;
+  registryItemId: string | null;
+}
+
+/**
+ * What a checkout was priced at when the customer was sent to pay; the
+ * order is created from it, not from the cart as it is once paid
+ */
+export interface CheckoutSnapshot {
+  cartId: string;
+  lines: CheckoutSnapshotLine[];
+  subtotal: number;
+  discountAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  taxDetails: Prisma.InputJsonObject;
+  total: number;
+  couponCode: string | null;
+  discountId: string | null;
+  promotions: Array<{ promotionId: string; name: string; amount: number }>;
+}
+
+/**
+ * A card saved to a customer, as the payment step lists it
+ */
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+// ============================================
+// CHECKOUTS
+// ============================================
+
+/**
+ * Whether a PaymentIntent was created by on-site checkout, rather than by
+ * a Checkout Session (whose PaymentIntent carries no checkout metadata)
+ */
+export function isCheckoutPaymentIntent(paymentIntent: Stripe.PaymentIntent): boolean {
+  return !!paymentIntent.metadata?.cartId;
+}
+
+/**
+ * Read a hosted Checkout Session
+ */
+export function fromCheckoutSession(session: Stripe.Checkout.Session): PaidCheckout {
+  const details = session.customer_details;
+
+  return {
+    id: session.id,
+    paymentIntentId: typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id || null,
+    paid: session.payment_status === 'paid',
+    amountReceived: (session.amount_total ?? 0) / 100,
+    metadata: session.metadata || {},
+    email: details?.email || session.customer_email || '',
+    shipping: session.shipping_details
+      ? {
+          name: session.shipping_details.name || '',
+          phone: details?.phone || null,
+          address: session.shipping_details.address || null,
+        }
+      : null,
+    billing: details
+      ? { name: details.name || '', phone: details.phone || null, address: details.address || null }
+      : null,
+    paymentMethod: session.payment_method_types?.[0] || 'card',
+    cardBrand: null,
+    cardLast4: null,
+  };
+}
+
+/**
+ * Read an on-site PaymentIntent
+ *
+ * Billing details and the card come from its latest charge, so retrieve it
+ * with `expand: ['latest_charge']`; without it they're left empty.
+ */
+export function fromPaymentIntent(paymentIntent: Stripe.PaymentIntent): PaidCheckout {
+  const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+  const billing = charge?.billing_details;
+  const method = charge?.payment_method_details;
+
+  return {
+    id: paymentIntent.id,
+    paymentIntentId: paymentIntent.id,
+    paid: paymentIntent.status === 'succeeded',
+    amountReceived: paymentIntent.amount_received / 100,
+    metadata: paymentIntent.metadata || {},
+    email: paymentIntent.receipt_email || billing?.email || '',
+    shipping: paymentIntent.shipping
+      ? {
+          name: paymentIntent.shipping.name || '',
+          phone: paymentIntent.shipping.phone || null,
+          address: paymentIntent.shipping.address || null,
+        }
+      : null,
+    billing: billing
+      ? { name: billing.name || '', phone: billing.phone || null, address: billing.address || null }
+      : null,
+    paymentMethod: method?.card?.wallet?.type || method?.type || paymentIntent.payment_method_types?.[0] || 'card',
+    cardBrand: method?.card?.brand || null,
+    cardLast4: method?.card?.last4 || null,
+  };
+}
+
+/**
+ * Why an order needs checking before it ships because Stripe took a
+ * different amount than its checkout was priced at, or null if they match
+ */
+export function getAmountMismatch(checkout: PaidCheckout, total: number): string | null {
+  const received = Math.round(checkout.amountReceived * 100);
+  const expected = Math.round(total * 100);
+  if (received === expected) {
+    return null;
+  }
+
+  return `Paid $${(received / 100).toFixed(2)} but checkout was priced at $${(expected / 100).toFixed(2)}, refund or collect the difference`;
+}
+
+// ============================================
+// SAVED CARDS
+// ============================================
+
+/**
+ * Cards a customer can pay with, newest first, leaving out expired ones
+ */
+export function toSavedCards(paymentMethods: Stripe.PaymentMethod[], now: Date = new Date()): SavedCard[] {
+  const month = now.getFullYear() * 12 + now.getMonth() + 1;
+
+  return paymentMethods
+    .filter((method) => method.card && method.card.exp_year * 12 + method.card.exp_month >= month)
+    .sort((a, b) => b.created - a.created)
+    .map((method) => ({
+      id: method.id,
+      brand: method.card!.brand,
+      last4: method.card!.last4,
+      expMonth: method.card!.exp_month,
+      expYear: method.card!.exp_year,
+    }));
+}
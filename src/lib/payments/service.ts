@@ -0,0 +1,160 @@
+/**
+ * Payments Service
+ *
+ * Stripe Customers for signed-in shoppers, so returning customers can pay
+ * with a saved card, loading a checkout's payment whichever way it was
+ * made, and keeping what the checkout was priced at until it's paid.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { NotFoundError } from '@/lib/errors';
+import { createCustomer, listCustomerPaymentMethods, stripe } from '@/lib/stripe';
+import type { Prisma } from '@prisma/client';
+import {
+  fromCheckoutSession,
+  fromPaymentIntent,
+  toSavedCards,
+  type CheckoutSnapshot,
+  type CheckoutSnapshotLine,
+  type PaidCheckout,
+  type SavedCard,
+} from './normalize';
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+/**
+ * Get the user's Stripe Customer, creating it on first use
+ *
+ * If two checkouts create one at once, the first saved wins and the other
+ * is deleted, so a user's cards always live on one customer.
+ *
+ * @returns Stripe Customer ID
+ * @throws NotFoundError if the user doesn't exist
+ */
+export async function getOrCreateStripeCustomer(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, firstName: true, lastName: true, stripeCustomerId: true },
+  });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined;
+  const customer = await createCustomer(user.email, name, { userId });
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, stripeCustomerId: null },
+    data: { stripeCustomerId: customer.id },
+  });
+  if (count === 1) {
+    return customer.id;
+  }
+
+  await stripe.customers.del(customer.id).catch((error) => {
+    logger.warn('Could not delete duplicate Stripe customer', { customerId: customer.id, error: String(error) });
+  });
+  const saved = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { stripeCustomerId: true } });
+  return saved.stripeCustomerId!;
+}
+
+/**
+ * Cards saved to a Stripe Customer that can still be charged
+ */
+export async function listSavedCards(customerId: string): Promise<SavedCard[]> {
+  const { data } = await listCustomerPaymentMethods(customerId, 'card');
+  return toSavedCards(data);
+}
+
+/**
+ * Choose whether an on-site payment saves the card it's paid with
+ *
+ * The Payment Element picks the change up with `elements.fetchUpdates()`
+ * before confirming.
+ *
+ * @throws NotFoundError if the PaymentIntent isn't the customer's
+ */
+export async function setCardSaving(paymentIntentId: string, customerId: string, save: boolean): Promise<void> {
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.customer !== customerId) {
+    throw new NotFoundError('Payment not found');
+  }
+
+  await stripe.paymentIntents.update(paymentIntentId, {
+    setup_future_usage: save ? 'on_session' : '',
+  });
+}
+
+// ============================================
+// CHECKOUTS
+// ============================================
+
+/**
+ * Load a checkout's payment from Stripe
+ *
+ * @param checkoutId - Checkout Session (`cs_`) or PaymentIntent (`pi_`) ID
+ */
+export async function retrievePaidCheckout(checkoutId: string): Promise<PaidCheckout> {
+  if (checkoutId.startsWith('pi_')) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(checkoutId, { expand: ['latest_charge'] });
+    return fromPaymentIntent(paymentIntent);
+  }
+
+  return fromCheckoutSession(await stripe.checkout.sessions.retrieve(checkoutId));
+}
+
+/**
+ * Keep what a checkout was priced at, once Stripe has given it an ID
+ *
+ * @param checkoutId - Checkout Session (`cs_`) or PaymentIntent (`pi_`) ID
+ */
+export async function saveCheckoutSnapshot(checkoutId: string, snapshot: CheckoutSnapshot): Promise<void> {
+  await prisma.checkoutSnapshot.create({
+    data: {
+      checkoutSessionId: checkoutId,
+      cartId: snapshot.cartId,
+      lines: snapshot.lines as unknown as Prisma.InputJsonArray,
+      subtotal: snapshot.subtotal,
+      discountAmount: snapshot.discountAmount,
+      shippingAmount: snapshot.shippingAmount,
+      taxAmount: snapshot.taxAmount,
+      taxDetails: snapshot.taxDetails,
+      total: snapshot.total,
+      couponCode: snapshot.couponCode,
+      discountId: snapshot.discountId,
+      promotions: snapshot.promotions.length > 0 ? snapshot.promotions : undefined,
+    },
+  });
+}
+
+/**
+ * What a checkout was priced at, or null if it was never saved
+ *
+ * @param checkoutId - Checkout Session (`cs_`) or PaymentIntent (`pi_`) ID
+ */
+export async function getCheckoutSnapshot(checkoutId: string): Promise<CheckoutSnapshot | null> {
+  const snapshot = await prisma.checkoutSnapshot.findUnique({ where: { checkoutSessionId: checkoutId } });
+  if (!snapshot) {
+    return null;
+  }
+
+  return {
+    cartId: snapshot.cartId,
+    lines: snapshot.lines as unknown as CheckoutSnapshotLine[],
+    subtotal: snapshot.subtotal.toNumber(),
+    discountAmount: snapshot.discountAmount.toNumber(),
+    shippingAmount: snapshot.shippingAmount.toNumber(),
+    taxAmount: snapshot.taxAmount.toNumber(),
+    taxDetails: snapshot.taxDetails as Prisma.InputJsonObject,
+    total: snapshot.total.toNumber(),
+    couponCode: snapshot.couponCode,
+    discountId: snapshot.discountId,
+    promotions: (snapshot.promotions ?? []) as CheckoutSnapshot['promotions'],
+  };
+}
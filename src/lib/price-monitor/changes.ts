@@ -0,0 +1,124 @@
+/**
+ * Price Change Rules
+ *
+ * Decides what the price monitor does with a re-scraped supplier cost and
+ * works out the retail prices that go with it. Small cost changes are
+ * ignored, moderate ones are repriced automatically and large swings (which
+ * are as likely to be a scraping mistake as a real change) wait for review.
+ */
+
+import { getPriceCalculator } from '@/services/import/pricing';
+import type { AliExpressProductData, CategoryPricing, VariantMapping } from '@/types/dropshipping';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Cost changes smaller than this (in percent) are ignored
+ */
+export const PRICE_CHANGE_THRESHOLD_PERCENT = 10;
+
+/**
+ * Cost changes up to this size (in percent) are repriced automatically;
+ * anything larger is queued for review
+ */
+export const AUTO_REPRICE_MAX_PERCENT = 25;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What to do with a supplier cost change
+ */
+export type CostChangeAction = 'ignore' | 'reprice' | 'review';
+
+export interface CostChangeDecision {
+  action: CostChangeAction;
+  /** Signed change relative to the old cost, to one decimal place */
+  changePercent: number;
+}
+
+/**
+ * A local variant's price before and after a cost change
+ */
+export interface VariantPriceDiff {
+  variantId: string;
+  sku: string;
+  oldPrice: number;
+  newPrice: number;
+}
+
+// ============================================
+// DECISIONS
+// ============================================
+
+/**
+ * Decide whether a supplier cost change is ignored, repriced or reviewed
+ *
+ * @example
+ * decideCostChange(5, 5.25); // { action: 'ignore', changePercent: 5 }
+ * decideCostChange(5, 6);    // { action: 'reprice', changePercent: 20 }
+ * decideCostChange(5, 9);    // { action: 'review', changePercent: 80 }
+ */
+export function decideCostChange(oldCost: number, newCost: number): CostChangeDecision {
+  const changePercent =
+    oldCost === 0 ? 100 : Math.round(((newCost - oldCost) / oldCost) * 1000) / 10;
+
+  if (!getPriceCalculator().isPriceChangeSignificant(oldCost, newCost, PRICE_CHANGE_THRESHOLD_PERCENT)) {
+    return { action: 'ignore', changePercent };
+  }
+
+  return {
+    action: Math.abs(changePercent) <= AUTO_REPRICE_MAX_PERCENT ? 'reprice' : 'review',
+    changePercent,
+  };
+}
+
+// ============================================
+// RETAIL PRICES
+// ============================================
+
+/**
+ * Retail prices for a product's variants at the supplier's new costs
+ *
+ * Each variant is priced from the cost of the AliExpress SKU it was
+ * imported from, falling back to the product's base cost like the
+ * importer does.
+ *
+ * @param variants - The product's local variants with their current prices
+ * @param product - Freshly scraped supplier data
+ * @param variantMapping - The product source's local SKU to AliExpress SKU mapping
+ * @param pricing - The category's pricing settings
+ */
+export function getVariantPriceDiffs(
+  variants: Array<{ id: string; sku: string; price: number }>,
+  product: Pick<AliExpressProductData, 'price' | 'variants'>,
+  variantMapping: VariantMapping[] | null,
+  pricing: CategoryPricing
+): VariantPriceDiff[] {
+  const calculator = getPriceCalculator();
+
+  return variants.map((variant) => {
+    const mapping = variantMapping?.find((m) => m.localVariantSku === variant.sku);
+    const supplierVariant = mapping
+      ? product.variants.find((v) => v.skuId === mapping.aliExpressSku)
+      : undefined;
+
+    return {
+      variantId: variant.id,
+      sku: variant.sku,
+      oldPrice: variant.price,
+      newPrice: calculator.calculateVariantPrice(product.price, supplierVariant?.price ?? 0, pricing),
+    };
+  });
+}
+
+/**
+ * Whether a variant's price actually moves, to the cent
+ */
+export function isVariantRepriced(diff: VariantPriceDiff): boolean {
+  const calculator = getPriceCalculator();
+  return calculator.toCents(diff.oldPrice) !== calculator.toCents(diff.newPrice);
+}
@@ -0,0 +1,22 @@
+/**
+ * Price Monitor
+ *
+ * Scheduled re-scraping of supplier costs, automatic repricing of small
+ * changes and an admin review queue (`/admin/pricing`) for large ones.
+ */
+
+export {
+  checkProductSource,
+  runPriceMonitor,
+  approvePriceChange,
+  rejectPriceChange,
+} from './service';
+export type { PriceMonitorResult } from './service';
+export {
+  PRICE_CHANGE_THRESHOLD_PERCENT,
+  AUTO_REPRICE_MAX_PERCENT,
+  decideCostChange,
+  getVariantPriceDiffs,
+  isVariantRepriced,
+} from './changes';
+export type { CostChangeAction, CostChangeDecision, VariantPriceDiff } from './changes';
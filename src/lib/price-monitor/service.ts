@@ -0,0 +1,451 @@
+/**
+ * Price Monitor
+ *
+ * Re-scrapes supplier pages for the least recently synced product sources
+ * and compares the supplier's cost with the one we priced from. Significant
+ * changes are recorded as a `SupplierPriceChange` (the diff admins see at
+ * `/admin/pricing`) and either repriced straight away or held for review,
+ * with `PriceHistory` rows for every affected variant either way.
+ *
+ * Sources held for review are marked PRICE_CHANGED and skipped by later
+ * runs until an admin approves or rejects the change.
+ */
+
+import { Prisma, type SupplierPriceChange } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { sanityClient } from '@/lib/sanity';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import { enqueueJob } from '@/lib/jobs';
+import { AliExpressScraper, RequestQueue } from '@/services/aliexpress';
+import { calculateRetailPrice, getPriceCalculator } from '@/services/import/pricing';
+import type { AliExpressProductData, CategoryPricing, VariantMapping } from '@/types/dropshipping';
+import {
+  decideCostChange,
+  getVariantPriceDiffs,
+  isVariantRepriced,
+  type CostChangeAction,
+  type VariantPriceDiff,
+} from './changes';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Product sources re-scraped per run. A scrape takes 10-20 seconds, so this
+ * keeps a run inside the cron route's 5 minute limit.
+ */
+const MONITOR_BATCH_SIZE = 12;
+
+/**
+ * Minimum gap between supplier page requests
+ */
+const SCRAPE_INTERVAL_MS = 5000;
+
+/**
+ * `changedBy` on price history written by the monitor itself
+ */
+const MONITOR_ACTOR = 'price-monitor';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Summary of a price monitor run
+ */
+export interface PriceMonitorResult {
+  checked: number;
+  unchanged: number;
+  repriced: number;
+  queuedForReview: number;
+  errors: number;
+}
+
+type MonitoredSource = Prisma.ProductSourceGetPayload<{
+  include: {
+    category: {
+      select: { id: true; name: true; markupFactor: true; shippingBuffer: true; minPrice: true; maxPrice: true };
+    };
+  };
+}>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toCategoryPricing(category: MonitoredSource['category']): CategoryPricing {
+  return {
+    categoryId: category.id,
+    categoryName: category.name,
+    markupFactor: category.markupFactor,
+    shippingBuffer: Number(category.shippingBuffer),
+    minPrice: category.minPrice ? Number(category.minPrice) : undefined,
+    maxPrice: category.maxPrice ? Number(category.maxPrice) : undefined,
+  };
+}
+
+function formatCost(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function describeCostChange(oldCost: number, newCost: number, outcome: string): string {
+  return `Supplier cost ${formatCost(oldCost)} → ${formatCost(newCost)} (${outcome})`;
+}
+
+/**
+ * Write new variant and base prices, with a `PriceHistory` row per variant
+ * that actually changed
+ */
+async function applyRetailPrices(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  change: { newCost: number; newPrice: number; variantPrices: VariantPriceDiff[] },
+  history: { reason: string; changedBy: string; userId?: string }
+): Promise<void> {
+  for (const diff of change.variantPrices.filter(isVariantRepriced)) {
+    await tx.variant.update({
+      where: { id: diff.variantId },
+      data: { price: diff.newPrice },
+    });
+  }
+
+  await recordPriceHistory(tx, productId, change.variantPrices, history);
+
+  const product = await tx.product.update({
+    where: { id: productId },
+    data: { basePrice: change.newPrice, costPrice: change.newCost },
+  });
+
+  await enqueueJob('search.index-product', { slug: product.slug }, {}, tx);
+}
+
+async function recordPriceHistory(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variantPrices: VariantPriceDiff[],
+  history: { reason: string; changedBy: string; userId?: string }
+): Promise<void> {
+  const rows = variantPrices.filter(isVariantRepriced).map((diff) => ({
+    productId,
+    variantId: diff.variantId,
+    oldPrice: diff.oldPrice,
+    newPrice: diff.newPrice,
+    reason: history.reason,
+    changedBy: history.changedBy,
+    userId: history.userId,
+  }));
+
+  if (rows.length > 0) {
+    await tx.priceHistory.createMany({ data: rows });
+  }
+}
+
+/**
+ * Mirror a repriced product's base price into its Sanity document
+ *
+ * Best effort: the database is the source of truth for checkout, and the
+ * next import or edit in the studio overwrites the document anyway.
+ */
+async function syncSanityPrice(sanityProductId: string, newPrice: number, newCost: number): Promise<void> {
+  const calculator = getPriceCalculator();
+  try {
+    await sanityClient
+      .patch(sanityProductId)
+      .set({
+        basePrice: calculator.toCents(newPrice),
+        'sourceData.originalPrice': calculator.toCents(newCost),
+        'sourceData.lastSynced': new Date().toISOString(),
+      })
+      .commit();
+  } catch (error) {
+    logger.warn('Failed to sync repriced product to Sanity', {
+      sanityProductId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ============================================
+// MONITOR
+// ============================================
+
+/**
+ * Compare one product source with freshly scraped supplier data
+ *
+ * @returns What was done with the change
+ */
+export async function checkProductSource(
+  source: MonitoredSource,
+  scraped: Pick<AliExpressProductData, 'price' | 'variants'>,
+  now: Date = new Date()
+): Promise<CostChangeAction> {
+  const oldCost = Number(source.originalPrice);
+  const newCost = scraped.price;
+  if (!(newCost > 0)) {
+    throw new Error('Supplier page has no price');
+  }
+
+  const { action, changePercent } = decideCostChange(oldCost, newCost);
+
+  if (action === 'ignore') {
+    await prisma.productSource.update({
+      where: { id: source.id },
+      data: { lastSyncedAt: now },
+    });
+    return action;
+  }
+
+  // Retail prices follow the primary source; a backup's cost is only tracked
+  if (source.priority > 0) {
+    await prisma.productSource.update({
+      where: { id: source.id },
+      data: { originalPrice: newCost, lastSyncedAt: now },
+    });
+    return 'ignore';
+  }
+
+  const product = await prisma.product.findUnique({
+    where: { slug: source.productSlug },
+    select: {
+      id: true,
+      basePrice: true,
+      variants: { select: { id: true, sku: true, price: true } },
+    },
+  });
+  if (!product) {
+    throw new NotFoundError(`Product ${source.productSlug}`);
+  }
+
+  const pricing = toCategoryPricing(source.category);
+  const change = {
+    oldCost,
+    newCost,
+    oldPrice: Number(product.basePrice),
+    newPrice: calculateRetailPrice(newCost, pricing),
+    variantPrices: getVariantPriceDiffs(
+      product.variants.map((v) => ({ id: v.id, sku: v.sku, price: Number(v.price) })),
+      scraped,
+      source.variantMapping as unknown as VariantMapping[] | null,
+      pricing
+    ),
+  };
+
+  await prisma.$transaction(async (tx) => {
+    await tx.supplierPriceChange.create({
+      data: {
+        productSourceId: source.id,
+        oldCost,
+        newCost,
+        changePercent,
+        oldPrice: change.oldPrice,
+        newPrice: change.newPrice,
+        variantPrices: change.variantPrices as unknown as Prisma.InputJsonValue,
+        status: action === 'reprice' ? 'APPLIED' : 'PENDING_REVIEW',
+      },
+    });
+
+    if (action === 'reprice') {
+      await applyRetailPrices(tx, product.id, change, {
+        reason: describeCostChange(oldCost, newCost, 'repriced automatically'),
+        changedBy: MONITOR_ACTOR,
+      });
+    } else {
+      // Record the proposed prices now so the history shows when the change was found
+      await recordPriceHistory(tx, product.id, change.variantPrices, {
+        reason: describeCostChange(oldCost, newCost, 'proposed, pending review'),
+        changedBy: MONITOR_ACTOR,
+      });
+    }
+
+    await tx.productSource.update({
+      where: { id: source.id },
+      data:
+        action === 'reprice'
+          ? { originalPrice: newCost, sourceStatus: 'ACTIVE', lastSyncedAt: now }
+          : { sourceStatus: 'PRICE_CHANGED', lastSyncedAt: now },
+    });
+  });
+
+  if (action === 'reprice') {
+    await syncSanityPrice(source.sanityProductId, change.newPrice, newCost);
+  }
+
+  return action;
+}
+
+/**
+ * Re-scrape the least recently synced product sources and act on cost changes
+ *
+ * Pages are fetched one at a time through a `RequestQueue` so a run never
+ * hammers AliExpress. A failed scrape still bumps `lastSyncedAt`, so one
+ * broken page does not block the rest of the catalogue.
+ */
+export async function runPriceMonitor(batchSize: number = MONITOR_BATCH_SIZE): Promise<PriceMonitorResult> {
+  const result: PriceMonitorResult = {
+    checked: 0,
+    unchanged: 0,
+    repriced: 0,
+    queuedForReview: 0,
+    errors: 0,
+  };
+
+  const sources = await prisma.productSource.findMany({
+    where: { sourceStatus: { in: ['ACTIVE', 'UNAVAILABLE'] } },
+    include: {
+      category: {
+        select: { id: true, name: true, markupFactor: true, shippingBuffer: true, minPrice: true, maxPrice: true },
+      },
+    },
+    orderBy: { lastSyncedAt: 'asc' },
+    take: batchSize,
+  });
+
+  if (sources.length === 0) {
+    return result;
+  }
+
+  const scraper = new AliExpressScraper();
+  const queue = new RequestQueue(SCRAPE_INTERVAL_MS);
+
+  try {
+    await Promise.all(
+      sources.map(async (source) => {
+        try {
+          const scraped = await queue.add(() => scraper.scrapeProduct(source.aliExpressUrl));
+          const action = await checkProductSource(source, scraped);
+
+          result.checked++;
+          if (action === 'ignore') result.unchanged++;
+          if (action === 'reprice') result.repriced++;
+          if (action === 'review') result.queuedForReview++;
+        } catch (error) {
+          result.errors++;
+          logger.error('Price check failed', error as Error, {
+            productSourceId: source.id,
+            productSlug: source.productSlug,
+          });
+          await prisma.productSource
+            .update({ where: { id: source.id }, data: { lastSyncedAt: new Date() } })
+            .catch(() => {});
+        }
+      })
+    );
+  } finally {
+    await scraper.close();
+  }
+
+  return result;
+}
+
+// ============================================
+// REVIEW
+// ============================================
+
+async function getPendingChange(changeId: string) {
+  const change = await prisma.supplierPriceChange.findUnique({
+    where: { id: changeId },
+    include: { productSource: { select: { id: true, productSlug: true, sanityProductId: true } } },
+  });
+
+  if (!change) {
+    throw new NotFoundError('Price change');
+  }
+  if (change.status !== 'PENDING_REVIEW') {
+    throw new ConflictError('This price change has already been reviewed');
+  }
+
+  return change;
+}
+
+/**
+ * Claim a pending change inside a transaction, so two admins reviewing the
+ * same change cannot both act on it
+ */
+async function claimPendingChange(
+  tx: Prisma.TransactionClient,
+  changeId: string,
+  status: 'APPROVED' | 'REJECTED',
+  reviewedBy: string
+): Promise<void> {
+  const { count } = await tx.supplierPriceChange.updateMany({
+    where: { id: changeId, status: 'PENDING_REVIEW' },
+    data: { status, reviewedBy, reviewedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new ConflictError('This price change has already been reviewed');
+  }
+}
+
+/**
+ * Approve a queued price change and reprice the product
+ *
+ * @param changeId - The pending `SupplierPriceChange`
+ * @param userId - The reviewing admin
+ */
+export async function approvePriceChange(changeId: string, userId: string): Promise<SupplierPriceChange> {
+  const change = await getPendingChange(changeId);
+
+  const product = await prisma.product.findUnique({
+    where: { slug: change.productSource.productSlug },
+    select: { id: true },
+  });
+  if (!product) {
+    throw new NotFoundError(`Product ${change.productSource.productSlug}`);
+  }
+
+  const oldCost = Number(change.oldCost);
+  const newCost = Number(change.newCost);
+  const newPrice = Number(change.newPrice);
+
+  const approved = await prisma.$transaction(async (tx) => {
+    await claimPendingChange(tx, changeId, 'APPROVED', userId);
+
+    await applyRetailPrices(
+      tx,
+      product.id,
+      { newCost, newPrice, variantPrices: change.variantPrices as unknown as VariantPriceDiff[] },
+      { reason: describeCostChange(oldCost, newCost, 'approved'), changedBy: userId, userId }
+    );
+
+    await tx.productSource.update({
+      where: { id: change.productSourceId },
+      data: { originalPrice: newCost, sourceStatus: 'ACTIVE' },
+    });
+
+    return tx.supplierPriceChange.findUniqueOrThrow({ where: { id: changeId } });
+  });
+
+  await syncSanityPrice(change.productSource.sanityProductId, newPrice, newCost);
+
+  return approved;
+}
+
+/**
+ * Reject a queued price change and keep the current retail prices
+ *
+ * The new supplier cost is still taken as the baseline, so the monitor
+ * does not raise the same change again on its next run.
+ *
+ * @param changeId - The pending `SupplierPriceChange`
+ * @param userId - The reviewing admin
+ */
+export async function rejectPriceChange(changeId: string, userId: string): Promise<SupplierPriceChange> {
+  const change = await getPendingChange(changeId);
+
+  return prisma.$transaction(async (tx) => {
+    await claimPendingChange(tx, changeId, 'REJECTED', userId);
+
+    await tx.productSource.update({
+      where: { id: change.productSourceId },
+      data: { originalPrice: change.newCost, sourceStatus: 'ACTIVE' },
+    });
+    await tx.product.updateMany({
+      where: { slug: change.productSource.productSlug },
+      data: { costPrice: change.newCost },
+    });
+
+    return tx.supplierPriceChange.findUniqueOrThrow({ where: { id: changeId } });
+  });
+}
@@ -0,0 +1,445 @@
+/**
+ * Automatic Promotions
+ *
+ * Promotions that apply without a code: spend thresholds, buy X get Y,
+ * bundle prices and free gifts. Each is a condition on the cart and an
+ * action once it's met. Promotions that don't stack compete, and the cart
+ * gets whichever mix takes the most off. Pure, like the code engine.
+ */
+
+import { z } from 'zod';
+import { allocateCents } from '@/lib/returns/policy';
+import { getRemainingCents, toCents } from './engine';
+import type {
+  AppliedPromotion,
+  LineDiscount,
+  PromotionAction,
+  PromotionCondition,
+  PromotionLine,
+  PromotionNudge,
+  PromotionRule,
+} from './types';
+
+// ============================================
+// RULES
+// ============================================
+
+const promotionConditionSchema = z.object({
+  minSubtotal: z.number().positive().optional(),
+  minQuantity: z.number().int().positive().optional(),
+  productIds: z.array(z.string().min(1)).optional(),
+  categoryIds: z.array(z.string().min(1)).optional(),
+});
+
+const promotionActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('PERCENT_OFF'),
+    percent: z.number().positive().max(100),
+  }),
+  z.object({
+    type: z.literal('AMOUNT_OFF'),
+    amount: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal('FREE_ITEMS'),
+    buyQuantity: z.number().int().positive(),
+    freeQuantity: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal('BUNDLE_PRICE'),
+    items: z
+      .array(z.object({ productId: z.string().min(1), quantity: z.number().int().positive() }))
+      .min(1),
+    price: z.number().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('FREE_GIFT'),
+    variantId: z.string().min(1),
+    quantity: z.number().int().positive().default(1),
+  }),
+]);
+
+/**
+ * Read a promotion's stored `condition` and `action`
+ *
+ * @returns The terms, or null if either doesn't parse
+ */
+export function parsePromotionTerms(
+  condition: unknown,
+  action: unknown
+): { condition: PromotionCondition; action: PromotionAction } | null {
+  const parsedCondition = promotionConditionSchema.safeParse(condition ?? {});
+  const parsedAction = promotionActionSchema.safeParse(action);
+
+  if (!parsedCondition.success || !parsedAction.success) {
+    return null;
+  }
+
+  return { condition: parsedCondition.data, action: parsedAction.data as PromotionAction };
+}
+
+/**
+ * Whether a promotion is running at a given time
+ */
+export function isPromotionLive(rule: PromotionRule, now: Date = new Date()): boolean {
+  return (
+    rule.isActive &&
+    (!rule.startsAt || now >= rule.startsAt) &&
+    (!rule.expiresAt || now <= rule.expiresAt)
+  );
+}
+
+/**
+ * Whether a line counts towards a promotion's condition
+ */
+function matchesCondition(condition: PromotionCondition, line: PromotionLine): boolean {
+  if (line.giftPromotionId) {
+    return false;
+  }
+
+  const productIds = condition.productIds ?? [];
+  const categoryIds = condition.categoryIds ?? [];
+  if (productIds.length === 0 && categoryIds.length === 0) {
+    return true;
+  }
+
+  return (
+    productIds.includes(line.productId) ||
+    (line.categoryId !== null && categoryIds.includes(line.categoryId))
+  );
+}
+
+function formatAmount(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+/**
+ * Spread an amount over lines in proportion to what's left on each
+ */
+function spreadCents(cents: number, lines: PromotionLine[], weights: number[]): LineDiscount[] {
+  if (cents <= 0) {
+    return [];
+  }
+
+  return allocateCents(cents, weights)
+    .map((share, index) => ({ lineId: lines[index].id, amount: share / 100 }))
+    .filter((line) => line.amount > 0);
+}
+
+/**
+ * Units of the given lines, one entry per unit, with what each costs
+ */
+function toUnits(lines: PromotionLine[]): Array<{ index: number; cents: number }> {
+  return lines.flatMap((line, index) =>
+    Array.from({ length: line.quantity }, () => ({ index, cents: toCents(line.unitPrice) }))
+  );
+}
+
+/**
+ * Take chosen units off their lines, never more than is left on a line
+ */
+function discountUnits(
+  lines: PromotionLine[],
+  units: Array<{ index: number; cents: number }>
+): LineDiscount[] {
+  const perLine = new Map<number, number>();
+  for (const unit of units) {
+    perLine.set(unit.index, (perLine.get(unit.index) ?? 0) + unit.cents);
+  }
+
+  return [...perLine]
+    .map(([index, cents]) => ({
+      lineId: lines[index].id,
+      amount: Math.min(cents, getRemainingCents(lines[index])) / 100,
+    }))
+    .filter((line) => line.amount > 0);
+}
+
+/**
+ * Units a bundle still needs before one set is complete
+ */
+function getMissingBundleUnits(
+  action: Extract<PromotionAction, { type: 'BUNDLE_PRICE' }>,
+  lines: PromotionLine[]
+): number {
+  return action.items.reduce((sum, item) => {
+    const inCart = lines
+      .filter((line) => !line.giftPromotionId && line.productId === item.productId)
+      .reduce((units, line) => units + line.quantity, 0);
+    return sum + Math.max(item.quantity - inCart, 0);
+  }, 0);
+}
+
+/**
+ * Work out what a promotion's action takes off, assuming its condition is met
+ */
+function applyAction(rule: PromotionRule, lines: PromotionLine[]): AppliedPromotion | null {
+  const { action } = rule;
+  const matching = lines.filter((line) => matchesCondition(rule.condition, line));
+  let lineDiscounts: LineDiscount[] = [];
+  let pendingGiftCents = 0;
+
+  switch (action.type) {
+    case 'PERCENT_OFF':
+    case 'AMOUNT_OFF': {
+      const weights = matching.map(getRemainingCents);
+      const eligibleCents = weights.reduce((sum, cents) => sum + cents, 0);
+      const cents =
+        action.type === 'PERCENT_OFF'
+          ? Math.round((eligibleCents * action.percent) / 100)
+          : Math.min(toCents(action.amount), eligibleCents);
+      lineDiscounts = spreadCents(cents, matching, weights);
+      break;
+    }
+
+    case 'FREE_ITEMS': {
+      // Every complete group gets its cheapest units free
+      const units = toUnits(matching).sort((a, b) => b.cents - a.cents);
+      const groups = Math.floor(units.length / (action.buyQuantity + action.freeQuantity));
+      const free = groups * action.freeQuantity;
+      lineDiscounts = free > 0 ? discountUnits(matching, units.slice(units.length - free)) : [];
+      break;
+    }
+
+    case 'BUNDLE_PRICE': {
+      const byItem = action.items.map((item) => {
+        const itemLines = lines.filter(
+          (line) => !line.giftPromotionId && line.productId === item.productId
+        );
+        return {
+          item,
+          lines: itemLines,
+          units: toUnits(itemLines).sort((a, b) => a.cents - b.cents),
+        };
+      });
+      const sets = Math.min(
+        ...byItem.map(({ item, units }) => Math.floor(units.length / item.quantity))
+      );
+      if (sets === 0) {
+        return null;
+      }
+
+      // Sets are made from the cheapest units of each product
+      const bundleLines: PromotionLine[] = [];
+      const weights: number[] = [];
+      let regularCents = 0;
+      for (const { item, lines: itemLines, units } of byItem) {
+        const used = new Map<number, number>();
+        for (const unit of units.slice(0, sets * item.quantity)) {
+          used.set(unit.index, (used.get(unit.index) ?? 0) + unit.cents);
+          regularCents += unit.cents;
+        }
+        for (const [index, cents] of used) {
+          bundleLines.push(itemLines[index]);
+          weights.push(Math.min(cents, getRemainingCents(itemLines[index])));
+        }
+      }
+
+      const savedCents = Math.min(
+        Math.max(regularCents - sets * toCents(action.price), 0),
+        weights.reduce((sum, cents) => sum + cents, 0)
+      );
+      lineDiscounts = spreadCents(savedCents, bundleLines, weights);
+      break;
+    }
+
+    case 'FREE_GIFT': {
+      // The gift line, or a line the customer added themselves
+      const giftLine =
+        lines.find((line) => line.giftPromotionId === rule.id && line.variantId === action.variantId) ??
+        lines.find((line) => !line.giftPromotionId && line.variantId === action.variantId);
+
+      if (giftLine) {
+        const cents = Math.min(
+          toCents(giftLine.unitPrice) * Math.min(action.quantity, giftLine.quantity),
+          getRemainingCents(giftLine)
+        );
+        lineDiscounts = cents > 0 ? [{ lineId: giftLine.id, amount: cents / 100 }] : [];
+      } else if (rule.giftPrice != null) {
+        // Not in the cart yet; worth its price when choosing promotions
+        pendingGiftCents = toCents(rule.giftPrice) * action.quantity;
+      } else {
+        return null;
+      }
+      break;
+    }
+  }
+
+  const totalCents =
+    lineDiscounts.reduce((sum, line) => sum + toCents(line.amount), 0) + pendingGiftCents;
+  if (totalCents <= 0) {
+    return null;
+  }
+
+  return {
+    promotionId: rule.id,
+    name: rule.name,
+    type: action.type,
+    lineDiscounts,
+    total: totalCents / 100,
+    giftVariantId: action.type === 'FREE_GIFT' ? action.variantId : null,
+    giftQuantity: action.type === 'FREE_GIFT' ? action.quantity : 0,
+  };
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Check a promotion against a cart
+ *
+ * @returns What it takes off if the cart qualifies, otherwise how close
+ *   the cart is (null if it's nowhere near, e.g. no matching products)
+ */
+export function evaluatePromotion(
+  rule: PromotionRule,
+  lines: PromotionLine[],
+  now: Date = new Date()
+): { applied: AppliedPromotion | null; nudge: PromotionNudge | null } {
+  if (!isPromotionLive(rule, now)) {
+    return { applied: null, nudge: null };
+  }
+
+  const { condition, action } = rule;
+  const matching = lines.filter((line) => matchesCondition(condition, line));
+  const subtotalCents = matching.reduce((sum, line) => sum + toCents(line.unitPrice) * line.quantity, 0);
+  const quantity = matching.reduce((sum, line) => sum + line.quantity, 0);
+
+  const amountNeeded =
+    condition.minSubtotal !== undefined ? Math.max(toCents(condition.minSubtotal) - subtotalCents, 0) : 0;
+  let quantityNeeded = condition.minQuantity !== undefined ? Math.max(condition.minQuantity - quantity, 0) : 0;
+  if (action.type === 'FREE_ITEMS') {
+    quantityNeeded = Math.max(quantityNeeded, action.buyQuantity + action.freeQuantity - quantity);
+  }
+  if (action.type === 'BUNDLE_PRICE') {
+    quantityNeeded = Math.max(quantityNeeded, getMissingBundleUnits(action, lines));
+  }
+
+  if (amountNeeded > 0 || quantityNeeded > 0) {
+    // Only nudge towards promotions the cart has something for
+    const bundleStarted =
+      action.type !== 'BUNDLE_PRICE' ||
+      action.items.some((item) => lines.some((line) => !line.giftPromotionId && line.productId === item.productId));
+    if (matching.length === 0 || !bundleStarted) {
+      return { applied: null, nudge: null };
+    }
+
+    return {
+      applied: null,
+      nudge: {
+        promotionId: rule.id,
+        name: rule.name,
+        amountNeeded: amountNeeded > 0 ? amountNeeded / 100 : null,
+        quantityNeeded: amountNeeded > 0 ? null : quantityNeeded,
+        message:
+          amountNeeded > 0
+            ? `Add ${formatAmount(amountNeeded)} more to unlock ${rule.name}`
+            : `Add ${quantityNeeded} more item${quantityNeeded === 1 ? '' : 's'} to unlock ${rule.name}`,
+      },
+    };
+  }
+
+  return { applied: applyAction(rule, lines), nudge: null };
+}
+
+/**
+ * Apply promotions one after another, lowest priority first
+ *
+ * Each promotion prices what the ones before it left, so percentages
+ * never apply to money already taken off. Conditions aren't checked;
+ * see `selectPromotions`.
+ */
+export function applyPromotions(rules: PromotionRule[], lines: PromotionLine[]): AppliedPromotion[] {
+  const sorted = [...rules].sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+  let current = lines;
+  const applied: AppliedPromotion[] = [];
+
+  for (const rule of sorted) {
+    const promotion = applyAction(rule, current);
+    if (promotion) {
+      applied.push(promotion);
+      current = withPromotionDiscounts(current, [promotion]);
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Choose the promotions a cart gets
+ *
+ * Every stackable promotion the cart qualifies for applies. Of the ones
+ * that don't stack, the cart gets the one that, with the stackable ones,
+ * takes the most off.
+ *
+ * @returns The promotions applied, and nudges towards ones the cart
+ *   doesn't qualify for yet, closest first
+ */
+export function selectPromotions(
+  rules: PromotionRule[],
+  lines: PromotionLine[],
+  now: Date = new Date()
+): { promotions: AppliedPromotion[]; nudges: PromotionNudge[] } {
+  const evaluated = rules.map((rule) => ({ rule, ...evaluatePromotion(rule, lines, now) }));
+  const qualifying = evaluated.filter(({ applied }) => applied !== null).map(({ rule }) => rule);
+  const stackable = qualifying.filter((rule) => rule.stackable);
+  const exclusive = qualifying
+    .filter((rule) => !rule.stackable)
+    .sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+
+  let best = applyPromotions(stackable, lines);
+  let bestTotal = sumPromotions(best);
+  for (const rule of exclusive) {
+    const candidate = applyPromotions([rule, ...stackable], lines);
+    const total = sumPromotions(candidate);
+    if (total > bestTotal) {
+      best = candidate;
+      bestTotal = total;
+    }
+  }
+
+  const nudges = evaluated
+    .flatMap(({ nudge }) => (nudge ? [nudge] : []))
+    .sort(
+      (a, b) =>
+        (a.amountNeeded ?? Infinity) - (b.amountNeeded ?? Infinity) ||
+        (a.quantityNeeded ?? 0) - (b.quantityNeeded ?? 0)
+    );
+
+  return { promotions: best, nudges };
+}
+
+function sumPromotions(promotions: AppliedPromotion[]): number {
+  return promotions.reduce((sum, promotion) => sum + toCents(promotion.total), 0);
+}
+
+/**
+ * Take promotions off the lines they apply to, so a code prices what's left
+ */
+export function withPromotionDiscounts(
+  lines: PromotionLine[],
+  promotions: AppliedPromotion[]
+): PromotionLine[] {
+  return lines.map((line) => {
+    const cents = promotions
+      .flatMap((promotion) => promotion.lineDiscounts)
+      .filter((discount) => discount.lineId === line.id)
+      .reduce((sum, discount) => sum + toCents(discount.amount), 0);
+
+    return cents > 0 ? { ...line, discount: (toCents(line.discount ?? 0) + cents) / 100 } : line;
+  });
+}
+
+/**
+ * What an order records about the automatic promotions it got
+ */
+export function toOrderPromotions(
+  promotions: AppliedPromotion[]
+): Array<{ promotionId: string; name: string; amount: number }> {
+  return promotions.map(({ promotionId, name, total }) => ({ promotionId, name, amount: total }));
+}
@@ -0,0 +1,259 @@
+/**
+ * Promotion Engine
+ *
+ * Checks a discount code against a cart and works out what it takes off,
+ * line by line. Pure, so the cart, checkout, the Stripe webhook and tests
+ * all price a code the same way. Automatic promotions are worked out in
+ * `automatic.ts`; codes price what they leave.
+ */
+
+import {
+  DiscountError,
+  DiscountUsageLimitError,
+  ExpiredDiscountCodeError,
+  InvalidDiscountCodeError,
+} from '@/lib/errors';
+import { allocateCents } from '@/lib/returns/policy';
+import type {
+  AppliedDiscount,
+  AppliedPromotion,
+  CartSavings,
+  DiscountRule,
+  DiscountType,
+  LineDiscount,
+  PromotionLine,
+} from './types';
+
+const DISCOUNT_TYPES: DiscountType[] = ['PERCENTAGE', 'FIXED', 'SHIPPING'];
+
+/**
+ * Dollars to whole cents
+ */
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * What's left to pay on a line after automatic promotions, in cents
+ */
+export function getRemainingCents(line: PromotionLine): number {
+  return Math.max(toCents(line.unitPrice) * line.quantity - toCents(line.discount ?? 0), 0);
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Normalize a discount code as customers type it
+ */
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Read `DiscountCode.discountType`, which older rows store in lower case
+ */
+export function toDiscountType(value: string): DiscountType {
+  const type = value.trim().toUpperCase() as DiscountType;
+  if (!DISCOUNT_TYPES.includes(type)) {
+    throw new DiscountError(`Unknown discount type: ${value}`);
+  }
+  return type;
+}
+
+/**
+ * Whether a line is one the code applies to
+ *
+ * Codes limited to products or categories apply to lines matching either
+ * list; codes with neither apply to everything. Free gifts never count.
+ */
+export function isLineEligible(rule: DiscountRule, line: PromotionLine): boolean {
+  if (line.giftPromotionId) {
+    return false;
+  }
+  if (rule.applicableProducts.length === 0 && rule.applicableCategories.length === 0) {
+    return true;
+  }
+
+  return (
+    rule.applicableProducts.includes(line.productId) ||
+    (line.categoryId !== null && rule.applicableCategories.includes(line.categoryId))
+  );
+}
+
+/**
+ * Check a code can be used on a cart
+ *
+ * @param rule - The code
+ * @param options.lines - The cart's lines
+ * @param options.customerUses - Orders the customer has already used it on
+ * @param options.now - Time to check validity at
+ * @throws DiscountError saying why the code can't be used
+ */
+export function assertDiscountApplies(
+  rule: DiscountRule,
+  options: { lines: PromotionLine[]; customerUses?: number; now?: Date }
+): void {
+  const now = options.now ?? new Date();
+
+  if (!rule.isActive) {
+    throw new InvalidDiscountCodeError(rule.code);
+  }
+  if (rule.startsAt && now < rule.startsAt) {
+    throw new DiscountError('This discount code is not yet active', { code: rule.code });
+  }
+  if (rule.expiresAt && now > rule.expiresAt) {
+    throw new ExpiredDiscountCodeError(rule.code);
+  }
+  if (rule.maxUses !== null && rule.currentUses >= rule.maxUses) {
+    throw new DiscountUsageLimitError(rule.code);
+  }
+  if (rule.maxUsesPerUser !== null && (options.customerUses ?? 0) >= rule.maxUsesPerUser) {
+    throw new DiscountError("You've already used this discount code", { code: rule.code });
+  }
+
+  const subtotal = options.lines
+    .filter((line) => !line.giftPromotionId)
+    .reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (rule.minPurchaseAmount !== null && subtotal < rule.minPurchaseAmount) {
+    throw new DiscountError(
+      `Minimum purchase of $${rule.minPurchaseAmount.toFixed(2)} required for this discount code`,
+      { code: rule.code }
+    );
+  }
+
+  if (rule.type !== 'SHIPPING' && !options.lines.some((line) => isLineEligible(rule, line))) {
+    throw new DiscountError("This discount code doesn't apply to anything in your cart", { code: rule.code });
+  }
+}
+
+// ============================================
+// ALLOCATION
+// ============================================
+
+/**
+ * Work out what a code takes off a cart
+ *
+ * Item discounts are spread across the eligible lines in proportion to
+ * their value, in whole cents, so the lines always add up to the total.
+ * Lines are priced after any automatic promotion (`discount`).
+ * Doesn't check the code can be used; see `assertDiscountApplies`.
+ *
+ * @param rule - The code
+ * @param lines - The cart's lines
+ * @param shippingAmount - Shipping charged, for `SHIPPING` codes
+ */
+export function calculateDiscount(
+  rule: DiscountRule,
+  lines: PromotionLine[],
+  shippingAmount: number = 0
+): AppliedDiscount {
+  const eligible = lines.filter((line) => isLineEligible(rule, line));
+  const lineCents = eligible.map(getRemainingCents);
+  const eligibleCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+  const percent = Math.min(Math.max(rule.value, 0), 100);
+
+  let itemCents = 0;
+  let shippingCents = 0;
+  if (rule.type === 'PERCENTAGE') {
+    itemCents = Math.round((eligibleCents * percent) / 100);
+  } else if (rule.type === 'FIXED') {
+    itemCents = Math.min(toCents(Math.max(rule.value, 0)), eligibleCents);
+  } else {
+    shippingCents = Math.round((toCents(shippingAmount) * percent) / 100);
+  }
+
+  const lineDiscounts: LineDiscount[] =
+    itemCents > 0
+      ? allocateCents(itemCents, lineCents).map((cents, index) => ({
+          lineId: eligible[index].id,
+          amount: cents / 100,
+        }))
+      : [];
+
+  return {
+    discountId: rule.id,
+    code: rule.code,
+    type: rule.type,
+    value: rule.value,
+    eligibleSubtotal: eligibleCents / 100,
+    lineDiscounts,
+    itemDiscount: itemCents / 100,
+    shippingDiscount: shippingCents / 100,
+    total: (itemCents + shippingCents) / 100,
+  };
+}
+
+/**
+ * Add up everything taken off a cart
+ *
+ * @param promotions - Automatic promotions, already applied to the lines
+ *   the code was priced against
+ * @param discount - The code, if any
+ */
+export function combineSavings(promotions: AppliedPromotion[], discount: AppliedDiscount | null): CartSavings {
+  const lineCents = new Map<string, number>();
+  for (const { lineId, amount } of [
+    ...promotions.flatMap((promotion) => promotion.lineDiscounts),
+    ...(discount?.lineDiscounts ?? []),
+  ]) {
+    lineCents.set(lineId, (lineCents.get(lineId) ?? 0) + toCents(amount));
+  }
+
+  const itemCents = [...lineCents.values()].reduce((sum, cents) => sum + cents, 0);
+  const shippingCents = toCents(discount?.shippingDiscount ?? 0);
+
+  return {
+    promotions,
+    discount,
+    lineDiscounts: [...lineCents].map(([lineId, cents]) => ({ lineId, amount: cents / 100 })),
+    itemDiscount: itemCents / 100,
+    shippingDiscount: shippingCents / 100,
+    total: (itemCents + shippingCents) / 100,
+  };
+}
+
+/**
+ * A line's share of a discount
+ */
+export function getLineDiscount(discount: { lineDiscounts: LineDiscount[] } | null, lineId: string): number {
+  return discount?.lineDiscounts.find((line) => line.lineId === lineId)?.amount ?? 0;
+}
+
+/**
+ * Add each line's share of a discount, e.g. to tax line items so tax is
+ * charged on what the customer pays
+ */
+export function withLineDiscounts<T extends { id: string }>(
+  lines: T[],
+  discount: { lineDiscounts: LineDiscount[] } | null
+): Array<T & { discount: number }> {
+  return lines.map((line) => ({ ...line, discount: getLineDiscount(discount, line.id) }));
+}
+
+/**
+ * Build promotion lines from cart items
+ */
+export function toPromotionLines(
+  items: Array<{
+    id: string;
+    quantity: number;
+    variantId?: string;
+    promotionId?: string | null;
+    variant: {
+      price: number | { toString(): string };
+      product: { id: string; categoryId?: string | null };
+    };
+  }>
+): PromotionLine[] {
+  return items.map((item) => ({
+    id: item.id,
+    productId: item.variant.product.id,
+    categoryId: item.variant.product.categoryId ?? null,
+    unitPrice: Number(item.variant.price),
+    quantity: item.quantity,
+    variantId: item.variantId,
+    giftPromotionId: item.promotionId ?? null,
+  }));
+}
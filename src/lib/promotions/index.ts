@@ -0,0 +1,61 @@
+/**
+ * Promotions
+ *
+ * Discount codes and automatic promotions from the cart through to the
+ * order: the cart gets the best mix of automatic promotions (adding any
+ * free gifts) and the customer can apply a code on top. Checkout checks
+ * them again and passes the savings to Stripe as a coupon, and the order
+ * records each line's share and counts the code's use.
+ */
+
+export type {
+  AppliedDiscount,
+  AppliedPromotion,
+  CartSavings,
+  DiscountRule,
+  DiscountType,
+  LineDiscount,
+  PromotionAction,
+  PromotionActionType,
+  PromotionCondition,
+  PromotionLine,
+  PromotionNudge,
+  PromotionRule,
+} from './types';
+
+export {
+  assertDiscountApplies,
+  calculateDiscount,
+  combineSavings,
+  getLineDiscount,
+  isLineEligible,
+  normalizeDiscountCode,
+  toDiscountType,
+  toPromotionLines,
+  withLineDiscounts,
+} from './engine';
+
+export {
+  applyPromotions,
+  evaluatePromotion,
+  isPromotionLive,
+  parsePromotionTerms,
+  selectPromotions,
+  toOrderPromotions,
+  withPromotionDiscounts,
+} from './automatic';
+
+export {
+  countCustomerDiscountUses,
+  getActivePromotions,
+  getCartSavings,
+  getDiscountRule,
+  getDiscountRuleById,
+  redeemDiscount,
+  resolveCartSavings,
+  resolveDiscount,
+  syncFreeGiftLines,
+  type DiscountCustomer,
+} from './service';
+
+export { createDiscountCoupon } from './stripe';
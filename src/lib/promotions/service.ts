@@ -0,0 +1,352 @@
+/**
+ * Promotion Service
+ *
+ * Loads discount codes and automatic promotions, prices them against
+ * carts, keeps free gift lines in step with the cart and records code use
+ * when an order is placed.
+ */
+
+import type { AutomaticPromotion, DiscountCode, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { DiscountError, InvalidDiscountCodeError } from '@/lib/errors';
+import {
+  assertDiscountApplies,
+  calculateDiscount,
+  combineSavings,
+  normalizeDiscountCode,
+  toDiscountType,
+  toPromotionLines,
+} from './engine';
+import { parsePromotionTerms, selectPromotions, withPromotionDiscounts } from './automatic';
+import type {
+  AppliedDiscount,
+  CartSavings,
+  DiscountRule,
+  PromotionLine,
+  PromotionNudge,
+  PromotionRule,
+} from './types';
+
+/**
+ * Who is using a code, for `maxUsesPerUser`
+ */
+export interface DiscountCustomer {
+  userId?: string | null;
+  email?: string | null;
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+function toDiscountRule(discount: DiscountCode): DiscountRule {
+  return {
+    id: discount.id,
+    code: discount.code,
+    type: toDiscountType(discount.discountType),
+    value: discount.discountValue.toNumber(),
+    isActive: discount.isActive,
+    startsAt: discount.startsAt,
+    expiresAt: discount.expiresAt,
+    maxUses: discount.maxUses,
+    currentUses: discount.currentUses,
+    maxUsesPerUser: discount.maxUsesPerUser,
+    minPurchaseAmount: discount.minPurchaseAmount?.toNumber() ?? null,
+    applicableCategories: discount.applicableCategories,
+    applicableProducts: discount.applicableProducts,
+  };
+}
+
+/**
+ * Find a discount code as the customer typed it
+ *
+ * @throws InvalidDiscountCodeError if there is no such code
+ */
+export async function getDiscountRule(code: string): Promise<DiscountRule> {
+  const discount = await prisma.discountCode.findUnique({
+    where: { code: normalizeDiscountCode(code) },
+  });
+
+  if (!discount) {
+    throw new InvalidDiscountCodeError(code);
+  }
+
+  return toDiscountRule(discount);
+}
+
+/**
+ * Find a discount code by ID, e.g. the one applied to a cart
+ */
+export async function getDiscountRuleById(discountId: string): Promise<DiscountRule | null> {
+  const discount = await prisma.discountCode.findUnique({ where: { id: discountId } });
+  return discount ? toDiscountRule(discount) : null;
+}
+
+/**
+ * Count the orders a customer has placed with a code, matched by account
+ * or by order email
+ */
+export async function countCustomerDiscountUses(
+  discountId: string,
+  customer: DiscountCustomer
+): Promise<number> {
+  const matches: Prisma.OrderWhereInput[] = [];
+  if (customer.userId) {
+    matches.push({ userId: customer.userId });
+  }
+  if (customer.email) {
+    matches.push({ customerEmail: { equals: customer.email.trim(), mode: 'insensitive' } });
+  }
+  if (matches.length === 0) {
+    return 0;
+  }
+
+  return prisma.order.count({ where: { discountId, OR: matches } });
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * Check a code can be used on a cart and work out what it takes off
+ *
+ * @throws DiscountError saying why the code can't be used
+ */
+export async function resolveDiscount(
+  rule: DiscountRule,
+  options: {
+    lines: PromotionLine[];
+    shippingAmount?: number;
+    customer?: DiscountCustomer;
+    now?: Date;
+  }
+): Promise<AppliedDiscount> {
+  const customerUses =
+    rule.maxUsesPerUser !== null && options.customer
+      ? await countCustomerDiscountUses(rule.id, options.customer)
+      : 0;
+
+  assertDiscountApplies(rule, { lines: options.lines, customerUses, now: options.now });
+
+  return calculateDiscount(rule, options.lines, options.shippingAmount);
+}
+
+// ============================================
+// AUTOMATIC PROMOTIONS
+// ============================================
+
+/**
+ * Read promotions from their rows, skipping any with terms that don't parse
+ *
+ * Free gifts are priced from their variant, and can't be given if it's
+ * unavailable or out of stock.
+ */
+async function toPromotionRules(rows: AutomaticPromotion[]): Promise<PromotionRule[]> {
+  const rules: PromotionRule[] = [];
+  for (const row of rows) {
+    const terms = parsePromotionTerms(row.condition, row.action);
+    if (!terms) {
+      logger.warn('Skipping automatic promotion with invalid terms', { promotionId: row.id });
+      continue;
+    }
+
+    rules.push({
+      id: row.id,
+      name: row.name,
+      isActive: row.isActive,
+      startsAt: row.startsAt,
+      expiresAt: row.expiresAt,
+      priority: row.priority,
+      stackable: row.stackable,
+      ...terms,
+    });
+  }
+
+  const giftVariantIds = rules.flatMap((rule) => (rule.action.type === 'FREE_GIFT' ? [rule.action.variantId] : []));
+  if (giftVariantIds.length === 0) {
+    return rules;
+  }
+
+  const variants = await prisma.variant.findMany({
+    where: { id: { in: giftVariantIds }, isActive: true, product: { isActive: true } },
+    select: { id: true, price: true, inventory: { select: { available: true } } },
+  });
+
+  return rules.map((rule) => {
+    if (rule.action.type !== 'FREE_GIFT') {
+      return rule;
+    }
+    const { variantId, quantity } = rule.action;
+    const variant = variants.find((candidate) => candidate.id === variantId);
+    const inStock = (variant?.inventory?.available ?? 0) >= quantity;
+    return { ...rule, giftPrice: variant && inStock ? variant.price.toNumber() : null };
+  });
+}
+
+/**
+ * Automatic promotions that are switched on
+ *
+ * Start and end dates are checked when they're priced.
+ */
+export async function getActivePromotions(): Promise<PromotionRule[]> {
+  const rows = await prisma.automaticPromotion.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+  return toPromotionRules(rows);
+}
+
+/**
+ * Add and remove free gift lines so the cart holds exactly the gifts it
+ * qualifies for
+ *
+ * Registry gift carts ship to the registrant, so they never get free gifts.
+ *
+ * @returns Whether the cart's lines changed
+ */
+export async function syncFreeGiftLines(cartId: string): Promise<boolean> {
+  const items = await prisma.cartItem.findMany({
+    where: { cartId },
+    include: {
+      variant: { select: { price: true, product: { select: { id: true, categoryId: true } } } },
+    },
+  });
+
+  const isRegistryCart = items.some((item) => item.registryItemId);
+  const paidItems = items.filter((item) => !item.promotionId);
+  const gifts =
+    isRegistryCart || paidItems.length === 0
+      ? []
+      : selectPromotions(await getActivePromotions(), toPromotionLines(items)).promotions.filter(
+          (promotion) => promotion.giftVariantId
+        );
+
+  const stale = items.filter(
+    (item) =>
+      item.promotionId &&
+      !gifts.some((gift) => gift.promotionId === item.promotionId && gift.giftVariantId === item.variantId)
+  );
+  const missing = gifts.filter((gift) => !items.some((item) => item.variantId === gift.giftVariantId));
+
+  if (stale.length === 0 && missing.length === 0) {
+    return false;
+  }
+
+  await prisma.$transaction([
+    prisma.cartItem.deleteMany({ where: { id: { in: stale.map((item) => item.id) } } }),
+    prisma.cartItem.createMany({
+      data: missing.map((gift) => ({
+        cartId,
+        variantId: gift.giftVariantId!,
+        quantity: gift.giftQuantity,
+        promotionId: gift.promotionId,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return true;
+}
+
+// ============================================
+// CART SAVINGS
+// ============================================
+
+/**
+ * Price a cart's automatic promotions and a code, checking the code can
+ * be used
+ *
+ * @throws DiscountError saying why the code can't be used
+ */
+export async function resolveCartSavings(
+  rule: DiscountRule | null,
+  options: {
+    lines: PromotionLine[];
+    shippingAmount?: number;
+    customer?: DiscountCustomer;
+    now?: Date;
+  }
+): Promise<CartSavings> {
+  const { promotions } = selectPromotions(await getActivePromotions(), options.lines, options.now);
+  const discount = rule
+    ? await resolveDiscount(rule, { ...options, lines: withPromotionDiscounts(options.lines, promotions) })
+    : null;
+
+  return combineSavings(promotions, discount);
+}
+
+/**
+ * Price a cart for display
+ *
+ * A code that has stopped applying (expired, cart changed, ...) prices at
+ * nothing and comes back with the reason, rather than failing the cart.
+ *
+ * @returns The savings, nudges towards promotions the cart is close to,
+ *   and why the applied code no longer applies
+ */
+export async function getCartSavings(
+  discountCodeId: string | null,
+  options: { lines: PromotionLine[]; shippingAmount?: number; customer?: DiscountCustomer }
+): Promise<{ savings: CartSavings; nudges: PromotionNudge[]; discountError: string | null }> {
+  const { promotions, nudges } = selectPromotions(await getActivePromotions(), options.lines);
+  const rule = discountCodeId ? await getDiscountRuleById(discountCodeId) : null;
+
+  let discount: AppliedDiscount | null = null;
+  let discountError: string | null = null;
+  if (rule) {
+    try {
+      discount = await resolveDiscount(rule, { ...options, lines: withPromotionDiscounts(options.lines, promotions) });
+    } catch (error) {
+      if (!(error instanceof DiscountError)) {
+        throw error;
+      }
+      discountError = error.message;
+    }
+  }
+
+  return { savings: combineSavings(promotions, discount), nudges, discountError };
+}
+
+// ============================================
+// REDEMPTION
+// ============================================
+
+/**
+ * Count an order against a code's usage limit
+ *
+ * Runs in the order's transaction. The increment only applies while the
+ * code is under `maxUses`, so concurrent orders can't push it past its
+ * limit. An order that paid with a code that was used up (or deleted) in
+ * the meantime keeps its discount but is flagged for staff to review.
+ *
+ * @returns Whether the use was counted
+ */
+export async function redeemDiscount(
+  tx: Prisma.TransactionClient,
+  discountId: string,
+  orderId: string
+): Promise<boolean> {
+  const { count } = await tx.discountCode.updateMany({
+    where: {
+      id: discountId,
+      OR: [{ maxUses: null }, { currentUses: { lt: prisma.discountCode.fields.maxUses } }],
+    },
+    data: { currentUses: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    logger.warn('Discount code redeemed past its limit', { discountId, orderId });
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        flaggedAt: new Date(),
+        flagReasons: { push: 'Discount code was used up or removed before this order was placed' },
+      },
+    });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,48 @@
+/**
+ * Stripe Discounts
+ *
+ * Pushes a cart's savings to Stripe Checkout as a one-off coupon for the
+ * exact amount, so the hosted page shows the code and promotions and the
+ * total the order will record.
+ */
+
+import type Stripe from 'stripe';
+import type { CartSavings } from './types';
+
+/** Longest coupon name Stripe accepts */
+const STRIPE_COUPON_NAME_LENGTH = 40;
+
+/**
+ * Create a single-use coupon for a cart's savings
+ *
+ * @returns Coupon ID for the session's `discounts`, or null if nothing
+ *   is taken off
+ */
+export async function createDiscountCoupon(
+  stripe: Stripe,
+  savings: CartSavings,
+  currency: string = 'usd'
+): Promise<string | null> {
+  if (savings.total <= 0) {
+    return null;
+  }
+
+  const names = [
+    ...(savings.discount ? [savings.discount.code] : []),
+    ...savings.promotions.map((promotion) => promotion.name),
+  ];
+
+  const coupon = await stripe.coupons.create({
+    amount_off: Math.round(savings.total * 100),
+    currency,
+    duration: 'once',
+    max_redemptions: 1,
+    name: names.join(', ').slice(0, STRIPE_COUPON_NAME_LENGTH),
+    metadata: {
+      discountId: savings.discount?.discountId ?? '',
+      promotionIds: savings.promotions.map((promotion) => promotion.promotionId).join(','),
+    },
+  });
+
+  return coupon.id;
+}
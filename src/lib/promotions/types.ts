@@ -0,0 +1,177 @@
+/**
+ * Promotion Types
+ *
+ * Shared types for discount codes, automatic promotions, the cart lines
+ * they are checked against and the per-line allocations checkout, Stripe
+ * and orders all use.
+ */
+
+/**
+ * How a discount code takes money off
+ * - `PERCENTAGE`: percent off the eligible items
+ * - `FIXED`: amount off the eligible items, spread across them
+ * - `SHIPPING`: percent off shipping (100 makes it free)
+ */
+export type DiscountType = 'PERCENTAGE' | 'FIXED' | 'SHIPPING';
+
+/**
+ * A discount code as the engine sees it, read from `DiscountCode`
+ */
+export interface DiscountRule {
+  id: string;
+  code: string;
+  type: DiscountType;
+  value: number;
+  isActive: boolean;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  currentUses: number;
+  maxUsesPerUser: number | null;
+  minPurchaseAmount: number | null;
+  /** Category IDs the code is limited to (empty means all) */
+  applicableCategories: string[];
+  /** Product IDs the code is limited to (empty means all) */
+  applicableProducts: string[];
+}
+
+/**
+ * A cart or order line to price a discount against
+ */
+export interface PromotionLine {
+  /** Caller's identifier (cart item ID, variant ID, ...) */
+  id: string;
+  productId: string;
+  categoryId: string | null;
+  unitPrice: number;
+  quantity: number;
+  variantId?: string;
+  /** Set for a free gift line added by this automatic promotion */
+  giftPromotionId?: string | null;
+  /** Already taken off by automatic promotions; codes price what's left */
+  discount?: number;
+}
+
+/**
+ * One line's share of a discount
+ */
+export interface LineDiscount {
+  lineId: string;
+  amount: number;
+}
+
+/**
+ * A discount worked out for a cart
+ */
+export interface AppliedDiscount {
+  discountId: string;
+  code: string;
+  type: DiscountType;
+  value: number;
+  /** Total of the lines the code applies to */
+  eligibleSubtotal: number;
+  /** Off the items, per eligible line */
+  lineDiscounts: LineDiscount[];
+  /** Off the items, all lines together */
+  itemDiscount: number;
+  /** Off shipping */
+  shippingDiscount: number;
+  /** Off the order */
+  total: number;
+}
+
+// ============================================
+// AUTOMATIC PROMOTIONS
+// ============================================
+
+/**
+ * Which lines a promotion looks at, and what they must add up to
+ *
+ * Product and category lists work like a code's; with neither, every line
+ * counts. Free gift lines never count.
+ */
+export interface PromotionCondition {
+  /** Total of the matching lines, before any discount */
+  minSubtotal?: number;
+  /** Units across the matching lines */
+  minQuantity?: number;
+  productIds?: string[];
+  categoryIds?: string[];
+}
+
+/**
+ * What a promotion gives once its condition is met
+ * - `PERCENT_OFF`: percent off the matching lines
+ * - `AMOUNT_OFF`: amount off the matching lines, spread across them
+ * - `FREE_ITEMS`: for every `buyQuantity` matching units, the next
+ *   `freeQuantity` are free, cheapest first
+ * - `BUNDLE_PRICE`: each complete set of `items` costs `price`
+ * - `FREE_GIFT`: `quantity` of the variant is added to the cart for free
+ */
+export type PromotionAction =
+  | { type: 'PERCENT_OFF'; percent: number }
+  | { type: 'AMOUNT_OFF'; amount: number }
+  | { type: 'FREE_ITEMS'; buyQuantity: number; freeQuantity: number }
+  | { type: 'BUNDLE_PRICE'; items: Array<{ productId: string; quantity: number }>; price: number }
+  | { type: 'FREE_GIFT'; variantId: string; quantity: number };
+
+export type PromotionActionType = PromotionAction['type'];
+
+/**
+ * An automatic promotion as the engine sees it, read from `AutomaticPromotion`
+ */
+export interface PromotionRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  priority: number;
+  stackable: boolean;
+  condition: PromotionCondition;
+  action: PromotionAction;
+  /** Price of a `FREE_GIFT` variant, or null if it can't be given */
+  giftPrice?: number | null;
+}
+
+/**
+ * An automatic promotion worked out for a cart
+ */
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  type: PromotionActionType;
+  lineDiscounts: LineDiscount[];
+  /** Off the order, including a free gift not yet in the cart */
+  total: number;
+  /** Variant to add for a `FREE_GIFT` promotion */
+  giftVariantId: string | null;
+  giftQuantity: number;
+}
+
+/**
+ * How close a cart is to a promotion it doesn't get yet
+ */
+export interface PromotionNudge {
+  promotionId: string;
+  name: string;
+  /** Spend still needed, if that's what's missing */
+  amountNeeded: number | null;
+  /** Units still needed, if that's what's missing */
+  quantityNeeded: number | null;
+  message: string;
+}
+
+/**
+ * Everything taken off a cart: automatic promotions first, then the code
+ * on what's left
+ */
+export interface CartSavings {
+  promotions: AppliedPromotion[];
+  discount: AppliedDiscount | null;
+  /** Off the items, per line, promotions and code together */
+  lineDiscounts: LineDiscount[];
+  itemDiscount: number;
+  shippingDiscount: number;
+  total: number;
+}
@@ -0,0 +1,158 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure sliding-window and token-bucket decisions, used as-is by the
+ * in-memory store. The Redis store runs the same maths in Lua (see
+ * `./redis-store`), so both stores limit identically.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitConfig {
+  /** Maximum requests per window (the bucket size for token buckets) */
+  maxRequests: number;
+  /** Window duration in milliseconds (the time to refill an empty bucket) */
+  windowMs: number;
+  /** Optional prefix for keys */
+  prefix?: string;
+  /**
+   * How requests are counted
+   * @default 'sliding-window'
+   */
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * Outcome of consuming one request
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the full limit is available again */
+  resetMs: number;
+  /** Milliseconds until a request would be allowed; 0 if this one was */
+  retryAfterMs: number;
+}
+
+/**
+ * Counts for the current and previous fixed windows
+ */
+export interface SlidingWindowState {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// ============================================
+// SLIDING WINDOW
+// ============================================
+
+/**
+ * Consume a request from a sliding window
+ *
+ * Approximates a true sliding window from two fixed windows: requests in
+ * the previous window count in proportion to how much of it still overlaps
+ * the last `windowMs`.
+ *
+ * @returns The decision, the state to store and how long to keep it
+ */
+export function consumeSlidingWindow(
+  state: SlidingWindowState | null,
+  config: RateLimitConfig,
+  now: number
+): { decision: RateLimitDecision; state: SlidingWindowState; ttlMs: number } {
+  const { maxRequests: limit, windowMs } = config;
+  const windowStart = now - (now % windowMs);
+
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+
+  const elapsed = now - windowStart;
+  const previousWeight = (windowMs - elapsed) / windowMs;
+  const allowed = previousCount * previousWeight + count + 1 <= limit;
+
+  let retryAfterMs = 0;
+  if (allowed) {
+    count++;
+  } else if (count + 1 <= limit && previousCount > 0) {
+    // Enough of the previous window will slide out before this one ends
+    retryAfterMs = (windowMs * (previousCount - (limit - 1 - count))) / previousCount - elapsed;
+  } else {
+    // Wait for this window to become the previous one and slide out
+    retryAfterMs = windowMs - elapsed + Math.max(0, (windowMs * (count - (limit - 1))) / count);
+  }
+
+  const used = previousCount * previousWeight + count;
+
+  return {
+    decision: {
+      allowed,
+      remaining: Math.max(0, Math.floor(limit - used)),
+      resetMs: Math.ceil(windowMs - elapsed + (count > 0 ? windowMs : 0)),
+      retryAfterMs: Math.ceil(retryAfterMs),
+    },
+    state: { windowStart, count, previousCount },
+    ttlMs: windowMs * 2,
+  };
+}
+
+// ============================================
+// TOKEN BUCKET
+// ============================================
+
+/**
+ * Consume a request from a token bucket
+ *
+ * The bucket holds up to `maxRequests` tokens and refills at
+ * `maxRequests` per `windowMs`, so short bursts are allowed while the
+ * average rate stays within the limit.
+ *
+ * @returns The decision, the state to store and how long to keep it
+ */
+export function consumeTokenBucket(
+  state: TokenBucketState | null,
+  config: RateLimitConfig,
+  now: number
+): { decision: RateLimitDecision; state: TokenBucketState; ttlMs: number } {
+  const { maxRequests: limit, windowMs } = config;
+  const refillPerMs = limit / windowMs;
+
+  let tokens = state
+    ? Math.min(limit, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs)
+    : limit;
+
+  const allowed = tokens >= 1;
+  let retryAfterMs = 0;
+  if (allowed) {
+    tokens -= 1;
+  } else {
+    retryAfterMs = (1 - tokens) / refillPerMs;
+  }
+
+  return {
+    decision: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / refillPerMs),
+      retryAfterMs: Math.ceil(retryAfterMs),
+    },
+    state: { tokens, updatedAt: now },
+    // An untouched bucket is full again after one window
+    ttlMs: windowMs,
+  };
+}
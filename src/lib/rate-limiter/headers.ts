@@ -0,0 +1,51 @@
+/**
+ * Rate Limit Headers
+ *
+ * `RateLimit-*` response headers from the IETF RateLimit header fields
+ * draft, plus `Retry-After` on limited responses, and the client IP used
+ * to key anonymous limits.
+ */
+
+import type { RateLimitConfig } from './algorithms';
+import type { RateLimitResult } from './index';
+
+// ============================================
+// HEADERS
+// ============================================
+
+/**
+ * Headers describing a rate limit result
+ *
+ * @example
+ * const result = await rateLimiter.limit(ip, SEARCH_RATE_LIMIT);
+ * return NextResponse.json(data, { headers: getRateLimitHeaders(result, SEARCH_RATE_LIMIT) });
+ */
+export function getRateLimitHeaders(result: RateLimitResult, config: RateLimitConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetAfter),
+    'RateLimit-Policy': `${config.maxRequests};w=${Math.ceil(config.windowMs / 1000)}`,
+  };
+
+  if (result.limited) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
+
+// ============================================
+// CLIENT IP
+// ============================================
+
+/**
+ * The client's IP address, as forwarded by the Railway/Vercel proxy
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return headers.get('x-real-ip') || 'unknown';
+}
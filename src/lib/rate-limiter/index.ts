@@ -0,0 +1,193 @@
+/**
+ * Rate Limiter Utility
+ * Provides rate limiting for API endpoints and server actions
+ *
+ * State lives in Redis when `REDIS_URL` is set, so limits hold across all
+ * server instances; otherwise (and whenever Redis is unreachable) each
+ * process limits on its own in memory.
+ */
+
+import Redis from 'ioredis';
+import { logger } from '@/lib/logger';
+import type { RateLimitConfig } from './algorithms';
+import { MemoryRateLimitStore, type RateLimitStore } from './store';
+import { RedisRateLimitStore } from './redis-store';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RateLimitResult {
+  /** Whether the request is allowed */
+  success: boolean;
+  /** Maximum requests per window */
+  limit: number;
+  /** Number of remaining requests in current window */
+  remaining: number;
+  /** Seconds until the rate limit fully resets */
+  resetAfter: number;
+  /** Seconds until a request will be allowed again; 0 when allowed */
+  retryAfter: number;
+  /** Whether the limit was exceeded */
+  limited: boolean;
+}
+
+// ============================================
+// RATE LIMITER CLASS
+// ============================================
+
+/**
+ * Rate limiter over a pluggable store
+ */
+export class RateLimiter {
+  private readonly fallback = new MemoryRateLimitStore();
+
+  constructor(private readonly store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Check rate limit for an identifier
+   *
+   * @param identifier - Unique identifier (e.g., user ID, IP address)
+   * @param config - Rate limit configuration
+   * @returns Rate limit result
+   */
+  async limit(identifier: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const key = config.prefix ? `${config.prefix}:${identifier}` : identifier;
+    const now = Date.now();
+
+    let decision;
+    try {
+      decision = await this.store.consume(key, config, now);
+    } catch (error) {
+      logger.warn('Rate limit store unavailable, limiting in memory', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      decision = await this.fallback.consume(key, config, now);
+    }
+
+    return {
+      success: decision.allowed,
+      limit: config.maxRequests,
+      remaining: decision.remaining,
+      resetAfter: Math.ceil(decision.resetMs / 1000),
+      retryAfter: decision.allowed ? 0 : Math.max(1, Math.ceil(decision.retryAfterMs / 1000)),
+      limited: !decision.allowed,
+    };
+  }
+
+  /**
+   * Reset rate limit for an identifier
+   *
+   * @param identifier - Unique identifier
+   * @param prefix - Optional prefix
+   */
+  async reset(identifier: string, prefix?: string): Promise<void> {
+    const key = prefix ? `${prefix}:${identifier}` : identifier;
+    await this.fallback.reset(key);
+    try {
+      await this.store.reset(key);
+    } catch (error) {
+      logger.warn('Rate limit store unavailable, reset in memory only', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Clean up expired in-memory entries to prevent memory leaks
+   */
+  cleanup(): void {
+    this.fallback.cleanup();
+    if (this.store instanceof MemoryRateLimitStore) {
+      this.store.cleanup();
+    }
+  }
+}
+
+// ============================================
+// SINGLETON INSTANCE
+// ============================================
+
+let rateLimiterInstance: RateLimiter | null = null;
+
+/**
+ * Create the store for this environment
+ */
+function createStore(): RateLimitStore {
+  if (!process.env.REDIS_URL) {
+    return new MemoryRateLimitStore();
+  }
+
+  const client = new Redis(process.env.REDIS_URL, {
+    // Fail fast so requests fall back to memory instead of queueing
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+  });
+  client.on('error', (error) => {
+    logger.error('Rate limiter Redis error', error);
+  });
+
+  return new RedisRateLimitStore(client);
+}
+
+/**
+ * Get the singleton rate limiter instance
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiterInstance) {
+    rateLimiterInstance = new RateLimiter(createStore());
+    // Run cleanup every 5 minutes
+    if (typeof setInterval !== 'undefined') {
+      setInterval(() => rateLimiterInstance?.cleanup(), 5 * 60 * 1000);
+    }
+  }
+  return rateLimiterInstance;
+}
+
+// ============================================
+// CONVENIENCE EXPORT
+// ============================================
+
+export const rateLimiter = {
+  limit: (identifier: string, config: RateLimitConfig) =>
+    getRateLimiter().limit(identifier, config),
+  reset: (identifier: string, prefix?: string) =>
+    getRateLimiter().reset(identifier, prefix),
+};
+
+// ============================================
+// RE-EXPORTS
+// ============================================
+
+export { consumeSlidingWindow, consumeTokenBucket } from './algorithms';
+export type {
+  RateLimitAlgorithm,
+  RateLimitConfig,
+  RateLimitDecision,
+  SlidingWindowState,
+  TokenBucketState,
+} from './algorithms';
+
+export { MemoryRateLimitStore } from './store';
+export type { RateLimitStore } from './store';
+
+export { RedisRateLimitStore } from './redis-store';
+export type { RedisRateLimitClient } from './redis-store';
+
+export {
+  LOGIN_RATE_LIMIT,
+  SIGNUP_RATE_LIMIT,
+  PASSWORD_RESET_RATE_LIMIT,
+  REVIEW_RATE_LIMIT,
+  CONTACT_RATE_LIMIT,
+  SEARCH_RATE_LIMIT,
+  ORDER_LOOKUP_RATE_LIMIT,
+  IMPORT_RATE_LIMIT,
+  PREVIEW_RATE_LIMIT,
+  RATE_LIMIT_POLICIES,
+} from './policies';
+export type { RateLimitPolicyName } from './policies';
+
+export { getRateLimitHeaders, getClientIp } from './headers';
@@ -0,0 +1,128 @@
+/**
+ * Rate Limit Policies
+ *
+ * Named limits for the endpoints we protect. The prefix doubles as the
+ * policy name in keys and the `RateLimit-Policy` header.
+ */
+
+import type { RateLimitConfig } from './algorithms';
+
+// ============================================
+// AUTH
+// ============================================
+
+/**
+ * Sign-in attempts: 5 per 15 minutes per email
+ */
+export const LOGIN_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  prefix: 'login',
+  algorithm: 'sliding-window',
+};
+
+/**
+ * Sign-ups: 5 per hour per IP address
+ */
+export const SIGNUP_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  prefix: 'signup',
+  algorithm: 'sliding-window',
+};
+
+/**
+ * Password reset emails: 3 per 15 minutes per email
+ */
+export const PASSWORD_RESET_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 3,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  prefix: 'password-reset',
+  algorithm: 'sliding-window',
+};
+
+// ============================================
+// CUSTOMER CONTENT
+// ============================================
+
+/**
+ * Reviews: bursts of 5, refilling at 5 per hour per user
+ */
+export const REVIEW_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  prefix: 'review',
+  algorithm: 'token-bucket',
+};
+
+/**
+ * Contact form: 5 per hour per IP address
+ */
+export const CONTACT_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  prefix: 'contact',
+  algorithm: 'sliding-window',
+};
+
+/**
+ * Search: bursts of 60, refilling at 60 per minute per IP address
+ */
+export const SEARCH_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 60,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'search',
+  algorithm: 'token-bucket',
+};
+
+/**
+ * Guest order lookups: 10 per 15 minutes per IP address
+ */
+export const ORDER_LOOKUP_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 10,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  prefix: 'order-lookup',
+  algorithm: 'sliding-window',
+};
+
+// ============================================
+// ADMIN
+// ============================================
+
+/**
+ * Import API rate limit configuration
+ * 10 requests per minute per user
+ */
+export const IMPORT_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 10,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'import',
+};
+
+/**
+ * Preview API rate limit configuration
+ * 20 requests per minute per user
+ */
+export const PREVIEW_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 20,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'preview',
+};
+
+// ============================================
+// BY NAME
+// ============================================
+
+export const RATE_LIMIT_POLICIES = {
+  login: LOGIN_RATE_LIMIT,
+  signup: SIGNUP_RATE_LIMIT,
+  passwordReset: PASSWORD_RESET_RATE_LIMIT,
+  review: REVIEW_RATE_LIMIT,
+  contact: CONTACT_RATE_LIMIT,
+  search: SEARCH_RATE_LIMIT,
+  orderLookup: ORDER_LOOKUP_RATE_LIMIT,
+  import: IMPORT_RATE_LIMIT,
+  preview: PREVIEW_RATE_LIMIT,
+} as const;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
@@ -0,0 +1,137 @@
+/**
+ * Redis Rate Limit Store
+ *
+ * Runs the algorithms from `./algorithms` as Lua scripts, so each request
+ * is read, decided and written in one atomic step no matter how many
+ * server instances share the Redis. Timestamps come from the calling
+ * server; small clock differences between instances only shift windows by
+ * that much.
+ */
+
+import type Redis from 'ioredis';
+import type { RateLimitConfig, RateLimitDecision } from './algorithms';
+import type { RateLimitStore } from './store';
+
+// ============================================
+// SCRIPTS
+// ============================================
+
+/**
+ * KEYS[1] key; ARGV limit, windowMs, now
+ * Returns { allowed, remaining, resetMs, retryAfterMs }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local windowStart = now - now % window
+
+local stored = redis.call('HMGET', KEYS[1], 'windowStart', 'count', 'previousCount')
+local storedStart = tonumber(stored[1])
+local count = 0
+local previousCount = 0
+if storedStart == windowStart then
+  count = tonumber(stored[2]) or 0
+  previousCount = tonumber(stored[3]) or 0
+elseif storedStart == windowStart - window then
+  previousCount = tonumber(stored[2]) or 0
+end
+
+local elapsed = now - windowStart
+local previousWeight = (window - elapsed) / window
+local allowed = 0
+local retryAfter = 0
+if previousCount * previousWeight + count + 1 <= limit then
+  allowed = 1
+  count = count + 1
+  redis.call('HSET', KEYS[1], 'windowStart', windowStart, 'count', count, 'previousCount', previousCount)
+  redis.call('PEXPIRE', KEYS[1], window * 2)
+elseif count + 1 <= limit and previousCount > 0 then
+  retryAfter = window * (previousCount - (limit - 1 - count)) / previousCount - elapsed
+else
+  retryAfter = window - elapsed + math.max(0, window * (count - (limit - 1)) / count)
+end
+
+local remaining = math.max(0, math.floor(limit - (previousCount * previousWeight + count)))
+local reset = window - elapsed
+if count > 0 then
+  reset = reset + window
+end
+return { allowed, remaining, math.ceil(reset), math.ceil(retryAfter) }
+`;
+
+/**
+ * KEYS[1] key; ARGV limit, windowMs, now
+ * Returns { allowed, remaining, resetMs, retryAfterMs }
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local refillPerMs = limit / window
+
+local stored = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = limit
+local storedTokens = tonumber(stored[1])
+if storedTokens then
+  local updatedAt = tonumber(stored[2]) or now
+  tokens = math.min(limit, storedTokens + math.max(0, now - updatedAt) * refillPerMs)
+end
+
+local allowed = 0
+local retryAfter = 0
+if tokens >= 1 then
+  allowed = 1
+  tokens = tokens - 1
+else
+  retryAfter = (1 - tokens) / refillPerMs
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tokens, 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], window)
+return { allowed, math.floor(tokens), math.ceil((limit - tokens) / refillPerMs), math.ceil(retryAfter) }
+`;
+
+// ============================================
+// REDIS STORE
+// ============================================
+
+/**
+ * The Redis commands the store needs; an ioredis client (or ioredis-mock
+ * in tests) satisfies it
+ */
+export type RedisRateLimitClient = Pick<Redis, 'eval' | 'del'>;
+
+/**
+ * Redis-backed rate limit store
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: RedisRateLimitClient,
+    private readonly keyPrefix: string = 'ratelimit:'
+  ) {}
+
+  async consume(key: string, config: RateLimitConfig, now: number): Promise<RateLimitDecision> {
+    const script = config.algorithm === 'token-bucket' ? TOKEN_BUCKET_SCRIPT : SLIDING_WINDOW_SCRIPT;
+    const reply = (await this.client.eval(
+      script,
+      1,
+      this.keyPrefix + key,
+      config.maxRequests,
+      config.windowMs,
+      Math.floor(now)
+    )) as number[];
+
+    const [allowed, remaining, resetMs, retryAfterMs] = reply.map(Number);
+    return {
+      allowed: allowed === 1,
+      remaining,
+      resetMs,
+      retryAfterMs,
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Rate Limit Stores
+ *
+ * Where rate limit state lives. A store consumes one request atomically and
+ * reports the decision, so a shared store (Redis) gives one limit across
+ * every server instance. The in-memory store only limits per process; it is
+ * used in development and as the fallback when Redis is unavailable.
+ */
+
+import {
+  consumeSlidingWindow,
+  consumeTokenBucket,
+  type RateLimitConfig,
+  type RateLimitDecision,
+  type SlidingWindowState,
+  type TokenBucketState,
+} from './algorithms';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Storage adapter for the rate limiter
+ */
+export interface RateLimitStore {
+  /**
+   * Consume one request for a key
+   *
+   * @param key - Full key, including the policy prefix
+   * @param now - Current time in milliseconds
+   */
+  consume(key: string, config: RateLimitConfig, now: number): Promise<RateLimitDecision>;
+  /**
+   * Forget a key's state
+   */
+  reset(key: string): Promise<void>;
+}
+
+// ============================================
+// MEMORY STORE
+// ============================================
+
+/**
+ * In-memory rate limit store
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private store = new Map<
+    string,
+    { state: SlidingWindowState | TokenBucketState; expiresAt: number }
+  >();
+
+  async consume(key: string, config: RateLimitConfig, now: number): Promise<RateLimitDecision> {
+    const record = this.store.get(key);
+    const stored = record && record.expiresAt > now ? record.state : null;
+
+    const { decision, state, ttlMs } =
+      config.algorithm === 'token-bucket'
+        ? consumeTokenBucket(stored && 'tokens' in stored ? stored : null, config, now)
+        : consumeSlidingWindow(stored && 'windowStart' in stored ? stored : null, config, now);
+
+    this.store.set(key, { state, expiresAt: now + ttlMs });
+    return decision;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  /**
+   * Clean up expired entries to prevent memory leaks
+   */
+  cleanup(now: number = Date.now()): void {
+    for (const [key, record] of this.store.entries()) {
+      if (record.expiresAt <= now) {
+        this.store.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Registry Completion
+ *
+ * Post-event lifecycle for registries. Once a registry's event date has
+ * passed, the lifecycle job marks it COMPLETED and issues the registrant a
+ * single-use `DiscountCode` for the items nobody gifted. Completed
+ * registries are ARCHIVED a while later.
+ *
+ * Registrants can also complete their registry themselves; the job picks
+ * those up too (they have no `completedAt` yet) and issues the discount.
+ * A registry reopened after completion is left alone.
+ */
+
+import crypto from 'crypto';
+import * as React from 'react';
+import type { DiscountCode, RegistryStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { ConflictError } from '@/lib/errors';
+import { emailConfig } from '@/lib/email/config';
+import { sendTemplateEmail } from '@/lib/email/service';
+import { RegistryCompletionEmail } from '@/lib/email/templates/registry-completion';
+import { getRemainingQuantity } from './gifts';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Percentage off the unpurchased items
+ */
+export const COMPLETION_DISCOUNT_PERCENT = 15;
+
+/**
+ * How long the completion discount can be used for
+ */
+export const COMPLETION_DISCOUNT_VALID_DAYS = 60;
+
+/**
+ * How long a registry stays COMPLETED before it is archived
+ */
+export const ARCHIVE_AFTER_DAYS = 180;
+
+/**
+ * Registries handled per lifecycle run
+ */
+const LIFECYCLE_BATCH_SIZE = 100;
+
+/**
+ * Unambiguous characters for discount codes (no 0/O, 1/I)
+ */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Lifecycle fields of a registry
+ */
+export interface RegistryLifecycleFields {
+  status: RegistryStatus;
+  eventDate: Date | null;
+  completedAt: Date | null;
+}
+
+/**
+ * What the lifecycle job should do with a registry
+ */
+export type RegistryLifecycleTransition = 'complete' | 'archive' | null;
+
+/**
+ * Summary of a lifecycle run
+ */
+export interface RegistryLifecycleResult {
+  completed: number;
+  archived: number;
+  discountsIssued: number;
+  errors: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Decide which lifecycle step, if any, is due for a registry
+ */
+export function getLifecycleTransition(
+  registry: RegistryLifecycleFields,
+  now: Date = new Date()
+): RegistryLifecycleTransition {
+  if (registry.status === 'ACTIVE') {
+    // A registry its owner reopened after completion stays open
+    return registry.eventDate && registry.eventDate <= now && !registry.completedAt ? 'complete' : null;
+  }
+
+  if (registry.status === 'COMPLETED') {
+    if (!registry.completedAt) {
+      return 'complete';
+    }
+    return registry.completedAt.getTime() + ARCHIVE_AFTER_DAYS * DAY_MS <= now.getTime()
+      ? 'archive'
+      : null;
+  }
+
+  return null;
+}
+
+function generateDiscountCode(): string {
+  const bytes = crypto.randomBytes(8);
+  const suffix = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `THANKS-${suffix}`;
+}
+
+// ============================================
+// COMPLETION DISCOUNT
+// ============================================
+
+/**
+ * Issue a registry's completion discount and email it to the registrant
+ *
+ * The code is single-use and only applies to the products still
+ * unpurchased. Safe to call more than once: a registry gets at most one
+ * code, and nothing is issued when every item was gifted.
+ *
+ * @returns The registry's discount code, or null if none was needed
+ */
+export async function issueCompletionDiscount(
+  registryId: string,
+  now: Date = new Date()
+): Promise<DiscountCode | null> {
+  const registry = await prisma.registry.findUnique({
+    where: { id: registryId },
+    include: {
+      items: true,
+      completionDiscount: true,
+      user: { select: { email: true, firstName: true } },
+    },
+  });
+
+  if (!registry) {
+    return null;
+  }
+  if (registry.completionDiscount) {
+    return registry.completionDiscount;
+  }
+
+  const remainingItems = registry.items.filter((item) => getRemainingQuantity(item) > 0);
+  if (remainingItems.length === 0) {
+    return null;
+  }
+
+  const expiresAt = new Date(now.getTime() + COMPLETION_DISCOUNT_VALID_DAYS * DAY_MS);
+
+  let discount: DiscountCode;
+  try {
+    discount = await prisma.$transaction(async (tx) => {
+      const created = await tx.discountCode.create({
+        data: {
+          code: generateDiscountCode(),
+          description: `Registry completion discount for ${registry.name}`,
+          discountType: 'PERCENTAGE',
+          discountValue: COMPLETION_DISCOUNT_PERCENT,
+          startsAt: now,
+          expiresAt,
+          maxUses: 1,
+          maxUsesPerUser: 1,
+          applicableProducts: [...new Set(remainingItems.map((item) => item.productId))],
+        },
+      });
+
+      // Only the first concurrent run gets to link its code
+      const { count } = await tx.registry.updateMany({
+        where: { id: registry.id, completionDiscountId: null },
+        data: { completionDiscountId: created.id },
+      });
+      if (count === 0) {
+        throw new ConflictError('Completion discount already issued', { registryId });
+      }
+
+      return created;
+    });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return prisma.discountCode.findFirst({ where: { registry: { id: registryId } } });
+    }
+    throw error;
+  }
+
+  const result = await sendTemplateEmail({
+    to: registry.user.email,
+    subject: `${COMPLETION_DISCOUNT_PERCENT}% off the rest of your registry`,
+    react: React.createElement(RegistryCompletionEmail, {
+      firstName: registry.user.firstName,
+      registryName: registry.name,
+      discountCode: discount.code,
+      discountPercent: COMPLETION_DISCOUNT_PERCENT,
+      expiresAt,
+      remainingItems: remainingItems.map((item) =>
+        item.variantName ? `${item.productName} (${item.variantName})` : item.productName
+      ),
+      manageUrl: `${emailConfig.baseUrl}/registry/${registry.shareCode}/manage`,
+    }),
+    tags: { type: 'registry-completion' },
+  });
+
+  // The code is also shown on the manage page, so a failed email isn't fatal
+  if (!result.success) {
+    logger.error('Failed to send registry completion email', undefined, {
+      registryId,
+      error: result.error,
+    });
+  }
+
+  logger.info('Registry completion discount issued', {
+    registryId,
+    discountCodeId: discount.id,
+    items: remainingItems.length,
+  });
+
+  return discount;
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Mark a registry COMPLETED, unless another run already has
+ */
+async function markRegistryCompleted(registryId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.registry.updateMany({
+    where: { id: registryId, status: { in: ['ACTIVE', 'COMPLETED'] }, completedAt: null },
+    data: { status: 'COMPLETED', completedAt: now },
+  });
+
+  return count === 1;
+}
+
+/**
+ * Move registries through their post-event lifecycle
+ *
+ * ACTIVE registries whose event date has passed (and registries completed
+ * by their owner) become COMPLETED and get a completion discount.
+ * Registries completed more than `ARCHIVE_AFTER_DAYS` ago are ARCHIVED.
+ */
+export async function runRegistryLifecycle(now: Date = new Date()): Promise<RegistryLifecycleResult> {
+  const result: RegistryLifecycleResult = { completed: 0, archived: 0, discountsIssued: 0, errors: 0 };
+  const archiveBefore = new Date(now.getTime() - ARCHIVE_AFTER_DAYS * DAY_MS);
+
+  const candidates = await prisma.registry.findMany({
+    where: {
+      OR: [
+        { status: 'ACTIVE', eventDate: { lte: now }, completedAt: null },
+        { status: 'COMPLETED', completedAt: null },
+        { status: 'COMPLETED', completedAt: { lte: archiveBefore } },
+      ],
+    },
+    select: { id: true, status: true, eventDate: true, completedAt: true },
+    orderBy: { eventDate: 'asc' },
+    take: LIFECYCLE_BATCH_SIZE,
+  });
+
+  for (const registry of candidates) {
+    try {
+      switch (getLifecycleTransition(registry, now)) {
+        case 'complete':
+          if (!(await markRegistryCompleted(registry.id, now))) {
+            break;
+          }
+          logger.info('Registry completed', { registryId: registry.id });
+          result.completed++;
+
+          if (await issueCompletionDiscount(registry.id, now)) {
+            result.discountsIssued++;
+          }
+          break;
+
+        case 'archive':
+          await prisma.registry.update({
+            where: { id: registry.id },
+            data: { status: 'ARCHIVED', archivedAt: now },
+          });
+          logger.info('Registry archived', { registryId: registry.id });
+          result.archived++;
+          break;
+      }
+    } catch (error) {
+      result.errors++;
+      logger.error('Registry lifecycle step failed', error as Error, { registryId: registry.id });
+    }
+  }
+
+  return result;
+}
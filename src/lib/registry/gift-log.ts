@@ -0,0 +1,133 @@
+/**
+ * Registry Gift Log
+ *
+ * Who bought what from a registry, for the registrant's thank-you notes.
+ * Built from the gift orders the Stripe webhook creates; cancelled and
+ * refunded orders are left out. Gifters who asked to stay anonymous are
+ * listed without their name or email.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NotFoundError } from '@/lib/errors';
+import { toCsv } from '@/lib/csv';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Shown for gifters who chose not to share their name
+ */
+export const ANONYMOUS_GIFTER = 'Anonymous';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One gift order in a registry's gift log
+ */
+export interface GiftLogEntry {
+  orderId: string;
+  orderNumber: string;
+  purchasedAt: Date;
+  gifterName: string;
+  /** Null for anonymous gifts */
+  gifterEmail: string | null;
+  giftMessage: string | null;
+  items: Array<{
+    productName: string;
+    variantName: string;
+    quantity: number;
+  }>;
+  thankYouSentAt: Date | null;
+}
+
+// ============================================
+// GIFT LOG
+// ============================================
+
+/**
+ * Get a registry's gift log, newest first
+ */
+export async function getRegistryGiftLog(registryId: string): Promise<GiftLogEntry[]> {
+  const orders = await prisma.order.findMany({
+    where: {
+      registryId,
+      status: { notIn: ['CANCELLED', 'REFUNDED'] },
+    },
+    include: {
+      items: { select: { productName: true, variantName: true, quantity: true } },
+      user: { select: { firstName: true, lastName: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return orders.map((order) => {
+    const accountName = [order.user?.firstName, order.user?.lastName].filter(Boolean).join(' ');
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      purchasedAt: order.createdAt,
+      gifterName: order.showGifterName
+        ? order.gifterName || accountName || order.customerEmail
+        : ANONYMOUS_GIFTER,
+      gifterEmail: order.showGifterName ? order.customerEmail : null,
+      giftMessage: order.giftMessage,
+      items: order.items,
+      thankYouSentAt: order.thankYouSentAt,
+    };
+  });
+}
+
+/**
+ * Tick or untick "thank-you sent" for a gift order
+ *
+ * @throws NotFoundError if the order isn't a gift from this registry
+ */
+export async function setThankYouSent(
+  registryId: string,
+  orderId: string,
+  sent: boolean
+): Promise<Date | null> {
+  const thankYouSentAt = sent ? new Date() : null;
+
+  const { count } = await prisma.order.updateMany({
+    where: { id: orderId, registryId },
+    data: { thankYouSentAt },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError('Gift not found');
+  }
+
+  return thankYouSentAt;
+}
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+/**
+ * Render a gift log as CSV, one row per item gifted
+ */
+export function toGiftLogCsv(entries: GiftLogEntry[]): string {
+  const header = ['Date', 'Order', 'From', 'Email', 'Item', 'Option', 'Quantity', 'Message', 'Thank-you sent'];
+
+  const rows = entries.flatMap((entry) =>
+    entry.items.map((item) => [
+      entry.purchasedAt.toISOString().slice(0, 10),
+      entry.orderNumber,
+      entry.gifterName,
+      entry.gifterEmail ?? '',
+      item.productName,
+      item.variantName,
+      String(item.quantity),
+      entry.giftMessage ?? '',
+      entry.thankYouSentAt ? entry.thankYouSentAt.toISOString().slice(0, 10) : '',
+    ])
+  );
+
+  return toCsv([header, ...rows]);
+}
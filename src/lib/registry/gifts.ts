@@ -0,0 +1,211 @@
+/**
+ * Registry Gifts
+ *
+ * Gifts bought from a registry go through the normal cart and Stripe
+ * checkout. Their cart lines carry the `RegistryItem` they were bought
+ * from, and a gift cart holds gifts for a single registry only, so the
+ * whole order ships to the registrant's address.
+ *
+ * `RegistryItem.quantityPurchased` is only updated when the Stripe webhook
+ * creates the order. Each claim is a compare-and-set on the current
+ * quantity, so concurrent gifters can't buy more than was asked for; the
+ * loser's claim fails and the webhook refunds them instead.
+ *
+ * The registrant's address is never shown to gifters: anything that shows
+ * a gift order's shipping address to the gifter masks it first.
+ */
+
+import type { Address, Prisma, Registry } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * How many times a claim is retried when another gift lands first
+ */
+const MAX_CLAIM_ATTEMPTS = 5;
+
+/**
+ * Shown in place of the registrant's street address
+ */
+export const GIFT_ADDRESS_PLACEHOLDER = 'Address on file with the registry';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Address fields needed to show where a gift is going
+ */
+export interface GiftAddressFields {
+  firstName: string;
+  lastName: string;
+  city: string;
+  state: string;
+  country: string;
+}
+
+/**
+ * Shipping address snapshot with the street, postcode and phone hidden
+ */
+export interface MaskedGiftAddress extends GiftAddressFields {
+  company: null;
+  line1: string;
+  line2: null;
+  zip: string;
+  phone: null;
+}
+
+/**
+ * A cart line, with the registry it was added from
+ */
+export interface GiftCartLine {
+  registryItemId: string | null;
+  registryItem?: { registryId: string } | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * How many of a registry item are still wanted
+ */
+export function getRemainingQuantity(item: { quantity: number; quantityPurchased: number }): number {
+  return Math.max(0, item.quantity - item.quantityPurchased);
+}
+
+/**
+ * Hide the registrant's street address, postcode and phone
+ *
+ * Keeps the shape of an order's shipping address snapshot, so pages and
+ * emails that render addresses can show it unchanged.
+ */
+export function maskGiftShippingAddress(address: GiftAddressFields): MaskedGiftAddress {
+  return {
+    firstName: address.firstName,
+    lastName: address.lastName ? `${address.lastName.charAt(0)}.` : '',
+    company: null,
+    line1: GIFT_ADDRESS_PLACEHOLDER,
+    line2: null,
+    city: address.city,
+    state: address.state,
+    zip: '',
+    country: address.country,
+    phone: null,
+  };
+}
+
+/**
+ * Get the registry a cart's gifts are for
+ *
+ * @returns The registry ID, or null for an ordinary cart
+ * @throws BadRequestError if the cart mixes gifts with other items, or
+ *   gifts for different registries
+ */
+export function getGiftCartRegistryId(lines: GiftCartLine[]): string | null {
+  const registryIds = new Set(lines.map((line) => line.registryItem?.registryId ?? null));
+
+  if (registryIds.size === 0 || (registryIds.size === 1 && registryIds.has(null))) {
+    return null;
+  }
+
+  if (registryIds.has(null)) {
+    throw new BadRequestError(
+      'Registry gifts ship to the registrant, so they must be checked out separately from your other items'
+    );
+  }
+  if (registryIds.size > 1) {
+    throw new BadRequestError('Gifts for different registries must be checked out separately');
+  }
+
+  return [...registryIds][0];
+}
+
+// ============================================
+// REGISTRY ADDRESS
+// ============================================
+
+/**
+ * Get a registry and the address its gifts ship to
+ *
+ * @throws NotFoundError if the registry doesn't exist
+ * @throws BadRequestError if it can't take gifts or has no shipping address
+ */
+export async function getGiftRegistry(
+  registryId: string
+): Promise<Registry & { shippingAddress: Address }> {
+  const registry = await prisma.registry.findUnique({
+    where: { id: registryId },
+    include: { shippingAddress: true },
+  });
+
+  if (!registry) {
+    throw new NotFoundError('Registry not found');
+  }
+  if (!registry.isPublic || registry.status !== 'ACTIVE') {
+    throw new BadRequestError('This registry is no longer accepting gifts');
+  }
+  if (!registry.shippingAddress) {
+    throw new BadRequestError("This registry doesn't have a shipping address yet, so gifts can't be sent");
+  }
+
+  return { ...registry, shippingAddress: registry.shippingAddress };
+}
+
+// ============================================
+// CLAIMS
+// ============================================
+
+/**
+ * Record a gift against a registry item
+ *
+ * Run inside the transaction that creates the gift's order. Increments
+ * `quantityPurchased` only if nobody else has since the item was read,
+ * retrying with the fresh count a few times.
+ *
+ * @throws NotFoundError if the item was removed from the registry
+ * @throws ConflictError if fewer than `quantity` are still wanted
+ */
+export async function claimRegistryItem(
+  tx: Prisma.TransactionClient,
+  registryItemId: string,
+  quantity: number
+): Promise<void> {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const item = await tx.registryItem.findUnique({
+      where: { id: registryItemId },
+      select: { quantity: true, quantityPurchased: true, productName: true },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Registry item not found', { registryItemId });
+    }
+
+    const remaining = getRemainingQuantity(item);
+    if (quantity > remaining) {
+      throw new ConflictError(
+        remaining === 0
+          ? `${item.productName} has already been purchased`
+          : `Only ${remaining} of ${item.productName} still needed`,
+        { registryItemId, requested: quantity, remaining }
+      );
+    }
+
+    const { count } = await tx.registryItem.updateMany({
+      where: { id: registryItemId, quantityPurchased: item.quantityPurchased },
+      data: { quantityPurchased: item.quantityPurchased + quantity },
+    });
+
+    if (count === 1) {
+      return;
+    }
+  }
+
+  throw new ConflictError('This registry item is being purchased by someone else. Please try again.', {
+    registryItemId,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Registry
+ *
+ * Registry gifts: "buy from registry" carts, shipping to the registrant's
+ * hidden address and race-free updates to `RegistryItem.quantityPurchased`.
+ * After the event: the gift log, completion discounts and the
+ * COMPLETED/ARCHIVED lifecycle.
+ */
+
+export {
+  GIFT_ADDRESS_PLACEHOLDER,
+  getRemainingQuantity,
+  maskGiftShippingAddress,
+  getGiftCartRegistryId,
+  getGiftRegistry,
+  claimRegistryItem,
+} from './gifts';
+export type { GiftAddressFields, MaskedGiftAddress, GiftCartLine } from './gifts';
+
+export {
+  ANONYMOUS_GIFTER,
+  getRegistryGiftLog,
+  setThankYouSent,
+  toGiftLogCsv,
+} from './gift-log';
+export type { GiftLogEntry } from './gift-log';
+
+export {
+  COMPLETION_DISCOUNT_PERCENT,
+  COMPLETION_DISCOUNT_VALID_DAYS,
+  ARCHIVE_AFTER_DAYS,
+  getLifecycleTransition,
+  issueCompletionDiscount,
+  runRegistryLifecycle,
+} from './completion';
+export type {
+  RegistryLifecycleFields,
+  RegistryLifecycleTransition,
+  RegistryLifecycleResult,
+} from './completion';
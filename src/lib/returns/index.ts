@@ -0,0 +1,30 @@
+/**
+ * Returns
+ *
+ * Return requests (RMAs) with per-item quantities and reason codes, staff
+ * approval at `/admin/returns`, printable return labels, partial Stripe
+ * refunds, restocking on receipt and supplier claims for dropshipped items.
+ */
+
+export {
+  createReturnRequest,
+  cancelReturnRequest,
+  approveReturnRequest,
+  processApprovedReturn,
+  markReturnReceived,
+  rejectReturnRequest,
+  updateDropshipClaim,
+} from './service';
+export type { CreateReturnRequestInput, ReturnItemInput, ReturnRequestWithItems } from './service';
+export {
+  RETURN_WINDOW_DAYS,
+  RETURN_REASON_LABELS,
+  SELLER_FAULT_REASONS,
+  isWithinReturnWindow,
+  getReturnableQuantities,
+  allocateCents,
+  calculateReturnRefund,
+} from './policy';
+export type { RefundOrderTotals, RefundLine, ReturnRefundBreakdown } from './policy';
+export { generateRmaNumber, getReturnAddress, getReturnLabelPath } from './labels';
+export type { ReturnAddress } from './labels';
@@ -0,0 +1,61 @@
+/**
+ * Return Labels
+ *
+ * RMA numbers and the warehouse address printed on return labels. The
+ * address comes from RETURN_ADDRESS_*, falling back to the SHIP_FROM_*
+ * warehouse used for shipping rates.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Address returned parcels are sent to
+ */
+export interface ReturnAddress {
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+// ============================================
+// LABELS
+// ============================================
+
+/**
+ * Generate a unique RMA number
+ */
+export function generateRmaNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `RMA-${timestamp}-${random}`;
+}
+
+/**
+ * Get the warehouse address for return labels
+ */
+export function getReturnAddress(): ReturnAddress {
+  return {
+    name: process.env.RETURN_ADDRESS_NAME || 'Baby Petite Returns',
+    line1: process.env.RETURN_ADDRESS_LINE1 || '500 Terry A Francois Blvd',
+    line2: process.env.RETURN_ADDRESS_LINE2 || null,
+    city: process.env.RETURN_ADDRESS_CITY || 'San Francisco',
+    state: process.env.RETURN_ADDRESS_STATE || process.env.SHIP_FROM_STATE || 'CA',
+    zip: process.env.RETURN_ADDRESS_ZIP || process.env.SHIP_FROM_ZIP || '94158',
+    country: process.env.RETURN_ADDRESS_COUNTRY || process.env.SHIP_FROM_COUNTRY || 'US',
+  };
+}
+
+/**
+ * Path of the printable label for a return request
+ *
+ * @param returnId - Return request ID
+ */
+export function getReturnLabelPath(returnId: string): string {
+  return `/account/returns/${returnId}/label`;
+}
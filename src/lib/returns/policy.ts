@@ -0,0 +1,200 @@
+/**
+ * Return Policy
+ *
+ * Return window, reason codes and refund calculation for return requests.
+ * Pure functions only, so the account and admin screens can preview a
+ * refund before anything is written.
+ */
+
+import type { ReturnReason } from '@prisma/client';
+
+// ============================================
+// POLICY
+// ============================================
+
+/** Days after delivery that items can be returned */
+export const RETURN_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Customer-facing labels for return reason codes
+ */
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  DAMAGED: 'Arrived damaged',
+  DEFECTIVE: 'Defective or faulty',
+  WRONG_ITEM: 'Wrong item sent',
+  NOT_AS_DESCRIBED: 'Not as described',
+  TOO_SMALL: 'Too small',
+  TOO_LARGE: 'Too large',
+  CHANGED_MIND: 'No longer needed',
+  OTHER: 'Other',
+};
+
+/**
+ * Reasons where the problem is ours, not the customer's. Returns made
+ * entirely for these reasons also get their share of shipping back.
+ */
+export const SELLER_FAULT_REASONS: ReadonlySet<ReturnReason> = new Set<ReturnReason>([
+  'DAMAGED',
+  'DEFECTIVE',
+  'WRONG_ITEM',
+  'NOT_AS_DESCRIBED',
+]);
+
+/**
+ * Check whether an order delivered at `deliveredAt` can still be returned
+ *
+ * @param deliveredAt - Delivery date (undelivered orders are always in window)
+ * @param now - Current time
+ */
+export function isWithinReturnWindow(deliveredAt: Date | null, now: Date = new Date()): boolean {
+  if (!deliveredAt) return true;
+  return now.getTime() - deliveredAt.getTime() <= RETURN_WINDOW_DAYS * DAY_MS;
+}
+
+/**
+ * Quantity of each order line that is still returnable
+ *
+ * @param orderItems - Order lines
+ * @param returnedItems - Lines on earlier returns that weren't rejected or cancelled
+ * @returns Map of order item ID to returnable quantity
+ *
+ * @example
+ * getReturnableQuantities([{ id: 'oi1', quantity: 3 }], [{ orderItemId: 'oi1', quantity: 1 }]);
+ * // Map { 'oi1' => 2 }
+ */
+export function getReturnableQuantities(
+  orderItems: Array<{ id: string; quantity: number }>,
+  returnedItems: Array<{ orderItemId: string; quantity: number }>
+): Map<string, number> {
+  const returnable = new Map(orderItems.map((item) => [item.id, item.quantity]));
+  for (const returned of returnedItems) {
+    const remaining = returnable.get(returned.orderItemId);
+    if (remaining !== undefined) {
+      returnable.set(returned.orderItemId, Math.max(0, remaining - returned.quantity));
+    }
+  }
+  return returnable;
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+/**
+ * Order totals the refund is apportioned from (dollars)
+ */
+export interface RefundOrderTotals {
+  subtotal: number;
+  discountAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+/**
+ * A returned line (dollars)
+ */
+export interface RefundLine {
+  unitPrice: number;
+  quantity: number;
+  reason: ReturnReason;
+}
+
+/**
+ * Refund breakdown (dollars). `lines` is the refund per input line and sums
+ * to `total`.
+ */
+export interface ReturnRefundBreakdown {
+  items: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  lines: number[];
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Split an amount in cents across weights, largest-remainder style, so the
+ * parts always add back up to the amount
+ *
+ * @param amountCents - Amount to split
+ * @param weights - Relative weights (e.g. line values)
+ */
+export function allocateCents(amountCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return weights.map((_, index) => (index === 0 ? amountCents : 0));
+  }
+
+  const exact = weights.map((weight) => (amountCents * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let remainder = amountCents - parts.reduce((sum, part) => sum + part, 0);
+
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    parts[index] += 1;
+    remainder -= 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Calculate the refund for returned lines
+ *
+ * Each line gets back what the customer actually paid for it: its price,
+ * less its share of any order discount, plus its share of tax. Shipping is
+ * only refunded (pro rata) when every line is a seller-fault return. The
+ * total never exceeds what is left unrefunded on the order.
+ *
+ * @param order - Order totals
+ * @param lines - Returned lines
+ * @param alreadyRefunded - Amount refunded on the order so far
+ * @returns Refund breakdown in dollars
+ *
+ * @example
+ * calculateReturnRefund(
+ *   { subtotal: 50, discountAmount: 5, shippingAmount: 6, taxAmount: 3.6, total: 54.6 },
+ *   [{ unitPrice: 25, quantity: 1, reason: 'TOO_SMALL' }]
+ * );
+ * // { items: 25, discount: 2.5, tax: 1.8, shipping: 0, total: 24.3, lines: [24.3] }
+ */
+export function calculateReturnRefund(
+  order: RefundOrderTotals,
+  lines: RefundLine[],
+  alreadyRefunded: number = 0
+): ReturnRefundBreakdown {
+  const subtotalCents = toCents(order.subtotal);
+  const lineCents = lines.map((line) => toCents(line.unitPrice) * line.quantity);
+  const itemsCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+  const share = subtotalCents > 0 ? Math.min(1, itemsCents / subtotalCents) : 0;
+
+  const discountCents = Math.round(toCents(order.discountAmount) * share);
+  const taxCents = Math.round(toCents(order.taxAmount) * share);
+  const sellerFault = lines.length > 0 && lines.every((line) => SELLER_FAULT_REASONS.has(line.reason));
+  const shippingCents = sellerFault ? Math.round(toCents(order.shippingAmount) * share) : 0;
+
+  const remainingCents = Math.max(0, toCents(order.total) - toCents(alreadyRefunded));
+  const totalCents = Math.max(
+    0,
+    Math.min(remainingCents, itemsCents - discountCents + taxCents + shippingCents)
+  );
+
+  return {
+    items: itemsCents / 100,
+    discount: discountCents / 100,
+    tax: taxCents / 100,
+    shipping: shippingCents / 100,
+    total: totalCents / 100,
+    lines: allocateCents(totalCents, lineCents).map((cents) => cents / 100),
+  };
+}
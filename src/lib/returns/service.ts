@@ -0,0 +1,663 @@
+/**
+ * Return Requests
+ *
+ * Workflow for `ReturnRequest`: customers request a return for some or all
+ * of an order's lines, staff approve or reject it, and approval
+ *
+ * 1. opens a `DropshipClaim` against the linked `DropshipOrder` for
+ *    dropshipped lines (the supplier takes those back, not us), and
+ * 2. issues a partial Stripe refund for the returned lines.
+ *
+ * Our own stock is only restocked once staff mark the parcel received
+ * (`receivedAt`); the order moves to RESTOCKED when every unit has come
+ * back. Each step is recorded (`claimId`, `stripeRefundId`, `restockedAt`)
+ * so a failed step can be retried without repeating the others. Customer
+ * communication goes through the return's support ticket.
+ */
+
+import type {
+  DropshipClaim,
+  DropshipClaimStatus,
+  ReturnItem,
+  ReturnReason,
+  ReturnRequest,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/errors';
+import { createRefund } from '@/lib/stripe';
+import { emailConfig } from '@/lib/email/service';
+import { createSupportTicket, replyToTicket } from '@/lib/support';
+import {
+  RETURN_REASON_LABELS,
+  RETURN_WINDOW_DAYS,
+  allocateCents,
+  calculateReturnRefund,
+  getReturnableQuantities,
+  isWithinReturnWindow,
+} from './policy';
+import { generateRmaNumber, getReturnLabelPath } from './labels';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A line to return
+ */
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  reason: ReturnReason;
+  note?: string | null;
+}
+
+/**
+ * Input for requesting a return
+ */
+export interface CreateReturnRequestInput {
+  orderId: string;
+  userId: string;
+  customerName?: string | null;
+  items: ReturnItemInput[];
+  customerNotes?: string | null;
+}
+
+/**
+ * Return request with its lines
+ */
+export type ReturnRequestWithItems = ReturnRequest & { items: ReturnItem[] };
+
+/** Returns in these states still hold their quantities */
+const ACTIVE_RETURN_STATUSES = ['REQUESTED', 'APPROVED', 'REFUNDED'] as const;
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getReturnOrThrow(returnId: string) {
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: {
+      items: { include: { orderItem: true } },
+      order: { include: { payment: true } },
+    },
+  });
+  if (!returnRequest) {
+    throw new NotFoundError('Return request not found');
+  }
+  return returnRequest;
+}
+
+/**
+ * Post a message to the customer on the return's support ticket. Failures
+ * are logged, never thrown: the return itself has already been saved.
+ */
+async function messageCustomer(
+  returnRequest: Pick<ReturnRequest, 'id' | 'supportTicketId'>,
+  staffUserId: string,
+  body: string
+): Promise<void> {
+  if (!returnRequest.supportTicketId) return;
+
+  try {
+    await replyToTicket(returnRequest.supportTicketId, staffUserId, body);
+  } catch (error) {
+    logger.warn('Could not message customer about return', {
+      returnId: returnRequest.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function formatItemList(
+  items: Array<{ quantity: number; reason: ReturnReason; orderItem: { productName: string; variantName: string } }>
+): string {
+  return items
+    .map(
+      (item) =>
+        `- ${item.quantity} × ${item.orderItem.productName} (${item.orderItem.variantName}): ${RETURN_REASON_LABELS[item.reason]}`
+    )
+    .join('\n');
+}
+
+// ============================================
+// CUSTOMER
+// ============================================
+
+/**
+ * Request a return for lines of an order
+ *
+ * Checks the return window and that each quantity is still returnable
+ * (not already on an open or completed return), records which lines were
+ * dropshipped, and opens a RETURN support ticket for the conversation.
+ *
+ * @throws BadRequestError if the order or quantities can't be returned
+ *
+ * @example
+ * const returnRequest = await createReturnRequest({
+ *   orderId: order.id,
+ *   userId: user.id,
+ *   items: [{ orderItemId: 'oi_123', quantity: 1, reason: 'TOO_SMALL' }],
+ * });
+ */
+export async function createReturnRequest(input: CreateReturnRequestInput): Promise<ReturnRequestWithItems> {
+  if (input.items.length === 0) {
+    throw new BadRequestError('Select at least one item to return');
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: {
+      items: { include: { variant: { select: { productId: true } } } },
+      dropshipOrder: { include: { items: true } },
+      returnRequests: {
+        where: { status: { in: [...ACTIVE_RETURN_STATUSES] } },
+        include: { items: true },
+      },
+    },
+  });
+
+  if (!order || order.userId !== input.userId) {
+    throw new NotFoundError('Order not found');
+  }
+
+  if (order.status === 'CANCELLED' || order.status === 'REFUNDED' || order.status === 'PENDING') {
+    throw new BadRequestError(`Orders that are ${order.status.toLowerCase()} can't be returned`);
+  }
+
+  if (!isWithinReturnWindow(order.deliveredAt)) {
+    throw new BadRequestError(`Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery`);
+  }
+
+  const returnable = getReturnableQuantities(
+    order.items,
+    order.returnRequests.flatMap((existing) => existing.items)
+  );
+
+  const requested = new Map<string, number>();
+  for (const item of input.items) {
+    requested.set(item.orderItemId, (requested.get(item.orderItemId) ?? 0) + item.quantity);
+  }
+  for (const [orderItemId, quantity] of requested) {
+    const orderItem = order.items.find((candidate) => candidate.id === orderItemId);
+    if (!orderItem) {
+      throw new BadRequestError('Item not found in this order');
+    }
+    const available = returnable.get(orderItemId) ?? 0;
+    if (quantity < 1 || quantity > available) {
+      throw new BadRequestError(
+        available === 0
+          ? `${orderItem.productName} has already been returned`
+          : `Only ${available} of ${orderItem.productName} can be returned`
+      );
+    }
+  }
+
+  const dropshipItems = order.dropshipOrder?.items ?? [];
+  const returnRequest = await prisma.returnRequest.create({
+    data: {
+      rmaNumber: generateRmaNumber(),
+      orderId: order.id,
+      userId: input.userId,
+      customerNotes: input.customerNotes || null,
+      items: {
+        create: input.items.map((item) => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+          reason: item.reason,
+          note: item.note || null,
+          dropshipOrderItemId:
+            dropshipItems.find((dropshipItem) => dropshipItem.orderItemId === item.orderItemId)?.id ?? null,
+        })),
+      },
+    },
+    include: { items: true },
+  });
+
+  const orderItemsById = new Map(order.items.map((item) => [item.id, item]));
+  const lines = input.items.map((item) => ({ ...item, orderItem: orderItemsById.get(item.orderItemId)! }));
+
+  try {
+    const ticket = await createSupportTicket({
+      type: 'RETURN',
+      subject: `Return ${returnRequest.rmaNumber} for order ${order.orderNumber}`,
+      message: [formatItemList(lines), input.customerNotes].filter(Boolean).join('\n\n'),
+      customerName: input.customerName,
+      customerEmail: order.customerEmail,
+      userId: input.userId,
+      orderId: order.id,
+      productId: lines[0].orderItem.variant.productId,
+      metadata: {
+        returnRequestId: returnRequest.id,
+        rmaNumber: returnRequest.rmaNumber,
+        orderNumber: order.orderNumber,
+      },
+    });
+
+    return await prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { supportTicketId: ticket.id },
+      include: { items: true },
+    });
+  } catch (error) {
+    logger.error('Could not open support ticket for return', error instanceof Error ? error : undefined, {
+      returnId: returnRequest.id,
+    });
+    return returnRequest;
+  }
+}
+
+/**
+ * Withdraw a return the customer no longer wants to make
+ *
+ * @throws BadRequestError once the return has been reviewed
+ */
+export async function cancelReturnRequest(returnId: string, userId: string): Promise<ReturnRequest> {
+  const returnRequest = await prisma.returnRequest.findUnique({ where: { id: returnId } });
+  if (!returnRequest || returnRequest.userId !== userId) {
+    throw new NotFoundError('Return request not found');
+  }
+
+  const cancelled = await prisma.returnRequest.updateMany({
+    where: { id: returnId, status: 'REQUESTED' },
+    data: { status: 'CANCELLED' },
+  });
+  if (cancelled.count === 0) {
+    throw new BadRequestError('This return has already been reviewed and can no longer be cancelled');
+  }
+
+  return prisma.returnRequest.findUniqueOrThrow({ where: { id: returnId } });
+}
+
+// ============================================
+// STAFF
+// ============================================
+
+/**
+ * Approve a return and process it
+ *
+ * The refund defaults to the policy amount (see `calculateReturnRefund`);
+ * staff may lower or raise it up to what is left unrefunded on the order.
+ * The customer is emailed a link to their printable return label.
+ *
+ * @param returnId - Return request ID
+ * @param staffUserId - Approving staff member
+ * @param options.refundAmount - Refund override in dollars
+ * @throws ConflictError if the return was already reviewed
+ */
+export async function approveReturnRequest(
+  returnId: string,
+  staffUserId: string,
+  options: { refundAmount?: number } = {}
+): Promise<ReturnRequestWithItems> {
+  const returnRequest = await getReturnOrThrow(returnId);
+  if (returnRequest.status !== 'REQUESTED') {
+    throw new ConflictError('This return has already been reviewed');
+  }
+
+  const { order } = returnRequest;
+  const alreadyRefunded = Number(order.payment?.refundedAmount ?? 0);
+  const breakdown = calculateReturnRefund(
+    {
+      subtotal: Number(order.subtotal),
+      discountAmount: Number(order.discountAmount),
+      shippingAmount: Number(order.shippingAmount),
+      taxAmount: Number(order.taxAmount),
+      total: Number(order.total),
+    },
+    returnRequest.items.map((item) => ({
+      unitPrice: Number(item.orderItem.unitPrice),
+      quantity: item.quantity,
+      reason: item.reason,
+    })),
+    alreadyRefunded
+  );
+
+  let lineRefunds = breakdown.lines;
+  let refundAmount = breakdown.total;
+  if (options.refundAmount !== undefined) {
+    const maxRefund = Math.max(0, Number(order.total) - alreadyRefunded);
+    if (options.refundAmount < 0 || options.refundAmount > maxRefund) {
+      throw new BadRequestError(`Refund must be between $0.00 and $${maxRefund.toFixed(2)}`);
+    }
+    refundAmount = options.refundAmount;
+    lineRefunds = allocateCents(
+      Math.round(refundAmount * 100),
+      returnRequest.items.map((item) => Number(item.orderItem.unitPrice) * item.quantity)
+    ).map((cents) => cents / 100);
+  }
+
+  // Claim the review so two staff members can't approve it at once
+  const claimed = await prisma.returnRequest.updateMany({
+    where: { id: returnId, status: 'REQUESTED' },
+    data: {
+      status: 'APPROVED',
+      reviewedById: staffUserId,
+      reviewedAt: new Date(),
+      refundAmount,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new ConflictError('This return has already been reviewed');
+  }
+
+  await prisma.$transaction(
+    returnRequest.items.map((item, index) =>
+      prisma.returnItem.update({
+        where: { id: item.id },
+        data: { refundAmount: lineRefunds[index] },
+      })
+    )
+  );
+
+  await messageCustomer(
+    returnRequest,
+    staffUserId,
+    `Your return ${returnRequest.rmaNumber} has been approved.\n\n` +
+      `Please print your return label and attach it to the parcel:\n${emailConfig.baseUrl}${getReturnLabelPath(returnId)}`
+  );
+
+  return processApprovedReturn(returnId);
+}
+
+/**
+ * Open supplier claims and refund an approved return
+ *
+ * Safe to call again after a failure: steps that already completed are
+ * skipped, and the Stripe refund uses the return ID as its idempotency key.
+ *
+ * @throws BadRequestError if the refund can't be issued (the error is also
+ * saved on the return as `refundError`)
+ */
+export async function processApprovedReturn(returnId: string): Promise<ReturnRequestWithItems> {
+  let returnRequest = await getReturnOrThrow(returnId);
+  if (returnRequest.status !== 'APPROVED') {
+    throw new BadRequestError('Only approved returns can be processed');
+  }
+
+  if (returnRequest.items.some((item) => item.dropshipOrderItemId && !item.claimId)) {
+    await openSupplierClaims(returnRequest);
+    returnRequest = await getReturnOrThrow(returnId);
+  }
+
+  const refundAmount = Number(returnRequest.refundAmount ?? 0);
+  if (refundAmount > 0 && !returnRequest.stripeRefundId) {
+    await refundReturn(returnRequest, refundAmount);
+  } else {
+    await prisma.returnRequest.update({
+      where: { id: returnId },
+      data: { status: 'REFUNDED', refundedAt: returnRequest.refundedAt ?? new Date(), refundError: null },
+    });
+  }
+
+  return prisma.returnRequest.findUniqueOrThrow({
+    where: { id: returnId },
+    include: { items: true },
+  });
+}
+
+async function openSupplierClaims(returnRequest: Awaited<ReturnType<typeof getReturnOrThrow>>): Promise<void> {
+  const dropshipped = returnRequest.items.filter((item) => item.dropshipOrderItemId && !item.claimId);
+
+  const dropshipOrderItems = await prisma.dropshipOrderItem.findMany({
+    where: { id: { in: dropshipped.map((item) => item.dropshipOrderItemId as string) } },
+  });
+  const claimsByDropshipOrder = new Map<string, { amount: number; returnItemIds: string[] }>();
+  for (const item of dropshipped) {
+    const dropshipItem = dropshipOrderItems.find((candidate) => candidate.id === item.dropshipOrderItemId);
+    if (!dropshipItem) continue;
+    const claim = claimsByDropshipOrder.get(dropshipItem.dropshipOrderId) ?? { amount: 0, returnItemIds: [] };
+    claim.amount += Number(dropshipItem.unitCost) * item.quantity;
+    claim.returnItemIds.push(item.id);
+    claimsByDropshipOrder.set(dropshipItem.dropshipOrderId, claim);
+  }
+
+  await prisma.$transaction(
+    [...claimsByDropshipOrder].map(([dropshipOrderId, claim]) =>
+      prisma.dropshipClaim.create({
+        data: {
+          dropshipOrderId,
+          returnRequestId: returnRequest.id,
+          amount: Math.round(claim.amount * 100) / 100,
+          notes: `Customer return ${returnRequest.rmaNumber}`,
+          items: { connect: claim.returnItemIds.map((id) => ({ id })) },
+        },
+      })
+    )
+  );
+
+  logger.info('Return supplier claims opened', {
+    returnId: returnRequest.id,
+    claims: claimsByDropshipOrder.size,
+  });
+}
+
+async function refundReturn(
+  returnRequest: Awaited<ReturnType<typeof getReturnOrThrow>>,
+  refundAmount: number
+): Promise<void> {
+  const { order } = returnRequest;
+  const payment = order.payment;
+
+  const fail = async (message: string): Promise<never> => {
+    await prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { refundError: message },
+    });
+    throw new BadRequestError(message);
+  };
+
+  if (!payment?.stripePaymentIntentId) {
+    return fail('This order has no Stripe payment to refund');
+  }
+
+  let refundId: string;
+  try {
+    const refund = await createRefund(
+      payment.stripePaymentIntentId,
+      Math.round(refundAmount * 100),
+      'requested_by_customer',
+      {
+        idempotencyKey: `return-${returnRequest.id}`,
+        metadata: { rmaNumber: returnRequest.rmaNumber, orderNumber: order.orderNumber },
+      }
+    );
+    refundId = refund.id;
+  } catch (error) {
+    logger.error('Return refund failed', error instanceof Error ? error : undefined, {
+      returnId: returnRequest.id,
+      orderId: order.id,
+    });
+    return fail(`Refund failed: ${error instanceof Error ? error.message : 'Stripe error'}`);
+  }
+
+  const refundedAmount = Number(payment.refundedAmount) + refundAmount;
+  const isFullRefund = refundedAmount >= Number(payment.amount);
+  const paymentStatus = isFullRefund ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.returnRequest.update({
+      where: { id: returnRequest.id },
+      data: { status: 'REFUNDED', stripeRefundId: refundId, refundedAt: now, refundError: null },
+    }),
+    prisma.payment.update({
+      where: { id: payment.id },
+      data: { refundedAmount: { increment: refundAmount }, status: paymentStatus },
+    }),
+    prisma.order.update({
+      where: { id: order.id },
+      data: {
+        paymentStatus,
+        status: isFullRefund ? 'REFUNDED' : order.status,
+      },
+    }),
+  ]);
+
+  logger.info('Return refunded', {
+    returnId: returnRequest.id,
+    orderId: order.id,
+    amount: refundAmount,
+  });
+
+  if (returnRequest.reviewedById) {
+    await messageCustomer(
+      returnRequest,
+      returnRequest.reviewedById,
+      `A refund of $${refundAmount.toFixed(2)} for your return ${returnRequest.rmaNumber} has been issued to your original payment method and should appear within 5–10 business days.`
+    );
+  }
+}
+
+/**
+ * Mark an approved return's parcel as received
+ *
+ * Puts our own stock back into `Inventory` and flags each line restocked.
+ * The order only moves to RESTOCKED once every unit on it has come back on
+ * a received return; partial returns leave its fulfillment status alone.
+ *
+ * @param returnId - Return request ID
+ * @throws BadRequestError unless the return is approved or refunded
+ * @throws ConflictError if the return was already marked received
+ */
+export async function markReturnReceived(returnId: string): Promise<ReturnRequestWithItems> {
+  const returnRequest = await getReturnOrThrow(returnId);
+  if (returnRequest.status !== 'APPROVED' && returnRequest.status !== 'REFUNDED') {
+    throw new BadRequestError('Only approved returns can be received');
+  }
+
+  const ownStock = returnRequest.items.filter((item) => !item.dropshipOrderItemId && !item.restocked);
+  const now = new Date();
+
+  const isFullyReturned = await prisma.$transaction(async (tx) => {
+    // Claim the receipt so the stock can't be put back twice
+    const claimed = await tx.returnRequest.updateMany({
+      where: { id: returnId, receivedAt: null },
+      data: { receivedAt: now, restockedAt: ownStock.length > 0 ? now : undefined },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('This return has already been received');
+    }
+
+    for (const item of ownStock) {
+      await tx.inventory.updateMany({
+        where: { variantId: item.orderItem.variantId },
+        data: {
+          quantity: { increment: item.quantity },
+          available: { increment: item.quantity },
+          lastRestockedAt: now,
+        },
+      });
+      await tx.returnItem.update({ where: { id: item.id }, data: { restocked: true } });
+    }
+
+    const [orderItems, receivedItems] = await Promise.all([
+      tx.orderItem.findMany({
+        where: { orderId: returnRequest.orderId },
+        select: { id: true, quantity: true },
+      }),
+      tx.returnItem.findMany({
+        where: { returnRequest: { orderId: returnRequest.orderId, receivedAt: { not: null } } },
+        select: { orderItemId: true, quantity: true },
+      }),
+    ]);
+    const returned = new Map<string, number>();
+    for (const item of receivedItems) {
+      returned.set(item.orderItemId, (returned.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+    const fullyReturned = orderItems.every((item) => (returned.get(item.id) ?? 0) >= item.quantity);
+
+    if (fullyReturned) {
+      await tx.order.update({
+        where: { id: returnRequest.orderId },
+        data: { fulfillmentStatus: 'RESTOCKED' },
+      });
+    }
+    return fullyReturned;
+  });
+
+  logger.info('Return received', {
+    returnId,
+    restockedItems: ownStock.length,
+    orderRestocked: isFullyReturned,
+  });
+
+  return prisma.returnRequest.findUniqueOrThrow({
+    where: { id: returnId },
+    include: { items: true },
+  });
+}
+
+/**
+ * Reject a return request
+ *
+ * @param returnId - Return request ID
+ * @param staffUserId - Reviewing staff member
+ * @param reason - Explanation sent to the customer
+ * @throws ConflictError if the return was already reviewed
+ */
+export async function rejectReturnRequest(
+  returnId: string,
+  staffUserId: string,
+  reason: string
+): Promise<ReturnRequest> {
+  const returnRequest = await getReturnOrThrow(returnId);
+
+  const claimed = await prisma.returnRequest.updateMany({
+    where: { id: returnId, status: 'REQUESTED' },
+    data: {
+      status: 'REJECTED',
+      reviewedById: staffUserId,
+      reviewedAt: new Date(),
+      rejectionReason: reason,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new ConflictError('This return has already been reviewed');
+  }
+
+  await messageCustomer(
+    returnRequest,
+    staffUserId,
+    `We're sorry, but your return ${returnRequest.rmaNumber} could not be approved.\n\n${reason}`
+  );
+
+  return prisma.returnRequest.findUniqueOrThrow({ where: { id: returnId } });
+}
+
+/**
+ * Update a supplier claim as it progresses
+ *
+ * @param claimId - Dropship claim ID
+ * @param update - New status and optional supplier reference, recovered amount and notes
+ */
+export async function updateDropshipClaim(
+  claimId: string,
+  update: {
+    status: DropshipClaimStatus;
+    supplierReference?: string | null;
+    recoveredAmount?: number | null;
+    notes?: string | null;
+  }
+): Promise<DropshipClaim> {
+  const claim = await prisma.dropshipClaim.findUnique({ where: { id: claimId } });
+  if (!claim) {
+    throw new NotFoundError('Claim not found');
+  }
+
+  const now = new Date();
+  const isClosed = update.status === 'ACCEPTED' || update.status === 'REJECTED' || update.status === 'RESOLVED';
+
+  return prisma.dropshipClaim.update({
+    where: { id: claimId },
+    data: {
+      status: update.status,
+      supplierReference: update.supplierReference !== undefined ? update.supplierReference : undefined,
+      recoveredAmount: update.recoveredAmount !== undefined ? update.recoveredAmount : undefined,
+      notes: update.notes !== undefined ? update.notes : undefined,
+      submittedAt: update.status === 'OPEN' ? null : claim.submittedAt ?? now,
+      resolvedAt: isClosed ? claim.resolvedAt ?? now : null,
+    },
+  });
+}
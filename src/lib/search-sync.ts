@@ -0,0 +1,69 @@
+/**
+ * Search Index Sync
+ *
+ * Keeps a product's Algolia record in step with PostgreSQL. Run through
+ * the `search.index-product` background job whenever a product is
+ * imported, repriced or hidden.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { indexProduct, deleteProduct, type AlgoliaProduct } from '@/lib/algolia';
+
+/**
+ * Index a product, or remove it from the index if it's inactive
+ *
+ * @returns What was done; 'missing' if no product has the slug
+ */
+export async function syncProductSearchIndex(slug: string): Promise<'indexed' | 'removed' | 'missing'> {
+  const product = await prisma.product.findUnique({
+    where: { slug },
+    include: {
+      category: { select: { id: true, name: true, slug: true } },
+      images: { select: { url: true }, orderBy: { sortOrder: 'asc' } },
+      variants: {
+        where: { isActive: true },
+        select: { color: true, size: true, inventory: { select: { available: true } } },
+      },
+      reviews: { where: { isApproved: true }, select: { rating: true } },
+    },
+  });
+
+  if (!product) {
+    return 'missing';
+  }
+
+  if (!product.isActive) {
+    await deleteProduct(product.id);
+    return 'removed';
+  }
+
+  const stockQuantity = product.variants.reduce((sum, v) => sum + (v.inventory?.available ?? 0), 0);
+  const rating = product.reviews.length > 0
+    ? product.reviews.reduce((sum, r) => sum + r.rating, 0) / product.reviews.length
+    : 0;
+
+  const record: AlgoliaProduct = {
+    objectID: product.id,
+    name: product.name,
+    slug: product.slug,
+    description: product.shortDescription || product.description || '',
+    price: Number(product.basePrice),
+    compareAtPrice: product.compareAtPrice ? Number(product.compareAtPrice) : null,
+    category: product.category.name,
+    categoryId: product.category.id,
+    categorySlug: product.category.slug,
+    tags: product.tags,
+    colors: [...new Set(product.variants.flatMap((v) => (v.color ? [v.color] : [])))],
+    sizes: [...new Set(product.variants.map((v) => v.size))],
+    images: product.images.map((image) => image.url),
+    inStock: stockQuantity > 0,
+    stockQuantity,
+    rating: Math.round(rating * 10) / 10,
+    reviewCount: product.reviews.length,
+    createdAt: product.createdAt.getTime(),
+    updatedAt: product.updatedAt.getTime(),
+  };
+
+  await indexProduct(record);
+  return 'indexed';
+}
@@ -0,0 +1,139 @@
+/**
+ * Fixture-backed EasyPost Fake
+ *
+ * A `fetch`-compatible handler that answers EasyPost's `POST /v2/shipments`
+ * from fixed USPS/UPS rate cards. Lets the EasyPost adapter and checkout
+ * rate shopping run in tests and local development without an API key.
+ *
+ * @example
+ * const adapter = new EasyPostCarrierAdapter({
+ *   apiKey: 'test',
+ *   baseUrl: 'http://easypost.local',
+ *   fetch: createEasyPostFixtureFetch(),
+ * });
+ */
+
+import { getDimensionalWeight } from './parcel';
+import { getShippingZone } from './zones';
+import { CARRIER_SERVICE_LEVELS } from './easypost';
+import type { EasyPostShipmentRequest, EasyPostShipmentResponse } from './easypost';
+
+// ============================================
+// RATE CARDS
+// ============================================
+
+/**
+ * A carrier service price: `base + perKg × weight band`, scaled by the
+ * domestic zone multiplier
+ */
+export interface EasyPostRateFixture {
+  carrier: string;
+  service: string;
+  base: number;
+  perKg: number;
+  /** Zone IDs the service is offered in */
+  zones: string[];
+}
+
+const CONTIGUOUS_US = ['US_LOCAL', 'US_REGIONAL', 'US_NATIONAL'];
+const ALL_US = [...CONTIGUOUS_US, 'US_REMOTE'];
+const INTERNATIONAL = ['NORTH_AMERICA', 'INTERNATIONAL'];
+
+export const EASYPOST_RATE_FIXTURES: EasyPostRateFixture[] = [
+  { carrier: 'USPS', service: 'GroundAdvantage', base: 4.6, perKg: 2.1, zones: ALL_US },
+  { carrier: 'USPS', service: 'Priority', base: 8.7, perKg: 3.2, zones: ALL_US },
+  { carrier: 'USPS', service: 'Express', base: 26.35, perKg: 6.5, zones: ALL_US },
+  { carrier: 'USPS', service: 'FirstClassPackageInternationalService', base: 15.75, perKg: 9.5, zones: INTERNATIONAL },
+  { carrier: 'USPS', service: 'PriorityMailInternational', base: 38.5, perKg: 11, zones: INTERNATIONAL },
+  { carrier: 'UPS', service: 'Ground', base: 9.45, perKg: 1.6, zones: CONTIGUOUS_US },
+  { carrier: 'UPS', service: '2ndDayAir', base: 18.2, perKg: 4.1, zones: ALL_US },
+  { carrier: 'UPS', service: 'NextDayAir', base: 24.5, perKg: 7.4, zones: CONTIGUOUS_US },
+  { carrier: 'UPS', service: 'UPSStandard', base: 21.9, perKg: 5.5, zones: ['NORTH_AMERICA'] },
+];
+
+const KG_PER_OUNCE = 1 / 35.274;
+const CM_PER_INCH = 2.54;
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Price a shipment from the rate cards
+ */
+function rateShipment(
+  body: EasyPostShipmentRequest,
+  fixtures: EasyPostRateFixture[]
+): EasyPostShipmentResponse['rates'] {
+  const { from_address, to_address, parcel } = body.shipment;
+  const zone = getShippingZone(from_address, to_address);
+
+  const actualKg = parcel.weight * KG_PER_OUNCE;
+  const dimensionalKg = getDimensionalWeight({
+    length: parcel.length * CM_PER_INCH,
+    width: parcel.width * CM_PER_INCH,
+    height: parcel.height * CM_PER_INCH,
+  });
+  // Carriers bill in half-kilo bands
+  const band = Math.max(0.5, Math.ceil(Math.max(actualKg, dimensionalKg) * 2) / 2);
+  const multiplier = zone.domestic ? zone.multiplier : 1;
+
+  return fixtures
+    .filter((fixture) => fixture.zones.includes(zone.id))
+    .map((fixture, index) => {
+      const level = CARRIER_SERVICE_LEVELS[fixture.carrier]?.[fixture.service];
+      const transit = level ? zone.services[level] : undefined;
+      const amount = (fixture.base + fixture.perKg * band) * multiplier;
+
+      return {
+        id: `rate_fixture_${index}`,
+        carrier: fixture.carrier,
+        service: fixture.service,
+        rate: amount.toFixed(2),
+        currency: 'USD',
+        delivery_days: transit?.maxDays ?? null,
+      };
+    });
+}
+
+/**
+ * Create a fetch implementation that serves EasyPost-shaped rate responses
+ *
+ * @param fixtures - Rate cards to price from (defaults to `EASYPOST_RATE_FIXTURES`)
+ */
+export function createEasyPostFixtureFetch(
+  fixtures: EasyPostRateFixture[] = EASYPOST_RATE_FIXTURES
+): typeof fetch {
+  let shipmentCount = 0;
+
+  return (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (!url.endsWith('/v2/shipments') || (init?.method || 'GET').toUpperCase() !== 'POST') {
+      return jsonResponse(404, { error: { code: 'NOT_FOUND', message: `No fixture route for ${url}` } });
+    }
+
+    const auth = new Headers(init?.headers).get('authorization');
+    if (!auth?.startsWith('Basic ')) {
+      return jsonResponse(401, { error: { code: 'APIKEY.REQUIRED', message: 'API key required' } });
+    }
+
+    const body = JSON.parse(String(init?.body || '{}')) as EasyPostShipmentRequest;
+    if (!body.shipment?.to_address?.country || !body.shipment.from_address?.country || !body.shipment.parcel) {
+      return jsonResponse(422, {
+        error: { code: 'SHIPMENT.INVALID_PARAMS', message: 'to_address, from_address and parcel are required' },
+      });
+    }
+
+    shipmentCount += 1;
+    const response: EasyPostShipmentResponse = {
+      id: `shp_fixture_${shipmentCount}`,
+      rates: rateShipment(body, fixtures),
+    };
+
+    return jsonResponse(201, response);
+  }) as typeof fetch;
+}
@@ -0,0 +1,224 @@
+/**
+ * EasyPost-compatible Carrier Adapter
+ *
+ * Rate-shops USPS, UPS and FedEx through any service exposing EasyPost's
+ * `POST /v2/shipments` contract (EasyPost itself, or the fixture-backed fake
+ * in `./easypost-fixtures`). Configure with EASYPOST_API_KEY and
+ * EASYPOST_API_URL.
+ *
+ * @see https://docs.easypost.com/docs/shipments#create-a-shipment
+ */
+
+import type {
+  CarrierAdapter,
+  CarrierRate,
+  CarrierRateRequest,
+  ShippingAddress,
+  ShippingServiceLevel,
+} from './types';
+
+// ============================================
+// EASYPOST WIRE TYPES
+// ============================================
+
+export interface EasyPostAddress {
+  country: string;
+  state?: string;
+  zip?: string;
+  city?: string;
+}
+
+/**
+ * Request body for POST /v2/shipments
+ */
+export interface EasyPostShipmentRequest {
+  shipment: {
+    from_address: EasyPostAddress;
+    to_address: EasyPostAddress;
+    parcel: {
+      /** Inches */
+      length: number;
+      width: number;
+      height: number;
+      /** Ounces */
+      weight: number;
+    };
+    carrier_accounts?: string[];
+  };
+}
+
+/**
+ * Response body for POST /v2/shipments (fields we use)
+ */
+export interface EasyPostShipmentResponse {
+  id: string;
+  rates: Array<{
+    id: string;
+    carrier: string;
+    service: string;
+    rate: string;
+    currency: string;
+    delivery_days: number | null;
+    est_delivery_days?: number | null;
+  }>;
+}
+
+/**
+ * EasyPost adapter options
+ */
+export interface EasyPostAdapterOptions {
+  apiKey: string;
+  /** Base URL, e.g. https://api.easypost.com */
+  baseUrl?: string;
+  /** Restrict rates to these carrier accounts */
+  carrierAccounts?: string[];
+  /** Injectable fetch for tests and the fixture fake */
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+// ============================================
+// SERVICE MAPPING
+// ============================================
+
+/**
+ * Carrier service codes mapped to our checkout service levels.
+ * Services not listed here are not offered.
+ */
+export const CARRIER_SERVICE_LEVELS: Record<string, Record<string, ShippingServiceLevel>> = {
+  USPS: {
+    GroundAdvantage: 'standard',
+    Priority: 'express',
+    Express: 'overnight',
+    FirstClassPackageInternationalService: 'standard',
+    PriorityMailInternational: 'express',
+  },
+  UPS: {
+    Ground: 'standard',
+    '2ndDayAir': 'express',
+    NextDayAir: 'overnight',
+    UPSStandard: 'standard',
+    Expedited: 'express',
+  },
+  FedEx: {
+    FEDEX_GROUND: 'standard',
+    FEDEX_2_DAY: 'express',
+    STANDARD_OVERNIGHT: 'overnight',
+    INTERNATIONAL_ECONOMY: 'standard',
+    INTERNATIONAL_PRIORITY: 'express',
+  },
+};
+
+const OUNCES_PER_KG = 35.274;
+const CM_PER_INCH = 2.54;
+
+function toEasyPostAddress(address: ShippingAddress): EasyPostAddress {
+  return {
+    country: address.country,
+    state: address.state || undefined,
+    zip: address.zip || undefined,
+    city: address.city || undefined,
+  };
+}
+
+/**
+ * Convert a rate request into an EasyPost shipment body
+ */
+export function toEasyPostShipment(
+  request: CarrierRateRequest,
+  carrierAccounts?: string[]
+): EasyPostShipmentRequest {
+  const { parcel } = request;
+  const inches = (cm: number) => Math.round((cm / CM_PER_INCH) * 10) / 10;
+
+  return {
+    shipment: {
+      from_address: toEasyPostAddress(request.origin),
+      to_address: toEasyPostAddress(request.destination),
+      parcel: {
+        length: inches(parcel.dimensions.length),
+        width: inches(parcel.dimensions.width),
+        height: inches(parcel.dimensions.height),
+        weight: Math.round(parcel.weight * OUNCES_PER_KG * 10) / 10,
+      },
+      carrier_accounts: carrierAccounts,
+    },
+  };
+}
+
+/**
+ * Convert EasyPost rates into carrier rates, dropping unmapped services
+ */
+export function fromEasyPostRates(
+  request: CarrierRateRequest,
+  response: EasyPostShipmentResponse
+): CarrierRate[] {
+  const rates: CarrierRate[] = [];
+
+  for (const rate of response.rates || []) {
+    const level = CARRIER_SERVICE_LEVELS[rate.carrier]?.[rate.service];
+    if (!level || rate.currency !== 'USD') continue;
+
+    const transit = request.zone.services[level];
+    const days = rate.delivery_days ?? rate.est_delivery_days ?? transit?.maxDays ?? null;
+
+    rates.push({
+      carrier: rate.carrier,
+      service: rate.service,
+      serviceLevel: level,
+      amount: Number(rate.rate),
+      minDays: days ?? transit?.minDays ?? 1,
+      maxDays: days ?? transit?.maxDays ?? 1,
+    });
+  }
+
+  return rates;
+}
+
+// ============================================
+// ADAPTER
+// ============================================
+
+/**
+ * Carrier adapter backed by an EasyPost-compatible HTTP API
+ */
+export class EasyPostCarrierAdapter implements CarrierAdapter {
+  readonly name = 'easypost';
+
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: EasyPostAdapterOptions) {
+    this.baseUrl = (options.baseUrl || 'https://api.easypost.com').replace(/\/$/, '');
+    this.fetchImpl = options.fetch || fetch;
+    this.timeoutMs = options.timeoutMs ?? 8000;
+  }
+
+  async getRates(request: CarrierRateRequest): Promise<CarrierRate[]> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}/v2/shipments`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.options.apiKey}:`).toString('base64')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toEasyPostShipment(request, this.options.carrierAccounts)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`EasyPost request failed (${response.status}): ${detail}`);
+      }
+
+      const body = (await response.json()) as EasyPostShipmentResponse;
+      return fromEasyPostRates(request, body);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Shipping Rates
+ *
+ * Rate shopping for checkout. Builds a parcel from variant weights and
+ * dimensions, resolves the destination zone, asks every configured carrier
+ * for rates and offers the cheapest per service level. The backend is chosen
+ * by SHIPPING_PROVIDER:
+ * - `table` (default): `SHIPPING_RATES_BY_WEIGHT` scaled by zone
+ * - `easypost`: EasyPost-compatible API (EASYPOST_API_KEY, EASYPOST_API_URL)
+ * - `fixtures`: the EasyPost adapter against local USPS/UPS rate cards
+ *
+ * Quotes are cached per cart (see `./quotes`) so order creation charges
+ * exactly what the customer was shown.
+ */
+
+import { logger } from '@/lib/logger';
+import { FREE_SHIPPING_THRESHOLD, SHIPPING_METHODS } from '@/lib/constants';
+import { buildParcel } from './parcel';
+import { getShippingZone } from './zones';
+import { TableCarrierAdapter } from './table-carrier';
+import { EasyPostCarrierAdapter } from './easypost';
+import { createEasyPostFixtureFetch } from './easypost-fixtures';
+import { findShippingQuote, getShippingQuoteKey, saveShippingQuotes } from './quotes';
+import type { CachedShippingQuote } from './quotes';
+import type {
+  CarrierAdapter,
+  CarrierRate,
+  ParcelItem,
+  ShippingAddress,
+  ShippingOption,
+  ShippingQuoteResult,
+  ShippingServiceLevel,
+} from './types';
+
+// ============================================
+// CARRIER REGISTRY
+// ============================================
+
+let carrierAdapters: CarrierAdapter[] | null = null;
+const fallbackAdapter = new TableCarrierAdapter();
+
+/**
+ * Get the configured carrier adapters
+ */
+export function getCarrierAdapters(): CarrierAdapter[] {
+  if (carrierAdapters) {
+    return carrierAdapters;
+  }
+
+  const provider = process.env.SHIPPING_PROVIDER;
+
+  if (provider === 'easypost' && process.env.EASYPOST_API_KEY) {
+    carrierAdapters = [
+      new EasyPostCarrierAdapter({
+        apiKey: process.env.EASYPOST_API_KEY,
+        baseUrl: process.env.EASYPOST_API_URL,
+        carrierAccounts: process.env.EASYPOST_CARRIER_ACCOUNTS?.split(',').filter(Boolean),
+      }),
+    ];
+  } else if (provider === 'fixtures') {
+    carrierAdapters = [
+      new EasyPostCarrierAdapter({
+        apiKey: 'fixtures',
+        baseUrl: 'http://easypost.fixtures',
+        fetch: createEasyPostFixtureFetch(),
+      }),
+    ];
+  } else {
+    carrierAdapters = [fallbackAdapter];
+  }
+
+  return carrierAdapters;
+}
+
+/**
+ * Override the carrier adapters (tests, local fakes)
+ * Pass `null` to go back to the environment-configured adapters.
+ */
+export function setCarrierAdapters(adapters: CarrierAdapter[] | null): void {
+  carrierAdapters = adapters;
+}
+
+/**
+ * Warehouse address parcels ship from
+ */
+export function getShipFromAddress(): ShippingAddress {
+  return {
+    country: process.env.SHIP_FROM_COUNTRY || 'US',
+    state: process.env.SHIP_FROM_STATE || 'CA',
+    zip: process.env.SHIP_FROM_ZIP || null,
+  };
+}
+
+// ============================================
+// RATE SHOPPING
+// ============================================
+
+const SERVICE_LEVELS: ShippingServiceLevel[] = ['standard', 'express', 'overnight'];
+
+const SERVICE_DETAILS: Record<ShippingServiceLevel, { name: string; description: string }> = {
+  standard: { name: SHIPPING_METHODS.STANDARD.name, description: 'Delivered via USPS or UPS' },
+  express: { name: SHIPPING_METHODS.EXPRESS.name, description: 'Delivered via UPS or FedEx' },
+  overnight: { name: SHIPPING_METHODS.OVERNIGHT.name, description: 'Order by 2 PM for next-day delivery' },
+};
+
+function formatTransit(minDays: number, maxDays: number): string {
+  if (minDays === maxDays) {
+    return `${maxDays} business day${maxDays === 1 ? '' : 's'}`;
+  }
+  return `${minDays}-${maxDays} business days`;
+}
+
+/**
+ * Cheapest rate per service level, ties going to the faster service
+ */
+function pickCheapestRates(rates: CarrierRate[]): Map<ShippingServiceLevel, CarrierRate> {
+  const best = new Map<ShippingServiceLevel, CarrierRate>();
+
+  for (const rate of rates) {
+    const current = best.get(rate.serviceLevel);
+    if (
+      !current ||
+      rate.amount < current.amount ||
+      (rate.amount === current.amount && rate.maxDays < current.maxDays)
+    ) {
+      best.set(rate.serviceLevel, rate);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Input for rate shopping
+ */
+export interface ShippingQuoteRequest {
+  items: ParcelItem[];
+  destination: ShippingAddress;
+  /** Merchandise subtotal, for the free-shipping threshold */
+  subtotal: number;
+  origin?: ShippingAddress;
+}
+
+/**
+ * Rate-shop a cart across carriers
+ *
+ * Falls back to the rate table when every carrier fails or returns nothing,
+ * so checkout never blocks on a carrier outage. Standard shipping is free for
+ * domestic orders at or above `FREE_SHIPPING_THRESHOLD`.
+ *
+ * @param request - Items, destination and subtotal
+ * @param adapters - Carriers to query (defaults to the configured ones)
+ * @returns Parcel, zone and one option per available service level
+ *
+ * @example
+ * const { options } = await quoteShipping({
+ *   items: [{ quantity: 2, weight: 0.2, dimensions: { length: 25, width: 20, height: 3 } }],
+ *   destination: { country: 'US', state: 'NY', zip: '10001' },
+ *   subtotal: 49.98,
+ * });
+ */
+export async function quoteShipping(
+  request: ShippingQuoteRequest,
+  adapters: CarrierAdapter[] = getCarrierAdapters()
+): Promise<ShippingQuoteResult> {
+  const origin = request.origin || getShipFromAddress();
+  const parcel = buildParcel(request.items);
+  const zone = getShippingZone(origin, request.destination);
+  const rateRequest = { origin, destination: request.destination, parcel, zone };
+
+  const results = await Promise.allSettled(adapters.map((adapter) => adapter.getRates(rateRequest)));
+
+  let rates: CarrierRate[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      rates.push(...result.value);
+    } else {
+      logger.error(
+        'Carrier rate request failed',
+        result.reason instanceof Error ? result.reason : undefined,
+        { carrier: adapters[index].name, zone: zone.id }
+      );
+    }
+  });
+
+  rates = rates.filter((rate) => zone.services[rate.serviceLevel] && rate.amount >= 0);
+  if (rates.length === 0 && !adapters.includes(fallbackAdapter)) {
+    rates = await fallbackAdapter.getRates(rateRequest);
+  }
+
+  const cheapest = pickCheapestRates(rates);
+  const freeShipping = zone.domestic && request.subtotal >= FREE_SHIPPING_THRESHOLD;
+
+  const options: ShippingOption[] = [];
+  for (const level of SERVICE_LEVELS) {
+    const rate = cheapest.get(level);
+    if (!rate) continue;
+
+    const isFree = level === 'standard' && freeShipping;
+    const details = SERVICE_DETAILS[level];
+    options.push({
+      id: level,
+      name: details.name,
+      price: isFree ? 0 : rate.amount,
+      estimatedDays: formatTransit(rate.minDays, rate.maxDays),
+      description: isFree
+        ? `Free on orders over $${FREE_SHIPPING_THRESHOLD}`
+        : rate.carrier === fallbackAdapter.name
+          ? details.description
+          : `Delivered via ${rate.carrier}`,
+      carrier: rate.carrier,
+      service: rate.service,
+      carrierAmount: rate.amount,
+    });
+  }
+
+  return { parcel, zone, options };
+}
+
+// ============================================
+// CART QUOTES
+// ============================================
+
+/**
+ * Cart item loaded with `variant` (price, weight, dimensions)
+ */
+export interface ShippingCartItem {
+  variantId: string;
+  quantity: number;
+  variant: {
+    price: number | { toString(): string };
+    weight?: number | null;
+    dimensions?: unknown;
+  };
+}
+
+/**
+ * Cart quote input
+ */
+export interface CartShippingRequest {
+  cartId: string;
+  items: ShippingCartItem[];
+  destination: ShippingAddress;
+}
+
+function toParcelItems(items: ShippingCartItem[]): ParcelItem[] {
+  return items.map((item) => ({
+    quantity: item.quantity,
+    weight: item.variant.weight,
+    dimensions: item.variant.dimensions as ParcelItem['dimensions'],
+  }));
+}
+
+function getSubtotal(items: ShippingCartItem[]): number {
+  return items.reduce((sum, item) => sum + Number(item.variant.price) * item.quantity, 0);
+}
+
+/**
+ * Quote a cart and cache the options
+ *
+ * @returns Options with `quoteId` set
+ */
+export async function getCartShippingOptions(request: CartShippingRequest): Promise<ShippingOption[]> {
+  const result = await quoteShipping({
+    items: toParcelItems(request.items),
+    destination: request.destination,
+    subtotal: getSubtotal(request.items),
+  });
+
+  const quoteKey = getShippingQuoteKey(request.destination, request.items);
+  return saveShippingQuotes(request.cartId, quoteKey, result);
+}
+
+/**
+ * Get the quote to charge for a shipping method
+ *
+ * Reuses the cached quote while it is valid for the same destination and
+ * cart contents, otherwise quotes again.
+ *
+ * @returns The quote, or null when the method is not available for the destination
+ */
+export async function resolveShippingQuote(
+  request: CartShippingRequest & { methodId: string }
+): Promise<CachedShippingQuote | null> {
+  const quoteKey = getShippingQuoteKey(request.destination, request.items);
+  const cached = await findShippingQuote(request.cartId, quoteKey, request.methodId);
+  if (cached) {
+    return cached;
+  }
+
+  const options = await getCartShippingOptions(request);
+  if (!options.some((option) => option.id === request.methodId)) {
+    return null;
+  }
+
+  return findShippingQuote(request.cartId, quoteKey, request.methodId);
+}
+
+/**
+ * Build a shipping address from an `Address` row or order address JSON
+ */
+export function toShippingAddress(address: {
+  country?: string | null;
+  state?: string | null;
+  city?: string | null;
+  zip?: string | null;
+  postalCode?: string | null;
+}): ShippingAddress {
+  return {
+    country: address.country || 'US',
+    state: address.state || null,
+    city: address.city || null,
+    zip: address.zip || address.postalCode || null,
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  buildParcel,
+  parseDimensions,
+  getDimensionalWeight,
+  DEFAULT_ITEM_WEIGHT_KG,
+  PACKAGING_WEIGHT_KG,
+  DIMENSIONAL_WEIGHT_DIVISOR,
+} from './parcel';
+export { SHIPPING_ZONES, getShippingZone, isServiceAvailable } from './zones';
+export { TableCarrierAdapter } from './table-carrier';
+export {
+  EasyPostCarrierAdapter,
+  CARRIER_SERVICE_LEVELS,
+  toEasyPostShipment,
+  fromEasyPostRates,
+} from './easypost';
+export { createEasyPostFixtureFetch, EASYPOST_RATE_FIXTURES } from './easypost-fixtures';
+export {
+  SHIPPING_QUOTE_TTL_MS,
+  getShippingQuoteKey,
+  saveShippingQuotes,
+  findShippingQuote,
+  getShippingQuote,
+} from './quotes';
+export type { CachedShippingQuote } from './quotes';
+export type {
+  CarrierAdapter,
+  CarrierRate,
+  CarrierRateRequest,
+  Parcel,
+  ParcelDimensions,
+  ParcelItem,
+  ShippingAddress,
+  ShippingOption,
+  ShippingQuoteResult,
+  ShippingServiceLevel,
+  ShippingZone,
+} from './types';
@@ -0,0 +1,135 @@
+/**
+ * Parcel Builder
+ *
+ * Packs cart items into a single parcel and works out the billable weight
+ * carriers charge for: the greater of actual and dimensional weight.
+ */
+
+import type { Parcel, ParcelDimensions, ParcelItem } from './types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Weight assumed for variants without `weight` set (a folded garment) */
+export const DEFAULT_ITEM_WEIGHT_KG = 0.25;
+
+/** Box, tissue and mailer weight added to every parcel */
+export const PACKAGING_WEIGHT_KG = 0.1;
+
+/** Dimensional weight divisor in cm³/kg (UPS/FedEx/USPS commercial) */
+export const DIMENSIONAL_WEIGHT_DIVISOR = 5000;
+
+/** Smallest box we ship in */
+export const MIN_PARCEL_DIMENSIONS: ParcelDimensions = { length: 20, width: 15, height: 5 };
+
+const CM_PER_INCH = 2.54;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Read `Variant.dimensions`, which may be stored as an object or a JSON string.
+ * Accepts `{ length, width, height, unit? }` with unit `cm` (default) or `in`.
+ *
+ * @returns Dimensions in cm, or null when missing or malformed
+ */
+export function parseDimensions(value: unknown): ParcelDimensions | null {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const { length, width, height, unit } = raw as Record<string, unknown>;
+  const dims = [length, width, height].map(Number);
+  if (dims.some((dim) => !Number.isFinite(dim) || dim <= 0)) {
+    return null;
+  }
+
+  const factor = unit === 'in' ? CM_PER_INCH : 1;
+  const [l, w, h] = dims.map((dim) => dim * factor);
+  return { length: l, width: w, height: h };
+}
+
+/**
+ * Dimensional weight in kg for a box
+ */
+export function getDimensionalWeight(
+  dimensions: ParcelDimensions,
+  divisor: number = DIMENSIONAL_WEIGHT_DIVISOR
+): number {
+  return round((dimensions.length * dimensions.width * dimensions.height) / divisor, 3);
+}
+
+// ============================================
+// PACKING
+// ============================================
+
+/**
+ * Pack items into one parcel
+ *
+ * Items are laid flat and stacked: the box takes the largest footprint and
+ * the summed height of every unit, never smaller than the minimum mailer.
+ *
+ * @param items - Cart items with variant weight and dimensions
+ * @returns Parcel with actual, dimensional and billable weight
+ *
+ * @example
+ * const parcel = buildParcel([
+ *   { quantity: 2, weight: 0.2, dimensions: { length: 25, width: 20, height: 3 } },
+ * ]);
+ * parcel.weight; // 0.5 (includes packaging)
+ * parcel.billableWeight; // 0.6 (25 × 20 × 6 cm box)
+ */
+export function buildParcel(items: ParcelItem[]): Parcel {
+  let weight = PACKAGING_WEIGHT_KG;
+  let length = MIN_PARCEL_DIMENSIONS.length;
+  let width = MIN_PARCEL_DIMENSIONS.width;
+  let stackedHeight = 0;
+  let itemCount = 0;
+
+  for (const item of items) {
+    if (item.quantity <= 0) continue;
+
+    itemCount += item.quantity;
+    weight += (item.weight && item.weight > 0 ? item.weight : DEFAULT_ITEM_WEIGHT_KG) * item.quantity;
+
+    const dims = parseDimensions(item.dimensions);
+    if (dims) {
+      // Lay each unit on its largest face
+      const [a, b, c] = [dims.length, dims.width, dims.height].sort((x, y) => y - x);
+      length = Math.max(length, a);
+      width = Math.max(width, b);
+      stackedHeight += c * item.quantity;
+    }
+  }
+
+  const dimensions: ParcelDimensions = {
+    length: round(length, 1),
+    width: round(width, 1),
+    height: round(Math.max(MIN_PARCEL_DIMENSIONS.height, stackedHeight), 1),
+  };
+  const dimensionalWeight = getDimensionalWeight(dimensions);
+
+  return {
+    weight: round(weight, 3),
+    dimensions,
+    dimensionalWeight,
+    billableWeight: round(Math.max(weight, dimensionalWeight), 3),
+    itemCount,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Shipping Quote Cache
+ *
+ * Quotes are stored per cart in `ShippingQuote`, keyed by a fingerprint of
+ * the destination and cart contents. Checkout charges the cached amount and
+ * order creation reads it back by ID, so the customer pays exactly what was
+ * shown even if carrier prices move in between.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { ShippingAddress, ShippingOption, ShippingQuoteResult, ShippingServiceLevel } from './types';
+
+/** How long a quote can be used to start checkout */
+export const SHIPPING_QUOTE_TTL_MS = 30 * 60 * 1000;
+
+/** Expired quotes are kept this long for in-flight payments, then pruned */
+const SHIPPING_QUOTE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stored quote for a single shipping method
+ */
+export interface CachedShippingQuote {
+  id: string;
+  cartId: string;
+  methodId: ShippingServiceLevel;
+  carrier: string;
+  service: string;
+  name: string;
+  amount: number;
+  carrierAmount: number;
+  estimatedDays: string;
+  zone: string;
+  billableWeight: number;
+  expiresAt: Date;
+}
+
+/**
+ * Fingerprint a destination and cart contents.
+ * Any change to the address or quantities produces a new key.
+ */
+export function getShippingQuoteKey(
+  destination: ShippingAddress,
+  items: Array<{ variantId: string; quantity: number }>
+): string {
+  const address = [
+    destination.country.toUpperCase(),
+    destination.state?.toUpperCase() || '',
+    (destination.zip || '').replace(/\s+/g, '').slice(0, 5).toUpperCase(),
+  ].join('|');
+  const contents = items
+    .map((item) => `${item.variantId}:${item.quantity}`)
+    .sort()
+    .join(',');
+
+  return crypto.createHash('sha256').update(`${address}#${contents}`).digest('hex').slice(0, 32);
+}
+
+function toCachedQuote(row: {
+  id: string;
+  cartId: string;
+  methodId: string;
+  carrier: string;
+  service: string;
+  name: string;
+  amount: unknown;
+  carrierAmount: unknown;
+  estimatedDays: string;
+  zone: string;
+  billableWeight: number;
+  expiresAt: Date;
+}): CachedShippingQuote {
+  return {
+    ...row,
+    methodId: row.methodId as ShippingServiceLevel,
+    amount: Number(row.amount),
+    carrierAmount: Number(row.carrierAmount),
+  };
+}
+
+/**
+ * Store quoted options for a cart
+ *
+ * @returns Options with `quoteId` set
+ */
+export async function saveShippingQuotes(
+  cartId: string,
+  quoteKey: string,
+  result: ShippingQuoteResult
+): Promise<ShippingOption[]> {
+  const now = Date.now();
+  const expiresAt = new Date(now + SHIPPING_QUOTE_TTL_MS);
+
+  await prisma.shippingQuote.deleteMany({
+    where: { cartId, expiresAt: { lt: new Date(now - SHIPPING_QUOTE_RETENTION_MS) } },
+  });
+
+  const rows = await prisma.$transaction(
+    result.options.map((option) =>
+      prisma.shippingQuote.create({
+        data: {
+          cartId,
+          quoteKey,
+          methodId: option.id,
+          carrier: option.carrier,
+          service: option.service,
+          name: option.name,
+          amount: option.price,
+          carrierAmount: option.carrierAmount,
+          estimatedDays: option.estimatedDays,
+          zone: result.zone.id,
+          billableWeight: result.parcel.billableWeight,
+          expiresAt,
+        },
+      })
+    )
+  );
+
+  return result.options.map((option, index) => ({ ...option, quoteId: rows[index].id }));
+}
+
+/**
+ * Latest unexpired quote for a cart, destination/contents key and method
+ */
+export async function findShippingQuote(
+  cartId: string,
+  quoteKey: string,
+  methodId: string
+): Promise<CachedShippingQuote | null> {
+  const row = await prisma.shippingQuote.findFirst({
+    where: { cartId, quoteKey, methodId, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return row ? toCachedQuote(row) : null;
+}
+
+/**
+ * Get a stored quote by ID, regardless of expiry
+ * (payment may complete after the quote window closes)
+ */
+export async function getShippingQuote(quoteId: string): Promise<CachedShippingQuote | null> {
+  const row = await prisma.shippingQuote.findUnique({
+    where: { id: quoteId },
+  });
+
+  return row ? toCachedQuote(row) : null;
+}
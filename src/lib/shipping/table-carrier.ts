@@ -0,0 +1,41 @@
+/**
+ * Rate Table Carrier
+ *
+ * Prices parcels from `SHIPPING_RATES_BY_WEIGHT` scaled by the zone
+ * multiplier. Used when no carrier API is configured and as the fallback
+ * when every configured carrier fails.
+ */
+
+import { getShippingRate } from '@/lib/constants';
+import type { CarrierAdapter, CarrierRate, CarrierRateRequest, ShippingServiceLevel } from './types';
+
+const SERVICE_LEVELS: ShippingServiceLevel[] = ['standard', 'express', 'overnight'];
+
+/**
+ * Carrier adapter backed by the built-in weight rate table
+ */
+export class TableCarrierAdapter implements CarrierAdapter {
+  readonly name = 'table';
+
+  async getRates(request: CarrierRateRequest): Promise<CarrierRate[]> {
+    const { parcel, zone } = request;
+    const rates: CarrierRate[] = [];
+
+    for (const level of SERVICE_LEVELS) {
+      const transit = zone.services[level];
+      if (!transit) continue;
+
+      const base = getShippingRate(parcel.billableWeight, level);
+      rates.push({
+        carrier: this.name,
+        service: level,
+        serviceLevel: level,
+        amount: Math.round(base * zone.multiplier * 100) / 100,
+        minDays: transit.minDays,
+        maxDays: transit.maxDays,
+      });
+    }
+
+    return rates;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Shipping Rate Types
+ *
+ * Shared types for parcel building, zone lookup, carrier adapters and the
+ * per-cart quote cache.
+ */
+
+/**
+ * Customer-facing service levels offered at checkout
+ */
+export type ShippingServiceLevel = 'standard' | 'express' | 'overnight';
+
+/**
+ * Ship-from or ship-to address
+ */
+export interface ShippingAddress {
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** State / province code */
+  state?: string | null;
+  zip?: string | null;
+  city?: string | null;
+}
+
+/**
+ * Package dimensions in centimetres
+ */
+export interface ParcelDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Item to be packed, read from `Variant.weight` (kg) and `Variant.dimensions`
+ */
+export interface ParcelItem {
+  quantity: number;
+  weight?: number | null;
+  dimensions?: Partial<ParcelDimensions> | null;
+}
+
+/**
+ * Packed shipment
+ */
+export interface Parcel {
+  /** Actual weight including packaging, in kg */
+  weight: number;
+  /** Outer box dimensions in cm */
+  dimensions: ParcelDimensions;
+  /** Dimensional weight in kg (volume / divisor) */
+  dimensionalWeight: number;
+  /** Greater of actual and dimensional weight, in kg */
+  billableWeight: number;
+  itemCount: number;
+}
+
+/**
+ * Shipping zone for a destination
+ */
+export interface ShippingZone {
+  /** Zone identifier, e.g. `US_LOCAL`, `US_REMOTE`, `INTL` */
+  id: string;
+  name: string;
+  /** Multiplier applied to the base weight rates */
+  multiplier: number;
+  domestic: boolean;
+  /** Service levels available for the zone, with transit time */
+  services: Partial<Record<ShippingServiceLevel, { minDays: number; maxDays: number }>>;
+}
+
+/**
+ * Rate request sent to a carrier
+ */
+export interface CarrierRateRequest {
+  origin: ShippingAddress;
+  destination: ShippingAddress;
+  parcel: Parcel;
+  zone: ShippingZone;
+}
+
+/**
+ * Single rate returned by a carrier
+ */
+export interface CarrierRate {
+  /** Carrier name, e.g. `USPS`, `UPS` */
+  carrier: string;
+  /** Carrier service code, e.g. `Priority`, `Ground` */
+  service: string;
+  serviceLevel: ShippingServiceLevel;
+  amount: number;
+  minDays: number;
+  maxDays: number;
+}
+
+/**
+ * Carrier adapter (USPS, UPS, EasyPost, ...)
+ */
+export interface CarrierAdapter {
+  readonly name: string;
+  getRates(request: CarrierRateRequest): Promise<CarrierRate[]>;
+}
+
+/**
+ * Shipping option shown at checkout
+ */
+export interface ShippingOption {
+  /** Service level, used as the shipping method ID */
+  id: ShippingServiceLevel;
+  name: string;
+  price: number;
+  estimatedDays: string;
+  description: string;
+  carrier: string;
+  service: string;
+  /** Carrier price before free-shipping promotions */
+  carrierAmount: number;
+  /** Cached quote ID, set once the quote is stored */
+  quoteId?: string;
+}
+
+/**
+ * Result of rate shopping for a parcel
+ */
+export interface ShippingQuoteResult {
+  parcel: Parcel;
+  zone: ShippingZone;
+  options: ShippingOption[];
+}
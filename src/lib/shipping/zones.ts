@@ -0,0 +1,169 @@
+/**
+ * Shipping Zones
+ *
+ * Zone tables keyed by destination country and state, relative to the
+ * ship-from address. Each zone scales the base weight rates and lists the
+ * service levels (and transit times) available there.
+ */
+
+import type { ShippingAddress, ShippingServiceLevel, ShippingZone } from './types';
+
+// ============================================
+// ZONE TABLE
+// ============================================
+
+export const SHIPPING_ZONES: Record<string, ShippingZone> = {
+  US_LOCAL: {
+    id: 'US_LOCAL',
+    name: 'Same state',
+    multiplier: 0.85,
+    domestic: true,
+    services: {
+      standard: { minDays: 2, maxDays: 4 },
+      express: { minDays: 1, maxDays: 2 },
+      overnight: { minDays: 1, maxDays: 1 },
+    },
+  },
+  US_REGIONAL: {
+    id: 'US_REGIONAL',
+    name: 'Same region',
+    multiplier: 1,
+    domestic: true,
+    services: {
+      standard: { minDays: 3, maxDays: 5 },
+      express: { minDays: 2, maxDays: 3 },
+      overnight: { minDays: 1, maxDays: 1 },
+    },
+  },
+  US_NATIONAL: {
+    id: 'US_NATIONAL',
+    name: 'Continental US',
+    multiplier: 1.2,
+    domestic: true,
+    services: {
+      standard: { minDays: 5, maxDays: 7 },
+      express: { minDays: 2, maxDays: 3 },
+      overnight: { minDays: 1, maxDays: 1 },
+    },
+  },
+  US_REMOTE: {
+    id: 'US_REMOTE',
+    name: 'Alaska, Hawaii & territories',
+    multiplier: 1.75,
+    domestic: true,
+    services: {
+      standard: { minDays: 7, maxDays: 10 },
+      express: { minDays: 3, maxDays: 5 },
+    },
+  },
+  DOMESTIC: {
+    id: 'DOMESTIC',
+    name: 'Domestic',
+    multiplier: 1,
+    domestic: true,
+    services: {
+      standard: { minDays: 3, maxDays: 5 },
+      express: { minDays: 1, maxDays: 2 },
+    },
+  },
+  NORTH_AMERICA: {
+    id: 'NORTH_AMERICA',
+    name: 'Canada & Mexico',
+    multiplier: 2,
+    domestic: false,
+    services: {
+      standard: { minDays: 7, maxDays: 12 },
+      express: { minDays: 3, maxDays: 6 },
+    },
+  },
+  INTERNATIONAL: {
+    id: 'INTERNATIONAL',
+    name: 'International',
+    multiplier: 2.75,
+    domestic: false,
+    services: {
+      standard: { minDays: 10, maxDays: 20 },
+      express: { minDays: 4, maxDays: 8 },
+    },
+  },
+};
+
+/**
+ * US Census regions, used to tell regional from national shipments
+ */
+const US_REGIONS: Record<string, string[]> = {
+  NORTHEAST: ['CT', 'ME', 'MA', 'NH', 'RI', 'VT', 'NJ', 'NY', 'PA'],
+  MIDWEST: ['IL', 'IN', 'MI', 'OH', 'WI', 'IA', 'KS', 'MN', 'MO', 'NE', 'ND', 'SD'],
+  SOUTH: ['DE', 'DC', 'FL', 'GA', 'MD', 'NC', 'SC', 'VA', 'WV', 'AL', 'KY', 'MS', 'TN', 'AR', 'LA', 'OK', 'TX'],
+  WEST: ['AZ', 'CO', 'ID', 'MT', 'NV', 'NM', 'UT', 'WY', 'CA', 'OR', 'WA'],
+};
+
+/**
+ * States and territories outside the contiguous US (incl. military mail)
+ */
+const US_REMOTE_STATES = new Set(['AK', 'HI', 'PR', 'VI', 'GU', 'AS', 'MP', 'AA', 'AE', 'AP']);
+
+const NORTH_AMERICA_COUNTRIES = new Set(['CA', 'MX']);
+
+function getUsRegion(state: string): string | null {
+  for (const [region, states] of Object.entries(US_REGIONS)) {
+    if (states.includes(state)) {
+      return region;
+    }
+  }
+  return null;
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Resolve the shipping zone for a destination
+ *
+ * @param origin - Ship-from address (our warehouse)
+ * @param destination - Customer address
+ * @returns Matching zone
+ *
+ * @example
+ * getShippingZone({ country: 'US', state: 'CA' }, { country: 'US', state: 'OR' }).id; // 'US_REGIONAL'
+ */
+export function getShippingZone(origin: ShippingAddress, destination: ShippingAddress): ShippingZone {
+  const originCountry = origin.country.toUpperCase();
+  const country = destination.country.toUpperCase();
+  const state = destination.state?.toUpperCase() || '';
+
+  if (country !== originCountry) {
+    if (originCountry === 'US' && NORTH_AMERICA_COUNTRIES.has(country)) {
+      return SHIPPING_ZONES.NORTH_AMERICA;
+    }
+    return SHIPPING_ZONES.INTERNATIONAL;
+  }
+
+  if (country !== 'US') {
+    return SHIPPING_ZONES.DOMESTIC;
+  }
+
+  if (US_REMOTE_STATES.has(state)) {
+    return SHIPPING_ZONES.US_REMOTE;
+  }
+
+  const originState = origin.state?.toUpperCase() || '';
+  if (state && state === originState) {
+    return SHIPPING_ZONES.US_LOCAL;
+  }
+
+  const region = getUsRegion(state);
+  if (region && region === getUsRegion(originState)) {
+    return SHIPPING_ZONES.US_REGIONAL;
+  }
+
+  return SHIPPING_ZONES.US_NATIONAL;
+}
+
+/**
+ * Whether a service level is offered in a zone
+ */
+export function isServiceAvailable(zone: ShippingZone, level: ShippingServiceLevel): boolean {
+  return Boolean(zone.services[level]);
+}
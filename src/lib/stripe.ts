@@ -14,9 +14,28 @@ if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY environment variable is not set');
 }
 
+/**
+ * Where the API lives when it isn't api.stripe.com: set `STRIPE_API_BASE`
+ * to a stripe-mock server (e.g. `http://localhost:12111`) to run against
+ * it in tests
+ */
+function getApiHostConfig(): Pick<Stripe.StripeConfig, 'host' | 'port' | 'protocol'> {
+  if (!process.env.STRIPE_API_BASE) {
+    return {};
+  }
+
+  const url = new URL(process.env.STRIPE_API_BASE);
+  return {
+    host: url.hostname,
+    port: url.port || (url.protocol === 'http:' ? 80 : 443),
+    protocol: url.protocol === 'http:' ? 'http' : 'https',
+  };
+}
+
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2024-11-20.acacia',
   typescript: true,
+  ...getApiHostConfig(),
 });
 
 /**
@@ -79,26 +98,58 @@ export function formatCurrencyForDisplay(
 
 /**
  * Creates a PaymentIntent for processing a payment
+ *
+ * Payment methods come from the Dashboard settings (cards, Apple Pay,
+ * Google Pay, Link), so the Payment Element offers whichever the
+ * customer's device supports.
+ *
  * @param amount - Amount in cents
  * @param currency - Currency code (default: USD)
  * @param metadata - Additional metadata to attach
+ * @param options - Customer whose saved cards can pay it, receipt email,
+ *   description and shipping details
  * @returns Stripe PaymentIntent object
  */
 export async function createPaymentIntent(
   amount: number,
   currency: string = 'USD',
-  metadata: Record<string, string> = {}
+  metadata: Record<string, string> = {},
+  options: {
+    customerId?: string;
+    receiptEmail?: string;
+    description?: string;
+    shipping?: Stripe.PaymentIntentCreateParams.Shipping;
+  } = {}
 ): Promise<Stripe.PaymentIntent> {
   return stripe.paymentIntents.create({
     amount,
     currency: currency.toLowerCase(),
     metadata,
+    customer: options.customerId,
+    receipt_email: options.receiptEmail,
+    description: options.description,
+    shipping: options.shipping,
     automatic_payment_methods: {
       enabled: true,
     },
   });
 }
 
+/**
+ * Cancels PaymentIntents so they can no longer be paid
+ * @param paymentIntentIds - PaymentIntent IDs; ones already succeeded or
+ *   cancelled are skipped
+ */
+export async function cancelPaymentIntents(paymentIntentIds: string[]): Promise<void> {
+  await Promise.all(
+    paymentIntentIds.map((paymentIntentId) =>
+      stripe.paymentIntents.cancel(paymentIntentId).catch((error) => {
+        console.warn(`Could not cancel payment intent ${paymentIntentId}:`, error);
+      })
+    )
+  );
+}
+
 /**
  * Creates a Checkout Session for redirect-based payments
  * @param options - Checkout session options
@@ -116,9 +167,13 @@ export async function createCheckoutSession(options: {
   metadata?: Record<string, string>;
   mode?: 'payment' | 'subscription' | 'setup';
   allowPromotionCodes?: boolean;
+  /** Coupons to apply; Stripe won't take these with `allowPromotionCodes` */
+  discounts?: Stripe.Checkout.SessionCreateParams.Discount[];
   shippingAddressCollection?: {
     allowedCountries: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[];
   };
+  /** When the session closes; Stripe needs 30 minutes to 24 hours */
+  expiresAt?: Date;
 }): Promise<Stripe.Checkout.Session> {
   const {
     lineItems,
@@ -129,7 +184,9 @@ export async function createCheckoutSession(options: {
     metadata = {},
     mode = 'payment',
     allowPromotionCodes = true,
+    discounts,
     shippingAddressCollection,
+    expiresAt,
   } = options;
 
   const sessionParams: Stripe.Checkout.SessionCreateParams = {
@@ -147,13 +204,48 @@ export async function createCheckoutSession(options: {
     sessionParams.customer_email = customerEmail;
   }
 
+  if (discounts?.length) {
+    sessionParams.discounts = discounts;
+  }
+
   if (shippingAddressCollection) {
     sessionParams.shipping_address_collection = shippingAddressCollection;
   }
 
+  if (expiresAt) {
+    sessionParams.expires_at = Math.floor(expiresAt.getTime() / 1000);
+  }
+
   return stripe.checkout.sessions.create(sessionParams);
 }
 
+/**
+ * Expires open Checkout Sessions so they can no longer be paid
+ * @param sessionIds - Checkout Session IDs; ones already completed or
+ *   expired are skipped
+ */
+export async function expireCheckoutSessions(sessionIds: string[]): Promise<void> {
+  await Promise.all(
+    sessionIds.map((sessionId) =>
+      stripe.checkout.sessions.expire(sessionId).catch((error) => {
+        console.warn(`Could not expire checkout session ${sessionId}:`, error);
+      })
+    )
+  );
+}
+
+/**
+ * Closes abandoned checkouts, hosted or on-site, so they can no longer be
+ * paid: expires Checkout Sessions and cancels PaymentIntents
+ * @param checkoutIds - Checkout Session (`cs_`) and PaymentIntent (`pi_`) IDs
+ */
+export async function closeCheckouts(checkoutIds: string[]): Promise<void> {
+  await Promise.all([
+    expireCheckoutSessions(checkoutIds.filter((id) => !id.startsWith('pi_'))),
+    cancelPaymentIntents(checkoutIds.filter((id) => id.startsWith('pi_'))),
+  ]);
+}
+
 /**
  * Constructs and verifies a webhook event from Stripe
  * @param payload - Raw request body
@@ -222,12 +314,14 @@ export async function updateCustomer(
  * @param paymentIntentId - Stripe PaymentIntent ID
  * @param amount - Amount to refund in cents (optional, defaults to full refund)
  * @param reason - Refund reason
+ * @param options - Idempotency key (so retries can't refund twice) and metadata
  * @returns Stripe Refund object
  */
 export async function createRefund(
   paymentIntentId: string,
   amount?: number,
-  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'expired_uncaptured_charge'
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'expired_uncaptured_charge',
+  options: { idempotencyKey?: string; metadata?: Record<string, string> } = {}
 ): Promise<Stripe.Refund> {
   const refundParams: Stripe.RefundCreateParams = {
     payment_intent: paymentIntentId,
@@ -241,7 +335,14 @@ export async function createRefund(
     refundParams.reason = reason;
   }
 
-  return stripe.refunds.create(refundParams);
+  if (options.metadata) {
+    refundParams.metadata = options.metadata;
+  }
+
+  return stripe.refunds.create(
+    refundParams,
+    options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : undefined
+  );
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Supplier Scorecards
+ *
+ * Per-supplier performance from dropship order outcomes, stored daily for
+ * trends on `/admin/suppliers`, with low scorers flagged for suspension.
+ */
+
+export { runSupplierScorecards, getSupplierScorecardHistory } from './service';
+export type { SupplierScorecardResult } from './service';
+export {
+  SCORECARD_WINDOW_DAYS,
+  MIN_SCORED_ORDERS,
+  FLAG_SCORE_THRESHOLD,
+  computeSupplierMetrics,
+  scoreSupplier,
+} from './metrics';
+export type {
+  ScorecardOrder,
+  ScorecardOrderItem,
+  ScorecardClaimItem,
+  SupplierMetrics,
+  SupplierScore,
+} from './metrics';
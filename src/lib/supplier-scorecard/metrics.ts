@@ -0,0 +1,329 @@
+/**
+ * Supplier Scorecard Metrics
+ *
+ * Works out how a supplier performs for us from the dropship orders we
+ * placed with it: how fast it ships, whether parcels arrive by the
+ * estimated date, how often orders run into issues or get cancelled, what
+ * we pay against the listed cost, and how many items come back as claims.
+ * The metrics roll up into a 0-100 score; suppliers below
+ * `FLAG_SCORE_THRESHOLD` are flagged for an admin to consider suspending.
+ * Pure, so the scoring can be tested without a database.
+ */
+
+import type { DropshipOrderStatus } from '@prisma/client';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Days of orders each scorecard covers
+ */
+export const SCORECARD_WINDOW_DAYS = 90;
+
+/**
+ * Fewer orders than this in the window are too few to score
+ */
+export const MIN_SCORED_ORDERS = 5;
+
+/**
+ * Suppliers scoring below this are flagged
+ */
+export const FLAG_SCORE_THRESHOLD = 60;
+
+/**
+ * Shipping within this many hours of placement scores full marks; the
+ * mark falls to zero at `SLOW_SHIP_HOURS`
+ */
+const FAST_SHIP_HOURS = 72;
+const SLOW_SHIP_HOURS = 240;
+
+/**
+ * Rates at which a metric scores zero
+ */
+const MAX_ISSUE_RATE = 0.2;
+const MAX_CANCELLATION_RATE = 0.2;
+const MAX_REFUND_RATE = 0.15;
+const MAX_COST_DRIFT_PERCENT = 25;
+
+/**
+ * Share of the score each metric carries. Metrics without data are left
+ * out and the rest reweighted.
+ */
+const SCORE_WEIGHTS = {
+  shipSpeed: 0.2,
+  onTime: 0.25,
+  issues: 0.2,
+  cancellations: 0.15,
+  refunds: 0.1,
+  costDrift: 0.1,
+} as const;
+
+type ScoreComponent = keyof typeof SCORE_WEIGHTS;
+
+/**
+ * What each metric is called in flag reasons
+ */
+const COMPONENT_LABELS: Record<ScoreComponent, string> = {
+  shipSpeed: 'Slow to ship',
+  onTime: 'Late deliveries',
+  issues: 'Frequent issues',
+  cancellations: 'Frequent cancellations',
+  refunds: 'Frequent refunds',
+  costDrift: 'Costs above listing',
+};
+
+/**
+ * A metric scoring below this is named as a reason when the supplier is
+ * flagged
+ */
+const WEAK_COMPONENT_SCORE = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A dropship order line, with the supplier and listed cost of its source
+ */
+export interface ScorecardOrderItem {
+  id: string;
+  supplierId: string;
+  quantity: number;
+  unitCost: number;
+  /** `ProductSource.originalPrice` */
+  listedCost: number;
+}
+
+/**
+ * A return line claimed back from the supplier
+ */
+export interface ScorecardClaimItem {
+  claimId: string;
+  dropshipOrderItemId: string | null;
+  /** Refunded to the customer for this line */
+  refundAmount: number;
+}
+
+/**
+ * A dropship order as the scorecard sees it
+ */
+export interface ScorecardOrder {
+  id: string;
+  status: DropshipOrderStatus;
+  placedAt: Date;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  estimatedDelivery: Date | null;
+  /** An issue was reported at some point, even if since resolved */
+  hadIssue: boolean;
+  items: ScorecardOrderItem[];
+  claimItems: ScorecardClaimItem[];
+}
+
+/**
+ * One supplier's metrics over the scorecard window
+ */
+export interface SupplierMetrics {
+  orderCount: number;
+  shippedCount: number;
+  deliveredCount: number;
+  avgHoursToShip: number | null;
+  onTimeRate: number | null;
+  issueRate: number | null;
+  cancellationRate: number | null;
+  refundRate: number | null;
+  costDriftPercent: number | null;
+  refundCount: number;
+  refundAmount: number;
+}
+
+/**
+ * A supplier's score and whether it should be flagged
+ */
+export interface SupplierScore {
+  /** 0-100, or null with too few orders */
+  score: number | null;
+  flagged: boolean;
+  /** The weakest metrics, when flagged */
+  reasons: string[];
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const rate = (count: number, total: number) => (total === 0 ? null : round(count / total, 4));
+
+/**
+ * Work out a supplier's metrics from the orders in the window
+ *
+ * An order counts towards every supplier with a line in it. Deliveries are
+ * on time when they arrive by the end of the estimated day; parcels still
+ * out after that day count as late.
+ *
+ * @param orders - Orders placed in the window that include the supplier
+ */
+export function computeSupplierMetrics(
+  supplierId: string,
+  orders: ScorecardOrder[],
+  now: Date = new Date()
+): SupplierMetrics {
+  const supplierOrders = orders.filter((order) => order.items.some((item) => item.supplierId === supplierId));
+
+  let shippedCount = 0;
+  let deliveredCount = 0;
+  let hoursToShipTotal = 0;
+  let onTimeCount = 0;
+  let dueCount = 0;
+  let issueCount = 0;
+  let cancelledCount = 0;
+  let refundedOrderCount = 0;
+  let paidCost = 0;
+  let listedCost = 0;
+  const refundClaims = new Set<string>();
+  let refundAmount = 0;
+
+  for (const order of supplierOrders) {
+    const items = order.items.filter((item) => item.supplierId === supplierId);
+    const itemIds = new Set(items.map((item) => item.id));
+
+    if (order.shippedAt) {
+      shippedCount++;
+      hoursToShipTotal += Math.max(0, order.shippedAt.getTime() - order.placedAt.getTime()) / HOUR_MS;
+    }
+    if (order.deliveredAt) {
+      deliveredCount++;
+    }
+
+    if (order.estimatedDelivery && order.status !== 'CANCELLED' && order.status !== 'REFUNDED') {
+      const dueBy = endOfDay(order.estimatedDelivery);
+      if (order.deliveredAt) {
+        dueCount++;
+        if (order.deliveredAt <= dueBy) onTimeCount++;
+      } else if (now > dueBy) {
+        dueCount++;
+      }
+    }
+
+    if (order.hadIssue || order.status === 'ISSUE') issueCount++;
+    if (order.status === 'CANCELLED') cancelledCount++;
+
+    for (const item of items) {
+      paidCost += item.unitCost * item.quantity;
+      listedCost += item.listedCost * item.quantity;
+    }
+
+    // Claims are per line, so a mixed order only counts this supplier's lines
+    const claimItems = order.claimItems.filter(
+      (claimItem) => claimItem.dropshipOrderItemId !== null && itemIds.has(claimItem.dropshipOrderItemId)
+    );
+    if (claimItems.length > 0) {
+      refundedOrderCount++;
+      for (const claimItem of claimItems) {
+        refundClaims.add(claimItem.claimId);
+        refundAmount += claimItem.refundAmount;
+      }
+    }
+  }
+
+  const orderCount = supplierOrders.length;
+
+  return {
+    orderCount,
+    shippedCount,
+    deliveredCount,
+    avgHoursToShip: shippedCount === 0 ? null : round(hoursToShipTotal / shippedCount, 1),
+    onTimeRate: rate(onTimeCount, dueCount),
+    issueRate: rate(issueCount, orderCount),
+    cancellationRate: rate(cancelledCount, orderCount),
+    refundRate: rate(refundedOrderCount, orderCount),
+    costDriftPercent: listedCost === 0 ? null : round(((paidCost - listedCost) / listedCost) * 100, 1),
+    refundCount: refundClaims.size,
+    refundAmount: round(refundAmount, 2),
+  };
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS + DAY_MS - 1);
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * 1 at or below `good`, 0 at or above `bad`, linear in between
+ */
+function scale(value: number, good: number, bad: number): number {
+  return Math.min(1, Math.max(0, (bad - value) / (bad - good)));
+}
+
+/**
+ * Score each metric from 0 (bad) to 1 (good)
+ */
+function scoreComponents(metrics: SupplierMetrics): Partial<Record<ScoreComponent, number>> {
+  const components: Partial<Record<ScoreComponent, number>> = {};
+
+  if (metrics.avgHoursToShip !== null) {
+    components.shipSpeed = scale(metrics.avgHoursToShip, FAST_SHIP_HOURS, SLOW_SHIP_HOURS);
+  }
+  if (metrics.onTimeRate !== null) {
+    components.onTime = metrics.onTimeRate;
+  }
+  if (metrics.issueRate !== null) {
+    components.issues = scale(metrics.issueRate, 0, MAX_ISSUE_RATE);
+  }
+  if (metrics.cancellationRate !== null) {
+    components.cancellations = scale(metrics.cancellationRate, 0, MAX_CANCELLATION_RATE);
+  }
+  if (metrics.refundRate !== null) {
+    components.refunds = scale(metrics.refundRate, 0, MAX_REFUND_RATE);
+  }
+  if (metrics.costDriftPercent !== null) {
+    // Paying less than listed is no better than paying the listed cost
+    components.costDrift = scale(Math.max(0, metrics.costDriftPercent), 0, MAX_COST_DRIFT_PERCENT);
+  }
+
+  return components;
+}
+
+/**
+ * Roll a supplier's metrics up into a score and decide whether to flag it
+ *
+ * @example
+ * scoreSupplier(metrics); // { score: 48, flagged: true, reasons: ['Late deliveries'] }
+ */
+export function scoreSupplier(metrics: SupplierMetrics): SupplierScore {
+  if (metrics.orderCount < MIN_SCORED_ORDERS) {
+    return { score: null, flagged: false, reasons: [] };
+  }
+
+  const components = Object.entries(scoreComponents(metrics)) as Array<[ScoreComponent, number]>;
+  const totalWeight = components.reduce((sum, [name]) => sum + SCORE_WEIGHTS[name], 0);
+  if (totalWeight === 0) {
+    return { score: null, flagged: false, reasons: [] };
+  }
+
+  const score = round(
+    (components.reduce((sum, [name, value]) => sum + SCORE_WEIGHTS[name] * value, 0) / totalWeight) * 100,
+    1
+  );
+  const flagged = score < FLAG_SCORE_THRESHOLD;
+
+  return {
+    score,
+    flagged,
+    reasons: flagged
+      ? components
+          .filter(([, value]) => value < WEAK_COMPONENT_SCORE)
+          .sort(([, a], [, b]) => a - b)
+          .map(([name]) => COMPONENT_LABELS[name])
+      : [],
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Supplier Scorecard Service
+ *
+ * Daily job that scores every supplier on its dropship orders from the
+ * last `SCORECARD_WINDOW_DAYS`, stores the day's scorecard (the history
+ * gives the admin trends) and flags active suppliers that score below the
+ * threshold. Flags clear once the score recovers; suspending a supplier is
+ * left to an admin.
+ */
+
+import type { SupplierScorecard } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import {
+  SCORECARD_WINDOW_DAYS,
+  computeSupplierMetrics,
+  scoreSupplier,
+  type ScorecardOrder,
+} from './metrics';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SupplierScorecardResult {
+  suppliers: number;
+  scored: number;
+  /** Suppliers flagged on this run */
+  flagged: string[];
+  /** Suppliers whose flag cleared on this run */
+  cleared: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Load the window's dropship orders in the shape the metrics expect
+ */
+async function loadScorecardOrders(since: Date): Promise<ScorecardOrder[]> {
+  const orders = await prisma.dropshipOrder.findMany({
+    where: { placedAt: { gte: since } },
+    select: {
+      id: true,
+      status: true,
+      placedAt: true,
+      shippedAt: true,
+      deliveredAt: true,
+      actualDelivery: true,
+      estimatedDelivery: true,
+      events: {
+        where: { type: 'ISSUE_REPORTED' },
+        select: { id: true },
+        take: 1,
+      },
+      items: {
+        select: {
+          id: true,
+          quantity: true,
+          unitCost: true,
+          productSource: { select: { supplierId: true, originalPrice: true } },
+        },
+      },
+      claims: {
+        select: {
+          id: true,
+          items: { select: { dropshipOrderItemId: true, refundAmount: true } },
+        },
+      },
+    },
+  });
+
+  return orders.map((order) => ({
+    id: order.id,
+    status: order.status,
+    placedAt: order.placedAt!,
+    shippedAt: order.shippedAt,
+    deliveredAt: order.deliveredAt ?? order.actualDelivery,
+    estimatedDelivery: order.estimatedDelivery,
+    hadIssue: order.events.length > 0,
+    items: order.items.map((item) => ({
+      id: item.id,
+      supplierId: item.productSource.supplierId,
+      quantity: item.quantity,
+      unitCost: Number(item.unitCost),
+      listedCost: Number(item.productSource.originalPrice),
+    })),
+    claimItems: order.claims.flatMap((claim) =>
+      claim.items.map((item) => ({
+        claimId: claim.id,
+        dropshipOrderItemId: item.dropshipOrderItemId,
+        refundAmount: Number(item.refundAmount ?? 0),
+      }))
+    ),
+  }));
+}
+
+/**
+ * Score every supplier and store today's scorecards
+ *
+ * Safe to run more than once a day; the day's scorecards are replaced.
+ */
+export async function runSupplierScorecards(now: Date = new Date()): Promise<SupplierScorecardResult> {
+  const date = new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS);
+  const orders = await loadScorecardOrders(new Date(now.getTime() - SCORECARD_WINDOW_DAYS * DAY_MS));
+  const suppliers = await prisma.supplier.findMany({
+    select: { id: true, name: true, status: true, flaggedAt: true },
+  });
+
+  const result: SupplierScorecardResult = { suppliers: suppliers.length, scored: 0, flagged: [], cleared: [] };
+
+  for (const supplier of suppliers) {
+    const metrics = computeSupplierMetrics(supplier.id, orders, now);
+    const { score, flagged, reasons } = scoreSupplier(metrics);
+    if (score !== null) result.scored++;
+
+    const scorecard = { windowDays: SCORECARD_WINDOW_DAYS, ...metrics, score };
+    await prisma.supplierScorecard.upsert({
+      where: { supplierId_date: { supplierId: supplier.id, date } },
+      create: { supplierId: supplier.id, date, ...scorecard },
+      update: scorecard,
+    });
+
+    // Only active suppliers are candidates for suspension
+    const shouldFlag = flagged && supplier.status === 'ACTIVE';
+    if (shouldFlag) {
+      await prisma.supplier.update({
+        where: { id: supplier.id },
+        data: { flaggedAt: supplier.flaggedAt ?? now, flagReasons: reasons },
+      });
+      if (!supplier.flaggedAt) {
+        result.flagged.push(supplier.name);
+        logger.warn('Supplier flagged for suspension', { supplierId: supplier.id, score, reasons });
+      }
+    } else if (supplier.flaggedAt) {
+      await prisma.supplier.update({
+        where: { id: supplier.id },
+        data: { flaggedAt: null, flagReasons: [] },
+      });
+      result.cleared.push(supplier.name);
+    }
+  }
+
+  logger.info('Supplier scorecards updated', { ...result });
+
+  return result;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Scorecards from the last `days`, oldest first, by supplier
+ */
+export async function getSupplierScorecardHistory(
+  days: number = SCORECARD_WINDOW_DAYS,
+  now: Date = new Date()
+): Promise<Map<string, SupplierScorecard[]>> {
+  const scorecards = await prisma.supplierScorecard.findMany({
+    where: { date: { gte: new Date(now.getTime() - days * DAY_MS) } },
+    orderBy: { date: 'asc' },
+  });
+
+  const bySupplier = new Map<string, SupplierScorecard[]>();
+  for (const scorecard of scorecards) {
+    const history = bySupplier.get(scorecard.supplierId) ?? [];
+    history.push(scorecard);
+    bySupplier.set(scorecard.supplierId, history);
+  }
+
+  return bySupplier;
+}
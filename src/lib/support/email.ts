@@ -0,0 +1,158 @@
+/**
+ * Support Email Threading
+ *
+ * Outgoing ticket emails carry the ticket number in the subject, a
+ * plus-addressed reply-to containing the ticket's reply token, and our own
+ * RFC 5322 Message-ID/In-Reply-To/References headers. Any one of those is
+ * enough to route a customer's reply back to the right ticket, and mail
+ * clients keep the conversation in a single thread.
+ */
+
+import { emailConfig } from '@/lib/email/config';
+
+// ============================================
+// ADDRESSES
+// ============================================
+
+/**
+ * Mailbox replies are delivered to. Plus addressing must be enabled on it,
+ * or it must be an inbound-parse domain that accepts any local part.
+ */
+function getReplyMailbox(): { local: string; domain: string } {
+  const address = process.env.SUPPORT_REPLY_TO || emailConfig.supportEmail;
+  const [local, domain] = address.split('@');
+  return { local: local.split('+')[0], domain: domain || 'babypetite.com' };
+}
+
+/**
+ * Reply-to address for a ticket, e.g. `support+ck9x…@babypetite.com`
+ */
+export function getSupportReplyAddress(replyToken: string): string {
+  const { local, domain } = getReplyMailbox();
+  return `${local}+${replyToken}@${domain}`;
+}
+
+/**
+ * Find the reply token in a list of recipient addresses
+ *
+ * @param addresses - Raw `To`/`Cc` header value or envelope recipients
+ * @returns The token, or null when no recipient is a ticket reply address
+ */
+export function parseReplyToken(addresses: string): string | null {
+  const { local } = getReplyMailbox();
+  const pattern = new RegExp(`${escapeRegExp(local)}\\+([a-z0-9]+)@`, 'i');
+  const match = addresses.match(pattern);
+  return match ? match[1] : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============================================
+// SUBJECTS
+// ============================================
+
+/**
+ * Subject line for ticket emails, e.g. `Re: [SUP-LZ3K9X2A-7QF2] Sizing question`
+ */
+export function formatTicketSubject(ticketNumber: string, subject: string, isReply = false): string {
+  return `${isReply ? 'Re: ' : ''}[${ticketNumber}] ${subject}`;
+}
+
+/**
+ * Pull a ticket number out of a reply subject
+ */
+export function parseTicketNumber(subject: string): string | null {
+  const match = subject.match(/\[(SUP-[A-Z0-9]+-[A-Z0-9]+)\]/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+// ============================================
+// MESSAGE IDS
+// ============================================
+
+/**
+ * Message-ID for an outgoing ticket message
+ *
+ * @param ticketMessageId - `TicketMessage.id`
+ */
+export function createTicketMessageId(ticketMessageId: string): string {
+  const domain = emailConfig.fromEmail.split('@')[1] || 'babypetite.com';
+  return `<ticket.${ticketMessageId}@${domain}>`;
+}
+
+/**
+ * Split a `References`/`In-Reply-To` header into message IDs
+ */
+export function parseMessageIds(header: string | null | undefined): string[] {
+  return header?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * Headers that thread a new message under earlier ones
+ *
+ * @param messageId - Message-ID of the email being sent
+ * @param previousIds - Message-IDs already in the thread, oldest first
+ */
+export function getThreadingHeaders(messageId: string, previousIds: string[]): Record<string, string> {
+  const headers: Record<string, string> = { 'Message-ID': messageId };
+
+  if (previousIds.length > 0) {
+    headers['In-Reply-To'] = previousIds[previousIds.length - 1];
+    // Keep the root and the most recent IDs; some servers reject very long headers
+    const references = previousIds.length > 10
+      ? [previousIds[0], ...previousIds.slice(-9)]
+      : previousIds;
+    headers.References = references.join(' ');
+  }
+
+  return headers;
+}
+
+// ============================================
+// INBOUND
+// ============================================
+
+/**
+ * Parse a raw header block into a lowercase-keyed map, unfolding
+ * continuation lines
+ */
+export function parseEmailHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let current: string | null = null;
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      headers[current] += ` ${line.trim()}`;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    current = line.slice(0, separator).trim().toLowerCase();
+    headers[current] = line.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Strip the quoted original from a reply, keeping only what the customer wrote
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    // "On Mon, 1 Jan 2024 at 10:00, Baby Petite <...> wrote:"
+    if (/^On .+wrote:\s*$/.test(line.trim())) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line.trim())) break;
+    if (/^From:\s/.test(line) && kept.length > 0) break;
+    if (line.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
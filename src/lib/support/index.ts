@@ -0,0 +1,42 @@
+/**
+ * Customer Support
+ *
+ * Support tickets opened from the contact, support, product-issue and
+ * return forms, threaded email replies and SLA timers for the staff inbox
+ * at `/admin/support`.
+ *
+ * Email replies reach a ticket through `/api/support/inbound`, which
+ * matches the plus-addressed reply-to (SUPPORT_REPLY_TO), the threading
+ * headers or the ticket number in the subject.
+ */
+
+export {
+  generateTicketNumber,
+  createSupportTicket,
+  addCustomerReply,
+  findTicketForInboundEmail,
+  replyToTicket,
+  updateTicketStatus,
+  updateTicketPriority,
+  assignTicket,
+} from './tickets';
+export type { CreateSupportTicketInput, CustomerReplyInput } from './tickets';
+export {
+  SLA_TARGETS,
+  DEFAULT_TICKET_PRIORITY,
+  getSlaDueDates,
+  getSlaTimer,
+  formatSlaDuration,
+} from './sla';
+export type { SlaTicket, SlaTimer, SlaTimerState } from './sla';
+export {
+  getSupportReplyAddress,
+  parseReplyToken,
+  formatTicketSubject,
+  parseTicketNumber,
+  createTicketMessageId,
+  parseMessageIds,
+  getThreadingHeaders,
+  parseEmailHeaders,
+  extractReplyText,
+} from './email';
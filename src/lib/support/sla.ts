@@ -0,0 +1,154 @@
+/**
+ * Support SLA Targets
+ *
+ * First-response and resolution targets by ticket priority, and the timer
+ * state shown in the staff inbox. Pure functions only, so the inbox can
+ * tick timers client-side.
+ */
+
+import type {
+  SupportTicketPriority,
+  SupportTicketStatus,
+  SupportTicketType,
+} from '@prisma/client';
+
+// ============================================
+// TARGETS
+// ============================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hours allowed to first staff response and to resolution, by priority
+ */
+export const SLA_TARGETS: Record<
+  SupportTicketPriority,
+  { firstResponseHours: number; resolutionHours: number }
+> = {
+  URGENT: { firstResponseHours: 1, resolutionHours: 8 },
+  HIGH: { firstResponseHours: 4, resolutionHours: 24 },
+  NORMAL: { firstResponseHours: 24, resolutionHours: 72 },
+  LOW: { firstResponseHours: 48, resolutionHours: 120 },
+};
+
+/**
+ * Starting priority by ticket type. Damaged products and returns involve a
+ * purchase the customer is waiting on, so they jump the queue.
+ */
+export const DEFAULT_TICKET_PRIORITY: Record<SupportTicketType, SupportTicketPriority> = {
+  CONTACT: 'NORMAL',
+  ORDER: 'NORMAL',
+  PRODUCT: 'LOW',
+  ACCOUNT: 'NORMAL',
+  PRODUCT_ISSUE: 'HIGH',
+  RETURN: 'HIGH',
+  OTHER: 'LOW',
+};
+
+/** Share of the window left when a timer turns amber */
+const AT_RISK_FRACTION = 0.25;
+
+/**
+ * Compute SLA due dates for a priority
+ *
+ * @param priority - Ticket priority
+ * @param from - When the clock starts (ticket creation)
+ */
+export function getSlaDueDates(
+  priority: SupportTicketPriority,
+  from: Date = new Date()
+): { firstResponseDueAt: Date; resolutionDueAt: Date } {
+  const target = SLA_TARGETS[priority];
+  return {
+    firstResponseDueAt: new Date(from.getTime() + target.firstResponseHours * HOUR_MS),
+    resolutionDueAt: new Date(from.getTime() + target.resolutionHours * HOUR_MS),
+  };
+}
+
+// ============================================
+// TIMERS
+// ============================================
+
+export type SlaTimerState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+/**
+ * The SLA clock currently running on a ticket
+ */
+export interface SlaTimer {
+  kind: 'first_response' | 'resolution';
+  dueAt: Date;
+  /** Milliseconds until due; negative once breached */
+  remainingMs: number;
+  state: SlaTimerState;
+}
+
+/**
+ * Ticket fields the SLA timer reads
+ */
+export interface SlaTicket {
+  status: SupportTicketStatus;
+  createdAt: Date | string;
+  firstResponseDueAt: Date | string;
+  resolutionDueAt: Date | string;
+  firstRespondedAt?: Date | string | null;
+  resolvedAt?: Date | string | null;
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Get the running SLA timer for a ticket
+ *
+ * Until staff first respond the first-response clock runs, then the
+ * resolution clock. Resolved and closed tickets report whether resolution
+ * was met. The clock keeps running while waiting on the customer.
+ *
+ * @example
+ * const timer = getSlaTimer(ticket);
+ * if (timer.state === 'breached') escalate(ticket);
+ */
+export function getSlaTimer(ticket: SlaTicket, now: Date = new Date()): SlaTimer {
+  const createdAt = toDate(ticket.createdAt);
+
+  if (ticket.status === 'RESOLVED' || ticket.status === 'CLOSED') {
+    const dueAt = toDate(ticket.resolutionDueAt);
+    const doneAt = ticket.resolvedAt ? toDate(ticket.resolvedAt) : now;
+    const remainingMs = dueAt.getTime() - doneAt.getTime();
+    return {
+      kind: 'resolution',
+      dueAt,
+      remainingMs,
+      state: remainingMs >= 0 ? 'met' : 'breached',
+    };
+  }
+
+  const kind = ticket.firstRespondedAt ? 'resolution' : 'first_response';
+  const dueAt = toDate(kind === 'first_response' ? ticket.firstResponseDueAt : ticket.resolutionDueAt);
+  const remainingMs = dueAt.getTime() - now.getTime();
+  const windowMs = Math.max(dueAt.getTime() - createdAt.getTime(), 1);
+
+  let state: SlaTimerState = 'on_track';
+  if (remainingMs < 0) {
+    state = 'breached';
+  } else if (remainingMs / windowMs <= AT_RISK_FRACTION) {
+    state = 'at_risk';
+  }
+
+  return { kind, dueAt, remainingMs, state };
+}
+
+/**
+ * Format a duration for timer badges, e.g. `3h 20m`, `2d 4h`, `45m`
+ */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,491 @@
+/**
+ * Support Tickets
+ *
+ * Persistence and workflow for `SupportTicket`/`TicketMessage`: opening
+ * tickets from the storefront forms, customer and staff replies, internal
+ * notes, status/priority changes and assignment. Customer-facing messages
+ * are emailed through the email service with threading headers (see
+ * `./email`), and the support team is notified of new activity.
+ */
+
+import crypto from 'crypto';
+import * as React from 'react';
+import type {
+  Prisma,
+  SupportTicket,
+  SupportTicketPriority,
+  SupportTicketStatus,
+  SupportTicketType,
+  TicketMessage,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { BadRequestError, NotFoundError } from '@/lib/errors';
+import { emailConfig, sendEmail } from '@/lib/email/service';
+import { enqueueEmail } from '@/lib/jobs';
+import { SupportTicketEmail, generateSupportTicketText } from '@/lib/email/templates/support-ticket';
+import { DEFAULT_TICKET_PRIORITY, getSlaDueDates } from './sla';
+import {
+  createTicketMessageId,
+  formatTicketSubject,
+  getSupportReplyAddress,
+  getThreadingHeaders,
+  parseReplyToken,
+  parseTicketNumber,
+} from './email';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Input for opening a ticket
+ */
+export interface CreateSupportTicketInput {
+  type: SupportTicketType;
+  subject: string;
+  message: string;
+  customerEmail: string;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  userId?: string | null;
+  orderId?: string | null;
+  productId?: string | null;
+  /** Defaults to `DEFAULT_TICKET_PRIORITY[type]` */
+  priority?: SupportTicketPriority;
+  metadata?: Prisma.InputJsonObject;
+  attachments?: string[];
+}
+
+/**
+ * Input for a customer reply, from the web or an inbound email
+ */
+export interface CustomerReplyInput {
+  body: string;
+  authorId?: string | null;
+  /** Message-ID of the inbound email, used to drop duplicate deliveries */
+  emailMessageId?: string | null;
+  attachments?: string[];
+}
+
+const STAFF_ROLES = ['ADMIN', 'STAFF'] as const;
+
+const STATUS_LABELS: Record<SupportTicketStatus, string> = {
+  OPEN: 'Open',
+  IN_PROGRESS: 'In progress',
+  WAITING_ON_CUSTOMER: 'Waiting on customer',
+  RESOLVED: 'Resolved',
+  CLOSED: 'Closed',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Generate a ticket number, e.g. `SUP-LZ3K9X2A-7QF2`
+ */
+export function generateTicketNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `SUP-${timestamp}-${random}`;
+}
+
+function formatStaffName(user: { firstName: string | null; lastName: string | null } | null): string | null {
+  if (!user) return null;
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || null;
+}
+
+async function getTicketOrThrow(ticketId: string): Promise<SupportTicket> {
+  const ticket = await prisma.supportTicket.findUnique({ where: { id: ticketId } });
+  if (!ticket) {
+    throw new NotFoundError('Support ticket not found');
+  }
+  return ticket;
+}
+
+/**
+ * Message-IDs of the customer-visible thread, oldest first
+ */
+async function getThreadMessageIds(ticketId: string): Promise<string[]> {
+  const messages = await prisma.ticketMessage.findMany({
+    where: { ticketId, isInternal: false, emailMessageId: { not: null } },
+    orderBy: { createdAt: 'asc' },
+    select: { emailMessageId: true },
+  });
+  return messages.map((message) => message.emailMessageId as string);
+}
+
+/**
+ * Email a customer-visible message, threaded under the earlier ones
+ */
+async function emailCustomer(
+  ticket: SupportTicket,
+  kind: 'received' | 'reply',
+  body: string,
+  messageId: string,
+  staffName?: string | null
+): Promise<boolean> {
+  const previousIds = (await getThreadMessageIds(ticket.id)).filter((id) => id !== messageId);
+  const props = {
+    kind,
+    ticketNumber: ticket.ticketNumber,
+    subject: ticket.subject,
+    customerName: ticket.customerName,
+    message: body,
+    staffName,
+  };
+
+  const result = await sendEmail({
+    to: ticket.customerName ? { email: ticket.customerEmail, name: ticket.customerName } : ticket.customerEmail,
+    subject: formatTicketSubject(ticket.ticketNumber, ticket.subject, kind === 'reply'),
+    react: React.createElement(SupportTicketEmail, props),
+    text: generateSupportTicketText(props),
+    replyTo: getSupportReplyAddress(ticket.replyToken),
+    headers: getThreadingHeaders(messageId, previousIds),
+    tags: { type: 'support-ticket' },
+  });
+
+  return result.success;
+}
+
+/**
+ * Tell the assignee (or the shared support inbox) about customer activity
+ */
+async function notifySupportTeam(ticket: SupportTicket, body: string, isNew: boolean): Promise<void> {
+  let to = emailConfig.supportEmail;
+  if (ticket.assigneeId) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: ticket.assigneeId },
+      select: { email: true },
+    });
+    to = assignee?.email || to;
+  }
+
+  const from = ticket.customerName ? `${ticket.customerName} <${ticket.customerEmail}>` : ticket.customerEmail;
+  await enqueueEmail({
+    to,
+    subject: `${isNew ? 'New ticket' : 'Customer reply'}: ${formatTicketSubject(ticket.ticketNumber, ticket.subject)}`,
+    text: [
+      `From: ${from}`,
+      `Priority: ${ticket.priority}`,
+      '',
+      body,
+      '',
+      `Open in admin: ${emailConfig.baseUrl}/admin/support/${ticket.id}`,
+    ].join('\n'),
+    tags: { type: 'support-notification' },
+  });
+}
+
+async function addSystemNote(ticketId: string, actorId: string | null, body: string): Promise<void> {
+  await prisma.ticketMessage.create({
+    data: { ticketId, authorType: 'SYSTEM', authorId: actorId, body, isInternal: true },
+  });
+}
+
+// ============================================
+// CUSTOMER
+// ============================================
+
+/**
+ * Open a ticket with the customer's first message
+ *
+ * Sends the customer a confirmation (the root of the email thread) and
+ * notifies the support team. Email failures are logged, never thrown, so
+ * the ticket is always saved.
+ *
+ * @example
+ * const ticket = await createSupportTicket({
+ *   type: 'ORDER',
+ *   subject: 'Where is my order?',
+ *   message: 'It has been two weeks...',
+ *   customerEmail: 'parent@example.com',
+ *   orderId: order.id,
+ * });
+ */
+export async function createSupportTicket(input: CreateSupportTicketInput): Promise<SupportTicket> {
+  const now = new Date();
+  const priority = input.priority ?? DEFAULT_TICKET_PRIORITY[input.type];
+  const messageId = createTicketMessageId(crypto.randomUUID());
+
+  const ticket = await prisma.supportTicket.create({
+    data: {
+      ticketNumber: generateTicketNumber(),
+      type: input.type,
+      priority,
+      subject: input.subject,
+      userId: input.userId || null,
+      customerName: input.customerName || null,
+      customerEmail: input.customerEmail.toLowerCase(),
+      customerPhone: input.customerPhone || null,
+      orderId: input.orderId || null,
+      productId: input.productId || null,
+      metadata: input.metadata,
+      ...getSlaDueDates(priority, now),
+      lastCustomerMessageAt: now,
+      messages: {
+        create: {
+          authorType: 'CUSTOMER',
+          authorId: input.userId || null,
+          body: input.message,
+          // The confirmation email echoes this message and starts the thread
+          emailMessageId: messageId,
+          attachments: input.attachments?.length ? input.attachments : undefined,
+        },
+      },
+    },
+  });
+
+  try {
+    await emailCustomer(ticket, 'received', input.message, messageId);
+    await notifySupportTeam(ticket, input.message, true);
+  } catch (error) {
+    logger.error('Support ticket email failed', error instanceof Error ? error : undefined, {
+      ticketId: ticket.id,
+    });
+  }
+
+  return ticket;
+}
+
+/**
+ * Add a customer reply to a ticket
+ *
+ * Reopens resolved, closed and waiting tickets. Replayed inbound emails
+ * (same Message-ID) return the message already stored.
+ */
+export async function addCustomerReply(ticketId: string, input: CustomerReplyInput): Promise<TicketMessage> {
+  if (input.emailMessageId) {
+    const existing = await prisma.ticketMessage.findUnique({
+      where: { emailMessageId: input.emailMessageId },
+    });
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const ticket = await getTicketOrThrow(ticketId);
+  const now = new Date();
+  const reopen = ticket.status !== 'OPEN' && ticket.status !== 'IN_PROGRESS';
+
+  const [message, updated] = await prisma.$transaction([
+    prisma.ticketMessage.create({
+      data: {
+        ticketId,
+        authorType: 'CUSTOMER',
+        authorId: input.authorId || null,
+        body: input.body,
+        emailMessageId: input.emailMessageId || null,
+        attachments: input.attachments?.length ? input.attachments : undefined,
+      },
+    }),
+    prisma.supportTicket.update({
+      where: { id: ticketId },
+      data: {
+        lastCustomerMessageAt: now,
+        ...(reopen && {
+          status: ticket.assigneeId ? 'IN_PROGRESS' : 'OPEN',
+          resolvedAt: null,
+          closedAt: null,
+        }),
+      },
+    }),
+  ]);
+
+  try {
+    await notifySupportTeam(updated, input.body, false);
+  } catch (error) {
+    logger.error('Support team notification failed', error instanceof Error ? error : undefined, {
+      ticketId,
+    });
+  }
+
+  return message;
+}
+
+/**
+ * Find the ticket an inbound email replies to
+ *
+ * Tries the reply-to token, then threading headers, then the ticket
+ * number in the subject.
+ */
+export async function findTicketForInboundEmail(email: {
+  to: string;
+  subject: string;
+  messageIds: string[];
+}): Promise<SupportTicket | null> {
+  const replyToken = parseReplyToken(email.to);
+  if (replyToken) {
+    const ticket = await prisma.supportTicket.findUnique({ where: { replyToken } });
+    if (ticket) return ticket;
+  }
+
+  if (email.messageIds.length > 0) {
+    const message = await prisma.ticketMessage.findFirst({
+      where: { emailMessageId: { in: email.messageIds } },
+      include: { ticket: true },
+    });
+    if (message) return message.ticket;
+  }
+
+  const ticketNumber = parseTicketNumber(email.subject);
+  if (ticketNumber) {
+    return prisma.supportTicket.findUnique({ where: { ticketNumber } });
+  }
+
+  return null;
+}
+
+// ============================================
+// STAFF
+// ============================================
+
+/**
+ * Reply to a ticket as staff, or add an internal note
+ *
+ * Public replies are emailed to the customer, stop the first-response
+ * clock and move the ticket to WAITING_ON_CUSTOMER. Internal notes are
+ * only visible in the admin.
+ *
+ * @returns The message and whether the customer email was sent
+ */
+export async function replyToTicket(
+  ticketId: string,
+  staffUserId: string,
+  body: string,
+  options: { internal?: boolean } = {}
+): Promise<{ message: TicketMessage; emailSent: boolean }> {
+  const ticket = await getTicketOrThrow(ticketId);
+  const internal = options.internal ?? false;
+
+  if (internal) {
+    const message = await prisma.ticketMessage.create({
+      data: { ticketId, authorType: 'STAFF', authorId: staffUserId, body, isInternal: true },
+    });
+    return { message, emailSent: false };
+  }
+
+  const now = new Date();
+  const messageId = createTicketMessageId(crypto.randomUUID());
+
+  const [message] = await prisma.$transaction([
+    prisma.ticketMessage.create({
+      data: { ticketId, authorType: 'STAFF', authorId: staffUserId, body, emailMessageId: messageId },
+    }),
+    prisma.supportTicket.update({
+      where: { id: ticketId },
+      data: {
+        firstRespondedAt: ticket.firstRespondedAt ?? now,
+        lastStaffMessageAt: now,
+        assigneeId: ticket.assigneeId ?? staffUserId,
+        ...((ticket.status === 'OPEN' || ticket.status === 'IN_PROGRESS') && {
+          status: 'WAITING_ON_CUSTOMER',
+        }),
+      },
+    }),
+  ]);
+
+  const staff = await prisma.user.findUnique({
+    where: { id: staffUserId },
+    select: { firstName: true, lastName: true },
+  });
+
+  let emailSent = false;
+  try {
+    emailSent = await emailCustomer(ticket, 'reply', body, messageId, formatStaffName(staff));
+  } catch (error) {
+    logger.error('Support reply email failed', error instanceof Error ? error : undefined, { ticketId });
+  }
+
+  return { message, emailSent };
+}
+
+/**
+ * Change a ticket's status, stamping resolved/closed times
+ */
+export async function updateTicketStatus(
+  ticketId: string,
+  status: SupportTicketStatus,
+  actorId: string | null = null
+): Promise<SupportTicket> {
+  const ticket = await getTicketOrThrow(ticketId);
+  if (ticket.status === status) {
+    return ticket;
+  }
+
+  const now = new Date();
+  const updated = await prisma.supportTicket.update({
+    where: { id: ticketId },
+    data: {
+      status,
+      resolvedAt: status === 'RESOLVED' || status === 'CLOSED' ? ticket.resolvedAt ?? now : null,
+      closedAt: status === 'CLOSED' ? now : null,
+    },
+  });
+
+  await addSystemNote(ticketId, actorId, `Status changed from ${STATUS_LABELS[ticket.status]} to ${STATUS_LABELS[status]}`);
+  return updated;
+}
+
+/**
+ * Change a ticket's priority and recompute its SLA due dates
+ */
+export async function updateTicketPriority(
+  ticketId: string,
+  priority: SupportTicketPriority,
+  actorId: string | null = null
+): Promise<SupportTicket> {
+  const ticket = await getTicketOrThrow(ticketId);
+  if (ticket.priority === priority) {
+    return ticket;
+  }
+
+  const updated = await prisma.supportTicket.update({
+    where: { id: ticketId },
+    data: { priority, ...getSlaDueDates(priority, ticket.createdAt) },
+  });
+
+  await addSystemNote(ticketId, actorId, `Priority changed from ${ticket.priority} to ${priority}`);
+  return updated;
+}
+
+/**
+ * Assign a ticket to a staff member, or unassign it with `null`
+ *
+ * @throws BadRequestError if the assignee is not ADMIN or STAFF
+ */
+export async function assignTicket(
+  ticketId: string,
+  assigneeId: string | null,
+  actorId: string | null = null
+): Promise<SupportTicket> {
+  const ticket = await getTicketOrThrow(ticketId);
+
+  let assigneeName = 'nobody';
+  if (assigneeId) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { role: true, firstName: true, lastName: true, email: true },
+    });
+    if (!assignee || !(STAFF_ROLES as readonly string[]).includes(assignee.role)) {
+      throw new BadRequestError('Tickets can only be assigned to staff');
+    }
+    assigneeName = formatStaffName(assignee) || assignee.email;
+  }
+
+  if (ticket.assigneeId === assigneeId) {
+    return ticket;
+  }
+
+  const updated = await prisma.supportTicket.update({
+    where: { id: ticketId },
+    data: {
+      assigneeId,
+      ...(assigneeId && ticket.status === 'OPEN' && { status: 'IN_PROGRESS' }),
+    },
+  });
+
+  await addSystemNote(ticketId, actorId, `Assigned to ${assigneeName}`);
+  return updated;
+}
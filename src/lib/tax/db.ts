@@ -0,0 +1,191 @@
+/**
+ * Database-backed Tax Data
+ *
+ * Rate table and nexus tracking stored in Postgres (`TaxRate`, `TaxNexus`).
+ */
+
+import { TaxCategory, type Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_TAX_RULES } from './rates';
+import type {
+  TaxAddress,
+  TaxExemption,
+  TaxJurisdictionRule,
+  TaxNexusLocation,
+  TaxRateSource,
+} from './types';
+
+// ============================================
+// RATE SOURCE
+// ============================================
+
+/**
+ * Rate source reading the `TaxRate` table.
+ *
+ * Falls back to the built-in rules for destinations that have no rows, and
+ * lets zip overrides inherit exemptions from their state row.
+ */
+export class PrismaTaxRateSource implements TaxRateSource {
+  async getRules(address: TaxAddress): Promise<TaxJurisdictionRule[]> {
+    const country = address.country.toUpperCase();
+    const state = address.state?.toUpperCase() || null;
+
+    const rows = await prisma.taxRate.findMany({
+      where: {
+        country,
+        isActive: true,
+        OR: [{ state: null }, ...(state ? [{ state }] : [])],
+      },
+    });
+
+    const defaults = DEFAULT_TAX_RULES.filter(
+      (rule) => rule.country === country && (!rule.state || rule.state === state)
+    );
+
+    if (rows.length === 0) {
+      return defaults;
+    }
+
+    const rules: TaxJurisdictionRule[] = rows.map((row) => ({
+      country: row.country,
+      state: row.state,
+      zip: row.zip,
+      name: row.name,
+      rate: Number(row.rate),
+      shippingTaxable: row.shippingTaxable,
+      isIncludedInPrice: row.isIncludedInPrice,
+      exemptions: toExemptions(row.exemptions) ?? [],
+    }));
+
+    // Overrides without their own exemptions inherit the state-level ones
+    const stateRule =
+      rules.find((rule) => rule.state && !rule.zip) ||
+      defaults.find((rule) => rule.state);
+    for (const [index, row] of rows.entries()) {
+      if (row.zip && row.exemptions === null && stateRule) {
+        rules[index].exemptions = stateRule.exemptions;
+      }
+    }
+
+    // Keep the built-in state/country row when the table only has overrides
+    const hasBaseRule = rules.some((rule) => !rule.zip);
+    return hasBaseRule ? rules : [...defaults, ...rules];
+  }
+}
+
+/**
+ * Read a `TaxRate.exemptions` column, skipping entries that aren't a
+ * known category with an optional numeric price cap
+ *
+ * @returns The exemptions, or null when the row has none of its own
+ */
+function toExemptions(value: Prisma.JsonValue | null): TaxExemption[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const categories: string[] = Object.values(TaxCategory);
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return [];
+    }
+    const { category, maxUnitPrice } = entry;
+    if (typeof category !== 'string' || !categories.includes(category)) {
+      return [];
+    }
+    return [{
+      category: category as TaxExemption['category'],
+      ...(typeof maxUnitPrice === 'number' ? { maxUnitPrice } : {}),
+    }];
+  });
+}
+
+// ============================================
+// NEXUS
+// ============================================
+
+/**
+ * Jurisdictions where we are registered to collect tax.
+ * An empty list means nexus is not configured and tax is collected everywhere.
+ */
+export async function getNexusLocations(): Promise<TaxNexusLocation[]> {
+  const rows = await prisma.taxNexus.findMany({
+    where: { collecting: true },
+    select: { country: true, state: true },
+  });
+
+  return rows.map((row) => ({ country: row.country, state: row.state || null }));
+}
+
+/**
+ * Record a completed sale against a destination's nexus counters
+ *
+ * @param address - Order destination
+ * @param amount - Order amount excluding tax
+ */
+export async function recordTaxableSale(address: TaxAddress, amount: number): Promise<void> {
+  const country = address.country.toUpperCase();
+  const state = address.state?.toUpperCase() || '';
+
+  await prisma.taxNexus.upsert({
+    where: { country_state: { country, state } },
+    create: {
+      country,
+      state,
+      periodSales: amount,
+      periodTransactions: 1,
+    },
+    update: {
+      periodSales: { increment: amount },
+      periodTransactions: { increment: 1 },
+    },
+  });
+}
+
+/**
+ * Nexus status for a jurisdiction
+ */
+export interface NexusStatus {
+  country: string;
+  state: string;
+  collecting: boolean;
+  periodStart: Date;
+  periodSales: number;
+  periodTransactions: number;
+  salesThreshold: number | null;
+  transactionThreshold: number | null;
+  /** Economic nexus threshold reached but not yet collecting */
+  thresholdReached: boolean;
+}
+
+/**
+ * Get nexus status for all tracked jurisdictions, most urgent first
+ */
+export async function getNexusReport(): Promise<NexusStatus[]> {
+  const rows = await prisma.taxNexus.findMany({
+    orderBy: [{ country: 'asc' }, { state: 'asc' }],
+  });
+
+  const report = rows.map((row) => {
+    const periodSales = Number(row.periodSales);
+    const salesThreshold = row.salesThreshold !== null ? Number(row.salesThreshold) : null;
+    const thresholdReached =
+      !row.collecting &&
+      ((salesThreshold !== null && periodSales >= salesThreshold) ||
+        (row.transactionThreshold !== null && row.periodTransactions >= row.transactionThreshold));
+
+    return {
+      country: row.country,
+      state: row.state,
+      collecting: row.collecting,
+      periodStart: row.periodStart,
+      periodSales,
+      periodTransactions: row.periodTransactions,
+      salesThreshold,
+      transactionThreshold: row.transactionThreshold,
+      thresholdReached,
+    };
+  });
+
+  return report.sort((a, b) => Number(b.thresholdReached) - Number(a.thresholdReached));
+}
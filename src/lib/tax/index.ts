@@ -0,0 +1,209 @@
+/**
+ * Tax Engine
+ *
+ * Single entry point for tax calculation across checkout, order creation and
+ * the Stripe webhook. The backend is chosen by TAX_PROVIDER:
+ * - `table` (default): database rate table with built-in fallbacks
+ * - `taxjar`: TaxJar-compatible API (TAXJAR_API_KEY, TAXJAR_API_URL)
+ *
+ * Nexus is read from the `TaxNexus` table; when no jurisdictions are marked
+ * as collecting, tax is collected for every destination.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { logger } from '@/lib/logger';
+import { PrismaTaxRateSource, getNexusLocations } from './db';
+import { TableTaxProvider } from './table-provider';
+import { TaxJarTaxProvider } from './taxjar';
+import type { TaxAddress, TaxCategory, TaxLineItem, TaxProvider, TaxRequest, TaxResult } from './types';
+
+// ============================================
+// PROVIDER REGISTRY
+// ============================================
+
+let taxProviderInstance: TaxProvider | null = null;
+let fallbackProviderInstance: TaxProvider | null = null;
+
+/**
+ * Database-backed table provider, used directly or as a fallback
+ */
+function getFallbackProvider(): TaxProvider {
+  if (!fallbackProviderInstance) {
+    fallbackProviderInstance = new TableTaxProvider(new PrismaTaxRateSource());
+  }
+  return fallbackProviderInstance;
+}
+
+/**
+ * Get the configured tax provider
+ */
+export function getTaxProvider(): TaxProvider {
+  if (taxProviderInstance) {
+    return taxProviderInstance;
+  }
+
+  if (process.env.TAX_PROVIDER === 'taxjar' && process.env.TAXJAR_API_KEY) {
+    taxProviderInstance = new TaxJarTaxProvider({
+      apiKey: process.env.TAXJAR_API_KEY,
+      baseUrl: process.env.TAXJAR_API_URL,
+      fromAddress: process.env.TAX_FROM_ZIP
+        ? {
+            country: process.env.TAX_FROM_COUNTRY || 'US',
+            state: process.env.TAX_FROM_STATE,
+            zip: process.env.TAX_FROM_ZIP,
+          }
+        : undefined,
+    });
+  } else {
+    taxProviderInstance = getFallbackProvider();
+  }
+
+  return taxProviderInstance;
+}
+
+/**
+ * Override the tax provider (tests, local mocks)
+ * Pass `null` to go back to the environment-configured provider.
+ */
+export function setTaxProvider(provider: TaxProvider | null): void {
+  taxProviderInstance = provider;
+}
+
+// ============================================
+// CALCULATION
+// ============================================
+
+/**
+ * Calculate tax for an order
+ *
+ * Loads nexus configuration when the request does not carry it, and falls
+ * back to the rate table if an external provider fails so checkout never
+ * blocks on a tax API outage.
+ *
+ * @param request - Destination, line items and shipping amount
+ * @returns Tax result with per-line breakdown
+ *
+ * @example
+ * const tax = await calculateTax({
+ *   address: { country: 'US', state: 'CA', zip: '94103' },
+ *   lineItems: [{ id: 'item_1', quantity: 2, unitPrice: 24.99, taxCategory: 'INFANT_CLOTHING' }],
+ *   shipping: 5.99,
+ * });
+ * const total = subtotal + shipping + tax.amountToCollect;
+ */
+export async function calculateTax(request: TaxRequest): Promise<TaxResult> {
+  const nexus = request.nexus ?? (await getNexusLocations().catch(() => []));
+  const fullRequest: TaxRequest = { ...request, nexus };
+  const provider = getTaxProvider();
+
+  try {
+    return await provider.calculate(fullRequest);
+  } catch (error) {
+    const fallback = getFallbackProvider();
+    if (provider === fallback) {
+      throw error;
+    }
+
+    logger.error(
+      'Tax provider failed, falling back to rate table',
+      error instanceof Error ? error : undefined,
+      { provider: provider.name, country: request.address.country, state: request.address.state }
+    );
+    return fallback.calculate(fullRequest);
+  }
+}
+
+// ============================================
+// REQUEST BUILDERS
+// ============================================
+
+/**
+ * Build tax line items from cart items loaded with `variant.product`
+ */
+export function toTaxLineItems(
+  items: Array<{
+    id: string;
+    quantity: number;
+    variant: {
+      price: number | { toString(): string };
+      product: { taxCategory?: TaxCategory | null };
+    };
+  }>
+): TaxLineItem[] {
+  return items.map((item) => ({
+    id: item.id,
+    quantity: item.quantity,
+    unitPrice: Number(item.variant.price),
+    taxCategory: item.variant.product.taxCategory || 'GENERAL',
+  }));
+}
+
+/**
+ * Build a tax address from an `Address` row or order address JSON
+ */
+export function toTaxAddress(address: {
+  country?: string | null;
+  state?: string | null;
+  city?: string | null;
+  zip?: string | null;
+  postalCode?: string | null;
+}): TaxAddress {
+  return {
+    country: address.country || 'US',
+    state: address.state || null,
+    city: address.city || null,
+    zip: address.zip || address.postalCode || null,
+  };
+}
+
+/**
+ * Snapshot of a tax result for `Order.taxDetails`
+ */
+export function toTaxDetails(result: TaxResult): Prisma.InputJsonObject {
+  return {
+    provider: result.provider,
+    rate: result.rate,
+    jurisdiction: { ...result.jurisdiction },
+    taxableAmount: result.taxableAmount,
+    shippingTax: result.shippingTax,
+    includedTax: result.includedTax,
+    hasNexus: result.hasNexus,
+    lines: result.lines.map((line) => ({ ...line })),
+  };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export {
+  TableTaxProvider,
+  StaticTaxRateSource,
+  resolveJurisdictionRule,
+  applyJurisdictionRule,
+} from './table-provider';
+export { TaxJarTaxProvider, toTaxJarRequest, fromTaxJarResponse } from './taxjar';
+export { createTaxJarMockFetch } from './taxjar-mock';
+export { PrismaTaxRateSource, getNexusLocations, recordTaxableSale, getNexusReport } from './db';
+export type { NexusStatus } from './db';
+export {
+  DEFAULT_TAX_RULES,
+  SUPPORTED_TAX_COUNTRIES,
+  PRODUCT_TAX_CODES,
+  getTaxRate,
+  isExempt,
+  formatTaxRate,
+} from './rates';
+export type {
+  TaxAddress,
+  TaxCategory,
+  TaxExemption,
+  TaxJurisdictionRule,
+  TaxLineItem,
+  TaxLineResult,
+  TaxNexusLocation,
+  TaxProvider,
+  TaxRateSource,
+  TaxRequest,
+  TaxResult,
+} from './types';
@@ -0,0 +1,191 @@
+/**
+ * Default Tax Rates
+ *
+ * Built-in state/country rate table. Used to seed the `TaxRate` table and
+ * as the fallback when the database has no row for a destination.
+ * Rates are statewide base rates; zip overrides live in the database.
+ * County rates aren't supported, so they're entered as zip overrides.
+ */
+
+import type { TaxCategory, TaxExemption, TaxJurisdictionRule } from './types';
+
+// ============================================
+// US STATES
+// ============================================
+
+/**
+ * [state, name, rate, shippingTaxable]
+ */
+const US_STATE_RATES: Array<[string, string, number, boolean]> = [
+  ['AL', 'Alabama', 0.04, false],
+  ['AK', 'Alaska', 0, false],
+  ['AZ', 'Arizona', 0.056, false],
+  ['AR', 'Arkansas', 0.065, true],
+  ['CA', 'California', 0.0725, false],
+  ['CO', 'Colorado', 0.029, false],
+  ['CT', 'Connecticut', 0.0635, true],
+  ['DE', 'Delaware', 0, false],
+  ['DC', 'District of Columbia', 0.06, true],
+  ['FL', 'Florida', 0.06, false],
+  ['GA', 'Georgia', 0.04, true],
+  ['HI', 'Hawaii', 0.04, true],
+  ['ID', 'Idaho', 0.06, false],
+  ['IL', 'Illinois', 0.0625, false],
+  ['IN', 'Indiana', 0.07, true],
+  ['IA', 'Iowa', 0.06, false],
+  ['KS', 'Kansas', 0.065, true],
+  ['KY', 'Kentucky', 0.06, true],
+  ['LA', 'Louisiana', 0.05, false],
+  ['ME', 'Maine', 0.055, false],
+  ['MD', 'Maryland', 0.06, false],
+  ['MA', 'Massachusetts', 0.0625, false],
+  ['MI', 'Michigan', 0.06, true],
+  ['MN', 'Minnesota', 0.06875, true],
+  ['MS', 'Mississippi', 0.07, true],
+  ['MO', 'Missouri', 0.04225, false],
+  ['MT', 'Montana', 0, false],
+  ['NE', 'Nebraska', 0.055, true],
+  ['NV', 'Nevada', 0.0685, false],
+  ['NH', 'New Hampshire', 0, false],
+  ['NJ', 'New Jersey', 0.06625, true],
+  ['NM', 'New Mexico', 0.04875, true],
+  ['NY', 'New York', 0.04, true],
+  ['NC', 'North Carolina', 0.0475, true],
+  ['ND', 'North Dakota', 0.05, true],
+  ['OH', 'Ohio', 0.0575, true],
+  ['OK', 'Oklahoma', 0.045, false],
+  ['OR', 'Oregon', 0, false],
+  ['PA', 'Pennsylvania', 0.06, true],
+  ['RI', 'Rhode Island', 0.07, true],
+  ['SC', 'South Carolina', 0.06, true],
+  ['SD', 'South Dakota', 0.042, true],
+  ['TN', 'Tennessee', 0.07, true],
+  ['TX', 'Texas', 0.0625, true],
+  ['UT', 'Utah', 0.0485, false],
+  ['VT', 'Vermont', 0.06, true],
+  ['VA', 'Virginia', 0.053, false],
+  ['WA', 'Washington', 0.065, true],
+  ['WV', 'West Virginia', 0.06, true],
+  ['WI', 'Wisconsin', 0.05, true],
+  ['WY', 'Wyoming', 0.04, false],
+];
+
+/**
+ * State-level exemptions relevant to our catalog.
+ * A CLOTHING exemption also covers INFANT_CLOTHING.
+ */
+const US_STATE_EXEMPTIONS: Record<string, TaxExemption[]> = {
+  CA: [{ category: 'INFANT_SUPPLIES' }],
+  CT: [{ category: 'INFANT_SUPPLIES' }],
+  FL: [{ category: 'INFANT_CLOTHING' }, { category: 'INFANT_SUPPLIES' }],
+  MA: [{ category: 'CLOTHING', maxUnitPrice: 175 }, { category: 'INFANT_SUPPLIES' }],
+  MN: [{ category: 'CLOTHING' }, { category: 'INFANT_SUPPLIES' }],
+  NJ: [{ category: 'CLOTHING' }, { category: 'INFANT_SUPPLIES' }],
+  NY: [{ category: 'CLOTHING', maxUnitPrice: 110 }, { category: 'INFANT_SUPPLIES' }],
+  PA: [{ category: 'CLOTHING' }, { category: 'INFANT_SUPPLIES' }],
+  RI: [{ category: 'CLOTHING', maxUnitPrice: 250 }],
+  VT: [{ category: 'CLOTHING' }],
+};
+
+// ============================================
+// COUNTRIES
+// ============================================
+
+const COUNTRY_RULES: TaxJurisdictionRule[] = [
+  { country: 'MY', name: 'Malaysia SST', rate: 0.10, shippingTaxable: false, isIncludedInPrice: false, exemptions: [] },
+  { country: 'SG', name: 'Singapore GST', rate: 0.09, shippingTaxable: true, isIncludedInPrice: false, exemptions: [] },
+  { country: 'GB', name: 'UK VAT', rate: 0.20, shippingTaxable: true, isIncludedInPrice: true, exemptions: [{ category: 'INFANT_CLOTHING' }] },
+  { country: 'AU', name: 'Australia GST', rate: 0.10, shippingTaxable: true, isIncludedInPrice: true, exemptions: [] },
+];
+
+// ============================================
+// DEFAULT TABLE
+// ============================================
+
+/**
+ * Every built-in jurisdiction rule (US states + supported countries)
+ */
+export const DEFAULT_TAX_RULES: TaxJurisdictionRule[] = [
+  ...US_STATE_RATES.map(([state, name, rate, shippingTaxable]) => ({
+    country: 'US',
+    state,
+    name: `${name} Sales Tax`,
+    rate,
+    shippingTaxable,
+    isIncludedInPrice: false,
+    exemptions: US_STATE_EXEMPTIONS[state] || [],
+  })),
+  ...COUNTRY_RULES,
+];
+
+/**
+ * Rule used for destinations we have no rate for
+ */
+export const NO_TAX_RULE: TaxJurisdictionRule = {
+  country: 'XX',
+  name: 'No Tax',
+  rate: 0,
+  shippingTaxable: false,
+  isIncludedInPrice: false,
+  exemptions: [],
+};
+
+/**
+ * List of supported countries with tax rates
+ */
+export const SUPPORTED_TAX_COUNTRIES = ['US', ...COUNTRY_RULES.map((rule) => rule.country)];
+
+/**
+ * TaxJar product tax codes for our categories
+ */
+export const PRODUCT_TAX_CODES: Record<TaxCategory, string | undefined> = {
+  GENERAL: undefined,
+  CLOTHING: '20010',
+  INFANT_CLOTHING: '20010',
+  INFANT_SUPPLIES: undefined,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Get the built-in statewide/country rule for a destination
+ */
+export function getTaxRate(country: string, state?: string | null): TaxJurisdictionRule {
+  const normalizedCountry = country.toUpperCase();
+  const normalizedState = state?.toUpperCase() || null;
+
+  if (normalizedCountry === 'US') {
+    const stateRule = DEFAULT_TAX_RULES.find(
+      (rule) => rule.country === 'US' && rule.state === normalizedState
+    );
+    return stateRule || { ...NO_TAX_RULE, country: 'US', name: 'US Sales Tax' };
+  }
+
+  return DEFAULT_TAX_RULES.find((rule) => rule.country === normalizedCountry) || NO_TAX_RULE;
+}
+
+/**
+ * Check whether a category is exempt under a rule at a given unit price
+ */
+export function isExempt(
+  rule: Pick<TaxJurisdictionRule, 'exemptions'>,
+  category: TaxCategory = 'GENERAL',
+  unitPrice: number = 0
+): boolean {
+  return rule.exemptions.some((exemption) => {
+    const matches =
+      exemption.category === category ||
+      (exemption.category === 'CLOTHING' && category === 'INFANT_CLOTHING');
+    if (!matches) return false;
+    return exemption.maxUnitPrice === undefined || unitPrice < exemption.maxUnitPrice;
+  });
+}
+
+/**
+ * Format tax rate for display (e.g. "7.25%")
+ */
+export function formatTaxRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
@@ -0,0 +1,248 @@
+/**
+ * Rate Table Tax Provider
+ *
+ * Calculates tax from a jurisdiction rate table. The most specific matching
+ * rule wins (zip > state > country). Rules come from a
+ * `TaxRateSource`, so the same provider serves both the database-backed
+ * table and the built-in defaults.
+ *
+ * Only state and zip overrides are supported: addresses don't carry a
+ * county, so a county's rate is entered as a zip row for each of its zips.
+ */
+
+import { DEFAULT_TAX_RULES, NO_TAX_RULE, isExempt } from './rates';
+import type {
+  TaxAddress,
+  TaxJurisdictionRule,
+  TaxLineResult,
+  TaxProvider,
+  TaxRateSource,
+  TaxRequest,
+  TaxResult,
+} from './types';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function normalize(value?: string | null): string | null {
+  return value ? value.trim().toUpperCase() : null;
+}
+
+/**
+ * Normalize a postal code for matching (US ZIP+4 -> 5 digits)
+ */
+function normalizeZip(zip?: string | null, country?: string): string | null {
+  const value = normalize(zip);
+  if (!value) return null;
+  return country === 'US' ? value.slice(0, 5) : value;
+}
+
+/**
+ * Specificity score of a rule, or -1 when it does not apply to the address
+ */
+function ruleSpecificity(rule: TaxJurisdictionRule, address: TaxAddress): number {
+  const country = normalize(address.country);
+  if (normalize(rule.country) !== country) return -1;
+
+  let score = 0;
+  if (rule.state) {
+    if (normalize(rule.state) !== normalize(address.state)) return -1;
+    score += 1;
+  }
+  if (rule.zip) {
+    if (normalizeZip(rule.zip, country || undefined) !== normalizeZip(address.zip, country || undefined)) {
+      return -1;
+    }
+    score += 2;
+  }
+  return score;
+}
+
+/**
+ * Pick the most specific rule for an address
+ */
+export function resolveJurisdictionRule(
+  rules: TaxJurisdictionRule[],
+  address: TaxAddress
+): TaxJurisdictionRule | null {
+  let best: TaxJurisdictionRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    const score = ruleSpecificity(rule, address);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether the destination falls inside one of the nexus locations
+ */
+export function hasNexusIn(request: TaxRequest): boolean {
+  if (!request.nexus || request.nexus.length === 0) return true;
+
+  const country = normalize(request.address.country);
+  const state = normalize(request.address.state);
+
+  return request.nexus.some(
+    (location) =>
+      normalize(location.country) === country &&
+      (!location.state || normalize(location.state) === state)
+  );
+}
+
+/**
+ * Build a zero-tax result (no nexus, unknown jurisdiction)
+ */
+export function emptyTaxResult(
+  request: TaxRequest,
+  provider: string,
+  rule: TaxJurisdictionRule = NO_TAX_RULE,
+  hasNexus: boolean = true
+): TaxResult {
+  return {
+    amountToCollect: 0,
+    includedTax: 0,
+    taxableAmount: 0,
+    rate: 0,
+    shippingTax: 0,
+    shippingTaxable: false,
+    isIncludedInPrice: false,
+    hasNexus,
+    jurisdiction: {
+      country: request.address.country,
+      state: request.address.state || null,
+      zip: request.address.zip || null,
+      name: rule.name,
+    },
+    lines: request.lineItems.map((item) => ({
+      id: item.id,
+      taxableAmount: 0,
+      tax: 0,
+      rate: 0,
+      exempt: true,
+    })),
+    provider,
+  };
+}
+
+/**
+ * Apply a jurisdiction rule to a request
+ */
+export function applyJurisdictionRule(
+  request: TaxRequest,
+  rule: TaxJurisdictionRule,
+  provider: string
+): TaxResult {
+  let taxableAmount = 0;
+  let tax = 0;
+
+  const lines: TaxLineResult[] = request.lineItems.map((item) => {
+    const lineAmount = Math.max(0, item.unitPrice * item.quantity - (item.discount || 0));
+    const exempt = rule.rate === 0 || isExempt(rule, item.taxCategory, item.unitPrice);
+
+    if (exempt) {
+      return { id: item.id, taxableAmount: 0, tax: 0, rate: 0, exempt: true };
+    }
+
+    // VAT-inclusive prices already contain the tax: extract it instead of adding
+    const lineTax = rule.isIncludedInPrice
+      ? lineAmount - lineAmount / (1 + rule.rate)
+      : lineAmount * rule.rate;
+
+    taxableAmount += lineAmount;
+    tax += lineTax;
+
+    return {
+      id: item.id,
+      taxableAmount: round(lineAmount),
+      tax: round(lineTax),
+      rate: rule.rate,
+      exempt: false,
+    };
+  });
+
+  let shippingTax = 0;
+  if (rule.shippingTaxable && request.shipping > 0 && rule.rate > 0) {
+    shippingTax = rule.isIncludedInPrice
+      ? request.shipping - request.shipping / (1 + rule.rate)
+      : request.shipping * rule.rate;
+    taxableAmount += request.shipping;
+    tax += shippingTax;
+  }
+
+  const total = round(tax);
+
+  return {
+    amountToCollect: rule.isIncludedInPrice ? 0 : total,
+    includedTax: rule.isIncludedInPrice ? total : 0,
+    taxableAmount: round(taxableAmount),
+    rate: rule.rate,
+    shippingTax: round(shippingTax),
+    shippingTaxable: rule.shippingTaxable,
+    isIncludedInPrice: rule.isIncludedInPrice,
+    hasNexus: true,
+    jurisdiction: {
+      country: rule.country,
+      state: rule.state || null,
+      zip: rule.zip || null,
+      name: rule.name,
+    },
+    lines,
+    provider,
+  };
+}
+
+// ============================================
+// RATE SOURCES
+// ============================================
+
+/**
+ * Rate source backed by an in-memory rule list
+ * (defaults to the built-in table)
+ */
+export class StaticTaxRateSource implements TaxRateSource {
+  constructor(private readonly rules: TaxJurisdictionRule[] = DEFAULT_TAX_RULES) {}
+
+  async getRules(address: TaxAddress): Promise<TaxJurisdictionRule[]> {
+    const country = normalize(address.country);
+    return this.rules.filter((rule) => normalize(rule.country) === country);
+  }
+}
+
+// ============================================
+// TABLE PROVIDER
+// ============================================
+
+/**
+ * Tax provider that resolves rates from a rate table
+ */
+export class TableTaxProvider implements TaxProvider {
+  readonly name = 'table';
+
+  constructor(private readonly source: TaxRateSource = new StaticTaxRateSource()) {}
+
+  async calculate(request: TaxRequest): Promise<TaxResult> {
+    if (!hasNexusIn(request)) {
+      return emptyTaxResult(request, this.name, NO_TAX_RULE, false);
+    }
+
+    const rules = await this.source.getRules(request.address);
+    const rule = resolveJurisdictionRule(rules, request.address);
+
+    if (!rule) {
+      return emptyTaxResult(request, this.name);
+    }
+
+    return applyJurisdictionRule(request, rule, this.name);
+  }
+}
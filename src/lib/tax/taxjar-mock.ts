@@ -0,0 +1,114 @@
+/**
+ * Local TaxJar Mock
+ *
+ * A `fetch`-compatible handler that answers TaxJar's `POST /v2/taxes` from
+ * the rate table. Lets the TaxJar adapter be exercised in tests and local
+ * development without network access or an API key.
+ *
+ * @example
+ * const provider = new TaxJarTaxProvider({
+ *   apiKey: 'test',
+ *   baseUrl: 'http://taxjar.local',
+ *   fetch: createTaxJarMockFetch(),
+ * });
+ */
+
+import { TableTaxProvider } from './table-provider';
+import type { TaxCategory, TaxRequest } from './types';
+import type { TaxJarTaxRequest, TaxJarTaxResponse } from './taxjar';
+
+/**
+ * Map TaxJar product tax codes back to our categories
+ */
+const CATEGORY_BY_TAX_CODE: Record<string, TaxCategory> = {
+  '20010': 'CLOTHING',
+};
+
+/**
+ * Translate a TaxJar request body into an engine request
+ */
+function fromTaxJarRequest(body: TaxJarTaxRequest): TaxRequest {
+  return {
+    address: {
+      country: body.to_country,
+      state: body.to_state,
+      zip: body.to_zip,
+      city: body.to_city,
+    },
+    shipping: body.shipping,
+    nexus: body.nexus_addresses,
+    lineItems: body.line_items.map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      discount: item.discount,
+      taxCategory: item.product_tax_code ? CATEGORY_BY_TAX_CODE[item.product_tax_code] : undefined,
+    })),
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Create a fetch implementation that serves TaxJar-shaped responses
+ *
+ * @param provider - Provider used to compute the numbers (defaults to the built-in table)
+ */
+export function createTaxJarMockFetch(
+  provider: TableTaxProvider = new TableTaxProvider()
+): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (!url.endsWith('/v2/taxes') || (init?.method || 'GET').toUpperCase() !== 'POST') {
+      return jsonResponse(404, { error: 'Not Found', detail: `No mock route for ${url}` });
+    }
+
+    const auth = new Headers(init?.headers).get('authorization');
+    if (!auth?.startsWith('Bearer ')) {
+      return jsonResponse(401, { error: 'Unauthorized', detail: 'Not authorized for route' });
+    }
+
+    const body = JSON.parse(String(init?.body || '{}')) as TaxJarTaxRequest;
+    if (!body.to_country || !Array.isArray(body.line_items)) {
+      return jsonResponse(400, { error: 'Bad Request', detail: 'to_country and line_items are required' });
+    }
+
+    const request = fromTaxJarRequest(body);
+    const result = await provider.calculate(request);
+
+    const response: TaxJarTaxResponse = {
+      tax: {
+        order_total_amount: body.amount + body.shipping,
+        shipping: body.shipping,
+        taxable_amount: result.taxableAmount,
+        amount_to_collect: result.amountToCollect + result.includedTax,
+        rate: result.rate,
+        has_nexus: result.hasNexus,
+        freight_taxable: result.shippingTaxable,
+        tax_source: 'destination',
+        jurisdictions: {
+          country: result.jurisdiction.country,
+          state: result.jurisdiction.state || undefined,
+          county: result.jurisdiction.county || undefined,
+        },
+        breakdown: {
+          shipping: { tax_collectable: result.shippingTax },
+          line_items: result.lines.map((line) => ({
+            id: line.id,
+            taxable_amount: line.taxableAmount,
+            tax_collectable: line.tax,
+            combined_tax_rate: line.rate,
+          })),
+        },
+      },
+    };
+
+    return jsonResponse(200, response);
+  }) as typeof fetch;
+}
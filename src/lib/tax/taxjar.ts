@@ -0,0 +1,221 @@
+/**
+ * TaxJar-compatible Tax Provider
+ *
+ * Talks to any service exposing TaxJar's `POST /v2/taxes` contract
+ * (TaxJar itself, Avalara's TaxJar-compatible endpoint, or the local mock
+ * in `./taxjar-mock`). Configure with TAXJAR_API_KEY and TAXJAR_API_URL.
+ *
+ * @see https://developers.taxjar.com/api/reference/#post-calculate-sales-tax-for-an-order
+ */
+
+import { PRODUCT_TAX_CODES } from './rates';
+import { emptyTaxResult, hasNexusIn } from './table-provider';
+import type { TaxProvider, TaxRequest, TaxResult } from './types';
+
+// ============================================
+// TAXJAR WIRE TYPES
+// ============================================
+
+/**
+ * Request body for POST /v2/taxes
+ */
+export interface TaxJarTaxRequest {
+  from_country?: string;
+  from_state?: string;
+  from_zip?: string;
+  to_country: string;
+  to_state?: string;
+  to_zip?: string;
+  to_city?: string;
+  amount: number;
+  shipping: number;
+  nexus_addresses?: Array<{ country: string; state?: string }>;
+  line_items: Array<{
+    id: string;
+    quantity: number;
+    unit_price: number;
+    discount?: number;
+    product_tax_code?: string;
+  }>;
+}
+
+/**
+ * Response body for POST /v2/taxes
+ */
+export interface TaxJarTaxResponse {
+  tax: {
+    order_total_amount: number;
+    shipping: number;
+    taxable_amount: number;
+    amount_to_collect: number;
+    rate: number;
+    has_nexus: boolean;
+    freight_taxable: boolean;
+    tax_source?: string;
+    jurisdictions?: {
+      country?: string;
+      state?: string;
+      county?: string;
+      city?: string;
+    };
+    breakdown?: {
+      shipping?: { tax_collectable: number };
+      line_items?: Array<{
+        id: string;
+        taxable_amount: number;
+        tax_collectable: number;
+        combined_tax_rate: number;
+      }>;
+    };
+  };
+}
+
+/**
+ * TaxJar provider options
+ */
+export interface TaxJarProviderOptions {
+  apiKey: string;
+  /** Base URL, e.g. https://api.taxjar.com or http://localhost:4010 */
+  baseUrl?: string;
+  /** Ship-from address (our warehouse) */
+  fromAddress?: { country: string; state?: string; zip?: string };
+  /** Injectable fetch for tests and the local mock */
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+/**
+ * Convert an engine request into a TaxJar request body
+ */
+export function toTaxJarRequest(
+  request: TaxRequest,
+  fromAddress?: TaxJarProviderOptions['fromAddress']
+): TaxJarTaxRequest {
+  const amount = request.lineItems.reduce(
+    (sum, item) => sum + item.unitPrice * item.quantity - (item.discount || 0),
+    0
+  );
+
+  return {
+    from_country: fromAddress?.country,
+    from_state: fromAddress?.state,
+    from_zip: fromAddress?.zip,
+    to_country: request.address.country,
+    to_state: request.address.state || undefined,
+    to_zip: request.address.zip || undefined,
+    to_city: request.address.city || undefined,
+    amount: Math.round(amount * 100) / 100,
+    shipping: request.shipping,
+    nexus_addresses: request.nexus?.map((location) => ({
+      country: location.country,
+      state: location.state || undefined,
+    })),
+    line_items: request.lineItems.map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      discount: item.discount,
+      product_tax_code: item.taxCategory ? PRODUCT_TAX_CODES[item.taxCategory] : undefined,
+    })),
+  };
+}
+
+/**
+ * Convert a TaxJar response into an engine result
+ */
+export function fromTaxJarResponse(
+  request: TaxRequest,
+  response: TaxJarTaxResponse,
+  provider: string = 'taxjar'
+): TaxResult {
+  const { tax } = response;
+  const breakdown = new Map((tax.breakdown?.line_items || []).map((line) => [line.id, line]));
+
+  return {
+    amountToCollect: tax.amount_to_collect,
+    includedTax: 0,
+    taxableAmount: tax.taxable_amount,
+    rate: tax.rate,
+    shippingTax: tax.breakdown?.shipping?.tax_collectable || 0,
+    shippingTaxable: tax.freight_taxable,
+    isIncludedInPrice: false,
+    hasNexus: tax.has_nexus,
+    jurisdiction: {
+      country: tax.jurisdictions?.country || request.address.country,
+      state: tax.jurisdictions?.state || request.address.state || null,
+      county: tax.jurisdictions?.county || null,
+      zip: request.address.zip || null,
+      name: [tax.jurisdictions?.state, tax.jurisdictions?.county, tax.jurisdictions?.city]
+        .filter(Boolean)
+        .join(' / ') || request.address.country,
+    },
+    lines: request.lineItems.map((item) => {
+      const line = breakdown.get(item.id);
+      return {
+        id: item.id,
+        taxableAmount: line?.taxable_amount || 0,
+        tax: line?.tax_collectable || 0,
+        rate: line?.combined_tax_rate || 0,
+        exempt: !line || line.tax_collectable === 0,
+      };
+    }),
+    provider,
+  };
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+/**
+ * Tax provider backed by a TaxJar-compatible HTTP API
+ */
+export class TaxJarTaxProvider implements TaxProvider {
+  readonly name = 'taxjar';
+
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: TaxJarProviderOptions) {
+    this.baseUrl = (options.baseUrl || 'https://api.taxjar.com').replace(/\/$/, '');
+    this.fetchImpl = options.fetch || fetch;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async calculate(request: TaxRequest): Promise<TaxResult> {
+    // Skip the round trip when we know we don't collect there
+    if (!hasNexusIn(request)) {
+      return emptyTaxResult(request, this.name, undefined, false);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}/v2/taxes`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toTaxJarRequest(request, this.options.fromAddress)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`TaxJar request failed (${response.status}): ${detail}`);
+      }
+
+      const body = (await response.json()) as TaxJarTaxResponse;
+      return fromTaxJarResponse(request, body, this.name);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Tax Engine Types
+ *
+ * Shared request/response shapes for every tax provider. Amounts are in
+ * dollars (not cents) to match the rest of the checkout code.
+ */
+
+// ============================================
+// CATEGORIES & RULES
+// ============================================
+
+/**
+ * Product tax category (mirrors the Prisma `TaxCategory` enum)
+ */
+export type TaxCategory = 'GENERAL' | 'CLOTHING' | 'INFANT_CLOTHING' | 'INFANT_SUPPLIES';
+
+/**
+ * Exemption for a product category within a jurisdiction
+ */
+export interface TaxExemption {
+  /** Category that is exempt */
+  category: TaxCategory;
+  /** Only exempt when the unit price is below this amount (e.g. MA clothing under $175) */
+  maxUnitPrice?: number;
+}
+
+/**
+ * A single jurisdiction rule from the rate table
+ */
+export interface TaxJurisdictionRule {
+  country: string;
+  state?: string | null;
+  zip?: string | null;
+  /** Display name, e.g. "California Sales Tax" */
+  name: string;
+  /** Decimal rate, e.g. 0.0725 */
+  rate: number;
+  /** Whether separately-stated shipping charges are taxed */
+  shippingTaxable: boolean;
+  /** VAT-style: tax is already included in the listed price */
+  isIncludedInPrice: boolean;
+  exemptions: TaxExemption[];
+}
+
+// ============================================
+// REQUEST
+// ============================================
+
+/**
+ * Destination address used for tax sourcing
+ */
+export interface TaxAddress {
+  country: string;
+  state?: string | null;
+  city?: string | null;
+  zip?: string | null;
+}
+
+/**
+ * Jurisdiction in which we collect tax
+ */
+export interface TaxNexusLocation {
+  country: string;
+  state?: string | null;
+}
+
+/**
+ * A taxable line in the cart/order
+ */
+export interface TaxLineItem {
+  /** Caller's identifier (cart item ID, variant ID, ...) */
+  id: string;
+  quantity: number;
+  unitPrice: number;
+  /** Total discount applied to this line */
+  discount?: number;
+  taxCategory?: TaxCategory;
+}
+
+/**
+ * Input to `calculateTax`
+ */
+export interface TaxRequest {
+  address: TaxAddress;
+  lineItems: TaxLineItem[];
+  shipping: number;
+  /**
+   * Jurisdictions where we collect tax. When omitted or empty every
+   * destination is treated as having nexus.
+   */
+  nexus?: TaxNexusLocation[];
+}
+
+// ============================================
+// RESULT
+// ============================================
+
+/**
+ * Per-line tax breakdown
+ */
+export interface TaxLineResult {
+  id: string;
+  taxableAmount: number;
+  tax: number;
+  rate: number;
+  exempt: boolean;
+}
+
+/**
+ * Output of `calculateTax`
+ */
+export interface TaxResult {
+  /** Tax to add on top of the order total */
+  amountToCollect: number;
+  /** Tax already contained in VAT-inclusive prices (informational) */
+  includedTax: number;
+  /** Amount the rate was applied to, including shipping when taxable */
+  taxableAmount: number;
+  /** Rate of the matched jurisdiction */
+  rate: number;
+  shippingTax: number;
+  shippingTaxable: boolean;
+  isIncludedInPrice: boolean;
+  hasNexus: boolean;
+  jurisdiction: {
+    country: string;
+    state?: string | null;
+    county?: string | null;
+    zip?: string | null;
+    name: string;
+  };
+  lines: TaxLineResult[];
+  /** Name of the provider that produced the result */
+  provider: string;
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+/**
+ * Tax provider interface
+ * All tax backends (rate table, TaxJar, ...) implement this
+ */
+export interface TaxProvider {
+  /** Provider name identifier */
+  readonly name: string;
+
+  /**
+   * Calculate tax for an order
+   */
+  calculate(request: TaxRequest): Promise<TaxResult>;
+}
+
+/**
+ * Source of jurisdiction rules for the table provider
+ */
+export interface TaxRateSource {
+  /**
+   * Return every rule that may apply to the address
+   * (country, state and zip level rows)
+   */
+  getRules(address: TaxAddress): Promise<TaxJurisdictionRule[]>;
+}
@@ -0,0 +1,170 @@
+/**
+ * Carrier Detection
+ *
+ * Works out which carrier a tracking number belongs to from its format,
+ * and reads carrier names typed in by staff or sent by suppliers. Pure, so
+ * the formats can be tested without a provider.
+ */
+
+import type { TrackingCarrier } from './types';
+
+// ============================================
+// CARRIERS
+// ============================================
+
+/**
+ * How we recognise and link to a carrier
+ */
+export interface CarrierDetails {
+  /** Name shown to customers and stored on the shipment */
+  label: string;
+  /** Tracking number formats, checked against the normalized number */
+  patterns: RegExp[];
+  /** Names staff and suppliers use for the carrier, lower case */
+  aliases: string[];
+  /** Carrier's public tracking page */
+  trackingUrl: (trackingNumber: string) => string;
+  /** Ships from overseas, so scans are further apart */
+  international: boolean;
+}
+
+/**
+ * Known carriers, in detection order: the more specific formats come first
+ * so a China Post number isn't read as a FedEx one
+ */
+export const TRACKING_CARRIERS: Record<TrackingCarrier, CarrierDetails> = {
+  ups: {
+    label: 'UPS',
+    patterns: [/^1Z[0-9A-Z]{16}$/],
+    aliases: ['ups', 'united parcel service'],
+    trackingUrl: (n) => `https://www.ups.com/track?tracknum=${n}`,
+    international: false,
+  },
+  yunexpress: {
+    label: 'YunExpress',
+    patterns: [/^YT\d{16}$/],
+    aliases: ['yunexpress', 'yun express', 'yuntrack'],
+    trackingUrl: (n) => `https://www.yuntrack.com/parcelTracking?id=${n}`,
+    international: true,
+  },
+  cainiao: {
+    label: 'AliExpress Standard Shipping',
+    patterns: [/^LP\d{12,16}$/],
+    aliases: ['cainiao', 'aliexpress'],
+    trackingUrl: (n) => `https://global.cainiao.com/newDetail.htm?mailNoList=${n}`,
+    international: true,
+  },
+  'china-post': {
+    label: 'China Post',
+    // UPU S10 numbers ending in CN: registered (R), ePacket (L) and EMS (E)
+    patterns: [/^[A-Z]{2}\d{9}CN$/],
+    aliases: ['china post', 'chinapost', 'china ems', 'epacket'],
+    trackingUrl: (n) => `https://t.17track.net/en#nums=${n}`,
+    international: true,
+  },
+  usps: {
+    label: 'USPS',
+    patterns: [
+      /^9[2-5]\d{20}$/,
+      // Barcode scans carry the ZIP code in front
+      /^420\d{5}(\d{4})?9[2-5]\d{20}$/,
+      /^[A-Z]{2}\d{9}US$/,
+    ],
+    aliases: ['usps', 'us postal service', 'united states postal service'],
+    trackingUrl: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+    international: false,
+  },
+  fedex: {
+    label: 'FedEx',
+    patterns: [/^\d{12}$/, /^\d{15}$/, /^96\d{20}$/],
+    aliases: ['fedex', 'federal express'],
+    trackingUrl: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+    international: false,
+  },
+};
+
+const DETECTION_ORDER = Object.keys(TRACKING_CARRIERS) as TrackingCarrier[];
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Strip the spaces and dashes people copy along with a tracking number
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+  return trackingNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Work out the carrier from a tracking number's format
+ *
+ * @returns The carrier, or null if the format isn't one we know
+ *
+ * @example
+ * detectCarrier('1Z999AA10123456784'); // 'ups'
+ * detectCarrier('LP00123456789012');   // 'cainiao'
+ */
+export function detectCarrier(trackingNumber: string): TrackingCarrier | null {
+  const number = normalizeTrackingNumber(trackingNumber);
+  return (
+    DETECTION_ORDER.find((carrier) =>
+      TRACKING_CARRIERS[carrier].patterns.some((pattern) => pattern.test(number))
+    ) ?? null
+  );
+}
+
+/**
+ * Read a carrier name as typed by staff or sent by a supplier
+ *
+ * @example
+ * parseCarrierName('AliExpress Standard Shipping'); // 'cainiao'
+ */
+export function parseCarrierName(name: string | null | undefined): TrackingCarrier | null {
+  const value = name?.trim().toLowerCase();
+  if (!value) return null;
+
+  return (
+    DETECTION_ORDER.find((carrier) =>
+      TRACKING_CARRIERS[carrier].aliases.some((alias) =>
+        alias.length <= 4 ? value.split(/[^a-z]+/).includes(alias) : value.includes(alias)
+      )
+    ) ?? null
+  );
+}
+
+/**
+ * The parcel's carrier: the named one if we know it, otherwise the one
+ * its tracking number belongs to
+ */
+export function resolveCarrier(
+  trackingNumber: string | null | undefined,
+  carrierName?: string | null
+): TrackingCarrier | null {
+  return parseCarrierName(carrierName) ?? (trackingNumber ? detectCarrier(trackingNumber) : null);
+}
+
+/**
+ * Tidy the tracking number and fill in the carrier and tracking link
+ * staff left blank
+ *
+ * A carrier name that was given is kept as typed.
+ */
+export function completeTrackingDetails(tracking: {
+  trackingNumber: string | null;
+  carrier?: string | null;
+  trackingUrl?: string | null;
+}): { trackingNumber: string | null; carrier: string | null; trackingUrl: string | null } {
+  const trackingNumber = tracking.trackingNumber?.trim() ? normalizeTrackingNumber(tracking.trackingNumber) : null;
+  const carrierName = tracking.carrier?.trim() || null;
+  const carrier = resolveCarrier(trackingNumber, carrierName);
+  const details = carrier ? TRACKING_CARRIERS[carrier] : null;
+
+  return {
+    trackingNumber,
+    carrier: carrierName ?? details?.label ?? null,
+    trackingUrl:
+      tracking.trackingUrl?.trim() ||
+      (details && trackingNumber ? details.trackingUrl(trackingNumber) : null),
+  };
+}
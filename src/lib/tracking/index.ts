@@ -0,0 +1,45 @@
+/**
+ * Parcel Tracking
+ *
+ * Carrier detection from tracking numbers, a pluggable tracking provider
+ * (polled by `cron.tracking-poll`, or pushing to `/api/webhooks/tracking`)
+ * and normalized carrier scans stored per shipment. Delivery scans mark
+ * parcels delivered and email the customer; parcels that stop moving are
+ * flagged for attention.
+ */
+
+export {
+  TRACKING_POLL_INTERVAL_HOURS,
+  ingestTrackingResults,
+  pollShipmentTracking,
+  findStalledShipments,
+  getShipmentTrackingEvents,
+} from './service';
+export type { TrackingUpdateResult, TrackingPollResult, StalledShipment } from './service';
+export { getTrackingProvider, setTrackingProvider } from './provider';
+export {
+  TRACKING_CARRIERS,
+  normalizeTrackingNumber,
+  detectCarrier,
+  parseCarrierName,
+  resolveCarrier,
+  completeTrackingDetails,
+} from './carriers';
+export type { CarrierDetails } from './carriers';
+export {
+  DOMESTIC_STALL_DAYS,
+  INTERNATIONAL_STALL_DAYS,
+  getTrackingFingerprint,
+  summarizeTracking,
+  getStallThresholdDays,
+  getStallReason,
+} from './timeline';
+export type { TrackingSummary, StallCheckShipment } from './timeline';
+export { SeventeenTrackProvider } from './seventeen-track';
+export type {
+  TrackingCarrier,
+  TrackingEventInput,
+  TrackingRequest,
+  TrackingResult,
+  TrackingProvider,
+} from './types';
@@ -0,0 +1,48 @@
+/**
+ * Tracking Provider Registry
+ *
+ * Picks the tracking backend from TRACKING_PROVIDER:
+ * - unset (default): no provider; polling is skipped and staff mark
+ *   parcels delivered by hand
+ * - `17track`: 17TRACK-compatible API (SEVENTEEN_TRACK_API_KEY,
+ *   SEVENTEEN_TRACK_API_URL)
+ *
+ * Tests inject the scripted fake from `./seventeen-track-fake` with
+ * `setTrackingProvider`; it is never picked from the environment, since its
+ * webhook signatures could be forged with a known key.
+ */
+
+import { SeventeenTrackProvider } from './seventeen-track';
+import type { TrackingProvider } from './types';
+
+let trackingProvider: TrackingProvider | null | undefined;
+
+/**
+ * Get the configured tracking provider, or null if tracking is off
+ */
+export function getTrackingProvider(): TrackingProvider | null {
+  if (trackingProvider !== undefined) {
+    return trackingProvider;
+  }
+
+  const provider = process.env.TRACKING_PROVIDER;
+
+  if (provider === '17track' && process.env.SEVENTEEN_TRACK_API_KEY) {
+    trackingProvider = new SeventeenTrackProvider({
+      apiKey: process.env.SEVENTEEN_TRACK_API_KEY,
+      baseUrl: process.env.SEVENTEEN_TRACK_API_URL,
+    });
+  } else {
+    trackingProvider = null;
+  }
+
+  return trackingProvider;
+}
+
+/**
+ * Override the tracking provider (tests)
+ * Pass `undefined` to go back to the environment-configured provider.
+ */
+export function setTrackingProvider(provider: TrackingProvider | null | undefined): void {
+  trackingProvider = provider;
+}
@@ -0,0 +1,356 @@
+/**
+ * Parcel Tracking Service
+ *
+ * Keeps shipments in step with their carriers. The `cron.tracking-poll`
+ * job asks the tracking provider about parcels that haven't been checked
+ * in `TRACKING_POLL_INTERVAL_HOURS`, and providers that push updates reach
+ * the same code through `/api/webhooks/tracking`. Scans are stored as
+ * `TrackingEvent`s; a supplier parcel the carrier has picked up is marked
+ * shipped, and a delivery scan marks the parcel delivered, which sends the
+ * delivery email once the whole order has arrived. Parcels that stop
+ * moving are reported by `findStalledShipments`.
+ */
+
+import { Prisma, ShipmentStatus, TrackingStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { deliverShipment, shipShipment } from '@/services/fulfillment/shipments';
+import { TRACKING_CARRIERS, normalizeTrackingNumber, resolveCarrier } from './carriers';
+import { getTrackingProvider } from './provider';
+import {
+  DOMESTIC_STALL_DAYS,
+  INTERNATIONAL_STALL_DAYS,
+  getStallReason,
+  getTrackingFingerprint,
+  summarizeTracking,
+} from './timeline';
+import type { TrackingProvider, TrackingRequest, TrackingResult } from './types';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What a batch of tracking results changed
+ */
+export interface TrackingUpdateResult {
+  /** Shipments the results matched */
+  shipments: number;
+  /** Scans not seen before */
+  newEvents: number;
+  /** Parcels marked shipped from a carrier scan */
+  shipped: number;
+  /** Parcels marked delivered from a carrier scan */
+  delivered: number;
+  /** Shipments whose update failed */
+  failed: number;
+}
+
+export interface TrackingPollResult extends TrackingUpdateResult {
+  /** Tracking numbers sent to the provider */
+  polled: number;
+  /** False when the run stopped at its deadline with parcels still due */
+  finished: boolean;
+}
+
+/**
+ * A shipped parcel that needs someone to look at it
+ */
+export interface StalledShipment {
+  id: string;
+  orderId: string;
+  dropshipOrderId: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingStatus: TrackingStatus | null;
+  shippedAt: Date | null;
+  lastEventAt: Date | null;
+  reason: string;
+}
+
+/**
+ * Hours between polls of the same parcel
+ */
+export const TRACKING_POLL_INTERVAL_HOURS = 6;
+
+/**
+ * Tracking numbers sent to the provider per request
+ */
+const POLL_BATCH_SIZE = 40;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================
+// INGESTION
+// ============================================
+
+/**
+ * Store a parcel's scans and move the shipment on if the carrier says so
+ */
+async function applyTrackingResult(
+  shipment: {
+    id: string;
+    status: ShipmentStatus;
+    carrier: string | null;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    estimatedDelivery: Date | null;
+  },
+  result: TrackingResult,
+  providerName: string,
+  totals: TrackingUpdateResult
+): Promise<void> {
+  const { count } = await prisma.trackingEvent.createMany({
+    data: result.events.map((event) => ({
+      shipmentId: shipment.id,
+      status: event.status,
+      description: event.description,
+      location: event.location,
+      occurredAt: event.occurredAt,
+      provider: providerName,
+      raw: event.raw === undefined ? undefined : (event.raw as Prisma.InputJsonValue),
+      fingerprint: getTrackingFingerprint(event),
+    })),
+    skipDuplicates: true,
+  });
+  totals.newEvents += count;
+
+  const summary = summarizeTracking(result.events, result.status);
+  const estimatedDelivery = shipment.estimatedDelivery ?? result.estimatedDelivery;
+
+  await prisma.shipment.update({
+    where: { id: shipment.id },
+    data: {
+      trackingStatus: summary.status ?? undefined,
+      lastEventAt: summary.lastEventAt ?? undefined,
+      lastTrackedAt: new Date(),
+      estimatedDelivery: estimatedDelivery ?? undefined,
+      carrier: shipment.carrier ?? (result.carrier ? TRACKING_CARRIERS[result.carrier].label : undefined),
+    },
+  });
+
+  let status = shipment.status;
+
+  // A supplier parcel counts as shipped once the carrier has it in hand
+  if (
+    status === ShipmentStatus.PENDING &&
+    summary.status &&
+    summary.status !== TrackingStatus.INFO_RECEIVED
+  ) {
+    const firstScan = result.events
+      .filter((event) => event.status !== TrackingStatus.INFO_RECEIVED)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())[0];
+
+    await shipShipment(
+      shipment.id,
+      {
+        trackingNumber: shipment.trackingNumber,
+        carrier: shipment.carrier ?? (result.carrier ? TRACKING_CARRIERS[result.carrier].label : null),
+        trackingUrl: shipment.trackingUrl,
+        estimatedDelivery,
+      },
+      { occurredAt: firstScan?.occurredAt }
+    );
+    status = ShipmentStatus.SHIPPED;
+    totals.shipped++;
+  }
+
+  if (status === ShipmentStatus.SHIPPED && summary.status === TrackingStatus.DELIVERED) {
+    await deliverShipment(shipment.id, { occurredAt: summary.deliveredAt ?? undefined });
+    totals.delivered++;
+  }
+}
+
+/**
+ * Apply tracking results, from a poll or a webhook, to the shipments
+ * carrying their numbers
+ *
+ * One shipment failing doesn't stop the rest; the failure is logged and
+ * counted.
+ */
+export async function ingestTrackingResults(
+  results: TrackingResult[],
+  providerName: string
+): Promise<TrackingUpdateResult> {
+  const totals: TrackingUpdateResult = { shipments: 0, newEvents: 0, shipped: 0, delivered: 0, failed: 0 };
+
+  for (const result of results) {
+    const shipments = await prisma.shipment.findMany({
+      where: {
+        trackingNumber: { equals: normalizeTrackingNumber(result.trackingNumber), mode: 'insensitive' },
+        status: { not: ShipmentStatus.CANCELLED },
+      },
+      select: {
+        id: true,
+        status: true,
+        carrier: true,
+        trackingNumber: true,
+        trackingUrl: true,
+        estimatedDelivery: true,
+      },
+    });
+
+    for (const shipment of shipments) {
+      totals.shipments++;
+      try {
+        await applyTrackingResult(shipment, result, providerName, totals);
+      } catch (error) {
+        totals.failed++;
+        logger.error('Tracking update failed', error as Error, {
+          shipmentId: shipment.id,
+          trackingNumber: result.trackingNumber,
+        });
+      }
+    }
+  }
+
+  return totals;
+}
+
+// ============================================
+// POLLING
+// ============================================
+
+/**
+ * Ask the tracking provider about parcels due a check
+ *
+ * Covers shipped parcels and pending supplier parcels that already have a
+ * tracking number, least recently checked first, in batches until none
+ * are due or the deadline passes. Parcels the provider has nothing on yet
+ * wait for the next interval like the rest.
+ *
+ * @param deadline - Stop starting batches after this
+ * @param provider - Tracking backend (defaults to the configured one)
+ * @throws Error if the provider request fails, so the job retries
+ */
+export async function pollShipmentTracking(
+  deadline: Date,
+  provider: TrackingProvider | null = getTrackingProvider()
+): Promise<TrackingPollResult | { skipped: string }> {
+  if (!provider) {
+    return { skipped: 'No tracking provider configured' };
+  }
+
+  const result: TrackingPollResult = {
+    polled: 0,
+    shipments: 0,
+    newEvents: 0,
+    shipped: 0,
+    delivered: 0,
+    failed: 0,
+    finished: false,
+  };
+
+  while (Date.now() < deadline.getTime()) {
+    const due = await prisma.shipment.findMany({
+      where: {
+        trackingNumber: { not: null },
+        status: { in: [ShipmentStatus.PENDING, ShipmentStatus.SHIPPED] },
+        OR: [
+          { lastTrackedAt: null },
+          { lastTrackedAt: { lt: new Date(Date.now() - TRACKING_POLL_INTERVAL_HOURS * HOUR_MS) } },
+        ],
+      },
+      select: { id: true, trackingNumber: true, carrier: true },
+      orderBy: { lastTrackedAt: { sort: 'asc', nulls: 'first' } },
+      take: POLL_BATCH_SIZE,
+    });
+
+    if (due.length === 0) {
+      result.finished = true;
+      break;
+    }
+
+    const requests = new Map<string, TrackingRequest>();
+    for (const shipment of due) {
+      const trackingNumber = normalizeTrackingNumber(shipment.trackingNumber!);
+      requests.set(trackingNumber, {
+        trackingNumber,
+        carrier: resolveCarrier(trackingNumber, shipment.carrier),
+      });
+    }
+
+    const results = await provider.track([...requests.values()]);
+    const totals = await ingestTrackingResults(results, provider.name);
+
+    result.polled += requests.size;
+    result.shipments += totals.shipments;
+    result.newEvents += totals.newEvents;
+    result.shipped += totals.shipped;
+    result.delivered += totals.delivered;
+    result.failed += totals.failed;
+
+    // Checked, whether or not the provider had anything yet
+    await prisma.shipment.updateMany({
+      where: { id: { in: due.map((shipment) => shipment.id) } },
+      data: { lastTrackedAt: new Date() },
+    });
+  }
+
+  logger.info('Shipment tracking polled', { provider: provider.name, ...result });
+
+  return result;
+}
+
+// ============================================
+// STALLED PARCELS
+// ============================================
+
+/**
+ * Find shipped parcels that need attention: the carrier reported a
+ * problem, or they've gone too long without a scan for their carrier
+ */
+export async function findStalledShipments(now: Date = new Date()): Promise<StalledShipment[]> {
+  const quietSince = new Date(now.getTime() - Math.min(DOMESTIC_STALL_DAYS, INTERNATIONAL_STALL_DAYS) * DAY_MS);
+
+  const candidates = await prisma.shipment.findMany({
+    where: {
+      status: ShipmentStatus.SHIPPED,
+      OR: [
+        {
+          trackingStatus: {
+            in: [TrackingStatus.FAILED_ATTEMPT, TrackingStatus.EXCEPTION, TrackingStatus.RETURNED],
+          },
+        },
+        { lastEventAt: { lt: quietSince } },
+        { lastEventAt: null, shippedAt: { lt: quietSince } },
+      ],
+    },
+    select: {
+      id: true,
+      orderId: true,
+      dropshipOrderId: true,
+      carrier: true,
+      trackingNumber: true,
+      trackingStatus: true,
+      shippedAt: true,
+      lastEventAt: true,
+    },
+    orderBy: { shippedAt: 'asc' },
+  });
+
+  const stalled: StalledShipment[] = [];
+  for (const shipment of candidates) {
+    const reason = getStallReason(
+      { ...shipment, carrier: resolveCarrier(shipment.trackingNumber, shipment.carrier) },
+      now
+    );
+    if (reason) {
+      stalled.push({ ...shipment, reason });
+    }
+  }
+
+  return stalled;
+}
+
+/**
+ * Get a parcel's carrier scans, newest first
+ */
+export async function getShipmentTrackingEvents(shipmentId: string) {
+  return prisma.trackingEvent.findMany({
+    where: { shipmentId },
+    select: { id: true, status: true, description: true, location: true, occurredAt: true },
+    orderBy: { occurredAt: 'desc' },
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Local 17TRACK Fake
+ *
+ * A `fetch`-compatible handler that answers 17TRACK's register and
+ * gettrackinfo calls from scripted journeys, so tracking polls, delivery
+ * detection and stall alerts run in tests without an API key. Test-only:
+ * inject it with `setTrackingProvider`. A parcel's scans appear as time
+ * passes after it is registered:
+ * - USPS, UPS and FedEx numbers follow a three-day domestic journey
+ * - China Post, Cainiao and YunExpress numbers follow a two-week journey
+ *   from Shenzhen
+ * - numbers ending in `0000` go quiet after export, and numbers ending in
+ *   `9999` are held at customs, for trying out stall alerts
+ *
+ * @example
+ * const provider = new SeventeenTrackProvider({
+ *   apiKey: 'test',
+ *   baseUrl: 'http://17track.local',
+ *   fetch: createSeventeenTrackFake(),
+ * });
+ */
+
+import { detectCarrier, TRACKING_CARRIERS } from './carriers';
+import {
+  SEVENTEEN_TRACK_CARRIER_CODES,
+  SEVENTEEN_TRACK_NOT_REGISTERED,
+} from './seventeen-track';
+import type {
+  SeventeenTrackEvent,
+  SeventeenTrackInfo,
+  SeventeenTrackNumber,
+  SeventeenTrackResponse,
+} from './seventeen-track';
+
+// ============================================
+// JOURNEYS
+// ============================================
+
+/**
+ * A scripted scan, `afterHours` after the parcel is registered
+ */
+export interface FakeTrackingScan {
+  afterHours: number;
+  stage: string;
+  description: string;
+  location: string | null;
+}
+
+const DOMESTIC_JOURNEY: FakeTrackingScan[] = [
+  { afterHours: 0, stage: 'InfoReceived', description: 'Shipping label created', location: 'San Francisco, CA' },
+  { afterHours: 6, stage: 'PickedUp', description: 'Picked up by carrier', location: 'San Francisco, CA' },
+  { afterHours: 20, stage: 'Departure', description: 'Departed sort facility', location: 'Oakland, CA' },
+  { afterHours: 48, stage: 'Arrival', description: 'Arrived at local facility', location: 'Destination city' },
+  { afterHours: 64, stage: 'OutForDelivery', description: 'Out for delivery', location: 'Destination city' },
+  { afterHours: 70, stage: 'Delivered', description: 'Delivered, front door', location: 'Destination city' },
+];
+
+const INTERNATIONAL_JOURNEY: FakeTrackingScan[] = [
+  { afterHours: 0, stage: 'InfoReceived', description: 'Order information received', location: 'Shenzhen, CN' },
+  { afterHours: 24, stage: 'PickedUp', description: 'Parcel collected from seller', location: 'Shenzhen, CN' },
+  { afterHours: 60, stage: 'Departure', description: 'Departed export hub', location: 'Guangzhou, CN' },
+  { afterHours: 150, stage: 'Arrival', description: 'Arrived in destination country', location: 'Los Angeles, US' },
+  { afterHours: 190, stage: 'Arrival', description: 'Released by customs', location: 'Los Angeles, US' },
+  { afterHours: 280, stage: 'OutForDelivery', description: 'Out for delivery', location: 'Destination city' },
+  { afterHours: 290, stage: 'Delivered', description: 'Delivered', location: 'Destination city' },
+];
+
+const CUSTOMS_HOLD: FakeTrackingScan = {
+  afterHours: 170,
+  stage: 'Exception',
+  description: 'Held by customs, awaiting documents',
+  location: 'Los Angeles, US',
+};
+
+/**
+ * The journey a parcel follows
+ */
+function getJourney(number: string, scripts: Record<string, FakeTrackingScan[]>): FakeTrackingScan[] {
+  if (scripts[number]) {
+    return scripts[number];
+  }
+
+  const carrier = detectCarrier(number);
+  const journey = carrier && TRACKING_CARRIERS[carrier].international === false
+    ? DOMESTIC_JOURNEY
+    : INTERNATIONAL_JOURNEY;
+
+  if (number.endsWith('0000')) {
+    return journey.slice(0, 3);
+  }
+  if (number.endsWith('9999')) {
+    return [...INTERNATIONAL_JOURNEY.slice(0, 4), CUSTOMS_HOLD];
+  }
+  return journey;
+}
+
+// ============================================
+// FAKE
+// ============================================
+
+/**
+ * Fake options
+ */
+export interface SeventeenTrackFakeOptions {
+  /** Clock for scan times; defaults to the real one */
+  now?: () => Date;
+  /** Journeys for particular numbers, replacing the scripted ones */
+  scripts?: Record<string, FakeTrackingScan[]>;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Build the tracking info for a parcel at a point in time
+ */
+function trackInfo(journey: FakeTrackingScan[], registeredAt: Date, now: Date): SeventeenTrackInfo {
+  const events: SeventeenTrackEvent[] = journey
+    .map((scan) => ({ scan, at: new Date(registeredAt.getTime() + scan.afterHours * 60 * 60 * 1000) }))
+    .filter(({ at }) => at <= now)
+    .reverse()
+    .map(({ scan, at }) => ({
+      time_iso: at.toISOString(),
+      time_utc: at.toISOString(),
+      description: scan.description,
+      location: scan.location,
+      stage: scan.stage,
+    }));
+
+  return {
+    latest_status: { status: events[0]?.stage ?? 'NotFound' },
+    tracking: { providers: [{ provider: { key: 0, name: 'Fake carrier' }, events }] },
+  };
+}
+
+/**
+ * Create a fetch implementation that serves 17TRACK-shaped tracking
+ * responses
+ */
+export function createSeventeenTrackFake(options: SeventeenTrackFakeOptions = {}): typeof fetch {
+  const now = options.now ?? (() => new Date());
+  const scripts = options.scripts ?? {};
+  const registered = new Map<string, Date>();
+
+  return (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (!new Headers(init?.headers).get('17token')) {
+      return jsonResponse(401, { code: 401, data: { errors: [{ message: 'Token required' }] } });
+    }
+
+    const numbers = JSON.parse(String(init?.body || '[]')) as SeventeenTrackNumber[];
+    const response: SeventeenTrackResponse = { code: 0, data: { accepted: [], rejected: [] } };
+
+    if (url.endsWith('/track/v2.2/register')) {
+      for (const { number, carrier } of numbers) {
+        if (!registered.has(number)) {
+          registered.set(number, now());
+        }
+        const detected = detectCarrier(number);
+        response.data.accepted.push({
+          number,
+          carrier: carrier ?? (detected ? SEVENTEEN_TRACK_CARRIER_CODES[detected] : 0),
+        });
+      }
+      return jsonResponse(200, response);
+    }
+
+    if (url.endsWith('/track/v2.2/gettrackinfo')) {
+      for (const { number, carrier } of numbers) {
+        const registeredAt = registered.get(number);
+        if (!registeredAt) {
+          response.data.rejected.push({
+            number,
+            error: { code: SEVENTEEN_TRACK_NOT_REGISTERED, message: 'The tracking number is not registered' },
+          });
+          continue;
+        }
+
+        const detected = detectCarrier(number);
+        response.data.accepted.push({
+          number,
+          carrier: carrier ?? (detected ? SEVENTEEN_TRACK_CARRIER_CODES[detected] : 0),
+          track_info: trackInfo(getJourney(number, scripts), registeredAt, now()),
+        });
+      }
+      return jsonResponse(200, response);
+    }
+
+    return jsonResponse(404, { code: 404, data: { errors: [{ message: `No fake route for ${url}` }] } });
+  }) as typeof fetch;
+}
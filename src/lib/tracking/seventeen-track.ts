@@ -0,0 +1,294 @@
+/**
+ * 17TRACK-compatible Tracking Provider
+ *
+ * Tracks USPS, UPS, FedEx and the Chinese carriers our suppliers use
+ * through any service exposing 17TRACK's v2.2 API (17TRACK itself, or the
+ * test fake in `./seventeen-track-fake`). Configure with
+ * SEVENTEEN_TRACK_API_KEY and SEVENTEEN_TRACK_API_URL.
+ *
+ * @see https://api.17track.net/en/doc
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { TrackingStatus } from '@prisma/client';
+import type {
+  TrackingCarrier,
+  TrackingEventInput,
+  TrackingProvider,
+  TrackingRequest,
+  TrackingResult,
+} from './types';
+
+// ============================================
+// 17TRACK WIRE TYPES
+// ============================================
+
+/**
+ * A number in a register or gettrackinfo request body
+ */
+export interface SeventeenTrackNumber {
+  number: string;
+  carrier?: number;
+}
+
+export interface SeventeenTrackEvent {
+  time_iso: string | null;
+  time_utc?: string | null;
+  description: string;
+  location: string | null;
+  stage: string | null;
+  sub_status?: string | null;
+}
+
+export interface SeventeenTrackInfo {
+  latest_status: { status: string; sub_status?: string | null };
+  time_metrics?: {
+    estimated_delivery_date?: { from: string | null; to: string | null } | null;
+  } | null;
+  tracking: {
+    providers: Array<{
+      provider?: { key: number; name: string | null };
+      events: SeventeenTrackEvent[];
+    }>;
+  };
+}
+
+/**
+ * Response body for POST /track/v2.2/register and /gettrackinfo (fields we use)
+ */
+export interface SeventeenTrackResponse {
+  code: number;
+  data: {
+    accepted: Array<{ number: string; carrier: number; track_info?: SeventeenTrackInfo }>;
+    rejected: Array<{ number: string; error: { code: number; message: string } }>;
+  };
+}
+
+/**
+ * Body of a webhook push
+ */
+export interface SeventeenTrackWebhook {
+  event: string;
+  data: { number: string; carrier: number; track_info?: SeventeenTrackInfo };
+}
+
+/**
+ * 17TRACK adapter options
+ */
+export interface SeventeenTrackProviderOptions {
+  apiKey: string;
+  /** Base URL, e.g. https://api.17track.net */
+  baseUrl?: string;
+  /** Injectable fetch for tests and the local fake */
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+/**
+ * 17TRACK carrier codes
+ */
+export const SEVENTEEN_TRACK_CARRIER_CODES: Record<TrackingCarrier, number> = {
+  usps: 21051,
+  ups: 100002,
+  fedex: 100003,
+  'china-post': 3011,
+  cainiao: 190271,
+  yunexpress: 190008,
+};
+
+/**
+ * Error code 17TRACK rejects numbers with before they are registered
+ */
+export const SEVENTEEN_TRACK_NOT_REGISTERED = -18019902;
+
+/**
+ * 17TRACK event stages and statuses in our terms. `NotFound` and
+ * `Expired` carry no scan, so they are left out.
+ */
+const STATUS_MAP: Record<string, TrackingStatus> = {
+  InfoReceived: 'INFO_RECEIVED',
+  PickedUp: 'IN_TRANSIT',
+  Departure: 'IN_TRANSIT',
+  Arrival: 'IN_TRANSIT',
+  InTransit: 'IN_TRANSIT',
+  OutForDelivery: 'OUT_FOR_DELIVERY',
+  AvailableForPickup: 'AVAILABLE_FOR_PICKUP',
+  Delivered: 'DELIVERED',
+  DeliveryFailure: 'FAILED_ATTEMPT',
+  Exception: 'EXCEPTION',
+  Returning: 'RETURNED',
+  Returned: 'RETURNED',
+};
+
+function toCarrier(code: number | undefined): TrackingCarrier | null {
+  const entry = Object.entries(SEVENTEEN_TRACK_CARRIER_CODES).find(([, value]) => value === code);
+  return (entry?.[0] as TrackingCarrier | undefined) ?? null;
+}
+
+/**
+ * Read a 17TRACK status or stage; sub-statuses such as
+ * `Exception_Returning` are read by their prefix
+ */
+function toStatus(value: string | null | undefined): TrackingStatus | null {
+  if (!value) return null;
+  return STATUS_MAP[value] ?? STATUS_MAP[value.split('_')[0]] ?? null;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Convert 17TRACK tracking info into a tracking result
+ *
+ * Scans without a time are dropped; scans without a stage take their
+ * status from the sub-status, or count as in transit.
+ */
+export function fromSeventeenTrackInfo(
+  number: string,
+  carrierCode: number | undefined,
+  info: SeventeenTrackInfo | undefined
+): TrackingResult {
+  const events: TrackingEventInput[] = [];
+
+  for (const provider of info?.tracking.providers ?? []) {
+    for (const event of provider.events) {
+      const occurredAt = toDate(event.time_utc) ?? toDate(event.time_iso);
+      if (!occurredAt) continue;
+
+      events.push({
+        status: toStatus(event.stage) ?? toStatus(event.sub_status) ?? 'IN_TRANSIT',
+        description: event.description,
+        location: event.location || null,
+        occurredAt,
+        raw: event,
+      });
+    }
+  }
+
+  const estimate = info?.time_metrics?.estimated_delivery_date;
+
+  return {
+    trackingNumber: number,
+    carrier: toCarrier(carrierCode),
+    status: toStatus(info?.latest_status.status),
+    estimatedDelivery: toDate(estimate?.to) ?? toDate(estimate?.from),
+    events,
+  };
+}
+
+/**
+ * Signature 17TRACK sends with a webhook: SHA-256 of the body and the key
+ */
+export function signSeventeenTrackWebhook(body: string, apiKey: string): string {
+  return createHash('sha256').update(`${body}/${apiKey}`).digest('hex');
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+/**
+ * Tracking provider backed by a 17TRACK-compatible HTTP API
+ */
+export class SeventeenTrackProvider implements TrackingProvider {
+  readonly name = '17track';
+
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: SeventeenTrackProviderOptions) {
+    this.baseUrl = (options.baseUrl || 'https://api.17track.net').replace(/\/$/, '');
+    this.fetchImpl = options.fetch || fetch;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+  }
+
+  /**
+   * Look up parcels; numbers 17TRACK hasn't seen are registered so the
+   * next poll finds them
+   */
+  async track(requests: TrackingRequest[]): Promise<TrackingResult[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const numbers = requests.map((request) => this.toNumber(request));
+    const response = await this.post('/track/v2.2/gettrackinfo', numbers);
+
+    const unregistered = new Set(
+      response.data.rejected
+        .filter((rejection) => rejection.error.code === SEVENTEEN_TRACK_NOT_REGISTERED)
+        .map((rejection) => rejection.number)
+    );
+    if (unregistered.size > 0) {
+      await this.post(
+        '/track/v2.2/register',
+        numbers.filter((number) => unregistered.has(number.number))
+      );
+    }
+
+    return response.data.accepted.map((accepted) =>
+      fromSeventeenTrackInfo(accepted.number, accepted.carrier, accepted.track_info)
+    );
+  }
+
+  parseWebhook(body: string, headers: Headers): TrackingResult[] {
+    const signature = headers.get('sign') || '';
+    const expected = signSeventeenTrackWebhook(body, this.options.apiKey);
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error('Invalid 17TRACK webhook signature');
+    }
+
+    const payload = JSON.parse(body) as SeventeenTrackWebhook;
+    if (payload.event !== 'TRACKING_UPDATED' || !payload.data?.number) {
+      return [];
+    }
+    return [fromSeventeenTrackInfo(payload.data.number, payload.data.carrier, payload.data.track_info)];
+  }
+
+  private toNumber(request: TrackingRequest): SeventeenTrackNumber {
+    return request.carrier
+      ? { number: request.trackingNumber, carrier: SEVENTEEN_TRACK_CARRIER_CODES[request.carrier] }
+      : { number: request.trackingNumber };
+  }
+
+  private async post(path: string, numbers: SeventeenTrackNumber[]): Promise<SeventeenTrackResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          '17token': this.options.apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(numbers),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`17TRACK request failed (${response.status}): ${detail}`);
+      }
+
+      const body = (await response.json()) as SeventeenTrackResponse;
+      if (body.code !== 0) {
+        throw new Error(`17TRACK request failed (code ${body.code})`);
+      }
+      return body;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
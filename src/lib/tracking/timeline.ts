@@ -0,0 +1,148 @@
+/**
+ * Tracking Timeline
+ *
+ * Reads a parcel's carrier scans: a stable fingerprint per scan so
+ * repeated provider reports are stored once, the parcel's latest status,
+ * and whether it has stalled in transit. Pure, so the rules can be tested
+ * without a database.
+ */
+
+import { createHash } from 'crypto';
+import type { TrackingStatus } from '@prisma/client';
+import { TRACKING_CARRIERS } from './carriers';
+import type { TrackingCarrier, TrackingEventInput } from './types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Days without a scan before a domestic parcel counts as stalled
+ */
+export const DOMESTIC_STALL_DAYS = 5;
+
+/**
+ * Days without a scan before an international parcel counts as stalled;
+ * parcels from China often go quiet between export and import scans
+ */
+export const INTERNATIONAL_STALL_DAYS = 10;
+
+/**
+ * Statuses that need someone to step in, however recent
+ */
+const PROBLEM_STATUSES: Partial<Record<TrackingStatus, string>> = {
+  FAILED_ATTEMPT: 'Delivery attempt failed',
+  EXCEPTION: 'Carrier reported a problem',
+  RETURNED: 'Returning to sender',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Identify a scan by its time, status and wording, so the same scan
+ * reported by a poll and a webhook is stored once
+ */
+export function getTrackingFingerprint(event: TrackingEventInput): string {
+  return createHash('sha256')
+    .update(`${event.occurredAt.toISOString()}|${event.status}|${event.description.trim().toLowerCase()}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Where a parcel stands according to its scans
+ */
+export interface TrackingSummary {
+  status: TrackingStatus | null;
+  lastEventAt: Date | null;
+  /** Time of the delivery scan, if delivered */
+  deliveredAt: Date | null;
+}
+
+/**
+ * Work out a parcel's latest status from its scans
+ *
+ * The latest scan wins; a provider status passed in is preferred, since
+ * providers sometimes know more than the scans they pass on.
+ */
+export function summarizeTracking(
+  events: TrackingEventInput[],
+  providerStatus: TrackingStatus | null = null
+): TrackingSummary {
+  const sorted = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  const latest = sorted[sorted.length - 1];
+  const status = providerStatus ?? latest?.status ?? null;
+  const delivery = [...sorted].reverse().find((event) => event.status === 'DELIVERED');
+
+  return {
+    status,
+    lastEventAt: latest?.occurredAt ?? null,
+    deliveredAt: status === 'DELIVERED' ? delivery?.occurredAt ?? latest?.occurredAt ?? null : null,
+  };
+}
+
+// ============================================
+// STALLED PARCELS
+// ============================================
+
+/**
+ * A shipped parcel as stall detection sees it
+ */
+export interface StallCheckShipment {
+  carrier: TrackingCarrier | null;
+  trackingStatus: TrackingStatus | null;
+  shippedAt: Date | null;
+  lastEventAt: Date | null;
+}
+
+/**
+ * Days a parcel may go without a scan before it counts as stalled
+ *
+ * Unknown carriers get the longer international allowance; most of our
+ * unrecognised numbers come from overseas suppliers.
+ */
+export function getStallThresholdDays(carrier: TrackingCarrier | null): number {
+  return carrier && !TRACKING_CARRIERS[carrier].international ? DOMESTIC_STALL_DAYS : INTERNATIONAL_STALL_DAYS;
+}
+
+/**
+ * Say why a shipped parcel needs attention, if it does
+ *
+ * A parcel needs attention when the carrier reports a problem, or when it
+ * has gone too long without a scan (counting from when it shipped if it
+ * has never been scanned).
+ *
+ * @returns The reason, or null if the parcel is moving
+ *
+ * @example
+ * getStallReason({ carrier: 'usps', trackingStatus: 'IN_TRANSIT', shippedAt, lastEventAt }, now);
+ * // 'No carrier scan in 6 days'
+ */
+export function getStallReason(shipment: StallCheckShipment, now: Date = new Date()): string | null {
+  if (shipment.trackingStatus === 'DELIVERED') {
+    return null;
+  }
+
+  const problem = shipment.trackingStatus ? PROBLEM_STATUSES[shipment.trackingStatus] : undefined;
+  if (problem) {
+    return problem;
+  }
+
+  const since = shipment.lastEventAt ?? shipment.shippedAt;
+  if (!since) {
+    return null;
+  }
+
+  const quietDays = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+  if (quietDays < getStallThresholdDays(shipment.carrier)) {
+    return null;
+  }
+
+  return shipment.lastEventAt
+    ? `No carrier scan in ${quietDays} days`
+    : `No carrier scan since shipping ${quietDays} days ago`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Parcel Tracking Types
+ *
+ * Shared types for carrier detection, tracking providers and the stored
+ * tracking events.
+ */
+
+import type { TrackingStatus } from '@prisma/client';
+
+/**
+ * Carriers we can recognise from a tracking number
+ */
+export type TrackingCarrier = 'usps' | 'ups' | 'fedex' | 'china-post' | 'cainiao' | 'yunexpress';
+
+/**
+ * A carrier scan, normalized across carriers and providers
+ */
+export interface TrackingEventInput {
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+  occurredAt: Date;
+  /** The provider's original event, kept for support */
+  raw?: unknown;
+}
+
+/**
+ * A parcel to look up
+ */
+export interface TrackingRequest {
+  trackingNumber: string;
+  /** Null lets the provider work the carrier out */
+  carrier: TrackingCarrier | null;
+}
+
+/**
+ * What the provider knows about a parcel
+ */
+export interface TrackingResult {
+  trackingNumber: string;
+  carrier: TrackingCarrier | null;
+  /** Latest status; null until the carrier has scanned the parcel */
+  status: TrackingStatus | null;
+  estimatedDelivery: Date | null;
+  /** Every scan so far, in any order */
+  events: TrackingEventInput[];
+}
+
+/**
+ * A tracking backend: polled for updates, and optionally pushing them
+ * to `/api/webhooks/tracking`
+ */
+export interface TrackingProvider {
+  readonly name: string;
+  /**
+   * Look up parcels. Numbers the provider doesn't know yet may be left out
+   * of the result and picked up on a later poll.
+   */
+  track(requests: TrackingRequest[]): Promise<TrackingResult[]>;
+  /**
+   * Verify and read a webhook delivery
+   *
+   * @throws Error if the signature doesn't match
+   */
+  parseWebhook(body: string, headers: Headers): TrackingResult[];
+}
@@ -7,6 +7,7 @@ import type { NextRequest } from 'next/server';
  *
  * Protects routes based on authentication and authorization requirements:
  * - /account/* (authenticated users only)
+ * - /admin/support, /admin/returns (staff or admin users)
  * - /admin/* (admin users only)
  * - /checkout/* (authenticated users only)
  * - /registry/create (authenticated users only)
@@ -23,10 +24,12 @@ import type { NextRequest } from 'next/server';
 
 /**
  * Routes that require authentication
+ *
+ * Checkout isn't one: guests check out with their cart session and an email
+ * address, and can claim the order with an account afterwards.
  */
 const PROTECTED_ROUTES = [
   '/account',
-  '/checkout',
   '/orders',
   '/wishlist',
   '/registry/create',
@@ -40,11 +43,12 @@ const ADMIN_ROUTES = [
 ];
 
 /**
- * Routes that require staff or admin role
+ * Routes that require staff or admin role; everything else under /admin
+ * stays admin-only
  */
 const STAFF_ROUTES = [
-  '/admin/orders',
-  '/admin/products',
+  '/admin/support',
+  '/admin/returns',
 ];
 
 /**
@@ -168,14 +172,15 @@ export default withAuth(
       return applyCacheHeaders(response, CACHE_CONFIG.private);
     }
 
-    // Handle admin routes
-    if (isAdminRoute(pathname)) {
+    // Handle staff routes (checked first: they are nested under /admin)
+    if (isStaffRoute(pathname)) {
       if (!isAuthenticated) {
         const redirectUrl = getAuthRedirectUrl(pathname);
         return NextResponse.redirect(new URL(redirectUrl, nextUrl));
       }
 
-      if (token?.role !== 'ADMIN') {
+      const userRole = token?.role;
+      if (userRole !== 'STAFF' && userRole !== 'ADMIN') {
         const redirectUrl = getUnauthorizedRedirectUrl(pathname);
         return NextResponse.redirect(new URL(redirectUrl, nextUrl));
       }
@@ -184,15 +189,14 @@ export default withAuth(
       return applyCacheHeaders(response, CACHE_CONFIG.noStore);
     }
 
-    // Handle staff routes
-    if (isStaffRoute(pathname)) {
+    // Handle admin routes
+    if (isAdminRoute(pathname)) {
       if (!isAuthenticated) {
         const redirectUrl = getAuthRedirectUrl(pathname);
         return NextResponse.redirect(new URL(redirectUrl, nextUrl));
       }
 
-      const userRole = token?.role;
-      if (userRole !== 'STAFF' && userRole !== 'ADMIN') {
+      if (token?.role !== 'ADMIN') {
         const redirectUrl = getUnauthorizedRedirectUrl(pathname);
         return NextResponse.redirect(new URL(redirectUrl, nextUrl));
       }
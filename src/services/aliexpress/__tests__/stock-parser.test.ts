@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for the Stock Snapshot Parser
+ * Runs against recorded product pages in ./fixtures
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { parseStockSnapshot } from '../stock-parser';
+
+function fixture(productId: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', `${productId}.html`), 'utf8');
+}
+
+describe('parseStockSnapshot', () => {
+  it('reads per-SKU stock from a nested skuMap', () => {
+    const snapshot = parseStockSnapshot(fixture('1005006100000001'));
+
+    expect(snapshot.productRemoved).toBe(false);
+    expect(snapshot.available).toBe(true);
+    expect(snapshot.stock).toBe(124);
+    expect(snapshot.variants.map((v) => [v.skuId, v.stock])).toEqual([
+      ['12000036000000001', 120],
+      ['12000036000000002', 4],
+      ['12000036000000003', 0],
+    ]);
+  });
+
+  it('reads a variants array and ignores a hidden sold-out banner', () => {
+    const snapshot = parseStockSnapshot(fixture('1005006100000004'));
+
+    expect(snapshot.available).toBe(true);
+    expect(snapshot.stock).toBe(56);
+    expect(snapshot.variants).toHaveLength(2);
+    expect(snapshot.variants[1]).toMatchObject({ name: 'Pink', stock: 16 });
+  });
+
+  it('detects a removed listing', () => {
+    const snapshot = parseStockSnapshot(fixture('1005006100000002'));
+
+    expect(snapshot).toEqual({ productRemoved: true, available: false, stock: 0, variants: [] });
+  });
+
+  it('detects a sold-out product without variants', () => {
+    const snapshot = parseStockSnapshot(fixture('1005006100000003'));
+
+    expect(snapshot.productRemoved).toBe(false);
+    expect(snapshot.available).toBe(false);
+    expect(snapshot.stock).toBe(0);
+    expect(snapshot.variants).toEqual([]);
+  });
+});
@@ -38,6 +38,22 @@ export {
   type StockAction,
 } from './stock-validator';
 
+// ============================================
+// STOCK SNAPSHOTS
+// ============================================
+
+export {
+  parseStockSnapshot,
+  type SupplierStockSnapshot,
+} from './stock-parser';
+
+export {
+  ScraperPageSource,
+  FixturePageSource,
+  createSupplierPageSource,
+  type SupplierPageSource,
+} from './page-source';
+
 // ============================================
 // IMAGE DOWNLOADER SERVICE
 // ============================================
@@ -0,0 +1,73 @@
+/**
+ * Supplier Page Sources
+ * Where scheduled jobs get AliExpress product page HTML from
+ *
+ * Jobs take a `SupplierPageSource` so they can run against live pages
+ * (through the scraper, one request at a time) or against recorded pages
+ * on disk for offline tests and staging.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { AliExpressScraper, type ScraperConfig } from './scraper';
+import { extractProductIdFromUrl, RequestQueue } from './utils';
+
+/**
+ * Supplies product page HTML by URL
+ */
+export interface SupplierPageSource {
+  /** Fetch a product page's HTML */
+  fetchHtml(url: string): Promise<string>;
+  /** Release any resources (browsers, handles) */
+  close(): Promise<void>;
+}
+
+/**
+ * Live product pages, fetched through the scraper's browser
+ * Requests are queued so a job never hits AliExpress more often than
+ * `minIntervalMs`
+ */
+export class ScraperPageSource implements SupplierPageSource {
+  private scraper: AliExpressScraper;
+  private queue: RequestQueue;
+
+  constructor(minIntervalMs: number = 5000, config?: ScraperConfig) {
+    this.scraper = new AliExpressScraper(config);
+    this.queue = new RequestQueue(minIntervalMs);
+  }
+
+  fetchHtml(url: string): Promise<string> {
+    return this.queue.add(() => this.scraper.fetchPageHtml(url));
+  }
+
+  async close(): Promise<void> {
+    await this.scraper.close();
+  }
+}
+
+/**
+ * Recorded product pages, read from `<directory>/<productId>.html`
+ */
+export class FixturePageSource implements SupplierPageSource {
+  constructor(private directory: string) {}
+
+  async fetchHtml(url: string): Promise<string> {
+    const productId = extractProductIdFromUrl(url);
+    if (!productId) {
+      throw new Error('Could not extract product ID from URL');
+    }
+    return readFile(path.join(this.directory, `${productId}.html`), 'utf8');
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Page source for scheduled jobs: recorded pages when
+ * `ALIEXPRESS_FIXTURES_DIR` is set (staging, offline runs), live pages
+ * otherwise
+ */
+export function createSupplierPageSource(): SupplierPageSource {
+  const fixturesDir = process.env.ALIEXPRESS_FIXTURES_DIR;
+  return fixturesDir ? new FixturePageSource(fixturesDir) : new ScraperPageSource();
+}
@@ -231,6 +231,38 @@ export class AliExpressScraper {
     }
   }
 
+  /**
+   * Fetch a product page's rendered HTML without extracting anything
+   * Used by jobs that parse the page themselves (see `parseStockSnapshot`)
+   * @param url - AliExpress product URL
+   * @returns The page HTML
+   */
+  async fetchPageHtml(url: string): Promise<string> {
+    const normalizedUrl = isValidAliExpressUrl(url) ? normalizeAliExpressUrl(url) : null;
+    if (!normalizedUrl) {
+      throw new Error('Invalid AliExpress product URL');
+    }
+
+    await this.rateLimiter.waitForNextRequest();
+    await this.initBrowser();
+
+    const page = await this.context!.newPage();
+
+    try {
+      return await retryWithBackoff(
+        async () => {
+          await this.navigateToProduct(page, normalizedUrl);
+          await this.waitForContent(page);
+          return page.content();
+        },
+        this.config.maxRetries,
+        2000
+      );
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
   /**
    * Navigate to product page with error handling
    */
@@ -0,0 +1,190 @@
+/**
+ * Stock Snapshot Parser
+ * Reads stock availability out of an AliExpress product page's HTML
+ *
+ * Works on the raw page (see `AliExpressScraper.fetchPageHtml`) rather than
+ * a live browser page, so recorded pages can be replayed offline.
+ */
+
+import * as cheerio from 'cheerio';
+import type { AliExpressVariant } from '@/types/dropshipping';
+
+/**
+ * Stock availability parsed from a product page
+ */
+export interface SupplierStockSnapshot {
+  /** Whether the listing has been taken down */
+  productRemoved: boolean;
+  /** Whether the product can be bought at all */
+  available: boolean;
+  /** Product-level stock, when the page shows one */
+  stock?: number;
+  /** Per-SKU stock; empty for products without variants */
+  variants: AliExpressVariant[];
+}
+
+/**
+ * Text AliExpress shows in place of a listing that no longer exists
+ */
+const REMOVED_PATTERNS = [
+  /this (?:item|product) is no longer available/i,
+  /sorry,? the page you requested can ?not be found/i,
+  /this product has been removed/i,
+];
+
+/**
+ * Elements AliExpress shows on sold-out listings
+ */
+const OUT_OF_STOCK_SELECTORS = [
+  '[class*="out-of-stock"]',
+  '[class*="sold-out"]',
+  '[class*="unavailable"]',
+  '.product-unavailable',
+];
+
+function toVariant(skuId: string, data: Record<string, unknown>, fallbackName: string): AliExpressVariant {
+  return {
+    skuId,
+    name: (data.skuName as string) || (data.name as string) || fallbackName,
+    attributes: (data.attributes as Record<string, string>) || {},
+    price: Number(data.price) || 0,
+    stock: Number(data.stock) || 0,
+    image: data.image as string | undefined,
+  };
+}
+
+/**
+ * Read the JSON object or array assigned to `key` in an inline script
+ *
+ * Scans to the matching closing bracket, so nested SKU data (which a
+ * non-greedy regex would cut short) parses whole.
+ */
+function extractAssignedJson(content: string, key: string): unknown {
+  const start = content.search(new RegExp(`${key}\\s*[:=]\\s*[[{]`));
+  if (start === -1) return undefined;
+
+  const open = content.slice(start).search(/[[{]/) + start;
+  let depth = 0;
+  let inString = false;
+
+  for (let i = open; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return JSON.parse(content.slice(open, i + 1));
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract variants from the page's embedded SKU data, falling back to the
+ * SKU picker in the DOM
+ */
+function parseVariants($: cheerio.CheerioAPI): AliExpressVariant[] {
+  const variants = new Map<string, AliExpressVariant>();
+
+  $('script').each((_, script) => {
+    const content = $(script).text();
+
+    try {
+      const skuMap = extractAssignedJson(content, 'skuMap') as Record<string, Record<string, unknown>> | undefined;
+      if (skuMap && !Array.isArray(skuMap)) {
+        for (const [skuId, data] of Object.entries(skuMap)) {
+          variants.set(skuId, toVariant(skuId, data, skuId));
+        }
+      }
+
+      const list = extractAssignedJson(content, 'variants') as Array<Record<string, unknown>> | undefined;
+      if (Array.isArray(list)) {
+        list.forEach((data, index) => {
+          const skuId = String(data.skuId ?? `variant-${index}`);
+          variants.set(skuId, toVariant(skuId, data, `Variant ${index + 1}`));
+        });
+      }
+    } catch {
+      // Not the data we are looking for; try the next script
+    }
+  });
+
+  if (variants.size > 0) {
+    return [...variants.values()];
+  }
+
+  return $('[class*="sku-item"], [class*="variant-item"], [class*="option-item"]')
+    .toArray()
+    .map((item, index) => {
+      const element = $(item);
+      const name = element.text().trim() || `Variant ${index + 1}`;
+      const soldOut = element.hasClass('disabled') || element.hasClass('sold-out');
+
+      return {
+        skuId: element.attr('data-sku-id') || element.attr('data-id') || `sku-${index}`,
+        name,
+        attributes: { name },
+        price: parseFloat(element.find('[class*="price"]').text().replace(/[^0-9.]/g, '')) || 0,
+        stock: soldOut ? 0 : 999,
+        image: element.find('img').attr('src'),
+      };
+    });
+}
+
+/**
+ * Whether an element is rendered; recorded pages keep hidden templates
+ */
+function isShown($: cheerio.CheerioAPI, selector: string): boolean {
+  return $(selector)
+    .toArray()
+    .some((element) => {
+      const node = $(element);
+      const style = (node.attr('style') || '').replace(/\s+/g, '');
+      return node.attr('hidden') === undefined && !style.includes('display:none');
+    });
+}
+
+/**
+ * Parse stock availability from a product page
+ *
+ * @param html - The product page's HTML
+ * @returns Stock snapshot
+ *
+ * @example
+ * ```ts
+ * const snapshot = parseStockSnapshot(await scraper.fetchPageHtml(url));
+ * if (snapshot.productRemoved) { ... }
+ * ```
+ */
+export function parseStockSnapshot(html: string): SupplierStockSnapshot {
+  const $ = cheerio.load(html);
+  const variants = parseVariants($);
+
+  // Only visible text from here on, not the page data in scripts
+  $('script, style, noscript').remove();
+  const text = $('body').text().replace(/\s+/g, ' ');
+
+  if (REMOVED_PATTERNS.some((pattern) => pattern.test(text))) {
+    return { productRemoved: true, available: false, stock: 0, variants: [] };
+  }
+
+  const soldOut = OUT_OF_STOCK_SELECTORS.some((selector) => isShown($, selector));
+
+  const stockMatch = text.match(/(\d+)\s*(?:pieces?|items?|units?)\s*(?:left|available)/i);
+  const stock = soldOut ? 0 : stockMatch ? parseInt(stockMatch[1], 10) : undefined;
+
+  return {
+    productRemoved: false,
+    available: !soldOut && (variants.length === 0 || variants.some((v) => v.stock > 0)),
+    stock,
+    variants,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Fulfillment Events
+ * Tests for status transition validation and the event log
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { ConflictError } from '@/lib/errors';
+import { canTransitionDropshipOrder, transitionDropshipOrder } from '../events';
+
+function createTx(updatedCount: number) {
+  const tx = {
+    dropshipOrder: { updateMany: vi.fn().mockResolvedValue({ count: updatedCount }) },
+    dropshipOrderEvent: { create: vi.fn().mockResolvedValue({}) },
+  };
+  return { tx, client: tx as unknown as Prisma.TransactionClient };
+}
+
+describe('canTransitionDropshipOrder', () => {
+  it('should follow the transition map', () => {
+    expect(canTransitionDropshipOrder('PENDING', 'PLACED')).toBe(true);
+    expect(canTransitionDropshipOrder('PLACED', 'SHIPPED')).toBe(true);
+    expect(canTransitionDropshipOrder('ISSUE', 'PLACED')).toBe(true);
+    expect(canTransitionDropshipOrder('PENDING', 'DELIVERED')).toBe(false);
+    expect(canTransitionDropshipOrder('DELIVERED', 'ISSUE')).toBe(false);
+  });
+});
+
+describe('transitionDropshipOrder', () => {
+  it('should update the order only from its current status and log the event', async () => {
+    const { tx, client } = createTx(1);
+
+    await transitionDropshipOrder(client, 'ds_1', {
+      fromStatus: 'PENDING',
+      toStatus: 'ISSUE',
+      type: 'ISSUE_REPORTED',
+      actorId: 'user_1',
+      note: 'Supplier out of stock for 3-6M',
+    });
+
+    expect(tx.dropshipOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: 'ds_1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'ISSUE' }),
+    });
+    expect(tx.dropshipOrderEvent.create).toHaveBeenCalledWith({
+      data: {
+        dropshipOrderId: 'ds_1',
+        type: 'ISSUE_REPORTED',
+        fromStatus: 'PENDING',
+        toStatus: 'ISSUE',
+        actorId: 'user_1',
+        note: 'Supplier out of stock for 3-6M',
+        payload: undefined,
+      },
+    });
+  });
+
+  it('should reject transitions outside the map', async () => {
+    const { tx, client } = createTx(1);
+
+    await expect(
+      transitionDropshipOrder(client, 'ds_1', { fromStatus: 'DELIVERED', toStatus: 'PENDING' })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(tx.dropshipOrder.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should not log when the order moved on concurrently', async () => {
+    const { tx, client } = createTx(0);
+
+    await expect(
+      transitionDropshipOrder(client, 'ds_1', { fromStatus: 'PLACED', toStatus: 'SHIPPED' })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(tx.dropshipOrderEvent.create).not.toHaveBeenCalled();
+  });
+});
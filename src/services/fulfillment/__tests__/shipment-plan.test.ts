@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for Shipment Planning
+ * Tests for splitting orders into parcels and deriving fulfillment status
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  deriveFulfillmentStatus,
+  deriveOrderStatus,
+  getItemFulfillment,
+  groupShipmentItems,
+  type PlanShipment,
+} from '../shipment-plan';
+
+const orderItems = [
+  { id: 'oi_bodysuit', quantity: 2 },
+  { id: 'oi_blanket', quantity: 1 },
+  { id: 'oi_hat', quantity: 1 },
+];
+
+// The bodysuit and hat come from two suppliers; the blanket is in-house
+const suppliers = new Map([
+  ['oi_bodysuit', 'sup_a'],
+  ['oi_hat', 'sup_b'],
+]);
+
+function shipment(
+  status: PlanShipment['status'],
+  supplierId: string | null,
+  items: PlanShipment['items']
+): PlanShipment {
+  return { status, supplierId, items };
+}
+
+describe('groupShipmentItems', () => {
+  it('should put in-house stock first and each supplier in its own parcel', () => {
+    expect(groupShipmentItems(orderItems, suppliers)).toEqual([
+      { supplierId: null, items: [{ orderItemId: 'oi_blanket', quantity: 1 }] },
+      { supplierId: 'sup_a', items: [{ orderItemId: 'oi_bodysuit', quantity: 2 }] },
+      { supplierId: 'sup_b', items: [{ orderItemId: 'oi_hat', quantity: 1 }] },
+    ]);
+  });
+
+  it('should leave out units already in a parcel unless it was cancelled', () => {
+    const groups = groupShipmentItems(orderItems, suppliers, [
+      shipment('SHIPPED', 'sup_a', [{ orderItemId: 'oi_bodysuit', quantity: 1 }]),
+      shipment('CANCELLED', null, [{ orderItemId: 'oi_blanket', quantity: 1 }]),
+      shipment('DELIVERED', 'sup_b', [{ orderItemId: 'oi_hat', quantity: 1 }]),
+    ]);
+
+    expect(groups).toEqual([
+      { supplierId: null, items: [{ orderItemId: 'oi_blanket', quantity: 1 }] },
+      { supplierId: 'sup_a', items: [{ orderItemId: 'oi_bodysuit', quantity: 1 }] },
+    ]);
+  });
+});
+
+describe('getItemFulfillment', () => {
+  it('should count shipped and delivered units per line', () => {
+    const items = getItemFulfillment(orderItems, [
+      shipment('DELIVERED', 'sup_a', [{ orderItemId: 'oi_bodysuit', quantity: 2 }]),
+      shipment('SHIPPED', null, [{ orderItemId: 'oi_blanket', quantity: 1 }]),
+      shipment('PENDING', 'sup_b', [{ orderItemId: 'oi_hat', quantity: 1 }]),
+    ]);
+
+    expect(items).toEqual([
+      { orderItemId: 'oi_bodysuit', quantity: 2, shipped: 2, delivered: 2 },
+      { orderItemId: 'oi_blanket', quantity: 1, shipped: 1, delivered: 0 },
+      { orderItemId: 'oi_hat', quantity: 1, shipped: 0, delivered: 0 },
+    ]);
+  });
+});
+
+describe('deriveFulfillmentStatus', () => {
+  it('should be partially fulfilled until every unit has shipped', () => {
+    const pending = [
+      shipment('PENDING', null, [{ orderItemId: 'oi_blanket', quantity: 1 }]),
+      shipment('PENDING', 'sup_a', [{ orderItemId: 'oi_bodysuit', quantity: 2 }]),
+      shipment('PENDING', 'sup_b', [{ orderItemId: 'oi_hat', quantity: 1 }]),
+    ];
+    expect(deriveFulfillmentStatus('UNFULFILLED', orderItems, pending)).toBe('UNFULFILLED');
+
+    pending[1].status = 'SHIPPED';
+    expect(deriveFulfillmentStatus('UNFULFILLED', orderItems, pending)).toBe('PARTIALLY_FULFILLED');
+
+    pending[0].status = 'SHIPPED';
+    pending[2].status = 'DELIVERED';
+    expect(deriveFulfillmentStatus('PARTIALLY_FULFILLED', orderItems, pending)).toBe('FULFILLED');
+  });
+
+  it('should keep a restocked order restocked', () => {
+    expect(deriveFulfillmentStatus('RESTOCKED', orderItems, [])).toBe('RESTOCKED');
+  });
+});
+
+describe('deriveOrderStatus', () => {
+  const inHouse = shipment('SHIPPED', null, [{ orderItemId: 'oi_blanket', quantity: 1 }]);
+  const supplierA = shipment('DELIVERED', 'sup_a', [{ orderItemId: 'oi_bodysuit', quantity: 2 }]);
+  const supplierB = shipment('PENDING', 'sup_b', [{ orderItemId: 'oi_hat', quantity: 1 }]);
+
+  it('should ship with the first parcel', () => {
+    expect(deriveOrderStatus('PROCESSING', orderItems, [inHouse, supplierB])).toBe('SHIPPED');
+    expect(deriveOrderStatus('PROCESSING', orderItems, [{ ...inHouse, status: 'PENDING' }])).toBe('PROCESSING');
+  });
+
+  it('should be delivered only once every parcel has arrived', () => {
+    expect(deriveOrderStatus('SHIPPED', orderItems, [inHouse, supplierA, supplierB])).toBe('SHIPPED');
+    expect(
+      deriveOrderStatus('SHIPPED', orderItems, [
+        { ...inHouse, status: 'DELIVERED' },
+        supplierA,
+        { ...supplierB, status: 'DELIVERED' },
+      ])
+    ).toBe('DELIVERED');
+  });
+
+  it('should not be delivered while units are in no parcel', () => {
+    expect(deriveOrderStatus('SHIPPED', orderItems, [supplierA])).toBe('SHIPPED');
+  });
+
+  it('should leave cancelled orders alone', () => {
+    expect(deriveOrderStatus('CANCELLED', orderItems, [supplierA])).toBe('CANCELLED');
+  });
+});
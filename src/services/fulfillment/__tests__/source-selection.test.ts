@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Fulfillment Source Selection
+ * Tests for picking the best healthy product source for an order item
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMappedAliExpressSku,
+  isSourceHealthy,
+  selectFulfillmentSource,
+  type FulfillmentSourceCandidate,
+} from '../source-selection';
+
+function source(overrides: Partial<FulfillmentSourceCandidate> = {}): FulfillmentSourceCandidate {
+  return {
+    id: 'src_primary',
+    priority: 0,
+    originalPrice: 4.2,
+    sourceStatus: 'ACTIVE',
+    inventoryStatus: 'AVAILABLE',
+    aliExpressSku: null,
+    variantMapping: [
+      { localVariantSku: 'BP-0-3M', aliExpressSku: '12000036000000001', aliExpressVariantName: '0-3M' },
+    ],
+    supplier: { status: 'ACTIVE', rating: 4.8 },
+    ...overrides,
+  };
+}
+
+describe('getMappedAliExpressSku', () => {
+  it('should read both mapping shapes', () => {
+    expect(getMappedAliExpressSku(source().variantMapping, 'BP-0-3M')).toBe('12000036000000001');
+    expect(getMappedAliExpressSku({ 'BP-0-3M': { aliExpressSku: '999' } }, 'BP-0-3M')).toBe('999');
+    expect(getMappedAliExpressSku({ 'BP-0-3M': '998' }, 'BP-0-3M')).toBe('998');
+    expect(getMappedAliExpressSku(source().variantMapping, 'BP-3-6M')).toBeNull();
+    expect(getMappedAliExpressSku(null, 'BP-0-3M')).toBeNull();
+  });
+});
+
+describe('isSourceHealthy', () => {
+  it('should reject discontinued, sold-out and suspended sources', () => {
+    expect(isSourceHealthy(source())).toBe(true);
+    expect(isSourceHealthy(source({ sourceStatus: 'PRICE_CHANGED' }))).toBe(true);
+    expect(isSourceHealthy(source({ sourceStatus: 'DISCONTINUED' }))).toBe(false);
+    expect(isSourceHealthy(source({ sourceStatus: 'UNAVAILABLE' }))).toBe(false);
+    expect(isSourceHealthy(source({ inventoryStatus: 'OUT_OF_STOCK' }))).toBe(false);
+    expect(isSourceHealthy(source({ supplier: { status: 'SUSPENDED', rating: 5 } }))).toBe(false);
+  });
+
+  it('should require a mapped SKU when the source has a variant mapping', () => {
+    expect(isSourceHealthy(source(), 'BP-0-3M')).toBe(true);
+    expect(isSourceHealthy(source(), 'BP-3-6M')).toBe(false);
+    expect(isSourceHealthy(source({ variantMapping: [] }), 'BP-3-6M')).toBe(true);
+  });
+});
+
+describe('selectFulfillmentSource', () => {
+  it('should prefer the primary while it is healthy', () => {
+    const primary = source();
+    const backup = source({ id: 'src_backup', priority: 1, originalPrice: 3.5 });
+
+    expect(selectFulfillmentSource([backup, primary], 'BP-0-3M')).toBe(primary);
+  });
+
+  it('should fail over to the best backup', () => {
+    const primary = source({ sourceStatus: 'DISCONTINUED' });
+    const pricey = source({ id: 'src_pricey', priority: 1, originalPrice: 5.9 });
+    const cheap = source({ id: 'src_cheap', priority: 1, originalPrice: 4.9 });
+    const lowStock = source({ id: 'src_low', priority: 1, originalPrice: 3.9, inventoryStatus: 'LOW_STOCK' });
+
+    expect(selectFulfillmentSource([primary, pricey, cheap, lowStock], 'BP-0-3M')?.id).toBe('src_cheap');
+  });
+
+  it('should break cost ties on supplier rating', () => {
+    const low = source({ id: 'src_low', priority: 1, supplier: { status: 'ACTIVE', rating: 4.1 } });
+    const high = source({ id: 'src_high', priority: 1, supplier: { status: 'ACTIVE', rating: 4.9 } });
+
+    expect(selectFulfillmentSource([low, high])?.id).toBe('src_high');
+  });
+
+  it('should return null when no source is healthy', () => {
+    expect(selectFulfillmentSource([source({ inventoryStatus: 'OUT_OF_STOCK' })])).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { prisma } from '@/lib/prisma';
+import { ConflictError } from '@/lib/errors';
+import { DropshipOrderStatus, DropshipOrderEventType, Prisma } from '@prisma/client';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * An entry for the dropship order event log
+ */
+export interface DropshipOrderEventInput {
+  dropshipOrderId: string;
+  type: DropshipOrderEventType;
+  fromStatus: DropshipOrderStatus | null;
+  toStatus: DropshipOrderStatus;
+  /** Staff member who acted; omit for system events */
+  actorId?: string | null;
+  note?: string | null;
+  payload?: Prisma.InputJsonValue;
+}
+
+/**
+ * A status transition and the event that records it
+ */
+export interface DropshipOrderTransition {
+  fromStatus: DropshipOrderStatus;
+  toStatus: DropshipOrderStatus;
+  /** Extra fields to set on the dropship order, e.g. timestamps */
+  data?: Prisma.DropshipOrderUpdateManyMutationInput;
+  type?: DropshipOrderEventType;
+  actorId?: string | null;
+  note?: string | null;
+  payload?: Prisma.InputJsonValue;
+}
+
+/**
+ * A logged event with its actor, for display
+ */
+export interface DropshipOrderTimelineEvent {
+  id: string;
+  type: DropshipOrderEventType;
+  fromStatus: DropshipOrderStatus | null;
+  toStatus: DropshipOrderStatus;
+  note: string | null;
+  payload: Prisma.JsonValue;
+  createdAt: Date;
+  actor: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+}
+
+// ============================================
+// STATUS TRANSITIONS
+// ============================================
+
+/**
+ * Valid status transitions map
+ *
+ * PLACED may go straight to SHIPPED: AliExpress often ships an order without
+ * a separate confirmation step.
+ */
+export const DROPSHIP_STATUS_TRANSITIONS: Record<DropshipOrderStatus, DropshipOrderStatus[]> = {
+  PENDING: ['PLACED', 'CANCELLED', 'ISSUE'],
+  PLACED: ['CONFIRMED', 'SHIPPED', 'CANCELLED', 'ISSUE'],
+  CONFIRMED: ['SHIPPED', 'CANCELLED', 'ISSUE'],
+  SHIPPED: ['DELIVERED', 'ISSUE'],
+  DELIVERED: [],
+  CANCELLED: [],
+  REFUNDED: [],
+  ISSUE: ['PENDING', 'PLACED', 'CONFIRMED', 'SHIPPED', 'CANCELLED'],
+};
+
+/**
+ * Check whether a dropship order may move between two statuses
+ */
+export function canTransitionDropshipOrder(
+  fromStatus: DropshipOrderStatus,
+  toStatus: DropshipOrderStatus
+): boolean {
+  return DROPSHIP_STATUS_TRANSITIONS[fromStatus].includes(toStatus);
+}
+
+// ============================================
+// EVENT LOG
+// ============================================
+
+/**
+ * Append an event to a dropship order's log
+ *
+ * Pass the transaction client so the event commits with the change it
+ * describes.
+ */
+export async function recordDropshipOrderEvent(
+  client: Prisma.TransactionClient,
+  input: DropshipOrderEventInput
+): Promise<void> {
+  await client.dropshipOrderEvent.create({
+    data: {
+      dropshipOrderId: input.dropshipOrderId,
+      type: input.type,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      actorId: input.actorId ?? null,
+      note: input.note ?? null,
+      payload: input.payload,
+    },
+  });
+}
+
+/**
+ * Move a dropship order to a new status and log the transition
+ *
+ * The update only applies while the order is still in `fromStatus`, so two
+ * staff members acting on the same order cannot both move it.
+ *
+ * @throws ConflictError if the transition is not allowed or the order's
+ *   status changed in the meantime
+ */
+export async function transitionDropshipOrder(
+  client: Prisma.TransactionClient,
+  dropshipOrderId: string,
+  transition: DropshipOrderTransition
+): Promise<void> {
+  const { fromStatus, toStatus } = transition;
+
+  if (!canTransitionDropshipOrder(fromStatus, toStatus)) {
+    throw new ConflictError(`Cannot transition from ${fromStatus} to ${toStatus}`);
+  }
+
+  const { count } = await client.dropshipOrder.updateMany({
+    where: { id: dropshipOrderId, status: fromStatus },
+    data: {
+      ...transition.data,
+      status: toStatus,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Fulfillment order was updated by someone else. Please refresh and try again.');
+  }
+
+  await recordDropshipOrderEvent(client, {
+    dropshipOrderId,
+    type: transition.type ?? DropshipOrderEventType.STATUS_CHANGED,
+    fromStatus,
+    toStatus,
+    actorId: transition.actorId,
+    note: transition.note,
+    payload: transition.payload,
+  });
+}
+
+/**
+ * Get a dropship order's event log, oldest first
+ */
+export async function getDropshipOrderTimeline(
+  dropshipOrderId: string
+): Promise<DropshipOrderTimelineEvent[]> {
+  return prisma.dropshipOrderEvent.findMany({
+    where: { dropshipOrderId },
+    select: {
+      id: true,
+      type: true,
+      fromStatus: true,
+      toStatus: true,
+      note: true,
+      payload: true,
+      createdAt: true,
+      actor: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
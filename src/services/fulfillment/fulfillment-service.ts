@@ -1,5 +1,9 @@
 import { prisma } from '@/lib/prisma';
-import { DropshipOrderStatus, OrderStatus } from '@prisma/client';
+import { DropshipOrderStatus, DropshipOrderEventType, OrderStatus } from '@prisma/client';
+import { getDropshipOrderTimeline, recordDropshipOrderEvent } from './events';
+import { getMappedAliExpressSku, isSourceHealthy, selectFulfillmentSource } from './source-selection';
+import { planOrderShipments } from './shipments';
+import { findStalledShipments } from '@/lib/tracking';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -63,8 +67,31 @@ export interface ValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  /** Items moved to a backup source during validation */
+  sourceSwitches?: SourceSwitch[];
 }
 
+/**
+ * An order item moved from an unhealthy source to a backup
+ */
+export interface SourceSwitch {
+  dropshipOrderItemId: string;
+  productSlug: string;
+  fromProductSourceId: string;
+  toProductSourceId: string;
+  fromUnitCost: number;
+  toUnitCost: number;
+}
+
+/**
+ * Orders that have not been placed with the supplier yet, so their items
+ * can still move to another source
+ */
+const SWITCHABLE_STATUSES: DropshipOrderStatus[] = [
+  DropshipOrderStatus.PENDING,
+  DropshipOrderStatus.ISSUE,
+];
+
 /**
  * Fulfillment details with all related data
  */
@@ -120,6 +147,7 @@ export interface FulfillmentDetails {
       id: string;
       sanityProductId: string;
       productSlug: string;
+      priority: number;
       aliExpressProductId: string;
       aliExpressUrl: string;
       aliExpressSku: string | null;
@@ -266,6 +294,7 @@ export class FulfillmentService {
           id: item.productSource.id,
           sanityProductId: item.productSource.sanityProductId,
           productSlug: item.productSource.productSlug,
+          priority: item.productSource.priority,
           aliExpressProductId: item.productSource.aliExpressProductId,
           aliExpressUrl: item.productSource.aliExpressUrl,
           aliExpressSku: item.productSource.aliExpressSku,
@@ -360,7 +389,9 @@ export class FulfillmentService {
   /**
    * Validate order can be fulfilled
    *
-   * Checks if the order is ready for fulfillment.
+   * Checks if the order is ready for fulfillment. Items whose source has
+   * gone unhealthy are first moved to the product's best healthy backup
+   * source, as long as the order has not been placed yet.
    *
    * @param orderId - The dropship order ID
    * @returns Validation result with any errors or warnings
@@ -369,7 +400,7 @@ export class FulfillmentService {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    const details = await this.getFulfillmentDetails(orderId);
+    let details = await this.getFulfillmentDetails(orderId);
 
     if (!details) {
       return {
@@ -379,6 +410,17 @@ export class FulfillmentService {
       };
     }
 
+    const sourceSwitches = SWITCHABLE_STATUSES.includes(details.status)
+      ? await this.failoverUnhealthySources(details)
+      : [];
+
+    if (sourceSwitches.length > 0) {
+      details = (await this.getFulfillmentDetails(orderId))!;
+      for (const change of sourceSwitches) {
+        warnings.push(`Product ${change.productSlug} switched to a backup source`);
+      }
+    }
+
     // Check order status
     if (details.status === DropshipOrderStatus.CANCELLED) {
       errors.push('Order has been cancelled');
@@ -432,9 +474,124 @@ export class FulfillmentService {
       valid: errors.length === 0,
       errors,
       warnings,
+      sourceSwitches,
     };
   }
 
+  /**
+   * Move items off unhealthy sources
+   *
+   * Each item goes to the best healthy source for the same product. The
+   * item keeps the source picked at checkout in `originalProductSourceId`,
+   * the order's cost is adjusted and the switch is logged. Parcels that
+   * haven't shipped are re-planned, since the backup may be another supplier.
+   *
+   * @param details - The fulfillment order
+   * @returns The switches made
+   */
+  private async failoverUnhealthySources(details: FulfillmentDetails): Promise<SourceSwitch[]> {
+    const switches: SourceSwitch[] = [];
+
+    const items = await prisma.dropshipOrderItem.findMany({
+      where: { dropshipOrderId: details.id },
+      include: {
+        productSource: {
+          include: { supplier: { select: { status: true, rating: true } } },
+        },
+      },
+    });
+
+    for (const item of items) {
+      const localSku = details.order.items.find((oi) => oi.id === item.orderItemId)?.sku;
+      const current = item.productSource;
+
+      if (isSourceHealthy({ ...current, originalPrice: Number(current.originalPrice) }, localSku)) {
+        continue;
+      }
+
+      const backups = await prisma.productSource.findMany({
+        where: {
+          sanityProductId: current.sanityProductId,
+          id: { not: current.id },
+        },
+        include: { supplier: { select: { status: true, rating: true } } },
+      });
+
+      const best = selectFulfillmentSource(
+        backups.map((source) => ({ ...source, originalPrice: Number(source.originalPrice) })),
+        localSku
+      );
+      if (!best) {
+        continue;
+      }
+
+      const aliExpressSku =
+        (localSku && getMappedAliExpressSku(best.variantMapping, localSku)) ||
+        best.aliExpressSku ||
+        item.aliExpressSku;
+      const fromUnitCost = Number(item.unitCost);
+      const toUnitCost = best.originalPrice;
+      const costDifference = (toUnitCost - fromUnitCost) * item.quantity;
+
+      const switched = await prisma.$transaction(async (tx) => {
+        // Only if no one else switched the item in the meantime
+        const { count } = await tx.dropshipOrderItem.updateMany({
+          where: { id: item.id, productSourceId: current.id },
+          data: {
+            productSourceId: best.id,
+            originalProductSourceId: item.originalProductSourceId ?? current.id,
+            aliExpressSku,
+            unitCost: toUnitCost,
+            totalCost: toUnitCost * item.quantity,
+          },
+        });
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.dropshipOrder.update({
+          where: { id: details.id },
+          data: { totalCost: { increment: costDifference } },
+        });
+
+        await recordDropshipOrderEvent(tx, {
+          dropshipOrderId: details.id,
+          type: DropshipOrderEventType.SOURCE_SWITCHED,
+          fromStatus: details.status,
+          toStatus: details.status,
+          note:
+            `${current.productSlug}: source ${current.aliExpressProductId} is ` +
+            `${current.sourceStatus}/${current.inventoryStatus}, switched to backup ${best.aliExpressProductId}`,
+          payload: {
+            dropshipOrderItemId: item.id,
+            fromProductSourceId: current.id,
+            toProductSourceId: best.id,
+            fromUnitCost,
+            toUnitCost,
+            aliExpressSku,
+          },
+        });
+
+        await planOrderShipments(tx, details.orderId);
+
+        return true;
+      });
+
+      if (switched) {
+        switches.push({
+          dropshipOrderItemId: item.id,
+          productSlug: current.productSlug,
+          fromProductSourceId: current.id,
+          toProductSourceId: best.id,
+          fromUnitCost,
+          toUnitCost,
+        });
+      }
+    }
+
+    return switches;
+  }
+
   /**
    * Get orders by status
    *
@@ -454,7 +611,9 @@ export class FulfillmentService {
   /**
    * Get orders requiring attention
    *
-   * Retrieves orders that need immediate attention (ISSUE status or old PENDING orders).
+   * Retrieves orders that need immediate attention (ISSUE status, old PENDING orders,
+   * or supplier parcels that have stalled in transit). Orders with stalled parcels
+   * carry them as `stalledShipments`, each with the reason it stalled.
    *
    * @returns Array of orders requiring attention
    */
@@ -502,13 +661,48 @@ export class FulfillmentService {
       },
     });
 
-    return [...issueOrders, ...oldPendingOrders];
+    // Get orders with a parcel the carrier has stopped moving (ISSUE orders are already listed)
+    const stalledShipments = await findStalledShipments();
+    const stalledByOrder = new Map<string, typeof stalledShipments>();
+    for (const shipment of stalledShipments) {
+      if (!shipment.dropshipOrderId) continue;
+      stalledByOrder.set(shipment.dropshipOrderId, [
+        ...(stalledByOrder.get(shipment.dropshipOrderId) ?? []),
+        shipment,
+      ]);
+    }
+
+    const stalledOrders = stalledByOrder.size === 0 ? [] : await prisma.dropshipOrder.findMany({
+      where: {
+        id: { in: [...stalledByOrder.keys()] },
+        status: { not: DropshipOrderStatus.ISSUE },
+      },
+      include: {
+        order: {
+          include: {
+            items: true,
+          },
+        },
+        items: {
+          include: {
+            productSource: true,
+          },
+        },
+      },
+    });
+
+    return [
+      ...issueOrders,
+      ...oldPendingOrders,
+      ...stalledOrders.map((order) => ({ ...order, stalledShipments: stalledByOrder.get(order.id) })),
+    ];
   }
 
   /**
    * Get fulfillment history for an order
    *
-   * Retrieves the status history for a fulfillment order.
+   * Reads the order's event log. Orders created before the log existed
+   * fall back to a history rebuilt from their timestamps.
    *
    * @param orderId - The dropship order ID
    * @returns Array of status changes with timestamps
@@ -517,6 +711,9 @@ export class FulfillmentService {
     status: string;
     timestamp: Date;
     note?: string;
+    type?: DropshipOrderEventType;
+    fromStatus?: string | null;
+    actor?: string | null;
   }>> {
     const order = await prisma.dropshipOrder.findUnique({
       where: { id: orderId },
@@ -526,6 +723,18 @@ export class FulfillmentService {
       throw new Error('Fulfillment order not found');
     }
 
+    const events = await getDropshipOrderTimeline(orderId);
+    if (events.length > 0) {
+      return events.map((event) => ({
+        status: event.toStatus,
+        timestamp: event.createdAt,
+        note: event.note ?? undefined,
+        type: event.type,
+        fromStatus: event.fromStatus,
+        actor: event.actor?.email ?? null,
+      }));
+    }
+
     // Build history from timestamps
     const history: Array<{
       status: string;
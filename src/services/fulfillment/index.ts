@@ -12,9 +12,19 @@ export type {
   AliExpressOrderData,
   OrderCost,
   ValidationResult,
+  SourceSwitch,
   FulfillmentDetails,
 } from './fulfillment-service';
 
+// Picking a product source to fulfill from
+export {
+  getMappedAliExpressSku,
+  isSourceHealthy,
+  rankFulfillmentSources,
+  selectFulfillmentSource,
+} from './source-selection';
+export type { FulfillmentSourceCandidate } from './source-selection';
+
 // Order handler for creating dropship orders
 export {
   createDropshipOrderForOrder,
@@ -23,5 +33,43 @@ export {
   getPendingOrdersForSupplier,
 } from './order-handler';
 
+// Status transitions and the fulfillment event log
+export {
+  DROPSHIP_STATUS_TRANSITIONS,
+  canTransitionDropshipOrder,
+  recordDropshipOrderEvent,
+  transitionDropshipOrder,
+  getDropshipOrderTimeline,
+} from './events';
+export type {
+  DropshipOrderEventInput,
+  DropshipOrderTransition,
+  DropshipOrderTimelineEvent,
+} from './events';
+
+// Splitting orders into parcels and shipping them
+export {
+  groupShipmentItems,
+  getItemFulfillment,
+  deriveFulfillmentStatus,
+  deriveOrderStatus,
+} from './shipment-plan';
+export type { ShipmentGroup, ItemFulfillment } from './shipment-plan';
+export {
+  planOrderShipments,
+  syncOrderFulfillment,
+  shipShipment,
+  deliverShipment,
+  shipDropshipOrder,
+  deliverDropshipOrder,
+  getOrderShipments,
+} from './shipments';
+export type {
+  ShipmentTracking,
+  ShipmentUpdateOptions,
+  ShipmentUpdateResult,
+  OrderShipmentSummary,
+} from './shipments';
+
 // Notification service
 export { FulfillmentNotificationService } from './notifications';
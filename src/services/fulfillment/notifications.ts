@@ -1,4 +1,6 @@
 import client from '@sendgrid/mail';
+import type { Prisma } from '@prisma/client';
+import { getOrderTrackingPath } from '@/lib/order-tracking/links';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -19,6 +21,20 @@ interface Order {
   }>;
 }
 
+/**
+ * A parcel to tell the customer about
+ */
+interface ShipmentNotification {
+  trackingNumber: string | null;
+  carrier?: string | null;
+  trackingUrl?: string | null;
+  /** What's in this parcel */
+  items: Order['items'];
+  /** Position of the parcel among the order's parcels, from 1 */
+  packageNumber: number;
+  packageCount: number;
+}
+
 /**
  * Email template data
  */
@@ -59,39 +75,39 @@ export class FulfillmentNotificationService {
   /**
    * Send shipping notification to customer
    *
-   * Notifies the customer that their order has been shipped.
+   * Notifies the customer that a parcel of their order has been shipped.
+   * Orders split across parcels get one email per parcel, listing what is
+   * in it.
    *
-   * @param order - The order that was shipped
-   * @param trackingNumber - The tracking number
-   * @param carrier - Optional carrier name
+   * @param order - The order the parcel belongs to
+   * @param shipment - The parcel that was shipped
    */
   async sendShippingNotification(
     order: Order,
-    trackingNumber: string,
-    carrier?: string
+    shipment: ShipmentNotification
   ): Promise<void> {
     const address = order.shippingAddress as any;
     const customerName = `${address.firstName || ''} ${address.lastName || ''}`.trim();
+    const isSplit = shipment.packageCount > 1;
+
+    const templateData = {
+      orderNumber: order.orderNumber,
+      customerName,
+      trackingNumber: shipment.trackingNumber,
+      carrier: shipment.carrier || undefined,
+      trackingUrl: shipment.trackingUrl || undefined,
+      packageLabel: isSplit ? `Package ${shipment.packageNumber} of ${shipment.packageCount}` : null,
+      items: shipment.items,
+      shippingAddress: address,
+    };
 
     const emailData: EmailTemplateData = {
       to: order.customerEmail,
-      subject: `Your ${this.storeName} Order Has Shipped! - ${order.orderNumber}`,
-      html: this.generateShippingEmailHtml({
-        orderNumber: order.orderNumber,
-        customerName,
-        trackingNumber,
-        carrier,
-        items: order.items,
-        shippingAddress: address,
-      }),
-      text: this.generateShippingEmailText({
-        orderNumber: order.orderNumber,
-        customerName,
-        trackingNumber,
-        carrier,
-        items: order.items,
-        shippingAddress: address,
-      }),
+      subject: isSplit
+        ? `${templateData.packageLabel} of Your ${this.storeName} Order Has Shipped! - ${order.orderNumber}`
+        : `Your ${this.storeName} Order Has Shipped! - ${order.orderNumber}`,
+      html: this.generateShippingEmailHtml(templateData),
+      text: this.generateShippingEmailText(templateData),
     };
 
     await this.sendEmail(emailData);
@@ -135,7 +151,7 @@ export class FulfillmentNotificationService {
    * @param issue - Description of the issue
    */
   async sendIssueNotification(
-    order: Order,
+    order: Prisma.OrderGetPayload<{ include: { items: true } }>,
     issue: string
   ): Promise<void> {
     const emailData: EmailTemplateData = {
@@ -193,12 +209,14 @@ export class FulfillmentNotificationService {
   private generateShippingEmailHtml(data: {
     orderNumber: string;
     customerName: string;
-    trackingNumber: string;
+    trackingNumber: string | null;
     carrier?: string;
+    trackingUrl?: string;
+    packageLabel: string | null;
     items: Array<{ productName: string; variantName: string; quantity: number }>;
     shippingAddress: any;
   }): string {
-    const trackingUrl = this.getTrackingUrl(data.trackingNumber, data.carrier);
+    const trackingUrl = data.trackingUrl || this.getTrackingUrl(data.trackingNumber, data.carrier);
 
     return `
       <!DOCTYPE html>
@@ -216,16 +234,18 @@ export class FulfillmentNotificationService {
         <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px;">
           <p style="font-size: 16px;">Hi ${data.customerName || 'there'},</p>
           
-          <p>Great news! Your order <strong>${data.orderNumber}</strong> has been shipped and is on its way to you.</p>
+          ${data.packageLabel
+            ? `<p>Great news! ${data.packageLabel} from your order <strong>${data.orderNumber}</strong> has been shipped and is on its way to you. The rest of your order ships separately and we'll email you as each package leaves.</p>`
+            : `<p>Great news! Your order <strong>${data.orderNumber}</strong> has been shipped and is on its way to you.</p>`}
           
           <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #667eea;">
             <h3 style="margin-top: 0; color: #667eea;">📦 Tracking Information</h3>
-            <p style="margin-bottom: 5px;"><strong>Tracking Number:</strong> ${data.trackingNumber}</p>
+            <p style="margin-bottom: 5px;"><strong>Tracking Number:</strong> ${data.trackingNumber || 'Available soon'}</p>
             ${data.carrier ? `<p style="margin-bottom: 5px;"><strong>Carrier:</strong> ${data.carrier}</p>` : ''}
             ${trackingUrl ? `<p><a href="${trackingUrl}" style="color: #667eea;">Track Your Package →</a></p>` : ''}
           </div>
           
-          <h3 style="color: #333;">Order Items</h3>
+          <h3 style="color: #333;">${data.packageLabel ? 'In This Package' : 'Order Items'}</h3>
           <ul style="padding-left: 20px;">
             ${data.items.map(item => `
               <li style="margin-bottom: 10px;">
@@ -246,9 +266,9 @@ export class FulfillmentNotificationService {
           </p>
           
           <div style="text-align: center; margin-top: 30px;">
-            <a href="${this.storeUrl}/account/orders/${data.orderNumber}" 
+            <a href="${this.storeUrl}${getOrderTrackingPath(data.orderNumber)}" 
                style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 12px 30px; text-decoration: none; border-radius: 25px; display: inline-block; font-weight: bold;">
-              View Order Details
+              Track Your Order
             </a>
           </div>
           
@@ -271,28 +291,32 @@ export class FulfillmentNotificationService {
   private generateShippingEmailText(data: {
     orderNumber: string;
     customerName: string;
-    trackingNumber: string;
+    trackingNumber: string | null;
     carrier?: string;
+    trackingUrl?: string;
+    packageLabel: string | null;
     items: Array<{ productName: string; variantName: string; quantity: number }>;
     shippingAddress: any;
   }): string {
-    const trackingUrl = this.getTrackingUrl(data.trackingNumber, data.carrier);
+    const trackingUrl = data.trackingUrl || this.getTrackingUrl(data.trackingNumber, data.carrier);
 
     return `
 Your Order Has Shipped!
 
 Hi ${data.customerName || 'there'},
 
-Great news! Your order ${data.orderNumber} has been shipped and is on its way to you.
+${data.packageLabel
+  ? `Great news! ${data.packageLabel} from your order ${data.orderNumber} has been shipped and is on its way to you. The rest of your order ships separately and we'll email you as each package leaves.`
+  : `Great news! Your order ${data.orderNumber} has been shipped and is on its way to you.`}
 
 TRACKING INFORMATION
 --------------------
-Tracking Number: ${data.trackingNumber}
+Tracking Number: ${data.trackingNumber || 'Available soon'}
 ${data.carrier ? `Carrier: ${data.carrier}` : ''}
 ${trackingUrl ? `Track Your Package: ${trackingUrl}` : ''}
 
-ORDER ITEMS
------------
+${data.packageLabel ? 'IN THIS PACKAGE' : 'ORDER ITEMS'}
+${data.packageLabel ? '---------------' : '-----------'}
 ${data.items.map(item => 
   `- ${item.productName}${item.variantName !== 'Default' ? ` - ${item.variantName}` : ''} (Qty: ${item.quantity})`
 ).join('\n')}
@@ -305,7 +329,7 @@ ${data.shippingAddress.line2 || ''}
 ${data.shippingAddress.city || ''}, ${data.shippingAddress.state || ''} ${data.shippingAddress.zip || ''}
 ${data.shippingAddress.country || 'US'}
 
-View your order details: ${this.storeUrl}/account/orders/${data.orderNumber}
+Track your order: ${this.storeUrl}${getOrderTrackingPath(data.orderNumber)}
 
 Thank you for shopping with ${this.storeName}!
 
@@ -499,7 +523,7 @@ View in Admin: ${this.storeUrl}/admin/fulfillment/${data.orderNumber}
   /**
    * Get tracking URL based on carrier
    */
-  private getTrackingUrl(trackingNumber: string, carrier?: string): string | null {
+  private getTrackingUrl(trackingNumber: string | null, carrier?: string): string | null {
     if (!trackingNumber) return null;
 
     const carrierLower = carrier?.toLowerCase() || '';
@@ -1,5 +1,11 @@
 import { prisma } from '@/lib/prisma';
-import { DropshipOrderStatus } from '@prisma/client';
+import { DropshipOrderStatus, DropshipOrderEventType } from '@prisma/client';
+import { recordDropshipOrderEvent } from './events';
+import {
+  getMappedAliExpressSku,
+  selectFulfillmentSource,
+  type FulfillmentSourceCandidate,
+} from './source-selection';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -36,17 +42,13 @@ interface OrderItem {
 /**
  * Product source with variant mapping
  */
-interface ProductSourceWithMapping {
-  id: string;
+interface ProductSourceWithMapping extends FulfillmentSourceCandidate {
   sanityProductId: string;
   productSlug: string;
   aliExpressProductId: string;
   aliExpressUrl: string;
-  aliExpressSku: string | null;
-  originalPrice: number;
   originalCurrency: string;
   supplierId: string;
-  variantMapping: Record<string, unknown> | null;
 }
 
 /**
@@ -78,14 +80,10 @@ export async function createDropshipOrderForOrder(
   orderItems: OrderItem[]
 ): Promise<CreateDropshipOrderResult> {
   try {
-    // Get variant IDs from order items
-    const variantIds = orderItems.map((item) => item.variantId);
-
-    // Find ProductSource records for these variants
-    // We need to match by product slug or sanity product ID
-    const productSources = await findProductSourcesForVariants(variantIds, orderItems);
+    // Find the ProductSource records for each item's product
+    const sourcesByItem = await findProductSourcesForItems(orderItems);
 
-    if (productSources.length === 0) {
+    if (sourcesByItem.size === 0) {
       // No dropshipped products in this order
       return { success: true };
     }
@@ -105,19 +103,13 @@ export async function createDropshipOrderForOrder(
     }> = [];
 
     for (const item of orderItems) {
-      const productSource = productSources.find(
-        (ps) => ps.productSlug === item.sku.split('-')[0] || // Match by SKU prefix
-                productSources.some((ps) => {
-                  // Check variant mapping
-                  const mapping = ps.variantMapping as any;
-                  if (mapping && mapping[item.sku]) {
-                    return true;
-                  }
-                  return false;
-                })
-      );
-
-      if (productSource) {
+      const candidates = sourcesByItem.get(item.id);
+
+      if (candidates) {
+        // Best healthy source; with none healthy, order from the primary and
+        // let fulfillment validation flag it
+        const productSource = selectFulfillmentSource(candidates, item.sku) ?? candidates[0];
+
         // Get the AliExpress SKU for this variant
         const aliExpressSku = getAliExpressSku(productSource, item.sku);
         const unitCost = Number(productSource.originalPrice);
@@ -172,6 +164,14 @@ export async function createDropshipOrderForOrder(
         })),
       });
 
+      await recordDropshipOrderEvent(tx, {
+        dropshipOrderId: newDropshipOrder.id,
+        type: DropshipOrderEventType.CREATED,
+        fromStatus: null,
+        toStatus: DropshipOrderStatus.PENDING,
+        note: `Created for order ${order.orderNumber}`,
+      });
+
       return newDropshipOrder;
     });
 
@@ -199,9 +199,8 @@ export async function createDropshipOrderForOrder(
 export async function orderContainsDropshippedItems(
   orderItems: OrderItem[]
 ): Promise<boolean> {
-  const variantIds = orderItems.map((item) => item.variantId);
-  const productSources = await findProductSourcesForVariants(variantIds, orderItems);
-  return productSources.length > 0;
+  const sourcesByItem = await findProductSourcesForItems(orderItems);
+  return sourcesByItem.size > 0;
 }
 
 /**
@@ -215,17 +214,14 @@ export async function orderContainsDropshippedItems(
 export async function getAliExpressUrlsForOrderItems(
   orderItems: OrderItem[]
 ): Promise<Map<string, string>> {
-  const variantIds = orderItems.map((item) => item.variantId);
-  const productSources = await findProductSourcesForVariants(variantIds, orderItems);
+  const sourcesByItem = await findProductSourcesForItems(orderItems);
   const urlMap = new Map<string, string>();
 
   for (const item of orderItems) {
-    const productSource = productSources.find((ps) => {
-      const mapping = ps.variantMapping as any;
-      return mapping && mapping[item.sku];
-    });
+    const candidates = sourcesByItem.get(item.id);
 
-    if (productSource) {
+    if (candidates) {
+      const productSource = selectFulfillmentSource(candidates, item.sku) ?? candidates[0];
       urlMap.set(item.id, productSource.aliExpressUrl);
     }
   }
@@ -238,16 +234,20 @@ export async function getAliExpressUrlsForOrderItems(
 // ============================================
 
 /**
- * Find ProductSource records for variants
+ * Find the ProductSource records for each order item's product
+ *
+ * @returns Sources keyed by order item ID, primary first; items that are
+ *   not dropshipped are left out
  */
-async function findProductSourcesForVariants(
-  variantIds: string[],
+async function findProductSourcesForItems(
   orderItems: OrderItem[]
-): Promise<ProductSourceWithMapping[]> {
+): Promise<Map<string, ProductSourceWithMapping[]>> {
+  const sourcesByItem = new Map<string, ProductSourceWithMapping[]>();
+
   // Get variants with their products
   const variants = await prisma.variant.findMany({
     where: {
-      id: { in: variantIds },
+      id: { in: orderItems.map((item) => item.variantId) },
     },
     include: {
       product: {
@@ -260,7 +260,7 @@ async function findProductSourcesForVariants(
   });
 
   if (variants.length === 0) {
-    return [];
+    return sourcesByItem;
   }
 
   // Get product slugs and Sanity IDs
@@ -275,20 +275,47 @@ async function findProductSourcesForVariants(
         { sanityProductId: { in: sanityProductIds } },
       ],
     },
+    include: {
+      supplier: {
+        select: {
+          status: true,
+          rating: true,
+        },
+      },
+    },
+    orderBy: { priority: 'asc' },
   });
 
-  return productSources.map((ps) => ({
+  const sources: ProductSourceWithMapping[] = productSources.map((ps) => ({
     id: ps.id,
     sanityProductId: ps.sanityProductId,
     productSlug: ps.productSlug,
+    priority: ps.priority,
     aliExpressProductId: ps.aliExpressProductId,
     aliExpressUrl: ps.aliExpressUrl,
     aliExpressSku: ps.aliExpressSku,
     originalPrice: Number(ps.originalPrice),
     originalCurrency: ps.originalCurrency,
+    sourceStatus: ps.sourceStatus,
+    inventoryStatus: ps.inventoryStatus,
     supplierId: ps.supplierId,
-    variantMapping: ps.variantMapping as Record<string, unknown> | null,
+    supplier: ps.supplier,
+    variantMapping: ps.variantMapping,
   }));
+
+  for (const item of orderItems) {
+    const variant = variants.find((v) => v.id === item.variantId);
+    if (!variant) continue;
+
+    const candidates = sources.filter(
+      (ps) => ps.productSlug === variant.product.slug || ps.sanityProductId === variant.product.id
+    );
+    if (candidates.length > 0) {
+      sourcesByItem.set(item.id, candidates);
+    }
+  }
+
+  return sourcesByItem;
 }
 
 /**
@@ -299,11 +326,9 @@ function getAliExpressSku(
   localSku: string
 ): string {
   // Check if there's a variant mapping
-  if (productSource.variantMapping) {
-    const mapping = productSource.variantMapping as any;
-    if (mapping[localSku]) {
-      return mapping[localSku].aliExpressSku || mapping[localSku];
-    }
+  const mappedSku = getMappedAliExpressSku(productSource.variantMapping, localSku);
+  if (mappedSku) {
+    return mappedSku;
   }
 
   // Fall back to the default SKU
@@ -0,0 +1,178 @@
+import type { FulfillmentStatus, OrderStatus, ShipmentStatus } from '@prisma/client';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * An order line as shipment planning sees it
+ */
+export interface PlanOrderItem {
+  id: string;
+  quantity: number;
+}
+
+/**
+ * Units of an order line packed in a shipment
+ */
+export interface PlanShipmentItem {
+  orderItemId: string;
+  quantity: number;
+}
+
+/**
+ * A shipment as shipment planning sees it
+ */
+export interface PlanShipment {
+  status: ShipmentStatus;
+  supplierId: string | null;
+  items: PlanShipmentItem[];
+}
+
+/**
+ * Order lines that ship together from one source
+ */
+export interface ShipmentGroup {
+  /** Supplier sending the parcel; null for in-house stock */
+  supplierId: string | null;
+  items: PlanShipmentItem[];
+}
+
+/**
+ * How much of an order line has shipped and arrived
+ */
+export interface ItemFulfillment {
+  orderItemId: string;
+  quantity: number;
+  shipped: number;
+  delivered: number;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Group the units of an order that are not in a shipment yet by where
+ * they ship from
+ *
+ * Dropshipped lines go in one group per supplier, everything else in a
+ * single in-house group, which comes first. Units already in a shipment
+ * that isn't cancelled are left out, so shipped parcels stay as they are.
+ *
+ * @param orderItems - The order's lines
+ * @param supplierByOrderItem - Supplier of each dropshipped line
+ * @param shipments - Shipments the units are already allocated to
+ */
+export function groupShipmentItems(
+  orderItems: PlanOrderItem[],
+  supplierByOrderItem: Map<string, string>,
+  shipments: PlanShipment[] = []
+): ShipmentGroup[] {
+  const allocated = countUnits(shipments, () => true);
+  const groups = new Map<string | null, PlanShipmentItem[]>();
+
+  for (const item of orderItems) {
+    const remaining = item.quantity - (allocated.get(item.id) ?? 0);
+    if (remaining <= 0) continue;
+
+    const supplierId = supplierByOrderItem.get(item.id) ?? null;
+    const items = groups.get(supplierId) ?? [];
+    items.push({ orderItemId: item.id, quantity: remaining });
+    groups.set(supplierId, items);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? -1 : b === null ? 1 : 0))
+    .map(([supplierId, items]) => ({ supplierId, items }));
+}
+
+// ============================================
+// FULFILLMENT STATUS
+// ============================================
+
+/**
+ * Units per order line in shipments matching a predicate, ignoring
+ * cancelled shipments
+ */
+function countUnits(
+  shipments: PlanShipment[],
+  predicate: (shipment: PlanShipment) => boolean
+): Map<string, number> {
+  const units = new Map<string, number>();
+
+  for (const shipment of shipments) {
+    if (shipment.status === 'CANCELLED' || !predicate(shipment)) continue;
+    for (const item of shipment.items) {
+      units.set(item.orderItemId, (units.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Work out how much of each order line has shipped and arrived
+ */
+export function getItemFulfillment(orderItems: PlanOrderItem[], shipments: PlanShipment[]): ItemFulfillment[] {
+  const shipped = countUnits(shipments, (s) => s.status === 'SHIPPED' || s.status === 'DELIVERED');
+  const delivered = countUnits(shipments, (s) => s.status === 'DELIVERED');
+
+  return orderItems.map((item) => ({
+    orderItemId: item.id,
+    quantity: item.quantity,
+    shipped: Math.min(item.quantity, shipped.get(item.id) ?? 0),
+    delivered: Math.min(item.quantity, delivered.get(item.id) ?? 0),
+  }));
+}
+
+/**
+ * Derive an order's fulfillment status from its shipments
+ *
+ * A restocked order stays restocked.
+ */
+export function deriveFulfillmentStatus(
+  current: FulfillmentStatus,
+  orderItems: PlanOrderItem[],
+  shipments: PlanShipment[]
+): FulfillmentStatus {
+  if (current === 'RESTOCKED') {
+    return current;
+  }
+
+  const items = getItemFulfillment(orderItems, shipments);
+  const shippedUnits = items.reduce((sum, item) => sum + item.shipped, 0);
+
+  if (shippedUnits === 0) {
+    return 'UNFULFILLED';
+  }
+  return items.every((item) => item.shipped >= item.quantity) ? 'FULFILLED' : 'PARTIALLY_FULFILLED';
+}
+
+/**
+ * Derive an order's status from its shipments
+ *
+ * The order is SHIPPED once its first parcel ships and DELIVERED once every
+ * unit has shipped and every parcel that isn't cancelled has arrived. It
+ * never moves back, and cancelled or refunded orders keep their status.
+ */
+export function deriveOrderStatus(
+  current: OrderStatus,
+  orderItems: PlanOrderItem[],
+  shipments: PlanShipment[]
+): OrderStatus {
+  if (current === 'CANCELLED' || current === 'REFUNDED' || current === 'DELIVERED') {
+    return current;
+  }
+
+  const active = shipments.filter((shipment) => shipment.status !== 'CANCELLED');
+  const fulfillment = deriveFulfillmentStatus('UNFULFILLED', orderItems, shipments);
+
+  if (fulfillment === 'FULFILLED' && active.every((shipment) => shipment.status === 'DELIVERED')) {
+    return 'DELIVERED';
+  }
+  if (active.some((shipment) => shipment.status === 'SHIPPED' || shipment.status === 'DELIVERED')) {
+    return 'SHIPPED';
+  }
+  return current;
+}
@@ -0,0 +1,677 @@
+import { prisma } from '@/lib/prisma';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import {
+  DropshipOrderStatus,
+  DropshipOrderEventType,
+  FulfillmentStatus,
+  OrderStatus,
+  Prisma,
+  ShipmentStatus,
+} from '@prisma/client';
+import { completeTrackingDetails } from '@/lib/tracking/carriers';
+import { recordDropshipOrderEvent, transitionDropshipOrder } from './events';
+import { FulfillmentNotificationService } from './notifications';
+import {
+  deriveFulfillmentStatus,
+  deriveOrderStatus,
+  groupShipmentItems,
+} from './shipment-plan';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * Carrier details for a parcel
+ */
+export interface ShipmentTracking {
+  trackingNumber: string | null;
+  carrier?: string | null;
+  trackingUrl?: string | null;
+  estimatedDelivery?: Date | null;
+}
+
+/**
+ * Options for shipping or delivering parcels
+ */
+export interface ShipmentUpdateOptions {
+  /** Staff member who acted; omit for system updates */
+  actorId?: string | null;
+  /** Email the customer (default: true) */
+  notifyCustomer?: boolean;
+  /** When it happened, if not now, e.g. the carrier's scan time */
+  occurredAt?: Date;
+}
+
+/**
+ * The order's state after a shipment update
+ */
+export interface ShipmentUpdateResult {
+  orderId: string;
+  orderStatus: OrderStatus;
+  fulfillmentStatus: FulfillmentStatus;
+}
+
+/**
+ * A parcel as the customer sees it
+ */
+export interface OrderShipmentSummary {
+  id: string;
+  status: ShipmentStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  estimatedDelivery: Date | null;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  items: Array<{
+    orderItemId: string;
+    productName: string;
+    variantName: string;
+    quantity: number;
+  }>;
+}
+
+/**
+ * Dropship order statuses a supplier parcel can ship from
+ */
+const SHIPPABLE_DROPSHIP_STATUSES: DropshipOrderStatus[] = [
+  DropshipOrderStatus.PLACED,
+  DropshipOrderStatus.CONFIRMED,
+];
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Split an order into the parcels it ships in
+ *
+ * One shipment per supplier for dropshipped lines and one for in-house
+ * stock. Safe to run again after the order's sources change: pending
+ * shipments without tracking are replaced, while parcels that have
+ * tracking or have shipped are kept and their units left out.
+ *
+ * Pass the transaction client so the plan commits with the change that
+ * needs it.
+ */
+export async function planOrderShipments(client: Prisma.TransactionClient, orderId: string): Promise<void> {
+  await client.shipment.deleteMany({
+    where: { orderId, status: ShipmentStatus.PENDING, trackingNumber: null },
+  });
+
+  const order = await client.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      items: { select: { id: true, quantity: true } },
+      dropshipOrder: {
+        select: {
+          id: true,
+          items: {
+            select: {
+              orderItemId: true,
+              productSource: { select: { supplierId: true } },
+            },
+          },
+        },
+      },
+      shipments: { select: { status: true, supplierId: true, items: true } },
+    },
+  });
+
+  const supplierByOrderItem = new Map(
+    (order.dropshipOrder?.items ?? []).map((item) => [item.orderItemId, item.productSource.supplierId])
+  );
+
+  const groups = groupShipmentItems(order.items, supplierByOrderItem, order.shipments);
+
+  for (const group of groups) {
+    await client.shipment.create({
+      data: {
+        orderId,
+        supplierId: group.supplierId,
+        dropshipOrderId: group.supplierId ? order.dropshipOrder?.id : null,
+        items: {
+          create: group.items.map((item) => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+          })),
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Give a dropship order from before shipments existed its parcels
+ *
+ * If it has already shipped, its parcels carry the order's tracking.
+ */
+async function ensureDropshipShipments(client: Prisma.TransactionClient, dropshipOrderId: string): Promise<void> {
+  const dropshipOrder = await client.dropshipOrder.findUniqueOrThrow({
+    where: { id: dropshipOrderId },
+    select: {
+      orderId: true,
+      status: true,
+      trackingNumber: true,
+      carrier: true,
+      trackingUrl: true,
+      shippedAt: true,
+      _count: { select: { shipments: true } },
+    },
+  });
+
+  if (dropshipOrder._count.shipments > 0) return;
+
+  await planOrderShipments(client, dropshipOrder.orderId);
+
+  if (dropshipOrder.status === DropshipOrderStatus.SHIPPED) {
+    const shippedAt = dropshipOrder.shippedAt ?? new Date();
+    await client.shipment.updateMany({
+      where: { dropshipOrderId, status: ShipmentStatus.PENDING },
+      data: {
+        status: ShipmentStatus.SHIPPED,
+        trackingNumber: dropshipOrder.trackingNumber,
+        carrier: dropshipOrder.carrier,
+        trackingUrl: dropshipOrder.trackingUrl,
+        shippedAt,
+        // The customer was emailed when the order shipped
+        notifiedAt: shippedAt,
+      },
+    });
+  }
+}
+
+// ============================================
+// STATUS SYNC
+// ============================================
+
+/**
+ * Bring the order's status and fulfillment status in line with its
+ * shipments
+ */
+export async function syncOrderFulfillment(
+  client: Prisma.TransactionClient,
+  orderId: string
+): Promise<ShipmentUpdateResult> {
+  const order = await client.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      status: true,
+      fulfillmentStatus: true,
+      shippedAt: true,
+      deliveredAt: true,
+      items: { select: { id: true, quantity: true } },
+      shipments: { select: { status: true, supplierId: true, items: true } },
+    },
+  });
+
+  const orderStatus = deriveOrderStatus(order.status, order.items, order.shipments);
+  const fulfillmentStatus = deriveFulfillmentStatus(order.fulfillmentStatus, order.items, order.shipments);
+
+  if (orderStatus !== order.status || fulfillmentStatus !== order.fulfillmentStatus) {
+    const now = new Date();
+    await client.order.update({
+      where: { id: orderId },
+      data: {
+        status: orderStatus,
+        fulfillmentStatus,
+        shippedAt: orderStatus === OrderStatus.SHIPPED || orderStatus === OrderStatus.DELIVERED
+          ? order.shippedAt ?? now
+          : undefined,
+        deliveredAt: orderStatus === OrderStatus.DELIVERED ? order.deliveredAt ?? now : undefined,
+        updatedAt: now,
+      },
+    });
+  }
+
+  return { orderId, orderStatus, fulfillmentStatus };
+}
+
+/**
+ * Move a dropship order on once all of its parcels have shipped or arrived
+ */
+async function syncDropshipOrder(
+  client: Prisma.TransactionClient,
+  dropshipOrderId: string,
+  actorId: string | null | undefined
+): Promise<void> {
+  const dropshipOrder = await client.dropshipOrder.findUniqueOrThrow({
+    where: { id: dropshipOrderId },
+    select: {
+      status: true,
+      shipments: {
+        where: { status: { not: ShipmentStatus.CANCELLED } },
+        select: { status: true, trackingNumber: true, carrier: true, trackingUrl: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  const { status, shipments } = dropshipOrder;
+  if (shipments.length === 0) return;
+
+  const allShipped = shipments.every(
+    (s) => s.status === ShipmentStatus.SHIPPED || s.status === ShipmentStatus.DELIVERED
+  );
+  const allDelivered = shipments.every((s) => s.status === ShipmentStatus.DELIVERED);
+  const now = new Date();
+
+  if (allShipped && SHIPPABLE_DROPSHIP_STATUSES.includes(status)) {
+    // The first parcel's tracking stands in for the order's
+    const [first] = shipments;
+    await transitionDropshipOrder(client, dropshipOrderId, {
+      fromStatus: status,
+      toStatus: DropshipOrderStatus.SHIPPED,
+      data: {
+        trackingNumber: first.trackingNumber,
+        carrier: first.carrier,
+        trackingUrl: first.trackingUrl,
+        shippedAt: now,
+      },
+      actorId,
+      note: shipments.length > 1 ? `All ${shipments.length} parcels shipped` : null,
+    });
+    if (allDelivered) {
+      await syncDropshipOrder(client, dropshipOrderId, actorId);
+    }
+  } else if (allDelivered && status === DropshipOrderStatus.SHIPPED) {
+    await transitionDropshipOrder(client, dropshipOrderId, {
+      fromStatus: status,
+      toStatus: DropshipOrderStatus.DELIVERED,
+      data: { deliveredAt: now, actualDelivery: now },
+      actorId,
+    });
+  }
+}
+
+// ============================================
+// SHIPMENT UPDATES
+// ============================================
+
+/**
+ * Mark a pending shipment as shipped, inside a transaction
+ */
+async function markShipmentShipped(
+  client: Prisma.TransactionClient,
+  shipmentId: string,
+  tracking: ShipmentTracking,
+  options: ShipmentUpdateOptions
+): Promise<ShipmentUpdateResult> {
+  const { actorId } = options;
+  const shipment = await client.shipment.findUnique({
+    where: { id: shipmentId },
+    include: { dropshipOrder: { select: { status: true } } },
+  });
+
+  if (!shipment) {
+    throw new NotFoundError('Shipment not found');
+  }
+  const dropshipStatus = shipment.dropshipOrder?.status;
+  if (dropshipStatus && !SHIPPABLE_DROPSHIP_STATUSES.includes(dropshipStatus)) {
+    throw new ConflictError(`Cannot ship a supplier parcel while its order is ${dropshipStatus}`);
+  }
+
+  // Staff often leave the carrier blank; work it out from the number
+  const trackingData = completeTrackingDetails(tracking);
+
+  const { count } = await client.shipment.updateMany({
+    where: { id: shipmentId, status: ShipmentStatus.PENDING },
+    data: {
+      ...trackingData,
+      estimatedDelivery: tracking.estimatedDelivery ?? undefined,
+      status: ShipmentStatus.SHIPPED,
+      shippedAt: options.occurredAt ?? new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Only pending shipments can be marked as shipped');
+  }
+
+  if (shipment.dropshipOrderId && dropshipStatus) {
+    await recordDropshipOrderEvent(client, {
+      dropshipOrderId: shipment.dropshipOrderId,
+      type: DropshipOrderEventType.TRACKING_UPDATED,
+      fromStatus: dropshipStatus,
+      toStatus: dropshipStatus,
+      actorId,
+      note: 'Parcel shipped',
+      payload: { shipmentId, ...trackingData },
+    });
+    await syncDropshipOrder(client, shipment.dropshipOrderId, actorId);
+  }
+
+  return syncOrderFulfillment(client, shipment.orderId);
+}
+
+/**
+ * Mark a shipped shipment as delivered, inside a transaction
+ */
+async function markShipmentDelivered(
+  client: Prisma.TransactionClient,
+  shipmentId: string,
+  options: ShipmentUpdateOptions
+): Promise<ShipmentUpdateResult> {
+  const { actorId } = options;
+  const shipment = await client.shipment.findUnique({ where: { id: shipmentId } });
+
+  if (!shipment) {
+    throw new NotFoundError('Shipment not found');
+  }
+
+  const { count } = await client.shipment.updateMany({
+    where: { id: shipmentId, status: ShipmentStatus.SHIPPED },
+    data: { status: ShipmentStatus.DELIVERED, deliveredAt: options.occurredAt ?? new Date() },
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Only shipped shipments can be marked as delivered');
+  }
+
+  if (shipment.dropshipOrderId) {
+    await syncDropshipOrder(client, shipment.dropshipOrderId, actorId);
+  }
+
+  return syncOrderFulfillment(client, shipment.orderId);
+}
+
+/**
+ * Mark a shipment as shipped and email the customer about that parcel
+ *
+ * @throws NotFoundError if the shipment does not exist
+ * @throws ConflictError if the shipment is not pending, or its supplier
+ *   order has not been placed
+ */
+export async function shipShipment(
+  shipmentId: string,
+  tracking: ShipmentTracking,
+  options: ShipmentUpdateOptions = {}
+): Promise<ShipmentUpdateResult> {
+  const result = await prisma.$transaction((tx) =>
+    markShipmentShipped(tx, shipmentId, tracking, options)
+  );
+
+  if (options.notifyCustomer !== false) {
+    await notifyShipmentShipped(shipmentId);
+  }
+
+  return result;
+}
+
+/**
+ * Mark a shipment as delivered; once the whole order has arrived the
+ * customer gets the delivery email
+ *
+ * @throws NotFoundError if the shipment does not exist
+ * @throws ConflictError if the shipment has not shipped
+ */
+export async function deliverShipment(
+  shipmentId: string,
+  options: ShipmentUpdateOptions = {}
+): Promise<ShipmentUpdateResult> {
+  const { result, arrived } = await prisma.$transaction(async (tx) => {
+    const before = await tx.shipment.findUnique({
+      where: { id: shipmentId },
+      select: { order: { select: { status: true } } },
+    });
+    const updated = await markShipmentDelivered(tx, shipmentId, options);
+    return {
+      result: updated,
+      // Only the parcel that completes the order triggers the email
+      arrived: before?.order.status !== OrderStatus.DELIVERED && updated.orderStatus === OrderStatus.DELIVERED,
+    };
+  });
+
+  if (arrived && options.notifyCustomer !== false) {
+    await notifyOrderDelivered(result.orderId);
+  }
+
+  return result;
+}
+
+/**
+ * Ship everything still pending on a dropship order as one parcel
+ *
+ * For suppliers that send an order in a single package; the order's
+ * pending parcels are merged first.
+ *
+ * @throws ConflictError if nothing on the order is left to ship
+ */
+export async function shipDropshipOrder(
+  dropshipOrderId: string,
+  tracking: ShipmentTracking,
+  options: ShipmentUpdateOptions = {}
+): Promise<ShipmentUpdateResult> {
+  const { shipmentId, result } = await prisma.$transaction(async (tx) => {
+    await ensureDropshipShipments(tx, dropshipOrderId);
+
+    const pending = await tx.shipment.findMany({
+      where: { dropshipOrderId, status: ShipmentStatus.PENDING },
+      include: { items: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (pending.length === 0) {
+      throw new ConflictError('Nothing on this order is left to ship');
+    }
+
+    const [target, ...rest] = pending;
+    for (const item of rest.flatMap((shipment) => shipment.items)) {
+      await tx.shipmentItem.upsert({
+        where: { shipmentId_orderItemId: { shipmentId: target.id, orderItemId: item.orderItemId } },
+        create: { shipmentId: target.id, orderItemId: item.orderItemId, quantity: item.quantity },
+        update: { quantity: { increment: item.quantity } },
+      });
+    }
+    if (rest.length > 0) {
+      await tx.shipment.deleteMany({ where: { id: { in: rest.map((shipment) => shipment.id) } } });
+    }
+
+    return {
+      shipmentId: target.id,
+      result: await markShipmentShipped(tx, target.id, tracking, options),
+    };
+  });
+
+  if (options.notifyCustomer !== false) {
+    await notifyShipmentShipped(shipmentId);
+  }
+
+  return result;
+}
+
+/**
+ * Mark every shipped parcel on a dropship order as delivered
+ *
+ * @throws ConflictError if none of the order's parcels have shipped
+ */
+export async function deliverDropshipOrder(
+  dropshipOrderId: string,
+  options: ShipmentUpdateOptions = {}
+): Promise<ShipmentUpdateResult> {
+  await prisma.$transaction((tx) => ensureDropshipShipments(tx, dropshipOrderId));
+
+  const shipments = await prisma.shipment.findMany({
+    where: { dropshipOrderId, status: ShipmentStatus.SHIPPED },
+    select: { id: true },
+  });
+  if (shipments.length === 0) {
+    throw new ConflictError('None of this order\'s parcels have shipped');
+  }
+
+  let result: ShipmentUpdateResult | undefined;
+  for (const shipment of shipments) {
+    result = await deliverShipment(shipment.id, options);
+  }
+  return result!;
+}
+
+/**
+ * Correct the tracking on a dropship order's parcel
+ *
+ * Applies to the order's only parcel; orders split across several parcels
+ * are corrected per shipment. A new tracking number drops the scans of the
+ * old one.
+ *
+ * @returns The shipment updated, if any
+ */
+export async function updateDropshipShipmentTracking(
+  client: Prisma.TransactionClient,
+  dropshipOrderId: string,
+  tracking: ShipmentTracking
+): Promise<string | null> {
+  const shipments = await client.shipment.findMany({
+    where: { dropshipOrderId, status: { not: ShipmentStatus.CANCELLED } },
+    select: { id: true, trackingNumber: true },
+  });
+  if (shipments.length !== 1) {
+    return null;
+  }
+
+  const [shipment] = shipments;
+  const trackingData = completeTrackingDetails(tracking);
+
+  if (trackingData.trackingNumber !== shipment.trackingNumber) {
+    await client.trackingEvent.deleteMany({ where: { shipmentId: shipment.id } });
+  }
+
+  await client.shipment.update({
+    where: { id: shipment.id },
+    data: {
+      ...trackingData,
+      ...(trackingData.trackingNumber !== shipment.trackingNumber && {
+        trackingStatus: null,
+        lastEventAt: null,
+        lastTrackedAt: null,
+      }),
+    },
+  });
+  return shipment.id;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get an order's parcels, oldest first, leaving out cancelled ones
+ */
+export async function getOrderShipments(orderId: string): Promise<OrderShipmentSummary[]> {
+  const shipments = await prisma.shipment.findMany({
+    where: { orderId, status: { not: ShipmentStatus.CANCELLED } },
+    include: {
+      items: {
+        include: {
+          orderItem: { select: { productName: true, variantName: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return shipments.map((shipment) => ({
+    id: shipment.id,
+    status: shipment.status,
+    carrier: shipment.carrier,
+    trackingNumber: shipment.trackingNumber,
+    trackingUrl: shipment.trackingUrl,
+    estimatedDelivery: shipment.estimatedDelivery,
+    shippedAt: shipment.shippedAt,
+    deliveredAt: shipment.deliveredAt,
+    items: shipment.items.map((item) => ({
+      orderItemId: item.orderItemId,
+      productName: item.orderItem.productName,
+      variantName: item.orderItem.variantName,
+      quantity: item.quantity,
+    })),
+  }));
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+/**
+ * Email the customer that a parcel shipped
+ *
+ * Failures are logged rather than thrown so the status change stands.
+ */
+export async function notifyShipmentShipped(shipmentId: string): Promise<void> {
+  try {
+    const shipment = await prisma.shipment.findUniqueOrThrow({
+      where: { id: shipmentId },
+      include: {
+        items: { include: { orderItem: true } },
+        order: {
+          include: {
+            items: true,
+            shipments: {
+              where: { status: { not: ShipmentStatus.CANCELLED } },
+              select: { id: true },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    const { order } = shipment;
+    const notificationService = new FulfillmentNotificationService();
+    await notificationService.sendShippingNotification(
+      {
+        orderNumber: order.orderNumber,
+        customerEmail: order.customerEmail,
+        shippingAddress: order.shippingAddress as Record<string, unknown>,
+        items: order.items.map(toNotificationItem),
+      },
+      {
+        trackingNumber: shipment.trackingNumber,
+        carrier: shipment.carrier,
+        trackingUrl: shipment.trackingUrl,
+        items: shipment.items.map((item) => ({ ...toNotificationItem(item.orderItem), quantity: item.quantity })),
+        packageNumber: order.shipments.findIndex((s) => s.id === shipment.id) + 1,
+        packageCount: order.shipments.length,
+      }
+    );
+
+    await prisma.shipment.update({ where: { id: shipmentId }, data: { notifiedAt: new Date() } });
+  } catch (error) {
+    console.error('Failed to send shipping notification:', error);
+  }
+}
+
+/**
+ * Email the customer that the whole order has arrived
+ */
+async function notifyOrderDelivered(orderId: string): Promise<void> {
+  try {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { items: true },
+    });
+
+    const notificationService = new FulfillmentNotificationService();
+    await notificationService.sendDeliveryNotification({
+      orderNumber: order.orderNumber,
+      customerEmail: order.customerEmail,
+      shippingAddress: order.shippingAddress as Record<string, unknown>,
+      items: order.items.map(toNotificationItem),
+    });
+  } catch (error) {
+    console.error('Failed to send delivery notification:', error);
+  }
+}
+
+function toNotificationItem(item: {
+  productName: string;
+  variantName: string;
+  quantity: number;
+  unitPrice: Prisma.Decimal;
+}) {
+  return {
+    productName: item.productName,
+    variantName: item.variantName,
+    quantity: item.quantity,
+    unitPrice: Number(item.unitPrice),
+  };
+}
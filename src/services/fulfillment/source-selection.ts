@@ -0,0 +1,144 @@
+import type { InventoryStatus, SourceStatus, SupplierStatus } from '@prisma/client';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A product source that could fulfill an order item
+ */
+export interface FulfillmentSourceCandidate {
+  id: string;
+  /** Fulfillment rank among the product's sources (0 = primary) */
+  priority: number;
+  /** Supplier cost per unit */
+  originalPrice: number;
+  sourceStatus: SourceStatus;
+  inventoryStatus: InventoryStatus;
+  aliExpressSku: string | null;
+  variantMapping: unknown;
+  supplier: {
+    status: SupplierStatus;
+    rating: number | null;
+  };
+}
+
+/**
+ * Source statuses that can still take orders. PRICE_CHANGED sources are
+ * waiting on a price review but the listing itself is fine.
+ */
+const ORDERABLE_SOURCE_STATUSES: SourceStatus[] = ['ACTIVE', 'PRICE_CHANGED'];
+
+/**
+ * Better stock first when ranks tie
+ */
+const INVENTORY_STATUS_ORDER: Record<InventoryStatus, number> = {
+  AVAILABLE: 0,
+  LOW_STOCK: 1,
+  OUT_OF_STOCK: 2,
+};
+
+// ============================================
+// SOURCE SELECTION
+// ============================================
+
+/**
+ * Get the AliExpress SKU a local variant SKU maps to
+ *
+ * Handles both mapping shapes found in `ProductSource.variantMapping`: the
+ * `VariantMapping[]` written by the import and the older object keyed by
+ * local SKU.
+ *
+ * @returns The AliExpress SKU, or null if the variant is not mapped
+ */
+export function getMappedAliExpressSku(variantMapping: unknown, localSku: string): string | null {
+  if (!variantMapping || typeof variantMapping !== 'object') {
+    return null;
+  }
+
+  if (Array.isArray(variantMapping)) {
+    const mapping = variantMapping.find(
+      (entry) => entry && typeof entry === 'object' && entry.localVariantSku === localSku
+    );
+    return mapping?.aliExpressSku ?? null;
+  }
+
+  const entry = (variantMapping as Record<string, unknown>)[localSku];
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  if (entry && typeof entry === 'object' && 'aliExpressSku' in entry) {
+    return String((entry as { aliExpressSku: unknown }).aliExpressSku);
+  }
+  return null;
+}
+
+/**
+ * Whether a source has any variant mapping entries
+ */
+function hasVariantMapping(variantMapping: unknown): boolean {
+  if (Array.isArray(variantMapping)) {
+    return variantMapping.length > 0;
+  }
+  return !!variantMapping && typeof variantMapping === 'object' && Object.keys(variantMapping).length > 0;
+}
+
+/**
+ * Check whether a source can fulfill an item right now
+ *
+ * @param source - The candidate source
+ * @param localSku - The ordered variant's SKU; a source with a variant
+ *   mapping must map it
+ */
+export function isSourceHealthy(source: FulfillmentSourceCandidate, localSku?: string): boolean {
+  if (!ORDERABLE_SOURCE_STATUSES.includes(source.sourceStatus)) {
+    return false;
+  }
+
+  if (source.inventoryStatus === 'OUT_OF_STOCK') {
+    return false;
+  }
+
+  if (source.supplier.status !== 'ACTIVE') {
+    return false;
+  }
+
+  if (localSku && hasVariantMapping(source.variantMapping)) {
+    return getMappedAliExpressSku(source.variantMapping, localSku) !== null;
+  }
+
+  return true;
+}
+
+/**
+ * Rank the healthy sources for an item, best first
+ *
+ * Staff-assigned priority decides; ties go to better stock, then lower
+ * cost, then the better-rated supplier.
+ */
+export function rankFulfillmentSources<T extends FulfillmentSourceCandidate>(
+  sources: T[],
+  localSku?: string
+): T[] {
+  return sources
+    .filter((source) => isSourceHealthy(source, localSku))
+    .sort(
+      (a, b) =>
+        a.priority - b.priority ||
+        INVENTORY_STATUS_ORDER[a.inventoryStatus] - INVENTORY_STATUS_ORDER[b.inventoryStatus] ||
+        a.originalPrice - b.originalPrice ||
+        (b.supplier.rating ?? 0) - (a.supplier.rating ?? 0)
+    );
+}
+
+/**
+ * Pick the best healthy source for an item
+ *
+ * @returns The source to order from, or null if none is healthy
+ */
+export function selectFulfillmentSource<T extends FulfillmentSourceCandidate>(
+  sources: T[],
+  localSku?: string
+): T | null {
+  return rankFulfillmentSources(sources, localSku)[0] ?? null;
+}
@@ -59,7 +59,9 @@ export {
   getImportService,
   importProduct,
   previewImport,
+  addBackupSource,
   type ImportProductInput,
+  type AddBackupSourceInput,
   type ImportResult,
   type ImportPreview,
   type ImportJobStatus,
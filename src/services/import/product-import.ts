@@ -55,6 +55,16 @@ export interface ImportResult {
   errorDetails?: Record<string, unknown>;
 }
 
+/**
+ * Input for adding a backup source to an imported product
+ */
+export interface AddBackupSourceInput {
+  /** An existing ProductSource of the product */
+  productSourceId: string;
+  /** AliExpress URL of the backup listing */
+  url: string;
+}
+
 /**
  * Preview of an import before committing
  */
@@ -91,7 +101,7 @@ export interface ImportJobStatus {
   /** Job ID */
   jobId: string;
   /** Current status */
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   /** Progress percentage (0-100) */
   progress: number;
   /** Current step description */
@@ -222,6 +232,125 @@ export class ProductImportService {
     }
   }
 
+  /**
+   * Add a backup AliExpress listing to an imported product
+   *
+   * The backup ranks after the product's existing sources. Its variants are
+   * matched to the product's variants by name, so fulfillment can order the
+   * same size or color from it when the primary is unavailable.
+   *
+   * @param input - An existing source of the product and the backup URL
+   * @returns Import result with the new ProductSource ID
+   */
+  async addBackupSource(input: AddBackupSourceInput): Promise<ImportResult> {
+    try {
+      const primary = await prisma.productSource.findUnique({
+        where: { id: input.productSourceId },
+      });
+      if (!primary) {
+        return { success: false, error: 'Product source not found' };
+      }
+
+      const aliExpressData = await this.scraper.scrapeProduct(input.url);
+
+      const existing = await prisma.productSource.findFirst({
+        where: {
+          sanityProductId: primary.sanityProductId,
+          aliExpressProductId: aliExpressData.productId,
+        },
+      });
+      if (existing) {
+        return { success: false, error: 'This listing is already a source for the product' };
+      }
+
+      const categoryPricing = await this.getCategoryPricing(primary.categoryId);
+      const transformed = this.transformer.transformProduct(
+        aliExpressData,
+        categoryPricing,
+        primary.categoryId
+      );
+
+      // Match the listing's variants to ours by name
+      const localVariants = await prisma.variant.findMany({
+        where: { product: { slug: primary.productSlug } },
+        select: { sku: true, name: true },
+      });
+      const normalize = (name: string) => name.trim().toLowerCase();
+      const variantMapping = aliExpressData.variants.length === 0
+        ? []
+        : localVariants.flatMap((local) => {
+            const match = transformed.variants.find((v) => normalize(v.name) === normalize(local.name));
+            if (!match) return [];
+            const source = aliExpressData.variants.find((v) => v.skuId === match.aliExpressSku);
+            return [{
+              localVariantSku: local.sku,
+              aliExpressSku: match.aliExpressSku,
+              aliExpressVariantName: source?.name ?? match.name,
+            }];
+          });
+
+      if (aliExpressData.variants.length > 0 && variantMapping.length === 0) {
+        return {
+          success: false,
+          error: "None of the listing's variants match this product's variants",
+        };
+      }
+
+      const supplier = await this.upsertSupplier({
+        aliExpressId: aliExpressData.supplierId,
+        name: aliExpressData.supplierName,
+        storeUrl: aliExpressData.storeUrl,
+        rating: aliExpressData.supplierRating,
+      });
+
+      const lastRanked = await prisma.productSource.findFirst({
+        where: { sanityProductId: primary.sanityProductId },
+        orderBy: { priority: 'desc' },
+        select: { priority: true },
+      });
+
+      const stockValidation = this.stockValidator.validateProductStock(aliExpressData);
+      let inventoryStatus: InventoryStatus = 'AVAILABLE';
+      if (stockValidation.isCompletelyOutOfStock) {
+        inventoryStatus = 'OUT_OF_STOCK';
+      } else if (stockValidation.hasPartialStock) {
+        inventoryStatus = 'LOW_STOCK';
+      }
+
+      const productSource = await prisma.productSource.create({
+        data: {
+          sanityProductId: primary.sanityProductId,
+          productSlug: primary.productSlug,
+          priority: (lastRanked?.priority ?? 0) + 1,
+          aliExpressProductId: aliExpressData.productId,
+          aliExpressUrl: transformed.aliExpressUrl,
+          supplierId: supplier.id,
+          originalPrice: transformed.costPrice,
+          originalCurrency: 'USD',
+          categoryId: primary.categoryId,
+          originalImageUrls: transformed.originalImageUrls,
+          variantMapping,
+          lastSyncedAt: new Date(),
+          sourceStatus: 'ACTIVE' as SourceStatus,
+          inventoryStatus,
+        },
+      });
+
+      return {
+        success: true,
+        sanityProductId: primary.sanityProductId,
+        productSlug: primary.productSlug,
+        productSourceId: productSource.id,
+      };
+    } catch (error) {
+      console.error('Backup source import error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during import',
+      };
+    }
+  }
+
   /**
    * Preview import without committing
    *
@@ -573,6 +702,18 @@ export async function importProduct(input: ImportProductInput): Promise<ImportRe
   }
 }
 
+/**
+ * Add backup source (convenience function)
+ */
+export async function addBackupSource(input: AddBackupSourceInput): Promise<ImportResult> {
+  const service = getImportService();
+  try {
+    return await service.addBackupSource(input);
+  } finally {
+    await service.close();
+  }
+}
+
 /**
  * Preview import (convenience function)
  */
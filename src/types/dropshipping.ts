@@ -106,6 +106,8 @@ export interface ProductSource {
   sanityProductId: string;
   /** Product slug for quick lookups */
   productSlug: string;
+  /** Fulfillment rank among the product's sources (0 = primary) */
+  priority: number;
   /** AliExpress product ID */
   aliExpressProductId: string;
   /** AliExpress product URL */
@@ -144,6 +146,7 @@ export interface ProductSource {
 export interface CreateProductSourceInput {
   sanityProductId: string;
   productSlug: string;
+  priority?: number;
   aliExpressProductId: string;
   aliExpressUrl: string;
   aliExpressSku?: string;
@@ -159,6 +162,7 @@ export interface CreateProductSourceInput {
  * Data for updating a product source
  */
 export interface UpdateProductSourceInput {
+  priority?: number;
   aliExpressSku?: string;
   originalPrice?: number;
   originalCurrency?: string;
@@ -68,21 +68,41 @@ export interface RegistryItem {
 }
 
 /**
- * Represents a child's growth measurement entry
+ * Represents a user's child, for growth tracking
  */
-export interface GrowthEntry {
+export interface Child {
   /** Unique identifier */
   id: string;
-  /** ID of the user who owns this entry */
+  /** ID of the user who owns this child */
   userId: string;
   /** Child's name */
-  childName: string;
-  /** Child's birth date */
-  childBirthDate: Date;
+  name: string;
+  /** Child's birth date (optional) */
+  birthDate?: Date;
+  /** Due date, for babies not yet born (optional) */
+  dueDate?: Date;
+  /** Sex used to pick a growth chart (optional) */
+  sex?: 'MALE' | 'FEMALE';
+  /** Child creation timestamp */
+  createdAt: Date;
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+/**
+ * Represents a child's growth measurement entry
+ */
+export interface GrowthEntry {
+  /** Unique identifier */
+  id: string;
+  /** ID of the child this entry belongs to */
+  childId: string;
   /** Height measurement in cm (optional) */
   height?: number;
   /** Weight measurement in kg (optional) */
   weight?: number;
+  /** Head circumference in cm (optional) */
+  headCircumference?: number;
   /** Date when measurement was recorded */
   recordedAt: Date;
   /** Notes about this measurement (optional) */